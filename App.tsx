@@ -1,7 +1,10 @@
 import React, { useState } from 'react'
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { AuthProvider, useAuth } from './src/contexts/AuthContext'
+import { WorkspaceProvider, useWorkspace } from './src/contexts/WorkspaceContext'
 import LoginForm from './src/components/Auth/LoginForm'
+import AccountLinkPage, { readAccountLink } from './src/components/Auth/AccountLinkPage'
+import RequirePermission from './src/components/Auth/RequirePermission'
 import Dashboard from './src/pages/Dashboard'
 import DocumentUpload from './src/pages/DocumentUpload'
 import RequirementsChecklist from './src/pages/RequirementsChecklist'
@@ -9,15 +12,20 @@ import ReportLibrary from './src/pages/ReportLibrary'
 import Compliance from './src/pages/Compliance'
 import ComplianceReport from './src/pages/ComplianceReport'
 import AskAI from './src/pages/AskAI'
+import AuditLog from './src/pages/AuditLog'
+import Team from './src/pages/Team'
+import Workspace from './src/pages/Workspace'
+import Settings from './src/pages/Settings'
 import { APP_CONSTANTS } from './src/utils/constants'
 import './styles/globals.css'
 
 const AppRoutes: React.FC = () => {
   const { user, loading } = useAuth()
+  const { activeWorkspace, loading: workspacesLoading } = useWorkspace()
 
   console.log('AppRoutes - user:', user, 'loading:', loading, 'DEMO_MODE:', APP_CONSTANTS.DEMO_MODE)
 
-  if (loading) {
+  if (loading || (user && workspacesLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="text-center">
@@ -42,7 +50,8 @@ const AppRoutes: React.FC = () => {
           </div>
         )}
         <div className={APP_CONSTANTS.DEMO_MODE ? "h-screen" : "h-screen"}>
-          <Routes>
+          {/* Keyed so switching workspaces remounts the page and reloads its data */}
+          <Routes key={activeWorkspace?.id}>
             <Route path="/" element={<Navigate to="/dashboard" replace />} />
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/document-upload" element={<DocumentUpload />} />
@@ -51,7 +60,10 @@ const AppRoutes: React.FC = () => {
             <Route path="/compliance-report" element={<ComplianceReport />} />
             <Route path="/ask-ai" element={<AskAI />} />
             <Route path="/report-library" element={<ReportLibrary />} />
-            <Route path="/settings" element={<Dashboard />} />
+            <Route path="/audit-log" element={<RequirePermission permission="audit:read"><AuditLog /></RequirePermission>} />
+            <Route path="/team" element={<RequirePermission permission="users:manage"><Team /></RequirePermission>} />
+            <Route path="/workspace" element={<Workspace />} />
+            <Route path="/settings" element={<Settings />} />
             <Route path="/help" element={<Dashboard />} />
             <Route path="*" element={<Navigate to="/dashboard" replace />} />
           </Routes>
@@ -62,7 +74,14 @@ const AppRoutes: React.FC = () => {
 }
 
 const AuthPage: React.FC = () => {
+  const { accounts } = useAuth()
   const [isSignUp, setIsSignUp] = useState(false)
+  // Opened from a verification, password reset or invitation email
+  const [accountLink, setAccountLink] = useState(readAccountLink)
+
+  if (accounts && accountLink) {
+    return <AccountLinkPage link={accountLink} accounts={accounts} onDone={() => setAccountLink(null)} />
+  }
 
   return (
     <LoginForm 
@@ -75,7 +94,9 @@ const AuthPage: React.FC = () => {
 const App: React.FC = () => {
   return (
     <AuthProvider>
-      <AppRoutes />
+      <WorkspaceProvider>
+        <AppRoutes />
+      </WorkspaceProvider>
     </AuthProvider>
   )
 }
@@ -0,0 +1,155 @@
+import crypto from 'crypto'
+import { SERVER_CONFIG } from './config'
+import { query } from './db'
+import { HttpError } from './http'
+import { sendMail, type SentMail } from './mailer'
+
+// One-time links for password accounts: email verification, password reset and invitations
+// (migration 010). The link carries a random token; only its SHA-256 hash is stored, and each
+// token works once. The app opens the links (see src/components/Auth/AccountLinkPage.tsx) and
+// posts the token back to /auth/*.
+
+export type AccountTokenPurpose = 'verify-email' | 'reset-password' | 'invitation'
+
+const TOKEN_TTL_HOURS: Record<AccountTokenPurpose, number> = {
+  'verify-email': 48,
+  'reset-password': 1,
+  invitation: 7 * 24
+}
+
+// Query parameter of the app URL in each kind of link
+const LINK_PARAMS: Record<AccountTokenPurpose, string> = {
+  'verify-email': 'verify',
+  'reset-password': 'reset',
+  invitation: 'invitation'
+}
+
+export interface AccountTokenOwner {
+  id: string
+  email: string
+  name?: string | null
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex')
+
+const INVALID_LINK = 'This link is invalid or has expired'
+
+// Earlier unused tokens for the same purpose stop working, so only the latest email's link does
+export const issueAccountToken = async (
+  userId: string,
+  purpose: AccountTokenPurpose,
+  createdBy?: string
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('base64url')
+  await query('DELETE FROM account_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL', [userId, purpose])
+  await query(
+    `INSERT INTO account_tokens (user_id, purpose, token_hash, created_by, expires_at)
+     VALUES ($1, $2, $3, $4, NOW() + make_interval(hours => $5))`,
+    [userId, purpose, hashToken(token), createdBy || null, TOKEN_TTL_HOURS[purpose]]
+  )
+  return token
+}
+
+// Owner of a valid token, without using it up (e.g. to show who an invitation is for)
+export const findAccountToken = async (token: string, purpose: AccountTokenPurpose): Promise<{ userId: string; createdBy: string | null; expiresAt: string }> => {
+  const result = await query(
+    `SELECT user_id, created_by, expires_at FROM account_tokens
+     WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > NOW()`,
+    [hashToken(token), purpose]
+  )
+  if (result.rows.length === 0) {
+    throw new HttpError(400, INVALID_LINK)
+  }
+  const row = result.rows[0]
+  return { userId: row.user_id, createdBy: row.created_by, expiresAt: new Date(row.expires_at).toISOString() }
+}
+
+// Marks the token used and returns its owner's id; a second request with the same token fails
+export const consumeAccountToken = async (token: string, purpose: AccountTokenPurpose): Promise<string> => {
+  const result = await query(
+    `UPDATE account_tokens SET used_at = NOW()
+     WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING user_id`,
+    [hashToken(token), purpose]
+  )
+  if (result.rows.length === 0) {
+    throw new HttpError(400, INVALID_LINK)
+  }
+  return result.rows[0].user_id
+}
+
+// Emails
+
+const accountLink = (purpose: AccountTokenPurpose, token: string): string =>
+  `${SERVER_CONFIG.appUrl}/?${LINK_PARAMS[purpose]}=${encodeURIComponent(token)}`
+
+const expiresIn = (purpose: AccountTokenPurpose): string => {
+  const hours = TOKEN_TTL_HOURS[purpose]
+  if (hours % 24 === 0) {
+    return hours === 24 ? '1 day' : `${hours / 24} days`
+  }
+  return hours === 1 ? '1 hour' : `${hours} hours`
+}
+
+const greeting = (user: AccountTokenOwner): string => `Hi ${user.name || user.email},`
+
+export const sendVerificationEmail = async (user: AccountTokenOwner): Promise<SentMail> => {
+  const token = await issueAccountToken(user.id, 'verify-email')
+  return sendMail({
+    to: user.email,
+    subject: 'Confirm your QC Reporter email address',
+    text: [
+      greeting(user),
+      'Confirm your email address to finish setting up your QC Reporter account:',
+      accountLink('verify-email', token),
+      `The link expires in ${expiresIn('verify-email')}. If you didn't sign up, you can ignore this email.`
+    ].join('\n\n')
+  })
+}
+
+export const sendPasswordResetEmail = async (user: AccountTokenOwner): Promise<SentMail> => {
+  const token = await issueAccountToken(user.id, 'reset-password')
+  return sendMail({
+    to: user.email,
+    subject: 'Reset your QC Reporter password',
+    text: [
+      greeting(user),
+      'Someone asked to reset the password of your QC Reporter account. Choose a new one here:',
+      accountLink('reset-password', token),
+      `The link expires in ${expiresIn('reset-password')}. If you didn't ask for this, you can ignore this email; your password stays the same.`
+    ].join('\n\n')
+  })
+}
+
+// Sign-up answers the same whether or not the address has an account, so its owner hears about
+// the attempt here instead, with a way back in
+export const sendAccountExistsEmail = async (user: AccountTokenOwner): Promise<SentMail> => {
+  const token = await issueAccountToken(user.id, 'reset-password')
+  return sendMail({
+    to: user.email,
+    subject: 'You already have a QC Reporter account',
+    text: [
+      greeting(user),
+      `Someone tried to sign up for QC Reporter with this email address, which already has an account. Sign in at ${SERVER_CONFIG.appUrl}, or choose a new password here:`,
+      accountLink('reset-password', token),
+      `The link expires in ${expiresIn('reset-password')}. If you didn't try to sign up, you can ignore this email; your password stays the same.`
+    ].join('\n\n')
+  })
+}
+
+export const sendInvitationEmail = async (
+  user: AccountTokenOwner,
+  invitedBy: { id: string; email: string; name?: string }
+): Promise<SentMail> => {
+  const token = await issueAccountToken(user.id, 'invitation', invitedBy.id)
+  return sendMail({
+    to: user.email,
+    subject: `${invitedBy.name || invitedBy.email} invited you to QC Reporter`,
+    text: [
+      greeting(user),
+      `${invitedBy.name || invitedBy.email} invited you to join their team on QC Reporter. Choose a password to set up your account:`,
+      accountLink('invitation', token),
+      `The invitation expires in ${expiresIn('invitation')}.`
+    ].join('\n\n')
+  })
+}
@@ -0,0 +1,170 @@
+import crypto from 'crypto'
+import { query } from './db'
+import { HttpError } from './http'
+import { APP_CONSTANTS, type ApiTokenScope, type UserRole } from '../src/utils/constants'
+import { mapApiTokenRow, mapServiceAccountRow } from '../src/utils/row-mappers'
+import type { TokenUser } from './auth'
+import type { ApiToken, ApiTokenInput, CreatedApiToken, ServiceAccount } from '../src/types'
+
+// Personal API tokens and service accounts, for pipelines that push documents and pull results
+// without a human session (migration 011). A token is `qcr_` followed by 32 random bytes; only its
+// SHA-256 hash is stored, and the secret is shown once. Requests with a token act as its owner,
+// limited to the token's scopes (see requireAuth in ./auth and SCOPE_PERMISSIONS).
+
+// Characters of the token kept in clear, so users can tell their tokens apart
+const PREFIX_LENGTH = APP_CONSTANTS.API_TOKEN_PREFIX.length + 8
+
+// last_used_at is written at most this often, so a busy pipeline doesn't update the row on every request
+const LAST_USED_RESOLUTION = '1 minute'
+
+const SERVICE_ACCOUNT_DOMAIN = 'service-accounts.invalid'
+
+const API_TOKEN_COLUMNS = 'id, user_id, name, token_prefix, scopes, created_at, expires_at, last_used_at'
+
+const SERVICE_ACCOUNT_SELECT = `
+  SELECT u.id, u.name, m.role, u.created_at, m.workspace_id,
+    COALESCE(NULLIF(c.name, ''), c.email) AS created_by_name
+  FROM users u
+  JOIN workspace_members m ON m.user_id = u.id
+  LEFT JOIN users c ON c.id = u.created_by`
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex')
+
+export const isApiToken = (token: string): boolean => token.startsWith(APP_CONSTANTS.API_TOKEN_PREFIX)
+
+// The owner and scopes of a live token, or null when it is unknown, revoked or expired
+export const authenticateApiToken = async (
+  token: string
+): Promise<{ user: TokenUser; apiToken: { id: string; scopes: ApiTokenScope[] } } | null> => {
+  const result = await query(
+    `SELECT t.id, t.scopes, u.id AS user_id, u.email
+     FROM api_tokens t
+     JOIN users u ON u.id = t.user_id
+     WHERE t.token_hash = $1 AND t.revoked_at IS NULL AND (t.expires_at IS NULL OR t.expires_at > NOW())`,
+    [hashToken(token)]
+  )
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  const row = result.rows[0]
+  await query(
+    `UPDATE api_tokens SET last_used_at = NOW()
+     WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '${LAST_USED_RESOLUTION}')`,
+    [row.id]
+  )
+  return { user: { id: row.user_id, email: row.email }, apiToken: { id: row.id, scopes: row.scopes } }
+}
+
+// Tokens
+
+// Live tokens of a user or service account, newest first
+export const getApiTokens = async (ownerId: string): Promise<ApiToken[]> => {
+  const result = await query(
+    `SELECT ${API_TOKEN_COLUMNS} FROM api_tokens
+     WHERE user_id = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())
+     ORDER BY created_at DESC`,
+    [ownerId]
+  )
+  return result.rows.map(mapApiTokenRow)
+}
+
+// A live token of `ownerId`; 404 for anyone else's, so token ids can't be probed
+export const findApiToken = async (ownerId: string, tokenId: string): Promise<ApiToken> => {
+  const [token] = (await getApiTokens(ownerId)).filter(candidate => candidate.id === tokenId)
+  if (!token) {
+    throw new HttpError(404, 'API token not found')
+  }
+  return token
+}
+
+const insertApiToken = async (
+  ownerId: string,
+  name: string,
+  scopes: ApiTokenScope[],
+  expiresAtSql: string,
+  params: any[],
+  createdBy: string
+): Promise<CreatedApiToken> => {
+  const token = `${APP_CONSTANTS.API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+  const result = await query(
+    `INSERT INTO api_tokens (user_id, name, token_prefix, token_hash, scopes, created_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, ${expiresAtSql})
+     RETURNING ${API_TOKEN_COLUMNS}`,
+    [ownerId, name, token.slice(0, PREFIX_LENGTH), hashToken(token), scopes, createdBy, ...params]
+  )
+  return { ...mapApiTokenRow(result.rows[0]), token }
+}
+
+export const createApiToken = (ownerId: string, input: ApiTokenInput, createdBy: string): Promise<CreatedApiToken> =>
+  input.expiresInDays
+    ? insertApiToken(ownerId, input.name, input.scopes, 'NOW() + make_interval(days => $7)', [input.expiresInDays], createdBy)
+    : insertApiToken(ownerId, input.name, input.scopes, 'NULL', [], createdBy)
+
+// Run inside a transaction. The old secret stops working at once; the new token keeps the
+// name, scopes and lifetime.
+export const rotateApiToken = async (token: ApiToken, rotatedBy: string): Promise<CreatedApiToken> => {
+  const revoked = await query('UPDATE api_tokens SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL RETURNING id', [token.id])
+  if (revoked.rows.length === 0) {
+    throw new HttpError(404, 'API token not found')
+  }
+  // NULL, and so never expiring, when the old token didn't expire
+  const lifetimeSql = 'NOW() + (SELECT expires_at - created_at FROM api_tokens WHERE id = $7)'
+  return insertApiToken(token.ownerId, token.name, token.scopes, lifetimeSql, [token.id], rotatedBy)
+}
+
+export const revokeApiToken = async (token: ApiToken): Promise<void> => {
+  await query('UPDATE api_tokens SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL', [token.id])
+}
+
+// Service accounts
+
+// Active service accounts of a workspace, with their live tokens
+export const getServiceAccounts = async (workspaceId: string): Promise<ServiceAccount[]> => {
+  const result = await query(
+    `${SERVICE_ACCOUNT_SELECT}
+     WHERE m.workspace_id = $1 AND u.account_type = 'service' AND u.deactivated_at IS NULL
+     ORDER BY u.created_at, u.name`,
+    [workspaceId]
+  )
+  return Promise.all(result.rows.map(async row => mapServiceAccountRow(row, await getApiTokens(row.id))))
+}
+
+// An active service account of the workspace; 404 for other tenants' accounts and for people
+export const findServiceAccount = async (workspaceId: string, accountId: string): Promise<ServiceAccount> => {
+  const [account] = (await getServiceAccounts(workspaceId)).filter(candidate => candidate.id === accountId)
+  if (!account) {
+    throw new HttpError(404, 'Service account not found')
+  }
+  return account
+}
+
+// Run inside a transaction. The account gets a placeholder address under a reserved domain,
+// as users need one; it has no password, so nobody can sign in as it.
+export const createServiceAccount = async (
+  workspaceId: string,
+  name: string,
+  role: UserRole,
+  createdBy: string
+): Promise<ServiceAccount> => {
+  const email = `service-${crypto.randomBytes(6).toString('hex')}@${SERVICE_ACCOUNT_DOMAIN}`
+  const result = await query(
+    `INSERT INTO users (email, name, account_type, created_by, email_verified_at)
+     VALUES ($1, $2, 'service', $3, NOW())
+     RETURNING id`,
+    [email, name, createdBy]
+  )
+  await query(
+    'INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, $3)',
+    [workspaceId, result.rows[0].id, role]
+  )
+  return findServiceAccount(workspaceId, result.rows[0].id)
+}
+
+// Run inside a transaction. The row is deactivated rather than deleted, so what the account did
+// keeps its author; it leaves the workspace's member list.
+export const deleteServiceAccount = async (account: ServiceAccount): Promise<void> => {
+  await query('UPDATE api_tokens SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [account.id])
+  await query('UPDATE users SET deactivated_at = NOW(), updated_at = NOW() WHERE id = $1', [account.id])
+  await query('DELETE FROM workspace_members WHERE user_id = $1', [account.id])
+}
@@ -0,0 +1,54 @@
+import express from 'express'
+import cors from 'cors'
+import { SERVER_CONFIG } from './config'
+import { requireAuth } from './auth'
+import { requireWorkspace } from './workspaces'
+import { errorHandler } from './http'
+import { authRouter } from './routes/auth'
+import { projectsRouter } from './routes/projects'
+import { requirementsRouter } from './routes/requirements'
+import { documentsRouter } from './routes/documents'
+import { activitiesRouter } from './routes/activities'
+import { reportsRouter } from './routes/reports'
+import { aiRouter } from './routes/ai'
+import { auditRouter } from './routes/audit'
+import { filesRouter } from './routes/files'
+import { usersRouter } from './routes/users'
+import { workspacesRouter } from './routes/workspaces'
+import { apiTokensRouter, serviceAccountsRouter } from './routes/api-tokens'
+
+export const createApp = () => {
+  const app = express()
+  app.use(cors())
+  app.use(express.json({ limit: '5mb' }))
+
+  const api = express.Router()
+  api.get('/health', (_req, res) => {
+    res.json({ status: 'ok' })
+  })
+
+  // Public routes
+  api.use(authRouter)
+  api.use(filesRouter)
+
+  // Everything else needs a signed-in user or an API token
+  api.use(requireAuth)
+  api.use(apiTokensRouter)
+  api.use(workspacesRouter)
+
+  // The rest is scoped to the active workspace, where the user acts with their role there
+  api.use(requireWorkspace)
+  api.use(usersRouter)
+  api.use(auditRouter)
+  api.use(serviceAccountsRouter)
+  api.use(projectsRouter)
+  api.use(requirementsRouter)
+  api.use(documentsRouter)
+  api.use(activitiesRouter)
+  api.use(reportsRouter)
+  api.use(aiRouter)
+
+  app.use(SERVER_CONFIG.basePath, api)
+  app.use(errorHandler)
+  return app
+}
@@ -0,0 +1,42 @@
+import { query, transaction, currentWorkspaceId } from './db'
+import { appendAuditEntry } from '../src/utils/audit-chain'
+import type { ActivityInput } from '../src/types'
+
+// Append an activity for `userId` and chain it onto the tamper-evident audit_log.
+// Inside transaction() it commits or rolls back together with the change it describes,
+// so the trail can't drift from the data. Project activities go to the project's workspace,
+// others to `workspaceId`, which defaults to the request's.
+export const recordActivity = (
+  userId: string,
+  activity: ActivityInput,
+  workspaceId: string | undefined = currentWorkspaceId()
+) => transaction(async () => {
+  const result = await query(
+    `INSERT INTO activities (
+       project_id, user_id, type, action, target,
+       title, description, metadata, workspace_id
+     )
+     VALUES (
+       $1, $2, $3, $4, $5, $6, $7,
+       COALESCE((SELECT jsonb_build_object('projectName', name) FROM projects WHERE id = $1), '{}'::jsonb) || $8::jsonb,
+       COALESCE((SELECT workspace_id FROM projects WHERE id = $1), $9)
+     )
+     RETURNING *,
+       (SELECT name FROM projects WHERE id = project_id) AS project_name,
+       (SELECT name FROM users WHERE id = user_id) AS user_name,
+       (SELECT email FROM users WHERE id = user_id) AS user_email`,
+    [
+      activity.projectId || null,
+      userId,
+      activity.type,
+      activity.action,
+      activity.target || null,
+      activity.title || null,
+      activity.description || null,
+      JSON.stringify(activity.metadata || {}),
+      workspaceId || null
+    ]
+  )
+  await appendAuditEntry(query, result.rows[0])
+  return result.rows[0]
+})
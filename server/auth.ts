@@ -0,0 +1,193 @@
+import crypto from 'crypto'
+import type { Request, Response, NextFunction } from 'express'
+import { SERVER_CONFIG } from './config'
+import { query } from './db'
+import { asyncHandler, HttpError } from './http'
+import { authenticateOidcToken, isOidcEnabled } from './oidc'
+import { authenticateApiToken, isApiToken } from './api-tokens'
+import { getUserAccess } from '../src/utils/user-roles'
+import { assertPermission, permissionsFor, permissionsForScopes } from '../src/utils/permissions'
+import type { ApiTokenScope, Permission, UserRole } from '../src/utils/constants'
+
+// Who a valid access token belongs to
+export interface TokenUser {
+  id: string
+  email: string
+}
+
+export interface RequestUser extends TokenUser {
+  // The role in the active workspace and what it allows there, set by requireWorkspace (see
+  // ./workspaces); before it, no permission is granted
+  role?: UserRole
+  permissions: Permission[]
+  // Set when the request came with an API token rather than a sign-in (see ./api-tokens)
+  apiToken?: { id: string; scopes: ApiTokenScope[] }
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: RequestUser
+    }
+  }
+}
+
+const base64url = (input: Buffer | string): string =>
+  Buffer.from(input).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')
+
+const sign = (data: string): string =>
+  base64url(crypto.createHmac('sha256', SERVER_CONFIG.jwtSecret).update(data).digest())
+
+// Issue an HS256 access token with the same claims Supabase puts in its JWTs
+export const createAccessToken = (user: TokenUser & { name?: string }): string => {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+  const now = Math.floor(Date.now() / 1000)
+  const payload = base64url(JSON.stringify({
+    sub: user.id,
+    email: user.email,
+    role: 'authenticated',
+    user_metadata: { name: user.name },
+    iat: now,
+    exp: now + SERVER_CONFIG.tokenTtlSeconds
+  }))
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`
+}
+
+export const verifyAccessToken = (token: string): TokenUser | null => {
+  const [header, payload, signature] = token.split('.')
+  if (!header || !payload || !signature) {
+    return null
+  }
+
+  const expected = sign(`${header}.${payload}`)
+  if (expected.length !== signature.length ||
+      !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+    return null
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64').toString('utf8'))
+    if (!claims.sub || (claims.exp && claims.exp * 1000 < Date.now())) {
+      return null
+    }
+    return { id: claims.sub, email: claims.email || '' }
+  } catch {
+    return null
+  }
+}
+
+// Passwords are stored as `salt:hash` using scrypt
+export const hashPassword = (password: string): string => {
+  const salt = crypto.randomBytes(16).toString('hex')
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex')
+  return `${salt}:${hash}`
+}
+
+export const verifyPassword = (password: string, stored: string): boolean => {
+  const [salt, hash] = stored.split(':')
+  if (!salt || !hash) {
+    return false
+  }
+  const candidate = crypto.scryptSync(password, salt, 64)
+  return crypto.timingSafeEqual(candidate, Buffer.from(hash, 'hex'))
+}
+
+// Checked instead when there is no account or it has no password, so a failed sign-in takes as
+// long either way and doesn't tell who has an account
+const UNUSABLE_PASSWORD_HASH = hashPassword(crypto.randomBytes(32).toString('hex'))
+
+export const verifyUserPassword = (password: string, stored: string | null | undefined): boolean => {
+  const matches = verifyPassword(password, stored || UNUSABLE_PASSWORD_HASH)
+  return Boolean(stored) && matches
+}
+
+// Require a valid user token, ours or (when configured) the OIDC provider's, or an API token;
+// the anon key alone is rejected
+export const requireAuth = asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
+  const authorization = req.headers.authorization || ''
+  const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : ''
+  if (token && isApiToken(token)) {
+    return authenticateWithApiToken(req, token, next)
+  }
+
+  let user = token ? verifyAccessToken(token) : null
+  if (!user && token && isOidcEnabled()) {
+    user = await authenticateOidcToken(token)
+  }
+
+  if (!user) {
+    throw new HttpError(401, 'Authentication required')
+  }
+
+  // Looked up on every request so deactivation applies at once. Supabase Auth users may have no row.
+  const access = await getUserAccess(query, user.id)
+  if (access?.deactivated) {
+    throw new HttpError(403, 'This account has been deactivated')
+  }
+  req.user = { ...user, permissions: [] }
+  next()
+})
+
+// The token acts as its owner, with the permissions both the owner's role and the token's scopes
+// allow (see accessIn). Reading needs 'projects:read', except /me, which tells a pipeline whom it acts as.
+const authenticateWithApiToken = async (req: Request, token: string, next: NextFunction) => {
+  const authenticated = await authenticateApiToken(token)
+  if (!authenticated) {
+    throw new HttpError(401, 'Invalid or expired API token')
+  }
+
+  const { user, apiToken } = authenticated
+  const access = await getUserAccess(query, user.id)
+  if (!access || access.deactivated) {
+    throw new HttpError(403, 'This account has been deactivated')
+  }
+  req.user = { ...user, permissions: [], apiToken }
+
+  if (req.method === 'GET' && req.path !== '/me') {
+    assertScope(req.user, 'projects:read')
+  }
+  next()
+}
+
+const assertScope = (user: RequestUser, scope: ApiTokenScope): void => {
+  if (user.apiToken && !user.apiToken.scopes.includes(scope)) {
+    throw new HttpError(403, `This API token does not have the ${scope} scope`)
+  }
+}
+
+// Operators in AUDIT_ADMIN_EMAILS, who may read the whole audit log rather than one workspace's
+export const isAuditAdmin = (user: RequestUser): boolean =>
+  SERVER_CONFIG.audit.adminEmails.includes(user.email.toLowerCase())
+
+// The user's role in a workspace and what it allows them there; API tokens are also limited to
+// their scopes. AUDIT_ADMIN_EMAILS grants audit log access on top of the role, for auditors
+// outside the QA team.
+export const accessIn = (user: RequestUser, role: UserRole): Pick<RequestUser, 'role' | 'permissions'> => {
+  const permissions = permissionsFor(role)
+  if (!permissions.includes('audit:read') && isAuditAdmin(user)) {
+    permissions.push('audit:read')
+  }
+  return { role, permissions: user.apiToken ? permissionsForScopes(permissions, user.apiToken.scopes) : permissions }
+}
+
+// Reject the request with 403 unless the user's role in the active workspace, and for API tokens
+// their scopes, allow `permission`; use after requireWorkspace
+export const requirePermission = (permission: Permission) => (req: Request, _res: Response, next: NextFunction) => {
+  assertPermission(req.user!.permissions, permission, req.user!.apiToken ? `This API token does not allow ${permission}` : undefined)
+  next()
+}
+
+// For routes no permission guards: API token requests need `scope`, signed-in users always pass
+export const requireScope = (scope: ApiTokenScope) => (req: Request, _res: Response, next: NextFunction) => {
+  assertScope(req.user!, scope)
+  next()
+}
+
+// For actions only a person may take, such as managing API tokens; rejects API token requests
+export const requireSignedInUser = (req: Request, _res: Response, next: NextFunction) => {
+  if (req.user!.apiToken) {
+    throw new HttpError(403, 'This action needs a signed-in user, not an API token')
+  }
+  next()
+}
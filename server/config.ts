@@ -0,0 +1,120 @@
+import crypto from 'crypto'
+import { isUserRole } from '../src/utils/permissions'
+
+// Helper function to safely access environment variables
+const getEnvVar = (key: string, defaultValue: string = ''): string => {
+  return process.env[key] || defaultValue
+}
+
+const defaultUserRole = getEnvVar('DEFAULT_USER_ROLE', 'qa-reviewer')
+
+// Self-hosted API server configuration
+export const SERVER_CONFIG = {
+  port: parseInt(getEnvVar('PORT', '54321')),
+
+  // Mirrors the edge function path so APIService needs no route changes
+  basePath: '/functions/v1/make-server-6545ae52',
+
+  // Optional; otherwise the pool is built from the AURORA_POSTGRES_* settings
+  databaseUrl: getEnvVar('DATABASE_URL'),
+
+  // HS256 secret used to sign and verify access tokens (same format as Supabase JWTs) and local
+  // download links. The server refuses to start without one (see index.ts), unless
+  // DEV_RANDOM_JWT_SECRET=true picks a random secret for the process, for development only:
+  // sign-ins and download links then stop working whenever the server restarts.
+  jwtSecret: getEnvVar('JWT_SECRET', getEnvVar('DEV_RANDOM_JWT_SECRET') === 'true' ? crypto.randomBytes(32).toString('hex') : ''),
+  tokenTtlSeconds: parseInt(getEnvVar('JWT_EXPIRY', '3600')),
+
+  // Also accept access tokens from an OpenID Connect provider (Cognito user pool, Keycloak realm).
+  // Both settings are required; users are provisioned on their first request.
+  oidc: {
+    issuer: getEnvVar('OIDC_ISSUER').replace(/\/+$/, ''),
+    // Matched against aud, or client_id (Cognito access tokens) / azp (Keycloak access tokens)
+    clientIds: getEnvVar('OIDC_CLIENT_ID')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean)
+  },
+
+  // Role of people who join a workspace by invitation: 'qa-manager', 'qa-reviewer', 'validator'
+  // or 'model-developer'. Whoever creates a workspace manages it.
+  defaultUserRole: isUserRole(defaultUserRole) ? defaultUserRole : 'qa-reviewer',
+
+  // Where clients reach this server; local-storage download links point here
+  publicUrl: getEnvVar('PUBLIC_URL', `http://localhost:${getEnvVar('PORT', '54321')}`),
+
+  // Document storage: 'local' (UPLOAD_DIR), 's3' (also MinIO) or 'supabase'
+  storage: {
+    provider: getEnvVar('STORAGE_PROVIDER', 'local'),
+    bucket: getEnvVar('STORAGE_BUCKET', 'documents'),
+    signedUrlTtlSeconds: parseInt(getEnvVar('STORAGE_SIGNED_URL_TTL', '900')),
+    s3: {
+      endpoint: getEnvVar('S3_ENDPOINT'),
+      region: getEnvVar('S3_REGION', getEnvVar('AWS_REGION', 'us-east-1')),
+      accessKeyId: getEnvVar('S3_ACCESS_KEY_ID'),
+      secretAccessKey: getEnvVar('S3_SECRET_ACCESS_KEY'),
+      forcePathStyle: getEnvVar('S3_FORCE_PATH_STYLE') === 'true'
+    },
+    supabase: {
+      url: getEnvVar('SUPABASE_URL'),
+      serviceRoleKey: getEnvVar('SUPABASE_SERVICE_ROLE_KEY')
+    }
+  },
+  uploadDir: getEnvVar('UPLOAD_DIR', './uploads'),
+  // Files sent in one request are held in memory; larger ones go in resumable chunks (see
+  // routes/documents.ts) up to MAX_UPLOAD_MB, and an unfinished upload can be continued for a day.
+  // Extraction reads the whole file into memory, so files over MAX_EXTRACTION_MB are stored without their text.
+  maxUploadBytes: 50 * 1024 * 1024,
+  maxResumableUploadBytes: parseInt(getEnvVar('MAX_UPLOAD_MB', '500')) * 1024 * 1024,
+  maxExtractionBytes: parseInt(getEnvVar('MAX_EXTRACTION_MB', '50')) * 1024 * 1024,
+  uploadSessionTtlHours: 24,
+
+  // OCR of scanned PDF pages and image uploads (see ocr.ts), on this machine. English works out of
+  // the box; for other languages ('eng+deu') put their <lang>.traineddata.gz files in OCR_LANG_PATH.
+  ocr: {
+    enabled: getEnvVar('OCR_ENABLED', 'true') !== 'false',
+    languages: getEnvVar('OCR_LANGUAGES', 'eng'),
+    langPath: getEnvVar('OCR_LANG_PATH')
+  },
+
+  // Outgoing email (see mailer.ts): 'smtp', or 'log' to print messages instead of sending them,
+  // the default while SMTP_HOST is empty. In development point SMTP_HOST at a catcher such as
+  // Mailpit or MailHog, which listen on port 1025.
+  mail: {
+    provider: getEnvVar('MAIL_PROVIDER', getEnvVar('SMTP_HOST') ? 'smtp' : 'log'),
+    from: getEnvVar('SMTP_FROM', 'QC Reporter <noreply@qcreporter.local>'),
+    smtp: {
+      host: getEnvVar('SMTP_HOST', 'localhost'),
+      port: parseInt(getEnvVar('SMTP_PORT', '1025')),
+      secure: getEnvVar('SMTP_SECURE') === 'true',
+      user: getEnvVar('SMTP_USER'),
+      password: getEnvVar('SMTP_PASSWORD')
+    }
+  },
+
+  // Where users open the app; links in verification, password reset and invitation emails point here
+  appUrl: getEnvVar('APP_URL', 'http://localhost:3000').replace(/\/+$/, ''),
+
+  // Password accounts (see accounts.ts). Unverified users can't sign in unless this is 'false'.
+  accounts: {
+    requireEmailVerification: getEnvVar('REQUIRE_EMAIL_VERIFICATION', 'true') !== 'false'
+  },
+
+  // AI providers proxied by /ai/generate
+  ai: {
+    openaiApiKey: getEnvVar('OPENAI_API_KEY'),
+    anthropicApiKey: getEnvVar('ANTHROPIC_API_KEY'),
+    localEndpoint: getEnvVar('LOCAL_AI_ENDPOINT', 'http://localhost:11434/v1')
+  },
+
+  // Tamper-evident audit log (/audit/*)
+  audit: {
+    // Ed25519 private key (PEM) used to sign exported evidence; `\n` escapes are allowed for one-line env files
+    signingKey: getEnvVar('AUDIT_SIGNING_KEY').replace(/\\n/g, '\n'),
+    // Operators allowed to view, verify and export the whole log, across workspaces
+    adminEmails: getEnvVar('AUDIT_ADMIN_EMAILS')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(Boolean)
+  }
+}
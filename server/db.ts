@@ -0,0 +1,89 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { Pool, type PoolClient, type QueryResult, type QueryResultRow } from 'pg'
+import { AURORA_CONFIG, AURORA_POOL_CONFIG, buildAuroraConnectionString } from '../src/utils/aurora-config'
+import { DatabaseError, toDatabaseError as fromDriverError, type QueryExecutor } from '../src/utils/aurora-service'
+import { enterWorkspace } from '../src/utils/workspaces'
+import { SERVER_CONFIG } from './config'
+
+// DATABASE_URL wins over the individual AURORA_POSTGRES_* settings
+export const pool = new Pool({
+  connectionString: SERVER_CONFIG.databaseUrl || buildAuroraConnectionString(AURORA_CONFIG),
+  min: AURORA_POOL_CONFIG.min,
+  max: AURORA_POOL_CONFIG.max,
+  idleTimeoutMillis: AURORA_POOL_CONFIG.idleTimeoutMillis,
+  connectionTimeoutMillis: AURORA_POOL_CONFIG.connectionTimeoutMillis
+})
+
+pool.on('error', error => {
+  console.error('Idle Postgres client error:', error)
+})
+
+const NETWORK_ERRORS = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT']
+
+// Network failures have no SQLSTATE; everything else is mapped by AuroraService's helper
+export const toDatabaseError = (error: any): DatabaseError => {
+  if (NETWORK_ERRORS.includes(error?.code) || /timeout exceeded when trying to connect/i.test(error?.message || '')) {
+    return new DatabaseError('Database connection failed', 'connection_failed', error.message)
+  }
+  return fromDriverError(error)
+}
+
+// Client of the transaction running in the current async context, if any
+const transactionClient = new AsyncLocalStorage<PoolClient>()
+
+// Workspace the current request is scoped to (see requireWorkspace in ./workspaces)
+const activeWorkspace = new AsyncLocalStorage<string>()
+
+// Run `work` with every query scoped to a workspace by row-level security
+export const withWorkspace = <T>(workspaceId: string, work: () => T): T => activeWorkspace.run(workspaceId, work)
+
+export const currentWorkspaceId = (): string | undefined => activeWorkspace.getStore()
+
+export const query = async <T extends QueryResultRow = any>(sql: string, params: any[] = []): Promise<QueryResult<T>> => {
+  const client = transactionClient.getStore()
+  // The workspace setting is transaction-local, so scoped queries each get a short transaction
+  if (!client && activeWorkspace.getStore()) {
+    return transaction(() => query<T>(sql, params))
+  }
+  try {
+    return client ? await client.query<T>(sql, params) : await pool.query<T>(sql, params)
+  } catch (error) {
+    throw toDatabaseError(error)
+  }
+}
+
+// Every query() issued inside `work` runs on the same connection; nested calls reuse the outer transaction
+export const transaction = async <T>(work: () => Promise<T>): Promise<T> => {
+  if (transactionClient.getStore()) {
+    return work()
+  }
+
+  let client: PoolClient
+  try {
+    client = await pool.connect()
+  } catch (error) {
+    throw toDatabaseError(error)
+  }
+
+  try {
+    await client.query('BEGIN')
+    const workspaceId = activeWorkspace.getStore()
+    if (workspaceId) {
+      await enterWorkspace((sql, params) => client.query(sql, params), workspaceId)
+    }
+    const result = await transactionClient.run(client, work)
+    await client.query('COMMIT')
+    return result
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Plugged into AuroraService.setExecutor so the shared services hit this pool
+export const postgresExecutor: QueryExecutor = {
+  query: (sql, params) => query(sql, params),
+  transaction
+}
@@ -0,0 +1,91 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express'
+import { DatabaseError, type DatabaseErrorCode } from '../src/utils/aurora-service'
+import { DataValidationError, validate } from '../src/utils/validation'
+import { fromSearchParams } from '../src/utils/list-query'
+import { StorageError, type StorageErrorCode } from '../src/utils/storage/storage-provider'
+import { PermissionError } from '../src/utils/permissions'
+import type { z } from 'zod'
+
+// Error carrying the HTTP status to send back to the client
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+// Forward rejected promises from async route handlers to the error middleware
+export const asyncHandler = (
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => (req, res, next) => {
+  handler(req, res, next).catch(next)
+}
+
+// Parse list parameters (?status=a&status=b&sort=name:asc&cursor=...) from the raw query string;
+// Express's own parser can't tell a single-value list from a scalar
+export const parseListQuery = <T>(req: Request, schema: z.ZodType<T, z.ZodTypeDef, unknown>, entity: string): T => {
+  const search = req.originalUrl.split('?')[1] || ''
+  return validate(schema, fromSearchParams(search), entity)
+}
+
+const DATABASE_ERROR_STATUS: Record<DatabaseErrorCode, number> = {
+  unique_violation: 409,
+  foreign_key_violation: 409,
+  not_null_violation: 400,
+  check_violation: 400,
+  invalid_input: 400,
+  undefined_object: 500,
+  connection_failed: 503,
+  not_found: 404,
+  unknown: 500
+}
+
+const STORAGE_ERROR_STATUS: Record<StorageErrorCode, number> = {
+  not_found: 404,
+  invalid_key: 400,
+  invalid_chunk: 400,
+  offset_mismatch: 409,
+  not_configured: 503,
+  unavailable: 502,
+  unknown: 500
+}
+
+// Respond with the `{ error }` shape APIService reads on failure
+export const errorHandler = (error: any, _req: Request, res: Response, _next: NextFunction) => {
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ error: error.message })
+    return
+  }
+
+  if (error instanceof PermissionError) {
+    res.status(403).json({ error: error.message })
+    return
+  }
+
+  if (error instanceof DataValidationError) {
+    res.status(400).json({ error: error.message })
+    return
+  }
+
+  if (error instanceof DatabaseError) {
+    const status = DATABASE_ERROR_STATUS[error.code]
+    if (status >= 500) {
+      console.error('Database error:', error)
+    }
+    // Only expose constraint/input details, never internal failures
+    res.status(status).json({ error: status >= 500 ? 'Database unavailable' : error.detail || error.message })
+    return
+  }
+
+  if (error instanceof StorageError) {
+    const status = STORAGE_ERROR_STATUS[error.code]
+    if (status >= 500) {
+      console.error('Storage error:', error)
+    }
+    res.status(status).json({ error: error.message })
+    return
+  }
+
+  console.error('Unhandled API error:', error)
+  res.status(500).json({ error: 'Internal server error' })
+}
@@ -0,0 +1,24 @@
+import { AuroraService } from '../src/utils/aurora-service'
+import { createApp } from './app'
+import { SERVER_CONFIG } from './config'
+import { postgresExecutor } from './db'
+
+const start = async () => {
+  if (!SERVER_CONFIG.jwtSecret) {
+    throw new Error('JWT_SECRET is not set; set it to a long random string (or DEV_RANDOM_JWT_SECRET=true in development)')
+  }
+  if (!process.env.JWT_SECRET) {
+    console.warn('Signing access tokens with a random secret (DEV_RANDOM_JWT_SECRET); sign-ins end when the server restarts')
+  }
+  AuroraService.setExecutor(postgresExecutor)
+  await AuroraService.initializeDatabase()
+
+  createApp().listen(SERVER_CONFIG.port, () => {
+    console.log(`QC Reporter API listening on http://localhost:${SERVER_CONFIG.port}${SERVER_CONFIG.basePath}`)
+  })
+}
+
+start().catch(error => {
+  console.error('Failed to start API server:', error)
+  process.exit(1)
+})
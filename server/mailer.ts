@@ -0,0 +1,77 @@
+import nodemailer from 'nodemailer'
+import { SERVER_CONFIG } from './config'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+  attachments?: { filename: string; content: string; contentType?: string }[]
+}
+
+export interface SentMail {
+  messageId: string
+}
+
+// Outgoing email behind one interface, chosen with MAIL_PROVIDER like STORAGE_PROVIDER picks storage
+export interface Mailer {
+  readonly name: string
+  send(message: MailMessage & { from: string }): Promise<SentMail>
+}
+
+// Any SMTP server; a local catcher (Mailpit, MailHog) shows the messages in its web UI
+export class SmtpMailer implements Mailer {
+  readonly name = 'smtp'
+  private transport: nodemailer.Transporter
+
+  constructor(config: typeof SERVER_CONFIG.mail.smtp) {
+    this.transport = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined
+    })
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<SentMail> {
+    const info = await this.transport.sendMail(message)
+    return { messageId: info.messageId }
+  }
+}
+
+// Prints messages to the server log instead of sending them, links included, so development
+// and tests can follow verification and reset emails without a mail server
+export class LogMailer implements Mailer {
+  readonly name = 'log'
+  private transport = nodemailer.createTransport({ jsonTransport: true })
+
+  async send(message: MailMessage & { from: string }): Promise<SentMail> {
+    const info = await this.transport.sendMail(message)
+    console.log(`Email not sent (MAIL_PROVIDER=log) to ${message.to}: ${message.subject}\n${message.text}`)
+    return { messageId: info.messageId }
+  }
+}
+
+const createMailer = (): Mailer => {
+  const config = SERVER_CONFIG.mail
+  switch (config.provider) {
+    case 'smtp':
+      return new SmtpMailer(config.smtp)
+    case 'log':
+      return new LogMailer()
+    default:
+      throw new Error(`Unknown MAIL_PROVIDER "${config.provider}"`)
+  }
+}
+
+let mailer: Mailer | null = null
+
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    mailer = createMailer()
+  }
+  return mailer
+}
+
+export const sendMail = (message: MailMessage): Promise<SentMail> =>
+  getMailer().send({ from: SERVER_CONFIG.mail.from, ...message })
@@ -0,0 +1,44 @@
+import { AuroraService } from '../src/utils/aurora-service'
+import { AuroraMigrator } from '../src/utils/aurora-migrations'
+import { pool, postgresExecutor } from './db'
+
+const USAGE = `Usage: npm run migrate -- <command>
+
+Commands:
+  status            List migrations and whether they are applied
+  up [version]      Apply pending migrations (optionally only up to version)
+  down [steps]      Roll back the last applied migration(s), default 1`
+
+const run = async (command: string = 'status', arg?: string) => {
+  AuroraService.setExecutor(postgresExecutor)
+
+  switch (command) {
+    case 'status': {
+      for (const migration of await AuroraMigrator.status()) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending'
+        console.log(`${String(migration.version).padStart(3, '0')}_${migration.name}  ${state}`)
+      }
+      break
+    }
+    case 'up': {
+      const applied = await AuroraMigrator.migrate(arg ? parseInt(arg) : undefined)
+      console.log(applied.length ? `${applied.length} migration(s) applied` : 'Database is up to date')
+      break
+    }
+    case 'down': {
+      const reverted = await AuroraMigrator.rollback(arg ? parseInt(arg) : 1)
+      console.log(reverted.length ? `${reverted.length} migration(s) reverted` : 'Nothing to roll back')
+      break
+    }
+    default:
+      console.log(USAGE)
+      process.exitCode = 1
+  }
+}
+
+run(process.argv[2], process.argv[3])
+  .catch(error => {
+    console.error('Migration failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => pool.end())
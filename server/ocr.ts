@@ -0,0 +1,41 @@
+import { createWorker, OEM, type Worker } from 'tesseract.js'
+import type { OcrEngine } from '../src/utils/extraction'
+import { SERVER_CONFIG } from './config'
+
+// Tesseract compiled to WebAssembly (tesseract.js): nothing to install besides the npm package, and
+// neither the scans nor their text leave the server. The English model ships as a package, so
+// OCR works offline; the worker never downloads anything.
+
+// Directory of @tesseract.js-data/eng, which holds eng.traineddata.gz
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const bundledLangPath: string = require('@tesseract.js-data/eng').langPath
+
+let worker: Promise<Worker> | null = null
+
+// One worker for the whole server, started on the first scan: loading a model takes a second or
+// two and it recognizes one image at a time anyway
+const getWorker = (): Promise<Worker> => {
+  if (!worker) {
+    const { languages, langPath } = SERVER_CONFIG.ocr
+    worker = createWorker(languages, OEM.LSTM_ONLY, {
+      langPath: langPath || bundledLangPath,
+      gzip: true,
+      cacheMethod: 'none'
+    })
+    // A failed start (a missing model, say) is retried with the next scan
+    worker.catch(() => {
+      worker = null
+    })
+  }
+  return worker
+}
+
+export const tesseractOcr: OcrEngine = {
+  async recognize(image) {
+    const { data } = await (await getWorker()).recognize(Buffer.from(image.buffer, image.byteOffset, image.byteLength))
+    return { text: data.text, confidence: data.confidence }
+  }
+}
+
+// Passed to extractDocumentText; undefined with OCR_ENABLED=false, which leaves scanned pages empty
+export const ocrEngine = (): OcrEngine | undefined => (SERVER_CONFIG.ocr.enabled ? tesseractOcr : undefined)
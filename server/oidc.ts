@@ -0,0 +1,158 @@
+import crypto from 'crypto'
+import { SERVER_CONFIG } from './config'
+import { query } from './db'
+import { HttpError } from './http'
+import { linkIdentity } from '../src/utils/user-identities'
+import type { TokenUser } from './auth'
+
+// Access tokens from the OpenID Connect provider in SERVER_CONFIG.oidc (Cognito, Keycloak), checked
+// against the issuer's published signing keys and mapped to a users row on first use.
+
+interface ProviderMetadata {
+  jwks_uri: string
+  userinfo_endpoint?: string
+}
+
+const SUPPORTED_ALGORITHMS = ['RS256', 'ES256']
+
+// Tolerated clock difference with the identity provider
+const CLOCK_SKEW_SECONDS = 30
+
+// Refetch the key set for an unknown key id at most this often
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000
+
+// Linked users are looked up again after this long, so email and name changes come through
+const LINKED_USER_TTL_MS = 5 * 60 * 1000
+
+let metadata: Promise<ProviderMetadata> | null = null
+let signingKeys = new Map<string, crypto.KeyObject>()
+let keysFetchedAt = 0
+const linkedUsers = new Map<string, { user: TokenUser; expiresAt: number }>()
+
+export const isOidcEnabled = (): boolean =>
+  Boolean(SERVER_CONFIG.oidc.issuer && SERVER_CONFIG.oidc.clientIds.length > 0)
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, init)
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status}`)
+  }
+  return response.json()
+}
+
+const getMetadata = (): Promise<ProviderMetadata> => {
+  if (!metadata) {
+    metadata = fetchJson(`${SERVER_CONFIG.oidc.issuer}/.well-known/openid-configuration`)
+    metadata.catch(() => {
+      metadata = null
+    })
+  }
+  return metadata
+}
+
+const getSigningKey = async (kid: string): Promise<crypto.KeyObject | null> => {
+  // Providers rotate keys; an unknown kid means the cached set may be stale
+  if (!signingKeys.has(kid) && Date.now() - keysFetchedAt > JWKS_REFETCH_INTERVAL_MS) {
+    keysFetchedAt = Date.now()
+    const { keys } = await fetchJson((await getMetadata()).jwks_uri)
+    const fetched = new Map<string, crypto.KeyObject>()
+    for (const jwk of keys || []) {
+      if (jwk.kid && (jwk.use === undefined || jwk.use === 'sig')) {
+        fetched.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }))
+      }
+    }
+    signingKeys = fetched
+  }
+  return signingKeys.get(kid) || null
+}
+
+const decodeSegment = (segment: string): any => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+
+const matchesClient = (claims: Record<string, any>): boolean => {
+  const audiences: string[] = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : []
+  return SERVER_CONFIG.oidc.clientIds.some(id => audiences.includes(id) || claims.client_id === id || claims.azp === id)
+}
+
+// Claims of a valid token from the configured issuer, or null
+export const verifyOidcToken = async (token: string): Promise<Record<string, any> | null> => {
+  const [header, payload, signature] = token.split('.')
+  if (!header || !payload || !signature) {
+    return null
+  }
+
+  let claims: Record<string, any>
+  let key: crypto.KeyObject | null
+  let alg: string
+  try {
+    const parsed = decodeSegment(header)
+    alg = parsed.alg
+    if (!SUPPORTED_ALGORITHMS.includes(alg) || !parsed.kid) {
+      return null
+    }
+    claims = decodeSegment(payload)
+    key = await getSigningKey(parsed.kid)
+  } catch (error) {
+    console.warn('Unable to check OIDC token:', error instanceof Error ? error.message : error)
+    return null
+  }
+
+  const valid = key !== null && crypto.verify(
+    'sha256',
+    Buffer.from(`${header}.${payload}`),
+    // JWS carries ECDSA signatures as raw r || s rather than DER
+    alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+    Buffer.from(signature, 'base64url')
+  )
+  const now = Math.floor(Date.now() / 1000)
+  if (!valid ||
+      claims.iss !== SERVER_CONFIG.oidc.issuer ||
+      !claims.sub ||
+      typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now ||
+      (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) ||
+      !matchesClient(claims)) {
+    return null
+  }
+  return claims
+}
+
+// Cognito access tokens carry no email; the userinfo endpoint has it
+const getProfile = async (token: string, claims: Record<string, any>): Promise<Record<string, any>> => {
+  if (claims.email) {
+    return claims
+  }
+  const { userinfo_endpoint } = await getMetadata()
+  if (!userinfo_endpoint) {
+    return claims
+  }
+  const profile = await fetchJson(userinfo_endpoint, { headers: { Authorization: `Bearer ${token}` } })
+  return { ...claims, ...profile, sub: claims.sub }
+}
+
+export const authenticateOidcToken = async (token: string): Promise<TokenUser | null> => {
+  const claims = await verifyOidcToken(token)
+  if (!claims) {
+    return null
+  }
+
+  const cached = linkedUsers.get(claims.sub)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.user
+  }
+
+  const profile = await getProfile(token, claims)
+  // Cognito sends email_verified as a string
+  if (profile.email_verified === false || profile.email_verified === 'false') {
+    throw new HttpError(403, 'Verify your email address with your identity provider before signing in')
+  }
+
+  const linked = await linkIdentity(query, {
+    issuer: SERVER_CONFIG.oidc.issuer,
+    subject: claims.sub,
+    email: profile.email || '',
+    name: profile.name || profile.preferred_username || undefined,
+    emailVerified: profile.email_verified === true || profile.email_verified === 'true'
+  })
+  const user = { id: linked.id, email: linked.email }
+  linkedUsers.set(claims.sub, { user, expiresAt: Date.now() + LINKED_USER_TTL_MS })
+  return user
+}
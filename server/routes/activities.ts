@@ -0,0 +1,40 @@
+import { Router } from 'express'
+import { query } from '../db'
+import { asyncHandler, parseListQuery } from '../http'
+import { recordActivity } from '../audit'
+import { mapActivityRow } from '../../src/utils/row-mappers'
+import { validate, clientActivityInputSchema, activityQuerySchema } from '../../src/utils/validation'
+import { CLIENT_ACTIVITY_PERMISSIONS, clientReportedActivity } from '../../src/utils/audit'
+import { assertPermission } from '../../src/utils/permissions'
+import { buildListSql, toPage, ACTIVITY_LIST_SQL } from '../../src/utils/list-query'
+import { WORKSPACE_ACTIVITY_CONDITION } from '../../src/utils/workspaces'
+import { findWorkspaceProject } from './projects'
+
+export const activitiesRouter = Router()
+
+activitiesRouter.get('/activities', asyncHandler(async (req, res) => {
+  const list = buildListSql(ACTIVITY_LIST_SQL, parseListQuery(req, activityQuerySchema, 'activity query'), {
+    select: 'a.*, p.name as project_name, u.name as user_name, u.email as user_email',
+    from: `activities a
+     LEFT JOIN projects p ON a.project_id = p.id
+     LEFT JOIN users u ON a.user_id = u.id`,
+    conditions: [WORKSPACE_ACTIVITY_CONDITION],
+    params: [req.workspace!.id, req.user!.id]
+  })
+  const result = await query(list.sql, list.params)
+  const count = await query(list.countSql, list.countParams)
+  const page = toPage(result.rows, count.rows[0].total, list, mapActivityRow)
+  res.json({ activities: page.items, pageInfo: page.pageInfo })
+}))
+
+// Routes record what they do themselves; the browser may only report the events on the
+// allow-list, each under the permission it needs
+activitiesRouter.post('/activities', asyncHandler(async (req, res) => {
+  const data = validate(clientActivityInputSchema, req.body, 'activity input')
+  const permission = CLIENT_ACTIVITY_PERMISSIONS[data.type]
+  assertPermission(req.user!.permissions, permission, req.user!.apiToken ? `This API token does not allow ${permission}` : undefined)
+  await findWorkspaceProject(data.projectId, req.workspace!.id)
+
+  const activity = await recordActivity(req.user!.id, clientReportedActivity(data))
+  res.status(201).json({ activity: mapActivityRow(activity) })
+}))
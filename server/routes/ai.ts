@@ -0,0 +1,135 @@
+import { Router } from 'express'
+import { SERVER_CONFIG } from '../config'
+import { asyncHandler, HttpError } from '../http'
+import { requirePermission } from '../auth'
+import { recordActivity } from '../audit'
+import { analysisCompleted } from '../../src/utils/audit'
+import { findWorkspaceProject } from './projects'
+
+interface GenerateRequest {
+  provider: string
+  model: string
+  prompt: string
+  temperature: number
+  maxTokens: number
+}
+
+interface GenerateResponse {
+  content: string
+  model: string
+  usage: {
+    promptTokens: number
+    completionTokens: number
+    totalTokens: number
+  }
+}
+
+const postJson = async (url: string, headers: Record<string, string>, body: any) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  })
+  if (!response.ok) {
+    const detail = await response.text()
+    throw new HttpError(502, `AI provider error (${response.status}): ${detail.slice(0, 200)}`)
+  }
+  return response.json()
+}
+
+// OpenAI and local servers (Ollama, vLLM, LM Studio) share the chat completions API
+const callChatCompletions = async (
+  baseUrl: string,
+  apiKey: string,
+  request: GenerateRequest
+): Promise<GenerateResponse> => {
+  const data = await postJson(
+    `${baseUrl}/chat/completions`,
+    apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    {
+      model: request.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    }
+  )
+  return {
+    content: data.choices?.[0]?.message?.content || '',
+    model: data.model || request.model,
+    usage: {
+      promptTokens: data.usage?.prompt_tokens || 0,
+      completionTokens: data.usage?.completion_tokens || 0,
+      totalTokens: data.usage?.total_tokens || 0
+    }
+  }
+}
+
+const callClaude = async (request: GenerateRequest): Promise<GenerateResponse> => {
+  const data = await postJson(
+    'https://api.anthropic.com/v1/messages',
+    {
+      'x-api-key': SERVER_CONFIG.ai.anthropicApiKey,
+      'anthropic-version': '2023-06-01'
+    },
+    {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: [{ role: 'user', content: request.prompt }]
+    }
+  )
+  const promptTokens = data.usage?.input_tokens || 0
+  const completionTokens = data.usage?.output_tokens || 0
+  return {
+    content: (data.content || []).map((block: any) => block.text || '').join(''),
+    model: data.model || request.model,
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+  }
+}
+
+export const aiRouter = Router()
+
+// Runs go on the project's audit trail here, once the provider has answered
+aiRouter.post('/ai/generate', requirePermission('ai:use'), asyncHandler(async (req, res) => {
+  const request: GenerateRequest = {
+    provider: req.body?.provider,
+    model: req.body?.model,
+    prompt: req.body?.prompt,
+    temperature: req.body?.temperature ?? 0.3,
+    maxTokens: req.body?.maxTokens ?? 2000
+  }
+  const { projectId, analysisType = 'general', framework } = req.body || {}
+  if (!request.prompt || !request.model || !projectId) {
+    throw new HttpError(400, 'prompt, model and projectId are required')
+  }
+  const project = await findWorkspaceProject(projectId, req.workspace!.id)
+
+  let response: GenerateResponse
+  switch (request.provider) {
+    case 'openai':
+      if (!SERVER_CONFIG.ai.openaiApiKey) {
+        throw new HttpError(503, 'OPENAI_API_KEY is not configured')
+      }
+      response = await callChatCompletions('https://api.openai.com/v1', SERVER_CONFIG.ai.openaiApiKey, request)
+      break
+    case 'claude':
+      if (!SERVER_CONFIG.ai.anthropicApiKey) {
+        throw new HttpError(503, 'ANTHROPIC_API_KEY is not configured')
+      }
+      response = await callClaude(request)
+      break
+    case 'local':
+      response = await callChatCompletions(SERVER_CONFIG.ai.localEndpoint, '', request)
+      break
+    default:
+      throw new HttpError(400, `Unsupported AI provider: ${request.provider}`)
+  }
+
+  await recordActivity(req.user!.id, analysisCompleted(project.id, {
+    kind: String(analysisType),
+    provider: request.provider,
+    model: response.model,
+    framework: framework ? String(framework) : undefined
+  }))
+  res.json(response)
+}))
@@ -0,0 +1,125 @@
+import { Router } from 'express'
+import { transaction } from '../db'
+import { asyncHandler } from '../http'
+import { recordActivity } from '../audit'
+import { requirePermission, requireSignedInUser } from '../auth'
+import { SERVER_CONFIG } from '../config'
+import {
+  createApiToken,
+  createServiceAccount,
+  deleteServiceAccount,
+  findApiToken,
+  findServiceAccount,
+  getApiTokens,
+  getServiceAccounts,
+  revokeApiToken,
+  rotateApiToken
+} from '../api-tokens'
+import { validate, apiTokenInputSchema, serviceAccountInputSchema } from '../../src/utils/validation'
+import {
+  apiTokenCreated,
+  apiTokenRevoked,
+  apiTokenRotated,
+  serviceAccountCreated,
+  serviceAccountDeleted
+} from '../../src/utils/audit'
+import type { ServiceAccount } from '../../src/types'
+
+// Personal API tokens of the signed-in user. Their activities are team-wide, like role changes.
+export const apiTokensRouter = Router()
+
+apiTokensRouter.get('/api-tokens', requireSignedInUser, asyncHandler(async (req, res) => {
+  res.json({ tokens: await getApiTokens(req.user!.id) })
+}))
+
+// The response is the only time the secret is shown
+apiTokensRouter.post('/api-tokens', requireSignedInUser, asyncHandler(async (req, res) => {
+  const input = validate(apiTokenInputSchema, req.body, 'API token')
+  const token = await transaction(async () => {
+    const created = await createApiToken(req.user!.id, input, req.user!.id)
+    await recordActivity(req.user!.id, apiTokenCreated(created, req.user!.email))
+    return created
+  })
+  res.status(201).json({ token })
+}))
+
+apiTokensRouter.post('/api-tokens/:tokenId/rotate', requireSignedInUser, asyncHandler(async (req, res) => {
+  const token = await transaction(async () => {
+    const before = await findApiToken(req.user!.id, req.params.tokenId)
+    const after = await rotateApiToken(before, req.user!.id)
+    await recordActivity(req.user!.id, apiTokenRotated(before, after, req.user!.email))
+    return after
+  })
+  res.json({ token })
+}))
+
+apiTokensRouter.delete('/api-tokens/:tokenId', requireSignedInUser, asyncHandler(async (req, res) => {
+  await transaction(async () => {
+    const token = await findApiToken(req.user!.id, req.params.tokenId)
+    await revokeApiToken(token)
+    await recordActivity(req.user!.id, apiTokenRevoked(token, req.user!.email))
+  })
+  res.json({ success: true, deletedId: req.params.tokenId })
+}))
+
+// Service accounts of the active workspace, managed by QA managers
+export const serviceAccountsRouter = Router()
+
+const manageServiceAccounts = [requireSignedInUser, requirePermission('users:manage')]
+
+const accountLabel = (account: ServiceAccount) => `service account "${account.name}"`
+
+serviceAccountsRouter.get('/service-accounts', manageServiceAccounts, asyncHandler(async (req, res) => {
+  res.json({ serviceAccounts: await getServiceAccounts(req.workspace!.id) })
+}))
+
+serviceAccountsRouter.post('/service-accounts', manageServiceAccounts, asyncHandler(async (req, res) => {
+  const { name, role } = validate(serviceAccountInputSchema, req.body, 'service account')
+  const serviceAccount = await transaction(async () => {
+    const account = await createServiceAccount(req.workspace!.id, name, role || SERVER_CONFIG.defaultUserRole, req.user!.id)
+    await recordActivity(req.user!.id, serviceAccountCreated(account))
+    return account
+  })
+  res.status(201).json({ serviceAccount })
+}))
+
+serviceAccountsRouter.delete('/service-accounts/:accountId', manageServiceAccounts, asyncHandler(async (req, res) => {
+  await transaction(async () => {
+    const account = await findServiceAccount(req.workspace!.id, req.params.accountId)
+    await deleteServiceAccount(account)
+    await recordActivity(req.user!.id, serviceAccountDeleted(account))
+  })
+  res.json({ success: true, deletedId: req.params.accountId })
+}))
+
+serviceAccountsRouter.post('/service-accounts/:accountId/tokens', manageServiceAccounts, asyncHandler(async (req, res) => {
+  const input = validate(apiTokenInputSchema, req.body, 'API token')
+  const token = await transaction(async () => {
+    const account = await findServiceAccount(req.workspace!.id, req.params.accountId)
+    const created = await createApiToken(account.id, input, req.user!.id)
+    await recordActivity(req.user!.id, apiTokenCreated(created, accountLabel(account)))
+    return created
+  })
+  res.status(201).json({ token })
+}))
+
+serviceAccountsRouter.post('/service-accounts/:accountId/tokens/:tokenId/rotate', manageServiceAccounts, asyncHandler(async (req, res) => {
+  const token = await transaction(async () => {
+    const account = await findServiceAccount(req.workspace!.id, req.params.accountId)
+    const before = await findApiToken(account.id, req.params.tokenId)
+    const after = await rotateApiToken(before, req.user!.id)
+    await recordActivity(req.user!.id, apiTokenRotated(before, after, accountLabel(account)))
+    return after
+  })
+  res.json({ token })
+}))
+
+serviceAccountsRouter.delete('/service-accounts/:accountId/tokens/:tokenId', manageServiceAccounts, asyncHandler(async (req, res) => {
+  await transaction(async () => {
+    const account = await findServiceAccount(req.workspace!.id, req.params.accountId)
+    const token = await findApiToken(account.id, req.params.tokenId)
+    await revokeApiToken(token)
+    await recordActivity(req.user!.id, apiTokenRevoked(token, accountLabel(account)))
+  })
+  res.json({ success: true, deletedId: req.params.tokenId })
+}))
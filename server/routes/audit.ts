@@ -0,0 +1,56 @@
+import crypto from 'crypto'
+import { Router, type Request } from 'express'
+import { query } from '../db'
+import { SERVER_CONFIG } from '../config'
+import { asyncHandler, HttpError, parseListQuery } from '../http'
+import { requirePermission, isAuditAdmin } from '../auth'
+import { auditLogQuerySchema } from '../../src/utils/validation'
+import {
+  getAuditLogPage,
+  verifyAuditLog,
+  getAllAuditLogEntries,
+  buildAuditEvidence,
+  evidenceSigningInput
+} from '../../src/utils/audit-chain'
+
+export const auditRouter = Router()
+
+// QA managers read the active workspace's entries. The operators in AUDIT_ADMIN_EMAILS read the
+// whole log, across workspaces and including team-wide entries that belong to none.
+auditRouter.use('/audit', requirePermission('audit:read'))
+
+// The workspace to limit the request to, or undefined for the whole log
+const auditScope = (req: Request): string | undefined =>
+  isAuditAdmin(req.user!) ? undefined : req.workspace!.id
+
+auditRouter.get('/audit/log', asyncHandler(async (req, res) => {
+  const page = await getAuditLogPage(query, parseListQuery(req, auditLogQuerySchema, 'audit log query'), auditScope(req))
+  res.json({ entries: page.items, pageInfo: page.pageInfo })
+}))
+
+// The whole chain is always walked; a workspace's verification reports on its own entries
+auditRouter.get('/audit/verify', asyncHandler(async (req, res) => {
+  res.json({ verification: await verifyAuditLog(query, auditScope(req)) })
+}))
+
+// The log, or the workspace's entries of it, plus their verification, signed with
+// AUDIT_SIGNING_KEY (Ed25519 over evidenceSigningInput)
+auditRouter.get('/audit/export', asyncHandler(async (req, res) => {
+  if (!SERVER_CONFIG.audit.signingKey) {
+    throw new HttpError(503, 'AUDIT_SIGNING_KEY is not configured')
+  }
+
+  const privateKey = crypto.createPrivateKey(SERVER_CONFIG.audit.signingKey)
+  const workspaceId = auditScope(req)
+  const verification = await verifyAuditLog(query, workspaceId)
+  // Entries appended since the verification are left for the next export
+  const entries = (await getAllAuditLogEntries(query, workspaceId))
+    .filter(entry => entry.seq <= (verification.head?.seq ?? 0))
+  const evidence = buildAuditEvidence(entries, verification, req.user!.email, workspaceId)
+  evidence.signature = {
+    algorithm: 'Ed25519',
+    publicKey: crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString(),
+    value: crypto.sign(null, Buffer.from(evidenceSigningInput(evidence)), privateKey).toString('base64')
+  }
+  res.json({ evidence })
+}))
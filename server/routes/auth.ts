@@ -0,0 +1,200 @@
+import { Router } from 'express'
+import { SERVER_CONFIG } from '../config'
+import { createAccessToken, hashPassword, verifyUserPassword } from '../auth'
+import { query, transaction } from '../db'
+import { asyncHandler, HttpError } from '../http'
+import { recordActivity } from '../audit'
+import {
+  consumeAccountToken,
+  findAccountToken,
+  sendAccountExistsEmail,
+  sendPasswordResetEmail,
+  sendVerificationEmail
+} from '../accounts'
+import { validate, accountTokenSchema, invitationAcceptanceSchema, passwordResetSchema } from '../../src/utils/validation'
+import { userInvitationAccepted, userPasswordReset } from '../../src/utils/audit'
+import type { AccountInvitation } from '../../src/types'
+
+export const authRouter = Router()
+
+const DEACTIVATED = 'This account has been deactivated'
+
+// Roles come with the workspace a request acts in (GET /me)
+const signInResponse = (user: { id: string; email: string; name?: string }) => ({
+  access_token: createAccessToken({ id: user.id, email: user.email, name: user.name }),
+  token_type: 'bearer',
+  user: { id: user.id, email: user.email, name: user.name || undefined }
+})
+
+const normalizeEmail = (email: unknown): string => String(email || '').trim().toLowerCase()
+
+// Emails sent on behalf of anonymous requests; a failure is logged rather than reported, as the
+// response mustn't reveal whether the address has an account
+const sendQuietly = async (send: () => Promise<unknown>) => {
+  try {
+    await send()
+  } catch (error) {
+    console.error('Unable to send account email:', error)
+  }
+}
+
+authRouter.post('/auth/signup', asyncHandler(async (req, res) => {
+  const { email, password, name } = req.body || {}
+  if (!email || !password) {
+    throw new HttpError(400, 'Email and password are required')
+  }
+  if (String(password).length < 6) {
+    throw new HttpError(400, 'Password must be at least 6 characters')
+  }
+
+  // Without REQUIRE_EMAIL_VERIFICATION the user can sign in straight away, but still needs the
+  // link to accept workspace invitations sent to the address
+  const verificationRequired = SERVER_CONFIG.accounts.requireEmailVerification
+  const result = await query(
+    `INSERT INTO users (email, name, password_hash)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (email) DO NOTHING
+     RETURNING id, email, name, created_at`,
+    [normalizeEmail(email), name || null, hashPassword(password)]
+  )
+  if (result.rows.length > 0) {
+    // The user can ask for another link if this one doesn't arrive
+    await sendQuietly(() => sendVerificationEmail(result.rows[0]))
+  } else {
+    // The address has an account: its owner is told by email, and the answer is the same as for a
+    // new account, so sign-up can't be used to find out who has one
+    const existing = await query(
+      'SELECT id, email, name FROM users WHERE email = $1 AND password_hash IS NOT NULL AND deactivated_at IS NULL',
+      [normalizeEmail(email)]
+    )
+    if (existing.rows.length > 0) {
+      await sendQuietly(() => sendAccountExistsEmail(existing.rows[0]))
+    }
+  }
+  res.status(201).json({
+    user: { email: normalizeEmail(email), name: name || undefined },
+    verificationRequired
+  })
+}))
+
+// Password sign-in for deployments without Supabase Auth
+authRouter.post('/auth/signin', asyncHandler(async (req, res) => {
+  const { email, password } = req.body || {}
+  const result = await query('SELECT * FROM users WHERE email = $1', [normalizeEmail(email)])
+  const user = result.rows[0]
+
+  if (!verifyUserPassword(String(password || ''), user?.password_hash)) {
+    throw new HttpError(401, 'Invalid login credentials')
+  }
+  // Checked after the password, so the status of an account isn't revealed to strangers
+  if (user.deactivated_at) {
+    throw new HttpError(403, DEACTIVATED)
+  }
+  if (SERVER_CONFIG.accounts.requireEmailVerification && !user.email_verified_at) {
+    // The code lets the sign-in form offer to resend the link
+    res.status(403).json({ error: 'Confirm your email address before signing in', code: 'email_not_verified' })
+    return
+  }
+
+  res.json(signInResponse(user))
+}))
+
+// Email verification
+
+authRouter.post('/auth/verify-email', asyncHandler(async (req, res) => {
+  const { token } = validate(accountTokenSchema, req.body, 'verification')
+  await transaction(async () => {
+    const userId = await consumeAccountToken(token, 'verify-email')
+    await query('UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW() WHERE id = $1', [userId])
+  })
+  res.json({ success: true })
+}))
+
+authRouter.post('/auth/resend-verification', asyncHandler(async (req, res) => {
+  const result = await query(
+    `SELECT id, email, name FROM users
+     WHERE email = $1 AND password_hash IS NOT NULL AND email_verified_at IS NULL AND deactivated_at IS NULL`,
+    [normalizeEmail(req.body?.email)]
+  )
+  if (result.rows.length > 0) {
+    await sendQuietly(() => sendVerificationEmail(result.rows[0]))
+  }
+  res.json({ success: true })
+}))
+
+// Password reset. The request always succeeds, so it can't be used to find out who has an account.
+
+authRouter.post('/auth/forgot-password', asyncHandler(async (req, res) => {
+  const result = await query(
+    'SELECT id, email, name FROM users WHERE email = $1 AND password_hash IS NOT NULL AND deactivated_at IS NULL',
+    [normalizeEmail(req.body?.email)]
+  )
+  if (result.rows.length > 0) {
+    await sendQuietly(() => sendPasswordResetEmail(result.rows[0]))
+  }
+  res.json({ success: true })
+}))
+
+// The link arrived by email, so a reset also verifies the address
+authRouter.post('/auth/reset-password', asyncHandler(async (req, res) => {
+  const { token, password } = validate(passwordResetSchema, req.body, 'password reset')
+  await transaction(async () => {
+    const userId = await consumeAccountToken(token, 'reset-password')
+    const result = await query(
+      `UPDATE users
+       SET password_hash = $2, email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW()
+       WHERE id = $1 AND deactivated_at IS NULL
+       RETURNING id, email, name`,
+      [userId, hashPassword(password)]
+    )
+    if (result.rows.length === 0) {
+      throw new HttpError(403, DEACTIVATED)
+    }
+    await recordActivity(userId, userPasswordReset(result.rows[0]))
+  })
+  res.json({ success: true })
+}))
+
+// Invitations sent from the Team page (POST /users/invitations)
+
+authRouter.get('/auth/invitations/:token', asyncHandler(async (req, res) => {
+  const token = await findAccountToken(req.params.token, 'invitation')
+  const result = await query(
+    `SELECT u.email, u.name, COALESCE(NULLIF(i.name, ''), i.email) AS invited_by
+     FROM users u
+     LEFT JOIN users i ON i.id = $2
+     WHERE u.id = $1`,
+    [token.userId, token.createdBy]
+  )
+  const row = result.rows[0]
+  const invitation: AccountInvitation = {
+    email: row.email,
+    name: row.name || undefined,
+    invitedBy: row.invited_by || undefined,
+    expiresAt: token.expiresAt
+  }
+  res.json({ invitation })
+}))
+
+// Sets the invitee's password and signs them in
+authRouter.post('/auth/accept-invitation', asyncHandler(async (req, res) => {
+  const { token, password, name } = validate(invitationAcceptanceSchema, req.body, 'invitation')
+  const user = await transaction(async () => {
+    const userId = await consumeAccountToken(token, 'invitation')
+    // An invitee who has meanwhile signed in through an identity provider already has an account
+    const result = await query(
+      `UPDATE users
+       SET password_hash = $2, name = COALESCE(NULLIF($3, ''), name), email_verified_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND password_hash IS NULL AND auth_subject IS NULL AND deactivated_at IS NULL
+       RETURNING id, email, name`,
+      [userId, hashPassword(password), name || null]
+    )
+    if (result.rows.length === 0) {
+      throw new HttpError(400, 'This invitation has already been used')
+    }
+    const account = result.rows[0]
+    await recordActivity(account.id, userInvitationAccepted(account))
+    return account
+  })
+  res.json(signInResponse(user))
+}))
@@ -0,0 +1,410 @@
+import express, { Router, type Request } from 'express'
+import multer from 'multer'
+import { SERVER_CONFIG } from '../config'
+import { query, transaction } from '../db'
+import { asyncHandler, HttpError } from '../http'
+import { recordActivity } from '../audit'
+import { requirePermission } from '../auth'
+import { getStorage, hashStoredFile, removeStoredFiles } from '../storage'
+import { ocrEngine } from '../ocr'
+import { mapDocumentRow, DOCUMENT_COLUMNS } from '../../src/utils/row-mappers'
+import { validate, documentUpdateSchema, documentVersionInputSchema, uploadSessionInputSchema } from '../../src/utils/validation'
+import { documentUploaded, documentUpdated, documentDeleted } from '../../src/utils/audit'
+import { documentKey, UPLOAD_CHUNK_BYTES, type ResumableUpload } from '../../src/utils/storage/storage-provider'
+import {
+  extractDocumentText,
+  metadataEditsClause,
+  saveDocumentExtraction,
+  tooLargeToExtract,
+  type DocumentExtraction
+} from '../../src/utils/extraction'
+import {
+  DOCUMENT_ROWS_SQL,
+  contentHash,
+  duplicateDocumentError,
+  findDuplicateDocument,
+  getDocumentVersions,
+  insertDocument,
+  makeCurrentVersion,
+  promoteLatestVersion
+} from '../../src/utils/document-versions'
+import { findProjectDocument } from '../../src/utils/requirement-sources'
+import type { Document, DocumentUpdate, DocumentVersionInput, UploadSession } from '../../src/types'
+import { findWorkspaceProject } from './projects'
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: SERVER_CONFIG.maxUploadBytes }
+})
+
+// Load a document of the active workspace with its uploader's name, or fail with 404
+const findWorkspaceDocument = async (documentId: string, workspaceId: string) => {
+  const result = await query(
+    `${DOCUMENT_ROWS_SQL}
+     JOIN projects p ON d.project_id = p.id
+     WHERE d.id = $1 AND p.workspace_id = $2`,
+    [documentId, workspaceId]
+  )
+  if (result.rows.length === 0) {
+    throw new HttpError(404, 'Document not found')
+  }
+  return result.rows[0]
+}
+
+// Refuses a file whose content is already in the project, before it is stored or read
+const refuseDuplicate = async (projectId: string, hash: string): Promise<void> => {
+  const duplicate = await findDuplicateDocument(query, projectId, hash)
+  if (duplicate) {
+    throw duplicateDocumentError(duplicate)
+  }
+}
+
+// A file that has been stored under filePath becomes a document (or the next version of one):
+// its text is extracted and the row recorded. The stored file is removed again if that fails.
+interface StoredUpload extends DocumentVersionInput {
+  projectId: string
+  filename: string
+  filePath: string
+  size: number
+  mimeType?: string
+  documentType?: string
+  contentHash: string
+}
+
+// Text of a stored file, from `data` when the request already holds it. Files over
+// MAX_EXTRACTION_MB are never read into memory and are kept without their text.
+const extractStoredFile = async (
+  file: { filePath: string; filename: string; size: number; mimeType?: string },
+  data?: Uint8Array
+): Promise<DocumentExtraction> => {
+  const source = { name: file.filename, mimeType: file.mimeType }
+  if (file.size > SERVER_CONFIG.maxExtractionBytes) {
+    return tooLargeToExtract(source, SERVER_CONFIG.maxExtractionBytes)
+  }
+  return extractDocumentText(data || await getStorage().get(file.filePath), source, { ocr: ocrEngine() })
+}
+
+const createDocument = async (req: Request, upload: StoredUpload, data?: Uint8Array): Promise<Document> => {
+  // Outside the transaction, so a long PDF (or OCR of a scan) doesn't hold a connection
+  const extraction = await extractStoredFile(upload, data)
+
+  return transaction(async () => {
+    const documentId = await insertDocument(query, {
+      projectId: upload.projectId,
+      filename: upload.filename,
+      filePath: upload.filePath,
+      fileSize: upload.size,
+      documentType: upload.documentType,
+      mimeType: upload.mimeType,
+      uploadedBy: req.user!.id,
+      contentHash: upload.contentHash,
+      versionOf: upload.versionOf,
+      effectiveDate: upload.effectiveDate,
+      category: upload.category
+    })
+    await query('UPDATE projects SET last_activity = NOW() WHERE id = $1', [upload.projectId])
+    const created = await saveDocumentExtraction(query, documentId, extraction)
+    await recordActivity(req.user!.id, documentUploaded(created))
+    return created
+  }).catch(async error => {
+    await removeStoredFiles([upload.filePath])
+    throw error
+  })
+}
+
+export const documentsRouter = Router()
+
+// Every version of every document; Document.isCurrent tells the current ones
+documentsRouter.get('/projects/:projectId/documents', asyncHandler(async (req, res) => {
+  await findWorkspaceProject(req.params.projectId, req.workspace!.id)
+
+  const result = await query(
+    `${DOCUMENT_ROWS_SQL} WHERE d.project_id = $1 ORDER BY d.created_at DESC`,
+    [req.params.projectId]
+  )
+  res.json({ documents: result.rows.map(mapDocumentRow) })
+}))
+
+documentsRouter.post('/documents/upload', requirePermission('document:upload'), upload.single('file'), asyncHandler(async (req, res) => {
+  const { projectId, documentType, versionOf, effectiveDate, category } = req.body
+  if (!req.file) {
+    throw new HttpError(400, 'No file provided')
+  }
+  if (!projectId) {
+    throw new HttpError(400, 'projectId is required')
+  }
+  const version = validate(documentVersionInputSchema, { versionOf, effectiveDate, category }, 'document version')
+  await findWorkspaceProject(projectId, req.workspace!.id)
+
+  const file = req.file
+  const hash = await contentHash(file.buffer)
+  await refuseDuplicate(projectId, hash)
+
+  // Stored as <projectId>/<random>-<original name>; the row only exists once the file does
+  const filePath = documentKey(projectId, file.originalname)
+  await getStorage().put(filePath, file.buffer, { contentType: file.mimetype })
+  const document = await createDocument(req, {
+    projectId,
+    filename: file.originalname,
+    filePath,
+    size: file.size,
+    mimeType: file.mimetype,
+    documentType,
+    contentHash: hash,
+    ...version
+  }, file.buffer)
+
+  res.status(201).json({ success: true, document })
+}))
+
+// Resumable uploads, for files too large to send in one request. POST /documents/uploads starts
+// one; each chunk of `chunkSize` bytes is PATCHed in order at ?offset=; GET tells where to go on
+// after a failure; POST .../complete turns the file into a document and DELETE gives up on it.
+// An upload belongs to the user who started it and expires after uploadSessionTtlHours.
+
+const resumableUpload = (row: any): ResumableUpload => ({
+  key: row.file_path,
+  id: row.storage_upload_id,
+  size: Number(row.file_size),
+  contentType: row.mime_type || undefined
+})
+
+const uploadSession = (row: any, offset: number): UploadSession => ({
+  id: row.id,
+  filename: row.filename,
+  size: Number(row.file_size),
+  offset,
+  chunkSize: UPLOAD_CHUNK_BYTES,
+  expiresAt: new Date(row.expires_at).toISOString()
+})
+
+// The user's unexpired upload in the active workspace, or 404
+const findUpload = async (req: Request) => {
+  const result = await query(
+    `SELECT u.*, to_char(u.effective_date, 'YYYY-MM-DD') AS effective_day FROM document_uploads u
+     JOIN projects p ON u.project_id = p.id
+     WHERE u.id = $1 AND p.workspace_id = $2 AND u.uploaded_by = $3 AND u.expires_at > NOW()`,
+    [req.params.uploadId, req.workspace!.id, req.user!.id]
+  )
+  if (result.rows.length === 0) {
+    throw new HttpError(404, 'Upload not found or expired')
+  }
+  return result.rows[0]
+}
+
+// Chunks already sent for expired uploads are thrown away when the same user starts another
+const removeExpiredUploads = async (userId: string): Promise<void> => {
+  const result = await query(
+    'DELETE FROM document_uploads WHERE uploaded_by = $1 AND expires_at <= NOW() RETURNING *',
+    [userId]
+  )
+  for (const row of result.rows) {
+    await getStorage().abortUpload(resumableUpload(row)).catch(error => {
+      console.warn(`Unable to discard expired upload ${row.id}:`, error)
+    })
+  }
+}
+
+documentsRouter.post('/documents/uploads', requirePermission('document:upload'), asyncHandler(async (req, res) => {
+  const input = validate(uploadSessionInputSchema, req.body, 'upload')
+  if (input.size > SERVER_CONFIG.maxResumableUploadBytes) {
+    throw new HttpError(413, `Files can be at most ${Math.floor(SERVER_CONFIG.maxResumableUploadBytes / 1024 / 1024)} MB`)
+  }
+  await findWorkspaceProject(input.projectId, req.workspace!.id)
+  // Checked again on completion, but a large file shouldn't be sent for nothing
+  if (input.versionOf && !(await findProjectDocument(query, input.projectId, input.versionOf))) {
+    throw new HttpError(400, 'versionOf is not a document of this project')
+  }
+  await removeExpiredUploads(req.user!.id)
+
+  const stored = await getStorage().startUpload(documentKey(input.projectId, input.filename), input.size, {
+    contentType: input.mimeType
+  })
+  const result = await query(
+    `INSERT INTO document_uploads (
+       project_id, uploaded_by, filename, file_path, file_size,
+       mime_type, document_type, storage_upload_id, version_of, effective_date, category, expires_at
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW() + make_interval(hours => $12))
+     RETURNING *`,
+    [
+      input.projectId,
+      req.user!.id,
+      input.filename,
+      stored.key,
+      input.size,
+      input.mimeType || null,
+      input.documentType || null,
+      stored.id,
+      input.versionOf || null,
+      input.effectiveDate || null,
+      input.category || null,
+      SERVER_CONFIG.uploadSessionTtlHours
+    ]
+  )
+  res.status(201).json({ upload: uploadSession(result.rows[0], 0) })
+}))
+
+documentsRouter.get('/documents/uploads/:uploadId', requirePermission('document:upload'), asyncHandler(async (req, res) => {
+  const row = await findUpload(req)
+  const offset = await getStorage().uploadedBytes(resumableUpload(row))
+  res.json({ upload: uploadSession(row, offset) })
+}))
+
+documentsRouter.patch(
+  '/documents/uploads/:uploadId',
+  requirePermission('document:upload'),
+  express.raw({ type: () => true, limit: UPLOAD_CHUNK_BYTES }),
+  asyncHandler(async (req, res) => {
+    const offset = Number(req.query.offset)
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new HttpError(400, 'offset must be the byte position of the chunk')
+    }
+    if (!Buffer.isBuffer(req.body)) {
+      throw new HttpError(400, 'No chunk provided')
+    }
+    const row = await findUpload(req)
+    const next = await getStorage().uploadChunk(resumableUpload(row), offset, new Uint8Array(req.body))
+    res.json({ upload: uploadSession(row, next) })
+  })
+)
+
+documentsRouter.post('/documents/uploads/:uploadId/complete', requirePermission('document:upload'), asyncHandler(async (req, res) => {
+  const row = await findUpload(req)
+  const storage = getStorage()
+  await storage.completeUpload(resumableUpload(row))
+  // The session ends here whether or not the file turns into a document
+  await query('DELETE FROM document_uploads WHERE id = $1', [row.id])
+
+  const hash = await hashStoredFile(row.file_path)
+  await refuseDuplicate(row.project_id, hash).catch(async error => {
+    await removeStoredFiles([row.file_path])
+    throw error
+  })
+  const document = await createDocument(req, {
+    projectId: row.project_id,
+    filename: row.filename,
+    filePath: row.file_path,
+    size: Number(row.file_size),
+    mimeType: row.mime_type || undefined,
+    documentType: row.document_type || undefined,
+    contentHash: hash,
+    versionOf: row.version_of || undefined,
+    effectiveDate: row.effective_day || undefined,
+    category: row.category || undefined
+  })
+
+  res.status(201).json({ success: true, document })
+}))
+
+documentsRouter.delete('/documents/uploads/:uploadId', requirePermission('document:upload'), asyncHandler(async (req, res) => {
+  const row = await findUpload(req)
+  await getStorage().abortUpload(resumableUpload(row))
+  await query('DELETE FROM document_uploads WHERE id = $1', [row.id])
+  res.json({ success: true, deletedId: row.id })
+}))
+
+documentsRouter.get('/documents/:documentId', asyncHandler(async (req, res) => {
+  const document = await findWorkspaceDocument(req.params.documentId, req.workspace!.id)
+  res.json({ document: mapDocumentRow(document) })
+}))
+
+// Every version of the document, newest first
+documentsRouter.get('/documents/:documentId/versions', asyncHandler(async (req, res) => {
+  const document = await findWorkspaceDocument(req.params.documentId, req.workspace!.id)
+  res.json({ versions: await getDocumentVersions(query, document.id) })
+}))
+
+// Makes an earlier (or later) version the current one
+documentsRouter.post('/documents/:documentId/current', requirePermission('document:update'), asyncHandler(async (req, res) => {
+  const existing = await findWorkspaceDocument(req.params.documentId, req.workspace!.id)
+
+  const document = await transaction(async () => {
+    await makeCurrentVersion(query, existing.id)
+    const result = await query(`${DOCUMENT_ROWS_SQL} WHERE d.id = $1`, [existing.id])
+    const updated = mapDocumentRow(result.rows[0])
+    await recordActivity(req.user!.id, documentUpdated(mapDocumentRow(existing), updated))
+    return updated
+  })
+  res.json({ document })
+}))
+
+// Short-lived link to the stored file (STORAGE_SIGNED_URL_TTL seconds)
+documentsRouter.get('/documents/:documentId/download', asyncHandler(async (req, res) => {
+  const document = await findWorkspaceDocument(req.params.documentId, req.workspace!.id)
+  if (!document.file_path) {
+    throw new HttpError(404, 'This document has no stored file')
+  }
+
+  const ttl = SERVER_CONFIG.storage.signedUrlTtlSeconds
+  const url = await getStorage().getSignedUrl(document.file_path, ttl)
+  res.json({ url, expiresAt: new Date(Date.now() + ttl * 1000).toISOString() })
+}))
+
+// Extracts the text again from the stored file, e.g. for documents uploaded before extraction
+// existed or after a fix to an extractor
+documentsRouter.post('/documents/:documentId/reprocess', requirePermission('document:update'), asyncHandler(async (req, res) => {
+  const existing = await findWorkspaceDocument(req.params.documentId, req.workspace!.id)
+  if (!existing.file_path) {
+    throw new HttpError(404, 'This document has no stored file')
+  }
+
+  const extraction = await extractStoredFile({
+    filePath: existing.file_path,
+    filename: existing.filename,
+    size: Number(existing.file_size),
+    mimeType: existing.mime_type || undefined
+  })
+  const document = await transaction(async () => {
+    const updated = await saveDocumentExtraction(query, existing.id, extraction)
+    await recordActivity(req.user!.id, documentUpdated(mapDocumentRow(existing), updated))
+    return updated
+  })
+  res.json({ document })
+}))
+
+documentsRouter.put('/documents/:documentId', requirePermission('document:update'), asyncHandler(async (req, res) => {
+  const existing = await findWorkspaceDocument(req.params.documentId, req.workspace!.id)
+
+  const updates = validate(documentUpdateSchema, req.body, 'document update')
+  const entries = Object.entries(updates).filter(([, value]) => value !== undefined)
+  if (entries.length === 0) {
+    throw new HttpError(400, 'No updatable fields provided')
+  }
+
+  const setClause = entries
+    .map(([key], index) => `${DOCUMENT_COLUMNS[key as keyof DocumentUpdate]} = $${index + 2}`)
+    .concat(metadataEditsClause(entries.map(([key]) => key)) || [])
+    .join(', ')
+
+  const document = await transaction(async () => {
+    await query(
+      `UPDATE documents
+       SET ${setClause}, updated_at = NOW()
+       WHERE id = $1`,
+      [existing.id, ...entries.map(([, value]) => value)]
+    )
+    const result = await query(`${DOCUMENT_ROWS_SQL} WHERE d.id = $1`, [existing.id])
+    const updated = mapDocumentRow(result.rows[0])
+    await recordActivity(req.user!.id, documentUpdated(mapDocumentRow(existing), updated))
+    return updated
+  })
+  res.json({ document })
+}))
+
+documentsRouter.delete('/documents/:documentId', requirePermission('document:delete'), asyncHandler(async (req, res) => {
+  const document = await findWorkspaceDocument(req.params.documentId, req.workspace!.id)
+
+  await transaction(async () => {
+    await query('DELETE FROM documents WHERE id = $1', [document.id])
+    await promoteLatestVersion(query, document.lineage_id)
+    await query('UPDATE projects SET last_activity = NOW() WHERE id = $1', [document.project_id])
+    await recordActivity(req.user!.id, documentDeleted(mapDocumentRow(document)))
+  })
+
+  // The row is gone either way; a missing file shouldn't fail the request
+  if (document.file_path) {
+    await removeStoredFiles([document.file_path])
+  }
+  res.json({ success: true, deletedId: document.id })
+}))
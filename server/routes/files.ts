@@ -0,0 +1,26 @@
+import { Router } from 'express'
+import { asyncHandler, HttpError } from '../http'
+import { getStorage, LocalDiskStorage } from '../storage'
+
+export const filesRouter = Router()
+
+// Signed download links for STORAGE_PROVIDER=local (see LocalDiskStorage.getSignedUrl).
+// Public: the signature stands in for the Authorization header.
+filesRouter.get('/files/*', asyncHandler(async (req, res) => {
+  const storage = getStorage()
+  if (!(storage instanceof LocalDiskStorage)) {
+    throw new HttpError(404, 'Not found')
+  }
+
+  const key = req.params[0]
+  const expires = Number(req.query.expires)
+  if (!storage.verifySignature(key, expires, String(req.query.signature || ''))) {
+    throw new HttpError(403, 'Download link is invalid or has expired')
+  }
+
+  const body = await storage.get(key)
+  // Keys are <random>-<original name>; offer the original name
+  const filename = key.split('/').pop()!.replace(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}-/, '')
+  res.attachment(filename)
+  res.send(Buffer.from(body))
+}))
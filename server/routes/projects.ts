@@ -0,0 +1,111 @@
+import { Router } from 'express'
+import { query, transaction } from '../db'
+import { asyncHandler, HttpError, parseListQuery } from '../http'
+import { recordActivity } from '../audit'
+import { requirePermission } from '../auth'
+import { getStorage, removeStoredFiles } from '../storage'
+import { mapProjectRow, PROJECT_COLUMNS } from '../../src/utils/row-mappers'
+import { validate, projectInputSchema, projectUpdateSchema, projectQuerySchema } from '../../src/utils/validation'
+import { buildListSql, buildFacetSql, toPage, toFacets, PROJECT_LIST_SQL, PROJECT_FACET_COLUMNS } from '../../src/utils/list-query'
+import { projectCreated, projectUpdated, projectDeleted } from '../../src/utils/audit'
+import { projectPrefix } from '../../src/utils/storage/storage-provider'
+import type { ProjectUpdate } from '../../src/types'
+
+// Load a project of the active workspace, or fail with 404
+export const findWorkspaceProject = async (projectId: string, workspaceId: string) => {
+  const result = await query('SELECT * FROM projects WHERE id = $1 AND workspace_id = $2', [projectId, workspaceId])
+  if (result.rows.length === 0) {
+    throw new HttpError(404, 'Project not found')
+  }
+  return result.rows[0]
+}
+
+export const projectsRouter = Router()
+
+projectsRouter.get('/projects', asyncHandler(async (req, res) => {
+  const list = buildListSql(PROJECT_LIST_SQL, parseListQuery(req, projectQuerySchema, 'project query'), {
+    select: '*',
+    from: 'projects',
+    conditions: ['workspace_id = $1'],
+    params: [req.workspace!.id]
+  })
+  const result = await query(list.sql, list.params)
+  const count = await query(list.countSql, list.countParams)
+  const page = toPage(result.rows, count.rows[0].total, list, mapProjectRow)
+
+  // Facets and the average cover all of the workspace's projects, not just the filtered page
+  const facets = await query(buildFacetSql(PROJECT_FACET_COLUMNS, 'projects', ['workspace_id = $1']), [req.workspace!.id])
+  const average = await query(
+    'SELECT COALESCE(ROUND(AVG(compliance_score)), 0)::int AS average FROM projects WHERE workspace_id = $1',
+    [req.workspace!.id]
+  )
+
+  res.json({
+    projects: page.items,
+    pageInfo: page.pageInfo,
+    facets: toFacets(PROJECT_FACET_COLUMNS, facets.rows),
+    averageCompliance: average.rows[0].average
+  })
+}))
+
+projectsRouter.post('/projects', requirePermission('project:create'), asyncHandler(async (req, res) => {
+  const { name, description, documentType, assignee, status } = validate(projectInputSchema, req.body, 'project input')
+
+  const project = await transaction(async () => {
+    const result = await query(
+      `INSERT INTO projects (name, description, user_id, workspace_id, document_type, assignee, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [name, description || '', req.user!.id, req.workspace!.id, documentType || null, assignee || null, status || 'active']
+    )
+    const created = mapProjectRow(result.rows[0])
+    await recordActivity(req.user!.id, projectCreated(created))
+    return created
+  })
+  res.status(201).json({ project })
+}))
+
+projectsRouter.put('/projects/:projectId', requirePermission('project:update'), asyncHandler(async (req, res) => {
+  const existing = await findWorkspaceProject(req.params.projectId, req.workspace!.id)
+
+  const updates = validate(projectUpdateSchema, req.body, 'project update')
+  const entries = Object.entries(updates).filter(([, value]) => value !== undefined)
+  if (entries.length === 0) {
+    throw new HttpError(400, 'No updatable fields provided')
+  }
+
+  const setClause = entries
+    .map(([key], index) => `${PROJECT_COLUMNS[key as keyof ProjectUpdate]} = $${index + 2}`)
+    .join(', ')
+
+  const project = await transaction(async () => {
+    const result = await query(
+      `UPDATE projects
+       SET ${setClause}, updated_at = NOW(), last_activity = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [req.params.projectId, ...entries.map(([, value]) => value)]
+    )
+    const updated = mapProjectRow(result.rows[0])
+    await recordActivity(req.user!.id, projectUpdated(mapProjectRow(existing), updated))
+    return updated
+  })
+  res.json({ project })
+}))
+
+projectsRouter.delete('/projects/:projectId', requirePermission('project:delete'), asyncHandler(async (req, res) => {
+  const project = mapProjectRow(await findWorkspaceProject(req.params.projectId, req.workspace!.id))
+  await transaction(async () => {
+    await recordActivity(req.user!.id, projectDeleted(project))
+    await query('DELETE FROM projects WHERE id = $1', [project.id])
+  })
+
+  // Documents went with the project; sweep its folder, including files from uploads that never got a row
+  try {
+    const stored = await getStorage().list(projectPrefix(project.id))
+    await removeStoredFiles(stored.map(object => object.key))
+  } catch (error) {
+    console.warn(`Unable to clean up stored files for project ${project.id}:`, error)
+  }
+  res.json({ success: true, deletedId: req.params.projectId })
+}))
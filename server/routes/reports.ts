@@ -0,0 +1,68 @@
+import crypto from 'crypto'
+import { Router } from 'express'
+import { query } from '../db'
+import { asyncHandler, HttpError } from '../http'
+import { recordActivity } from '../audit'
+import { requirePermission } from '../auth'
+import { sendMail } from '../mailer'
+import { mapProjectRow, mapRequirementRow } from '../../src/utils/row-mappers'
+import { reportEmailed, reportExported } from '../../src/utils/audit'
+import { reportExportInputSchema, validate } from '../../src/utils/validation'
+import { findWorkspaceProject } from './projects'
+
+export const reportsRouter = Router()
+
+reportsRouter.post('/reports/email', requirePermission('report:email'), asyncHandler(async (req, res) => {
+  const { projectId, to, subject, message, includeAttachment } = req.body || {}
+  if (!projectId || !to) {
+    throw new HttpError(400, 'projectId and to are required')
+  }
+
+  const project = mapProjectRow(await findWorkspaceProject(projectId, req.workspace!.id))
+
+  let attachments
+  if (includeAttachment) {
+    const result = await query(
+      'SELECT * FROM requirements WHERE project_id = $1 ORDER BY created_at ASC',
+      [projectId]
+    )
+    const report = {
+      project,
+      requirements: result.rows.map(mapRequirementRow),
+      generatedAt: new Date().toISOString()
+    }
+    attachments = [{
+      filename: `${project.name.replace(/[^\w-]+/g, '_')}-qc-report.json`,
+      content: JSON.stringify(report, null, 2),
+      contentType: 'application/json'
+    }]
+  }
+
+  const mail = {
+    to,
+    subject: subject || `QC Report: ${project.name}`,
+    text: message || '',
+    attachments
+  }
+  const info = await sendMail(mail)
+  await recordActivity(req.user!.id, reportEmailed(project.id, { ...mail, includeAttachment: Boolean(attachments) }))
+
+  res.json({
+    success: true,
+    messageId: info.messageId,
+    sentAt: new Date().toISOString()
+  })
+}))
+
+// The browser renders the report; it is fingerprinted and put on the audit trail here, before the
+// browser offers it for download
+reportsRouter.post('/reports/export', requirePermission('report:export'), asyncHandler(async (req, res) => {
+  const data = validate(reportExportInputSchema, req.body, 'report export')
+  const project = await findWorkspaceProject(data.projectId, req.workspace!.id)
+
+  const content = Buffer.from(data.content, 'utf8')
+  const sha256 = crypto.createHash('sha256').update(content).digest('hex')
+  await recordActivity(req.user!.id, reportExported(project.id, data.filename, data.format, { sha256, size: content.length }))
+
+  res.status(201).json({ sha256, exportedAt: new Date().toISOString() })
+}))
@@ -0,0 +1,149 @@
+import { Router } from 'express'
+import { query, transaction } from '../db'
+import { asyncHandler, HttpError, parseListQuery } from '../http'
+import { recordActivity } from '../audit'
+import { requirePermission } from '../auth'
+import { mapRequirementRow, REQUIREMENT_COLUMNS } from '../../src/utils/row-mappers'
+import { validate, requirementInputSchema, requirementUpdateSchema, requirementQuerySchema } from '../../src/utils/validation'
+import { buildListSql, buildFacetSql, toPage, toFacets, REQUIREMENT_LIST_SQL, REQUIREMENT_FACET_COLUMNS } from '../../src/utils/list-query'
+import { requirementCreated, requirementUpdated, requirementDeleted } from '../../src/utils/audit'
+import { assertPermission, changesFinalStatus } from '../../src/utils/permissions'
+import { withRequirementSource } from '../../src/utils/requirement-sources'
+import { findWorkspaceProject } from './projects'
+
+// Load a requirement of the active workspace, or fail with 404
+const findWorkspaceRequirement = async (requirementId: string, workspaceId: string) => {
+  const result = await query(
+    `SELECT r.* FROM requirements r
+     JOIN projects p ON r.project_id = p.id
+     WHERE r.id = $1 AND p.workspace_id = $2`,
+    [requirementId, workspaceId]
+  )
+  if (result.rows.length === 0) {
+    throw new HttpError(404, 'Requirement not found')
+  }
+  return result.rows[0]
+}
+
+export const requirementsRouter = Router()
+
+requirementsRouter.get('/projects/:projectId/requirements', asyncHandler(async (req, res) => {
+  await findWorkspaceProject(req.params.projectId, req.workspace!.id)
+
+  const list = buildListSql(REQUIREMENT_LIST_SQL, parseListQuery(req, requirementQuerySchema, 'requirement query'), {
+    select: '*',
+    from: 'requirements',
+    conditions: ['project_id = $1'],
+    params: [req.params.projectId]
+  })
+  const result = await query(list.sql, list.params)
+  const count = await query(list.countSql, list.countParams)
+  const page = toPage(result.rows, count.rows[0].total, list, mapRequirementRow)
+
+  // Facets cover the whole project so filter options and totals don't shrink as filters are applied
+  const facets = await query(
+    buildFacetSql(REQUIREMENT_FACET_COLUMNS, 'requirements', ['project_id = $1']),
+    [req.params.projectId]
+  )
+
+  res.json({
+    requirements: page.items,
+    pageInfo: page.pageInfo,
+    facets: toFacets(REQUIREMENT_FACET_COLUMNS, facets.rows)
+  })
+}))
+
+requirementsRouter.post('/projects/:projectId/requirements', requirePermission('requirement:create'), asyncHandler(async (req, res) => {
+  await findWorkspaceProject(req.params.projectId, req.workspace!.id)
+
+  const data = await withRequirementSource(
+    query,
+    req.params.projectId,
+    validate(requirementInputSchema, req.body, 'requirement input')
+  )
+
+  const requirement = await transaction(async () => {
+    const result = await query(
+      `INSERT INTO requirements (
+         project_id, title, description, category, priority,
+         status, confidence, evidence, gaps, recommendations, section, assignee, notes,
+         source_document_id, source_section, source_start, source_end, source_page
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+       RETURNING *`,
+      [
+        req.params.projectId,
+        data.title,
+        data.description || '',
+        data.category || null,
+        data.priority || 'medium',
+        data.status || 'pending',
+        data.confidence || 0,
+        data.evidence || null,
+        data.gaps || [],
+        data.recommendations || [],
+        data.section || null,
+        data.assignee || null,
+        data.notes || null,
+        data.sourceDocument || null,
+        data.sourceSection || null,
+        data.sourceStart ?? null,
+        data.sourceEnd ?? null,
+        data.sourcePage ?? null
+      ]
+    )
+    const created = mapRequirementRow(result.rows[0])
+    await recordActivity(req.user!.id, requirementCreated(req.params.projectId, created))
+    return created
+  })
+  res.status(201).json({ requirement })
+}))
+
+requirementsRouter.put('/requirements/:requirementId', requirePermission('requirement:update'), asyncHandler(async (req, res) => {
+  const existing = await findWorkspaceRequirement(req.params.requirementId, req.workspace!.id)
+
+  const updates = await withRequirementSource(
+    query,
+    existing.project_id,
+    validate(requirementUpdateSchema, req.body, 'requirement update'),
+    mapRequirementRow(existing)
+  )
+  if (changesFinalStatus(existing.status, updates.status)) {
+    assertPermission(req.user!.permissions, 'requirement:finalize', 'Only QA managers can set or reopen a final status')
+  }
+  const entries = Object.entries(updates).filter(([, value]) => value !== undefined)
+  if (entries.length === 0) {
+    throw new HttpError(400, 'No updatable fields provided')
+  }
+
+  const setClause = entries
+    .map(([key], index) => `${REQUIREMENT_COLUMNS[key as keyof typeof REQUIREMENT_COLUMNS]} = $${index + 2}`)
+    .join(', ')
+
+  const requirement = await transaction(async () => {
+    const result = await query(
+      `UPDATE requirements
+       SET ${setClause}, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [req.params.requirementId, ...entries.map(([, value]) => value)]
+    )
+    await query('UPDATE projects SET last_activity = NOW() WHERE id = $1', [existing.project_id])
+    const updated = mapRequirementRow(result.rows[0])
+    await recordActivity(
+      req.user!.id,
+      requirementUpdated(existing.project_id, mapRequirementRow(existing), updated)
+    )
+    return updated
+  })
+  res.json({ requirement })
+}))
+
+requirementsRouter.delete('/requirements/:requirementId', requirePermission('requirement:delete'), asyncHandler(async (req, res) => {
+  const existing = await findWorkspaceRequirement(req.params.requirementId, req.workspace!.id)
+  await transaction(async () => {
+    await query('DELETE FROM requirements WHERE id = $1', [existing.id])
+    await recordActivity(req.user!.id, requirementDeleted(existing.project_id, mapRequirementRow(existing)))
+  })
+  res.json({ success: true, deletedId: req.params.requirementId })
+}))
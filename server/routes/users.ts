@@ -0,0 +1,83 @@
+import { Router } from 'express'
+import { query, transaction } from '../db'
+import { asyncHandler, HttpError } from '../http'
+import { recordActivity } from '../audit'
+import { requirePermission } from '../auth'
+import { sendInvitationEmail } from '../accounts'
+import { SERVER_CONFIG } from '../config'
+import { getTeamMembers, addTeamMember, changeUserRole, setUserDeactivated } from '../../src/utils/user-roles'
+import { validate, userRoleUpdateSchema, userInvitationInputSchema } from '../../src/utils/validation'
+import { userRoleChanged, userInvited, userDeactivated, userReactivated } from '../../src/utils/audit'
+import type { UserProfile } from '../../src/types'
+
+// The team of the active workspace: its people, their roles there and whether they may use it
+export const usersRouter = Router()
+
+// The signed-in user with their role in the active workspace and what it allows, for the UI to hide actions
+usersRouter.get('/me', asyncHandler(async (req, res) => {
+  const result = await query('SELECT name FROM users WHERE id = $1', [req.user!.id])
+  const user: UserProfile = {
+    id: req.user!.id,
+    email: req.user!.email,
+    name: result.rows[0]?.name || undefined,
+    role: req.user!.role!,
+    permissions: req.user!.permissions
+  }
+  res.json({ user })
+}))
+
+usersRouter.get('/users', requirePermission('users:manage'), asyncHandler(async (req, res) => {
+  res.json({ users: await getTeamMembers(query, req.workspace!.id) })
+}))
+
+usersRouter.put('/users/:userId/role', requirePermission('users:manage'), asyncHandler(async (req, res) => {
+  const { role } = validate(userRoleUpdateSchema, req.body, 'role update')
+  const user = await transaction(async () => {
+    const { before, after } = await changeUserRole(query, req.workspace!.id, req.params.userId, role)
+    await recordActivity(req.user!.id, userRoleChanged(before, after))
+    return after
+  })
+  res.json({ user })
+}))
+
+// Creates the account, adds it to the active workspace with the chosen role and emails a link to
+// set a password. Inviting an address again before it is accepted sends a fresh link; the old one
+// stops working. People who already have an account are invited from the Workspace page instead.
+usersRouter.post('/users/invitations', requirePermission('users:manage'), asyncHandler(async (req, res) => {
+  const { email, name, role } = validate(userInvitationInputSchema, req.body, 'invitation')
+  const inviter = await query('SELECT name FROM users WHERE id = $1', [req.user!.id])
+
+  const user = await transaction(async () => {
+    const existing = await query(
+      'SELECT id, password_hash IS NULL AND auth_subject IS NULL AS pending FROM users WHERE email = $1',
+      [email]
+    )
+    if (existing.rows.length > 0 && !existing.rows[0].pending) {
+      throw new HttpError(409, `${email} already has an account; invite them to the workspace from the Workspace page`)
+    }
+    const userId = existing.rows.length > 0
+      ? existing.rows[0].id
+      : (await query('INSERT INTO users (email, name) VALUES ($1, $2) RETURNING id', [email, name || null])).rows[0].id
+    const member = await addTeamMember(query, req.workspace!.id, userId, role || SERVER_CONFIG.defaultUserRole)
+    await recordActivity(req.user!.id, userInvited(member))
+    // Inside the transaction, so an invitation that can't be sent isn't left behind
+    await sendInvitationEmail(member, { ...req.user!, name: inviter.rows[0]?.name || undefined })
+    return member
+  })
+  res.status(201).json({ user })
+}))
+
+const setDeactivated = (deactivated: boolean) => asyncHandler(async (req, res) => {
+  if (deactivated && req.params.userId === req.user!.id) {
+    throw new HttpError(400, 'You cannot deactivate yourself')
+  }
+  const user = await transaction(async () => {
+    const { before, after } = await setUserDeactivated(query, req.workspace!.id, req.params.userId, deactivated)
+    await recordActivity(req.user!.id, deactivated ? userDeactivated(before, after) : userReactivated(before, after))
+    return after
+  })
+  res.json({ user })
+})
+
+usersRouter.post('/users/:userId/deactivate', requirePermission('users:manage'), setDeactivated(true))
+usersRouter.post('/users/:userId/reactivate', requirePermission('users:manage'), setDeactivated(false))
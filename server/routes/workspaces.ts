@@ -0,0 +1,118 @@
+import { Router, type Request } from 'express'
+import { query, transaction } from '../db'
+import { asyncHandler } from '../http'
+import { recordActivity } from '../audit'
+import { accessIn, requireSignedInUser } from '../auth'
+import { requestedWorkspaceId } from '../workspaces'
+import { SERVER_CONFIG } from '../config'
+import {
+  getWorkspaces,
+  findMemberWorkspace,
+  createWorkspace,
+  resolveWorkspace,
+  getWorkspaceMembers,
+  removeWorkspaceMember,
+  getWorkspaceInvitations,
+  inviteToWorkspace,
+  revokeInvitation,
+  getUserInvitations,
+  acceptInvitation
+} from '../../src/utils/workspaces'
+import { assertPermission } from '../../src/utils/permissions'
+import { validate, workspaceInputSchema, workspaceInvitationInputSchema } from '../../src/utils/validation'
+import {
+  workspaceCreated,
+  workspaceMemberInvited,
+  workspaceInvitationRevoked,
+  workspaceInvitationAccepted,
+  workspaceMemberRemoved
+} from '../../src/utils/audit'
+import type { Workspace } from '../../src/types'
+
+export const workspacesRouter = Router()
+
+// A workspace of the path the user belongs to and may manage; these routes come before
+// requireWorkspace, as the workspace needn't be the active one, so the role is the one held there
+const findManagedWorkspace = async (req: Request): Promise<Workspace> => {
+  const workspace = await findMemberWorkspace(query, req.params.workspaceId, req.user!.id)
+  assertPermission(accessIn(req.user!, workspace.role).permissions, 'workspace:manage')
+  return workspace
+}
+
+// The user's workspaces and which one is active. A header naming a workspace they have
+// left falls back to their first, so the client can recover its selection.
+workspacesRouter.get('/workspaces', asyncHandler(async (req, res) => {
+  const workspaces = await transaction(async () => {
+    // Creates the personal workspace on first sign-in
+    await resolveWorkspace(query, req.user!.id)
+    return getWorkspaces(query, req.user!.id)
+  })
+  const active = workspaces.find(workspace => workspace.id === requestedWorkspaceId(req)) || workspaces[0]
+  res.json({ workspaces, activeWorkspaceId: active.id })
+}))
+
+// Anyone signed in can start a workspace, which they then manage
+workspacesRouter.post('/workspaces', requireSignedInUser, asyncHandler(async (req, res) => {
+  const { name } = validate(workspaceInputSchema, req.body, 'workspace input')
+  const workspace = await transaction(async () => {
+    const created = await createWorkspace(query, req.user!.id, name)
+    await recordActivity(req.user!.id, workspaceCreated(created), created.id)
+    return created
+  })
+  res.status(201).json({ workspace })
+}))
+
+// Members and invitations; only members of the workspace can see or change them
+
+workspacesRouter.get('/workspaces/:workspaceId/members', asyncHandler(async (req, res) => {
+  const workspace = await findMemberWorkspace(query, req.params.workspaceId, req.user!.id)
+  res.json({ members: await getWorkspaceMembers(query, workspace.id) })
+}))
+
+workspacesRouter.delete('/workspaces/:workspaceId/members/:userId', asyncHandler(async (req, res) => {
+  const workspace = await findManagedWorkspace(req)
+  await transaction(async () => {
+    const member = await removeWorkspaceMember(query, workspace.id, req.params.userId)
+    await recordActivity(req.user!.id, workspaceMemberRemoved(workspace, member), workspace.id)
+  })
+  res.json({ success: true, deletedId: req.params.userId })
+}))
+
+workspacesRouter.get('/workspaces/:workspaceId/invitations', asyncHandler(async (req, res) => {
+  const workspace = await findManagedWorkspace(req)
+  res.json({ invitations: await getWorkspaceInvitations(query, workspace.id) })
+}))
+
+workspacesRouter.post('/workspaces/:workspaceId/invitations', asyncHandler(async (req, res) => {
+  const { email } = validate(workspaceInvitationInputSchema, req.body, 'invitation')
+  const workspace = await findManagedWorkspace(req)
+  const invitation = await transaction(async () => {
+    const created = await inviteToWorkspace(query, workspace.id, email, req.user!.id)
+    await recordActivity(req.user!.id, workspaceMemberInvited(created), workspace.id)
+    return created
+  })
+  res.status(201).json({ invitation })
+}))
+
+workspacesRouter.delete('/workspaces/:workspaceId/invitations/:invitationId', asyncHandler(async (req, res) => {
+  const workspace = await findManagedWorkspace(req)
+  await transaction(async () => {
+    const invitation = await revokeInvitation(query, workspace.id, req.params.invitationId)
+    await recordActivity(req.user!.id, workspaceInvitationRevoked(invitation), workspace.id)
+  })
+  res.json({ success: true, deletedId: req.params.invitationId })
+}))
+
+// Invitations addressed to the signed-in user
+workspacesRouter.get('/invitations', asyncHandler(async (req, res) => {
+  res.json({ invitations: await getUserInvitations(query, req.user!.email) })
+}))
+
+workspacesRouter.post('/invitations/:invitationId/accept', requireSignedInUser, asyncHandler(async (req, res) => {
+  const workspace = await transaction(async () => {
+    const accepted = await acceptInvitation(query, req.params.invitationId, req.user!, SERVER_CONFIG.defaultUserRole)
+    await recordActivity(req.user!.id, workspaceInvitationAccepted(accepted.invitation), accepted.workspace.id)
+    return accepted.workspace
+  })
+  res.json({ workspace })
+}))
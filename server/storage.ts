@@ -0,0 +1,233 @@
+import crypto from 'crypto'
+import { createReadStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { Readable } from 'stream'
+import { SERVER_CONFIG } from './config'
+import { S3StorageProvider } from '../src/utils/storage/s3-storage'
+import { SupabaseStorageProvider } from '../src/utils/storage/supabase-storage'
+import {
+  assertValidKey,
+  assertValidChunk,
+  StorageError,
+  DEFAULT_SIGNED_URL_TTL_SECONDS,
+  type StorageProvider,
+  type StoredObject,
+  type PutOptions,
+  type ResumableUpload
+} from '../src/utils/storage/storage-provider'
+
+const encodeKey = (key: string): string => key.split('/').map(encodeURIComponent).join('/')
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Files under UPLOAD_DIR. Signed URLs point at GET /files/<key> on this server and carry an
+// expiry plus an HMAC of key and expiry, so they work without an Authorization header.
+// Resumable uploads grow a partial file in UPLOAD_DIR/.uploads, outside the key space, until
+// they are moved into place.
+export class LocalDiskStorage implements StorageProvider {
+  readonly name = 'local'
+
+  constructor(private directory: string, private baseUrl: string, private secret: string) {}
+
+  private resolve(key: string): string {
+    assertValidKey(key)
+    return path.join(this.directory, ...key.split('/'))
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto.createHmac('sha256', this.secret).update(`${key}\n${expires}`).digest('base64url')
+  }
+
+  async put(key: string, body: Uint8Array, options: PutOptions = {}): Promise<StoredObject> {
+    const file = this.resolve(key)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, body)
+    return { key, size: body.byteLength, contentType: options.contentType, lastModified: new Date().toISOString() }
+  }
+
+  async get(key: string): Promise<Uint8Array> {
+    try {
+      return await fs.readFile(this.resolve(key))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new StorageError(`Stored file "${key}" not found`, 'not_found', 404)
+      }
+      throw error
+    }
+  }
+
+  async getStream(key: string): Promise<ReadableStream<Uint8Array>> {
+    const file = this.resolve(key)
+    // A missing file would otherwise only surface once the stream is read
+    await fs.access(file).catch((error: any) => {
+      throw error?.code === 'ENOENT' ? new StorageError(`Stored file "${key}" not found`, 'not_found', 404) : error
+    })
+    return Readable.toWeb(createReadStream(file)) as ReadableStream<Uint8Array>
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    // Only walk the directory the prefix points into
+    const folder = prefix.slice(0, prefix.lastIndexOf('/') + 1)
+    const objects: StoredObject[] = []
+
+    const walk = async (relative: string): Promise<void> => {
+      let entries
+      try {
+        entries = await fs.readdir(path.join(this.directory, ...relative.split('/').filter(Boolean)), { withFileTypes: true })
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return
+        throw error
+      }
+      for (const entry of entries) {
+        const key = `${relative}${entry.name}`
+        if (entry.isDirectory()) {
+          await walk(`${key}/`)
+        } else if (key.startsWith(prefix)) {
+          const stats = await fs.stat(path.join(this.directory, ...key.split('/')))
+          objects.push({ key, size: stats.size, lastModified: stats.mtime.toISOString() })
+        }
+      }
+    }
+
+    await walk(folder)
+    return objects.sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  private partialFile(upload: ResumableUpload): string {
+    if (!UPLOAD_ID_PATTERN.test(upload.id)) {
+      throw new StorageError('Upload not found', 'not_found', 404)
+    }
+    return path.join(this.directory, '.uploads', upload.id)
+  }
+
+  async startUpload(key: string, size: number, options: PutOptions = {}): Promise<ResumableUpload> {
+    assertValidKey(key)
+    const upload = { key, id: crypto.randomUUID(), size, contentType: options.contentType }
+    const file = this.partialFile(upload)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, new Uint8Array(0))
+    return upload
+  }
+
+  async uploadedBytes(upload: ResumableUpload): Promise<number> {
+    try {
+      return (await fs.stat(this.partialFile(upload))).size
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new StorageError('Upload not found', 'not_found', 404)
+      }
+      throw error
+    }
+  }
+
+  async uploadChunk(upload: ResumableUpload, offset: number, chunk: Uint8Array): Promise<number> {
+    assertValidChunk(upload, offset, chunk)
+    const received = await this.uploadedBytes(upload)
+    if (offset !== received) {
+      throw new StorageError(`The upload continues at byte ${received}, not ${offset}`, 'offset_mismatch', 409)
+    }
+    await fs.appendFile(this.partialFile(upload), chunk)
+    return offset + chunk.byteLength
+  }
+
+  async completeUpload(upload: ResumableUpload): Promise<StoredObject> {
+    const received = await this.uploadedBytes(upload)
+    if (received !== upload.size) {
+      throw new StorageError(`Upload incomplete: ${received} of ${upload.size} bytes received`, 'invalid_chunk')
+    }
+    const file = this.resolve(upload.key)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.rename(this.partialFile(upload), file)
+    return { key: upload.key, size: upload.size, contentType: upload.contentType, lastModified: new Date().toISOString() }
+  }
+
+  async abortUpload(upload: ResumableUpload): Promise<void> {
+    await fs.rm(this.partialFile(upload), { force: true })
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number = DEFAULT_SIGNED_URL_TTL_SECONDS): Promise<string> {
+    assertValidKey(key)
+    const expires = Math.floor(Date.now() / 1000) + Math.max(1, Math.floor(expiresInSeconds))
+    return `${this.baseUrl}/files/${encodeKey(key)}?expires=${expires}&signature=${this.sign(key, expires)}`
+  }
+
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+      return false
+    }
+    const expected = Buffer.from(this.sign(key, expires))
+    const actual = Buffer.from(signature)
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+  }
+}
+
+const requireSetting = (value: string, name: string): string => {
+  if (!value) {
+    throw new StorageError(`${name} is not configured`, 'not_configured')
+  }
+  return value
+}
+
+const createStorage = (): StorageProvider => {
+  const config = SERVER_CONFIG.storage
+  switch (config.provider) {
+    case 'local':
+      return new LocalDiskStorage(
+        SERVER_CONFIG.uploadDir,
+        `${SERVER_CONFIG.publicUrl}${SERVER_CONFIG.basePath}`,
+        SERVER_CONFIG.jwtSecret
+      )
+    case 's3':
+      return new S3StorageProvider({
+        ...config.s3,
+        endpoint: config.s3.endpoint || undefined,
+        bucket: config.bucket,
+        accessKeyId: requireSetting(config.s3.accessKeyId, 'S3_ACCESS_KEY_ID'),
+        secretAccessKey: requireSetting(config.s3.secretAccessKey, 'S3_SECRET_ACCESS_KEY')
+      })
+    case 'supabase':
+      return new SupabaseStorageProvider({
+        url: requireSetting(config.supabase.url, 'SUPABASE_URL'),
+        apiKey: requireSetting(config.supabase.serviceRoleKey, 'SUPABASE_SERVICE_ROLE_KEY'),
+        bucket: config.bucket
+      })
+    default:
+      throw new StorageError(`Unknown STORAGE_PROVIDER "${config.provider}"`, 'not_configured')
+  }
+}
+
+let storage: StorageProvider | null = null
+
+// Built on first use, so a misconfigured backend fails the requests that need it (503) rather than startup
+export const getStorage = (): StorageProvider => {
+  if (!storage) {
+    storage = createStorage()
+  }
+  return storage
+}
+
+// SHA-256 of a stored file, read as it streams in so a large upload never sits in memory whole
+export const hashStoredFile = async (key: string): Promise<string> => {
+  const hash = crypto.createHash('sha256')
+  const reader = (await getStorage().getStream(key)).getReader()
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    hash.update(chunk.value)
+  }
+  return hash.digest('hex')
+}
+
+// Cleanup after the database change has committed; the row is gone either way, so failures are only logged
+export const removeStoredFiles = async (keys: string[]): Promise<void> => {
+  for (const key of keys) {
+    try {
+      await getStorage().delete(key)
+    } catch (error) {
+      console.warn(`Unable to remove stored file ${key}:`, error)
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import type { Request, Response, NextFunction } from 'express'
+import { APP_CONSTANTS } from '../src/utils/constants'
+import { query, transaction, withWorkspace } from './db'
+import { asyncHandler } from './http'
+import { accessIn } from './auth'
+import { resolveWorkspace } from '../src/utils/workspaces'
+import type { Workspace } from '../src/types'
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      workspace?: Workspace
+    }
+  }
+}
+
+// Active workspace named by the X-Workspace-Id header, if any
+export const requestedWorkspaceId = (req: Request): string | undefined =>
+  req.header(APP_CONSTANTS.WORKSPACE_HEADER) || undefined
+
+// Scope the rest of the request to the active workspace: the header's when the user is a member
+// (404 otherwise), else their first. Queries then see only that workspace's rows, and the user
+// acts with their role there. Use after requireAuth.
+export const requireWorkspace = asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
+  req.workspace = await transaction(() => resolveWorkspace(query, req.user!.id, requestedWorkspaceId(req)))
+  req.user = { ...req.user!, ...accessIn(req.user!, req.workspace.role) }
+  withWorkspace(req.workspace.id, next)
+})
@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react'
+import { Button } from '../../../components/ui/button'
+import { Input } from '../../../components/ui/input'
+import { Label } from '../../../components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card'
+import { Alert, AlertDescription } from '../../../components/ui/alert'
+import { Shield, CheckCircle } from 'lucide-react'
+import type { AccountManagement } from '../../utils/auth'
+import type { AccountInvitation } from '../../types'
+
+// Links from the API server's account emails (see server/accounts.ts): /?verify=, /?reset= and /?invitation=
+export type AccountLink =
+  | { kind: 'verify'; token: string }
+  | { kind: 'reset'; token: string }
+  | { kind: 'invitation'; token: string }
+
+const LINK_KINDS: AccountLink['kind'][] = ['verify', 'reset', 'invitation']
+
+export const readAccountLink = (): AccountLink | null => {
+  if (typeof window === 'undefined') {
+    return null
+  }
+  const params = new URLSearchParams(window.location.search)
+  for (const kind of LINK_KINDS) {
+    const token = params.get(kind)
+    if (token) {
+      return { kind, token }
+    }
+  }
+  return null
+}
+
+// Drop the token from the address bar so a reload or a shared screenshot doesn't reuse it
+const clearAccountLink = () => {
+  const url = new URL(window.location.href)
+  LINK_KINDS.forEach(kind => url.searchParams.delete(kind))
+  window.history.replaceState(window.history.state, '', url.toString())
+}
+
+interface AccountLinkPageProps {
+  link: AccountLink
+  accounts: AccountManagement
+  // Back to the sign-in form
+  onDone: () => void
+}
+
+const TITLES: Record<AccountLink['kind'], string> = {
+  verify: 'Confirm your email',
+  reset: 'Choose a new password',
+  invitation: 'Set up your account'
+}
+
+const AccountLinkPage: React.FC<AccountLinkPageProps> = ({ link, accounts, onDone }) => {
+  const [invitation, setInvitation] = useState<AccountInvitation | null>(null)
+  const [formData, setFormData] = useState({ name: '', password: '', confirmPassword: '' })
+  const [working, setWorking] = useState(link.kind !== 'reset')
+  const [error, setError] = useState('')
+  const [done, setDone] = useState('')
+
+  useEffect(() => {
+    const openLink = async () => {
+      try {
+        if (link.kind === 'verify') {
+          await accounts.verifyEmail(link.token)
+          clearAccountLink()
+          setDone('Your email address is confirmed. You can sign in now.')
+        } else if (link.kind === 'invitation') {
+          const details = await accounts.getInvitation(link.token)
+          setInvitation(details)
+          setFormData(prev => ({ ...prev, name: details.name || '' }))
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'This link could not be opened')
+      } finally {
+        setWorking(false)
+      }
+    }
+
+    openLink()
+  }, [link, accounts])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (formData.password !== formData.confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+    if (formData.password.length < 6) {
+      setError('Password must be at least 6 characters')
+      return
+    }
+
+    setWorking(true)
+    try {
+      if (link.kind === 'reset') {
+        await accounts.resetPassword(link.token, formData.password)
+        clearAccountLink()
+        setDone('Your password has been changed. Sign in with the new one.')
+      } else {
+        // Signs the user in; AuthContext picks up the session and shows the app
+        await accounts.acceptInvitation(link.token, formData.password, formData.name.trim() || undefined)
+        clearAccountLink()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (error) setError('')
+  }
+
+  const backToSignIn = () => {
+    clearAccountLink()
+    onDone()
+  }
+
+  const showForm = !done && (link.kind === 'reset' || (link.kind === 'invitation' && invitation))
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="flex justify-center">
+            <Shield className="h-12 w-12 text-blue-600" />
+          </div>
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+            QC Reporter
+          </h2>
+          {invitation && !done && (
+            <p className="mt-2 text-sm text-gray-600">
+              {invitation.invitedBy ? `${invitation.invitedBy} invited you` : 'You have been invited'} to join as {invitation.email}
+            </p>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-center">{TITLES[link.kind]}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {working && !showForm && (
+              <p className="text-center text-sm text-gray-600">Checking your link...</p>
+            )}
+
+            {done && (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>{done}</AlertDescription>
+              </Alert>
+            )}
+
+            {showForm && (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {link.kind === 'invitation' && (
+                  <div>
+                    <Label htmlFor="name">Full Name</Label>
+                    <Input
+                      id="name"
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => handleChange('name', e.target.value)}
+                      placeholder="Enter your full name"
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="password">{link.kind === 'reset' ? 'New Password' : 'Password'}</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={formData.password}
+                    onChange={(e) => handleChange('password', e.target.value)}
+                    placeholder="At least 6 characters"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="confirmPassword">Confirm Password</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    value={formData.confirmPassword}
+                    onChange={(e) => handleChange('confirmPassword', e.target.value)}
+                    placeholder="Confirm your password"
+                    required
+                  />
+                </div>
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button type="submit" className="w-full" disabled={working}>
+                  {working ? 'Processing...' : (link.kind === 'reset' ? 'Change Password' : 'Create Account')}
+                </Button>
+              </form>
+            )}
+
+            {!showForm && error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={backToSignIn}
+                className="text-sm text-blue-600 hover:text-blue-500"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default AccountLinkPage
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui
 import { Alert, AlertDescription } from '../../../components/ui/alert'
 import { Shield, Eye, EyeOff } from 'lucide-react'
 import { useAuth } from '../../contexts/AuthContext'
+import { AuthError } from '../../utils/auth'
 
 interface LoginFormProps {
   onToggleMode: () => void
@@ -13,7 +14,7 @@ interface LoginFormProps {
 }
 
 const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode, isSignUp }) => {
-  const { signIn, signUp, loading } = useAuth()
+  const { signIn, signUp, signInWithRedirect, usesRedirect, authError, loading, accounts } = useAuth()
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -22,10 +23,17 @@ const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode, isSignUp }) => {
   })
   const [showPassword, setShowPassword] = useState(false)
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const [forgotPassword, setForgotPassword] = useState(false)
+  // Sign-in was refused until this address is confirmed; offers to send the link again
+  const [unverifiedEmail, setUnverifiedEmail] = useState('')
+  const [sending, setSending] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
+    setNotice('')
+    setUnverifiedEmail('')
 
     if (isSignUp) {
       if (formData.password !== formData.confirmPassword) {
@@ -44,10 +52,66 @@ const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode, isSignUp }) => {
 
     try {
       if (isSignUp) {
-        await signUp(formData.email, formData.password, formData.name)
+        const { verificationRequired } = await signUp(formData.email, formData.password, formData.name)
+        if (verificationRequired) {
+          setNotice(`We sent a confirmation link to ${formData.email}. Open it, then sign in.`)
+          setFormData(prev => ({ ...prev, password: '', confirmPassword: '' }))
+          onToggleMode()
+        }
       } else {
         await signIn(formData.email, formData.password)
       }
+    } catch (err) {
+      if (err instanceof AuthError && err.code === 'email_not_verified') {
+        setUnverifiedEmail(formData.email)
+      }
+      setError(err instanceof Error ? err.message : 'Authentication failed')
+    }
+  }
+
+  const handleResendVerification = async () => {
+    if (!accounts) return
+    setSending(true)
+    try {
+      await accounts.resendVerification(unverifiedEmail)
+      setError('')
+      setUnverifiedEmail('')
+      setNotice(`We sent a new confirmation link to ${unverifiedEmail}.`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to send the confirmation email')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!accounts) return
+    setError('')
+    setSending(true)
+    try {
+      await accounts.requestPasswordReset(formData.email)
+      // The server doesn't say whether the address has an account
+      setNotice(`If ${formData.email} has an account, we sent it a link to choose a new password.`)
+      setForgotPassword(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to send the reset email')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const toggleForgotPassword = () => {
+    setForgotPassword(!forgotPassword)
+    setError('')
+    setNotice('')
+    setUnverifiedEmail('')
+  }
+
+  const handleRedirectSignIn = async () => {
+    setError('')
+    try {
+      await signInWithRedirect()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Authentication failed')
     }
@@ -69,116 +133,200 @@ const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode, isSignUp }) => {
             QC Reporter
           </h2>
           <p className="mt-2 text-sm text-gray-600">
-            {isSignUp ? 'Create your account' : 'Sign in to your account'}
+            {forgotPassword ? 'Reset your password' : (isSignUp ? 'Create your account' : 'Sign in to your account')}
           </p>
         </div>
 
         <Card>
           <CardHeader>
             <CardTitle className="text-center">
-              {isSignUp ? 'Sign Up' : 'Sign In'}
+              {forgotPassword ? 'Forgot Password' : (isSignUp ? 'Sign Up' : 'Sign In')}
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {isSignUp && (
+            {notice && (
+              <Alert className="mb-4">
+                <AlertDescription>{notice}</AlertDescription>
+              </Alert>
+            )}
+
+            {forgotPassword ? (
+              <form onSubmit={handleForgotPassword} className="space-y-4">
                 <div>
-                  <Label htmlFor="name">Full Name</Label>
+                  <Label htmlFor="email">Email Address</Label>
                   <Input
-                    id="name"
-                    type="text"
-                    value={formData.name}
-                    onChange={(e) => handleChange('name', e.target.value)}
-                    placeholder="Enter your full name"
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => handleChange('email', e.target.value)}
+                    placeholder="Enter your email"
                     required
                   />
                 </div>
-              )}
-
-              <div>
-                <Label htmlFor="email">Email Address</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={formData.email}
-                  onChange={(e) => handleChange('email', e.target.value)}
-                  placeholder="Enter your email"
-                  required
-                />
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button type="submit" className="w-full" disabled={sending}>
+                  {sending ? 'Sending...' : 'Send Reset Link'}
+                </Button>
+              </form>
+            ) : usesRedirect ? (
+              <div className="space-y-4">
+                {(error || authError) && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error || authError}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button
+                  type="button"
+                  className="w-full"
+                  disabled={loading}
+                  onClick={handleRedirectSignIn}
+                >
+                  {loading ? 'Redirecting...' : 'Sign in with single sign-on'}
+                </Button>
               </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {isSignUp && (
+                  <div>
+                    <Label htmlFor="name">Full Name</Label>
+                    <Input
+                      id="name"
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => handleChange('name', e.target.value)}
+                      placeholder="Enter your full name"
+                      required
+                    />
+                  </div>
+                )}
 
-              <div>
-                <Label htmlFor="password">Password</Label>
-                <div className="relative">
+                <div>
+                  <Label htmlFor="email">Email Address</Label>
                   <Input
-                    id="password"
-                    type={showPassword ? 'text' : 'password'}
-                    value={formData.password}
-                    onChange={(e) => handleChange('password', e.target.value)}
-                    placeholder="Enter your password"
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => handleChange('email', e.target.value)}
+                    placeholder="Enter your email"
                     required
                   />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                    onClick={() => setShowPassword(!showPassword)}
-                  >
-                    {showPassword ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
-                  </Button>
                 </div>
-              </div>
 
-              {isSignUp && (
                 <div>
-                  <Label htmlFor="confirmPassword">Confirm Password</Label>
-                  <Input
-                    id="confirmPassword"
-                    type="password"
-                    value={formData.confirmPassword}
-                    onChange={(e) => handleChange('confirmPassword', e.target.value)}
-                    placeholder="Confirm your password"
-                    required
-                  />
+                  <Label htmlFor="password">Password</Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      value={formData.password}
+                      onChange={(e) => handleChange('password', e.target.value)}
+                      placeholder="Enter your password"
+                      required
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-4 w-4" />
+                      ) : (
+                        <Eye className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
                 </div>
-              )}
-
-              {error && (
-                <Alert variant="destructive">
-                  <AlertDescription>{error}</AlertDescription>
-                </Alert>
-              )}
-
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={loading}
-              >
-                {loading ? 'Processing...' : (isSignUp ? 'Create Account' : 'Sign In')}
-              </Button>
-            </form>
-
-            <div className="mt-6 text-center">
-              <button
-                type="button"
-                onClick={onToggleMode}
-                className="text-sm text-blue-600 hover:text-blue-500"
-              >
-                {isSignUp 
-                  ? 'Already have an account? Sign in' 
-                  : "Don't have an account? Sign up"
-                }
-              </button>
-            </div>
+
+                {isSignUp && (
+                  <div>
+                    <Label htmlFor="confirmPassword">Confirm Password</Label>
+                    <Input
+                      id="confirmPassword"
+                      type="password"
+                      value={formData.confirmPassword}
+                      onChange={(e) => handleChange('confirmPassword', e.target.value)}
+                      placeholder="Confirm your password"
+                      required
+                    />
+                  </div>
+                )}
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      {error}
+                      {unverifiedEmail && accounts && (
+                        <button
+                          type="button"
+                          onClick={handleResendVerification}
+                          disabled={sending}
+                          className="block mt-1 underline"
+                        >
+                          Send the confirmation link again
+                        </button>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={loading}
+                >
+                  {loading ? 'Processing...' : (isSignUp ? 'Create Account' : 'Sign In')}
+                </Button>
+              </form>
+            )}
+
+            {!usesRedirect && !forgotPassword && (
+              <div className="mt-6 text-center space-y-2">
+                {!isSignUp && accounts && (
+                  <button
+                    type="button"
+                    onClick={toggleForgotPassword}
+                    className="block w-full text-sm text-blue-600 hover:text-blue-500"
+                  >
+                    Forgot your password?
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={onToggleMode}
+                  className="text-sm text-blue-600 hover:text-blue-500"
+                >
+                  {isSignUp 
+                    ? 'Already have an account? Sign in' 
+                    : "Don't have an account? Sign up"
+                  }
+                </button>
+              </div>
+            )}
+
+            {forgotPassword && (
+              <div className="mt-6 text-center">
+                <button
+                  type="button"
+                  onClick={toggleForgotPassword}
+                  className="text-sm text-blue-600 hover:text-blue-500"
+                >
+                  Back to sign in
+                </button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
-        {isSignUp && (
+        {isSignUp && !usesRedirect && (
           <div className="text-center">
             <p className="text-xs text-gray-500">
               By creating an account, you agree to our terms of service and privacy policy.
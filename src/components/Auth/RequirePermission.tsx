@@ -0,0 +1,31 @@
+import React from 'react'
+import { Navigate } from 'react-router-dom'
+import { useAuth } from '../../contexts/AuthContext'
+import { APP_CONSTANTS, type Permission } from '../../utils/constants'
+
+interface RequirePermissionProps {
+  permission: Permission
+  children: React.ReactElement
+}
+
+// Route guard: sends users whose role lacks `permission` back to the dashboard
+const RequirePermission: React.FC<RequirePermissionProps> = ({ permission, children }) => {
+  const { role, can } = useAuth()
+
+  // Role still loading
+  if (role === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!can(permission)) {
+    return <Navigate to={APP_CONSTANTS.ROUTES.DASHBOARD} replace />
+  }
+
+  return children
+}
+
+export default RequirePermission
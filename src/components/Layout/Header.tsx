@@ -1,5 +1,6 @@
 import React from 'react';
-import { Bell, Search, User, Settings, LogOut } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Search, User, Settings, LogOut, Building2, Check, ChevronDown, Mail } from 'lucide-react';
 import { Button } from '../../../components/ui/button';
 import { Input } from '../../../components/ui/input';
 import { Badge } from '../../../components/ui/badge';
@@ -8,10 +9,12 @@ import {
   DropdownMenuContent, 
   DropdownMenuItem, 
   DropdownMenuTrigger,
-  DropdownMenuSeparator 
+  DropdownMenuSeparator,
+  DropdownMenuLabel
 } from '../../../components/ui/dropdown-menu';
 import { Avatar, AvatarFallback } from '../../../components/ui/avatar';
 import { useAuth } from '../../contexts/AuthContext';
+import { useWorkspace } from '../../contexts/WorkspaceContext';
 import { APP_CONSTANTS } from '../../utils/constants';
 
 interface HeaderProps {
@@ -20,6 +23,8 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ title }) => {
   const { user, signOut } = useAuth();
+  const { workspaces, activeWorkspace, invitations, switchWorkspace, acceptInvitation } = useWorkspace();
+  const navigate = useNavigate();
 
   const getInitials = (name?: string, email?: string) => {
     if (name) {
@@ -28,6 +33,22 @@ const Header: React.FC<HeaderProps> = ({ title }) => {
     return email?.slice(0, 2).toUpperCase() || 'U';
   };
 
+  // Pages hold the previous workspace's projects, so start again from the dashboard
+  const handleSwitchWorkspace = (workspaceId: string) => {
+    if (workspaceId === activeWorkspace?.id) return;
+    switchWorkspace(workspaceId);
+    navigate(APP_CONSTANTS.ROUTES.DASHBOARD);
+  };
+
+  const handleAcceptInvitation = async (invitationId: string) => {
+    try {
+      await acceptInvitation(invitationId);
+      navigate(APP_CONSTANTS.ROUTES.DASHBOARD);
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+    }
+  };
+
   const handleSignOut = async () => {
     try {
       await signOut();
@@ -49,6 +70,47 @@ const Header: React.FC<HeaderProps> = ({ title }) => {
         </div>
         
         <div className="flex items-center space-x-4">
+          {/* Workspace switcher */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="max-w-[220px]">
+                <Building2 className="mr-2 h-4 w-4 shrink-0" />
+                <span className="truncate">{activeWorkspace?.name || 'Workspace'}</span>
+                {invitations.length > 0 && (
+                  <Badge className="ml-2 h-5 px-1.5 text-xs">{invitations.length}</Badge>
+                )}
+                <ChevronDown className="ml-2 h-4 w-4 shrink-0" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="w-64" align="end">
+              <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+              {workspaces.map((workspace) => (
+                <DropdownMenuItem key={workspace.id} onClick={() => handleSwitchWorkspace(workspace.id)}>
+                  <Check className={`mr-2 h-4 w-4 ${workspace.id === activeWorkspace?.id ? '' : 'invisible'}`} />
+                  <span className="truncate flex-1">{workspace.name}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">{workspace.memberCount}</span>
+                </DropdownMenuItem>
+              ))}
+              {invitations.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Invitations</DropdownMenuLabel>
+                  {invitations.map((invitation) => (
+                    <DropdownMenuItem key={invitation.id} onClick={() => handleAcceptInvitation(invitation.id)}>
+                      <Mail className="mr-2 h-4 w-4" />
+                      <span className="truncate">Join {invitation.workspaceName}</span>
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => navigate(APP_CONSTANTS.ROUTES.WORKSPACE)}>
+                <Settings className="mr-2 h-4 w-4" />
+                Manage workspace
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
           {/* Search */}
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
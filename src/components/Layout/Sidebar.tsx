@@ -11,12 +11,17 @@ import {
   Settings,
   HelpCircle,
   Eye,
-  Bot
+  Bot,
+  ScrollText,
+  Users,
+  Building2
 } from 'lucide-react';
 import { cn } from '../../utils/cn';
-import { APP_CONSTANTS } from '../../utils/constants';
+import { APP_CONSTANTS, type Permission } from '../../utils/constants';
+import { useAuth } from '../../contexts/AuthContext';
 
-const navigation = [
+// Items with a permission only show for roles that have it
+const navigation: { name: string; href: string; icon: React.ElementType; permission?: Permission }[] = [
   {
     name: 'Dashboard',
     href: APP_CONSTANTS.ROUTES.DASHBOARD,
@@ -52,10 +57,28 @@ const navigation = [
     href: APP_CONSTANTS.ROUTES.REPORT_LIBRARY,
     icon: BookOpen,
   },
+  {
+    name: 'Audit Log',
+    href: APP_CONSTANTS.ROUTES.AUDIT_LOG,
+    icon: ScrollText,
+    permission: 'audit:read',
+  },
+  {
+    name: 'Team',
+    href: APP_CONSTANTS.ROUTES.TEAM,
+    icon: Users,
+    permission: 'users:manage',
+  },
+  {
+    name: 'Workspace',
+    href: APP_CONSTANTS.ROUTES.WORKSPACE,
+    icon: Building2,
+  },
 ];
 
 const Sidebar: React.FC = () => {
   const location = useLocation();
+  const { can } = useAuth();
 
   return (
     <div className="flex flex-col w-64 bg-white border-r border-gray-200 h-screen">
@@ -65,7 +88,7 @@ const Sidebar: React.FC = () => {
       </div>
       
       <nav className="flex-1 px-4 py-4 space-y-1">
-        {navigation.map((item) => {
+        {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
           const isActive = location.pathname === item.href;
           return (
             <Link
@@ -87,7 +110,7 @@ const Sidebar: React.FC = () => {
       
       <div className="border-t border-gray-200 p-4 space-y-1">
         <Link
-          to="/settings"
+          to={APP_CONSTANTS.ROUTES.SETTINGS}
           className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 rounded-md hover:text-gray-900 hover:bg-gray-50"
         >
           <Settings className="mr-3 h-5 w-5" />
@@ -1,14 +1,30 @@
-import React, { createContext, useContext, useState, useEffect } from 'react'
-import { AuthService, type AuthUser } from '../utils/supabase'
-import { supabase } from '../utils/supabase'
-import { APP_CONSTANTS } from '../utils/constants'
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react'
+import { AuthService, APIService, type AuthUser } from '../utils/supabase'
+import { APP_CONSTANTS, type Permission, type UserRole } from '../utils/constants'
+import { DEMO_USER } from '../utils/demo-scenarios'
+import { DEFAULT_ROLE, permissionsFor } from '../utils/permissions'
+import type { AccountManagement, SignUpResult } from '../utils/auth'
 
 interface AuthContextType {
   user: AuthUser | null
   loading: boolean
+  // Set when a redirect sign-in came back with an error from the identity provider
+  authError: string | null
+  // The identity provider shows its own sign-in page (OIDC authorization code flow)
+  usesRedirect: boolean
+  // Role and permissions in the active workspace, from the backend (see src/utils/permissions.ts); null until loaded
+  role: UserRole | null
+  permissions: Permission[]
+  can: (permission: Permission) => boolean
+  // Reload the role, e.g. after changing your own on the Team page
+  refreshProfile: () => Promise<void>
   signIn: (email: string, password: string) => Promise<void>
-  signUp: (email: string, password: string, name: string) => Promise<void>
+  // Leaves the user signed out when their email needs verifying first
+  signUp: (email: string, password: string, name: string) => Promise<SignUpResult>
+  signInWithRedirect: (loginHint?: string) => Promise<void>
   signOut: () => Promise<void>
+  // Verification, password reset and invitation links; null when the identity provider runs them
+  accounts: AccountManagement | null
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -24,14 +40,38 @@ export const useAuth = () => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<AuthUser | null>(null)
   const [loading, setLoading] = useState(true)
+  const [authError, setAuthError] = useState<string | null>(null)
+  const [role, setRole] = useState<UserRole | null>(null)
+  const [permissions, setPermissions] = useState<Permission[]>([])
+
+  const refreshProfile = useCallback(async () => {
+    try {
+      const { user: profile } = await APIService.getProfile()
+      setRole(profile.role)
+      setPermissions(profile.permissions)
+    } catch (error) {
+      // The backend still enforces roles; this only decides which actions the UI offers
+      console.error('Error loading user role:', error)
+      setRole(DEFAULT_ROLE)
+      setPermissions(permissionsFor(DEFAULT_ROLE))
+    }
+  }, [])
+
+  // Token refreshes hand us a new user object; only a different user needs the role again
+  const userId = user?.id
+  useEffect(() => {
+    setRole(null)
+    setPermissions([])
+    if (userId) {
+      refreshProfile()
+    }
+  }, [userId, refreshProfile])
 
   useEffect(() => {
     // Demo mode: bypass authentication
     if (APP_CONSTANTS.DEMO_MODE) {
       const demoUser: AuthUser = {
-        id: 'demo-user-id',
-        email: 'demo@qcreporter.com',
-        name: 'Demo User',
+        ...DEMO_USER,
         access_token: 'demo-access-token'
       }
       setUser(demoUser)
@@ -41,6 +81,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     // Production mode: real authentication
     const getInitialSession = async () => {
+      try {
+        // Returning from the identity provider's sign-in page
+        await AuthService.completeSignIn()
+      } catch (error) {
+        setAuthError(error instanceof Error ? error.message : 'Sign-in failed')
+      }
+
       try {
         const currentUser = await AuthService.getCurrentUser()
         setUser(currentUser)
@@ -54,23 +101,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     getInitialSession()
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (event, session) => {
-        if (session?.user) {
-          setUser({
-            id: session.user.id,
-            email: session.user.email || '',
-            name: session.user.user_metadata?.name,
-            access_token: session.access_token
-          })
-        } else {
-          setUser(null)
-        }
-        setLoading(false)
-      }
-    )
+    const unsubscribe = AuthService.onAuthStateChange((_event, session) => {
+      setUser(session?.user || null)
+      setLoading(false)
+    })
 
-    return () => subscription.unsubscribe()
+    return unsubscribe
   }, [])
 
   const signIn = async (email: string, password: string) => {
@@ -80,6 +116,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return
     }
     
+    setAuthError(null)
     setLoading(true)
     try {
       await AuthService.signIn(email, password)
@@ -93,14 +130,38 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (APP_CONSTANTS.DEMO_MODE) {
       // In demo mode, just simulate successful signup
       console.log('Demo mode: simulating signup')
-      return
+      return { verificationRequired: false }
     }
     
     setLoading(true)
     try {
-      await AuthService.signUp(email, password, name)
-      // After signup, sign in the user
-      await AuthService.signIn(email, password)
+      const result = await AuthService.signUp(email, password, name)
+      if (result.verificationRequired) {
+        setLoading(false)
+        return result
+      }
+      // After signup, sign in the user (redirect providers have navigated to their registration page)
+      if (!AuthService.usesRedirect) {
+        await AuthService.signIn(email, password)
+      }
+      return result
+    } catch (error) {
+      setLoading(false)
+      throw error
+    }
+  }
+
+  const signInWithRedirect = async (loginHint?: string) => {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      console.log('Demo mode: simulating login')
+      return
+    }
+
+    setAuthError(null)
+    setLoading(true)
+    try {
+      // Navigates away on success
+      await AuthService.signInWithRedirect(loginHint)
     } catch (error) {
       setLoading(false)
       throw error
@@ -126,9 +187,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const value = {
     user,
     loading,
+    authError,
+    usesRedirect: !APP_CONSTANTS.DEMO_MODE && AuthService.usesRedirect,
+    role,
+    permissions,
+    can: (permission: Permission) => permissions.includes(permission),
+    refreshProfile,
     signIn,
     signUp,
-    signOut
+    signInWithRedirect,
+    signOut,
+    accounts: APP_CONSTANTS.DEMO_MODE ? null : AuthService.accounts
   }
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
@@ -0,0 +1,96 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react'
+import { APIService } from '../utils/supabase'
+import { useAuth } from './AuthContext'
+import type { Workspace, WorkspaceInvitation } from '../types'
+
+interface WorkspaceContextType {
+  workspaces: Workspace[]
+  // Projects and activities come from this workspace; null until loaded
+  activeWorkspace: Workspace | null
+  // Pending invitations addressed to the signed-in user
+  invitations: WorkspaceInvitation[]
+  loading: boolean
+  switchWorkspace: (workspaceId: string) => void
+  acceptInvitation: (invitationId: string) => Promise<void>
+  // Reload after creating a workspace or changing its members
+  refresh: () => Promise<void>
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined)
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext)
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider')
+  }
+  return context
+}
+
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, refreshProfile } = useAuth()
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null)
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      const [workspaceResponse, invitationResponse] = await Promise.all([
+        APIService.getWorkspaces(),
+        APIService.getMyInvitations()
+      ])
+      // The backend falls back to the first workspace when the saved one is gone
+      APIService.setActiveWorkspace(workspaceResponse.activeWorkspaceId)
+      setWorkspaces(workspaceResponse.workspaces || [])
+      setActiveWorkspaceId(workspaceResponse.activeWorkspaceId)
+      setInvitations(invitationResponse.invitations || [])
+    } catch (error) {
+      // Pages still load; requests then use the backend's default workspace
+      console.error('Error loading workspaces:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Token refreshes hand us a new user object; only a different user needs reloading
+  const userId = user?.id
+  useEffect(() => {
+    setWorkspaces([])
+    setActiveWorkspaceId(null)
+    setInvitations([])
+    if (userId) {
+      setLoading(true)
+      refresh()
+    }
+  }, [userId, refresh])
+
+  // Roles belong to workspace memberships, so the profile follows the active workspace
+  useEffect(() => {
+    if (activeWorkspaceId) {
+      refreshProfile()
+    }
+  }, [activeWorkspaceId, refreshProfile])
+
+  const switchWorkspace = (workspaceId: string) => {
+    APIService.setActiveWorkspace(workspaceId)
+    setActiveWorkspaceId(workspaceId)
+  }
+
+  const acceptInvitation = async (invitationId: string) => {
+    const { workspace } = await APIService.acceptInvitation(invitationId)
+    await refresh()
+    switchWorkspace(workspace.id)
+  }
+
+  const value = {
+    workspaces,
+    activeWorkspace: workspaces.find(workspace => workspace.id === activeWorkspaceId) || null,
+    invitations,
+    loading,
+    switchWorkspace,
+    acceptInvitation,
+    refresh
+  }
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>
+}
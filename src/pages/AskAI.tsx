@@ -35,7 +35,6 @@ import {
 import { AIService, type ChatMessage, type AIConfig } from '../utils/ai-service';
 import { APIService } from '../utils/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { mockRequirements } from '../utils/mockData';
 import type { Project, Requirement } from '../types';
 
 const AskAI: React.FC = () => {
@@ -73,7 +72,7 @@ const AskAI: React.FC = () => {
 
   const loadProjects = async () => {
     try {
-      const response = await APIService.getProjects();
+      const response = await APIService.getAllProjects();
       const projectList = response.projects || [];
       setProjects(projectList);
       
@@ -87,12 +86,12 @@ const AskAI: React.FC = () => {
 
   const loadRequirements = async (projectId: string) => {
     try {
-      const response = await APIService.getRequirements(projectId);
+      const response = await APIService.getAllRequirements(projectId);
       const reqList = response.requirements || [];
-      setRequirements(reqList.length > 0 ? reqList : mockRequirements);
+      setRequirements(reqList);
     } catch (err) {
       console.error('Error loading requirements:', err);
-      setRequirements(mockRequirements);
+      setRequirements([]);
     }
   };
 
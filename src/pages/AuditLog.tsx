@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import Layout from '../components/Layout/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import { Alert, AlertDescription } from '../../components/ui/alert';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '../../components/ui/table';
+import { AlertCircle, Download, RefreshCw, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { APIService } from '../utils/supabase';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import type { AuditLogEntry, AuditRecord, AuditVerification, AuditEvidence, PageInfo } from '../types';
+
+const shortHash = (hash: string) => `${hash.slice(0, 12)}…`;
+
+// Entries store the record as canonical JSON; an altered payload may no longer parse
+const parseRecord = (entry: AuditLogEntry): AuditRecord | null => {
+  try {
+    return JSON.parse(entry.payload);
+  } catch {
+    return null;
+  }
+};
+
+const AuditLog: React.FC = () => {
+  const { activeWorkspace } = useWorkspace();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [pageInfo, setPageInfo] = useState<PageInfo>({ nextCursor: null, total: 0 });
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Managers see the active workspace's entries
+  const workspaceId = activeWorkspace?.id;
+  useEffect(() => {
+    loadEntries();
+    verifyChain();
+  }, [workspaceId]);
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await APIService.getAuditLog();
+      setEntries(response.entries || []);
+      setPageInfo(response.pageInfo);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMoreEntries = async () => {
+    if (!pageInfo.nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const response = await APIService.getAuditLog({ cursor: pageInfo.nextCursor });
+      setEntries(prev => [...prev, ...(response.entries || [])]);
+      setPageInfo(response.pageInfo);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more entries');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const verifyChain = async () => {
+    try {
+      setVerifying(true);
+      const response = await APIService.verifyAuditLog();
+      setVerification(response.verification);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify the audit log');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const exportEvidence = async () => {
+    try {
+      setExporting(true);
+      setError('');
+      const response = await APIService.exportAuditEvidence();
+      const evidence: AuditEvidence = response.evidence;
+      const blob = new Blob([JSON.stringify(evidence, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-evidence-${evidence.exportedAt.split('T')[0]}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export audit evidence');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const brokenSeqs = new Set((verification?.breaks || []).map(entry => entry.seq));
+
+  return (
+    <Layout title="Audit Log">
+      <div className="p-6 space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Chain verification */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Chain Verification</CardTitle>
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={verifyChain} disabled={verifying}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${verifying ? 'animate-spin' : ''}`} />
+                  {verifying ? 'Verifying...' : 'Verify Again'}
+                </Button>
+                <Button onClick={exportEvidence} disabled={exporting}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {exporting ? 'Exporting...' : 'Export Evidence'}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!verification ? (
+              <p className="text-sm text-gray-500">{verifying ? 'Checking every entry against its hash...' : 'Not verified yet.'}</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-start space-x-3">
+                  {verification.valid ? (
+                    <ShieldCheck className="h-8 w-8 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <ShieldAlert className="h-8 w-8 text-red-600 flex-shrink-0" />
+                  )}
+                  <div>
+                    <p className={`font-semibold ${verification.valid ? 'text-green-700' : 'text-red-700'}`}>
+                      {verification.valid
+                        ? 'Chain intact'
+                        : `Chain broken: ${verification.breaks.length} problem${verification.breaks.length === 1 ? '' : 's'} found`}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {verification.checked} entries checked {new Date(verification.verifiedAt).toLocaleString()}
+                    </p>
+                    {verification.head && (
+                      <p className="text-xs text-gray-500 font-mono mt-1">
+                        Head #{verification.head.seq} {verification.head.hash}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {verification.breaks.length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {verification.breaks.map((entry, index) => (
+                      <li key={`${entry.seq}-${entry.reason}-${index}`} className="text-red-700">
+                        <span className="font-mono">#{entry.seq}</span> {entry.reason}: {entry.detail}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Entries, newest first */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Entries</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="animate-pulse space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <div key={i} className="h-4 bg-gray-200 rounded w-full"></div>
+                ))}
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-12">
+                <ShieldCheck className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">No audit entries yet</h3>
+                <p className="mt-1 text-sm text-gray-500">Every recorded activity is appended here.</p>
+              </div>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Recorded</TableHead>
+                      <TableHead>Actor</TableHead>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Hash</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => {
+                      const record = parseRecord(entry);
+                      return (
+                        <TableRow key={entry.seq} className={brokenSeqs.has(entry.seq) ? 'bg-red-50' : undefined}>
+                          <TableCell className="font-mono">{entry.seq}</TableCell>
+                          <TableCell>{new Date(entry.recordedAt).toLocaleString()}</TableCell>
+                          <TableCell>{record ? record.actor.email || record.actor.id : '—'}</TableCell>
+                          <TableCell>
+                            {record ? (
+                              <div>
+                                <div className="flex items-center space-x-2">
+                                  <Badge variant="outline">{record.type}</Badge>
+                                  <span className="font-medium">{record.title || record.action}</span>
+                                </div>
+                                {record.description && <p className="text-xs text-gray-500 mt-1">{record.description}</p>}
+                              </div>
+                            ) : (
+                              <span className="text-red-700">Unreadable payload</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs" title={entry.hash}>{shortHash(entry.hash)}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                <div className="flex items-center justify-between mt-6">
+                  <p className="text-sm text-gray-500">
+                    Showing {entries.length} of {pageInfo.total} entries
+                  </p>
+                  {pageInfo.nextCursor && (
+                    <Button variant="outline" onClick={loadMoreEntries} disabled={loadingMore}>
+                      {loadingMore ? 'Loading...' : 'Load More'}
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default AuditLog;
@@ -1,5 +1,6 @@
-import React, { useState } from 'react'
-import { ChevronLeft, ChevronRight, Search, Bookmark, Save, Download, StickyNote, Highlighter, MoreHorizontal, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { ChevronLeft, ChevronRight, Search, Bookmark, Save, Download, StickyNote, Highlighter, MoreHorizontal, ZoomIn, ZoomOut, RotateCcw, Upload } from 'lucide-react'
 import { Button } from '../../components/ui/button'
 import { Input } from '../../components/ui/input'
 import { Badge } from '../../components/ui/badge'
@@ -7,19 +8,256 @@ import { Progress } from '../../components/ui/progress'
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card'
 import { Separator } from '../../components/ui/separator'
 import { Toggle } from '../../components/ui/toggle'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../../components/ui/tooltip'
 import Layout from '../components/Layout/Layout'
+import { APIService } from '../utils/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { flattenStructure, nodeLabel } from '../utils/extraction/structure'
+import { predatesPolicy } from '../utils/document-versions'
+import { APP_CONSTANTS } from '../utils/constants'
+import type { Document, DocumentMetadata, DocumentUpdate, Project } from '../types'
+
+// A stop when stepping through a document: its headings and clauses, or its pages when the
+// parser found none. Each shows its own text up to where the next one starts.
+interface ViewerSection {
+  id: string
+  label: string
+  start: number
+  end: number
+  page: number
+}
+
+const viewerSections = (document?: Document): ViewerSection[] => {
+  if (!document) {
+    return []
+  }
+  const nodes = flattenStructure(document.structure).filter(node => node.type === 'heading' || node.type === 'clause')
+  if (nodes.length === 0) {
+    const pages = document.pages?.length ? document.pages : [{ number: 1, start: 0, end: document.content.length }]
+    return pages.map(page => ({ id: `page-${page.number}`, label: `Page ${page.number}`, start: page.start, end: page.end, page: page.number }))
+  }
+  const sections = nodes.map((node, index) => ({
+    id: node.id,
+    label: nodeLabel(node),
+    start: node.start,
+    end: index + 1 < nodes.length ? Math.min(node.end, nodes[index + 1].start) : node.end,
+    page: node.page
+  }))
+  // Text before the first heading, such as a cover page
+  if (document.content.slice(0, sections[0].start).trim()) {
+    sections.unshift({ id: 'start', label: 'Beginning', start: 0, end: sections[0].start, page: 1 })
+  }
+  return sections
+}
+
+// Versions of the shown document: which one it is, switching between them, making one current
+// and uploading a changed file as the next version
+interface VersionControlsProps {
+  document?: Document
+  versions: Document[]
+  onSelect: (documentId: string) => void
+  onMakeCurrent: (document: Document) => void
+  onUploadVersion: (document: Document, file: File, effectiveDate: string) => void
+}
+
+const VersionControls: React.FC<VersionControlsProps> = ({ document, versions, onSelect, onMakeCurrent, onUploadVersion }) => {
+  const { can } = useAuth()
+  const [effectiveDate, setEffectiveDate] = useState('')
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  if (!document) {
+    return null
+  }
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (file) {
+      onUploadVersion(document, file, effectiveDate)
+      setEffectiveDate('')
+    }
+  }
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+      {versions.length > 1 ? (
+        <Select value={document.id} onValueChange={onSelect}>
+          <SelectTrigger className="h-7 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {versions.map(version => (
+              <SelectItem key={version.id} value={version.id}>
+                Version {version.version || 1}{version.isCurrent !== false ? ' (current)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Badge variant="outline">Version {document.version || 1}</Badge>
+      )}
+      {document.isCurrent === false && (
+        <>
+          <Badge variant="secondary" className="bg-amber-100 text-amber-800">Superseded</Badge>
+          {can('document:update') && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onMakeCurrent(document)}>
+              Make current
+            </Button>
+          )}
+        </>
+      )}
+      {document.uploaderName && <span>Uploaded by {document.uploaderName}</span>}
+      {can('document:upload') && (
+        <>
+          <Input
+            type="date"
+            value={effectiveDate}
+            onChange={event => setEffectiveDate(event.target.value)}
+            className="h-7 w-36 text-xs"
+            aria-label="Effective date of the new version"
+          />
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => fileInput.current?.click()}>
+            <Upload className="w-3 h-3 mr-1" />
+            New version
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={APP_CONSTANTS.VALIDATION.SUPPORTED_FILE_EXTENSIONS.join(',')}
+            onChange={handleFile}
+            className="hidden"
+          />
+        </>
+      )}
+    </div>
+  )
+}
+
+// The metadata of the shown document, as read from its text, which people with edit rights can
+// correct. Emptying a field clears it.
+const METADATA_FIELDS: Array<{ field: keyof DocumentMetadata; label: string; date?: boolean }> = [
+  { field: 'documentTitle', label: 'Title' },
+  { field: 'owner', label: 'Owner' },
+  { field: 'documentVersion', label: 'Version' },
+  { field: 'effectiveDate', label: 'Effective', date: true },
+  { field: 'approvalDate', label: 'Approved', date: true },
+  { field: 'nextReviewDate', label: 'Next review', date: true }
+]
+
+interface MetadataPanelProps {
+  document?: Document
+  onSave: (document: Document, updates: DocumentUpdate) => Promise<void>
+}
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ document, onSave }) => {
+  const { can } = useAuth()
+  const [editing, setEditing] = useState(false)
+  const [values, setValues] = useState<DocumentMetadata>({})
+
+  useEffect(() => {
+    setEditing(false)
+  }, [document?.id])
+
+  if (!document) {
+    return null
+  }
+  const startEditing = () => {
+    setValues(METADATA_FIELDS.reduce((all, { field }) => ({ ...all, [field]: document[field] || '' }), {}))
+    setEditing(true)
+  }
+  const save = async () => {
+    const updates = METADATA_FIELDS.reduce<DocumentUpdate>((all, { field }) => {
+      const value = values[field]?.trim() || null
+      return value === (document[field] || null) ? all : { ...all, [field]: value }
+    }, {})
+    if (Object.keys(updates).length > 0) {
+      await onSave(document, updates)
+    }
+    setEditing(false)
+  }
+
+  if (editing) {
+    return (
+      <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
+        {METADATA_FIELDS.map(({ field, label, date }) => (
+          <label key={field} className="flex flex-col gap-1 text-gray-600">
+            {label}
+            <Input
+              type={date ? 'date' : 'text'}
+              value={values[field] || ''}
+              onChange={event => setValues(current => ({ ...current, [field]: event.target.value }))}
+              className="h-7 text-xs"
+            />
+          </label>
+        ))}
+        <div className="col-span-2 flex gap-2">
+          <Button size="sm" className="h-7 text-xs" onClick={save}>Save</Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditing(false)}>Cancel</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const shown = METADATA_FIELDS.filter(({ field }) => document[field])
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+      {shown.length > 0
+        ? shown.map(({ field, label }) => <span key={field}>{label}: {document[field]}</span>)
+        : <span>No document details found</span>}
+      {can('document:update') && (
+        <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={startEditing}>
+          Edit details
+        </Button>
+      )}
+    </div>
+  )
+}
 
 const Compliance: React.FC = () => {
+  // Links from a requirement open its source: ?project=&document=&section=&start=&end=
+  const [searchParams] = useSearchParams()
   const [currentView, setCurrentView] = useState<'split' | 'policy' | 'program'>('split')
   const [isSynced, setIsSynced] = useState(true)
-  const [policyPage, setPolicyPage] = useState(1)
-  const [programPage, setProgramPage] = useState(1)
+  const [projects, setProjects] = useState<Project[]>([])
+  const [selectedProjectId, setSelectedProjectId] = useState(searchParams.get('project') || '')
+  const [documents, setDocuments] = useState<Document[]>([])
+  // Bumped to load the documents again after a change
+  const [documentsLoaded, setDocumentsLoaded] = useState(0)
+  // Versions picked in each pane; otherwise the linked document, or the current version
+  const [policyVersionId, setPolicyVersionId] = useState('')
+  const [programVersionId, setProgramVersionId] = useState('')
+  const [policySection, setPolicySection] = useState(0)
+  const [programSection, setProgramSection] = useState(0)
+  const [error, setError] = useState('')
   const [zoom, setZoom] = useState(100)
 
-  // Mock data for total pages (in real implementation, this would come from document metadata)
-  const totalPolicyPages = 5
-  const totalProgramPages = 3
+  const pickDocument = (type: Document['type'], versionId: string) => {
+    const ofType = documents.filter(document => document.type === type)
+    return ofType.find(document => document.id === versionId)
+      || ofType.find(document => document.id === searchParams.get('document'))
+      || ofType.find(document => document.isCurrent !== false)
+      || ofType[0]
+  }
+  const policyDocument = pickDocument('policy', policyVersionId)
+  const programDocument = pickDocument('program', programVersionId)
+  const versionsOf = (document?: Document) => document
+    ? documents
+      .filter(candidate => (candidate.lineageId || candidate.id) === (document.lineageId || document.id))
+      .sort((a, b) => (b.version || 1) - (a.version || 1))
+    : []
+  const policySections = useMemo(() => viewerSections(policyDocument), [policyDocument])
+  const programSections = useMemo(() => viewerSections(programDocument), [programDocument])
+  const totalPolicySections = Math.max(policySections.length, 1)
+  const totalProgramSections = Math.max(programSections.length, 1)
+  const selectedProject = projects.find(project => project.id === selectedProjectId)
+  const dateMismatch = policyDocument && programDocument ? predatesPolicy(programDocument, policyDocument) : null
+
+  // The quoted source text of a linked requirement
+  const highlight = {
+    documentId: searchParams.get('document'),
+    start: Number(searchParams.get('start') ?? -1),
+    end: Number(searchParams.get('end') ?? -1)
+  }
 
   const complianceData = {
     compliant: 0,
@@ -28,6 +266,89 @@ const Compliance: React.FC = () => {
     percentage: 0
   }
 
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        const response = await APIService.getAllProjects()
+        setProjects(response.projects)
+        setSelectedProjectId(current => current || response.projects[0]?.id || '')
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load projects')
+      }
+    }
+    loadProjects()
+  }, [])
+
+  useEffect(() => {
+    if (!selectedProjectId) {
+      return
+    }
+    const loadDocuments = async () => {
+      try {
+        const response = await APIService.getDocuments(selectedProjectId)
+        setDocuments(response.documents || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load documents')
+      }
+    }
+    loadDocuments()
+  }, [selectedProjectId, documentsLoaded])
+
+  const selectVersion = (type: Document['type'], documentId: string) =>
+    type === 'policy' ? setPolicyVersionId(documentId) : setProgramVersionId(documentId)
+
+  const makeCurrent = async (document: Document) => {
+    try {
+      setError('')
+      await APIService.makeCurrentVersion(document.id)
+      setDocumentsLoaded(count => count + 1)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change the current version')
+    }
+  }
+
+  // Requirements stay on the version they were assessed against; the pane moves to the new one
+  const uploadVersion = async (document: Document, file: File, effectiveDate: string) => {
+    try {
+      setError('')
+      const response = await APIService.uploadDocument(file, selectedProjectId, document.type, {
+        versionOf: document.id,
+        effectiveDate: effectiveDate || undefined
+      })
+      selectVersion(document.type, response.document.id)
+      setDocumentsLoaded(count => count + 1)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload the new version')
+    }
+  }
+
+  const saveMetadata = async (document: Document, updates: DocumentUpdate) => {
+    try {
+      setError('')
+      await APIService.updateDocument(document.id, updates)
+      setDocumentsLoaded(count => count + 1)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the document details')
+    }
+  }
+
+  // Start at the linked section, or at the top
+  useEffect(() => {
+    const linked = (sections: ViewerSection[], document?: Document) => {
+      if (!document || document.id !== searchParams.get('document')) {
+        return 0
+      }
+      const section = searchParams.get('section')
+      const start = Number(searchParams.get('start') ?? -1)
+      const index = section
+        ? sections.findIndex(candidate => candidate.id === section)
+        : sections.findIndex(candidate => candidate.start <= start && start < candidate.end)
+      return Math.max(index, 0)
+    }
+    setPolicySection(linked(policySections, policyDocument))
+    setProgramSection(linked(programSections, programDocument))
+  }, [policySections, programSections, policyDocument, programDocument, searchParams])
+
   const handleViewChange = (view: 'split' | 'policy' | 'program') => {
     setCurrentView(view)
   }
@@ -35,18 +356,18 @@ const Compliance: React.FC = () => {
   const handlePreviousSection = () => {
     if (isSynced) {
       // Move both documents together
-      setPolicyPage(Math.max(1, policyPage - 1))
-      setProgramPage(Math.max(1, programPage - 1))
+      setPolicySection(Math.max(0, policySection - 1))
+      setProgramSection(Math.max(0, programSection - 1))
     } else {
       // When not synced, this affects the currently visible document(s)
       if (currentView === 'split') {
         // In split view when not synced, move both documents
-        setPolicyPage(Math.max(1, policyPage - 1))
-        setProgramPage(Math.max(1, programPage - 1))
+        setPolicySection(Math.max(0, policySection - 1))
+        setProgramSection(Math.max(0, programSection - 1))
       } else if (currentView === 'policy') {
-        setPolicyPage(Math.max(1, policyPage - 1))
+        setPolicySection(Math.max(0, policySection - 1))
       } else if (currentView === 'program') {
-        setProgramPage(Math.max(1, programPage - 1))
+        setProgramSection(Math.max(0, programSection - 1))
       }
     }
   }
@@ -54,18 +375,18 @@ const Compliance: React.FC = () => {
   const handleNextSection = () => {
     if (isSynced) {
       // Move both documents together
-      setPolicyPage(Math.min(totalPolicyPages, policyPage + 1))
-      setProgramPage(Math.min(totalProgramPages, programPage + 1))
+      setPolicySection(Math.min(totalPolicySections - 1, policySection + 1))
+      setProgramSection(Math.min(totalProgramSections - 1, programSection + 1))
     } else {
       // When not synced, this affects the currently visible document(s)
       if (currentView === 'split') {
         // In split view when not synced, move both documents
-        setPolicyPage(Math.min(totalPolicyPages, policyPage + 1))
-        setProgramPage(Math.min(totalProgramPages, programPage + 1))
+        setPolicySection(Math.min(totalPolicySections - 1, policySection + 1))
+        setProgramSection(Math.min(totalProgramSections - 1, programSection + 1))
       } else if (currentView === 'policy') {
-        setPolicyPage(Math.min(totalPolicyPages, policyPage + 1))
+        setPolicySection(Math.min(totalPolicySections - 1, policySection + 1))
       } else if (currentView === 'program') {
-        setProgramPage(Math.min(totalProgramPages, programPage + 1))
+        setProgramSection(Math.min(totalProgramSections - 1, programSection + 1))
       }
     }
   }
@@ -73,28 +394,54 @@ const Compliance: React.FC = () => {
   // Individual document navigation functions
   const handlePolicyNavigation = (direction: 'prev' | 'next') => {
     if (direction === 'prev') {
-      const newPage = Math.max(1, policyPage - 1)
-      setPolicyPage(newPage)
-      if (isSynced) setProgramPage(Math.max(1, programPage - 1))
+      setPolicySection(Math.max(0, policySection - 1))
+      if (isSynced) setProgramSection(Math.max(0, programSection - 1))
     } else {
-      const newPage = Math.min(totalPolicyPages, policyPage + 1)
-      setPolicyPage(newPage)
-      if (isSynced) setProgramPage(Math.min(totalProgramPages, programPage + 1))
+      setPolicySection(Math.min(totalPolicySections - 1, policySection + 1))
+      if (isSynced) setProgramSection(Math.min(totalProgramSections - 1, programSection + 1))
     }
   }
 
   const handleProgramNavigation = (direction: 'prev' | 'next') => {
     if (direction === 'prev') {
-      const newPage = Math.max(1, programPage - 1)
-      setProgramPage(newPage)
-      if (isSynced) setPolicyPage(Math.max(1, policyPage - 1))
+      setProgramSection(Math.max(0, programSection - 1))
+      if (isSynced) setPolicySection(Math.max(0, policySection - 1))
     } else {
-      const newPage = Math.min(totalProgramPages, programPage + 1)
-      setProgramPage(newPage)
-      if (isSynced) setPolicyPage(Math.min(totalPolicyPages, policyPage + 1))
+      setProgramSection(Math.min(totalProgramSections - 1, programSection + 1))
+      if (isSynced) setPolicySection(Math.min(totalPolicySections - 1, policySection + 1))
     }
   }
 
+  // The section's text, with a linked requirement's source marked
+  const renderSection = (document: Document | undefined, section: ViewerSection | undefined) => {
+    if (!document || !section) {
+      return <p className="text-gray-500">No document of this type has been uploaded to the project.</p>
+    }
+    const text = document.content.slice(section.start, section.end)
+    if (!text.trim()) {
+      return <p className="text-gray-500">{document.extractionError || 'No text was extracted from this document.'}</p>
+    }
+    if (highlight.documentId !== document.id || highlight.end <= section.start || highlight.start >= section.end) {
+      return <p className="whitespace-pre-wrap">{text}</p>
+    }
+    const from = Math.max(highlight.start - section.start, 0)
+    const to = Math.min(highlight.end - section.start, text.length)
+    return (
+      <p className="whitespace-pre-wrap">
+        {text.slice(0, from)}
+        <mark className="bg-yellow-100">{text.slice(from, to)}</mark>
+        {text.slice(to)}
+      </p>
+    )
+  }
+
+  const pageLabel = (document: Document | undefined, section: ViewerSection | undefined) =>
+    document && section ? `Page ${section.page} of ${document.pages?.length || 1}` : 'No document'
+
+  const currentPolicySection = policySections[policySection]
+  const currentProgramSection = programSections[programSection]
+  const currentSection = currentView === 'program' ? currentProgramSection : currentPolicySection || currentProgramSection
+
   return (
     <Layout>
       <div className="flex flex-col h-full bg-gray-50">
@@ -104,12 +451,23 @@ const Compliance: React.FC = () => {
             <div className="flex items-center space-x-4">
               <div className="flex items-center space-x-2">
                 <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                <span className="font-medium">Healthcare Compliance Review 2024</span>
+                <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+                  <SelectTrigger className="w-72">
+                    <SelectValue placeholder="Select a project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <div className="flex items-center space-x-2 text-sm text-gray-600">
                 <span>Policy vs Program Documentation</span>
-                <Badge variant="secondary" className="bg-orange-100 text-orange-800">In Progress</Badge>
-                <span>68%</span>
+                {selectedProject && (
+                  <Badge variant="secondary" className="bg-orange-100 text-orange-800">{selectedProject.status}</Badge>
+                )}
+                {error && <span className="text-red-600">{error}</span>}
               </div>
             </div>
             <div className="flex items-center space-x-2">
@@ -197,8 +555,7 @@ const Compliance: React.FC = () => {
               <div className="flex items-center space-x-4">
                 <div className="flex items-center space-x-2 text-sm text-gray-600">
                   <span>Section</span>
-                  <span className="font-medium">2.1 -</span>
-                  <span>Access Controls</span>
+                  <span className="font-medium">{currentSection ? currentSection.label : 'None'}</span>
                   {!isSynced && (
                     <Badge variant="outline" className="ml-2">
                       Independent Mode
@@ -237,6 +594,12 @@ const Compliance: React.FC = () => {
             </div>
           </div>
 
+          {dateMismatch && (
+            <div className="bg-amber-50 border-b border-amber-200 px-6 py-2 text-sm text-amber-800">
+              ⚠ {dateMismatch}. It may not reflect this version of the policy.
+            </div>
+          )}
+
           {/* Document Comparison Content */}
           <div className="flex-1 flex">
             {/* Documents Area */}
@@ -253,8 +616,16 @@ const Compliance: React.FC = () => {
                             📄
                           </div>
                           <div>
-                            <h3 className="font-medium">Policy Document</h3>
-                            <p className="text-sm text-gray-600">Page {policyPage} of {totalPolicyPages}</p>
+                            <h3 className="font-medium">{policyDocument?.title || 'Policy Document'}</h3>
+                            <p className="text-sm text-gray-600">{pageLabel(policyDocument, currentPolicySection)}</p>
+                            <VersionControls
+                              document={policyDocument}
+                              versions={versionsOf(policyDocument)}
+                              onSelect={documentId => selectVersion('policy', documentId)}
+                              onMakeCurrent={makeCurrent}
+                              onUploadVersion={uploadVersion}
+                            />
+                            <MetadataPanel document={policyDocument} onSave={saveMetadata} />
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
@@ -271,28 +642,21 @@ const Compliance: React.FC = () => {
                     {/* Document Content */}
                     <div className="flex-1 p-6 overflow-auto">
                       <div className="max-w-none">
-                        <div className="mb-6">
-                          <h2 className="text-lg font-semibold mb-4">HEALTHCARE COMPLIANCE POLICY 2024</h2>
-                          
-                          <div className="space-y-4 text-sm leading-relaxed">
-                            <div>
-                              <h3 className="font-medium text-base mb-2">Section {policyPage}: {policyPage === 1 ? 'Introduction' : policyPage === 2 ? 'Security Requirements' : `Section ${policyPage}`}</h3>
-                              {policyPage === 1 && (
-                                <p>This policy establishes comprehensive healthcare compliance requirements for all system implementations.</p>
-                              )}
-                              {policyPage === 2 && (
-                                <div className="ml-4 space-y-2">
-                                  <div>
-                                    <h4 className="font-medium">2.1 Multi-factor Authentication</h4>
-                                    <p>All system access must implement role-based access controls with multi-factor authentication for all users accessing sensitive healthcare data.</p>
-                                  </div>
-                                </div>
-                              )}
-                              {policyPage > 2 && (
-                                <p>Policy content for section {policyPage}. This would contain the actual policy requirements and guidelines.</p>
-                              )}
-                            </div>
-                          </div>
+                        {policySections.length > 1 && (
+                          <Select value={String(policySection)} onValueChange={(value: string) => setPolicySection(Number(value))}>
+                            <SelectTrigger className="mb-4">
+                              <SelectValue placeholder="Jump to section" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {policySections.map((section, index) => (
+                                <SelectItem key={section.id} value={String(index)}>{section.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <div className="space-y-4 text-sm leading-relaxed">
+                          {currentPolicySection && <h3 className="font-medium text-base mb-2">{currentPolicySection.label}</h3>}
+                          {renderSection(policyDocument, currentPolicySection)}
                         </div>
                       </div>
                     </div>
@@ -304,16 +668,16 @@ const Compliance: React.FC = () => {
                           variant="ghost" 
                           size="sm" 
                           onClick={() => handlePolicyNavigation('prev')}
-                          disabled={policyPage === 1}
+                          disabled={policySection === 0}
                         >
                           <ChevronLeft className="w-4 h-4" />
                         </Button>
-                        <span className="text-sm">{policyPage} / {totalPolicyPages}</span>
+                        <span className="text-sm">{policySection + 1} / {totalPolicySections}</span>
                         <Button 
                           variant="ghost" 
                           size="sm" 
                           onClick={() => handlePolicyNavigation('next')}
-                          disabled={policyPage === totalPolicyPages}
+                          disabled={policySection === totalPolicySections - 1}
                         >
                           <ChevronRight className="w-4 h-4" />
                         </Button>
@@ -344,8 +708,16 @@ const Compliance: React.FC = () => {
                             📄
                           </div>
                           <div>
-                            <h3 className="font-medium">Program Document</h3>
-                            <p className="text-sm text-gray-600">Page {programPage} of {totalProgramPages}</p>
+                            <h3 className="font-medium">{programDocument?.title || 'Program Document'}</h3>
+                            <p className="text-sm text-gray-600">{pageLabel(programDocument, currentProgramSection)}</p>
+                            <VersionControls
+                              document={programDocument}
+                              versions={versionsOf(programDocument)}
+                              onSelect={documentId => selectVersion('program', documentId)}
+                              onMakeCurrent={makeCurrent}
+                              onUploadVersion={uploadVersion}
+                            />
+                            <MetadataPanel document={programDocument} onSave={saveMetadata} />
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
@@ -362,23 +734,21 @@ const Compliance: React.FC = () => {
                     {/* Document Content */}
                     <div className="flex-1 p-6 overflow-auto">
                       <div className="max-w-none">
-                        <div className="mb-6">
-                          <h2 className="text-lg font-semibold mb-4">HEALTHCARE MANAGEMENT SYSTEM DOCUMENTATION</h2>
-                          
-                          <div className="space-y-4 text-sm leading-relaxed">
-                            <div>
-                              <h3 className="font-medium text-base mb-2">Section {programPage}: {programPage === 1 ? 'System Overview' : programPage === 2 ? 'Authentication System' : `Section ${programPage}`}</h3>
-                              {programPage === 1 && (
-                                <p>Our healthcare management system provides comprehensive patient data management with security features.</p>
-                              )}
-                              {programPage === 2 && (
-                                <p>The system currently implements basic username/password authentication for user access.</p>
-                              )}
-                              {programPage > 2 && (
-                                <p>Program documentation for section {programPage}. This would contain the actual implementation details and system specifications.</p>
-                              )}
-                            </div>
-                          </div>
+                        {programSections.length > 1 && (
+                          <Select value={String(programSection)} onValueChange={(value: string) => setProgramSection(Number(value))}>
+                            <SelectTrigger className="mb-4">
+                              <SelectValue placeholder="Jump to section" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {programSections.map((section, index) => (
+                                <SelectItem key={section.id} value={String(index)}>{section.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <div className="space-y-4 text-sm leading-relaxed">
+                          {currentProgramSection && <h3 className="font-medium text-base mb-2">{currentProgramSection.label}</h3>}
+                          {renderSection(programDocument, currentProgramSection)}
                         </div>
                       </div>
                     </div>
@@ -390,16 +760,16 @@ const Compliance: React.FC = () => {
                           variant="ghost" 
                           size="sm" 
                           onClick={() => handleProgramNavigation('prev')}
-                          disabled={programPage === 1}
+                          disabled={programSection === 0}
                         >
                           <ChevronLeft className="w-4 h-4" />
                         </Button>
-                        <span className="text-sm">{programPage} / {totalProgramPages}</span>
+                        <span className="text-sm">{programSection + 1} / {totalProgramSections}</span>
                         <Button 
                           variant="ghost" 
                           size="sm" 
                           onClick={() => handleProgramNavigation('next')}
-                          disabled={programPage === totalProgramPages}
+                          disabled={programSection === totalProgramSections - 1}
                         >
                           <ChevronRight className="w-4 h-4" />
                         </Button>
@@ -28,11 +28,10 @@ import {
 } from 'lucide-react';
 import { APIService } from '../utils/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { mockRequirements } from '../utils/mockData';
 import type { Project, Requirement } from '../types';
 
 const ComplianceReport: React.FC = () => {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const navigate = useNavigate();
   const [projects, setProjects] = useState<Project[]>([]);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
@@ -54,7 +53,7 @@ const ComplianceReport: React.FC = () => {
 
   const loadProjects = async () => {
     try {
-      const response = await APIService.getProjects();
+      const response = await APIService.getAllProjects();
       const projectList = response.projects || [];
       setProjects(projectList);
       
@@ -71,12 +70,12 @@ const ComplianceReport: React.FC = () => {
 
   const loadRequirements = async (projectId: string) => {
     try {
-      const response = await APIService.getRequirements(projectId);
+      const response = await APIService.getAllRequirements(projectId);
       const reqList = response.requirements || [];
-      setRequirements(reqList.length > 0 ? reqList : mockRequirements);
+      setRequirements(reqList);
     } catch (err) {
       console.error('Error loading requirements:', err);
-      setRequirements(mockRequirements);
+      setRequirements([]);
     }
   };
 
@@ -113,12 +112,18 @@ const ComplianceReport: React.FC = () => {
       // Create a blob with report content (simplified version)
       const reportContent = generateReportContent();
       const blob = new Blob([reportContent], { type: 'text/html' });
+      const filename = `${selectedProject?.name || 'compliance-report'}-${new Date().toISOString().split('T')[0]}.html`;
+
+      // Exports go on the audit trail; record before the file leaves the app
+      if (selectedProject) {
+        await APIService.exportReport({ projectId: selectedProject.id, filename, format: 'html', content: reportContent });
+      }
       
       // Create download link
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${selectedProject?.name || 'compliance-report'}-${new Date().toISOString().split('T')[0]}.html`;
+      a.download = filename;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -287,59 +292,61 @@ const ComplianceReport: React.FC = () => {
               <Printer className="h-4 w-4 mr-2" />
               Print
             </Button>
-            <Dialog open={isEmailDialogOpen} onOpenChange={setIsEmailDialogOpen}>
-              <DialogTrigger asChild>
-                <Button variant="outline">
-                  <Mail className="h-4 w-4 mr-2" />
-                  Email Report
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Email QC Report</DialogTitle>
-                </DialogHeader>
-                <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="email-to">To</Label>
-                    <Input
-                      id="email-to"
-                      type="email"
-                      value={emailData.to}
-                      onChange={(e) => setEmailData(prev => ({ ...prev, to: e.target.value }))}
-                      placeholder="recipient@example.com"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="email-subject">Subject</Label>
-                    <Input
-                      id="email-subject"
-                      value={emailData.subject}
-                      onChange={(e) => setEmailData(prev => ({ ...prev, subject: e.target.value }))}
-                      placeholder={`QC Report: ${selectedProject?.name}`}
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="email-message">Message (Optional)</Label>
-                    <Textarea
-                      id="email-message"
-                      value={emailData.message}
-                      onChange={(e) => setEmailData(prev => ({ ...prev, message: e.target.value }))}
-                      placeholder="Please find the attached QC compliance report..."
-                      rows={3}
-                    />
-                  </div>
-                  <div className="flex justify-end space-x-2">
-                    <Button variant="outline" onClick={() => setIsEmailDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button onClick={sendEmailReport} disabled={isSendingEmail}>
-                      {isSendingEmail ? 'Sending...' : 'Send Email'}
-                    </Button>
+            {can('report:email') && (
+              <Dialog open={isEmailDialogOpen} onOpenChange={setIsEmailDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
+                    <Mail className="h-4 w-4 mr-2" />
+                    Email Report
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Email QC Report</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div>
+                      <Label htmlFor="email-to">To</Label>
+                      <Input
+                        id="email-to"
+                        type="email"
+                        value={emailData.to}
+                        onChange={(e) => setEmailData(prev => ({ ...prev, to: e.target.value }))}
+                        placeholder="recipient@example.com"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="email-subject">Subject</Label>
+                      <Input
+                        id="email-subject"
+                        value={emailData.subject}
+                        onChange={(e) => setEmailData(prev => ({ ...prev, subject: e.target.value }))}
+                        placeholder={`QC Report: ${selectedProject?.name}`}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="email-message">Message (Optional)</Label>
+                      <Textarea
+                        id="email-message"
+                        value={emailData.message}
+                        onChange={(e) => setEmailData(prev => ({ ...prev, message: e.target.value }))}
+                        placeholder="Please find the attached QC compliance report..."
+                        rows={3}
+                      />
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                      <Button variant="outline" onClick={() => setIsEmailDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button onClick={sendEmailReport} disabled={isSendingEmail}>
+                        {isSendingEmail ? 'Sending...' : 'Send Email'}
+                      </Button>
+                    </div>
                   </div>
-                </div>
-              </DialogContent>
-            </Dialog>
-            <Button onClick={generatePDFReport} disabled={isGeneratingPDF}>
+                </DialogContent>
+              </Dialog>
+            )}
+            <Button onClick={generatePDFReport} disabled={isGeneratingPDF || !can('report:export')}>
               <Download className="h-4 w-4 mr-2" />
               {isGeneratingPDF ? 'Generating...' : 'Download PDF'}
             </Button>
@@ -11,13 +11,19 @@ import { APIService } from '../utils/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { Plus, ArrowRight, Upload, FileText, CheckSquare } from 'lucide-react';
 import * as LucideIcons from 'lucide-react';
-import type { Project, Activity } from '../types';
+import type { Project, Activity, ProjectOverview } from '../types';
+
+// The dashboard lists only the most recent few; counts come from the page totals and facets
+const RECENT_ITEMS = 5;
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [projects, setProjects] = useState<Project[]>([]);
   const [activities, setActivities] = useState<Activity[]>([]);
+  const [totalReports, setTotalReports] = useState(0);
+  const [totalActivities, setTotalActivities] = useState(0);
+  const [overview, setOverview] = useState<ProjectOverview>({ facets: { status: {}, assignee: {} }, averageCompliance: 0 });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -31,12 +37,15 @@ const Dashboard: React.FC = () => {
     try {
       setLoading(true);
       const [reportsResponse, activitiesResponse] = await Promise.all([
-        APIService.getProjects(), // Using same API but treating as reports
-        APIService.getActivities()
+        APIService.getProjects({ limit: RECENT_ITEMS, sort: [{ field: 'lastActivity', direction: 'desc' }] }), // Using same API but treating as reports
+        APIService.getActivities({ limit: RECENT_ITEMS })
       ]);
 
       setProjects(reportsResponse.projects || []); // Still using projects state for compatibility
+      setTotalReports(reportsResponse.pageInfo.total);
+      setOverview({ facets: reportsResponse.facets, averageCompliance: reportsResponse.averageCompliance });
       setActivities(activitiesResponse.activities || []);
+      setTotalActivities(activitiesResponse.pageInfo.total);
     } catch (err) {
       console.error('Error loading dashboard data:', err);
       setError(err instanceof Error ? err.message : 'Failed to load dashboard data');
@@ -56,11 +65,8 @@ const Dashboard: React.FC = () => {
 
   // Calculate metrics from real data
   const calculateMetrics = () => {
-    const totalReports = projects.length;
-    const activeReports = projects.filter(p => p.status === 'active').length;
-    const avgQualityScore = totalReports > 0 
-      ? Math.round(projects.reduce((sum, p) => sum + (p.compliance || 0), 0) / totalReports)
-      : 0;
+    const activeReports = overview.facets.status.active || 0;
+    const avgQualityScore = overview.averageCompliance;
 
     return [
       {
@@ -89,7 +95,7 @@ const Dashboard: React.FC = () => {
       },
       {
         title: 'Recent Activities',
-        value: activities.length.toString(),
+        value: totalActivities.toString(),
         change: '+5',
         changeType: 'positive' as const,
         icon: 'Activity',
@@ -289,7 +295,7 @@ const Dashboard: React.FC = () => {
             <CardContent>
               <div className="space-y-4">
                 {activities.length > 0 ? (
-                  activities.slice(0, 5).map((activity) => (
+                  activities.map((activity) => (
                     <div key={activity.id} className="flex items-start space-x-3">
                       <div className="flex-shrink-0">
                         <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
@@ -304,7 +310,9 @@ const Dashboard: React.FC = () => {
                           {activity.description}
                         </p>
                         <p className="text-xs text-gray-400">
-                          {new Date(activity.timestamp).toLocaleDateString()}
+                          {[activity.user, activity.projectName, new Date(activity.timestamp).toLocaleDateString()]
+                            .filter(Boolean)
+                            .join(' · ')}
                         </p>
                       </div>
                     </div>
@@ -335,7 +343,7 @@ const Dashboard: React.FC = () => {
             <CardContent>
               <div className="space-y-4">
                 {projects.length > 0 ? (
-                  projects.slice(0, 5).map((project) => (
+                  projects.map((project) => (
                     <div key={project.id} className="flex items-center justify-between p-3 border rounded-lg hover:border-blue-300 hover:bg-blue-50 cursor-pointer transition-all group"
                          onClick={() => navigate('/report-library')}>
                       <div className="flex-1">
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Layout from '../components/Layout/Layout';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
@@ -9,22 +9,409 @@ import { Textarea } from '../../components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
 import { Progress } from '../../components/ui/progress';
 import { Badge } from '../../components/ui/badge';
-import { Upload, FileText, X, CheckCircle, AlertCircle, ArrowRight, Eye, BarChart3, BookOpen } from 'lucide-react';
+import { Upload, FileText, X, CheckCircle, AlertCircle, ArrowRight, Eye, BarChart3, BookOpen, Download, RotateCcw, FileArchive, Folder, Plus, Trash2 } from 'lucide-react';
 import { Alert, AlertDescription } from '../../components/ui/alert';
 import { APIService } from '../utils/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { APP_CONSTANTS } from '../utils/constants';
+import { lowConfidencePages } from '../utils/extraction';
+import { runWithLimit, UploadCancelledError } from '../utils/uploads';
+import { classifyFile, DOCUMENT_CATEGORIES, type DocumentClassification } from '../utils/document-classifier';
+import { isDuplicateDocumentError } from '../utils/document-versions';
+import {
+  documentTypeFor,
+  folderTree,
+  isArchive,
+  knownContent,
+  prepareImport,
+  readArchive,
+  readImportFile,
+  ruleTypeFor,
+  SKIP_DOCUMENT_TYPE,
+  type ArchiveFolder,
+  type ImportArchive,
+  type ImportOutcome,
+  type ImportResult,
+  type ImportRule
+} from '../utils/zip-import';
+import type { Document } from '../types';
 // Simple drag and drop implementation without external dependencies
 
 interface FileUpload {
   id: string;
   file: File;
-  type: 'policy' | 'program';
-  status: 'pending' | 'uploading' | 'completed' | 'error';
+  // 'policy', 'program' or a custom document type
+  type: string;
+  // Where the file was in the ZIP archive it was imported from
+  archivePath?: string;
+  status: 'pending' | 'uploading' | 'completed' | 'error' | 'cancelled';
   progress: number;
+  // Continues a failed upload where it stopped
+  resumeToken?: string;
+  // Why it failed, such as the file already being in the report
+  error?: string;
+  documentId?: string;
+  document?: Document;
+  // Suggested type and category, read from the file in the browser; null when it found none
+  suggestion?: DocumentClassification | null;
+  classifying?: boolean;
+  // Whether the suggested type was taken or another chosen
+  suggestionStatus?: 'accepted' | 'overridden';
+  // Stored with the document: the suggested category once accepted, or the one chosen
+  category?: string;
 }
 
+// Files are classified a couple at a time, since their text is extracted in the browser
+const PARALLEL_CLASSIFICATIONS = 2;
+// Below this the suggestion is shown as a guess
+const CONFIDENT_SUGGESTION = 0.5;
+
+const BUILT_IN_TYPES = ['policy', 'program'];
+
+const NO_CATEGORY = 'none';
+
+// The categories offered for a type; custom types can take any of them
+const categoriesFor = (type: string): string[] =>
+  DOCUMENT_CATEGORIES
+    .filter(category => !BUILT_IN_TYPES.includes(type) || category.type === type)
+    .map(category => category.label);
+
+const toUpload = (file: File, type = 'policy', archivePath?: string): FileUpload => ({
+  id: Math.random().toString(36).substr(2, 9),
+  file,
+  type,
+  status: 'pending',
+  progress: 0,
+  ...(archivePath ? { archivePath } : {})
+});
+
+const typeLabel = (type: string): string => {
+  if (type === SKIP_DOCUMENT_TYPE) {
+    return 'Leave out';
+  }
+  return BUILT_IN_TYPES.includes(type) ? type.charAt(0).toUpperCase() + type.slice(1) : type;
+};
+
+const suggestionText = (suggestion: DocumentClassification): string =>
+  [typeLabel(suggestion.type), suggestion.category, `${Math.round(suggestion.confidence * 100)}% confident`]
+    .filter(Boolean)
+    .join(' · ');
+
+// What the classifier made of a file waiting to be uploaded, and accepting its suggestion
+const SuggestionLine: React.FC<{ upload: FileUpload; onAccept: () => void }> = ({ upload, onAccept }) => {
+  const { suggestion, suggestionStatus } = upload;
+  if (upload.classifying) {
+    return <p className="text-xs mt-1 text-gray-500">Classifying...</p>;
+  }
+  if (!suggestion) {
+    return null;
+  }
+  if (suggestionStatus) {
+    return (
+      <p className="text-xs mt-1 text-gray-500">
+        {suggestionStatus === 'accepted' ? 'Suggested' : 'Overrode the suggestion'}: {suggestionText(suggestion)}
+      </p>
+    );
+  }
+  return (
+    <div className={`flex items-center text-xs mt-1 ${suggestion.confidence < CONFIDENT_SUGGESTION ? 'text-amber-600' : 'text-blue-700'}`}>
+      <span>
+        Suggested: {suggestionText(suggestion)}
+        {suggestion.basis === 'name' && ' (from the file name)'}
+      </span>
+      <Button variant="ghost" size="sm" className="h-6 ml-2 text-xs" onClick={onAccept}>
+        Accept
+      </Button>
+    </div>
+  );
+};
+
+const isSupportedFile = (file: File): boolean => {
+  const extension = `.${file.name.split('.').pop()?.toLowerCase()}`;
+  return (APP_CONSTANTS.VALIDATION.SUPPORTED_MIME_TYPES as readonly string[]).includes(file.type) || (APP_CONSTANTS.VALIDATION.SUPPORTED_FILE_EXTENSIONS as readonly string[]).includes(extension);
+};
+
+// What the server managed to read from an uploaded file
+const extractionSummary = (document: Document): string => {
+  if (document.extractionStatus !== 'completed') {
+    return `Text not extracted: ${document.extractionError || 'unsupported file'}`;
+  }
+  if (!document.content.trim()) {
+    return 'No text found; the file may be a scan without a text layer';
+  }
+  const pageCount = document.pages?.length || 1;
+  const ocrCount = document.pages?.filter(page => page.ocrConfidence !== undefined).length || 0;
+  const ocrNote = ocrCount > 0 ? ` (${ocrCount === pageCount ? 'all' : ocrCount} read with OCR)` : '';
+  return `Text extracted from ${pageCount} ${pageCount === 1 ? 'page' : 'pages'}${ocrNote}`;
+};
+
+// Scanned pages whose OCR text may be wrong, for the reviewer to check against the file
+const lowConfidenceWarning = (document: Document): string | null => {
+  const pages = lowConfidencePages(document.pages);
+  if (pages.length === 0) {
+    return null;
+  }
+  const numbers = pages.map(page => page.number).join(', ');
+  return `Low OCR confidence on ${pages.length === 1 ? 'page' : 'pages'} ${numbers}; check the text against the file`;
+};
+
+const INHERIT = 'inherit';
+
+interface TypeSelectProps {
+  value: string;
+  types: string[];
+  onChange: (value: string) => void;
+  // Label of the choice that keeps the type of the folder around it
+  inheritLabel?: string;
+  className?: string;
+}
+
+const TypeSelect: React.FC<TypeSelectProps> = ({ value, types, onChange, inheritLabel, className = 'w-36' }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className={`h-8 text-xs ${className}`}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {inheritLabel && <SelectItem value={INHERIT}>{inheritLabel}</SelectItem>}
+      {types.map(type => (
+        <SelectItem key={type} value={type}>{typeLabel(type)}</SelectItem>
+      ))}
+      <SelectItem value={SKIP_DOCUMENT_TYPE}>{typeLabel(SKIP_DOCUMENT_TYPE)}</SelectItem>
+    </SelectContent>
+  </Select>
+);
+
+interface ArchiveFolderRowProps {
+  folder: ArchiveFolder;
+  depth: number;
+  rules: ImportRule[];
+  types: string[];
+  defaultType: string;
+  onChange: (path: string, type: string) => void;
+}
+
+// A folder of the archive and the type its files get, then its subfolders
+const ArchiveFolderRow: React.FC<ArchiveFolderRowProps> = ({ folder, depth, rules, types, defaultType, onChange }) => {
+  const rule = rules.find(candidate => candidate.kind === 'folder' && candidate.match === folder.path);
+  // What the folder gets from the folders around it
+  const inherited = documentTypeFor({ path: folder.path, name: '' }, rules.filter(candidate => candidate !== rule && candidate.kind === 'folder'), defaultType);
+  return (
+    <>
+      <div className="flex items-center justify-between py-1" style={{ paddingLeft: depth * 16 }}>
+        <span className="flex items-center text-sm">
+          <Folder className="h-4 w-4 mr-2 text-gray-400" />
+          {folder.name}
+          <span className="ml-2 text-xs text-gray-500">{folder.fileCount} {folder.fileCount === 1 ? 'file' : 'files'}</span>
+        </span>
+        <TypeSelect
+          value={rule?.documentType || INHERIT}
+          types={types}
+          inheritLabel={`As parent (${typeLabel(inherited)})`}
+          className="w-44"
+          onChange={value => onChange(folder.path, value)}
+        />
+      </div>
+      {folder.children.map(child => (
+        <ArchiveFolderRow key={child.path} folder={child} depth={depth + 1} rules={rules} types={types} defaultType={defaultType} onChange={onChange} />
+      ))}
+    </>
+  );
+};
+
+interface ArchiveImportProps {
+  archive: ImportArchive;
+  rules: ImportRule[];
+  onRulesChange: (rules: ImportRule[]) => void;
+  defaultType: string;
+  onDefaultTypeChange: (type: string) => void;
+  types: string[];
+  onAddType: (type: string) => void;
+  importing: boolean;
+  canImport: boolean;
+  onImport: () => void;
+  onClose: () => void;
+}
+
+// The folders of a ZIP archive and the rules that say which document type their files become
+const ArchiveImport: React.FC<ArchiveImportProps> = ({
+  archive, rules, onRulesChange, defaultType, onDefaultTypeChange, types, onAddType, importing, canImport, onImport, onClose
+}) => {
+  const [newType, setNewType] = useState('');
+  const tree = folderTree(archive.files);
+
+  const setFolderType = (path: string, type: string) => {
+    const others = rules.filter(rule => !(rule.kind === 'folder' && rule.match === path));
+    onRulesChange(type === INHERIT ? others : [...others, { kind: 'folder', match: path, documentType: type }]);
+  };
+  const updatePattern = (index: number, changes: Partial<ImportRule>) => {
+    onRulesChange(rules.map((rule, position) => position === index ? { ...rule, ...changes } : rule));
+  };
+  const addType = () => {
+    const type = newType.trim();
+    if (type) {
+      onAddType(type);
+      setNewType('');
+    }
+  };
+
+  // How many files each type gets with the rules as they are; the type of files no rule matches
+  // is only known once they are classified
+  const counts = new Map<string, number>();
+  let unmatched = 0;
+  archive.files.forEach(file => {
+    const type = ruleTypeFor(file, rules);
+    if (type || defaultType === SKIP_DOCUMENT_TYPE) {
+      counts.set(type || defaultType, (counts.get(type || defaultType) || 0) + 1);
+    } else {
+      unmatched++;
+    }
+  });
+  const leftOut = counts.get(SKIP_DOCUMENT_TYPE) || 0;
+  const imported = archive.files.length - leftOut;
+  const breakdown = Array.from(counts.entries())
+    .filter(([type]) => type !== SKIP_DOCUMENT_TYPE)
+    .map(([type, count]) => `${count} ${typeLabel(type)}`)
+    .concat(unmatched > 0 ? [`${unmatched} to classify`] : [])
+    .join(', ');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileArchive className="h-5 w-5 mr-2" />
+          Import {archive.name}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Choose the document type of each folder's files, or add filename patterns such as <code>*.xlsx</code> or <code>SOP-*</code>; patterns win over folders. Files no rule matches get the type and category suggested by their text.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label>Files not matched by a rule, when no type is suggested</Label>
+          <TypeSelect value={defaultType} types={types} className="w-44" onChange={onDefaultTypeChange} />
+        </div>
+
+        <div className="border rounded-lg p-3 max-h-80 overflow-auto">
+          {tree.children.length === 0 ? (
+            <p className="text-sm text-gray-500">All files are at the top of the archive.</p>
+          ) : (
+            tree.children.map(folder => (
+              <ArchiveFolderRow key={folder.path} folder={folder} depth={0} rules={rules} types={types} defaultType={defaultType} onChange={setFolderType} />
+            ))
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Filename patterns</Label>
+          {rules.map((rule, index) => rule.kind === 'pattern' && (
+            <div key={index} className="flex items-center space-x-2">
+              <Input
+                value={rule.match}
+                onChange={(e) => updatePattern(index, { match: e.target.value })}
+                placeholder="*.xlsx"
+                className="h-8"
+              />
+              <TypeSelect value={rule.documentType} types={types} className="w-44" onChange={value => updatePattern(index, { documentType: value })} />
+              <Button variant="ghost" size="sm" onClick={() => onRulesChange(rules.filter((_, position) => position !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => onRulesChange([...rules, { kind: 'pattern', match: '', documentType: defaultType }])}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add pattern
+          </Button>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Input
+            value={newType}
+            onChange={(e) => setNewType(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addType()}
+            placeholder="Custom document type, such as contract"
+            className="h-8"
+            maxLength={100}
+          />
+          <Button variant="outline" size="sm" onClick={addType} disabled={!newType.trim()}>
+            Add type
+          </Button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {imported} of {archive.files.length} files will be imported{breakdown ? ` (${breakdown})` : ''}
+          {leftOut > 0 ? `; ${leftOut} left out by the rules` : ''}
+          {archive.skipped.length > 0 ? `; ${archive.skipped.length} skipped as unsupported` : ''}.
+        </p>
+
+        <div className="flex justify-end space-x-4">
+          <Button variant="outline" onClick={onClose} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={onImport} disabled={importing || imported === 0 || !canImport}>
+            {importing ? 'Importing...' : `Import ${imported} ${imported === 1 ? 'file' : 'files'}`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const OUTCOME_STYLES: Record<ImportOutcome, string> = {
+  imported: 'bg-green-100 text-green-800',
+  duplicate: 'bg-amber-100 text-amber-800',
+  skipped: 'bg-gray-100 text-gray-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+interface ImportReport {
+  archive: string;
+  results: ImportResult[];
+}
+
+// What happened to each file of an imported archive
+const ImportReportCard: React.FC<{ report: ImportReport; onClose: () => void }> = ({ report, onClose }) => {
+  const count = (outcome: ImportOutcome) => report.results.filter(result => result.outcome === outcome).length;
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Import of {report.archive}</CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {count('imported')} imported, {count('duplicate')} duplicates, {count('skipped')} skipped, {count('failed')} failed
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-80 overflow-auto divide-y">
+          {report.results.map(result => (
+            <div key={result.path} className="flex items-center justify-between py-2 text-sm">
+              <div className="min-w-0">
+                <p className="truncate">{result.path}</p>
+                {result.reason && <p className="text-xs text-gray-500">{result.reason}</p>}
+              </div>
+              <div className="flex items-center space-x-2 ml-4 shrink-0">
+                {result.documentType && result.outcome === 'imported' && (
+                  <span className="text-xs text-gray-500">
+                    {[typeLabel(result.documentType), result.category].filter(Boolean).join(' · ')}
+                  </span>
+                )}
+                <Badge className={OUTCOME_STYLES[result.outcome]}>{result.outcome}</Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
 const DocumentUpload: React.FC = () => {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  // This page starts a new report for the uploaded files
+  const canStartReport = can('project:create') && can('document:upload');
   const navigate = useNavigate();
   const [uploads, setUploads] = useState<FileUpload[]>([]);
   const [reportName, setReportName] = useState('');
@@ -36,27 +423,50 @@ const DocumentUpload: React.FC = () => {
   const [analysisComplete, setAnalysisComplete] = useState(false);
 
   const [isDragActive, setIsDragActive] = useState(false);
+  // Cancels the uploads in progress, by upload id
+  const controllers = useRef(new Map<string, AbortController>());
+
+  // A ZIP archive being mapped before its import, and the report of the last import
+  const [archive, setArchive] = useState<ImportArchive | null>(null);
+  const [importRules, setImportRules] = useState<ImportRule[]>([]);
+  const [defaultImportType, setDefaultImportType] = useState('policy');
+  const [customTypes, setCustomTypes] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const documentTypes = [...BUILT_IN_TYPES, ...customTypes];
+
+  const openArchive = useCallback(async (file: File) => {
+    try {
+      setError('');
+      setArchive(await readArchive(file));
+      setImportRules([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the archive');
+    }
+  }, []);
+
+  // Archives open for mapping, one at a time; other files join the list
+  const addFiles = useCallback((files: File[]) => {
+    const archives = files.filter(isArchive);
+    if (archives.length > 0) {
+      openArchive(archives[0]);
+    }
+    const newUploads = files
+      .filter(file => !isArchive(file) && isSupportedFile(file))
+      .map(file => ({ ...toUpload(file), classifying: true }));
+    setUploads(prev => [...prev, ...newUploads]);
+
+    runWithLimit(newUploads, PARALLEL_CLASSIFICATIONS, async upload => {
+      const suggestion = await classifyFile(upload.file).catch(() => null);
+      setUploads(prev => prev.map(u => u.id === upload.id ? { ...u, classifying: false, suggestion } : u));
+    });
+  }, [openArchive]);
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragActive(false);
-    
-    const files = Array.from(e.dataTransfer.files);
-    const validFiles = files.filter(file => {
-      const validTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
-      return validTypes.includes(file.type) || file.name.match(/\.(pdf|doc|docx|txt)$/i);
-    });
-
-    const newUploads: FileUpload[] = validFiles.map(file => ({
-      id: Math.random().toString(36).substr(2, 9),
-      file,
-      type: 'policy',
-      status: 'pending',
-      progress: 0
-    }));
-    
-    setUploads(prev => [...prev, ...newUploads]);
-  }, []);
+    addFiles(Array.from(e.dataTransfer.files));
+  }, [addFiles]);
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -69,28 +479,75 @@ const DocumentUpload: React.FC = () => {
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    const newUploads: FileUpload[] = files.map(file => ({
-      id: Math.random().toString(36).substr(2, 9),
-      file,
-      type: 'policy',
-      status: 'pending',
-      progress: 0
+    addFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  // Choosing a type settles the suggestion either way. A category of another type is dropped, and
+  // taking the suggested type takes its category when none was chosen.
+  const updateFileType = (id: string, type: string) => {
+    setUploads(prev => prev.map(upload => {
+      if (upload.id !== id) {
+        return upload;
+      }
+      const accepted = upload.suggestion?.type === type;
+      const category = upload.category && categoriesFor(type).includes(upload.category) ? upload.category : undefined;
+      return {
+        ...upload,
+        type,
+        category: category || (accepted ? upload.suggestion?.category : undefined),
+        ...(upload.suggestion ? { suggestionStatus: accepted ? 'accepted' : 'overridden' } : {})
+      };
     }));
-    
-    setUploads(prev => [...prev, ...newUploads]);
   };
 
-  const updateFileType = (id: string, type: 'policy' | 'program') => {
-    setUploads(prev => prev.map(upload => 
-      upload.id === id ? { ...upload, type } : upload
+  // Choosing another category than the suggested one overrides the suggestion
+  const updateFileCategory = (id: string, value: string) => {
+    const category = value === NO_CATEGORY ? undefined : value;
+    setUploads(prev => prev.map(upload =>
+      upload.id === id
+        ? { ...upload, category, ...(upload.suggestion && upload.suggestion.category !== category ? { suggestionStatus: 'overridden' } : {}) }
+        : upload
     ));
   };
 
-  const removeFile = (id: string) => {
+  // Every suggestion not yet accepted or overridden, for files still to be uploaded
+  const pendingSuggestions = uploads.filter(upload => upload.status === 'pending' && upload.suggestion && !upload.suggestionStatus);
+
+  const acceptSuggestions = (accepted: FileUpload[]) => {
+    const ids = accepted.map(upload => upload.id);
+    setUploads(prev => prev.map(upload =>
+      ids.includes(upload.id) && upload.suggestion
+        ? { ...upload, type: upload.suggestion.type, category: upload.suggestion.category, suggestionStatus: 'accepted' }
+        : upload
+    ));
+  };
+
+  const removeFile = async (id: string) => {
+    const upload = uploads.find(u => u.id === id);
+
+    // Uploaded files also have to be removed from the report
+    if (upload?.documentId) {
+      try {
+        await APIService.deleteDocument(upload.documentId);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to remove document');
+        return;
+      }
+    }
+
     setUploads(prev => prev.filter(upload => upload.id !== id));
   };
 
+  const downloadFile = async (documentId: string) => {
+    try {
+      const { url } = await APIService.getDocumentDownloadUrl(documentId);
+      window.open(url, '_blank', 'noopener');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download document');
+    }
+  };
+
   const createReport = async () => {
     if (!reportName.trim()) {
       setError('Report name is required');
@@ -117,40 +574,55 @@ const DocumentUpload: React.FC = () => {
     }
   };
 
+  const updateUpload = (id: string, changes: Partial<FileUpload>) => {
+    setUploads(prev => prev.map(u => u.id === id ? { ...u, ...changes } : u));
+  };
+
   const uploadFile = async (upload: FileUpload, reportId: string) => {
+    const controller = new AbortController();
+    controllers.current.set(upload.id, controller);
     try {
-      setUploads(prev => prev.map(u => 
-        u.id === upload.id ? { ...u, status: 'uploading', progress: 0 } : u
-      ));
-
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setUploads(prev => prev.map(u => {
-          if (u.id === upload.id && u.status === 'uploading' && u.progress < 90) {
-            return { ...u, progress: u.progress + 20 };
-          }
-          return u;
-        }));
-      }, 200);
-
-      const response = await APIService.uploadDocument(
-        upload.file, 
-        reportId, 
-        upload.type
-      );
-
-      clearInterval(progressInterval);
-      
-      setUploads(prev => prev.map(u => 
-        u.id === upload.id ? { ...u, status: 'completed', progress: 100 } : u
-      ));
+      updateUpload(upload.id, { status: 'uploading', progress: upload.resumeToken ? upload.progress : 0, error: undefined });
+
+      const response = await APIService.uploadDocument(upload.file, reportId, upload.type, {
+        category: upload.category,
+        signal: controller.signal,
+        resumeToken: upload.resumeToken,
+        onResumeToken: resumeToken => updateUpload(upload.id, { resumeToken }),
+        onProgress: ({ loaded, total }) => updateUpload(upload.id, { progress: total ? Math.floor(loaded / total * 100) : 100 })
+      });
 
+      updateUpload(upload.id, {
+        status: 'completed',
+        progress: 100,
+        resumeToken: undefined,
+        documentId: response.document?.id,
+        document: response.document
+      });
       return response;
     } catch (err) {
-      setUploads(prev => prev.map(u => 
-        u.id === upload.id ? { ...u, status: 'error', progress: 0 } : u
-      ));
+      if (err instanceof UploadCancelledError) {
+        updateUpload(upload.id, { status: 'cancelled', progress: 0, resumeToken: undefined });
+      } else {
+        // Progress and resumeToken stay, so a retry continues from there
+        updateUpload(upload.id, { status: 'error', error: err instanceof Error ? err.message : 'Upload failed' });
+      }
       throw err;
+    } finally {
+      controllers.current.delete(upload.id);
+    }
+  };
+
+  const cancelUpload = (id: string) => {
+    controllers.current.get(id)?.abort();
+  };
+
+  const retryUpload = async (upload: FileUpload) => {
+    if (!currentReportId) return;
+    try {
+      await uploadFile(upload, currentReportId);
+    } catch (err) {
+      console.error(`Failed to upload ${upload.file.name}:`, err);
     }
   };
 
@@ -165,16 +637,16 @@ const DocumentUpload: React.FC = () => {
         if (!reportId) return;
       }
 
-      // Upload all pending files
+      // Upload all pending files, a few at a time
       const pendingUploads = uploads.filter(u => u.status === 'pending');
       
-      for (const upload of pendingUploads) {
+      await runWithLimit(pendingUploads, APP_CONSTANTS.MAX_PARALLEL_UPLOADS, async upload => {
         try {
-          await uploadFile(upload, reportId);
+          await uploadFile(upload, reportId!);
         } catch (err) {
           console.error(`Failed to upload ${upload.file.name}:`, err);
         }
-      }
+      });
 
       // Mark analysis as complete after all files are uploaded
       const allCompleted = uploads.every(u => u.status === 'completed');
@@ -187,11 +659,75 @@ const DocumentUpload: React.FC = () => {
     }
   };
 
+  // Uploads the archive's files as the rules say, in one batch, into the report (created first if needed)
+  const importArchive = async () => {
+    if (!archive) return;
+    setError('');
+    let reportId = currentReportId;
+    if (!reportId) {
+      reportId = await createReport();
+      if (!reportId) return;
+    }
+
+    try {
+      setIsImporting(true);
+      const { documents } = await APIService.getDocuments(reportId);
+      const prepared = prepareImport(archive, importRules, defaultImportType);
+      const results = prepared.results;
+      const seen = knownContent(documents);
+
+      // Each file is read from the archive when its turn comes, and joins the list then
+      await runWithLimit(prepared.files, APP_CONSTANTS.MAX_PARALLEL_UPLOADS, async entry => {
+        const { path } = entry;
+        const read = await readImportFile(archive, entry, seen);
+        if ('result' in read) {
+          results.push(read.result);
+          return;
+        }
+        const added: FileUpload = { ...toUpload(read.file, entry.documentType, path), classifying: entry.classify };
+        setUploads(prev => [...prev, added]);
+        let upload = added;
+        // Files no rule matched take the suggested type and category, if the classifier finds one
+        if (entry.classify) {
+          const suggestion = await classifyFile(upload.file).catch(() => null);
+          const changes: Partial<FileUpload> = suggestion
+            ? { classifying: false, suggestion, suggestionStatus: 'accepted', type: suggestion.type, category: suggestion.category }
+            : { classifying: false, suggestion };
+          upload = { ...upload, ...changes };
+          updateUpload(upload.id, changes);
+        }
+        try {
+          const response = await uploadFile(upload, reportId!);
+          results.push({ path, outcome: 'imported', documentType: upload.type, category: upload.category, documentId: response.document?.id });
+        } catch (err) {
+          const cancelled = err instanceof UploadCancelledError;
+          results.push({
+            path,
+            outcome: cancelled ? 'skipped' : isDuplicateDocumentError(err) ? 'duplicate' : 'failed',
+            documentType: upload.type,
+            reason: cancelled ? 'Upload cancelled' : err instanceof Error ? err.message : 'Upload failed'
+          });
+        }
+      });
+
+      setImportReport({ archive: archive.name, results: results.sort((a, b) => a.path.localeCompare(b.path)) });
+      setArchive(null);
+      if (results.some(result => result.outcome === 'imported')) {
+        setAnalysisComplete(true);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import the archive');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'bg-green-100 text-green-800';
       case 'uploading': return 'bg-blue-100 text-blue-800';
       case 'error': return 'bg-red-100 text-red-800';
+      case 'cancelled': return 'bg-amber-100 text-amber-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -199,6 +735,15 @@ const DocumentUpload: React.FC = () => {
   return (
     <Layout title="Document Upload">
       <div className="p-6 max-w-4xl mx-auto space-y-6">
+        {!canStartReport && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Your role can't start new QC reports. Ask a QA reviewer or manager to create the report for your documents.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Report Information */}
         <Card>
           <CardHeader>
@@ -250,7 +795,7 @@ const DocumentUpload: React.FC = () => {
           <CardHeader>
             <CardTitle>Upload Documents</CardTitle>
             <p className="text-sm text-muted-foreground">
-              Upload your documents for quality control analysis and get suggestions for improvement. Supported formats: PDF, DOC, DOCX, TXT
+              Upload your documents for quality control analysis and get suggestions for improvement. Supported formats: PDF, DOC, DOCX, TXT, XLSX, CSV, PPTX, HTML, Markdown, EML, MSG and images
             </p>
           </CardHeader>
           <CardContent>
@@ -267,7 +812,7 @@ const DocumentUpload: React.FC = () => {
                 id="file-input"
                 type="file"
                 multiple
-                accept=".pdf,.doc,.docx,.txt"
+                accept={[...APP_CONSTANTS.VALIDATION.SUPPORTED_FILE_EXTENSIONS, '.zip'].join(',')}
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -280,7 +825,7 @@ const DocumentUpload: React.FC = () => {
                     Drag & drop files here, or click to select files
                   </p>
                   <p className="text-sm text-gray-400">
-                    Maximum file size: 50MB per file
+                    Maximum file size: 50MB per file. Drop a ZIP archive to import its folders in one batch
                   </p>
                 </div>
               )}
@@ -288,6 +833,24 @@ const DocumentUpload: React.FC = () => {
           </CardContent>
         </Card>
 
+        {archive && (
+          <ArchiveImport
+            archive={archive}
+            rules={importRules}
+            onRulesChange={setImportRules}
+            defaultType={defaultImportType}
+            onDefaultTypeChange={setDefaultImportType}
+            types={documentTypes}
+            onAddType={type => setCustomTypes(prev => prev.includes(type) || BUILT_IN_TYPES.includes(type) ? prev : [...prev, type])}
+            importing={isImporting}
+            canImport={canStartReport && (Boolean(currentReportId) || Boolean(reportName.trim()))}
+            onImport={importArchive}
+            onClose={() => setArchive(null)}
+          />
+        )}
+
+        {importReport && <ImportReportCard report={importReport} onClose={() => setImportReport(null)} />}
+
         {/* Error Display */}
         {error && (
           <Alert variant="destructive">
@@ -300,7 +863,14 @@ const DocumentUpload: React.FC = () => {
         {uploads.length > 0 && (
           <Card>
             <CardHeader>
-              <CardTitle>Uploaded Files ({uploads.length})</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle>Uploaded Files ({uploads.length})</CardTitle>
+                {pendingSuggestions.length > 1 && (
+                  <Button variant="outline" size="sm" onClick={() => acceptSuggestions(pendingSuggestions)}>
+                    Accept {pendingSuggestions.length} suggested types
+                  </Button>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
@@ -309,47 +879,115 @@ const DocumentUpload: React.FC = () => {
                     <FileText className="h-8 w-8 text-blue-600" />
                     <div className="flex-1">
                       <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-medium">{upload.file.name}</h4>
+                        <div>
+                          <h4 className="font-medium">{upload.file.name}</h4>
+                          {upload.archivePath && upload.archivePath !== upload.file.name && (
+                            <p className="text-xs text-gray-500">{upload.archivePath}</p>
+                          )}
+                        </div>
                         <div className="flex items-center space-x-2">
                           <Badge className={getStatusColor(upload.status)}>
                             {upload.status}
                           </Badge>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => removeFile(upload.id)}
-                          >
-                            <X className="h-4 w-4" />
-                          </Button>
+                          {(upload.status === 'error' || upload.status === 'cancelled') && currentReportId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => retryUpload(upload)}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              {upload.resumeToken ? 'Resume' : 'Retry'}
+                            </Button>
+                          )}
+                          {(!upload.documentId || can('document:delete')) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => upload.status === 'uploading' ? cancelUpload(upload.id) : removeFile(upload.id)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center space-x-4 text-sm text-gray-500">
                         <span>{(upload.file.size / 1024 / 1024).toFixed(2)} MB</span>
                         <Select
                           value={upload.type}
-                          onValueChange={(value: 'policy' | 'program') => updateFileType(upload.id, value)}
+                          onValueChange={(value: string) => updateFileType(upload.id, value)}
                         >
                           <SelectTrigger className="w-32">
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="policy">Policy</SelectItem>
-                            <SelectItem value="program">Program</SelectItem>
+                            {(documentTypes.includes(upload.type) ? documentTypes : [...documentTypes, upload.type]).map(type => (
+                              <SelectItem key={type} value={type}>{typeLabel(type)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={upload.category || NO_CATEGORY}
+                          onValueChange={(value: string) => updateFileCategory(upload.id, value)}
+                          disabled={Boolean(upload.documentId)}
+                        >
+                          <SelectTrigger className="w-52">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                            {categoriesFor(upload.type).concat(upload.category && !categoriesFor(upload.type).includes(upload.category) ? [upload.category] : []).map(category => (
+                              <SelectItem key={category} value={category}>{category}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
+                      {upload.status === 'pending' && (
+                        <SuggestionLine upload={upload} onAccept={() => acceptSuggestions([upload])} />
+                      )}
                       {upload.status === 'uploading' && (
                         <div className="mt-2">
                           <Progress value={upload.progress} className="w-full" />
-                          <p className="text-xs text-gray-500 mt-1">{upload.progress}% uploaded</p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {upload.progress < 100
+                              ? `${upload.progress}% of ${(upload.file.size / 1024 / 1024).toFixed(2)} MB uploaded`
+                              : 'Extracting text...'}
+                          </p>
                         </div>
                       )}
+                      {upload.status === 'error' && upload.error && (
+                        <p className="flex items-center text-xs mt-1 text-red-600">
+                          <AlertCircle className="h-3 w-3 mr-1" />
+                          {upload.error}
+                        </p>
+                      )}
                       {upload.status === 'completed' && (
                         <div className="mt-2 flex items-center text-green-600">
                           <CheckCircle className="h-4 w-4 mr-1" />
                           <span className="text-sm">Upload complete</span>
+                          {upload.documentId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="ml-2"
+                              onClick={() => downloadFile(upload.documentId!)}
+                            >
+                              <Download className="h-4 w-4 mr-1" />
+                              Download
+                            </Button>
+                          )}
                         </div>
                       )}
+                      {upload.document && (
+                        <p className={`text-xs mt-1 ${upload.document.extractionStatus === 'completed' && upload.document.content.trim() ? 'text-gray-500' : 'text-amber-600'}`}>
+                          {extractionSummary(upload.document)}
+                        </p>
+                      )}
+                      {upload.document && lowConfidenceWarning(upload.document) && (
+                        <p className="flex items-center text-xs mt-1 text-amber-600">
+                          <AlertCircle className="h-3 w-3 mr-1" />
+                          {lowConfidenceWarning(upload.document)}
+                        </p>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -361,7 +999,7 @@ const DocumentUpload: React.FC = () => {
                 </Button>
                 <Button 
                   onClick={startAnalysis} 
-                  disabled={uploads.length === 0 || isCreatingReport || !reportName.trim()}
+                  disabled={uploads.length === 0 || isCreatingReport || !reportName.trim() || !canStartReport}
                 >
                   {isCreatingReport ? 'Creating Report...' : 'Start QC Analysis'}
                 </Button>
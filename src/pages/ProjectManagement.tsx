@@ -17,7 +17,7 @@ import { useAuth } from '../contexts/AuthContext';
 import type { Project } from '../types';
 
 const ProjectManagement: React.FC = () => {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const navigate = useNavigate();
   const [projects, setProjects] = useState<Project[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -38,7 +38,7 @@ const ProjectManagement: React.FC = () => {
   const loadProjects = async () => {
     try {
       setLoading(true);
-      const response = await APIService.getProjects();
+      const response = await APIService.getAllProjects();
       setProjects(response.projects || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load projects');
@@ -180,12 +180,14 @@ const ProjectManagement: React.FC = () => {
             <div className="flex items-center justify-between">
               <CardTitle>Projects</CardTitle>
               <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button>
-                    <Plus className="h-4 w-4 mr-2" />
-                    New Project
-                  </Button>
-                </DialogTrigger>
+                {can('project:create') && (
+                  <DialogTrigger asChild>
+                    <Button>
+                      <Plus className="h-4 w-4 mr-2" />
+                      New Project
+                    </Button>
+                  </DialogTrigger>
+                )}
                 <DialogContent>
                   <DialogHeader>
                     <DialogTitle>Create New Project</DialogTitle>
@@ -311,18 +313,22 @@ const ProjectManagement: React.FC = () => {
                             <DialogTitle>Project Actions</DialogTitle>
                           </DialogHeader>
                           <div className="space-y-2">
-                            <Button variant="ghost" className="w-full justify-start">
-                              <Edit className="h-4 w-4 mr-2" />
-                              Edit Project
-                            </Button>
-                            <Button 
-                              variant="ghost" 
-                              className="w-full justify-start text-red-600 hover:text-red-700"
-                              onClick={() => deleteProject(project.id)}
-                            >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Delete Project
-                            </Button>
+                            {can('project:update') && (
+                              <Button variant="ghost" className="w-full justify-start">
+                                <Edit className="h-4 w-4 mr-2" />
+                                Edit Project
+                              </Button>
+                            )}
+                            {can('project:delete') && (
+                              <Button 
+                                variant="ghost" 
+                                className="w-full justify-start text-red-600 hover:text-red-700"
+                                onClick={() => deleteProject(project.id)}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete Project
+                              </Button>
+                            )}
                           </div>
                         </DialogContent>
                       </Dialog>
@@ -396,19 +402,23 @@ const ProjectManagement: React.FC = () => {
                 </p>
                 {!searchTerm && (
                   <div className="flex justify-center space-x-4">
-                    <Button 
-                      onClick={() => setIsCreateDialogOpen(true)}
-                      variant="outline"
-                    >
-                      <Plus className="h-4 w-4 mr-2" />
-                      Create Project
-                    </Button>
-                    <Button 
-                      onClick={() => navigate('/document-upload')}
-                    >
-                      <Upload className="h-4 w-4 mr-2" />
-                      Upload Documents
-                    </Button>
+                    {can('project:create') && (
+                      <Button 
+                        onClick={() => setIsCreateDialogOpen(true)}
+                        variant="outline"
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Create Project
+                      </Button>
+                    )}
+                    {can('document:upload') && (
+                      <Button 
+                        onClick={() => navigate('/document-upload')}
+                      >
+                        <Upload className="h-4 w-4 mr-2" />
+                        Upload Documents
+                      </Button>
+                    )}
                   </div>
                 )}
               </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Layout from '../components/Layout/Layout';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
@@ -13,17 +13,33 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Alert, AlertDescription } from '../../components/ui/alert';
 import { Plus, Search, MoreHorizontal, Calendar, User, BookOpen, Trash2, Edit, AlertCircle, ArrowRight, CheckSquare, FileText, Upload, Eye, BarChart3 } from 'lucide-react';
 import { APIService } from '../utils/supabase';
+import { REPORT_STATUSES } from '../utils/constants';
 import { useAuth } from '../contexts/AuthContext';
-import type { Project } from '../types';
+import type { Project, ProjectQuery, ProjectSortField, SortOption, PageInfo, ProjectOverview } from '../types';
+
+const SORT_OPTIONS: Record<string, { label: string; sort: SortOption<ProjectSortField>[] }> = {
+  newest: { label: 'Newest first', sort: [{ field: 'createdAt', direction: 'desc' }] },
+  recent: { label: 'Recently active', sort: [{ field: 'lastActivity', direction: 'desc' }] },
+  name: { label: 'Name (A-Z)', sort: [{ field: 'name', direction: 'asc' }] },
+  quality: { label: 'Quality score', sort: [{ field: 'compliance', direction: 'desc' }, { field: 'name', direction: 'asc' }] },
+  assignee: { label: 'Assignee', sort: [{ field: 'assignee', direction: 'asc' }, { field: 'lastActivity', direction: 'desc' }] }
+};
 
 const ReportLibrary: React.FC = () => {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const navigate = useNavigate();
   const [reports, setReports] = useState<Project[]>([]);
+  const [pageInfo, setPageInfo] = useState<PageInfo>({ nextCursor: null, total: 0 });
+  const [overview, setOverview] = useState<ProjectOverview>({ facets: { status: {}, assignee: {} }, averageCompliance: 0 });
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [sortOption, setSortOption] = useState('newest');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState('');
+  const latestRequest = useRef(0);
   const [newReport, setNewReport] = useState({
     name: '',
     description: '',
@@ -31,27 +47,60 @@ const ReportLibrary: React.FC = () => {
     assignee: ''
   });
 
+  // Wait for typing to pause before searching on the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
   useEffect(() => {
     loadReports();
-  }, []);
+  }, [debouncedSearch, statusFilter, sortOption]);
+
+  const buildQuery = (cursor?: string): ProjectQuery => ({
+    search: debouncedSearch || undefined,
+    status: statusFilter === 'all' ? undefined : [statusFilter as Project['status']],
+    sort: SORT_OPTIONS[sortOption].sort,
+    cursor
+  });
 
   const loadReports = async () => {
+    // Ignore responses to searches the user has already moved past
+    const request = ++latestRequest.current;
     try {
       setLoading(true);
-      const response = await APIService.getProjects();
+      setError('');
+      const response = await APIService.getProjects(buildQuery());
+      if (request !== latestRequest.current) return;
       setReports(response.projects || []);
+      setPageInfo(response.pageInfo);
+      setOverview({ facets: response.facets, averageCompliance: response.averageCompliance });
     } catch (err) {
+      if (request !== latestRequest.current) return;
       setError(err instanceof Error ? err.message : 'Failed to load reports');
     } finally {
-      setLoading(false);
+      if (request === latestRequest.current) setLoading(false);
     }
   };
 
-  const filteredReports = reports.filter(report =>
-    report.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    report.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    report.assignee.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const loadMoreReports = async () => {
+    if (!pageInfo.nextCursor) return;
+
+    const request = latestRequest.current;
+    try {
+      setLoadingMore(true);
+      const response = await APIService.getProjects(buildQuery(pageInfo.nextCursor));
+      if (request !== latestRequest.current) return;
+      setReports(prev => [...prev, ...(response.projects || [])]);
+      setPageInfo(response.pageInfo);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more reports');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const isFiltered = Boolean(debouncedSearch) || statusFilter !== 'all';
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -75,16 +124,16 @@ const ReportLibrary: React.FC = () => {
 
     try {
       setError('');
-      const response = await APIService.createProject({
+      await APIService.createProject({
         name: newReport.name,
         description: newReport.description,
         documentType: newReport.documentType || 'Quality Assessment',
         assignee: newReport.assignee || user?.name || 'Unassigned'
       });
 
-      setReports(prev => [response.project, ...prev]);
       setNewReport({ name: '', description: '', documentType: '', assignee: '' });
       setIsCreateDialogOpen(false);
+      await loadReports();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create report');
     }
@@ -94,17 +143,19 @@ const ReportLibrary: React.FC = () => {
     try {
       setError('');
       await APIService.deleteProject(id);
-      setReports(prev => prev.filter(p => p.id !== id));
+      await loadReports();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete report');
     }
   };
 
+  // Library-wide figures; these don't change with the search or status filter
+  const statusCounts = overview.facets.status;
   const reportStats = {
-    total: reports.length,
-    active: reports.filter(p => p.status === 'active').length,
-    completed: reports.filter(p => p.status === 'completed').length,
-    avgQuality: Math.round(reports.reduce((sum, p) => sum + p.compliance, 0) / reports.length) || 0
+    total: Object.keys(statusCounts).reduce((sum, status) => sum + statusCounts[status], 0),
+    active: statusCounts.active || 0,
+    completed: statusCounts.completed || 0,
+    avgQuality: overview.averageCompliance
   };
 
   return (
@@ -180,15 +231,17 @@ const ReportLibrary: React.FC = () => {
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle>QC Reports</CardTitle>
-              <Button onClick={() => navigate('/document-upload')}>
-                <Plus className="h-4 w-4 mr-2" />
-                New Report
-              </Button>
+              {can('project:create') && (
+                <Button onClick={() => navigate('/document-upload')}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Report
+                </Button>
+              )}
             </div>
           </CardHeader>
           <CardContent>
-            <div className="mb-6">
-              <div className="relative">
+            <div className="flex flex-col md:flex-row gap-4 mb-6">
+              <div className="relative flex-1">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                 <Input
                   placeholder="Search reports..."
@@ -197,6 +250,31 @@ const ReportLibrary: React.FC = () => {
                   className="pl-10"
                 />
               </div>
+
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Filter by status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {REPORT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {status} ({statusCounts[status] || 0})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={sortOption} onValueChange={setSortOption}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(SORT_OPTIONS).map((key) => (
+                    <SelectItem key={key} value={key}>{SORT_OPTIONS[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
             {loading ? (
@@ -215,7 +293,7 @@ const ReportLibrary: React.FC = () => {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredReports.map((report) => {
+                {reports.map((report) => {
                   const qualityScore = getQualityScore(report.compliance);
                   return (
                     <Card key={report.id} className="hover:shadow-md transition-all hover:border-blue-300 cursor-pointer group">
@@ -262,18 +340,23 @@ const ReportLibrary: React.FC = () => {
                                   <BarChart3 className="h-4 w-4 mr-2" />
                                   View QC Report
                                 </Button>
-                                <Button variant="ghost" className="w-full justify-start">
-                                  <Edit className="h-4 w-4 mr-2" />
-                                  Edit Report
-                                </Button>
-                                <Button 
-                                  variant="ghost" 
-                                  className="w-full justify-start text-red-600 hover:text-red-700"
-                                  onClick={() => deleteReport(report.id)}
-                                >
-                                  <Trash2 className="h-4 w-4 mr-2" />
-                                  Delete Report
-                                </Button>
+                                {can('project:update') && (
+                                  <Button variant="ghost" className="w-full justify-start">
+                                    <Edit className="h-4 w-4 mr-2" />
+                                    Edit Report
+                                  </Button>
+                                )}
+                                {/* Only QA managers delete reports */}
+                                {can('project:delete') && (
+                                  <Button 
+                                    variant="ghost" 
+                                    className="w-full justify-start text-red-600 hover:text-red-700"
+                                    onClick={() => deleteReport(report.id)}
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete Report
+                                  </Button>
+                                )}
                               </div>
                             </DialogContent>
                           </Dialog>
@@ -344,14 +427,27 @@ const ReportLibrary: React.FC = () => {
               </div>
             )}
 
-            {filteredReports.length === 0 && (
+            {!loading && reports.length > 0 && (
+              <div className="flex items-center justify-between mt-6">
+                <p className="text-sm text-gray-500">
+                  Showing {reports.length} of {pageInfo.total} reports
+                </p>
+                {pageInfo.nextCursor && (
+                  <Button variant="outline" onClick={loadMoreReports} disabled={loadingMore}>
+                    {loadingMore ? 'Loading...' : 'Load More'}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {!loading && reports.length === 0 && (
               <div className="text-center py-12">
                 <BookOpen className="mx-auto h-12 w-12 text-gray-400" />
                 <h3 className="mt-2 text-sm font-medium text-gray-900">No reports found</h3>
                 <p className="mt-1 text-sm text-gray-500 mb-6">
-                  {searchTerm ? 'Try adjusting your search terms.' : 'Get started by creating your first QC report.'}
+                  {isFiltered ? 'Try adjusting your search or filters.' : 'Get started by creating your first QC report.'}
                 </p>
-                {!searchTerm && (
+                {!isFiltered && can('document:upload') && (
                   <div className="flex justify-center space-x-4">
                     <Button 
                       onClick={() => navigate('/document-upload')}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Layout from '../components/Layout/Layout';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
@@ -12,21 +12,73 @@ import { Textarea } from '../../components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '../../components/ui/dialog';
 import { Alert, AlertDescription } from '../../components/ui/alert';
 import { Search, Filter, CheckCircle, XCircle, Clock, AlertTriangle, Eye, AlertCircle, ArrowRight, FileText, BarChart3 } from 'lucide-react';
-import { mockRequirements } from '../utils/mockData';
 import { APIService } from '../utils/supabase';
+import { REQUIREMENT_STATUSES, PRIORITY_LEVELS } from '../utils/constants';
 import { useAuth } from '../contexts/AuthContext';
-import type { Requirement, Project } from '../types';
+import { changesFinalStatus } from '../utils/permissions';
+import type {
+  Requirement,
+  Project,
+  RequirementUpdate,
+  RequirementQuery,
+  RequirementSortField,
+  RequirementFacets,
+  SortOption,
+  PageInfo
+} from '../types';
+
+const SORT_OPTIONS: Record<string, { label: string; sort: SortOption<RequirementSortField>[] }> = {
+  priority: { label: 'Priority', sort: [{ field: 'priority', direction: 'desc' }, { field: 'title', direction: 'asc' }] },
+  status: { label: 'Status', sort: [{ field: 'status', direction: 'asc' }, { field: 'priority', direction: 'desc' }] },
+  category: { label: 'Category', sort: [{ field: 'category', direction: 'asc' }, { field: 'title', direction: 'asc' }] },
+  title: { label: 'Title (A-Z)', sort: [{ field: 'title', direction: 'asc' }] },
+  confidence: { label: 'Lowest confidence', sort: [{ field: 'confidence', direction: 'asc' }, { field: 'priority', direction: 'desc' }] },
+  updated: { label: 'Recently updated', sort: [{ field: 'lastUpdated', direction: 'desc' }] }
+};
+
+const EMPTY_FACETS: RequirementFacets = { status: {}, priority: {}, category: {}, assignee: {} };
+
+// Move one requirement's count from one facet value to another after an edit
+const shiftCount = (counts: Record<string, number>, from?: string, to?: string) => {
+  if (from === to) return counts;
+  const next = { ...counts };
+  if (from) next[from] = Math.max((next[from] || 0) - 1, 0);
+  if (to) next[to] = (next[to] || 0) + 1;
+  return next;
+};
+
+// Opens the requirement's source in the Compliance viewer, scrolled to its section and range
+const sourceLink = (projectId: string, requirement: Requirement) => {
+  const params = new URLSearchParams({ project: projectId, document: requirement.sourceDocument || '' });
+  if (requirement.sourceSection) params.set('section', requirement.sourceSection);
+  if (requirement.sourceStart !== undefined && requirement.sourceEnd !== undefined) {
+    params.set('start', String(requirement.sourceStart));
+    params.set('end', String(requirement.sourceEnd));
+  }
+  return `/compliance?${params.toString()}`;
+};
 
 const RequirementsChecklist: React.FC = () => {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const navigate = useNavigate();
-  const [requirements, setRequirements] = useState<Requirement[]>(mockRequirements);
+  const [requirements, setRequirements] = useState<Requirement[]>([]);
+  const [pageInfo, setPageInfo] = useState<PageInfo>({ nextCursor: null, total: 0 });
+  const [facets, setFacets] = useState<RequirementFacets>(EMPTY_FACETS);
   const [projects, setProjects] = useState<Project[]>([]);
   const [selectedProjectId, setSelectedProjectId] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [priorityFilter, setPriorityFilter] = useState('all');
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [assigneeFilter, setAssigneeFilter] = useState('all');
+  const [sortOption, setSortOption] = useState('priority');
+  const [loadingMore, setLoadingMore] = useState(false);
+  const latestRequest = useRef(0);
   const [selectedRequirement, setSelectedRequirement] = useState<Requirement | null>(null);
+  const [editForm, setEditForm] = useState<RequirementUpdate>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -34,15 +86,28 @@ const RequirementsChecklist: React.FC = () => {
     loadProjects();
   }, []);
 
+  // Wait for typing to pause before searching on the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
   useEffect(() => {
     if (selectedProjectId) {
       loadRequirements(selectedProjectId);
     }
-  }, [selectedProjectId]);
+  }, [selectedProjectId, debouncedSearch, statusFilter, priorityFilter, categoryFilter, assigneeFilter, sortOption]);
+
+  const selectProject = (projectId: string) => {
+    // Categories and assignees differ between reports, so their filters start over
+    setCategoryFilter('all');
+    setAssigneeFilter('all');
+    setSelectedProjectId(projectId);
+  };
 
   const loadProjects = async () => {
     try {
-      const response = await APIService.getProjects();
+      const response = await APIService.getAllProjects();
       const projectList = response.projects || [];
       setProjects(projectList);
       
@@ -57,31 +122,91 @@ const RequirementsChecklist: React.FC = () => {
     }
   };
 
+  const buildQuery = (cursor?: string): RequirementQuery => ({
+    search: debouncedSearch || undefined,
+    status: statusFilter === 'all' ? undefined : [statusFilter as Requirement['status']],
+    priority: priorityFilter === 'all' ? undefined : [priorityFilter as Requirement['priority']],
+    category: categoryFilter === 'all' ? undefined : [categoryFilter],
+    assignee: assigneeFilter === 'all' ? undefined : [assigneeFilter],
+    sort: SORT_OPTIONS[sortOption].sort,
+    cursor
+  });
+
   const loadRequirements = async (projectId: string) => {
+    // Ignore responses to filters the user has already moved past
+    const request = ++latestRequest.current;
     try {
       setLoading(true);
-      const response = await APIService.getRequirements(projectId);
-      const reqList = response.requirements || [];
-      
-      // If no requirements from backend, use mock data for demonstration
-      setRequirements(reqList.length > 0 ? reqList : mockRequirements);
+      setError('');
+      const response = await APIService.getRequirements(projectId, buildQuery());
+      if (request !== latestRequest.current) return;
+      setRequirements(response.requirements || []);
+      setPageInfo(response.pageInfo);
+      setFacets(response.facets);
     } catch (err) {
+      if (request !== latestRequest.current) return;
       console.error('Error loading requirements:', err);
-      // Fallback to mock data if backend fails
-      setRequirements(mockRequirements);
+      setError(err instanceof Error ? err.message : 'Failed to load requirements');
+      setRequirements([]);
+      setPageInfo({ nextCursor: null, total: 0 });
+      setFacets(EMPTY_FACETS);
     } finally {
-      setLoading(false);
+      if (request === latestRequest.current) setLoading(false);
     }
   };
 
-  const filteredRequirements = requirements.filter(req => {
-    const matchesSearch = req.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         req.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || req.status === statusFilter;
-    const matchesPriority = priorityFilter === 'all' || req.priority === priorityFilter;
-    
-    return matchesSearch && matchesStatus && matchesPriority;
-  });
+  const loadMoreRequirements = async () => {
+    if (!pageInfo.nextCursor) return;
+
+    const request = latestRequest.current;
+    try {
+      setLoadingMore(true);
+      const response = await APIService.getRequirements(selectedProjectId, buildQuery(pageInfo.nextCursor));
+      if (request !== latestRequest.current) return;
+      setRequirements(prev => [...prev, ...(response.requirements || [])]);
+      setPageInfo(response.pageInfo);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more requirements');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const openRequirement = (requirement: Requirement) => {
+    setSelectedRequirement(requirement);
+    setEditForm({
+      status: requirement.status,
+      assignee: requirement.assignee || '',
+      notes: requirement.notes || ''
+    });
+    setSaveError('');
+  };
+
+  const saveRequirement = async () => {
+    if (!selectedRequirement) return;
+
+    try {
+      setSaving(true);
+      setSaveError('');
+      const response = await APIService.updateRequirement(String(selectedRequirement.id), editForm);
+      const updated: Requirement = response.requirement;
+
+      setRequirements(prev => prev.map(req => req.id === updated.id ? updated : req));
+      setFacets(prev => ({
+        ...prev,
+        status: shiftCount(prev.status, selectedRequirement.status, updated.status),
+        assignee: shiftCount(prev.assignee, selectedRequirement.assignee, updated.assignee)
+      }));
+      setSelectedRequirement(updated);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save requirement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isFiltered = Boolean(debouncedSearch) ||
+    [statusFilter, priorityFilter, categoryFilter, assigneeFilter].some(filter => filter !== 'all');
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -111,14 +236,13 @@ const RequirementsChecklist: React.FC = () => {
     }
   };
 
-  const statusCounts = requirements.reduce((acc, req) => {
-    acc[req.status] = (acc[req.status] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+  // Report-wide counts; these don't change with the filters
+  const statusCounts = facets.status;
+  const totalRequirements = Object.keys(statusCounts).reduce((sum, status) => sum + statusCounts[status], 0);
 
-  const overallProgress = Math.round(
-    ((statusCounts.compliant || 0) / requirements.length) * 100
-  );
+  const overallProgress = totalRequirements > 0
+    ? Math.round(((statusCounts.compliant || 0) / totalRequirements) * 100)
+    : 0;
 
   return (
     <Layout title="Requirements Checklist">
@@ -130,7 +254,7 @@ const RequirementsChecklist: React.FC = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Total Requirements</p>
-                  <p className="text-2xl font-bold">{requirements.length}</p>
+                  <p className="text-2xl font-bold">{totalRequirements}</p>
                 </div>
                 <CheckCircle className="h-8 w-8 text-blue-500" />
               </div>
@@ -188,7 +312,7 @@ const RequirementsChecklist: React.FC = () => {
             <CardTitle>Select QC Report</CardTitle>
           </CardHeader>
           <CardContent>
-            <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+            <Select value={selectedProjectId} onValueChange={selectProject}>
               <SelectTrigger className="w-full">
                 <SelectValue placeholder="Choose a report to check requirements" />
               </SelectTrigger>
@@ -209,8 +333,8 @@ const RequirementsChecklist: React.FC = () => {
             <CardTitle>Requirements Analysis</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="flex flex-col md:flex-row gap-4 mb-6">
-              <div className="relative flex-1">
+            <div className="flex flex-col md:flex-row flex-wrap gap-4 mb-6">
+              <div className="relative flex-1 min-w-[16rem]">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                 <Input
                   placeholder="Search requirements..."
@@ -226,10 +350,11 @@ const RequirementsChecklist: React.FC = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value="compliant">Compliant</SelectItem>
-                  <SelectItem value="non-compliant">Non-Compliant</SelectItem>
-                  <SelectItem value="partial">Partial</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
+                  {REQUIREMENT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {status} ({facets.status[status] || 0})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               
@@ -239,10 +364,50 @@ const RequirementsChecklist: React.FC = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Priorities</SelectItem>
-                  <SelectItem value="critical">Critical</SelectItem>
-                  <SelectItem value="high">High</SelectItem>
-                  <SelectItem value="medium">Medium</SelectItem>
-                  <SelectItem value="low">Low</SelectItem>
+                  {[...PRIORITY_LEVELS].reverse().map((priority) => (
+                    <SelectItem key={priority} value={priority}>
+                      {priority} ({facets.priority[priority] || 0})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Filter by category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Categories</SelectItem>
+                  {Object.keys(facets.category).sort().map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {category} ({facets.category[category]})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Filter by assignee" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Assignees</SelectItem>
+                  {Object.keys(facets.assignee).sort().map((assignee) => (
+                    <SelectItem key={assignee} value={assignee}>
+                      {assignee} ({facets.assignee[assignee]})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={sortOption} onValueChange={setSortOption}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(SORT_OPTIONS).map((key) => (
+                    <SelectItem key={key} value={key}>{SORT_OPTIONS[key].label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -263,9 +428,15 @@ const RequirementsChecklist: React.FC = () => {
               <div className="text-center py-8">
                 <p className="text-gray-500">Please select a report to check requirements</p>
               </div>
+            ) : requirements.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">
+                  {isFiltered ? 'No requirements match the current filters' : 'No requirements found for this report'}
+                </p>
+              </div>
             ) : (
               <div className="space-y-4">
-                {filteredRequirements.map((requirement) => (
+                {requirements.map((requirement) => (
                 <div key={requirement.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
@@ -297,7 +468,7 @@ const RequirementsChecklist: React.FC = () => {
                             <Button 
                               variant="outline" 
                               size="sm"
-                              onClick={() => setSelectedRequirement(requirement)}
+                              onClick={() => openRequirement(requirement)}
                             >
                               <Eye className="h-4 w-4 mr-1" />
                               Details
@@ -322,10 +493,28 @@ const RequirementsChecklist: React.FC = () => {
                                       <div>
                                         <label className="text-sm font-medium">Status</label>
                                         <div className="flex items-center space-x-2 mt-1">
-                                          {getStatusIcon(selectedRequirement.status)}
-                                          <Badge className={getStatusColor(selectedRequirement.status)}>
-                                            {selectedRequirement.status}
-                                          </Badge>
+                                          {getStatusIcon(editForm.status || selectedRequirement.status)}
+                                          <Select
+                                            value={editForm.status}
+                                            onValueChange={(value: Requirement['status']) => setEditForm(prev => ({ ...prev, status: value }))}
+                                            disabled={!can('requirement:update')}
+                                          >
+                                            <SelectTrigger className="w-40">
+                                              <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                              {REQUIREMENT_STATUSES.map((status) => (
+                                                <SelectItem
+                                                  key={status}
+                                                  value={status}
+                                                  // Final verdicts are set and reopened by QA managers
+                                                  disabled={changesFinalStatus(selectedRequirement.status, status) && !can('requirement:finalize')}
+                                                >
+                                                  {status}
+                                                </SelectItem>
+                                              ))}
+                                            </SelectContent>
+                                          </Select>
                                         </div>
                                       </div>
                                       <div>
@@ -343,6 +532,17 @@ const RequirementsChecklist: React.FC = () => {
                                       <div>
                                         <label className="text-sm font-medium">Section</label>
                                         <p className="text-sm mt-1">{selectedRequirement.section || 'N/A'}</p>
+                                        {selectedRequirement.sourceDocument && (
+                                          <Button
+                                            variant="link"
+                                            size="sm"
+                                            className="px-0"
+                                            onClick={() => navigate(sourceLink(selectedProjectId, selectedRequirement))}
+                                          >
+                                            <FileText className="w-4 h-4 mr-1" />
+                                            View source{selectedRequirement.sourcePage ? `, page ${selectedRequirement.sourcePage}` : ''}
+                                          </Button>
+                                        )}
                                       </div>
                                     </div>
                                     
@@ -350,6 +550,44 @@ const RequirementsChecklist: React.FC = () => {
                                       <label className="text-sm font-medium">Description</label>
                                       <p className="text-sm mt-1">{selectedRequirement.description}</p>
                                     </div>
+
+                                    <div>
+                                      <label className="text-sm font-medium">Assignee</label>
+                                      <Input
+                                        value={editForm.assignee || ''}
+                                        onChange={(e) => setEditForm(prev => ({ ...prev, assignee: e.target.value }))}
+                                        placeholder="Unassigned"
+                                        className="mt-1"
+                                        disabled={!can('requirement:update')}
+                                      />
+                                    </div>
+
+                                    <div>
+                                      <label className="text-sm font-medium">Notes</label>
+                                      <Textarea
+                                        value={editForm.notes || ''}
+                                        onChange={(e) => setEditForm(prev => ({ ...prev, notes: e.target.value }))}
+                                        placeholder="Add review notes"
+                                        className="mt-1"
+                                        rows={3}
+                                        disabled={!can('requirement:update')}
+                                      />
+                                    </div>
+
+                                    {saveError && (
+                                      <Alert variant="destructive">
+                                        <AlertCircle className="h-4 w-4" />
+                                        <AlertDescription>{saveError}</AlertDescription>
+                                      </Alert>
+                                    )}
+
+                                    {can('requirement:update') && (
+                                      <div className="flex justify-end">
+                                        <Button onClick={saveRequirement} disabled={saving}>
+                                          {saving ? 'Saving...' : 'Save Changes'}
+                                        </Button>
+                                      </div>
+                                    )}
                                   </TabsContent>
                                   
                                   <TabsContent value="evidence" className="space-y-4">
@@ -409,13 +647,24 @@ const RequirementsChecklist: React.FC = () => {
                   </div>
                 </div>
                 ))}
+
+                <div className="flex items-center justify-between pt-2">
+                  <p className="text-sm text-gray-500">
+                    Showing {requirements.length} of {pageInfo.total} requirements
+                  </p>
+                  {pageInfo.nextCursor && (
+                    <Button variant="outline" onClick={loadMoreRequirements} disabled={loadingMore}>
+                      {loadingMore ? 'Loading...' : 'Load More'}
+                    </Button>
+                  )}
+                </div>
               </div>
             )}
           </CardContent>
         </Card>
 
         {/* Next Steps Actions */}
-        {!loading && selectedProjectId && requirements.length > 0 && (
+        {!loading && selectedProjectId && totalRequirements > 0 && (
           <Card className="bg-gradient-to-r from-blue-50 to-green-50 border-blue-200">
             <CardHeader>
               <CardTitle className="flex items-center">
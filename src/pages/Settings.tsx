@@ -0,0 +1,410 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Layout from '../components/Layout/Layout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import { Badge } from '../../components/ui/badge';
+import { Alert, AlertDescription } from '../../components/ui/alert';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '../../components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { AlertCircle, Bot, Copy, KeyRound, Plus, RotateCw, Trash2 } from 'lucide-react';
+import { APIService } from '../utils/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { API_TOKEN_SCOPES, USER_ROLES, type ApiTokenScope, type UserRole } from '../utils/constants';
+import { ROLE_LABELS, SCOPE_LABELS } from '../utils/permissions';
+import type { ApiToken, ApiTokenInput, CreatedApiToken, ServiceAccount } from '../types';
+
+// Lifetimes offered for new tokens; 'never' leaves expiresInDays out
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' }
+];
+
+interface TokenFormProps {
+  busy: boolean;
+  onCreate: (input: ApiTokenInput) => Promise<boolean>;
+}
+
+// Name, lifetime and scopes of a new token
+const TokenForm: React.FC<TokenFormProps> = ({ busy, onCreate }) => {
+  const [name, setName] = useState('');
+  const [expiry, setExpiry] = useState('90');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['projects:read']);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(candidate => candidate !== scope));
+  };
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const created = await onCreate({
+      name: name.trim(),
+      scopes,
+      expiresInDays: expiry === 'never' ? undefined : Number(expiry)
+    });
+    if (created) {
+      setName('');
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Input
+          placeholder="Token name, e.g. CI upload"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="max-w-xs"
+        />
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={busy || !name.trim() || scopes.length === 0}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Token
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {API_TOKEN_SCOPES.map((scope) => (
+          <label key={scope} className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={scopes.includes(scope)}
+              onChange={(e) => toggleScope(scope, e.target.checked)}
+            />
+            <span className="font-mono text-xs">{scope}</span>
+            <span className="text-gray-500">{SCOPE_LABELS[scope]}</span>
+          </label>
+        ))}
+      </div>
+    </form>
+  );
+};
+
+interface TokenTableProps {
+  tokens: ApiToken[];
+  busyId: string | null;
+  onRotate: (token: ApiToken) => void;
+  onRevoke: (token: ApiToken) => void;
+}
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleDateString() : '—';
+
+const TokenTable: React.FC<TokenTableProps> = ({ tokens, busyId, onRotate, onRevoke }) => {
+  if (tokens.length === 0) {
+    return <p className="text-sm text-gray-500">No tokens yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Token</TableHead>
+          <TableHead>Scopes</TableHead>
+          <TableHead>Created</TableHead>
+          <TableHead>Last used</TableHead>
+          <TableHead>Expires</TableHead>
+          <TableHead className="w-24"></TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {tokens.map((token) => (
+          <TableRow key={token.id}>
+            <TableCell className="font-medium">{token.name}</TableCell>
+            <TableCell className="font-mono text-xs">{token.prefix}…</TableCell>
+            <TableCell>
+              <div className="flex flex-wrap gap-1">
+                {token.scopes.map((scope) => (
+                  <Badge key={scope} variant="secondary" className="font-mono text-xs">{scope}</Badge>
+                ))}
+              </div>
+            </TableCell>
+            <TableCell>{formatDate(token.createdAt)}</TableCell>
+            <TableCell>{token.lastUsedAt ? formatDate(token.lastUsedAt) : 'Never'}</TableCell>
+            <TableCell>{token.expiresAt ? formatDate(token.expiresAt) : 'Never'}</TableCell>
+            <TableCell>
+              <div className="flex">
+                <Button variant="ghost" size="sm" onClick={() => onRotate(token)} disabled={busyId === token.id} title="Rotate">
+                  <RotateCw className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onRevoke(token)} disabled={busyId === token.id} title="Revoke">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+const Settings: React.FC = () => {
+  const { can } = useAuth();
+  const canManageAccounts = can('users:manage');
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [serviceAccounts, setServiceAccounts] = useState<ServiceAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  // The secret of the token just created or rotated; it can't be fetched again
+  const [revealed, setRevealed] = useState<CreatedApiToken | null>(null);
+  const [newAccount, setNewAccount] = useState<{ name: string; role: UserRole }>({ name: '', role: 'qa-reviewer' });
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const [tokenResponse, accountResponse] = await Promise.all([
+        APIService.getApiTokens(),
+        canManageAccounts ? APIService.getServiceAccounts() : Promise.resolve({ serviceAccounts: [] })
+      ]);
+      setTokens(tokenResponse.tokens || []);
+      setServiceAccounts(accountResponse.serviceAccounts || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API tokens');
+    } finally {
+      setLoading(false);
+    }
+  }, [canManageAccounts]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  // Runs a token or account action, showing its error; returns whether it succeeded
+  const run = async (id: string, action: () => Promise<void>, failure: string): Promise<boolean> => {
+    try {
+      setBusyId(id);
+      setError('');
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const withoutSecret = ({ token, ...apiToken }: CreatedApiToken): ApiToken => apiToken;
+
+  const replaceAccountTokens = (accountId: string, update: (tokens: ApiToken[]) => ApiToken[]) => {
+    setServiceAccounts(prev => prev.map(account => account.id === accountId ? { ...account, tokens: update(account.tokens) } : account));
+  };
+
+  // Personal tokens
+
+  const createToken = (input: ApiTokenInput) => run('personal', async () => {
+    const response = await APIService.createApiToken(input);
+    setRevealed(response.token);
+    setTokens(prev => [withoutSecret(response.token), ...prev]);
+  }, 'Failed to create the token');
+
+  const rotateToken = (token: ApiToken) => {
+    if (!window.confirm(`Rotate "${token.name}"? The current token stops working immediately.`)) return;
+    run(token.id, async () => {
+      const response = await APIService.rotateApiToken(token.id);
+      setRevealed(response.token);
+      setTokens(prev => [withoutSecret(response.token), ...prev.filter(candidate => candidate.id !== token.id)]);
+    }, 'Failed to rotate the token');
+  };
+
+  const revokeToken = (token: ApiToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Anything using it loses access.`)) return;
+    run(token.id, async () => {
+      await APIService.revokeApiToken(token.id);
+      setTokens(prev => prev.filter(candidate => candidate.id !== token.id));
+    }, 'Failed to revoke the token');
+  };
+
+  // Service accounts
+
+  const createServiceAccount = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newAccount.name.trim()) return;
+
+    const created = await run('new-account', async () => {
+      const response = await APIService.createServiceAccount({ name: newAccount.name.trim(), role: newAccount.role });
+      setServiceAccounts(prev => [...prev, response.serviceAccount]);
+    }, 'Failed to create the service account');
+    if (created) {
+      setNewAccount(prev => ({ ...prev, name: '' }));
+    }
+  };
+
+  const deleteServiceAccount = (account: ServiceAccount) => {
+    if (!window.confirm(`Delete the service account "${account.name}" and revoke its tokens?`)) return;
+    run(account.id, async () => {
+      await APIService.deleteServiceAccount(account.id);
+      setServiceAccounts(prev => prev.filter(candidate => candidate.id !== account.id));
+    }, 'Failed to delete the service account');
+  };
+
+  const createAccountToken = (account: ServiceAccount, input: ApiTokenInput) => run(account.id, async () => {
+    const response = await APIService.createServiceAccountToken(account.id, input);
+    setRevealed(response.token);
+    replaceAccountTokens(account.id, prev => [withoutSecret(response.token), ...prev]);
+  }, 'Failed to create the token');
+
+  const rotateAccountToken = (account: ServiceAccount, token: ApiToken) => {
+    if (!window.confirm(`Rotate "${token.name}"? The current token stops working immediately.`)) return;
+    run(token.id, async () => {
+      const response = await APIService.rotateServiceAccountToken(account.id, token.id);
+      setRevealed(response.token);
+      replaceAccountTokens(account.id, prev => [withoutSecret(response.token), ...prev.filter(candidate => candidate.id !== token.id)]);
+    }, 'Failed to rotate the token');
+  };
+
+  const revokeAccountToken = (account: ServiceAccount, token: ApiToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Anything using it loses access.`)) return;
+    run(token.id, async () => {
+      await APIService.revokeServiceAccountToken(account.id, token.id);
+      replaceAccountTokens(account.id, prev => prev.filter(candidate => candidate.id !== token.id));
+    }, 'Failed to revoke the token');
+  };
+
+  return (
+    <Layout title="Settings">
+      <div className="p-6 space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {revealed && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertDescription>
+              <div className="space-y-2">
+                <p>Copy the token for "{revealed.name}" now. It won't be shown again.</p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 break-all rounded bg-gray-100 px-2 py-1 text-xs">{revealed.token}</code>
+                  <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(revealed.token)}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setRevealed(null)}>Done</Button>
+                </div>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Personal tokens */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Personal API tokens</CardTitle>
+            <CardDescription>
+              Tokens act as you, limited to the scopes you choose. Send one in the Authorization header
+              as <code className="text-xs">Bearer qcr_…</code>. Managing tokens, users and workspaces always needs a signed-in user.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <TokenForm busy={busyId === 'personal'} onCreate={createToken} />
+            {loading ? (
+              <div className="animate-pulse space-y-2">
+                {[1, 2].map((i) => (
+                  <div key={i} className="h-4 bg-gray-200 rounded w-full"></div>
+                ))}
+              </div>
+            ) : (
+              <TokenTable tokens={tokens} busyId={busyId} onRotate={rotateToken} onRevoke={revokeToken} />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Service accounts */}
+        {canManageAccounts && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Service accounts</CardTitle>
+              <CardDescription>
+                Non-human users for pipelines, with a role in this workspace. Their tokens keep working when the person who created them leaves.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <form onSubmit={createServiceAccount} className="flex flex-wrap gap-2">
+                <Input
+                  placeholder="Service account name"
+                  value={newAccount.name}
+                  onChange={(e) => setNewAccount(prev => ({ ...prev, name: e.target.value }))}
+                  className="max-w-xs"
+                />
+                <Select
+                  value={newAccount.role}
+                  onValueChange={(value: UserRole) => setNewAccount(prev => ({ ...prev, role: value }))}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={busyId === 'new-account' || !newAccount.name.trim()}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Service Account
+                </Button>
+              </form>
+
+              {!loading && serviceAccounts.length === 0 && (
+                <div className="text-center py-8">
+                  <Bot className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No service accounts</h3>
+                  <p className="mt-1 text-sm text-gray-500">Add one to give a pipeline its own identity in this workspace.</p>
+                </div>
+              )}
+
+              {serviceAccounts.map((account) => (
+                <div key={account.id} className="border rounded-lg p-4 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Bot className="h-5 w-5 text-gray-500" />
+                      <span className="font-medium">{account.name}</span>
+                      <Badge variant="outline">{ROLE_LABELS[account.role]}</Badge>
+                      {account.createdBy && (
+                        <span className="text-sm text-gray-500">added by {account.createdBy} on {formatDate(account.createdAt)}</span>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteServiceAccount(account)}
+                      disabled={busyId === account.id}
+                      title="Delete service account"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <TokenForm busy={busyId === account.id} onCreate={(input) => createAccountToken(account, input)} />
+                  <TokenTable
+                    tokens={account.tokens}
+                    busyId={busyId}
+                    onRotate={(token) => rotateAccountToken(account, token)}
+                    onRevoke={(token) => revokeAccountToken(account, token)}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,293 @@
+import React, { useState, useEffect } from 'react';
+import Layout from '../components/Layout/Layout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import { Badge } from '../../components/ui/badge';
+import { Alert, AlertDescription } from '../../components/ui/alert';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '../../components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { AlertCircle, Mail, UserCheck, UserX, Users } from 'lucide-react';
+import { APIService } from '../utils/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { USER_ROLES, type AccountStatus, type UserRole } from '../utils/constants';
+import { ROLE_LABELS, ROLE_TIERS, permissionsFor } from '../utils/permissions';
+import type { TeamMember } from '../types';
+
+const STATUS_BADGES: Record<AccountStatus, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  active: { label: 'Active', variant: 'default' },
+  invited: { label: 'Invited', variant: 'secondary' },
+  unverified: { label: 'Email not verified', variant: 'outline' },
+  deactivated: { label: 'Deactivated', variant: 'destructive' }
+};
+
+const Team: React.FC = () => {
+  const { user, refreshProfile } = useAuth();
+  const { activeWorkspace } = useWorkspace();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [invitation, setInvitation] = useState<{ email: string; name: string; role: UserRole }>({ email: '', name: '', role: 'qa-reviewer' });
+
+  // The team is the active workspace's
+  const workspaceId = activeWorkspace?.id;
+  useEffect(() => {
+    loadTeam();
+  }, [workspaceId]);
+
+  const loadTeam = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await APIService.getTeam();
+      setMembers(response.users || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the team');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeRole = async (member: TeamMember, role: UserRole) => {
+    if (role === member.role) return;
+
+    try {
+      setSavingId(member.id);
+      setError('');
+      const response = await APIService.updateUserRole(member.id, role);
+      setMembers(prev => prev.map(candidate => candidate.id === member.id ? response.user : candidate));
+      // Demoting yourself takes effect on the sidebar and buttons straight away
+      if (member.email === user?.email) {
+        await refreshProfile();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change the role');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const replaceMember = (updated: TeamMember) => {
+    setMembers(prev => prev.some(candidate => candidate.id === updated.id)
+      ? prev.map(candidate => candidate.id === updated.id ? updated : candidate)
+      : [...prev, updated]);
+  };
+
+  const invite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!invitation.email.trim()) return;
+
+    try {
+      setSavingId('invite');
+      setError('');
+      setNotice('');
+      const response = await APIService.inviteUser({
+        email: invitation.email,
+        name: invitation.name.trim() || undefined,
+        role: invitation.role
+      });
+      replaceMember(response.user);
+      setNotice(`Invitation sent to ${response.user.email}`);
+      setInvitation(prev => ({ ...prev, email: '', name: '' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the invitation');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const setDeactivated = async (member: TeamMember, deactivated: boolean) => {
+    if (deactivated && !window.confirm(`Deactivate ${member.name || member.email}? They lose access to this workspace until reactivated.`)) return;
+
+    try {
+      setSavingId(member.id);
+      setError('');
+      setNotice('');
+      const response = deactivated
+        ? await APIService.deactivateUser(member.id)
+        : await APIService.reactivateUser(member.id);
+      replaceMember(response.user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${deactivated ? 'deactivate' : 'reactivate'} the user`);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Layout title="Team">
+      <div className="p-6 space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {notice && (
+          <Alert>
+            <Mail className="h-4 w-4" />
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* What each role may do */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Roles</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {USER_ROLES.map((role) => (
+                <div key={role} className="border rounded-lg p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-medium">{ROLE_LABELS[role]}</span>
+                    <Badge variant="outline">{ROLE_TIERS[role]}</Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {permissionsFor(role).map((permission) => (
+                      <Badge key={permission} variant="secondary" className="font-mono text-xs">{permission}</Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Invite */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite a colleague</CardTitle>
+            <CardDescription>They get an email with a link to choose a password and join this workspace with the selected role.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={invite} className="flex flex-wrap gap-2">
+              <Input
+                type="email"
+                placeholder="colleague@example.com"
+                value={invitation.email}
+                onChange={(e) => setInvitation(prev => ({ ...prev, email: e.target.value }))}
+                className="max-w-xs"
+              />
+              <Input
+                placeholder="Name (optional)"
+                value={invitation.name}
+                onChange={(e) => setInvitation(prev => ({ ...prev, name: e.target.value }))}
+                className="max-w-xs"
+              />
+              <Select
+                value={invitation.role}
+                onValueChange={(value: UserRole) => setInvitation(prev => ({ ...prev, role: value }))}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={savingId === 'invite' || !invitation.email.trim()}>
+                <Mail className="mr-2 h-4 w-4" />
+                Invite
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>Roles and deactivation apply to {activeWorkspace?.name || 'this workspace'} only.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="animate-pulse space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <div key={i} className="h-4 bg-gray-200 rounded w-full"></div>
+                ))}
+              </div>
+            ) : members.length === 0 ? (
+              <div className="text-center py-12">
+                <Users className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">No team members yet</h3>
+                <p className="mt-1 text-sm text-gray-500">People appear here once they are invited or join the workspace.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Joined</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead className="w-24"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium">{member.name || '—'}</TableCell>
+                      <TableCell>{member.email}</TableCell>
+                      <TableCell>{new Date(member.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGES[member.status].variant}>{STATUS_BADGES[member.status].label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={member.role}
+                          onValueChange={(value: UserRole) => changeRole(member, value)}
+                          disabled={savingId === member.id}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {USER_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {member.status === 'deactivated' ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeactivated(member, false)}
+                            disabled={savingId === member.id}
+                            title="Reactivate"
+                          >
+                            <UserCheck className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeactivated(member, true)}
+                            disabled={savingId === member.id || member.email === user?.email}
+                            title="Deactivate"
+                          >
+                            <UserX className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default Team;
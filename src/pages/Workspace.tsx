@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Layout from '../components/Layout/Layout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import { Badge } from '../../components/ui/badge';
+import { Alert, AlertDescription } from '../../components/ui/alert';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '../../components/ui/table';
+import { AlertCircle, Building2, Mail, Plus, Trash2, UserMinus } from 'lucide-react';
+import { APIService } from '../utils/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { ROLE_LABELS } from '../utils/permissions';
+import type { WorkspaceMember, WorkspaceInvitation } from '../types';
+
+const Workspace: React.FC = () => {
+  const { user, can } = useAuth();
+  const { activeWorkspace, refresh, switchWorkspace } = useWorkspace();
+  const canManage = can('workspace:manage');
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [error, setError] = useState('');
+
+  const workspaceId = activeWorkspace?.id;
+
+  const loadWorkspace = useCallback(async (id: string) => {
+    try {
+      setLoading(true);
+      setError('');
+      const [memberResponse, invitationResponse] = await Promise.all([
+        APIService.getWorkspaceMembers(id),
+        canManage ? APIService.getWorkspaceInvitations(id) : Promise.resolve({ invitations: [] })
+      ]);
+      setMembers(memberResponse.members || []);
+      setInvitations(invitationResponse.invitations || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the workspace');
+    } finally {
+      setLoading(false);
+    }
+  }, [canManage]);
+
+  useEffect(() => {
+    if (workspaceId) {
+      loadWorkspace(workspaceId);
+    }
+  }, [workspaceId, loadWorkspace]);
+
+  const removeMember = async (member: WorkspaceMember) => {
+    if (!workspaceId) return;
+    if (!window.confirm(`Remove ${member.name || member.email} from ${activeWorkspace?.name}?`)) return;
+
+    try {
+      setBusyId(member.id);
+      setError('');
+      await APIService.removeWorkspaceMember(workspaceId, member.id);
+      setMembers(prev => prev.filter(candidate => candidate.id !== member.id));
+      // Leaving the workspace yourself moves you to another one
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove the member');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const invite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!workspaceId || !inviteEmail.trim()) return;
+
+    try {
+      setBusyId('invite');
+      setError('');
+      const response = await APIService.inviteToWorkspace(workspaceId, inviteEmail);
+      setInvitations(prev => [response.invitation, ...prev.filter(candidate => candidate.id !== response.invitation.id)]);
+      setInviteEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revoke = async (invitation: WorkspaceInvitation) => {
+    if (!workspaceId) return;
+
+    try {
+      setBusyId(invitation.id);
+      setError('');
+      await APIService.revokeInvitation(workspaceId, invitation.id);
+      setInvitations(prev => prev.filter(candidate => candidate.id !== invitation.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke the invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const createWorkspace = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newWorkspaceName.trim()) return;
+
+    try {
+      setBusyId('create');
+      setError('');
+      const response = await APIService.createWorkspace(newWorkspaceName);
+      setNewWorkspaceName('');
+      await refresh();
+      switchWorkspace(response.workspace.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the workspace');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Layout title="Workspace">
+      <div className="p-6 space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Building2 className="mr-2 h-5 w-5" />
+              {activeWorkspace?.name || 'Workspace'}
+            </CardTitle>
+            <CardDescription>Members share this workspace's projects, documents and reports.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="animate-pulse space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <div key={i} className="h-4 bg-gray-200 rounded w-full"></div>
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Joined</TableHead>
+                    {canManage && <TableHead className="w-24"></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium">
+                        {member.name || '—'}
+                        {member.email === user?.email && <Badge variant="secondary" className="ml-2">You</Badge>}
+                      </TableCell>
+                      <TableCell>{member.email}</TableCell>
+                      <TableCell>{ROLE_LABELS[member.role]}</TableCell>
+                      <TableCell>{new Date(member.joinedAt).toLocaleDateString()}</TableCell>
+                      {canManage && (
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeMember(member)}
+                            disabled={busyId === member.id || members.length <= 1}
+                            title="Remove from workspace"
+                          >
+                            <UserMinus className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {canManage && (
+          <>
+            {/* Invitations */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Invitations</CardTitle>
+                <CardDescription>Invited colleagues join from the workspace menu after signing in with this email.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <form onSubmit={invite} className="flex space-x-2">
+                  <Input
+                    type="email"
+                    placeholder="colleague@example.com"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    className="max-w-sm"
+                  />
+                  <Button type="submit" disabled={busyId === 'invite' || !inviteEmail.trim()}>
+                    <Mail className="mr-2 h-4 w-4" />
+                    Invite
+                  </Button>
+                </form>
+
+                {invitations.length === 0 ? (
+                  <p className="text-sm text-gray-500">No pending invitations.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Invited by</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead className="w-24"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invitations.map((invitation) => (
+                        <TableRow key={invitation.id}>
+                          <TableCell className="font-medium">{invitation.email}</TableCell>
+                          <TableCell>{invitation.invitedBy || '—'}</TableCell>
+                          <TableCell>{new Date(invitation.expiresAt).toLocaleDateString()}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => revoke(invitation)}
+                              disabled={busyId === invitation.id}
+                              title="Revoke invitation"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {/* New workspace */}
+        <Card>
+          <CardHeader>
+            <CardTitle>New workspace</CardTitle>
+            <CardDescription>Start an empty workspace for another team or engagement; you become its first member and manage it.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={createWorkspace} className="flex space-x-2">
+              <Input
+                placeholder="Workspace name"
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+                className="max-w-sm"
+              />
+              <Button type="submit" disabled={busyId === 'create' || !newWorkspaceName.trim()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Create
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default Workspace;
@@ -1,4 +1,20 @@
-export interface Document {
+import type { UserRole, Permission, AccountStatus, ApiTokenScope, DocumentExtractionStatus, DocumentNodeType } from '../utils/constants';
+
+// What the document says about itself, read from its text when it's extracted (see
+// src/utils/extraction/metadata.ts) and editable afterwards. Dates are 'YYYY-MM-DD'.
+export interface DocumentMetadata {
+  // The title on the document, which may differ from its file name (Document.title)
+  documentTitle?: string;
+  owner?: string;
+  // The version number the document gives itself ('2.1'), not its upload version (Document.version)
+  documentVersion?: string;
+  // From when this version applies
+  effectiveDate?: string;
+  approvalDate?: string;
+  nextReviewDate?: string;
+}
+
+export interface Document extends DocumentMetadata {
   id: string;
   title: string;
   type: 'policy' | 'program';
@@ -6,6 +22,59 @@ export interface Document {
   uploadDate: string;
   size?: number;
   name?: string;
+  projectId?: string;
+  mimeType?: string;
+  // Text extraction (see src/utils/extraction); `content` holds the extracted text
+  extractionStatus?: DocumentExtractionStatus;
+  extractionError?: string;
+  pages?: DocumentPage[];
+  // Headings, clauses, lists and tables found in `content` (see src/utils/extraction/structure.ts)
+  structure?: DocumentNode[];
+  extractedAt?: string;
+  // Versions (see src/utils/document-versions.ts): SHA-256 of the file, the lineage shared by all
+  // versions of the document, this one's number, and whether it is the one currently in force
+  contentHash?: string;
+  lineageId?: string;
+  version?: number;
+  isCurrent?: boolean;
+  uploadedBy?: string;
+  uploaderName?: string;
+  // Such as 'Privacy notice': suggested on upload (see src/utils/document-classifier.ts) or set by hand
+  category?: string;
+}
+
+// Where one page's text sits in Document.content: content.slice(start, end)
+export interface DocumentPage {
+  number: number;
+  start: number;
+  end: number;
+  // Set when the page was scanned and its text read with OCR: the engine's confidence, 0-100
+  ocrConfidence?: number;
+}
+
+// One part of a document's structure. Headings and clauses contain what follows them up to the
+// next one of the same or a higher level; lists and tables have no children.
+export interface DocumentNode {
+  // Unique within the document: the clause number ('2.1') where there is one
+  id: string;
+  type: DocumentNodeType;
+  number?: string;
+  title: string;
+  level: number;
+  // Where the node sits in Document.content (content.slice(start, end)) and the pages it spans
+  start: number;
+  end: number;
+  page: number;
+  endPage: number;
+  children: DocumentNode[];
+  // Tables only: the cells of each row, empty ones included so columns line up
+  rows?: string[][];
+}
+
+// Time-limited link to a document's stored file
+export interface DocumentDownload {
+  url: string;
+  expiresAt?: string;
 }
 
 export interface Requirement {
@@ -16,8 +85,13 @@ export interface Requirement {
   category: string;
   priority: 'low' | 'medium' | 'high' | 'critical';
   status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'partial' | 'compliant' | 'non-compliant';
+  // Where the requirement comes from: a document of the project, the id of a node in its
+  // structure, and the exact text (Document.content.slice(sourceStart, sourceEnd)) and its page
   sourceDocument?: string;
   sourceSection?: string;
+  sourceStart?: number;
+  sourceEnd?: number;
+  sourcePage?: number;
   assignee?: string;
   dueDate?: string;
   notes?: string;
@@ -52,6 +126,330 @@ export interface Project {
   lastActivity: string;
   documentTypes?: string[];
   progress?: number;
+  // Workspace that owns the project (see Workspace below)
+  workspaceId?: string;
+}
+
+// Fields accepted when creating or updating records through DatabaseService
+export type ProjectInput = Pick<Project, 'name'> &
+  Partial<Pick<Project, 'description' | 'documentType' | 'assignee' | 'status'>>;
+
+export type ProjectUpdate = Partial<
+  Pick<Project, 'name' | 'description' | 'documentType' | 'assignee' | 'status' | 'compliance' | 'progress'>
+>;
+
+export type RequirementInput = Pick<Requirement, 'title'> &
+  Partial<Pick<Requirement, 'description' | 'category' | 'priority' | 'status' | 'confidence' | 'evidence' | 'gaps' | 'recommendations' | 'section' | 'assignee' | 'notes' | 'sourceDocument' | 'sourceSection' | 'sourceStart' | 'sourceEnd'>>;
+
+export type RequirementUpdate = Partial<RequirementInput>;
+
+// null clears a metadata field or the category
+export type DocumentUpdate = Partial<Pick<Document, 'title' | 'type'>> & {
+  [Field in keyof DocumentMetadata]?: DocumentMetadata[Field] | null;
+} & {
+  category?: string | null;
+};
+
+// Records an upload as the next version of a document of the same project
+export interface DocumentVersionInput {
+  // Any version of that document; the new one gets the next number and becomes current
+  versionOf?: string;
+  effectiveDate?: string;
+  // The category suggested on the upload page, or the one chosen there
+  category?: string;
+}
+
+// Starts a resumable upload on the API server, for files larger than one chunk
+export interface UploadSessionInput extends DocumentVersionInput {
+  projectId: string;
+  filename: string;
+  size: number;
+  mimeType?: string;
+  documentType?: string;
+}
+
+// A resumable upload in progress: the next chunk goes at `offset`
+export interface UploadSession {
+  id: string;
+  filename: string;
+  size: number;
+  offset: number;
+  chunkSize: number;
+  expiresAt: string;
+}
+
+export interface ActivityInput {
+  type: Activity['type'];
+  action: string;
+  target?: string;
+  title?: string;
+  description?: string;
+  projectId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// The only entry the browser may put on the audit trail itself: an AI run against a provider it
+// called directly, which the server never sees. Everything else is recorded by the request that does it.
+export interface ClientActivityInput {
+  type: 'analysis-complete';
+  projectId: string;
+  analysis: { kind: string; provider: string; model: string; framework?: string };
+}
+
+// A report leaving the app; it is fingerprinted for the audit trail before the download starts
+export interface ReportExportInput {
+  projectId: string;
+  filename: string;
+  format: string;
+  content: string;
+}
+
+// List queries: cursor pagination, multi-field sort and filters.
+// Filters take several values (matched with OR); different filters are ANDed.
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortOption<F extends string> {
+  field: F;
+  direction: SortDirection;
+}
+
+export interface ListQuery<F extends string> {
+  cursor?: string;
+  limit?: number;
+  sort?: SortOption<F>[];
+}
+
+export type ProjectSortField = 'name' | 'status' | 'assignee' | 'compliance' | 'progress' | 'createdAt' | 'lastActivity';
+
+export interface ProjectQuery extends ListQuery<ProjectSortField> {
+  search?: string;
+  status?: Project['status'][];
+  assignee?: string[];
+}
+
+export type RequirementSortField = 'title' | 'status' | 'priority' | 'category' | 'assignee' | 'confidence' | 'lastUpdated';
+
+export interface RequirementQuery extends ListQuery<RequirementSortField> {
+  search?: string;
+  status?: Requirement['status'][];
+  priority?: Requirement['priority'][];
+  category?: string[];
+  assignee?: string[];
+}
+
+export type ActivitySortField = 'timestamp' | 'type';
+
+export interface ActivityQuery extends ListQuery<ActivitySortField> {
+  type?: Activity['type'][];
+  projectId?: string;
+}
+
+export interface PageInfo {
+  // Pass back as `cursor` to fetch the next page; null on the last page
+  nextCursor: string | null;
+  // Rows matching the filters, across all pages
+  total: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  pageInfo: PageInfo;
+}
+
+// Row counts per distinct value, ignoring filters (used for filter options and summary cards)
+export type Facets<K extends string> = Record<K, Record<string, number>>;
+
+export type ProjectFacets = Facets<'status' | 'assignee'>;
+
+export type RequirementFacets = Facets<'status' | 'priority' | 'category' | 'assignee'>;
+
+export interface ProjectOverview {
+  facets: ProjectFacets;
+  averageCompliance: number;
+}
+
+// Signed-in user as the backend sees them, with what their role allows (see src/utils/permissions.ts)
+export interface UserProfile {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  permissions: Permission[];
+}
+
+export interface TeamMember {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  status: AccountStatus;
+  createdAt: string;
+}
+
+export interface UserRoleUpdate {
+  role: UserRole;
+}
+
+// Account lifecycle on the API server (see server/accounts.ts)
+export interface UserInvitationInput {
+  email: string;
+  name?: string;
+  role?: UserRole;
+}
+
+// What the invitation link shows before the invitee picks a password
+export interface AccountInvitation {
+  email: string;
+  name?: string;
+  invitedBy?: string;
+  expiresAt: string;
+}
+
+export interface InvitationAcceptance {
+  token: string;
+  password: string;
+  name?: string;
+}
+
+export interface PasswordReset {
+  token: string;
+  password: string;
+}
+
+// Automation: API tokens act as their owner, a user or a service account, within their scopes
+// (see server/api-tokens.ts). Only a hash of the token is stored.
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string; // Start of the token, to tell tokens apart
+  scopes: ApiTokenScope[];
+  ownerId: string;
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+}
+
+// The secret is only returned when the token is created or rotated
+export interface CreatedApiToken extends ApiToken {
+  token: string;
+}
+
+export interface ApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays?: number; // Never expires when omitted
+}
+
+// A non-human user for pipelines, belonging to the workspace it was created in
+export interface ServiceAccount {
+  id: string;
+  name: string;
+  role: UserRole;
+  workspaceId: string;
+  createdBy?: string;
+  createdAt: string;
+  tokens: ApiToken[];
+}
+
+export interface ServiceAccountInput {
+  name: string;
+  role?: UserRole;
+}
+
+// Organizations: a workspace owns projects and is shared by its members (see src/utils/workspaces.ts)
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  memberCount: number;
+  role: UserRole; // The signed-in user's role in this workspace
+}
+
+export interface WorkspaceMember {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  joinedAt: string;
+}
+
+// Pending invitation, accepted by signing in with the invited email address
+export interface WorkspaceInvitation {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  email: string;
+  invitedBy?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface WorkspaceInput {
+  name: string;
+}
+
+export interface WorkspaceInvitationInput {
+  email: string;
+}
+
+// Tamper-evident audit log (see src/utils/audit-chain.ts)
+export interface AuditLogEntry {
+  seq: number;
+  previousHash: string;
+  // SHA-256 of seq, previousHash and payload
+  hash: string;
+  // Canonical JSON of the recorded activity, exactly as hashed
+  payload: string;
+  recordedAt: string;
+  // Workspace the activity happened in; entries recorded since migration 18 also carry it in the payload
+  workspaceId?: string;
+}
+
+// Parsed form of AuditLogEntry.payload
+export interface AuditRecord {
+  activityId: string;
+  actor: { id: string; email?: string };
+  projectId?: string;
+  type: Activity['type'];
+  action: string;
+  target?: string;
+  title?: string;
+  description?: string;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+  workspaceId?: string;
+}
+
+export type AuditLogSortField = 'seq';
+
+export type AuditLogQuery = ListQuery<AuditLogSortField>;
+
+export interface AuditChainBreak {
+  seq: number;
+  reason: 'sequence-gap' | 'previous-hash-mismatch' | 'hash-mismatch' | 'workspace-mismatch';
+  detail: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  head: { seq: number; hash: string } | null;
+  breaks: AuditChainBreak[];
+  verifiedAt: string;
+}
+
+// Downloadable evidence: the chain, or one workspace's entries of it, with their verification and
+// a detached signature over the rest
+export interface AuditEvidence {
+  format: string;
+  exportedAt: string;
+  exportedBy: string;
+  // Set when the entries are one workspace's excerpt of the chain rather than all of it
+  workspaceId?: string;
+  genesisHash: string;
+  verification: AuditVerification;
+  entries: AuditLogEntry[];
+  signature: { algorithm: 'Ed25519'; publicKey: string; value: string } | null;
 }
 
 export interface ComplianceAnalysis {
@@ -70,9 +468,16 @@ export interface RequirementAnalysis {
   recommendations?: string[];
 }
 
+// One field of an audited record before and after a change; the missing side of a create or delete is omitted
+export interface ActivityChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
 export interface Activity {
   id: string;
-  type: 'created' | 'updated' | 'completed' | 'commented' | 'uploaded' | 'exported' | 'document-upload' | 'analysis-complete' | 'requirement-mapped' | 'report-generated' | 'project-created' | 'compliance-check' | 'annotation-added' | 'deadline-approaching';
+  type: 'created' | 'updated' | 'completed' | 'commented' | 'uploaded' | 'exported' | 'document-upload' | 'analysis-complete' | 'requirement-mapped' | 'report-generated' | 'project-created' | 'compliance-check' | 'annotation-added' | 'deadline-approaching' | 'deleted' | 'emailed';
   user: string;
   action: string;
   target: string;
@@ -83,12 +488,15 @@ export interface Activity {
   projectId?: string | number;
   reportId?: string;
   timestamp: string;
+  changes?: ActivityChange[];
+  // Unset for team-wide events such as role changes
+  workspaceId?: string;
 }
 
 export interface ChartData {
   name?: string;
   category?: string;
-  value: number;
+  value?: number;
   compliant?: number;
   nonCompliant?: number;
   partial?: number;
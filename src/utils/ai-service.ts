@@ -106,12 +106,13 @@ export class AIService {
     analysisType: 'gap-detection' | 'compliance-check' | 'recommendation' = 'gap-detection'
   ): Promise<AIAnalysisResult> {
     if (APP_CONSTANTS.DEMO_MODE) {
+      await this.recordAnalysis(projectId, analysisType, framework);
       return this.getMockAnalysis(framework, analysisType);
     }
 
     try {
       const prompt = this.buildAnalysisPrompt(documentContent, framework, analysisType);
-      const response = await this.callAIProvider(prompt, projectId);
+      const response = await this.callAIProvider(prompt, projectId, analysisType, framework);
       return this.parseAnalysisResponse(response);
     } catch (error) {
       console.error('AI Analysis error:', error);
@@ -143,12 +144,13 @@ export class AIService {
       const response = await this.getMockChatResponse(message, requirements, framework);
       history.push(response);
       this.conversationHistory.set(projectId, history);
+      await this.recordAnalysis(projectId, 'chat', framework);
       return response;
     }
 
     try {
       const contextualPrompt = this.buildContextualPrompt(message, history, requirements, framework);
-      const aiResponse = await this.callAIProvider(contextualPrompt, projectId);
+      const aiResponse = await this.callAIProvider(contextualPrompt, projectId, 'chat', framework);
       
       const assistantMessage: ChatMessage = {
         id: `msg-${Date.now()}-assistant`,
@@ -208,6 +210,7 @@ ${highGaps > 0 ? nonCompliantReqs
 
 Would you like me to provide specific remediation steps for any of these gaps?`;
 
+      await this.recordAnalysis(projectId, 'gap-detection', framework);
       return {
         id: `msg-${Date.now()}-assistant`,
         role: 'assistant',
@@ -285,6 +288,7 @@ ${requirement.recommendations?.length ?
 
 Would you like me to create a detailed implementation plan or help with documentation templates?`;
 
+      await this.recordAnalysis(projectId, 'recommendation', framework);
       return {
         id: `msg-${Date.now()}-assistant`,
         role: 'assistant',
@@ -371,7 +375,25 @@ User Question: ${message}
 Please provide a helpful, accurate response based on the context provided.`;
   }
 
-  private static async callAIProvider(prompt: string, projectId: string): Promise<string> {
+  // Put an AI run the server didn't see (demo mode, or a provider called from the browser) on the
+  // project's audit trail. Logged rather than thrown so a failed write doesn't discard a response
+  // the provider has already produced.
+  private static async recordAnalysis(projectId: string, kind: string, framework?: string): Promise<void> {
+    if (!projectId) {
+      return;
+    }
+    try {
+      await APIService.createActivity({
+        type: 'analysis-complete',
+        projectId,
+        analysis: { kind, provider: this.config.provider, model: this.config.model, framework }
+      });
+    } catch (error) {
+      console.error('Failed to record AI analysis activity:', error);
+    }
+  }
+
+  private static async callAIProvider(prompt: string, projectId: string, kind: string, framework?: string): Promise<string> {
     if (this.config.privacyMode && this.config.provider !== 'local') {
       console.warn('Privacy mode enabled but using cloud provider');
     }
@@ -385,18 +407,21 @@ Please provide a helpful, accurate response based on the context provided.`;
     try {
       // Use the modular provider manager
       const response = await aiProviderManager.generateResponse(prompt, { projectId });
+      await this.recordAnalysis(projectId, kind, framework);
       return response.content;
     } catch (error) {
       console.error('AI Provider error:', error);
       
-      // Fallback to API service if provider manager fails
+      // Fallback to API service if provider manager fails; the server records the run
       const response = await APIService.callAIProvider({
         provider: this.config.provider,
         model: this.config.model,
         prompt,
         temperature: this.config.temperature,
         maxTokens: this.config.maxTokens,
-        projectId
+        projectId,
+        analysisType: kind,
+        framework
       });
 
       return response.content;
@@ -0,0 +1,256 @@
+import { buildListSql, toPage, AUDIT_LOG_LIST_SQL } from './list-query'
+import { mapAuditLogRow } from './row-mappers'
+import type { QueryResult } from './aurora-service'
+import type {
+  AuditLogEntry,
+  AuditLogQuery,
+  AuditChainBreak,
+  AuditVerification,
+  AuditEvidence,
+  Page
+} from '../types'
+
+// Hash chain behind the audit_log table (and the demo store's in-memory copy).
+// Entry n stores the hash of entry n - 1, so changing, removing or reordering any entry
+// breaks every link after it. An entry's hash is the SHA-256 hex of "<seq>\n<previousHash>\n<payload>".
+// There is one chain for every workspace; each entry is filed under its activity's workspace
+// (migration 18), and the log can be read, verified and exported one workspace at a time.
+
+export const GENESIS_HASH = '0'.repeat(64)
+
+export const EVIDENCE_FORMAT = 'qc-reporter-audit-evidence/v1'
+
+type RunQuery = (sql: string, params?: any[]) => Promise<QueryResult>
+
+// JSON with object keys sorted at every level, so the same record always hashes the same
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    const fields = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+    return `{${fields.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => ('0' + byte.toString(16)).slice(-2))
+    .join('')
+}
+
+export const computeEntryHash = (seq: number, previousHash: string, payload: string): Promise<string> =>
+  sha256Hex(`${seq}\n${previousHash}\n${payload}`)
+
+// Payload for an activities row, as returned by the inserts with user_email joined in
+export const toAuditPayload = (row: any): string => canonicalJson({
+  activityId: row.id,
+  actor: { id: row.user_id, email: row.user_email || undefined },
+  projectId: row.project_id || undefined,
+  type: row.type,
+  action: row.action,
+  target: row.target || undefined,
+  title: row.title || undefined,
+  description: row.description || undefined,
+  metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : (row.metadata || {}),
+  createdAt: new Date(row.created_at).toISOString(),
+  workspaceId: row.workspace_id || undefined
+})
+
+// The entry that follows `previous` (null for the first entry)
+export const chainEntry = async (previous: AuditLogEntry | null, payload: string, workspaceId?: string): Promise<AuditLogEntry> => {
+  const seq = previous ? previous.seq + 1 : 1
+  const previousHash = previous ? previous.hash : GENESIS_HASH
+  return {
+    seq,
+    previousHash,
+    hash: await computeEntryHash(seq, previousHash, payload),
+    payload,
+    recordedAt: new Date().toISOString(),
+    workspaceId
+  }
+}
+
+// Chain a freshly inserted activities row onto audit_log. Reading the head and inserting happen
+// in one statement, with the hash computed by Postgres (the same formula as computeEntryHash),
+// so calls that interleave on a single connection can't fork the chain. Inside a transaction
+// the table lock also makes concurrent connections append one at a time.
+export const appendAuditEntry = async (query: RunQuery, activityRow: any): Promise<AuditLogEntry> => {
+  await query('LOCK TABLE audit_log IN SHARE ROW EXCLUSIVE MODE')
+  const result = await query(
+    `INSERT INTO audit_log (seq, payload, previous_hash, hash, workspace_id)
+     SELECT head.seq, $1::text, head.previous_hash,
+       encode(sha256(convert_to(head.seq::text || E'\\n' || head.previous_hash || E'\\n' || $1::text, 'UTF8')), 'hex'),
+       $3::uuid
+     FROM (
+       SELECT
+         COALESCE(MAX(seq), 0) + 1 AS seq,
+         COALESCE((SELECT hash FROM audit_log ORDER BY seq DESC LIMIT 1), $2::text) AS previous_hash
+       FROM audit_log
+     ) head
+     RETURNING *`,
+    [toAuditPayload(activityRow), GENESIS_HASH, activityRow.workspace_id || null]
+  )
+  return mapAuditLogRow(result.rows[0])
+}
+
+// Verification
+
+export interface AuditChainScope {
+  // Only this workspace's entries are counted and reported on; the rest of the chain is still
+  // walked, so their links are checked all the same
+  workspaceId?: string
+  // The entries are an excerpt of the chain, such as one workspace's evidence: missing entries
+  // aren't breaks, and links are only checked between entries that follow each other
+  excerpt?: boolean
+}
+
+// Workspace named in an entry's payload; entries recorded before migration 18 name none
+const recordedWorkspaceId = (payload: string): string | undefined => {
+  try {
+    return JSON.parse(payload).workspaceId
+  } catch {
+    return undefined
+  }
+}
+
+// Walks entries in seq order; feed it in batches to check logs too large to load at once
+export class AuditChainVerifier {
+  private previousSeq = 0
+  private previousHash = GENESIS_HASH
+  private checked = 0
+  private head: AuditVerification['head'] = null
+  private breaks: AuditChainBreak[] = []
+
+  constructor(private readonly scope: AuditChainScope = {}) {}
+
+  async add(entries: AuditLogEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const breaks: AuditChainBreak[] = []
+      const follows = entry.seq === this.previousSeq + 1
+      if (!follows && !this.scope.excerpt) {
+        breaks.push({
+          seq: entry.seq,
+          reason: 'sequence-gap',
+          detail: `Expected entry ${this.previousSeq + 1}; entries are missing or out of order`
+        })
+      }
+      if ((follows || !this.scope.excerpt) && entry.previousHash !== this.previousHash) {
+        breaks.push({
+          seq: entry.seq,
+          reason: 'previous-hash-mismatch',
+          detail: 'Does not link to the preceding entry'
+        })
+      }
+      if (await computeEntryHash(entry.seq, entry.previousHash, entry.payload) !== entry.hash) {
+        breaks.push({
+          seq: entry.seq,
+          reason: 'hash-mismatch',
+          detail: 'Content no longer matches its hash; the entry was altered after it was recorded'
+        })
+      }
+      const recorded = recordedWorkspaceId(entry.payload)
+      if (recorded !== undefined && recorded !== entry.workspaceId) {
+        breaks.push({
+          seq: entry.seq,
+          reason: 'workspace-mismatch',
+          detail: 'Filed under a different workspace than the one it was recorded in'
+        })
+      }
+
+      // Continue from the stored values so one tampered entry is reported once, not for every later one
+      this.previousSeq = entry.seq
+      this.previousHash = entry.hash
+      if (this.scope.workspaceId && entry.workspaceId !== this.scope.workspaceId) {
+        continue
+      }
+      this.breaks.push(...breaks)
+      this.checked++
+      this.head = { seq: entry.seq, hash: entry.hash }
+    }
+  }
+
+  result(): AuditVerification {
+    return {
+      valid: this.breaks.length === 0,
+      checked: this.checked,
+      head: this.head,
+      breaks: [...this.breaks],
+      verifiedAt: new Date().toISOString()
+    }
+  }
+}
+
+export const verifyAuditChain = async (entries: AuditLogEntry[], scope: AuditChainScope = {}): Promise<AuditVerification> => {
+  const verifier = new AuditChainVerifier(scope)
+  await verifier.add(entries)
+  return verifier.result()
+}
+
+const VERIFY_BATCH_SIZE = 1000
+
+// Verify the whole audit_log table, reading it in batches; with a workspace, only its entries are reported on
+export const verifyAuditLog = async (query: RunQuery, workspaceId?: string): Promise<AuditVerification> => {
+  const verifier = new AuditChainVerifier({ workspaceId })
+  let after = 0
+  for (;;) {
+    const result = await query(
+      'SELECT * FROM audit_log WHERE seq > $1 ORDER BY seq ASC LIMIT $2',
+      [after, VERIFY_BATCH_SIZE]
+    )
+    const entries = result.rows.map(mapAuditLogRow)
+    await verifier.add(entries)
+    if (entries.length < VERIFY_BATCH_SIZE) {
+      return verifier.result()
+    }
+    after = entries[entries.length - 1].seq
+  }
+}
+
+// Listing and export: one workspace's entries, or every entry when no workspace is given
+
+export const getAuditLogPage = async (query: RunQuery, listQuery: AuditLogQuery, workspaceId?: string): Promise<Page<AuditLogEntry>> => {
+  const list = buildListSql(AUDIT_LOG_LIST_SQL, listQuery, {
+    select: '*, seq AS id',
+    from: 'audit_log',
+    conditions: workspaceId ? ['workspace_id = $1'] : ['TRUE'],
+    params: workspaceId ? [workspaceId] : []
+  })
+  const result = await query(list.sql, list.params)
+  const count = await query(list.countSql, list.countParams)
+  return toPage(result.rows, count.rows[0].total, list, mapAuditLogRow)
+}
+
+export const getAllAuditLogEntries = async (query: RunQuery, workspaceId?: string): Promise<AuditLogEntry[]> => {
+  const result = workspaceId
+    ? await query('SELECT * FROM audit_log WHERE workspace_id = $1 ORDER BY seq ASC', [workspaceId])
+    : await query('SELECT * FROM audit_log ORDER BY seq ASC')
+  return result.rows.map(mapAuditLogRow)
+}
+
+// With a workspace, `entries` are its excerpt of the chain; check them with { excerpt: true }
+export const buildAuditEvidence = (
+  entries: AuditLogEntry[],
+  verification: AuditVerification,
+  exportedBy: string,
+  workspaceId?: string
+): AuditEvidence => ({
+  format: EVIDENCE_FORMAT,
+  exportedAt: new Date().toISOString(),
+  exportedBy,
+  workspaceId,
+  genesisHash: GENESIS_HASH,
+  verification,
+  entries,
+  signature: null
+})
+
+// The exact bytes an evidence signature covers: the document without its signature, canonicalised
+export const evidenceSigningInput = (evidence: AuditEvidence): string =>
+  canonicalJson({ ...evidence, signature: undefined })
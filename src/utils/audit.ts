@@ -0,0 +1,438 @@
+import { ROLE_LABELS } from './permissions'
+import type { Permission } from './constants'
+import type {
+  Project,
+  Requirement,
+  Document,
+  TeamMember,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  ApiToken,
+  ServiceAccount,
+  ActivityInput,
+  ActivityChange,
+  ClientActivityInput
+} from '../types'
+
+// Activity entries for the audit trail. The API server, AuroraService and the demo store
+// record every mutation through these builders so the feed reads the same on each backend.
+// The actor is the activity's user; metadata holds the entity and a field-level diff.
+// Storage adds `projectName` to metadata so entries stay readable after a project is deleted.
+
+export type AuditEntity = 'project' | 'requirement' | 'document' | 'report' | 'user' | 'workspace' | 'api-token'
+
+// Fields that are derived, change on every write or are too large to copy into each entry
+const UNAUDITED_FIELDS = ['id', 'createdAt', 'lastActivity', 'lastUpdated', 'uploadDate', 'content', 'pages', 'structure', 'extractedAt']
+
+// Empty strings and lists count as unset, so creates and deletes only list meaningful fields
+const normalize = (value: unknown) =>
+  value === '' || value === null || (Array.isArray(value) && value.length === 0) ? undefined : value
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+
+// Field-level before/after diff. Pass null for the side that doesn't exist (create or delete).
+export const diffChanges = (before: object | null, after: object | null): ActivityChange[] => {
+  const previous: Record<string, unknown> = { ...before }
+  const next: Record<string, unknown> = { ...after }
+  const fields = Object.keys(previous).concat(Object.keys(next).filter(field => !(field in previous)))
+
+  return fields
+    .filter(field => !UNAUDITED_FIELDS.includes(field) && !isSame(previous[field], next[field]))
+    .map(field => ({ field, before: normalize(previous[field]), after: normalize(next[field]) }))
+}
+
+const describeChanges = (changes: ActivityChange[]) =>
+  changes.length > 0 ? `Changed ${changes.map(change => change.field).join(', ')}` : 'No fields changed'
+
+interface AuditEventOptions {
+  type: ActivityInput['type']
+  action: string
+  entity: AuditEntity
+  entityId: string
+  target: string
+  title: string
+  description: string
+  projectId?: string
+  changes?: ActivityChange[]
+  details?: Record<string, unknown>
+}
+
+const auditEvent = (options: AuditEventOptions): ActivityInput => ({
+  type: options.type,
+  action: options.action,
+  target: options.target,
+  title: options.title,
+  description: options.description,
+  projectId: options.projectId,
+  metadata: {
+    entity: options.entity,
+    entityId: options.entityId,
+    ...(options.changes ? { changes: options.changes } : {}),
+    ...options.details
+  }
+})
+
+// Projects
+export const projectCreated = (project: Project): ActivityInput => auditEvent({
+  type: 'project-created',
+  action: 'created',
+  entity: 'project',
+  entityId: project.id,
+  target: project.name,
+  title: 'Project Created',
+  description: `Created project "${project.name}"`,
+  projectId: project.id,
+  changes: diffChanges(null, project)
+})
+
+export const projectUpdated = (before: Project, after: Project): ActivityInput => {
+  const changes = diffChanges(before, after)
+  const completed = before.status !== 'completed' && after.status === 'completed'
+  return auditEvent({
+    type: completed ? 'completed' : 'updated',
+    action: completed ? 'completed' : 'updated',
+    entity: 'project',
+    entityId: after.id,
+    target: after.name,
+    title: completed ? 'Project Completed' : 'Project Updated',
+    description: describeChanges(changes),
+    projectId: after.id,
+    changes
+  })
+}
+
+// Recorded before the delete, while the project can still be linked; the database clears the link afterwards
+export const projectDeleted = (project: Project): ActivityInput => auditEvent({
+  type: 'deleted',
+  action: 'deleted',
+  entity: 'project',
+  entityId: project.id,
+  target: project.name,
+  title: 'Project Deleted',
+  description: `Deleted project "${project.name}"`,
+  projectId: project.id,
+  changes: diffChanges(project, null)
+})
+
+// Requirements
+export const requirementCreated = (projectId: string, requirement: Requirement): ActivityInput => auditEvent({
+  type: 'requirement-mapped',
+  action: 'created',
+  entity: 'requirement',
+  entityId: String(requirement.id),
+  target: requirement.title,
+  title: 'Requirement Added',
+  description: `Added requirement "${requirement.title}"`,
+  projectId,
+  changes: diffChanges(null, requirement)
+})
+
+export const requirementUpdated = (projectId: string, before: Requirement, after: Requirement): ActivityInput => {
+  const changes = diffChanges(before, after)
+  const noteOnly = changes.length === 1 && changes[0].field === 'notes'
+  return auditEvent({
+    type: noteOnly ? 'annotation-added' : 'updated',
+    action: 'updated',
+    entity: 'requirement',
+    entityId: String(after.id),
+    target: after.title,
+    title: noteOnly ? 'Note Updated' : 'Requirement Updated',
+    description: describeChanges(changes),
+    projectId,
+    changes
+  })
+}
+
+export const requirementDeleted = (projectId: string, requirement: Requirement): ActivityInput => auditEvent({
+  type: 'deleted',
+  action: 'deleted',
+  entity: 'requirement',
+  entityId: String(requirement.id),
+  target: requirement.title,
+  title: 'Requirement Deleted',
+  description: `Deleted requirement "${requirement.title}"`,
+  projectId,
+  changes: diffChanges(requirement, null)
+})
+
+// Documents
+export const documentUploaded = (document: Document): ActivityInput => auditEvent({
+  type: 'document-upload',
+  action: 'uploaded',
+  entity: 'document',
+  entityId: document.id,
+  target: document.title,
+  title: 'Document Uploaded',
+  description: document.version && document.version > 1
+    ? `Uploaded version ${document.version} of ${document.type} document "${document.title}"`
+    : `Uploaded ${document.type} document "${document.title}"`,
+  projectId: document.projectId,
+  changes: diffChanges(null, document)
+})
+
+export const documentUpdated = (before: Document, after: Document): ActivityInput => {
+  const changes = diffChanges(before, after)
+  return auditEvent({
+    type: 'updated',
+    action: 'updated',
+    entity: 'document',
+    entityId: after.id,
+    target: after.title,
+    title: 'Document Updated',
+    description: describeChanges(changes),
+    projectId: after.projectId,
+    changes
+  })
+}
+
+export const documentDeleted = (document: Document): ActivityInput => auditEvent({
+  type: 'deleted',
+  action: 'deleted',
+  entity: 'document',
+  entityId: document.id,
+  target: document.title,
+  title: 'Document Deleted',
+  description: `Deleted document "${document.title}"`,
+  projectId: document.projectId,
+  changes: diffChanges(document, null)
+})
+
+// Reports
+export const reportExported = (
+  projectId: string,
+  filename: string,
+  format: string,
+  file?: { sha256: string; size: number }
+): ActivityInput => auditEvent({
+  type: 'exported',
+  action: 'exported',
+  entity: 'report',
+  entityId: projectId,
+  target: filename,
+  title: 'Report Exported',
+  description: `Exported the compliance report as ${format.toUpperCase()}`,
+  projectId,
+  details: { filename, format, ...file }
+})
+
+export const reportEmailed = (
+  projectId: string,
+  email: { to: string; subject: string; includeAttachment?: boolean }
+): ActivityInput => auditEvent({
+  type: 'emailed',
+  action: 'emailed',
+  entity: 'report',
+  entityId: projectId,
+  target: email.to,
+  title: 'Report Emailed',
+  description: `Sent "${email.subject}" to ${email.to}${email.includeAttachment ? ' with the report attached' : ''}`,
+  projectId,
+  details: { to: email.to, subject: email.subject, includeAttachment: Boolean(email.includeAttachment) }
+})
+
+// AI
+export const analysisCompleted = (
+  projectId: string,
+  analysis: { kind: string; provider: string; model: string; framework?: string }
+): ActivityInput => auditEvent({
+  type: 'analysis-complete',
+  action: 'analyzed',
+  entity: 'project',
+  entityId: projectId,
+  target: analysis.framework || analysis.kind,
+  title: 'AI Analysis',
+  description: `Ran ${analysis.kind} with ${analysis.provider} (${analysis.model})`,
+  projectId,
+  details: { analysis: analysis.kind, provider: analysis.provider, model: analysis.model, framework: analysis.framework }
+})
+
+// What the browser reports itself (see ClientActivityInput), with the permission it needs. The
+// entry is built here from the validated fields and marked as reported by the client.
+export const CLIENT_ACTIVITY_PERMISSIONS: Record<ClientActivityInput['type'], Permission> = {
+  'analysis-complete': 'ai:use'
+}
+
+export const clientReportedActivity = (input: ClientActivityInput): ActivityInput => {
+  const activity = analysisCompleted(input.projectId, input.analysis)
+  return { ...activity, metadata: { ...activity.metadata, reportedBy: 'client' } }
+}
+
+// Team
+export const userRoleChanged = (before: TeamMember, after: TeamMember): ActivityInput => auditEvent({
+  type: 'updated',
+  action: 'changed role',
+  entity: 'user',
+  entityId: after.id,
+  target: after.email,
+  title: 'Role Changed',
+  description: `Changed ${after.name || after.email} from ${ROLE_LABELS[before.role]} to ${ROLE_LABELS[after.role]}`,
+  changes: [{ field: 'role', before: before.role, after: after.role }]
+})
+
+// Account lifecycle (see server/accounts.ts)
+export const userInvited = (member: TeamMember): ActivityInput => auditEvent({
+  type: 'created',
+  action: 'invited user',
+  entity: 'user',
+  entityId: member.id,
+  target: member.email,
+  title: 'User Invited',
+  description: `Invited ${member.name || member.email} to join as ${ROLE_LABELS[member.role]}`,
+  details: { role: member.role }
+})
+
+export const userInvitationAccepted = (member: Pick<TeamMember, 'id' | 'email' | 'name'>): ActivityInput => auditEvent({
+  type: 'updated',
+  action: 'accepted invitation',
+  entity: 'user',
+  entityId: member.id,
+  target: member.email,
+  title: 'Invitation Accepted',
+  description: `${member.name || member.email} set up their account`
+})
+
+export const userPasswordReset = (member: Pick<TeamMember, 'id' | 'email' | 'name'>): ActivityInput => auditEvent({
+  type: 'updated',
+  action: 'reset password',
+  entity: 'user',
+  entityId: member.id,
+  target: member.email,
+  title: 'Password Reset',
+  description: `${member.name || member.email} reset their password`
+})
+
+export const userDeactivated = (before: TeamMember, after: TeamMember): ActivityInput => auditEvent({
+  type: 'updated',
+  action: 'deactivated user',
+  entity: 'user',
+  entityId: after.id,
+  target: after.email,
+  title: 'User Deactivated',
+  description: `Deactivated ${after.name || after.email}`,
+  changes: [{ field: 'status', before: before.status, after: after.status }]
+})
+
+export const userReactivated = (before: TeamMember, after: TeamMember): ActivityInput => auditEvent({
+  type: 'updated',
+  action: 'reactivated user',
+  entity: 'user',
+  entityId: after.id,
+  target: after.email,
+  title: 'User Reactivated',
+  description: `Reactivated ${after.name || after.email}`,
+  changes: [{ field: 'status', before: before.status, after: after.status }]
+})
+
+// API tokens and service accounts (see server/api-tokens.ts). `owner` names whom the token acts as.
+// The secret never goes into the trail, only the prefix that tells tokens apart.
+export const apiTokenCreated = (token: ApiToken, owner: string): ActivityInput => auditEvent({
+  type: 'created',
+  action: 'created API token',
+  entity: 'api-token',
+  entityId: token.id,
+  target: token.name,
+  title: 'API Token Created',
+  description: `Created API token "${token.name}" (${token.prefix}…) for ${owner} with ${token.scopes.join(', ')}`,
+  details: { ownerId: token.ownerId, prefix: token.prefix, scopes: token.scopes, expiresAt: token.expiresAt }
+})
+
+export const apiTokenRotated = (before: ApiToken, after: ApiToken, owner: string): ActivityInput => auditEvent({
+  type: 'updated',
+  action: 'rotated API token',
+  entity: 'api-token',
+  entityId: after.id,
+  target: after.name,
+  title: 'API Token Rotated',
+  description: `Rotated API token "${after.name}" of ${owner}; ${before.prefix}… no longer works`,
+  changes: [{ field: 'prefix', before: before.prefix, after: after.prefix }],
+  details: { ownerId: after.ownerId, previousTokenId: before.id }
+})
+
+export const apiTokenRevoked = (token: ApiToken, owner: string): ActivityInput => auditEvent({
+  type: 'deleted',
+  action: 'revoked API token',
+  entity: 'api-token',
+  entityId: token.id,
+  target: token.name,
+  title: 'API Token Revoked',
+  description: `Revoked API token "${token.name}" (${token.prefix}…) of ${owner}`,
+  details: { ownerId: token.ownerId, prefix: token.prefix }
+})
+
+export const serviceAccountCreated = (account: ServiceAccount): ActivityInput => auditEvent({
+  type: 'created',
+  action: 'created service account',
+  entity: 'user',
+  entityId: account.id,
+  target: account.name,
+  title: 'Service Account Created',
+  description: `Created service account "${account.name}" as ${ROLE_LABELS[account.role]}`,
+  details: { role: account.role }
+})
+
+// Its tokens are revoked with it; the account row stays for the audit trail
+export const serviceAccountDeleted = (account: ServiceAccount): ActivityInput => auditEvent({
+  type: 'deleted',
+  action: 'deleted service account',
+  entity: 'user',
+  entityId: account.id,
+  target: account.name,
+  title: 'Service Account Deleted',
+  description: `Deleted service account "${account.name}" and revoked its ${account.tokens.length} API token${account.tokens.length === 1 ? '' : 's'}`
+})
+
+// Workspaces. Recorded against the workspace they name, so they show in its activity feed.
+export const workspaceCreated = (workspace: Workspace): ActivityInput => auditEvent({
+  type: 'created',
+  action: 'created workspace',
+  entity: 'workspace',
+  entityId: workspace.id,
+  target: workspace.name,
+  title: 'Workspace Created',
+  description: `Created workspace "${workspace.name}"`
+})
+
+export const workspaceMemberInvited = (invitation: WorkspaceInvitation): ActivityInput => auditEvent({
+  type: 'created',
+  action: 'invited member',
+  entity: 'workspace',
+  entityId: invitation.workspaceId,
+  target: invitation.email,
+  title: 'Member Invited',
+  description: `Invited ${invitation.email} to "${invitation.workspaceName}"`,
+  details: { invitationId: invitation.id }
+})
+
+export const workspaceInvitationRevoked = (invitation: WorkspaceInvitation): ActivityInput => auditEvent({
+  type: 'deleted',
+  action: 'revoked invitation',
+  entity: 'workspace',
+  entityId: invitation.workspaceId,
+  target: invitation.email,
+  title: 'Invitation Revoked',
+  description: `Revoked the invitation of ${invitation.email} to "${invitation.workspaceName}"`,
+  details: { invitationId: invitation.id }
+})
+
+export const workspaceInvitationAccepted = (invitation: WorkspaceInvitation): ActivityInput => auditEvent({
+  type: 'updated',
+  action: 'joined workspace',
+  entity: 'workspace',
+  entityId: invitation.workspaceId,
+  target: invitation.email,
+  title: 'Member Joined',
+  description: `${invitation.email} joined "${invitation.workspaceName}"`,
+  details: { invitationId: invitation.id }
+})
+
+export const workspaceMemberRemoved = (workspace: Workspace, member: WorkspaceMember): ActivityInput => auditEvent({
+  type: 'deleted',
+  action: 'removed member',
+  entity: 'workspace',
+  entityId: workspace.id,
+  target: member.email,
+  title: 'Member Removed',
+  description: `Removed ${member.name || member.email} from "${workspace.name}"`,
+  details: { userId: member.id }
+})
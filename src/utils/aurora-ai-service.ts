@@ -5,7 +5,6 @@
  */
 
 import { AuroraService } from './aurora-service';
-import { APP_CONSTANTS } from './constants';
 import type { ChatMessage } from './ai-service';
 import type { AIConfig } from './ai-providers/provider-manager';
 
@@ -59,7 +58,7 @@ export class AuroraAIService extends AuroraService {
   // Chat Conversations Management
   
   static async createConversation(conversationData: ConversationData): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         id: `demo-conv-${Date.now()}`,
         ...conversationData,
@@ -93,7 +92,7 @@ export class AuroraAIService extends AuroraService {
   }
 
   static async getConversations(userId: string, projectId?: string): Promise<any[]> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return [
         {
           id: 'demo-conv-1',
@@ -127,7 +126,7 @@ export class AuroraAIService extends AuroraService {
   }
 
   static async getConversationById(conversationId: string): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         id: conversationId,
         title: 'Demo Conversation',
@@ -149,7 +148,7 @@ export class AuroraAIService extends AuroraService {
     tokenUsage?: any,
     processingTime?: number
   ): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         id: `demo-msg-${Date.now()}`,
         conversationId,
@@ -196,7 +195,7 @@ export class AuroraAIService extends AuroraService {
     limit: number = 50,
     offset: number = 0
   ): Promise<any[]> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return [
         {
           id: 'demo-msg-1',
@@ -229,7 +228,7 @@ export class AuroraAIService extends AuroraService {
   // AI Analysis Results Management
   
   static async saveAnalysisResult(analysisData: AIAnalysisResult): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         id: `demo-analysis-${Date.now()}`,
         ...analysisData,
@@ -274,7 +273,7 @@ export class AuroraAIService extends AuroraService {
     analysisType?: string,
     framework?: string
   ): Promise<any[]> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return [
         {
           id: 'demo-analysis-1',
@@ -319,7 +318,7 @@ export class AuroraAIService extends AuroraService {
     isActive: boolean = false,
     isDefault: boolean = false
   ): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         id: `demo-config-${Date.now()}`,
         userId,
@@ -357,7 +356,7 @@ export class AuroraAIService extends AuroraService {
   }
 
   static async getProviderConfigs(userId: string): Promise<any[]> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return [
         {
           id: 'demo-config-1',
@@ -384,7 +383,7 @@ export class AuroraAIService extends AuroraService {
   }
 
   static async getActiveProviderConfig(userId: string): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         providerType: 'bedrock',
         configuration: {
@@ -408,7 +407,7 @@ export class AuroraAIService extends AuroraService {
   // AI Usage Tracking
   
   static async trackUsage(usageData: AIUsageRecord): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         id: `demo-usage-${Date.now()}`,
         ...usageData,
@@ -443,7 +442,7 @@ export class AuroraAIService extends AuroraService {
     startDate?: string,
     endDate?: string
   ): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         totalRequests: 45,
         totalTokens: 12750,
@@ -525,7 +524,7 @@ export class AuroraAIService extends AuroraService {
     aiModel: string,
     analysisData: any
   ): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         id: `demo-req-analysis-${Date.now()}`,
         requirementId,
@@ -564,7 +563,7 @@ export class AuroraAIService extends AuroraService {
   }
 
   static async getRequirementAnalysis(requirementId: string): Promise<any[]> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return [
         {
           id: 'demo-req-analysis-1',
@@ -592,13 +591,14 @@ export class AuroraAIService extends AuroraService {
 
   // Document Processing for AI
   
+  // The text itself comes from extraction on upload (see ./extraction); passing none keeps it
   static async markDocumentProcessed(
     documentId: string,
     processingStatus: string,
     extractedText?: string,
     aiSummary?: string
   ): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return { success: true, documentId };
     }
 
@@ -607,7 +607,7 @@ export class AuroraAIService extends AuroraService {
       SET 
         ai_processed = $2,
         ai_processing_status = $3,
-        extracted_text = $4,
+        extracted_text = COALESCE($4, extracted_text),
         ai_summary = $5,
         updated_at = NOW()
       WHERE id = $1
@@ -629,7 +629,7 @@ export class AuroraAIService extends AuroraService {
   // Database Health and Monitoring
   
   static async getAIServiceHealth(): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         database: 'healthy',
         aiTables: 'ready',
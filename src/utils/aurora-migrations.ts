@@ -0,0 +1,108 @@
+/**
+ * Aurora Schema Migrations
+ * Applies the numbered migrations in ./migrations and records them in the
+ * schema_migrations ledger so every database can be upgraded or rolled back
+ */
+
+import { AuroraService } from './aurora-service'
+import { MIGRATIONS, type Migration } from './migrations'
+
+export interface MigrationStatus {
+  version: number
+  name: string
+  appliedAt: string | null
+}
+
+// Serializes concurrent runners (e.g. two API servers booting at once)
+const MIGRATION_LOCK_ID = 6545
+
+export class AuroraMigrator extends AuroraService {
+  private static async ensureLedger(): Promise<void> {
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `)
+  }
+
+  private static async isApplied(version: number): Promise<boolean> {
+    const result = await this.query('SELECT 1 FROM schema_migrations WHERE version = $1', [version])
+    return result.rows.length > 0
+  }
+
+  static async getAppliedMigrations(): Promise<Array<{ version: number; name: string; applied_at: string }>> {
+    await this.ensureLedger()
+    const result = await this.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC')
+    return result.rows
+  }
+
+  static async status(): Promise<MigrationStatus[]> {
+    const applied = await this.getAppliedMigrations()
+    const appliedAt = new Map(applied.map(row => [Number(row.version), row.applied_at]))
+
+    return MIGRATIONS.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      appliedAt: appliedAt.has(migration.version) ? new Date(appliedAt.get(migration.version)!).toISOString() : null
+    }))
+  }
+
+  // Apply pending migrations in order, up to and including targetVersion
+  static async migrate(targetVersion?: number): Promise<Migration[]> {
+    await this.ensureLedger()
+    const applied: Migration[] = []
+
+    for (const migration of MIGRATIONS) {
+      if (targetVersion !== undefined && migration.version > targetVersion) {
+        break
+      }
+
+      const ran = await this.transaction(async () => {
+        await this.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_ID])
+        if (await this.isApplied(migration.version)) {
+          return false
+        }
+        await this.query(migration.up)
+        await this.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        )
+        return true
+      })
+
+      if (ran) {
+        console.log(`Applied migration ${migration.version}_${migration.name}`)
+        applied.push(migration)
+      }
+    }
+
+    return applied
+  }
+
+  // Revert the most recently applied migrations, newest first
+  static async rollback(steps: number = 1): Promise<Migration[]> {
+    const appliedVersions = (await this.getAppliedMigrations()).map(row => Number(row.version))
+    const toRevert = appliedVersions.reverse().slice(0, steps)
+    const reverted: Migration[] = []
+
+    for (const version of toRevert) {
+      const migration = MIGRATIONS.find(m => m.version === version)
+      if (!migration) {
+        throw new Error(`Migration ${version} is recorded in schema_migrations but missing from the codebase`)
+      }
+
+      await this.transaction(async () => {
+        await this.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_ID])
+        await this.query(migration.down)
+        await this.query('DELETE FROM schema_migrations WHERE version = $1', [version])
+      })
+
+      console.log(`Reverted migration ${migration.version}_${migration.name}`)
+      reverted.push(migration)
+    }
+
+    return reverted
+  }
+}
@@ -1,67 +1,257 @@
 import { APP_CONSTANTS } from './constants'
-import { AURORA_CONFIG, buildAuroraConnectionString, AURORA_SCHEMA, AURORA_FEATURES } from './aurora-config'
-import { mockProjects, mockActivities, mockRequirements } from './mockData'
+import { AURORA_CONFIG, buildAuroraConnectionString, AURORA_FEATURES } from './aurora-config'
+import {
+  mapProjectRow,
+  mapRequirementRow,
+  mapDocumentRow,
+  mapActivityRow,
+  PROJECT_COLUMNS,
+  REQUIREMENT_COLUMNS,
+  DOCUMENT_COLUMNS
+} from './row-mappers'
+import {
+  buildListSql,
+  buildFacetSql,
+  toPage,
+  toFacets,
+  PROJECT_LIST_SQL,
+  REQUIREMENT_LIST_SQL,
+  ACTIVITY_LIST_SQL,
+  PROJECT_FACET_COLUMNS,
+  REQUIREMENT_FACET_COLUMNS
+} from './list-query'
+import {
+  projectCreated,
+  projectUpdated,
+  projectDeleted,
+  requirementCreated,
+  requirementUpdated,
+  requirementDeleted,
+  documentUploaded,
+  documentUpdated,
+  documentDeleted,
+  userRoleChanged,
+  userDeactivated,
+  userReactivated,
+  workspaceCreated,
+  workspaceMemberInvited,
+  workspaceInvitationRevoked,
+  workspaceInvitationAccepted,
+  workspaceMemberRemoved
+} from './audit'
+import {
+  appendAuditEntry,
+  getAuditLogPage,
+  verifyAuditLog,
+  getAllAuditLogEntries,
+  buildAuditEvidence
+} from './audit-chain'
+import { linkIdentity, type ExternalIdentity, type LinkedUser } from './user-identities'
+import { getTeamMembers, getUserAccess, changeUserRole, setUserDeactivated } from './user-roles'
+import {
+  enterWorkspace,
+  getWorkspaces,
+  findMemberWorkspace,
+  createWorkspace,
+  resolveWorkspace,
+  getWorkspaceMembers,
+  removeWorkspaceMember,
+  getWorkspaceInvitations,
+  inviteToWorkspace,
+  revokeInvitation,
+  getUserInvitations,
+  acceptInvitation,
+  WORKSPACE_ACTIVITY_CONDITION
+} from './workspaces'
+import { DEFAULT_ROLE } from './permissions'
+import { metadataEditsClause, saveDocumentExtraction, type DocumentExtraction } from './extraction'
+import { withRequirementSource } from './requirement-sources'
+import {
+  DOCUMENT_ROWS_SQL,
+  insertDocument,
+  findDuplicateDocument,
+  getDocumentVersions,
+  makeCurrentVersion,
+  promoteLatestVersion
+} from './document-versions'
+import type { UserRole } from './constants'
+import type {
+  Project,
+  Requirement,
+  Document,
+  Activity,
+  ProjectInput,
+  ProjectUpdate,
+  RequirementInput,
+  RequirementUpdate,
+  DocumentUpdate,
+  DocumentVersionInput,
+  ActivityInput,
+  ProjectQuery,
+  RequirementQuery,
+  ActivityQuery,
+  AuditLogEntry,
+  AuditLogQuery,
+  AuditVerification,
+  AuditEvidence,
+  Page,
+  ProjectOverview,
+  RequirementFacets,
+  TeamMember,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceInvitation
+} from '../types'
+
+export interface QueryResult {
+  rows: any[]
+  rowCount?: number | null
+}
+
+// Runs SQL against a real Postgres connection. Registered from server-side code
+// (see server/db.ts) because database drivers can't be bundled into the browser app.
+export interface QueryExecutor {
+  query(sql: string, params?: any[]): Promise<QueryResult>
+  transaction<T>(work: () => Promise<T>): Promise<T>
+}
+
+export type DatabaseErrorCode =
+  | 'unique_violation'
+  | 'foreign_key_violation'
+  | 'not_null_violation'
+  | 'check_violation'
+  | 'invalid_input'
+  | 'undefined_object'
+  | 'connection_failed'
+  | 'not_found'
+  | 'unknown'
+
+// Driver-independent database error raised by QueryExecutor implementations
+export class DatabaseError extends Error {
+  constructor(
+    message: string,
+    public code: DatabaseErrorCode,
+    public detail?: string,
+    public sqlState?: string
+  ) {
+    super(message)
+    this.name = 'DatabaseError'
+  }
+}
+
+// SQLSTATE codes we translate into DatabaseError codes
+const SQLSTATE_CODES: Record<string, DatabaseErrorCode> = {
+  '23505': 'unique_violation',
+  '23503': 'foreign_key_violation',
+  '23502': 'not_null_violation',
+  '23514': 'check_violation',
+  '22P02': 'invalid_input',
+  '22001': 'invalid_input',
+  '22003': 'invalid_input',
+  '22007': 'invalid_input',
+  '42P01': 'undefined_object',
+  '42703': 'undefined_object',
+  '57P01': 'connection_failed',
+  '08000': 'connection_failed',
+  '08003': 'connection_failed',
+  '08006': 'connection_failed'
+}
+
+// Wrap an error raised by a Postgres driver, keeping its SQLSTATE and detail
+export const toDatabaseError = (error: any): DatabaseError => {
+  if (error instanceof DatabaseError) {
+    return error
+  }
+  const code = SQLSTATE_CODES[error?.code] || 'unknown'
+  return new DatabaseError(error?.message || 'Database error', code, error?.detail, error?.code)
+}
 
 // Aurora Postgres Database Service
 export class AuroraService {
   private static connectionString = buildAuroraConnectionString(AURORA_CONFIG)
-  
-  // In a real implementation, you would use a PostgreSQL client like 'pg' or 'postgres'
-  // For this example, we'll simulate the connection
-  private static async query(sql: string, params: any[] = []): Promise<any> {
+  private static executor: QueryExecutor | null = null
+  private static embeddedDatabase: Promise<QueryExecutor> | null = null
+
+  // Route queries to a real database instead of demo data
+  static setExecutor(executor: QueryExecutor | null): void {
+    this.executor = executor
+  }
+
+  // Demo data is only used when no real database has been registered
+  protected static isDemoMode(): boolean {
+    return APP_CONSTANTS.DEMO_MODE && !this.executor
+  }
+
+  protected static async query(sql: string, params: any[] = []): Promise<any> {
+    if (this.executor) {
+      return this.executor.query(sql, params)
+    }
+
     if (APP_CONSTANTS.DEMO_MODE) {
-      // Return mock data in demo mode
-      return this.mockQuery(sql, params)
+      // Run against the in-process demo database
+      const database = await this.getEmbeddedDatabase()
+      return database.query(sql, params)
     }
     
-    // In production, this would use a real PostgreSQL client
-    // Example with 'pg' library:
-    // const client = new Client({ connectionString: this.connectionString })
-    // await client.connect()
-    // const result = await client.query(sql, params)
-    // await client.end()
-    // return result
-    
-    console.log('Aurora Query:', sql, params)
-    throw new Error('Aurora Postgres connection not implemented in this demo')
+    throw new DatabaseError(
+      `Aurora Postgres executor not configured for ${this.connectionString.replace(/:[^:@/]*@/, ':****@')}`,
+      'connection_failed'
+    )
   }
-  
-  private static mockQuery(sql: string, params: any[]): any {
-    // Simulate database responses based on SQL query patterns
-    if (sql.includes('SELECT') && sql.includes('projects')) {
-      return { rows: mockProjects }
-    }
-    if (sql.includes('SELECT') && sql.includes('requirements')) {
-      return { rows: mockRequirements }
+
+  // Run several statements atomically; queries issued inside `work` share one connection
+  static async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.executor) {
+      return this.executor.transaction(work)
     }
-    if (sql.includes('SELECT') && sql.includes('activities')) {
-      return { rows: mockActivities }
+    if (APP_CONSTANTS.DEMO_MODE) {
+      const database = await this.getEmbeddedDatabase()
+      return database.transaction(work)
     }
-    if (sql.includes('INSERT') || sql.includes('UPDATE') || sql.includes('DELETE')) {
-      return { rowCount: 1, rows: [{ id: `mock-${Date.now()}` }] }
+    return work()
+  }
+
+  // Run `work` in a transaction scoped to one workspace; row-level security hides every other
+  // workspace's projects, requirements and documents from it
+  static async inWorkspace<T>(workspaceId: string, work: () => Promise<T>): Promise<T> {
+    return this.transaction(async () => {
+      await enterWorkspace((text, params) => this.query(text, params), workspaceId)
+      return work()
+    })
+  }
+
+  // Load a row by id for update/delete, failing when it doesn't exist
+  private static async findRow(table: string, id: string, entity: string): Promise<any> {
+    const result = await this.query(`SELECT * FROM ${table} WHERE id = $1`, [id])
+    if (result.rows.length === 0) {
+      throw new DatabaseError(`${entity} not found`, 'not_found')
     }
-    return { rows: [] }
+    return result.rows[0]
   }
 
+  // Demo mode runs the real schema and SQL on PGlite, created on first use.
+  // Loaded lazily so the WebAssembly build is only fetched when it's needed.
+  private static getEmbeddedDatabase(): Promise<QueryExecutor> {
+    if (!this.embeddedDatabase) {
+      this.embeddedDatabase = import('./embedded-database').then(module => module.createEmbeddedDatabase())
+      this.embeddedDatabase.catch(() => {
+        this.embeddedDatabase = null
+      })
+    }
+    return this.embeddedDatabase
+  }
+  
   // Database initialization
   static async initializeDatabase(): Promise<void> {
-    if (APP_CONSTANTS.DEMO_MODE) {
-      console.log('Demo mode: Skipping Aurora database initialization')
+    if (this.isDemoMode()) {
+      console.log('Demo mode: using the embedded demo database')
       return
     }
     
     try {
-      // Create tables
-      await this.query(AURORA_SCHEMA.users)
-      await this.query(AURORA_SCHEMA.projects)
-      await this.query(AURORA_SCHEMA.requirements)
-      await this.query(AURORA_SCHEMA.documents)
-      await this.query(AURORA_SCHEMA.activities)
-      
-      // Create indexes
-      for (const indexSql of AURORA_SCHEMA.indexes) {
-        await this.query(indexSql)
-      }
+      // Loaded lazily because AuroraMigrator extends this class
+      const { AuroraMigrator } = await import('./aurora-migrations')
+      await AuroraMigrator.migrate()
       
       console.log('Aurora Postgres database initialized successfully')
     } catch (error) {
@@ -70,181 +260,485 @@ export class AuroraService {
     }
   }
 
-  // Projects
-  static async getProjects(userId: string): Promise<any[]> {
-    const sql = `
-      SELECT * FROM projects 
-      WHERE user_id = $1 
-      ORDER BY created_at DESC
-    `
-    const result = await this.query(sql, [userId])
-    return result.rows
+  // Users signed in through an identity provider (see ./user-identities)
+  static async linkUser(identity: ExternalIdentity): Promise<LinkedUser> {
+    return linkIdentity((text, params) => this.query(text, params), identity)
+  }
+
+  // Team and roles of a workspace (see ./user-roles)
+  static async getUserAccess(userId: string): Promise<{ deactivated: boolean } | null> {
+    return getUserAccess((text, params) => this.query(text, params), userId)
+  }
+
+  static async getTeam(workspaceId: string): Promise<TeamMember[]> {
+    return getTeamMembers((text, params) => this.query(text, params), workspaceId)
+  }
+
+  static async updateUserRole(workspaceId: string, userId: string, role: UserRole, actorId: string): Promise<TeamMember> {
+    return this.transaction(async () => {
+      const { before, after } = await changeUserRole((text, params) => this.query(text, params), workspaceId, userId, role)
+      await this.createActivity({ ...userRoleChanged(before, after), userId: actorId, workspaceId })
+      return after
+    })
+  }
+
+  static async setUserDeactivated(workspaceId: string, userId: string, deactivated: boolean, actorId: string): Promise<TeamMember> {
+    return this.transaction(async () => {
+      const { before, after } = await setUserDeactivated((text, params) => this.query(text, params), workspaceId, userId, deactivated)
+      const activity = deactivated ? userDeactivated(before, after) : userReactivated(before, after)
+      await this.createActivity({ ...activity, userId: actorId, workspaceId })
+      return after
+    })
+  }
+
+  // Workspaces (see ./workspaces); pass the signed-in user's id to check their membership
+  static async resolveWorkspace(userId: string, requestedId?: string | null): Promise<Workspace> {
+    return this.transaction(() => resolveWorkspace((text, params) => this.query(text, params), userId, requestedId))
+  }
+
+  static async getWorkspaces(userId: string): Promise<Workspace[]> {
+    return getWorkspaces((text, params) => this.query(text, params), userId)
+  }
+
+  // With the user's role there, to check what they may do in it
+  static async getMemberWorkspace(workspaceId: string, userId: string): Promise<Workspace> {
+    return findMemberWorkspace((text, params) => this.query(text, params), workspaceId, userId)
+  }
+
+  static async createWorkspace(name: string, actorId: string): Promise<Workspace> {
+    return this.transaction(async () => {
+      const workspace = await createWorkspace((text, params) => this.query(text, params), actorId, name)
+      await this.createActivity({ ...workspaceCreated(workspace), userId: actorId, workspaceId: workspace.id })
+      return workspace
+    })
+  }
+
+  static async getWorkspaceMembers(workspaceId: string, userId: string): Promise<WorkspaceMember[]> {
+    const run = (text: string, params?: any[]) => this.query(text, params)
+    const workspace = await findMemberWorkspace(run, workspaceId, userId)
+    return getWorkspaceMembers(run, workspace.id)
+  }
+
+  static async removeWorkspaceMember(workspaceId: string, memberId: string, actorId: string): Promise<void> {
+    const run = (text: string, params?: any[]) => this.query(text, params)
+    await this.transaction(async () => {
+      const workspace = await findMemberWorkspace(run, workspaceId, actorId)
+      const member = await removeWorkspaceMember(run, workspace.id, memberId)
+      await this.createActivity({ ...workspaceMemberRemoved(workspace, member), userId: actorId, workspaceId: workspace.id })
+    })
+  }
+
+  static async getWorkspaceInvitations(workspaceId: string, userId: string): Promise<WorkspaceInvitation[]> {
+    const run = (text: string, params?: any[]) => this.query(text, params)
+    const workspace = await findMemberWorkspace(run, workspaceId, userId)
+    return getWorkspaceInvitations(run, workspace.id)
+  }
+
+  static async inviteToWorkspace(workspaceId: string, email: string, actorId: string): Promise<WorkspaceInvitation> {
+    const run = (text: string, params?: any[]) => this.query(text, params)
+    return this.transaction(async () => {
+      const workspace = await findMemberWorkspace(run, workspaceId, actorId)
+      const invitation = await inviteToWorkspace(run, workspace.id, email, actorId)
+      await this.createActivity({ ...workspaceMemberInvited(invitation), userId: actorId, workspaceId: workspace.id })
+      return invitation
+    })
+  }
+
+  static async revokeInvitation(workspaceId: string, invitationId: string, actorId: string): Promise<void> {
+    const run = (text: string, params?: any[]) => this.query(text, params)
+    await this.transaction(async () => {
+      const workspace = await findMemberWorkspace(run, workspaceId, actorId)
+      const invitation = await revokeInvitation(run, workspace.id, invitationId)
+      await this.createActivity({ ...workspaceInvitationRevoked(invitation), userId: actorId, workspaceId: workspace.id })
+    })
+  }
+
+  static async getUserInvitations(email: string): Promise<WorkspaceInvitation[]> {
+    return getUserInvitations((text, params) => this.query(text, params), email)
+  }
+
+  static async acceptInvitation(invitationId: string, user: { id: string; email: string }): Promise<Workspace> {
+    return this.transaction(async () => {
+      const { invitation, workspace } = await acceptInvitation((text, params) => this.query(text, params), invitationId, user, DEFAULT_ROLE)
+      await this.createActivity({ ...workspaceInvitationAccepted(invitation), userId: user.id, workspaceId: workspace.id })
+      return workspace
+    })
   }
 
-  static async createProject(projectData: any): Promise<any> {
+  // Projects, requirements and documents: call inside inWorkspace()
+  static async getProjects(workspaceId: string, query: ProjectQuery = {}): Promise<Page<Project>> {
+    const list = buildListSql(PROJECT_LIST_SQL, query, {
+      select: '*',
+      from: 'projects',
+      conditions: ['workspace_id = $1'],
+      params: [workspaceId]
+    })
+    const result = await this.query(list.sql, list.params)
+    const count = await this.query(list.countSql, list.countParams)
+    return toPage(result.rows, count.rows[0].total, list, mapProjectRow)
+  }
+
+  // Status and assignee counts plus the average compliance score across all of a workspace's projects
+  static async getProjectOverview(workspaceId: string): Promise<ProjectOverview> {
+    const facets = await this.query(buildFacetSql(PROJECT_FACET_COLUMNS, 'projects', ['workspace_id = $1']), [workspaceId])
+    const average = await this.query(
+      'SELECT COALESCE(ROUND(AVG(compliance_score)), 0)::int AS average FROM projects WHERE workspace_id = $1',
+      [workspaceId]
+    )
+    return {
+      facets: toFacets(PROJECT_FACET_COLUMNS, facets.rows),
+      averageCompliance: average.rows[0].average
+    }
+  }
+
+  static async createProject(projectData: ProjectInput & { userId: string; workspaceId: string }): Promise<Project> {
     const sql = `
-      INSERT INTO projects (name, description, user_id, document_type, assignee, status)
-      VALUES ($1, $2, $3, $4, $5, $6)
+      INSERT INTO projects (name, description, user_id, workspace_id, document_type, assignee, status)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
       RETURNING *
     `
     const values = [
       projectData.name,
-      projectData.description,
+      projectData.description || '',
       projectData.userId,
-      projectData.documentType,
-      projectData.assignee,
+      projectData.workspaceId,
+      projectData.documentType || null,
+      projectData.assignee || null,
       projectData.status || 'active'
     ]
-    const result = await this.query(sql, values)
-    return result.rows[0]
+    return this.transaction(async () => {
+      const result = await this.query(sql, values)
+      const project = mapProjectRow(result.rows[0])
+      await this.createActivity({ ...projectCreated(project), userId: projectData.userId })
+      return project
+    })
   }
 
-  static async updateProject(projectId: string, updates: any): Promise<any> {
-    const setClause = Object.keys(updates)
-      .map((key, index) => `${key} = $${index + 2}`)
+  // Mutations take the acting user's id for the activity they record
+  static async updateProject(projectId: string, updates: ProjectUpdate, actorId: string): Promise<Project> {
+    const entries = Object.entries(updates).filter(([key]) => key in PROJECT_COLUMNS)
+    const setClause = entries
+      .map(([key], index) => `${PROJECT_COLUMNS[key as keyof ProjectUpdate]} = $${index + 2}`)
+      .concat('updated_at = NOW()', 'last_activity = NOW()')
       .join(', ')
     
     const sql = `
       UPDATE projects 
-      SET ${setClause}, updated_at = NOW()
+      SET ${setClause}
       WHERE id = $1
       RETURNING *
     `
-    const values = [projectId, ...Object.values(updates)]
-    const result = await this.query(sql, values)
-    return result.rows[0]
+    const values = [projectId, ...entries.map(([, value]) => value)]
+    return this.transaction(async () => {
+      const before = mapProjectRow(await this.findRow('projects', projectId, 'Project'))
+      const result = await this.query(sql, values)
+      const project = mapProjectRow(result.rows[0])
+      await this.createActivity({ ...projectUpdated(before, project), userId: actorId })
+      return project
+    })
   }
 
-  static async deleteProject(projectId: string): Promise<void> {
+  static async deleteProject(projectId: string, actorId: string): Promise<void> {
     const sql = 'DELETE FROM projects WHERE id = $1'
-    await this.query(sql, [projectId])
+    await this.transaction(async () => {
+      const project = mapProjectRow(await this.findRow('projects', projectId, 'Project'))
+      // Recorded first: the activity needs the project row, then keeps its name once detached
+      await this.createActivity({ ...projectDeleted(project), userId: actorId })
+      await this.query(sql, [projectId])
+    })
   }
 
   // Requirements
-  static async getRequirements(projectId: string): Promise<any[]> {
-    const sql = `
-      SELECT * FROM requirements 
-      WHERE project_id = $1 
-      ORDER BY created_at DESC
-    `
+  static async getRequirements(projectId: string, query: RequirementQuery = {}): Promise<Page<Requirement>> {
+    const list = buildListSql(REQUIREMENT_LIST_SQL, query, {
+      select: '*',
+      from: 'requirements',
+      conditions: ['project_id = $1'],
+      params: [projectId]
+    })
+    const result = await this.query(list.sql, list.params)
+    const count = await this.query(list.countSql, list.countParams)
+    return toPage(result.rows, count.rows[0].total, list, mapRequirementRow)
+  }
+
+  static async getRequirementFacets(projectId: string): Promise<RequirementFacets> {
+    const sql = buildFacetSql(REQUIREMENT_FACET_COLUMNS, 'requirements', ['project_id = $1'])
     const result = await this.query(sql, [projectId])
-    return result.rows
+    return toFacets(REQUIREMENT_FACET_COLUMNS, result.rows)
   }
 
-  static async createRequirement(projectId: string, requirementData: any): Promise<any> {
+  static async createRequirement(projectId: string, requirementData: RequirementInput, actorId: string): Promise<Requirement> {
     const sql = `
       INSERT INTO requirements (
         project_id, title, description, category, priority, 
-        status, confidence, evidence, section, assignee
+        status, confidence, evidence, gaps, recommendations, section, assignee, notes,
+        source_document_id, source_section, source_start, source_end, source_page
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
       RETURNING *
     `
-    const values = [
-      projectId,
-      requirementData.title,
-      requirementData.description,
-      requirementData.category,
-      requirementData.priority || 'medium',
-      requirementData.status || 'pending',
-      requirementData.confidence || 0,
-      requirementData.evidence,
-      requirementData.section,
-      requirementData.assignee
-    ]
-    const result = await this.query(sql, values)
-    return result.rows[0]
+    return this.transaction(async () => {
+      const data = await withRequirementSource((text, params) => this.query(text, params), projectId, requirementData)
+      const values = [
+        projectId,
+        data.title,
+        data.description || '',
+        data.category || null,
+        data.priority || 'medium',
+        data.status || 'pending',
+        data.confidence || 0,
+        data.evidence || null,
+        data.gaps || [],
+        data.recommendations || [],
+        data.section || null,
+        data.assignee || null,
+        data.notes || null,
+        data.sourceDocument || null,
+        data.sourceSection || null,
+        data.sourceStart ?? null,
+        data.sourceEnd ?? null,
+        data.sourcePage ?? null
+      ]
+      const result = await this.query(sql, values)
+      const requirement = mapRequirementRow(result.rows[0])
+      await this.createActivity({ ...requirementCreated(projectId, requirement), userId: actorId })
+      return requirement
+    })
   }
 
-  static async updateRequirement(requirementId: string, updates: any): Promise<any> {
-    const setClause = Object.keys(updates)
-      .map((key, index) => `${key} = $${index + 2}`)
-      .join(', ')
-    
-    const sql = `
-      UPDATE requirements 
-      SET ${setClause}, updated_at = NOW()
-      WHERE id = $1
-      RETURNING *
-    `
-    const values = [requirementId, ...Object.values(updates)]
-    const result = await this.query(sql, values)
-    return result.rows[0]
+  static async updateRequirement(requirementId: string, updates: RequirementUpdate, actorId: string): Promise<Requirement> {
+    return this.transaction(async () => {
+      const row = await this.findRow('requirements', requirementId, 'Requirement')
+      const resolved = await withRequirementSource(
+        (text, params) => this.query(text, params),
+        row.project_id,
+        updates,
+        mapRequirementRow(row)
+      )
+      const entries = Object.entries(resolved).filter(([key]) => key in REQUIREMENT_COLUMNS)
+      const setClause = entries
+        .map(([key], index) => `${REQUIREMENT_COLUMNS[key as keyof typeof REQUIREMENT_COLUMNS]} = $${index + 2}`)
+        .concat('updated_at = NOW()')
+        .join(', ')
+
+      const sql = `
+        UPDATE requirements 
+        SET ${setClause}
+        WHERE id = $1
+        RETURNING *
+      `
+      const result = await this.query(sql, [requirementId, ...entries.map(([, value]) => value)])
+      const requirement = mapRequirementRow(result.rows[0])
+      await this.createActivity({
+        ...requirementUpdated(row.project_id, mapRequirementRow(row), requirement),
+        userId: actorId
+      })
+      return requirement
+    })
+  }
+
+  static async deleteRequirement(requirementId: string, actorId: string): Promise<void> {
+    const sql = 'DELETE FROM requirements WHERE id = $1'
+    await this.transaction(async () => {
+      const row = await this.findRow('requirements', requirementId, 'Requirement')
+      await this.query(sql, [requirementId])
+      await this.createActivity({ ...requirementDeleted(row.project_id, mapRequirementRow(row)), userId: actorId })
+    })
   }
 
   // Documents
-  static async getDocuments(projectId: string): Promise<any[]> {
+  // Every version of every document; Document.isCurrent tells the current ones
+  static async getDocuments(projectId: string): Promise<Document[]> {
     const sql = `
-      SELECT * FROM documents 
-      WHERE project_id = $1 
-      ORDER BY created_at DESC
+      ${DOCUMENT_ROWS_SQL}
+      WHERE d.project_id = $1
+      ORDER BY d.created_at DESC
     `
     const result = await this.query(sql, [projectId])
-    return result.rows
+    return result.rows.map(mapDocumentRow)
+  }
+
+  static async getDocument(documentId: string): Promise<Document | null> {
+    const sql = `${DOCUMENT_ROWS_SQL} WHERE d.id = $1`
+    const result = await this.query(sql, [documentId])
+    return result.rows[0] ? mapDocumentRow(result.rows[0]) : null
+  }
+
+  // With the uploader's name, like getDocument; not_found when there is no such document
+  private static async findDocument(documentId: string): Promise<Document> {
+    const document = await this.getDocument(documentId)
+    if (!document) {
+      throw new DatabaseError('Document not found', 'not_found')
+    }
+    return document
+  }
+
+  static async getDocumentVersions(documentId: string): Promise<Document[]> {
+    await this.findRow('documents', documentId, 'Document')
+    return getDocumentVersions((text, params) => this.query(text, params), documentId)
+  }
+
+  // Storage key of the document's file, or null when it was created without one
+  static async getDocumentFilePath(documentId: string): Promise<string | null> {
+    const row = await this.findRow('documents', documentId, 'Document')
+    return row.file_path || null
   }
 
-  static async createDocument(documentData: any): Promise<any> {
+  // Refuses a file already in the project (DatabaseError 'unique_violation'); with versionOf, the
+  // file becomes the next version of that document
+  static async createDocument(documentData: {
+    projectId: string
+    filename: string
+    filePath: string
+    fileSize: number
+    documentType: string
+    mimeType: string
+    uploadedBy: string
+    contentHash: string
+    extraction: DocumentExtraction
+  } & DocumentVersionInput): Promise<Document> {
+    const { extraction, ...row } = documentData
+    return this.transaction(async () => {
+      const documentId = await insertDocument((text, params) => this.query(text, params), row)
+      const document = await this.saveDocumentExtraction(documentId, extraction)
+      await this.createActivity({ ...documentUploaded(document), userId: documentData.uploadedBy })
+      return document
+    })
+  }
+
+  static async findDuplicateDocument(projectId: string, hash: string): Promise<Document | null> {
+    return findDuplicateDocument((text, params) => this.query(text, params), projectId, hash)
+  }
+
+  static async saveDocumentExtraction(documentId: string, extraction: DocumentExtraction): Promise<Document> {
+    return saveDocumentExtraction((text, params) => this.query(text, params), documentId, extraction)
+  }
+
+  // A document's text extracted again from its file, recorded as an update to the document
+  static async reprocessDocument(documentId: string, extraction: DocumentExtraction, actorId: string): Promise<Document> {
+    return this.transaction(async () => {
+      const before = await this.findDocument(documentId)
+      const document = await this.saveDocumentExtraction(documentId, extraction)
+      await this.createActivity({ ...documentUpdated(before, document), userId: actorId })
+      return document
+    })
+  }
+
+  static async updateDocument(documentId: string, updates: DocumentUpdate, actorId: string): Promise<Document> {
+    const entries = Object.entries(updates).filter(([key]) => key in DOCUMENT_COLUMNS)
+    const setClause = entries
+      .map(([key], index) => `${DOCUMENT_COLUMNS[key as keyof DocumentUpdate]} = $${index + 2}`)
+      .concat(metadataEditsClause(entries.map(([key]) => key)) || [])
+      .concat('updated_at = NOW()')
+      .join(', ')
+
     const sql = `
-      INSERT INTO documents (
-        project_id, filename, file_path, file_size, 
-        document_type, mime_type, uploaded_by
-      )
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-      RETURNING *
+      UPDATE documents
+      SET ${setClause}
+      WHERE id = $1
     `
-    const values = [
-      documentData.projectId,
-      documentData.filename,
-      documentData.filePath,
-      documentData.fileSize,
-      documentData.documentType,
-      documentData.mimeType,
-      documentData.uploadedBy
-    ]
-    const result = await this.query(sql, values)
-    return result.rows[0]
+    const values = [documentId, ...entries.map(([, value]) => value)]
+    return this.transaction(async () => {
+      const before = await this.findDocument(documentId)
+      await this.query(sql, values)
+      const document = await this.findDocument(documentId)
+      await this.createActivity({ ...documentUpdated(before, document), userId: actorId })
+      return document
+    })
+  }
+
+  static async makeCurrentVersion(documentId: string, actorId: string): Promise<Document> {
+    return this.transaction(async () => {
+      const before = await this.findDocument(documentId)
+      await makeCurrentVersion((text, params) => this.query(text, params), documentId)
+      const document = await this.findDocument(documentId)
+      await this.createActivity({ ...documentUpdated(before, document), userId: actorId })
+      return document
+    })
+  }
+
+  // Resolves to the deleted document's storage key so the caller can remove the file
+  static async deleteDocument(documentId: string, actorId: string): Promise<string | null> {
+    const sql = 'DELETE FROM documents WHERE id = $1'
+    return this.transaction(async () => {
+      const row = await this.findRow('documents', documentId, 'Document')
+      await this.query(sql, [documentId])
+      await promoteLatestVersion((text, params) => this.query(text, params), row.lineage_id)
+      await this.createActivity({ ...documentDeleted(mapDocumentRow(row)), userId: actorId })
+      return row.file_path || null
+    })
   }
 
   // Activities
-  static async getActivities(userId: string, limit: number = 50): Promise<any[]> {
-    const sql = `
-      SELECT a.*, p.name as project_name
-      FROM activities a
+  static async getActivities(workspaceId: string, userId: string, query: ActivityQuery = {}): Promise<Page<Activity>> {
+    const list = buildListSql(ACTIVITY_LIST_SQL, query, {
+      select: 'a.*, p.name as project_name, u.name as user_name, u.email as user_email',
+      from: `activities a
       LEFT JOIN projects p ON a.project_id = p.id
-      WHERE a.user_id = $1
-      ORDER BY a.created_at DESC
-      LIMIT $2
-    `
-    const result = await this.query(sql, [userId, limit])
-    return result.rows
+      LEFT JOIN users u ON a.user_id = u.id`,
+      conditions: [WORKSPACE_ACTIVITY_CONDITION],
+      params: [workspaceId, userId]
+    })
+    const result = await this.query(list.sql, list.params)
+    const count = await this.query(list.countSql, list.countParams)
+    return toPage(result.rows, count.rows[0].total, list, mapActivityRow)
   }
 
-  static async createActivity(activityData: any): Promise<any> {
+  // Project activities go to the project's workspace, others to `workspaceId` (none for team-wide events)
+  static async createActivity(activityData: ActivityInput & { userId: string; workspaceId?: string }): Promise<Activity> {
     const sql = `
       INSERT INTO activities (
         project_id, user_id, type, action, target, 
-        title, description, metadata
+        title, description, metadata, workspace_id
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      RETURNING *
+      VALUES (
+        $1, $2, $3, $4, $5, $6, $7,
+        COALESCE((SELECT jsonb_build_object('projectName', name) FROM projects WHERE id = $1), '{}'::jsonb) || $8::jsonb,
+        COALESCE((SELECT workspace_id FROM projects WHERE id = $1), $9)
+      )
+      RETURNING *,
+        (SELECT name FROM projects WHERE id = project_id) AS project_name,
+        (SELECT name FROM users WHERE id = user_id) AS user_name,
+        (SELECT email FROM users WHERE id = user_id) AS user_email
     `
     const values = [
-      activityData.projectId,
+      activityData.projectId || null,
       activityData.userId,
       activityData.type,
       activityData.action,
-      activityData.target,
-      activityData.title,
-      activityData.description,
-      JSON.stringify(activityData.metadata || {})
+      activityData.target || null,
+      activityData.title || null,
+      activityData.description || null,
+      JSON.stringify(activityData.metadata || {}),
+      activityData.workspaceId || null
     ]
-    const result = await this.query(sql, values)
-    return result.rows[0]
+    return this.transaction(async () => {
+      const result = await this.query(sql, values)
+      await appendAuditEntry((text, params) => this.query(text, params), result.rows[0])
+      return mapActivityRow(result.rows[0])
+    })
+  }
+
+  // Tamper-evident audit log (every activity, hash-chained; see ./audit-chain), one workspace's entries at a time
+  static async getAuditLog(workspaceId: string, query: AuditLogQuery = {}): Promise<Page<AuditLogEntry>> {
+    return getAuditLogPage((text, params) => this.query(text, params), query, workspaceId)
+  }
+
+  static async verifyAuditLog(workspaceId: string): Promise<AuditVerification> {
+    return verifyAuditLog((text, params) => this.query(text, params), workspaceId)
+  }
+
+  // Unsigned: only the API server holds a signing key
+  static async exportAuditEvidence(workspaceId: string, exportedBy: string): Promise<AuditEvidence> {
+    const verification = await this.verifyAuditLog(workspaceId)
+    const entries = (await getAllAuditLogEntries((text, params) => this.query(text, params), workspaceId))
+      .filter(entry => entry.seq <= (verification.head?.seq ?? 0))
+    return buildAuditEvidence(entries, verification, exportedBy, workspaceId)
   }
 
   // Aurora-specific features
   static async getConnectionHealth(): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         status: 'healthy',
         connection: 'demo-mode',
@@ -258,7 +752,7 @@ export class AuroraService {
   }
 
   static async getAuroraMetrics(): Promise<any> {
-    if (APP_CONSTANTS.DEMO_MODE) {
+    if (this.isDemoMode()) {
       return {
         connections: 5,
         cpu_utilization: 25.5,
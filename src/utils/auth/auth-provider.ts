@@ -0,0 +1,112 @@
+import type { AccountInvitation } from '../../types'
+
+// Authentication backends (Supabase Auth, OpenID Connect, the API server's own accounts) behind
+// one interface, so AuthService and AuthContext don't depend on a particular identity provider.
+
+export type AuthProviderName = 'supabase' | 'oidc' | 'server'
+
+export interface AuthUser {
+  id: string
+  email: string
+  name?: string
+  access_token?: string
+  // Whether the provider has verified `email`; unknown counts as unverified
+  emailVerified?: boolean
+}
+
+export interface AuthSession {
+  user: AuthUser
+  accessToken: string
+  refreshToken?: string
+  idToken?: string
+  // Epoch milliseconds; undefined when the provider doesn't say
+  expiresAt?: number
+}
+
+export type AuthEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'TOKEN_REFRESHED' | 'USER_UPDATED'
+
+export type AuthStateListener = (event: AuthEvent, session: AuthSession | null) => void
+
+export interface SignUpResult {
+  // The account can't sign in until the link emailed to the user has been opened
+  verificationRequired: boolean
+}
+
+// Account lifecycle run by us rather than the identity provider: verification, password reset
+// and invitation emails with one-time links (see server/accounts.ts)
+export interface AccountManagement {
+  verifyEmail(token: string): Promise<void>
+  resendVerification(email: string): Promise<void>
+  requestPasswordReset(email: string): Promise<void>
+  resetPassword(token: string, password: string): Promise<void>
+  getInvitation(token: string): Promise<AccountInvitation>
+  // Sets the invitee's password and signs them in
+  acceptInvitation(token: string, password: string, name?: string): Promise<AuthSession>
+}
+
+export interface AuthProvider {
+  readonly name: AuthProviderName
+  // `iss` of the provider's tokens; with the subject it identifies a user across providers
+  readonly issuer: string
+  // Sign-in happens on the identity provider's own page (authorization code flow)
+  readonly usesRedirect: boolean
+  // Null when the identity provider looks after passwords and verification itself
+  readonly accounts: AccountManagement | null
+
+  signIn(email: string, password: string): Promise<AuthSession>
+  signUp(email: string, password: string, name: string): Promise<SignUpResult>
+  // Send the browser to the identity provider; only meaningful when usesRedirect is set
+  signInWithRedirect(options?: { loginHint?: string }): Promise<void>
+  // Finish a redirect sign-in from the current URL; resolves to null when there is nothing to finish
+  completeSignIn(): Promise<AuthSession | null>
+  signOut(): Promise<void>
+
+  // Current session, refreshed first when the access token is about to expire
+  getSession(): Promise<AuthSession | null>
+  refreshSession(): Promise<AuthSession | null>
+
+  // Returns a function that removes the listener
+  onAuthStateChange(listener: AuthStateListener): () => void
+}
+
+export type AuthErrorCode =
+  | 'invalid_credentials'
+  | 'email_not_verified'
+  | 'not_supported'
+  | 'not_configured'
+  | 'session_expired'
+  | 'provider_error'
+
+export class AuthError extends Error {
+  constructor(message: string, public code: AuthErrorCode = 'provider_error') {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+// Refresh this long before the access token expires, so requests in flight don't race the expiry
+export const REFRESH_MARGIN_MS = 60 * 1000
+
+const decodeBase64Url = (value: string): string => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '==='.slice((base64.length + 3) % 4)
+  const binary = atob(padded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return new TextDecoder().decode(bytes)
+}
+
+// Claims of a JWT without checking its signature; only for tokens received directly from the issuer
+export const decodeJwtClaims = (token: string): Record<string, any> => {
+  const payload = token.split('.')[1]
+  if (!payload) {
+    throw new AuthError('Malformed token received from the identity provider')
+  }
+  try {
+    return JSON.parse(decodeBase64Url(payload))
+  } catch {
+    throw new AuthError('Malformed token received from the identity provider')
+  }
+}
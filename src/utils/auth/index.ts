@@ -0,0 +1,69 @@
+import { APP_CONSTANTS } from '../constants'
+import { supabase, supabaseAuthConfig } from '../supabase'
+import { SupabaseAuthProvider } from './supabase-auth'
+import { OidcAuthProvider } from './oidc-auth'
+import { ServerAuthProvider } from './server-auth'
+import type { AuthProvider } from './auth-provider'
+
+export * from './auth-provider'
+
+// Helper function to safely access environment variables
+const getEnvVar = (key: string, defaultValue: string = ''): string => {
+  if (typeof process !== 'undefined' && process.env) {
+    return process.env[key] || defaultValue
+  }
+  return defaultValue
+}
+
+const appOrigin = typeof window !== 'undefined' ? `${window.location.origin}/` : ''
+
+export const AUTH_CONFIG = {
+  // 'cognito' is kept as an alias for 'oidc'
+  provider: APP_CONSTANTS.AUTH_PROVIDER === 'cognito' ? 'oidc' : APP_CONSTANTS.AUTH_PROVIDER,
+
+  // Cognito user pool or Keycloak realm (see help/api-server.md)
+  oidc: {
+    issuer: getEnvVar('OIDC_ISSUER'),
+    clientId: getEnvVar('OIDC_CLIENT_ID'),
+    redirectUri: getEnvVar('OIDC_REDIRECT_URI', appOrigin),
+    postLogoutRedirectUri: getEnvVar('OIDC_POST_LOGOUT_REDIRECT_URI', appOrigin),
+    scope: getEnvVar('OIDC_SCOPE', 'openid profile email'),
+    passwordGrant: getEnvVar('OIDC_PASSWORD_GRANT') === 'true',
+    signUpUrl: getEnvVar('OIDC_SIGNUP_URL') || undefined,
+    logoutUrl: getEnvVar('OIDC_LOGOUT_URL') || undefined
+  },
+
+  // Accounts on the self-hosted API server, which also sends the account emails
+  server: {
+    baseUrl: APP_CONSTANTS.API_BASE_URL
+  }
+}
+
+// Auth Factory
+export class AuthFactory {
+  private static instance: AuthProvider | null = null
+
+  static getInstance(): AuthProvider {
+    if (!this.instance) {
+      this.instance = this.createProvider()
+    }
+    return this.instance
+  }
+
+  private static createProvider(): AuthProvider {
+    switch (AUTH_CONFIG.provider) {
+      case 'oidc':
+        return new OidcAuthProvider(AUTH_CONFIG.oidc)
+      case 'server':
+        return new ServerAuthProvider(AUTH_CONFIG.server)
+      case 'supabase':
+      default:
+        return new SupabaseAuthProvider(supabase, supabaseAuthConfig)
+    }
+  }
+
+  // Reset instance (useful for testing or switching providers)
+  static resetInstance(): void {
+    this.instance = null
+  }
+}
@@ -0,0 +1,350 @@
+import { APP_CONSTANTS } from '../constants'
+import {
+  AuthError,
+  decodeJwtClaims,
+  REFRESH_MARGIN_MS,
+  type AuthEvent,
+  type AuthProvider,
+  type AuthSession,
+  type AuthStateListener,
+  type AuthUser,
+  type SignUpResult
+} from './auth-provider'
+
+// Generic OpenID Connect: Amazon Cognito user pools, Keycloak, or any issuer with a discovery document.
+// Sign-in is the authorization code flow with PKCE; Keycloak clients with "Direct access grants"
+// enabled can also take email and password on our own form (OAuth password grant).
+
+export interface OidcAuthConfig {
+  // e.g. https://cognito-idp.<region>.amazonaws.com/<pool id> or http://localhost:8080/realms/<realm>
+  issuer: string
+  clientId: string
+  redirectUri: string
+  postLogoutRedirectUri: string
+  scope: string
+  passwordGrant: boolean
+  // Registration page that takes the same query parameters as the authorization endpoint,
+  // e.g. https://<domain>.auth.<region>.amazoncognito.com/signup or <issuer>/protocol/openid-connect/registrations
+  signUpUrl?: string
+  // Cognito has no end_session_endpoint in its discovery document; its hosted UI /logout goes here
+  logoutUrl?: string
+}
+
+interface DiscoveryDocument {
+  authorization_endpoint: string
+  token_endpoint: string
+  end_session_endpoint?: string
+}
+
+interface TokenResponse {
+  access_token: string
+  id_token?: string
+  refresh_token?: string
+  expires_in?: number
+}
+
+// State kept across the redirect to the identity provider and back
+interface PendingSignIn {
+  state: string
+  codeVerifier: string
+  nonce: string
+}
+
+// Query parameters the identity provider appends to redirectUri
+const CALLBACK_PARAMS = ['code', 'state', 'session_state', 'iss', 'error', 'error_description']
+
+const base64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode.apply(null, Array.from(bytes)))
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+
+const randomString = (byteLength: number = 32): string =>
+  base64Url(crypto.getRandomValues(new Uint8Array(byteLength)))
+
+const pkceChallenge = async (verifier: string): Promise<string> =>
+  base64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))))
+
+const userFromClaims = (claims: Record<string, any>, accessToken: string): AuthUser => {
+  const fullName = [claims.given_name, claims.family_name].filter(Boolean).join(' ')
+  return {
+    id: claims.sub,
+    email: claims.email || '',
+    name: claims.name || fullName || claims.preferred_username || claims['cognito:username'] || undefined,
+    access_token: accessToken,
+    // Cognito sends email_verified as a string
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true'
+  }
+}
+
+export class OidcAuthProvider implements AuthProvider {
+  readonly name = 'oidc'
+  readonly issuer: string
+  readonly usesRedirect: boolean
+  // Registration, verification and password resets happen on the identity provider's pages
+  readonly accounts = null
+
+  private discovery: Promise<DiscoveryDocument> | null = null
+  private refreshing: Promise<AuthSession | null> | null = null
+  private listeners = new Set<AuthStateListener>()
+
+  constructor(private config: OidcAuthConfig) {
+    if (!config.issuer || !config.clientId) {
+      throw new AuthError('OIDC_ISSUER and OIDC_CLIENT_ID must be set for the oidc auth provider', 'not_configured')
+    }
+    this.issuer = config.issuer.replace(/\/+$/, '')
+    this.usesRedirect = !config.passwordGrant
+  }
+
+  // Discovery
+
+  private getDiscovery(): Promise<DiscoveryDocument> {
+    if (!this.discovery) {
+      this.discovery = fetch(`${this.issuer}/.well-known/openid-configuration`)
+        .then(response => {
+          if (!response.ok) {
+            throw new AuthError(`OIDC discovery failed with ${response.status}`, 'not_configured')
+          }
+          return response.json()
+        })
+      this.discovery.catch(() => {
+        this.discovery = null
+      })
+    }
+    return this.discovery
+  }
+
+  // Session storage
+
+  private loadSession(): AuthSession | null {
+    try {
+      const saved = window.localStorage.getItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.AUTH_SESSION)
+      return saved ? JSON.parse(saved) : null
+    } catch {
+      return null
+    }
+  }
+
+  private saveSession(session: AuthSession | null): void {
+    if (session) {
+      window.localStorage.setItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.AUTH_SESSION, JSON.stringify(session))
+    } else {
+      window.localStorage.removeItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.AUTH_SESSION)
+    }
+  }
+
+  private emit(event: AuthEvent, session: AuthSession | null): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event, session)
+      } catch (error) {
+        console.error('Auth state listener failed:', error)
+      }
+    })
+  }
+
+  // Token endpoint
+
+  private async requestTokens(params: Record<string, string>): Promise<TokenResponse> {
+    const { token_endpoint } = await this.getDiscovery()
+    let response: Response
+    try {
+      response = await fetch(token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ client_id: this.config.clientId, ...params }).toString()
+      })
+    } catch (error) {
+      throw new AuthError(`Identity provider unreachable: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      // invalid_grant covers wrong passwords as well as expired or revoked refresh tokens
+      const code = body.error === 'invalid_grant' ? 'invalid_credentials' : 'provider_error'
+      throw new AuthError(body.error_description || body.error || `Token request failed with ${response.status}`, code)
+    }
+    return body
+  }
+
+  private toSession(tokens: TokenResponse, previous?: AuthSession | null, nonce?: string): AuthSession {
+    const idToken = tokens.id_token || previous?.idToken
+    // The ID token has the profile claims; fall back to the access token, which Keycloak fills in too
+    const claims = decodeJwtClaims(idToken || tokens.access_token)
+    if (nonce && tokens.id_token && claims.nonce !== nonce) {
+      throw new AuthError('ID token nonce does not match the sign-in request')
+    }
+    return {
+      user: userFromClaims(claims, tokens.access_token),
+      accessToken: tokens.access_token,
+      // Cognito doesn't rotate refresh tokens, so keep the one we have
+      refreshToken: tokens.refresh_token || previous?.refreshToken,
+      idToken,
+      expiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined
+    }
+  }
+
+  // Redirect helpers
+
+  private async redirectTo(endpoint: string, extra: Record<string, string> = {}): Promise<void> {
+    const pending: PendingSignIn = { state: randomString(), codeVerifier: randomString(48), nonce: randomString() }
+    window.sessionStorage.setItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.AUTH_PENDING, JSON.stringify(pending))
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scope,
+      state: pending.state,
+      nonce: pending.nonce,
+      code_challenge: await pkceChallenge(pending.codeVerifier),
+      code_challenge_method: 'S256',
+      ...extra
+    })
+    window.location.assign(`${endpoint}?${params.toString()}`)
+  }
+
+  // AuthProvider
+
+  async signIn(email: string, password: string): Promise<AuthSession> {
+    if (!this.config.passwordGrant) {
+      throw new AuthError('This identity provider signs users in on its own page', 'not_supported')
+    }
+    const tokens = await this.requestTokens({ grant_type: 'password', username: email, password, scope: this.config.scope })
+    const session = this.toSession(tokens)
+    this.saveSession(session)
+    this.emit('SIGNED_IN', session)
+    return session
+  }
+
+  async signUp(): Promise<SignUpResult> {
+    if (!this.config.signUpUrl) {
+      throw new AuthError('Accounts are created by your identity provider administrator', 'not_supported')
+    }
+    await this.redirectTo(this.config.signUpUrl)
+    return { verificationRequired: false }
+  }
+
+  async signInWithRedirect(options: { loginHint?: string } = {}): Promise<void> {
+    const { authorization_endpoint } = await this.getDiscovery()
+    await this.redirectTo(authorization_endpoint, options.loginHint ? { login_hint: options.loginHint } : {})
+  }
+
+  async completeSignIn(): Promise<AuthSession | null> {
+    const url = new URL(window.location.href)
+    const code = url.searchParams.get('code')
+    const error = url.searchParams.get('error')
+    const errorDescription = url.searchParams.get('error_description')
+    if (!code && !error) {
+      return null
+    }
+
+    const saved = window.sessionStorage.getItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.AUTH_PENDING)
+    window.sessionStorage.removeItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.AUTH_PENDING)
+    const pending: PendingSignIn | null = saved ? JSON.parse(saved) : null
+    if (!pending || url.searchParams.get('state') !== pending.state) {
+      // Not a response to our own request; leave the URL alone
+      return null
+    }
+
+    // Drop code and state from the address bar so a reload doesn't replay them
+    CALLBACK_PARAMS.forEach(name => url.searchParams.delete(name))
+    window.history.replaceState(window.history.state, '', url.toString())
+
+    if (error) {
+      throw new AuthError(errorDescription || error, 'invalid_credentials')
+    }
+
+    const tokens = await this.requestTokens({
+      grant_type: 'authorization_code',
+      code: code as string,
+      redirect_uri: this.config.redirectUri,
+      code_verifier: pending.codeVerifier
+    })
+    const session = this.toSession(tokens, null, pending.nonce)
+    this.saveSession(session)
+    this.emit('SIGNED_IN', session)
+    return session
+  }
+
+  async signOut(): Promise<void> {
+    const session = this.loadSession()
+    this.saveSession(null)
+    this.emit('SIGNED_OUT', null)
+
+    // End the identity provider's own session too, or the next sign-in would skip the login page
+    const logoutUrl = this.config.logoutUrl || (await this.getDiscovery().catch(() => null))?.end_session_endpoint
+    if (!logoutUrl || !this.usesRedirect) {
+      return
+    }
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      post_logout_redirect_uri: this.config.postLogoutRedirectUri,
+      // Cognito's name for post_logout_redirect_uri
+      logout_uri: this.config.postLogoutRedirectUri
+    })
+    if (session?.idToken) {
+      params.set('id_token_hint', session.idToken)
+    }
+    window.location.assign(`${logoutUrl}?${params.toString()}`)
+  }
+
+  async getSession(): Promise<AuthSession | null> {
+    const session = this.loadSession()
+    if (!session) {
+      return null
+    }
+    if (session.expiresAt && session.expiresAt - REFRESH_MARGIN_MS < Date.now()) {
+      try {
+        return await this.refreshSession()
+      } catch (error) {
+        // Keep the current tokens through a network blip; a rejected refresh token has already signed out
+        return error instanceof AuthError && error.code === 'session_expired' ? null : session
+      }
+    }
+    return session
+  }
+
+  async refreshSession(): Promise<AuthSession | null> {
+    // Several requests can notice the expiry at once; they share one refresh
+    if (!this.refreshing) {
+      this.refreshing = this.refresh().finally(() => {
+        this.refreshing = null
+      })
+    }
+    return this.refreshing
+  }
+
+  private async refresh(): Promise<AuthSession | null> {
+    const current = this.loadSession()
+    if (!current?.refreshToken) {
+      if (current) {
+        this.saveSession(null)
+        this.emit('SIGNED_OUT', null)
+      }
+      return null
+    }
+
+    try {
+      const tokens = await this.requestTokens({ grant_type: 'refresh_token', refresh_token: current.refreshToken })
+      const session = this.toSession(tokens, current)
+      this.saveSession(session)
+      this.emit('TOKEN_REFRESHED', session)
+      return session
+    } catch (error) {
+      if (error instanceof AuthError && error.code === 'invalid_credentials') {
+        this.saveSession(null)
+        this.emit('SIGNED_OUT', null)
+        throw new AuthError('Your session has expired, please sign in again', 'session_expired')
+      }
+      throw error
+    }
+  }
+
+  onAuthStateChange(listener: AuthStateListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { APP_CONSTANTS } from '../constants'
+import {
+  AuthError,
+  decodeJwtClaims,
+  type AccountManagement,
+  type AuthErrorCode,
+  type AuthEvent,
+  type AuthProvider,
+  type AuthSession,
+  type AuthStateListener,
+  type SignUpResult
+} from './auth-provider'
+import type { AccountInvitation } from '../../types'
+
+// Email and password accounts kept by the self-hosted API server (/auth/* in server/routes/auth.ts),
+// for deployments without Supabase Auth or an OpenID Connect provider. The server also sends the
+// verification, password reset and invitation emails. Its access tokens can't be refreshed;
+// users sign in again once one expires (JWT_EXPIRY).
+
+export interface ServerAuthConfig {
+  // API_BASE_URL, e.g. http://localhost:54321/functions/v1/make-server-6545ae52
+  baseUrl: string
+}
+
+interface SignInResponse {
+  access_token: string
+  user: { id: string; email: string; name?: string }
+}
+
+const errorCode = (status: number, code?: string): AuthErrorCode => {
+  if (code === 'email_not_verified') {
+    return 'email_not_verified'
+  }
+  return status === 401 ? 'invalid_credentials' : 'provider_error'
+}
+
+export class ServerAuthProvider implements AuthProvider, AccountManagement {
+  readonly name = 'server'
+  readonly usesRedirect = false
+  readonly accounts: AccountManagement = this
+  readonly issuer: string
+
+  private listeners = new Set<AuthStateListener>()
+
+  constructor(private config: ServerAuthConfig) {
+    if (!config.baseUrl) {
+      throw new AuthError('API_BASE_URL must be set for the server auth provider', 'not_configured')
+    }
+    this.issuer = config.baseUrl.replace(/\/+$/, '')
+  }
+
+  private async request<T>(path: string, body?: object): Promise<T> {
+    let response: Response
+    try {
+      response = await fetch(`${this.issuer}${path}`, body ? {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      } : undefined)
+    } catch (error) {
+      throw new AuthError(`API server unreachable: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new AuthError(result.error || `Request failed with ${response.status}`, errorCode(response.status, result.code))
+    }
+    return result
+  }
+
+  // Session storage
+
+  private loadSession(): AuthSession | null {
+    try {
+      const saved = window.localStorage.getItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.AUTH_SESSION)
+      return saved ? JSON.parse(saved) : null
+    } catch {
+      return null
+    }
+  }
+
+  private saveSession(session: AuthSession | null): void {
+    if (session) {
+      window.localStorage.setItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.AUTH_SESSION, JSON.stringify(session))
+    } else {
+      window.localStorage.removeItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.AUTH_SESSION)
+    }
+  }
+
+  private emit(event: AuthEvent, session: AuthSession | null): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event, session)
+      } catch (error) {
+        console.error('Auth state listener failed:', error)
+      }
+    })
+  }
+
+  private startSession(response: SignInResponse): AuthSession {
+    const { exp } = decodeJwtClaims(response.access_token)
+    const session: AuthSession = {
+      user: { ...response.user, access_token: response.access_token },
+      accessToken: response.access_token,
+      expiresAt: exp ? exp * 1000 : undefined
+    }
+    this.saveSession(session)
+    this.emit('SIGNED_IN', session)
+    return session
+  }
+
+  // AuthProvider
+
+  async signIn(email: string, password: string): Promise<AuthSession> {
+    return this.startSession(await this.request<SignInResponse>('/auth/signin', { email, password }))
+  }
+
+  async signUp(email: string, password: string, name: string): Promise<SignUpResult> {
+    const { verificationRequired } = await this.request<SignUpResult>('/auth/signup', { email, password, name })
+    return { verificationRequired: Boolean(verificationRequired) }
+  }
+
+  async signInWithRedirect(): Promise<void> {
+    throw new AuthError('The API server signs users in with email and password', 'not_supported')
+  }
+
+  async completeSignIn(): Promise<AuthSession | null> {
+    return null
+  }
+
+  async signOut(): Promise<void> {
+    this.saveSession(null)
+    this.emit('SIGNED_OUT', null)
+  }
+
+  async getSession(): Promise<AuthSession | null> {
+    const session = this.loadSession()
+    if (session?.expiresAt && session.expiresAt < Date.now()) {
+      await this.signOut()
+      return null
+    }
+    return session
+  }
+
+  async refreshSession(): Promise<AuthSession | null> {
+    const session = await this.getSession()
+    if (!session) {
+      throw new AuthError('Your session has expired, please sign in again', 'session_expired')
+    }
+    return session
+  }
+
+  onAuthStateChange(listener: AuthStateListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // AccountManagement
+
+  async verifyEmail(token: string): Promise<void> {
+    await this.request('/auth/verify-email', { token })
+  }
+
+  async resendVerification(email: string): Promise<void> {
+    await this.request('/auth/resend-verification', { email })
+  }
+
+  async requestPasswordReset(email: string): Promise<void> {
+    await this.request('/auth/forgot-password', { email })
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    await this.request('/auth/reset-password', { token, password })
+  }
+
+  async getInvitation(token: string): Promise<AccountInvitation> {
+    const { invitation } = await this.request<{ invitation: AccountInvitation }>(`/auth/invitations/${encodeURIComponent(token)}`)
+    return invitation
+  }
+
+  async acceptInvitation(token: string, password: string, name?: string): Promise<AuthSession> {
+    return this.startSession(await this.request<SignInResponse>('/auth/accept-invitation', { token, password, name }))
+  }
+}
@@ -0,0 +1,122 @@
+import type { supabase as supabaseClient } from '../supabase'
+import {
+  AuthError,
+  type AuthProvider,
+  type AuthSession,
+  type AuthStateListener,
+  type AuthUser,
+  type SignUpResult
+} from './auth-provider'
+
+// Supabase Auth through supabase-js, which stores and refreshes the session itself.
+
+export interface SupabaseAuthConfig {
+  // https://<project>.supabase.co/auth/v1
+  issuer: string
+  // Edge function route that creates users with a confirmed email
+  signUpUrl: string
+  anonKey: string
+}
+
+const toSession = (session: any): AuthSession | null => {
+  if (!session?.user) {
+    return null
+  }
+  const user: AuthUser = {
+    id: session.user.id,
+    email: session.user.email || '',
+    name: session.user.user_metadata?.name,
+    access_token: session.access_token,
+    emailVerified: Boolean(session.user.email_confirmed_at)
+  }
+  return {
+    user,
+    accessToken: session.access_token,
+    refreshToken: session.refresh_token,
+    expiresAt: session.expires_at ? session.expires_at * 1000 : undefined
+  }
+}
+
+export class SupabaseAuthProvider implements AuthProvider {
+  readonly name = 'supabase'
+  readonly usesRedirect = false
+  // Supabase Auth sends its own account emails
+  readonly accounts = null
+
+  constructor(private client: typeof supabaseClient, private config: SupabaseAuthConfig) {}
+
+  get issuer(): string {
+    return this.config.issuer
+  }
+
+  async signIn(email: string, password: string): Promise<AuthSession> {
+    const { data, error } = await this.client.auth.signInWithPassword({ email, password })
+    if (error) {
+      throw new AuthError(error.message, 'invalid_credentials')
+    }
+    return toSession(data.session) as AuthSession
+  }
+
+  // The edge function confirms the email, so the user can sign in straight away
+  async signUp(email: string, password: string, name: string): Promise<SignUpResult> {
+    const response = await fetch(this.config.signUpUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.anonKey}`
+      },
+      body: JSON.stringify({ email, password, name })
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new AuthError(error.error || 'Signup failed')
+    }
+    return { verificationRequired: false }
+  }
+
+  async signInWithRedirect(): Promise<void> {
+    throw new AuthError('Supabase sign-in uses email and password', 'not_supported')
+  }
+
+  async completeSignIn(): Promise<AuthSession | null> {
+    return null
+  }
+
+  async signOut(): Promise<void> {
+    const { error } = await this.client.auth.signOut()
+    if (error) {
+      throw new AuthError(error.message)
+    }
+  }
+
+  async getSession(): Promise<AuthSession | null> {
+    const { data, error } = await this.client.auth.getSession()
+    return error ? null : toSession(data.session)
+  }
+
+  async refreshSession(): Promise<AuthSession | null> {
+    const { data, error } = await this.client.auth.refreshSession()
+    if (error) {
+      throw new AuthError(error.message, 'session_expired')
+    }
+    return toSession(data.session)
+  }
+
+  onAuthStateChange(listener: AuthStateListener): () => void {
+    const { data: { subscription } } = this.client.auth.onAuthStateChange((event: string, session: any) => {
+      switch (event) {
+        case 'SIGNED_IN':
+        case 'SIGNED_OUT':
+        case 'TOKEN_REFRESHED':
+        case 'USER_UPDATED':
+          listener(event, toSession(session))
+          break
+        default:
+          // INITIAL_SESSION, PASSWORD_RECOVERY, ...
+          break
+      }
+    })
+    return () => subscription.unsubscribe()
+  }
+}
@@ -9,17 +9,40 @@ const getEnvVar = (key: string, defaultValue: string = ''): string => {
 export const APP_CONSTANTS = {
   APP_NAME: 'QC Reporter',
   VERSION: '1.0.0',
-  DEMO_MODE: getEnvVar('DEMO_MODE') === 'true' || true, // Set to false for production with real authentication
+  DEMO_MODE: getEnvVar('DEMO_MODE', 'true') === 'true', // Set to false for production with real authentication
+  DEMO_SCENARIO: getEnvVar('DEMO_SCENARIO', 'default'), // Demo seed data: 'default', 'empty' or 'large'
+  DEMO_STORAGE: getEnvVar('DEMO_STORAGE', 'local'), // 'local' keeps demo data in localStorage, 'memory' resets on reload
   USE_AURORA_POSTGRES: getEnvVar('USE_AURORA_POSTGRES') === 'true' || false, // Set to true to use Aurora Postgres instead of Supabase database
   
   // Database Configuration
   DATABASE_PROVIDER: getEnvVar('USE_AURORA_POSTGRES') === 'true' ? 'aurora-postgres' : 'supabase',
   
   // Authentication Provider
-  AUTH_PROVIDER: getEnvVar('AUTH_PROVIDER', 'supabase'), // 'supabase' or 'cognito'
+  AUTH_PROVIDER: getEnvVar('AUTH_PROVIDER', 'supabase'), // 'supabase', 'oidc' (Cognito, Keycloak; 'cognito' is an alias) or 'server' (API server accounts); see src/utils/auth
+  
+  // Role-based access control (see src/utils/permissions.ts)
+  DEFAULT_USER_ROLE: getEnvVar('DEFAULT_USER_ROLE', 'qa-reviewer'), // Role of people who join a workspace by invitation (creators manage their workspaces)
+  DEMO_ROLE: getEnvVar('DEMO_ROLE', 'qa-manager'), // Role of the demo user; try 'validator' or 'model-developer' to see the restricted UI
+  
+  // Organizations: projects belong to a workspace, picked with the switcher in the header
+  WORKSPACE_HEADER: 'X-Workspace-Id', // Request header carrying the active workspace to the API server
+  WORKSPACE_INVITATION_TTL_DAYS: 14, // How long an invitation can be accepted for
+  
+  // Automation: personal API tokens and service accounts (see server/api-tokens.ts)
+  API_TOKEN_PREFIX: 'qcr_', // Marks API tokens apart from sign-in JWTs in the Authorization header
+  API_TOKEN: getEnvVar('API_TOKEN', ''), // Sent by APIService when nobody is signed in, for scripts and pipelines; never set it in a browser build
+  
+  // API Server (leave empty to use the Supabase edge function, e.g. http://localhost:54321/functions/v1/make-server-6545ae52 for the self-hosted server)
+  API_BASE_URL: getEnvVar('API_BASE_URL', ''),
   
   // Storage Provider
-  STORAGE_PROVIDER: getEnvVar('STORAGE_PROVIDER', 'supabase'), // 'supabase' or 's3'
+  STORAGE_PROVIDER: getEnvVar('STORAGE_PROVIDER', 'supabase'), // 'supabase', 's3' (also MinIO) or 'local' (API server only); see src/utils/storage
+  
+  // Pages of scanned documents read with OCR below this confidence (0-100) are flagged for review
+  OCR_CONFIDENCE_THRESHOLD: parseInt(getEnvVar('OCR_CONFIDENCE_THRESHOLD', '70')),
+  
+  // Files sent at the same time from the upload page; each goes in resumable chunks (see src/utils/uploads.ts)
+  MAX_PARALLEL_UPLOADS: parseInt(getEnvVar('MAX_PARALLEL_UPLOADS', '3')),
   
   // Environment
   NODE_ENV: getEnvVar('NODE_ENV', 'development'),
@@ -35,14 +58,28 @@ export const APP_CONSTANTS = {
     REQUIREMENTS_CHECKLIST: '/requirements-checklist',
     REVIEW_SUGGESTIONS: '/compliance',
     COMPLIANCE_REPORT: '/compliance-report',
-    REPORT_LIBRARY: '/report-library'
+    REPORT_LIBRARY: '/report-library',
+    AUDIT_LOG: '/audit-log',
+    TEAM: '/team',
+    WORKSPACE: '/workspace',
+    SETTINGS: '/settings'
+  },
+  
+  // List pagination (cursor-based; see src/utils/list-query.ts)
+  PAGINATION: {
+    DEFAULT_PAGE_SIZE: 50,
+    MAX_PAGE_SIZE: 200
   },
   
   // Local Storage Keys
   LOCAL_STORAGE_KEYS: {
     USER_PREFERENCES: 'qc_user_preferences',
     REPORT_STATE: 'qc_report_state',
-    THEME: 'qc_theme'
+    THEME: 'qc_theme',
+    DEMO_STORE: 'qc_demo_store',
+    AUTH_SESSION: 'qc_auth_session',
+    AUTH_PENDING: 'qc_auth_pending',
+    ACTIVE_WORKSPACE: 'qc_active_workspace'
   },
   
   // Validation Rules
@@ -50,7 +87,28 @@ export const APP_CONSTANTS = {
     MIN_REPORT_NAME_LENGTH: 3,
     MAX_REPORT_NAME_LENGTH: 100,
     MAX_DESCRIPTION_LENGTH: 500,
-    SUPPORTED_FILE_EXTENSIONS: ['.pdf', '.doc', '.docx', '.txt']
+    SUPPORTED_FILE_EXTENSIONS: [
+      '.pdf', '.doc', '.docx', '.txt', '.png', '.jpg', '.jpeg', '.tif', '.tiff', '.bmp',
+      '.xlsx', '.csv', '.html', '.htm', '.md', '.markdown', '.pptx', '.eml', '.msg'
+    ],
+    // Types browsers report for the same files; either one lets a dropped file through
+    SUPPORTED_MIME_TYPES: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/plain',
+      'image/png',
+      'image/jpeg',
+      'image/tiff',
+      'image/bmp',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'text/csv',
+      'text/html',
+      'text/markdown',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'message/rfc822',
+      'application/vnd.ms-outlook'
+    ]
   }
 } as const;
 
@@ -80,6 +138,103 @@ export const REPORT_STATUSES = [
   'failed'
 ] as const;
 
+export const ACTIVITY_TYPES = [
+  'created',
+  'updated',
+  'completed',
+  'commented',
+  'uploaded',
+  'exported',
+  'document-upload',
+  'analysis-complete',
+  'requirement-mapped',
+  'report-generated',
+  'project-created',
+  'compliance-check',
+  'annotation-added',
+  'deadline-approaching',
+  'deleted',
+  'emailed'
+] as const;
+
+// The QA verdict on a requirement; moving into or out of these needs 'requirement:finalize'
+export const FINAL_REQUIREMENT_STATUSES = [
+  'completed',
+  'failed',
+  'compliant',
+  'non-compliant'
+] as const;
+
+// User tiers from the MRM web specs: QA Team (managers and reviewers), Validation Staff
+// and the Model Development Community
+export const USER_ROLES = [
+  'qa-manager',
+  'qa-reviewer',
+  'validator',
+  'model-developer'
+] as const;
+
+// Where an account is in its lifecycle: invited by a manager but not set up yet, signed up but
+// email not verified, or deactivated (can't sign in; kept for the audit trail)
+export const ACCOUNT_STATUSES = [
+  'active',
+  'invited',
+  'unverified',
+  'deactivated'
+] as const;
+
+// What an API token may do, on top of what its owner's role allows (see SCOPE_PERMISSIONS in ./permissions)
+export const API_TOKEN_SCOPES = [
+  'projects:read',
+  'projects:write',
+  'documents:upload',
+  'reports:export',
+  'ai:use'
+] as const;
+
+// Where a document's text came from: not extracted yet (uploaded before extraction existed),
+// extracted, or not extractable because the file is damaged, encrypted or of an unknown format
+export const DOCUMENT_EXTRACTION_STATUSES = [
+  'pending',
+  'completed',
+  'failed',
+  'unsupported'
+] as const;
+
+// Parts of a document's structure (see src/utils/extraction/structure.ts)
+export const DOCUMENT_NODE_TYPES = [
+  'heading',
+  'clause',
+  'list',
+  'table'
+] as const;
+
+export const PERMISSIONS = [
+  'project:create',
+  'project:update',
+  'project:delete',
+  'requirement:create',
+  'requirement:update',
+  'requirement:delete',
+  'requirement:finalize',
+  'document:upload',
+  'document:update',
+  'document:delete',
+  'report:export',
+  'report:email',
+  'ai:use',
+  'audit:read',
+  'users:manage',
+  'workspace:manage'
+] as const;
+
 export type RequirementStatus = typeof REQUIREMENT_STATUSES[number];
 export type PriorityLevel = typeof PRIORITY_LEVELS[number];
-export type ReportStatus = typeof REPORT_STATUSES[number];
\ No newline at end of file
+export type ReportStatus = typeof REPORT_STATUSES[number];
+export type ActivityType = typeof ACTIVITY_TYPES[number];
+export type UserRole = typeof USER_ROLES[number];
+export type AccountStatus = typeof ACCOUNT_STATUSES[number];
+export type Permission = typeof PERMISSIONS[number];
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+export type DocumentExtractionStatus = typeof DOCUMENT_EXTRACTION_STATUSES[number];
+export type DocumentNodeType = typeof DOCUMENT_NODE_TYPES[number];
\ No newline at end of file
@@ -1,129 +1,451 @@
 import { APP_CONSTANTS } from './constants'
-import { APIService as SupabaseAPIService } from './supabase'
+import { APIService as SupabaseAPIService, AuthService } from './supabase'
 import { AuroraService } from './aurora-service'
+import { DEMO_USER } from './demo-scenarios'
+import { AuthFactory, AuthError } from './auth'
+import { StorageFactory, STORAGE_CONFIG, documentKey, projectPrefix } from './storage'
+import { extractDocumentText } from './extraction'
+import { putFile, type DocumentUploadOptions } from './uploads'
+import { contentHash, duplicateDocumentError } from './document-versions'
+import { CLIENT_ACTIVITY_PERMISSIONS, clientReportedActivity } from './audit'
+import { assertPermission, permissionsFor } from './permissions'
+import {
+  validate,
+  validateList,
+  projectSchema,
+  requirementSchema,
+  documentSchema,
+  activitySchema,
+  projectInputSchema,
+  projectUpdateSchema,
+  requirementInputSchema,
+  requirementUpdateSchema,
+  documentUpdateSchema,
+  clientActivityInputSchema,
+  projectQuerySchema,
+  requirementQuerySchema,
+  activityQuerySchema,
+  pageInfoSchema,
+  projectOverviewSchema,
+  requirementFacetsSchema
+} from './validation'
+import type {
+  Project,
+  Requirement,
+  Document,
+  Activity,
+  ProjectInput,
+  ProjectUpdate,
+  RequirementInput,
+  RequirementUpdate,
+  DocumentUpdate,
+  DocumentDownload,
+  ClientActivityInput,
+  ProjectQuery,
+  RequirementQuery,
+  ActivityQuery,
+  PageInfo,
+  ProjectFacets,
+  RequirementFacets,
+  Workspace
+} from '../types'
 
-// Database provider abstraction
+// Result envelopes match the `{ projects }`, `{ project }`, ... shape returned by the API routes.
+// Lists hold one page; facets and averageCompliance cover every record in scope, ignoring filters.
+export interface ProjectsResult {
+  projects: Project[]
+  pageInfo: PageInfo
+  facets: ProjectFacets
+  averageCompliance: number
+}
+export interface ProjectResult { project: Project }
+export interface DeleteResult { success: boolean; deletedId: string }
+export interface RequirementsResult {
+  requirements: Requirement[]
+  pageInfo: PageInfo
+  facets: RequirementFacets
+}
+export interface RequirementResult { requirement: Requirement }
+export interface DocumentsResult { documents: Document[] }
+export interface DocumentResult { document: Document }
+export interface ActivitiesResult {
+  activities: Activity[]
+  pageInfo: PageInfo
+}
+export interface ActivityResult { activity: Activity }
+
+// Database provider abstraction.
+// Providers validate everything they return (and accept) against the schemas in
+// ./validation, so a malformed row raises DataValidationError instead of reaching the UI.
 export interface DatabaseProvider {
   // Projects
-  getProjects(): Promise<any>
-  createProject(projectData: any): Promise<any>
-  updateProject(projectId: string, updates: any): Promise<any>
-  deleteProject(projectId: string): Promise<any>
+  getProjects(query?: ProjectQuery): Promise<ProjectsResult>
+  createProject(projectData: ProjectInput): Promise<ProjectResult>
+  updateProject(projectId: string, updates: ProjectUpdate): Promise<ProjectResult>
+  deleteProject(projectId: string): Promise<DeleteResult>
   
   // Requirements
-  getRequirements(projectId: string): Promise<any>
-  createRequirement(projectId: string, requirementData: any): Promise<any>
+  getRequirements(projectId: string, query?: RequirementQuery): Promise<RequirementsResult>
+  createRequirement(projectId: string, requirementData: RequirementInput): Promise<RequirementResult>
+  updateRequirement(requirementId: string, updates: RequirementUpdate): Promise<RequirementResult>
+  deleteRequirement(requirementId: string): Promise<DeleteResult>
   
   // Documents
-  getDocuments(projectId: string): Promise<any>
-  uploadDocument(file: File, projectId: string, documentType: string): Promise<any>
+  getDocuments(projectId: string): Promise<DocumentsResult>
+  getDocument(documentId: string): Promise<DocumentResult>
+  // Reports progress, can be cancelled, and continues a failed upload (see src/utils/uploads.ts)
+  uploadDocument(file: File, projectId: string, documentType: string, options?: DocumentUploadOptions): Promise<DocumentResult>
+  getDocumentVersions(documentId: string): Promise<DocumentsResult>
+  makeCurrentVersion(documentId: string): Promise<DocumentResult>
+  reprocessDocument(documentId: string): Promise<DocumentResult>
+  getDocumentDownloadUrl(documentId: string): Promise<DocumentDownload>
+  updateDocument(documentId: string, updates: DocumentUpdate): Promise<DocumentResult>
+  deleteDocument(documentId: string): Promise<DeleteResult>
   
   // Activities
-  getActivities(): Promise<any>
+  getActivities(query?: ActivityQuery): Promise<ActivitiesResult>
+  createActivity(activityData: ClientActivityInput): Promise<ActivityResult>
 }
 
 // Supabase Database Provider
 class SupabaseDatabaseProvider implements DatabaseProvider {
-  async getProjects(): Promise<any> {
-    return SupabaseAPIService.getProjects()
+  async getProjects(query: ProjectQuery = {}): Promise<ProjectsResult> {
+    const response = await SupabaseAPIService.getProjects(validate(projectQuerySchema, query, 'project query'))
+    return {
+      projects: validateList(projectSchema, response.projects, 'Project'),
+      pageInfo: validate(pageInfoSchema, response.pageInfo, 'page info'),
+      ...validate(projectOverviewSchema, { facets: response.facets, averageCompliance: response.averageCompliance }, 'project overview')
+    }
   }
   
-  async createProject(projectData: any): Promise<any> {
-    return SupabaseAPIService.createProject(projectData)
+  async createProject(projectData: ProjectInput): Promise<ProjectResult> {
+    const input = validate(projectInputSchema, projectData, 'project input')
+    const response = await SupabaseAPIService.createProject(input)
+    return { project: validate(projectSchema, response.project, 'Project') }
   }
   
-  async updateProject(projectId: string, updates: any): Promise<any> {
-    return SupabaseAPIService.updateProject(projectId, updates)
+  async updateProject(projectId: string, updates: ProjectUpdate): Promise<ProjectResult> {
+    const input = validate(projectUpdateSchema, updates, 'project update')
+    const response = await SupabaseAPIService.updateProject(projectId, input)
+    return { project: validate(projectSchema, response.project, 'Project') }
+  }
+  
+  async deleteProject(projectId: string): Promise<DeleteResult> {
+    const response = await SupabaseAPIService.deleteProject(projectId)
+    return { success: Boolean(response.success), deletedId: response.deletedId || projectId }
+  }
+  
+  async getRequirements(projectId: string, query: RequirementQuery = {}): Promise<RequirementsResult> {
+    const response = await SupabaseAPIService.getRequirements(projectId, validate(requirementQuerySchema, query, 'requirement query'))
+    return {
+      requirements: validateList(requirementSchema, response.requirements, 'Requirement'),
+      pageInfo: validate(pageInfoSchema, response.pageInfo, 'page info'),
+      facets: validate(requirementFacetsSchema, response.facets, 'requirement facets')
+    }
   }
   
-  async deleteProject(projectId: string): Promise<any> {
-    return SupabaseAPIService.deleteProject(projectId)
+  async createRequirement(projectId: string, requirementData: RequirementInput): Promise<RequirementResult> {
+    const input = validate(requirementInputSchema, requirementData, 'requirement input')
+    const response = await SupabaseAPIService.createRequirement(projectId, input)
+    return { requirement: validate(requirementSchema, response.requirement, 'Requirement') }
   }
   
-  async getRequirements(projectId: string): Promise<any> {
-    return SupabaseAPIService.getRequirements(projectId)
+  async updateRequirement(requirementId: string, updates: RequirementUpdate): Promise<RequirementResult> {
+    const input = validate(requirementUpdateSchema, updates, 'requirement update')
+    const response = await SupabaseAPIService.updateRequirement(requirementId, input)
+    return { requirement: validate(requirementSchema, response.requirement, 'Requirement') }
   }
   
-  async createRequirement(projectId: string, requirementData: any): Promise<any> {
-    return SupabaseAPIService.createRequirement(projectId, requirementData)
+  async deleteRequirement(requirementId: string): Promise<DeleteResult> {
+    const response = await SupabaseAPIService.deleteRequirement(requirementId)
+    return { success: Boolean(response.success), deletedId: response.deletedId || requirementId }
   }
   
-  async getDocuments(projectId: string): Promise<any> {
-    return SupabaseAPIService.getDocuments(projectId)
+  async getDocuments(projectId: string): Promise<DocumentsResult> {
+    const response = await SupabaseAPIService.getDocuments(projectId)
+    return { documents: validateList(documentSchema, response.documents, 'Document') }
   }
   
-  async uploadDocument(file: File, projectId: string, documentType: string): Promise<any> {
-    return SupabaseAPIService.uploadDocument(file, projectId, documentType)
+  async getDocument(documentId: string): Promise<DocumentResult> {
+    const response = await SupabaseAPIService.getDocument(documentId)
+    return { document: validate(documentSchema, response.document, 'Document') }
   }
   
-  async getActivities(): Promise<any> {
-    return SupabaseAPIService.getActivities()
+  async uploadDocument(file: File, projectId: string, documentType: string, options: DocumentUploadOptions = {}): Promise<DocumentResult> {
+    const response = await SupabaseAPIService.uploadDocument(file, projectId, documentType, options)
+    return { document: validate(documentSchema, response.document, 'Document') }
+  }
+
+  async getDocumentVersions(documentId: string): Promise<DocumentsResult> {
+    const response = await SupabaseAPIService.getDocumentVersions(documentId)
+    return { documents: validateList(documentSchema, response.versions, 'Document') }
+  }
+
+  async makeCurrentVersion(documentId: string): Promise<DocumentResult> {
+    const response = await SupabaseAPIService.makeCurrentVersion(documentId)
+    return { document: validate(documentSchema, response.document, 'Document') }
+  }
+  
+  async reprocessDocument(documentId: string): Promise<DocumentResult> {
+    const response = await SupabaseAPIService.reprocessDocument(documentId)
+    return { document: validate(documentSchema, response.document, 'Document') }
+  }
+  
+  async getDocumentDownloadUrl(documentId: string): Promise<DocumentDownload> {
+    return SupabaseAPIService.getDocumentDownloadUrl(documentId)
+  }
+  
+  async updateDocument(documentId: string, updates: DocumentUpdate): Promise<DocumentResult> {
+    const input = validate(documentUpdateSchema, updates, 'document update')
+    const response = await SupabaseAPIService.updateDocument(documentId, input)
+    return { document: validate(documentSchema, response.document, 'Document') }
+  }
+  
+  async deleteDocument(documentId: string): Promise<DeleteResult> {
+    const response = await SupabaseAPIService.deleteDocument(documentId)
+    return { success: Boolean(response.success), deletedId: response.deletedId || documentId }
+  }
+  
+  async getActivities(query: ActivityQuery = {}): Promise<ActivitiesResult> {
+    const response = await SupabaseAPIService.getActivities(validate(activityQuerySchema, query, 'activity query'))
+    return {
+      activities: validateList(activitySchema, response.activities, 'Activity'),
+      pageInfo: validate(pageInfoSchema, response.pageInfo, 'page info')
+    }
+  }
+  
+  async createActivity(activityData: ClientActivityInput): Promise<ActivityResult> {
+    const input = validate(clientActivityInputSchema, activityData, 'activity input')
+    const response = await SupabaseAPIService.createActivity(input)
+    return { activity: validate(activitySchema, response.activity, 'Activity') }
   }
 }
 
 // Aurora Database Provider
 class AuroraDatabaseProvider implements DatabaseProvider {
+  // users row of the signed-in identity, looked up once per sign-in
+  private linkedUser: { subject: string; id: Promise<string> } | null = null
+
   private async getCurrentUserId(): Promise<string> {
-    // In a real implementation, get user ID from auth context
-    return 'demo-user-id' // Mock user ID for demo
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return DEMO_USER.id // Seeded user in the embedded demo database
+    }
+
+    const user = await AuthService.getCurrentUser()
+    if (!user) {
+      throw new AuthError('Sign in to continue', 'session_expired')
+    }
+
+    if (this.linkedUser?.subject !== user.id) {
+      const id = AuroraService.linkUser({
+        issuer: AuthFactory.getInstance().issuer,
+        subject: user.id,
+        email: user.email,
+        name: user.name,
+        emailVerified: Boolean(user.emailVerified)
+      }).then(linked => linked.id)
+      this.linkedUser = { subject: user.id, id }
+      id.catch(() => {
+        this.linkedUser = null
+      })
+    }
+    return this.linkedUser.id
   }
-  
-  async getProjects(): Promise<any> {
+
+  // Run `work` inside the active workspace (see APIService.setActiveWorkspace); rows of other
+  // workspaces are invisible to it
+  private async inWorkspace<T>(work: (workspaceId: string, userId: string, workspace: Workspace) => Promise<T>): Promise<T> {
     const userId = await this.getCurrentUserId()
-    const projects = await AuroraService.getProjects(userId)
-    return { projects }
+    const workspace = await AuroraService.resolveWorkspace(userId, SupabaseAPIService.getActiveWorkspaceId())
+    return AuroraService.inWorkspace(workspace.id, () => work(workspace.id, userId, workspace))
   }
   
-  async createProject(projectData: any): Promise<any> {
-    const userId = await this.getCurrentUserId()
-    const project = await AuroraService.createProject({ ...projectData, userId })
-    return { project }
+  async getProjects(query: ProjectQuery = {}): Promise<ProjectsResult> {
+    const { page, overview } = await this.inWorkspace(async workspaceId => ({
+      page: await AuroraService.getProjects(workspaceId, validate(projectQuerySchema, query, 'project query')),
+      overview: await AuroraService.getProjectOverview(workspaceId)
+    }))
+    return {
+      projects: validateList(projectSchema, page.items, 'Project'),
+      pageInfo: page.pageInfo,
+      ...overview
+    }
   }
   
-  async updateProject(projectId: string, updates: any): Promise<any> {
-    const project = await AuroraService.updateProject(projectId, updates)
-    return { project }
+  async createProject(projectData: ProjectInput): Promise<ProjectResult> {
+    const input = validate(projectInputSchema, projectData, 'project input')
+    const project = await this.inWorkspace((workspaceId, userId) =>
+      AuroraService.createProject({ ...input, userId, workspaceId })
+    )
+    return { project: validate(projectSchema, project, 'Project') }
   }
   
-  async deleteProject(projectId: string): Promise<any> {
-    await AuroraService.deleteProject(projectId)
-    return { success: true }
+  async updateProject(projectId: string, updates: ProjectUpdate): Promise<ProjectResult> {
+    const input = validate(projectUpdateSchema, updates, 'project update')
+    const project = await this.inWorkspace((_, userId) => AuroraService.updateProject(projectId, input, userId))
+    return { project: validate(projectSchema, project, 'Project') }
   }
   
-  async getRequirements(projectId: string): Promise<any> {
-    const requirements = await AuroraService.getRequirements(projectId)
-    return { requirements }
+  async deleteProject(projectId: string): Promise<DeleteResult> {
+    await this.inWorkspace((_, userId) => AuroraService.deleteProject(projectId, userId))
+    await this.removeStoredFiles(projectPrefix(projectId))
+    return { success: true, deletedId: projectId }
   }
   
-  async createRequirement(projectId: string, requirementData: any): Promise<any> {
-    const requirement = await AuroraService.createRequirement(projectId, requirementData)
-    return { requirement }
+  async getRequirements(projectId: string, query: RequirementQuery = {}): Promise<RequirementsResult> {
+    const { page, facets } = await this.inWorkspace(async () => ({
+      page: await AuroraService.getRequirements(projectId, validate(requirementQuerySchema, query, 'requirement query')),
+      facets: await AuroraService.getRequirementFacets(projectId)
+    }))
+    return {
+      requirements: validateList(requirementSchema, page.items, 'Requirement'),
+      pageInfo: page.pageInfo,
+      facets
+    }
   }
   
-  async getDocuments(projectId: string): Promise<any> {
-    const documents = await AuroraService.getDocuments(projectId)
-    return { documents }
+  async createRequirement(projectId: string, requirementData: RequirementInput): Promise<RequirementResult> {
+    const input = validate(requirementInputSchema, requirementData, 'requirement input')
+    const requirement = await this.inWorkspace((_, userId) => AuroraService.createRequirement(projectId, input, userId))
+    return { requirement: validate(requirementSchema, requirement, 'Requirement') }
   }
   
-  async uploadDocument(file: File, projectId: string, documentType: string): Promise<any> {
-    // In a real implementation, upload file to S3 and store metadata in Aurora
-    const userId = await this.getCurrentUserId()
-    const document = await AuroraService.createDocument({
-      projectId,
-      filename: file.name,
-      filePath: `uploads/${projectId}/${file.name}`,
-      fileSize: file.size,
-      documentType,
-      mimeType: file.type,
-      uploadedBy: userId
-    })
-    return { document }
+  async updateRequirement(requirementId: string, updates: RequirementUpdate): Promise<RequirementResult> {
+    const input = validate(requirementUpdateSchema, updates, 'requirement update')
+    const requirement = await this.inWorkspace((_, userId) => AuroraService.updateRequirement(requirementId, input, userId))
+    return { requirement: validate(requirementSchema, requirement, 'Requirement') }
+  }
+  
+  async deleteRequirement(requirementId: string): Promise<DeleteResult> {
+    await this.inWorkspace((_, userId) => AuroraService.deleteRequirement(requirementId, userId))
+    return { success: true, deletedId: requirementId }
+  }
+  
+  async getDocuments(projectId: string): Promise<DocumentsResult> {
+    const documents = await this.inWorkspace(() => AuroraService.getDocuments(projectId))
+    return { documents: validateList(documentSchema, documents, 'Document') }
+  }
+  
+  async getDocument(documentId: string): Promise<DocumentResult> {
+    const document = await this.inWorkspace(() => AuroraService.getDocument(documentId))
+    if (!document) {
+      throw new Error('Document not found')
+    }
+    return { document: validate(documentSchema, document, 'Document') }
   }
   
-  async getActivities(): Promise<any> {
+  // Best-effort cleanup once the rows are gone: a key, or every file under a project prefix
+  private async removeStoredFiles(keyOrPrefix: string): Promise<void> {
+    try {
+      const storage = StorageFactory.getInstance()
+      const keys = keyOrPrefix.endsWith('/')
+        ? (await storage.list(keyOrPrefix)).map(object => object.key)
+        : [keyOrPrefix]
+      for (const key of keys) {
+        await storage.delete(key)
+      }
+    } catch (error) {
+      console.warn(`Unable to remove stored files for ${keyOrPrefix}:`, error)
+    }
+  }
+  
+  async uploadDocument(file: File, projectId: string, documentType: string, options: DocumentUploadOptions = {}): Promise<DocumentResult> {
     const userId = await this.getCurrentUserId()
-    const activities = await AuroraService.getActivities(userId)
-    return { activities }
+    const data = new Uint8Array(await file.arrayBuffer())
+    const hash = await contentHash(data)
+    // Checked again when the row is inserted; this only saves storing a file that would be refused
+    const duplicate = await this.inWorkspace(() => AuroraService.findDuplicateDocument(projectId, hash))
+    if (duplicate) {
+      throw duplicateDocumentError(duplicate)
+    }
+
+    const filePath = await putFile(StorageFactory.getInstance(), documentKey(projectId, file.name), file, options)
+    try {
+      const extraction = await extractDocumentText(data, { name: file.name, mimeType: file.type })
+      const document = await this.inWorkspace(() => AuroraService.createDocument({
+        projectId,
+        filename: file.name,
+        filePath,
+        fileSize: file.size,
+        documentType,
+        mimeType: file.type,
+        uploadedBy: userId,
+        contentHash: hash,
+        versionOf: options.versionOf,
+        effectiveDate: options.effectiveDate,
+        category: options.category,
+        extraction
+      }))
+      return { document: validate(documentSchema, document, 'Document') }
+    } catch (error) {
+      await this.removeStoredFiles(filePath)
+      throw error
+    }
+  }
+
+  async getDocumentVersions(documentId: string): Promise<DocumentsResult> {
+    const documents = await this.inWorkspace(() => AuroraService.getDocumentVersions(documentId))
+    return { documents: validateList(documentSchema, documents, 'Document') }
+  }
+
+  async makeCurrentVersion(documentId: string): Promise<DocumentResult> {
+    const document = await this.inWorkspace((_, userId) => AuroraService.makeCurrentVersion(documentId, userId))
+    return { document: validate(documentSchema, document, 'Document') }
+  }
+  
+  async reprocessDocument(documentId: string): Promise<DocumentResult> {
+    const filePath = await this.inWorkspace(() => AuroraService.getDocumentFilePath(documentId))
+    if (!filePath) {
+      throw new Error('This document has no stored file')
+    }
+    const { document } = await this.getDocument(documentId)
+    const data = await StorageFactory.getInstance().get(filePath)
+    const extraction = await extractDocumentText(data, { name: document.title, mimeType: document.mimeType })
+    const updated = await this.inWorkspace((_, userId) => AuroraService.reprocessDocument(documentId, extraction, userId))
+    return { document: validate(documentSchema, updated, 'Document') }
+  }
+  
+  async getDocumentDownloadUrl(documentId: string): Promise<DocumentDownload> {
+    const filePath = await this.inWorkspace(() => AuroraService.getDocumentFilePath(documentId))
+    if (!filePath) {
+      throw new Error('This document has no stored file')
+    }
+    const ttl = STORAGE_CONFIG.signedUrlTtlSeconds
+    const url = await StorageFactory.getInstance().getSignedUrl(filePath, ttl)
+    return { url, expiresAt: new Date(Date.now() + ttl * 1000).toISOString() }
+  }
+  
+  async updateDocument(documentId: string, updates: DocumentUpdate): Promise<DocumentResult> {
+    const input = validate(documentUpdateSchema, updates, 'document update')
+    const document = await this.inWorkspace((_, userId) => AuroraService.updateDocument(documentId, input, userId))
+    return { document: validate(documentSchema, document, 'Document') }
+  }
+  
+  async deleteDocument(documentId: string): Promise<DeleteResult> {
+    const filePath = await this.inWorkspace((_, userId) => AuroraService.deleteDocument(documentId, userId))
+    if (filePath) {
+      await this.removeStoredFiles(filePath)
+    }
+    return { success: true, deletedId: documentId }
+  }
+  
+  async getActivities(query: ActivityQuery = {}): Promise<ActivitiesResult> {
+    const page = await this.inWorkspace((workspaceId, userId) =>
+      AuroraService.getActivities(workspaceId, userId, validate(activityQuerySchema, query, 'activity query'))
+    )
+    return {
+      activities: validateList(activitySchema, page.items, 'Activity'),
+      pageInfo: page.pageInfo
+    }
+  }
+  
+  async createActivity(activityData: ClientActivityInput): Promise<ActivityResult> {
+    const input = validate(clientActivityInputSchema, activityData, 'activity input')
+    const activity = await this.inWorkspace((workspaceId, userId, workspace) => {
+      assertPermission(permissionsFor(workspace.role), CLIENT_ACTIVITY_PERMISSIONS[input.type])
+      return AuroraService.createActivity({ ...clientReportedActivity(input), userId, workspaceId })
+    })
+    return { activity: validate(activitySchema, activity, 'Activity') }
   }
 }
 
@@ -162,21 +484,31 @@ export class DatabaseFactory {
 // Convenience wrapper that maintains backward compatibility
 export const DatabaseService = {
   // Projects
-  getProjects: () => DatabaseFactory.getInstance().getProjects(),
-  createProject: (projectData: any) => DatabaseFactory.getInstance().createProject(projectData),
-  updateProject: (projectId: string, updates: any) => DatabaseFactory.getInstance().updateProject(projectId, updates),
+  getProjects: (query?: ProjectQuery) => DatabaseFactory.getInstance().getProjects(query),
+  createProject: (projectData: ProjectInput) => DatabaseFactory.getInstance().createProject(projectData),
+  updateProject: (projectId: string, updates: ProjectUpdate) => DatabaseFactory.getInstance().updateProject(projectId, updates),
   deleteProject: (projectId: string) => DatabaseFactory.getInstance().deleteProject(projectId),
   
   // Requirements
-  getRequirements: (projectId: string) => DatabaseFactory.getInstance().getRequirements(projectId),
-  createRequirement: (projectId: string, requirementData: any) => DatabaseFactory.getInstance().createRequirement(projectId, requirementData),
+  getRequirements: (projectId: string, query?: RequirementQuery) => DatabaseFactory.getInstance().getRequirements(projectId, query),
+  createRequirement: (projectId: string, requirementData: RequirementInput) => DatabaseFactory.getInstance().createRequirement(projectId, requirementData),
+  updateRequirement: (requirementId: string, updates: RequirementUpdate) => DatabaseFactory.getInstance().updateRequirement(requirementId, updates),
+  deleteRequirement: (requirementId: string) => DatabaseFactory.getInstance().deleteRequirement(requirementId),
   
   // Documents
   getDocuments: (projectId: string) => DatabaseFactory.getInstance().getDocuments(projectId),
-  uploadDocument: (file: File, projectId: string, documentType: string) => DatabaseFactory.getInstance().uploadDocument(file, projectId, documentType),
+  getDocument: (documentId: string) => DatabaseFactory.getInstance().getDocument(documentId),
+  uploadDocument: (file: File, projectId: string, documentType: string, options?: DocumentUploadOptions) => DatabaseFactory.getInstance().uploadDocument(file, projectId, documentType, options),
+  getDocumentVersions: (documentId: string) => DatabaseFactory.getInstance().getDocumentVersions(documentId),
+  makeCurrentVersion: (documentId: string) => DatabaseFactory.getInstance().makeCurrentVersion(documentId),
+  reprocessDocument: (documentId: string) => DatabaseFactory.getInstance().reprocessDocument(documentId),
+  getDocumentDownloadUrl: (documentId: string) => DatabaseFactory.getInstance().getDocumentDownloadUrl(documentId),
+  updateDocument: (documentId: string, updates: DocumentUpdate) => DatabaseFactory.getInstance().updateDocument(documentId, updates),
+  deleteDocument: (documentId: string) => DatabaseFactory.getInstance().deleteDocument(documentId),
   
   // Activities
-  getActivities: () => DatabaseFactory.getInstance().getActivities(),
+  getActivities: (query?: ActivityQuery) => DatabaseFactory.getInstance().getActivities(query),
+  createActivity: (activityData: ClientActivityInput) => DatabaseFactory.getInstance().createActivity(activityData),
   
   // Provider info
   getCurrentProvider: () => DatabaseFactory.getCurrentProvider()
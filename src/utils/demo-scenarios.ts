@@ -0,0 +1,292 @@
+import { mockProjects, mockRequirements, mockActivities } from './mockData'
+import { APP_CONSTANTS, REQUIREMENT_STATUSES, PRIORITY_LEVELS, REPORT_STATUSES } from './constants'
+import { DEMO_USER_ROLE } from './permissions'
+import { joinPages } from './extraction/extractor'
+import { parseDocumentStructure } from './extraction/structure'
+import { resolveRequirementSource } from './requirement-sources'
+import type { Project, Requirement, Document, Activity, TeamMember, WorkspaceInvitation } from '../types'
+
+// Seed data for the demo backend (see ./demo-store)
+
+// Requirements don't carry their project in src/types, so the store keeps it alongside
+export type DemoRequirement = Requirement & { projectId: string }
+
+export interface DemoData {
+  projects: Project[]
+  requirements: DemoRequirement[]
+  documents: Document[]
+  activities: Activity[]
+}
+
+export type DemoScenario = 'default' | 'empty' | 'large'
+
+// Signed-in user while DEMO_MODE bypasses authentication
+export const DEMO_USER = {
+  id: '00000000-0000-4000-8000-000000000001',
+  email: 'demo@qcreporter.com',
+  name: 'Demo User'
+}
+
+// The demo user (DEMO_ROLE) and colleagues in the other roles, for the Team page
+export const DEMO_TEAM = (): TeamMember[] => [
+  { ...DEMO_USER, role: DEMO_USER_ROLE, status: 'active', createdAt: '2024-01-02T09:00:00.000Z' },
+  { id: '00000000-0000-4000-8000-000000000002', email: 'sarah.johnson@qcreporter.com', name: 'Sarah Johnson', role: 'qa-reviewer', status: 'active', createdAt: '2024-01-03T09:00:00.000Z' },
+  { id: '00000000-0000-4000-8000-000000000003', email: 'mike.chen@qcreporter.com', name: 'Mike Chen', role: 'validator', status: 'active', createdAt: '2024-01-04T09:00:00.000Z' },
+  { id: '00000000-0000-4000-8000-000000000004', email: 'emily.rodriguez@qcreporter.com', name: 'Dr. Emily Rodriguez', role: 'model-developer', status: 'active', createdAt: '2024-01-05T09:00:00.000Z' }
+]
+
+// Workspaces every scenario starts with. The team's shared workspace holds the scenario's projects;
+// the demo user also has a sandbox with Mike, and an invitation to a workspace they aren't in yet.
+export interface DemoWorkspace {
+  id: string
+  name: string
+  createdAt: string
+  memberIds: string[]
+}
+
+export const DEMO_WORKSPACE_ID = '00000000-0000-4000-9000-000000000001'
+
+export const DEMO_WORKSPACES = (): DemoWorkspace[] => {
+  const [demo, sarah, mike, emily] = DEMO_TEAM().map(member => member.id)
+  return [
+    { id: DEMO_WORKSPACE_ID, name: 'Model Risk QA', createdAt: '2024-01-02T09:00:00.000Z', memberIds: [demo, sarah, mike, emily] },
+    { id: '00000000-0000-4000-9000-000000000002', name: 'Validation Sandbox', createdAt: '2024-01-08T09:00:00.000Z', memberIds: [demo, mike] },
+    { id: '00000000-0000-4000-9000-000000000003', name: 'Credit Risk Models', createdAt: '2024-01-12T09:00:00.000Z', memberIds: [emily] }
+  ]
+}
+
+// Sent when the scenario is seeded, so it is always still open
+export const DEMO_INVITATIONS = (): WorkspaceInvitation[] => [
+  {
+    id: '00000000-0000-4000-a000-000000000001',
+    workspaceId: '00000000-0000-4000-9000-000000000003',
+    workspaceName: 'Credit Risk Models',
+    email: DEMO_USER.email,
+    invitedBy: 'Dr. Emily Rodriguez',
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + APP_CONSTANTS.WORKSPACE_INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  }
+]
+
+// Text of the sample documents, page by page, so the Compliance viewer has sections to show
+const SAMPLE_POLICY_PAGES = [
+  `PRIVACY POLICY
+Version 2.1
+
+1 Purpose and Scope
+This policy sets out how the organisation collects, uses and protects personal data, and applies to every system that processes the personal data of customers, patients or staff.
+
+2 Data Subject Rights
+2.1 Right of Access
+Data subjects may request a copy of their personal data and information about how it is processed (GDPR Article 15). Requests are answered within one month.
+2.2 Rectification and Erasure
+Inaccurate personal data is corrected without undue delay. Personal data is erased on request when one of the following applies:
+- it is no longer needed for the purpose it was collected for;
+- consent is withdrawn and there is no other legal basis;
+- it has been processed unlawfully.`,
+  `3 Consent
+Where processing relies on consent (Article 7), consent is collected separately for each purpose, recorded with its date and wording, and can be withdrawn as easily as it was given.
+
+4 Data Protection Impact Assessments
+A DPIA is carried out before any processing that is likely to result in a high risk to individuals (Article 35).
+Risk level\tAssessment\tApproval
+High\tFull DPIA\tData Protection Officer
+Medium\tScreening checklist\tSystem owner
+
+5 Personal Data Breaches
+5.1 Notification to the Supervisory Authority
+Breaches are reported to the supervisory authority within 72 hours of becoming aware of them (Article 33).
+5.2 Communication to Data Subjects
+Data subjects are told without undue delay when a breach is likely to result in a high risk to them (Article 34).
+
+6 Access Control
+6.1 Multi-factor Authentication
+All system access must implement role-based access controls with multi-factor authentication for all users accessing sensitive healthcare data.`
+]
+
+const SAMPLE_PROGRAM_PAGES = [
+  `SECURITY CONTROLS
+
+1 System Overview
+Our healthcare management system provides comprehensive patient data management with security features.
+
+2 Authentication
+2.1 Password Authentication
+The system currently implements basic username/password authentication for user access.
+2.2 Session Management
+Sessions expire after 30 minutes of inactivity.`,
+  `3 Access Control
+Access is granted by role:
+Role\tPatient records\tAdministration
+Clinician\tRead and write\tNone
+Administrator\tRead\tFull
+
+4 Incident Response
+Security incidents are logged in the ticketing system and reviewed weekly by the security team.`
+]
+
+const sampleText = (pageTexts: string[]): Pick<Document, 'content' | 'pages' | 'structure' | 'extractionStatus'> => {
+  const { text, pages } = joinPages(pageTexts)
+  return { content: text, pages, structure: parseDocumentStructure(text, pages), extractionStatus: 'completed' }
+}
+
+const sampleDocuments = (projectId: string): Document[] => [
+  {
+    id: `${projectId}-doc-1`,
+    title: 'privacy_policy_v2.1.pdf',
+    name: 'privacy_policy_v2.1.pdf',
+    type: 'policy',
+    ...sampleText(SAMPLE_POLICY_PAGES),
+    uploadDate: '2024-01-20T14:22:00Z',
+    size: 245760,
+    projectId,
+    mimeType: 'application/pdf'
+  },
+  {
+    id: `${projectId}-doc-2`,
+    title: 'security_controls.docx',
+    name: 'security_controls.docx',
+    type: 'program',
+    ...sampleText(SAMPLE_PROGRAM_PAGES),
+    uploadDate: '2024-01-19T10:15:00Z',
+    size: 156892,
+    projectId,
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  }
+]
+
+// Sections of the sample policy the sample requirements come from, by requirement id
+const SAMPLE_REQUIREMENT_SOURCES: Record<string, string> = {
+  '1': '2',
+  '2': '3',
+  '3': '4',
+  '4': '5'
+}
+
+const withSampleSource = (requirement: Requirement, policy: Document): Requirement => {
+  const sourceSection = SAMPLE_REQUIREMENT_SOURCES[String(requirement.id)]
+  return sourceSection
+    ? resolveRequirementSource({ ...requirement, sourceDocument: policy.id, sourceSection }, policy)
+    : requirement
+}
+
+const flatMap = <T, U>(items: T[], map: (item: T) => U[]): U[] =>
+  items.reduce<U[]>((all, item) => all.concat(map(item)), [])
+
+// The fixtures in mockData.ts; every project gets its own copy of the sample requirements
+const defaultScenario = (): DemoData => {
+  const documents = flatMap(mockProjects, project => sampleDocuments(project.id))
+  return {
+    projects: mockProjects.map(project => ({ ...project })),
+    requirements: flatMap(mockProjects, project => {
+      const policy = documents.find(document => document.id === `${project.id}-doc-1`)!
+      return mockRequirements.map(requirement => ({
+        ...withSampleSource(requirement, policy),
+        id: `${project.id}-req-${requirement.id}`,
+        projectId: project.id
+      }))
+    }),
+    documents,
+    activities: mockActivities.map(activity => ({
+      ...activity,
+      projectId: mockProjects.find(project => project.name === activity.projectName)?.id
+    }))
+  }
+}
+
+const emptyScenario = (): DemoData => ({
+  projects: [],
+  requirements: [],
+  documents: [],
+  activities: []
+})
+
+// Deterministic PRNG so the large dataset is identical on every reset
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+const FRAMEWORKS = ['GDPR', 'SOC 2', 'HIPAA', 'ISO 27001', 'PCI DSS', 'NIST CSF', 'SOX', 'CCPA', 'FedRAMP', 'Model Risk (SR 11-7)']
+const REVIEW_KINDS = ['Compliance Review', 'Gap Assessment', 'Control Audit', 'Policy Validation', 'Annual Attestation']
+const DOCUMENT_TYPES = ['Privacy Policy', 'Security Controls', 'Model Documentation', 'Procedure Manual', 'Data Processing Agreement']
+const CATEGORIES = ['Data Rights', 'Consent', 'Risk Assessment', 'Incident Response', 'Access Control', 'Model Validation', 'Governance']
+const PEOPLE = ['Sarah Johnson', 'Mike Chen', 'Dr. Emily Rodriguez', 'Priya Patel', 'James Okafor', 'Laura Schmidt']
+
+// 50 projects with 8 requirements and 2 documents each, for paging and performance checks
+const largeScenario = (): DemoData => {
+  const random = createRandom(6545)
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)]
+  const start = Date.parse('2024-01-01T09:00:00Z')
+  const day = 24 * 60 * 60 * 1000
+
+  const data = emptyScenario()
+
+  for (let index = 1; index <= 50; index++) {
+    const id = `large-${index}`
+    const framework = FRAMEWORKS[index % FRAMEWORKS.length]
+    const createdAt = new Date(start + index * day).toISOString()
+    const lastActivity = new Date(start + (index + Math.floor(random() * 30)) * day).toISOString()
+    const progress = Math.floor(random() * 101)
+    const project: Project = {
+      id,
+      name: `${framework} ${pick(REVIEW_KINDS)} #${index}`,
+      description: `Quality review of ${framework} documentation for business unit ${(index % 7) + 1}.`,
+      createdAt,
+      documentType: pick(DOCUMENT_TYPES),
+      assignee: pick(PEOPLE),
+      status: progress === 100 ? 'completed' : pick(REPORT_STATUSES),
+      compliance: Math.floor(40 + random() * 60),
+      lastActivity,
+      progress
+    }
+    data.projects.push(project)
+
+    for (let reqIndex = 1; reqIndex <= 8; reqIndex++) {
+      const confidence = Math.round(random() * 100) / 100
+      data.requirements.push({
+        id: `${id}-req-${reqIndex}`,
+        projectId: id,
+        title: `${framework} control ${index}.${reqIndex}`,
+        description: `Verify that the documented procedure satisfies ${framework} control ${index}.${reqIndex}.`,
+        category: pick(CATEGORIES),
+        priority: pick(PRIORITY_LEVELS),
+        status: pick(REQUIREMENT_STATUSES),
+        confidence,
+        evidence: confidence > 0.5 ? 'Evidence located in the program documentation' : undefined,
+        section: `Section ${reqIndex}`,
+        assignee: pick(PEOPLE),
+        lastUpdated: lastActivity
+      })
+    }
+
+    data.documents.push(...sampleDocuments(id).map(document => ({ ...document, uploadDate: createdAt })))
+
+    data.activities.push({
+      id: `${id}-activity`,
+      type: 'project-created',
+      user: project.assignee,
+      action: 'created',
+      target: project.name,
+      title: 'Project Created',
+      description: `New ${framework} review created`,
+      projectName: project.name,
+      projectId: id,
+      timestamp: createdAt
+    })
+  }
+
+  data.projects.reverse()
+  data.activities.reverse()
+  return data
+}
+
+export const DEMO_SCENARIOS: Record<DemoScenario, () => DemoData> = {
+  default: defaultScenario,
+  empty: emptyScenario,
+  large: largeScenario
+}
+
+export const isDemoScenario = (value: string): value is DemoScenario => value in DEMO_SCENARIOS
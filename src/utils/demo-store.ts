@@ -0,0 +1,1032 @@
+import { APP_CONSTANTS, PRIORITY_LEVELS, type Permission, type UserRole } from './constants'
+import {
+  paginateItems,
+  countFacets,
+  DEFAULT_PROJECT_SORT,
+  DEFAULT_REQUIREMENT_SORT,
+  DEFAULT_ACTIVITY_SORT,
+  DEFAULT_AUDIT_LOG_SORT,
+  type MemoryListDefinition
+} from './list-query'
+import {
+  projectCreated,
+  projectUpdated,
+  projectDeleted,
+  requirementCreated,
+  requirementUpdated,
+  requirementDeleted,
+  documentUploaded,
+  documentUpdated,
+  documentDeleted,
+  userRoleChanged,
+  userInvited,
+  userDeactivated,
+  userReactivated,
+  workspaceCreated,
+  workspaceMemberInvited,
+  workspaceInvitationRevoked,
+  workspaceInvitationAccepted,
+  workspaceMemberRemoved,
+  apiTokenCreated,
+  apiTokenRotated,
+  apiTokenRevoked,
+  serviceAccountCreated,
+  serviceAccountDeleted
+} from './audit'
+import { buildAuditEvidence, chainEntry, toAuditPayload, verifyAuditChain } from './audit-chain'
+import { assertPermission, changesFinalStatus, permissionsFor } from './permissions'
+import {
+  validate,
+  DataValidationError,
+  apiTokenInputSchema,
+  serviceAccountInputSchema,
+  userInvitationInputSchema,
+  workspaceInputSchema,
+  workspaceInvitationInputSchema
+} from './validation'
+import {
+  DEMO_SCENARIOS,
+  DEMO_TEAM,
+  DEMO_USER,
+  DEMO_WORKSPACES,
+  DEMO_WORKSPACE_ID,
+  DEMO_INVITATIONS,
+  isDemoScenario,
+  type DemoData,
+  type DemoRequirement,
+  type DemoScenario
+} from './demo-scenarios'
+import { changesRequirementSource, resolveRequirementSource } from './requirement-sources'
+import type { DocumentExtraction } from './extraction'
+import { duplicateDocumentError } from './document-versions'
+import type {
+  Project,
+  Requirement,
+  Document,
+  Activity,
+  ProjectInput,
+  ProjectUpdate,
+  RequirementInput,
+  RequirementUpdate,
+  DocumentUpdate,
+  DocumentVersionInput,
+  ActivityInput,
+  ProjectQuery,
+  RequirementQuery,
+  ActivityQuery,
+  ProjectSortField,
+  RequirementSortField,
+  ActivitySortField,
+  AuditLogEntry,
+  AuditLogQuery,
+  AuditLogSortField,
+  AuditVerification,
+  AuditEvidence,
+  Page,
+  ProjectOverview,
+  RequirementFacets,
+  TeamMember,
+  UserInvitationInput,
+  UserProfile,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  ApiToken,
+  ApiTokenInput,
+  CreatedApiToken,
+  ServiceAccount,
+  ServiceAccountInput
+} from '../types'
+
+interface DemoState extends DemoData {
+  version: number
+  scenario: DemoScenario
+  // Hash chain over activities recorded since the scenario was seeded; seed activities aren't chained
+  auditLog: AuditLogEntry[]
+  // Users and their roles; the demo user is always signed in
+  team: TeamMember[]
+  // Projects, and the activities recorded on them, belong to one of these workspaces
+  workspaces: Omit<Workspace, 'memberCount' | 'role'>[]
+  memberships: DemoMembership[]
+  // Pending invitations; accepted ones are dropped
+  invitations: WorkspaceInvitation[]
+  // Picked with the header switcher; scopes projects, requirements, documents and activities
+  activeWorkspaceId: string
+  // Live API tokens of the demo user and the service accounts; revoked ones are dropped
+  apiTokens: ApiToken[]
+  serviceAccounts: Omit<ServiceAccount, 'tokens'>[]
+}
+
+interface DemoMembership {
+  workspaceId: string
+  userId: string
+  joinedAt: string
+}
+
+// Bump when DemoState changes shape so stale localStorage copies are reseeded
+const STATE_VERSION = 7
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`
+
+const stripProjectId = ({ projectId, ...requirement }: DemoRequirement): Requirement => requirement
+
+// In-memory counterparts of the SQL list definitions in ./list-query
+const PROJECT_LIST: MemoryListDefinition<Project, ProjectSortField> = {
+  defaultSort: DEFAULT_PROJECT_SORT,
+  sort: {
+    name: project => project.name,
+    status: project => project.status,
+    assignee: project => project.assignee,
+    compliance: project => project.compliance,
+    progress: project => project.progress ?? 0,
+    createdAt: project => project.createdAt,
+    lastActivity: project => project.lastActivity
+  },
+  filters: {
+    status: project => project.status,
+    assignee: project => project.assignee
+  },
+  search: project => [project.name, project.description, project.assignee],
+  id: project => project.id
+}
+
+const REQUIREMENT_LIST: MemoryListDefinition<DemoRequirement, RequirementSortField> = {
+  defaultSort: DEFAULT_REQUIREMENT_SORT,
+  sort: {
+    title: requirement => requirement.title,
+    status: requirement => requirement.status,
+    priority: requirement => PRIORITY_LEVELS.indexOf(requirement.priority),
+    category: requirement => requirement.category,
+    assignee: requirement => requirement.assignee || '',
+    confidence: requirement => requirement.confidence ?? 0,
+    lastUpdated: requirement => requirement.lastUpdated || ''
+  },
+  filters: {
+    status: requirement => requirement.status,
+    priority: requirement => requirement.priority,
+    category: requirement => requirement.category,
+    assignee: requirement => requirement.assignee
+  },
+  search: requirement => [requirement.title, requirement.description],
+  id: requirement => String(requirement.id)
+}
+
+const ACTIVITY_LIST: MemoryListDefinition<Activity, ActivitySortField> = {
+  defaultSort: DEFAULT_ACTIVITY_SORT,
+  sort: {
+    timestamp: activity => activity.timestamp,
+    type: activity => activity.type
+  },
+  filters: {
+    type: activity => activity.type,
+    projectId: activity => activity.projectId === undefined ? undefined : String(activity.projectId)
+  },
+  search: activity => [activity.title, activity.description],
+  id: activity => activity.id
+}
+
+const AUDIT_LOG_LIST: MemoryListDefinition<AuditLogEntry, AuditLogSortField> = {
+  defaultSort: DEFAULT_AUDIT_LOG_SORT,
+  sort: {
+    seq: entry => entry.seq
+  },
+  filters: {},
+  search: () => [],
+  id: entry => String(entry.seq)
+}
+
+// Stateful backend used by APIService in demo mode. Data lives in memory and,
+// unless DEMO_STORAGE is 'memory', is mirrored to localStorage so it survives reloads.
+export class DemoStore {
+  private static state: DemoState | null = null
+
+  // Hashing is async, so audit entries are chained in order on this queue after the activity is stored
+  private static auditQueue: Promise<void> = Promise.resolve()
+
+  private static get storage(): Storage | null {
+    if (APP_CONSTANTS.DEMO_STORAGE === 'memory' || typeof window === 'undefined' || !window.localStorage) {
+      return null
+    }
+    return window.localStorage
+  }
+
+  private static seed(scenario: DemoScenario): DemoState {
+    const data = DEMO_SCENARIOS[scenario]()
+    const workspaces = DEMO_WORKSPACES()
+    return {
+      version: STATE_VERSION,
+      scenario,
+      ...data,
+      projects: data.projects.map(project => ({ ...project, workspaceId: DEMO_WORKSPACE_ID })),
+      activities: data.activities.map(activity => ({ ...activity, workspaceId: DEMO_WORKSPACE_ID })),
+      auditLog: [],
+      team: DEMO_TEAM(),
+      workspaces: workspaces.map(({ id, name, createdAt }) => ({ id, name, createdAt })),
+      memberships: workspaces.reduce<DemoMembership[]>((all, workspace) => all.concat(
+        workspace.memberIds.map(userId => ({ workspaceId: workspace.id, userId, joinedAt: workspace.createdAt }))
+      ), []),
+      invitations: DEMO_INVITATIONS(),
+      activeWorkspaceId: DEMO_WORKSPACE_ID,
+      apiTokens: [],
+      serviceAccounts: []
+    }
+  }
+
+  private static load(): DemoState {
+    if (this.state) {
+      return this.state
+    }
+
+    const configured = isDemoScenario(APP_CONSTANTS.DEMO_SCENARIO) ? APP_CONSTANTS.DEMO_SCENARIO : 'default'
+    try {
+      const saved = this.storage?.getItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.DEMO_STORE)
+      const parsed: DemoState | null = saved ? JSON.parse(saved) : null
+      this.state = parsed && parsed.version === STATE_VERSION ? parsed : this.seed(configured)
+    } catch (error) {
+      console.warn('Demo store: discarding unreadable saved data', error)
+      this.state = this.seed(configured)
+    }
+    return this.state
+  }
+
+  private static save(): void {
+    try {
+      this.storage?.setItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.DEMO_STORE, JSON.stringify(this.state))
+    } catch (error) {
+      // Quota errors only cost persistence; the in-memory copy is still current
+      console.warn('Demo store: unable to persist data', error)
+    }
+  }
+
+  // Replace all demo data with a fresh copy of a scenario
+  static reset(scenario: DemoScenario = this.load().scenario): void {
+    this.state = this.seed(scenario)
+    this.save()
+  }
+
+  static getScenario(): DemoScenario {
+    return this.load().scenario
+  }
+
+  private static touchProject(projectId: string | undefined): void {
+    const project = this.workspaceProjects().find(p => p.id === projectId)
+    if (project) {
+      project.lastActivity = new Date().toISOString()
+    }
+  }
+
+  private static findOrThrow<T extends { id: string | number }>(items: T[], id: string, entity: string): T {
+    const item = items.find(candidate => String(candidate.id) === id)
+    if (!item) {
+      throw new Error(`${entity} not found`)
+    }
+    return item
+  }
+
+  // Roles: the store enforces the demo user's permissions like the API server does
+  private static currentRole(): UserRole {
+    return this.findOrThrow(this.load().team, DEMO_USER.id, 'User').role
+  }
+
+  static authorize(permission: Permission, message?: string): void {
+    assertPermission(permissionsFor(this.currentRole()), permission, message)
+  }
+
+  static getProfile(): UserProfile {
+    const role = this.currentRole()
+    return { ...DEMO_USER, role, permissions: permissionsFor(role) }
+  }
+
+  static getTeam(): TeamMember[] {
+    this.authorize('users:manage')
+    return this.load().team.map(member => ({ ...member }))
+  }
+
+  static updateUserRole(userId: string, role: UserRole): TeamMember {
+    this.authorize('users:manage')
+    const team = this.load().team
+    const member = this.findOrThrow(team, userId, 'User')
+    if (member.role === 'qa-manager' && role !== 'qa-manager' && member.status !== 'deactivated') {
+      this.assertOtherActiveManager(member.id)
+    }
+    const before = { ...member }
+    member.role = role
+    this.addActivity(userRoleChanged(before, member), null)
+    this.save()
+    return { ...member }
+  }
+
+  private static assertOtherActiveManager(userId: string): void {
+    const managers = this.load().team.filter(candidate =>
+      candidate.id !== userId && candidate.role === 'qa-manager' && candidate.status !== 'deactivated'
+    )
+    if (managers.length === 0) {
+      throw new Error('The team needs at least one QA manager')
+    }
+  }
+
+  // No emails in demo mode: invitees appear on the Team page as invited and stay that way
+  static inviteUser(invitation: UserInvitationInput): TeamMember {
+    this.authorize('users:manage')
+    const input = validate(userInvitationInputSchema, invitation, 'invitation')
+    const team = this.load().team
+    const existing = team.find(candidate => candidate.email.toLowerCase() === input.email)
+    if (existing && existing.status !== 'invited') {
+      throw new Error(`${input.email} already has an account`)
+    }
+    const member: TeamMember = existing || {
+      id: newId('demo-user'),
+      email: input.email,
+      name: input.name || undefined,
+      role: input.role || 'qa-reviewer',
+      status: 'invited',
+      createdAt: new Date().toISOString()
+    }
+    if (!existing) {
+      team.push(member)
+    }
+    this.addActivity(userInvited(member), null)
+    this.save()
+    return { ...member }
+  }
+
+  static setUserDeactivated(userId: string, deactivated: boolean): TeamMember {
+    this.authorize('users:manage')
+    const member = this.findOrThrow(this.load().team, userId, 'User')
+    if (deactivated && member.id === DEMO_USER.id) {
+      throw new Error('You cannot deactivate your own account')
+    }
+    if ((member.status === 'deactivated') === deactivated) {
+      throw new Error(`${member.email} is already ${deactivated ? 'deactivated' : 'active'}`)
+    }
+    if (deactivated && member.role === 'qa-manager') {
+      this.assertOtherActiveManager(member.id)
+    }
+    const before = { ...member }
+    // The status from before deactivation isn't kept; reactivated users come back active
+    member.status = deactivated ? 'deactivated' : 'active'
+    this.addActivity(deactivated ? userDeactivated(before, member) : userReactivated(before, member), null)
+    this.save()
+    return { ...member }
+  }
+
+  // Workspaces: like row-level security on the server, everything below only sees the active one
+  private static toWorkspace(workspace: Omit<Workspace, 'memberCount' | 'role'>): Workspace {
+    const memberCount = this.load().memberships.filter(membership => membership.workspaceId === workspace.id).length
+    // The demo user has the same role in every workspace
+    return { ...workspace, memberCount, role: this.currentRole() }
+  }
+
+  private static memberWorkspaces(): Omit<Workspace, 'memberCount' | 'role'>[] {
+    const state = this.load()
+    return state.workspaces.filter(workspace =>
+      state.memberships.some(membership => membership.workspaceId === workspace.id && membership.userId === DEMO_USER.id)
+    )
+  }
+
+  // A workspace the demo user belongs to, or not found
+  private static findMemberWorkspace(workspaceId: string): Omit<Workspace, 'memberCount' | 'role'> {
+    return this.findOrThrow(this.memberWorkspaces(), workspaceId, 'Workspace')
+  }
+
+  // Falls back to the first workspace once the demo user has left the active one
+  private static activeWorkspaceId(): string {
+    const workspaces = this.memberWorkspaces()
+    const active = workspaces.find(workspace => workspace.id === this.load().activeWorkspaceId) || workspaces[0]
+    if (!active) {
+      throw new Error('Workspace not found')
+    }
+    return active.id
+  }
+
+  static setActiveWorkspace(workspaceId: string): void {
+    this.load().activeWorkspaceId = this.findMemberWorkspace(workspaceId).id
+    this.save()
+  }
+
+  static getWorkspaces(): { workspaces: Workspace[]; activeWorkspaceId: string } {
+    return {
+      workspaces: this.memberWorkspaces().map(workspace => this.toWorkspace(workspace)),
+      activeWorkspaceId: this.activeWorkspaceId()
+    }
+  }
+
+  static createWorkspace(name: string): Workspace {
+    const input = validate(workspaceInputSchema, { name }, 'workspace input')
+    const state = this.load()
+    const now = new Date().toISOString()
+    const workspace = { id: newId('demo-workspace'), name: input.name, createdAt: now }
+    state.workspaces.push(workspace)
+    state.memberships.push({ workspaceId: workspace.id, userId: DEMO_USER.id, joinedAt: now })
+    this.addActivity(workspaceCreated(this.toWorkspace(workspace)), workspace.id)
+    this.save()
+    return this.toWorkspace(workspace)
+  }
+
+  static getWorkspaceMembers(workspaceId: string): WorkspaceMember[] {
+    const workspace = this.findMemberWorkspace(workspaceId)
+    const state = this.load()
+    return state.memberships
+      .filter(membership => membership.workspaceId === workspace.id)
+      .map(membership => {
+        const { id, email, name, role } = this.findOrThrow(state.team, membership.userId, 'User')
+        return { id, email, name, role, joinedAt: membership.joinedAt }
+      })
+  }
+
+  static removeWorkspaceMember(workspaceId: string, userId: string): void {
+    this.authorize('workspace:manage')
+    const workspace = this.findMemberWorkspace(workspaceId)
+    const members = this.getWorkspaceMembers(workspaceId)
+    const member = this.findOrThrow(members, userId, 'Member')
+    if (members.length <= 1) {
+      throw new Error('A workspace needs at least one member')
+    }
+    const state = this.load()
+    state.memberships = state.memberships.filter(membership =>
+      !(membership.workspaceId === workspace.id && membership.userId === member.id)
+    )
+    this.addActivity(workspaceMemberRemoved(this.toWorkspace(workspace), member), workspace.id)
+    this.save()
+  }
+
+  private static isPending(invitation: WorkspaceInvitation): boolean {
+    return new Date(invitation.expiresAt).getTime() > Date.now()
+  }
+
+  static getWorkspaceInvitations(workspaceId: string): WorkspaceInvitation[] {
+    this.authorize('workspace:manage')
+    const workspace = this.findMemberWorkspace(workspaceId)
+    return this.load().invitations
+      .filter(invitation => invitation.workspaceId === workspace.id && this.isPending(invitation))
+      .map(invitation => ({ ...invitation }))
+  }
+
+  // Inviting an address again renews its invitation
+  static inviteToWorkspace(workspaceId: string, email: string): WorkspaceInvitation {
+    this.authorize('workspace:manage')
+    const input = validate(workspaceInvitationInputSchema, { email }, 'invitation')
+    const workspace = this.findMemberWorkspace(workspaceId)
+    if (this.getWorkspaceMembers(workspace.id).some(member => member.email.toLowerCase() === input.email)) {
+      throw new Error(`${input.email} is already a member of this workspace`)
+    }
+    const state = this.load()
+    const now = Date.now()
+    const invitation: WorkspaceInvitation = {
+      id: newId('demo-invitation'),
+      workspaceId: workspace.id,
+      workspaceName: workspace.name,
+      email: input.email,
+      invitedBy: DEMO_USER.name,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + APP_CONSTANTS.WORKSPACE_INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    }
+    state.invitations = state.invitations
+      .filter(existing => !(existing.workspaceId === workspace.id && existing.email === input.email))
+      .concat(invitation)
+    this.addActivity(workspaceMemberInvited(invitation), workspace.id)
+    this.save()
+    return { ...invitation }
+  }
+
+  static revokeInvitation(workspaceId: string, invitationId: string): void {
+    this.authorize('workspace:manage')
+    const workspace = this.findMemberWorkspace(workspaceId)
+    const state = this.load()
+    const invitation = this.findOrThrow(
+      state.invitations.filter(candidate => candidate.workspaceId === workspace.id),
+      invitationId,
+      'Invitation'
+    )
+    state.invitations = state.invitations.filter(candidate => candidate !== invitation)
+    this.addActivity(workspaceInvitationRevoked(invitation), workspace.id)
+    this.save()
+  }
+
+  // Pending invitations addressed to the demo user
+  static getMyInvitations(): WorkspaceInvitation[] {
+    return this.load().invitations
+      .filter(invitation => invitation.email === DEMO_USER.email && this.isPending(invitation))
+      .map(invitation => ({ ...invitation }))
+  }
+
+  static acceptInvitation(invitationId: string): Workspace {
+    const invitation = this.findOrThrow(this.getMyInvitations(), invitationId, 'Invitation')
+    const state = this.load()
+    if (!state.memberships.some(membership => membership.workspaceId === invitation.workspaceId && membership.userId === DEMO_USER.id)) {
+      state.memberships.push({ workspaceId: invitation.workspaceId, userId: DEMO_USER.id, joinedAt: new Date().toISOString() })
+    }
+    state.invitations = state.invitations.filter(candidate => candidate.id !== invitation.id)
+    this.addActivity(workspaceInvitationAccepted(invitation), invitation.workspaceId)
+    this.save()
+    return this.toWorkspace(this.findMemberWorkspace(invitation.workspaceId))
+  }
+
+  // API tokens. Demo tokens look real but no server accepts them.
+  private static tokenOwner(accountId?: string): { id: string; label: string } {
+    if (!accountId) {
+      return { id: DEMO_USER.id, label: DEMO_USER.email }
+    }
+    const account = this.findServiceAccount(accountId)
+    return { id: account.id, label: `service account "${account.name}"` }
+  }
+
+  private static isLive(token: ApiToken): boolean {
+    return !token.expiresAt || new Date(token.expiresAt).getTime() > Date.now()
+  }
+
+  private static ownerTokens(ownerId: string): ApiToken[] {
+    return this.load().apiTokens.filter(token => token.ownerId === ownerId && this.isLive(token))
+  }
+
+  // Personal tokens when `accountId` is omitted, else the service account's
+  static getApiTokens(accountId?: string): ApiToken[] {
+    return this.ownerTokens(this.tokenOwner(accountId).id).map(token => ({ ...token, scopes: [...token.scopes] }))
+  }
+
+  private static issueApiToken(ownerId: string, name: string, scopes: ApiToken['scopes'], lifetimeMs?: number): CreatedApiToken {
+    const secret = `${APP_CONSTANTS.API_TOKEN_PREFIX}demo${Math.random().toString(36).substr(2, 10)}${Math.random().toString(36).substr(2, 10)}`
+    const now = Date.now()
+    const token: ApiToken = {
+      id: newId('demo-token'),
+      name,
+      prefix: secret.slice(0, APP_CONSTANTS.API_TOKEN_PREFIX.length + 8),
+      scopes,
+      ownerId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: lifetimeMs ? new Date(now + lifetimeMs).toISOString() : undefined
+    }
+    this.load().apiTokens.unshift(token)
+    return { ...token, token: secret }
+  }
+
+  static createApiToken(input: ApiTokenInput, accountId?: string): CreatedApiToken {
+    if (accountId) {
+      this.authorize('users:manage')
+    }
+    const { name, scopes, expiresInDays } = validate(apiTokenInputSchema, input, 'API token')
+    const owner = this.tokenOwner(accountId)
+    const created = this.issueApiToken(owner.id, name, scopes, expiresInDays ? expiresInDays * 24 * 60 * 60 * 1000 : undefined)
+    this.addActivity(apiTokenCreated(created, owner.label), accountId ? undefined : null)
+    this.save()
+    return created
+  }
+
+  // The new token keeps the name, scopes and lifetime of the one it replaces
+  static rotateApiToken(tokenId: string, accountId?: string): CreatedApiToken {
+    if (accountId) {
+      this.authorize('users:manage')
+    }
+    const owner = this.tokenOwner(accountId)
+    const before = this.findOrThrow(this.ownerTokens(owner.id), tokenId, 'API token')
+    const state = this.load()
+    state.apiTokens = state.apiTokens.filter(token => token !== before)
+    const lifetimeMs = before.expiresAt ? new Date(before.expiresAt).getTime() - new Date(before.createdAt).getTime() : undefined
+    const after = this.issueApiToken(owner.id, before.name, before.scopes, lifetimeMs)
+    this.addActivity(apiTokenRotated(before, after, owner.label), accountId ? undefined : null)
+    this.save()
+    return after
+  }
+
+  static revokeApiToken(tokenId: string, accountId?: string): void {
+    if (accountId) {
+      this.authorize('users:manage')
+    }
+    const owner = this.tokenOwner(accountId)
+    const token = this.findOrThrow(this.ownerTokens(owner.id), tokenId, 'API token')
+    const state = this.load()
+    state.apiTokens = state.apiTokens.filter(candidate => candidate !== token)
+    this.addActivity(apiTokenRevoked(token, owner.label), accountId ? undefined : null)
+    this.save()
+  }
+
+  // Service accounts of the active workspace
+  private static findServiceAccount(accountId: string): Omit<ServiceAccount, 'tokens'> {
+    const workspaceId = this.activeWorkspaceId()
+    return this.findOrThrow(
+      this.load().serviceAccounts.filter(account => account.workspaceId === workspaceId),
+      accountId,
+      'Service account'
+    )
+  }
+
+  private static withTokens(account: Omit<ServiceAccount, 'tokens'>): ServiceAccount {
+    return { ...account, tokens: this.getApiTokens(account.id) }
+  }
+
+  static getServiceAccounts(): ServiceAccount[] {
+    this.authorize('users:manage')
+    const workspaceId = this.activeWorkspaceId()
+    return this.load().serviceAccounts
+      .filter(account => account.workspaceId === workspaceId)
+      .map(account => this.withTokens(account))
+  }
+
+  static createServiceAccount(input: ServiceAccountInput): ServiceAccount {
+    this.authorize('users:manage')
+    const { name, role } = validate(serviceAccountInputSchema, input, 'service account')
+    const account = {
+      id: newId('demo-service'),
+      name,
+      role: role || 'qa-reviewer',
+      workspaceId: this.activeWorkspaceId(),
+      createdBy: DEMO_USER.name,
+      createdAt: new Date().toISOString()
+    }
+    this.load().serviceAccounts.push(account)
+    this.addActivity(serviceAccountCreated(this.withTokens(account)))
+    this.save()
+    return this.withTokens(account)
+  }
+
+  static deleteServiceAccount(accountId: string): void {
+    this.authorize('users:manage')
+    const account = this.withTokens(this.findServiceAccount(accountId))
+    const state = this.load()
+    state.serviceAccounts = state.serviceAccounts.filter(candidate => candidate.id !== account.id)
+    state.apiTokens = state.apiTokens.filter(token => token.ownerId !== account.id)
+    this.addActivity(serviceAccountDeleted(account))
+    this.save()
+  }
+
+  private static workspaceProjects(): Project[] {
+    const workspaceId = this.activeWorkspaceId()
+    return this.load().projects.filter(project => project.workspaceId === workspaceId)
+  }
+
+  // Projects of other workspaces are reported as missing, as on the server
+  private static findProject(projectId: string): Project {
+    return this.findOrThrow(this.workspaceProjects(), projectId, 'Project')
+  }
+
+  // Projects
+  static getProjects(query: ProjectQuery = {}): Page<Project> {
+    const page = paginateItems(this.workspaceProjects(), PROJECT_LIST, query)
+    return { ...page, items: page.items.map(project => ({ ...project })) }
+  }
+
+  static getProjectOverview(): ProjectOverview {
+    const projects = this.workspaceProjects()
+    const total = projects.reduce((sum, project) => sum + project.compliance, 0)
+    return {
+      facets: countFacets(projects, { status: project => project.status, assignee: project => project.assignee }),
+      averageCompliance: projects.length > 0 ? Math.round(total / projects.length) : 0
+    }
+  }
+
+  static createProject(projectData: ProjectInput): Project {
+    this.authorize('project:create')
+    const now = new Date().toISOString()
+    const project: Project = {
+      id: newId('demo'),
+      description: '',
+      documentType: '',
+      assignee: '',
+      status: 'active',
+      ...projectData,
+      workspaceId: this.activeWorkspaceId(),
+      createdAt: now,
+      lastActivity: now,
+      compliance: 0,
+      progress: 0
+    }
+    this.load().projects.unshift(project)
+    this.addActivity(projectCreated(project))
+    this.save()
+    return { ...project }
+  }
+
+  static updateProject(projectId: string, updates: ProjectUpdate): Project {
+    this.authorize('project:update')
+    const project = this.findProject(projectId)
+    const before = { ...project }
+    Object.assign(project, updates, { lastActivity: new Date().toISOString() })
+    this.addActivity(projectUpdated(before, project))
+    this.save()
+    return { ...project }
+  }
+
+  static deleteProject(projectId: string): void {
+    this.authorize('project:delete')
+    const state = this.load()
+    const project = this.findProject(projectId)
+    this.addActivity(projectDeleted(project))
+    state.projects = state.projects.filter(candidate => candidate !== project)
+    state.requirements = state.requirements.filter(requirement => requirement.projectId !== projectId)
+    state.documents = state.documents.filter(document => document.projectId !== projectId)
+    // Like the database, keep the project's activities but drop the link to it
+    state.activities.forEach(activity => {
+      if (activity.projectId === projectId) {
+        activity.projectId = undefined
+      }
+    })
+    this.save()
+  }
+
+  // Requirements
+  private static projectRequirements(projectId: string): DemoRequirement[] {
+    this.findProject(projectId)
+    return this.load().requirements.filter(requirement => requirement.projectId === projectId)
+  }
+
+  private static findRequirement(requirementId: string): DemoRequirement {
+    const requirement = this.findOrThrow(this.load().requirements, requirementId, 'Requirement')
+    if (!this.workspaceProjects().some(project => project.id === requirement.projectId)) {
+      throw new Error('Requirement not found')
+    }
+    return requirement
+  }
+
+  static getRequirements(projectId: string, query: RequirementQuery = {}): Page<Requirement> {
+    const page = paginateItems(this.projectRequirements(projectId), REQUIREMENT_LIST, query)
+    return { ...page, items: page.items.map(stripProjectId) }
+  }
+
+  static getRequirementFacets(projectId: string): RequirementFacets {
+    return countFacets(this.projectRequirements(projectId), {
+      status: requirement => requirement.status,
+      priority: requirement => requirement.priority,
+      category: requirement => requirement.category,
+      assignee: requirement => requirement.assignee
+    })
+  }
+
+  // The document a requirement's source names, if it belongs to the project
+  private static sourceDocument(projectId: string, documentId?: string): Document | null {
+    return this.load().documents.find(document => document.id === documentId && document.projectId === projectId) || null
+  }
+
+  static createRequirement(projectId: string, requirementData: RequirementInput): Requirement {
+    this.authorize('requirement:create')
+    const state = this.load()
+    this.findProject(projectId)
+    const requirement: DemoRequirement = {
+      id: newId('demo-req'),
+      description: '',
+      category: '',
+      priority: 'medium',
+      status: 'pending',
+      ...resolveRequirementSource(requirementData, this.sourceDocument(projectId, requirementData.sourceDocument)),
+      projectId,
+      lastUpdated: new Date().toISOString()
+    }
+    state.requirements.unshift(requirement)
+    this.touchProject(projectId)
+    this.addActivity(requirementCreated(projectId, stripProjectId(requirement)))
+    this.save()
+    return stripProjectId(requirement)
+  }
+
+  static updateRequirement(requirementId: string, updates: RequirementUpdate): Requirement {
+    this.authorize('requirement:update')
+    const requirement = this.findRequirement(requirementId)
+    if (changesFinalStatus(requirement.status, updates.status)) {
+      this.authorize('requirement:finalize', 'Only QA managers can set or reopen a final status')
+    }
+    const before = stripProjectId(requirement)
+    const sourceDocument = updates.sourceDocument ?? requirement.sourceDocument
+    const resolved = changesRequirementSource(updates)
+      ? resolveRequirementSource({ ...updates, sourceDocument }, this.sourceDocument(requirement.projectId, sourceDocument))
+      : updates
+    Object.assign(requirement, resolved, { lastUpdated: new Date().toISOString() })
+    this.touchProject(requirement.projectId)
+    this.addActivity(requirementUpdated(requirement.projectId, before, stripProjectId(requirement)))
+    this.save()
+    return stripProjectId(requirement)
+  }
+
+  static deleteRequirement(requirementId: string): void {
+    this.authorize('requirement:delete')
+    const state = this.load()
+    const requirement = this.findRequirement(requirementId)
+    state.requirements = state.requirements.filter(candidate => candidate !== requirement)
+    this.touchProject(requirement.projectId)
+    this.addActivity(requirementDeleted(requirement.projectId, stripProjectId(requirement)))
+    this.save()
+  }
+
+  // Documents
+  static getDocuments(projectId: string): Document[] {
+    this.findProject(projectId)
+    return this.load().documents
+      .filter(document => document.projectId === projectId)
+      .map(document => ({ ...document }))
+  }
+
+  private static findDocument(documentId: string): Document {
+    const document = this.findOrThrow(this.load().documents, documentId, 'Document')
+    if (!this.workspaceProjects().some(project => project.id === document.projectId)) {
+      throw new Error('Document not found')
+    }
+    return document
+  }
+
+  static getDocument(documentId: string): Document {
+    return { ...this.findDocument(documentId) }
+  }
+
+  // Documents seeded before versions existed are version 1 of their own lineage
+  private static lineageOf(document: Document): string {
+    return document.lineageId || document.id
+  }
+
+  private static lineage(document: Document): Document[] {
+    return this.load().documents.filter(candidate => this.lineageOf(candidate) === this.lineageOf(document))
+  }
+
+  static createDocument(
+    file: { name: string; size: number; type: string },
+    projectId: string,
+    documentType: string,
+    extraction: DocumentExtraction,
+    version: DocumentVersionInput & { contentHash?: string } = {}
+  ): Document {
+    this.authorize('document:upload')
+    const state = this.load()
+    this.findProject(projectId)
+    const duplicate = version.contentHash
+      ? state.documents.find(document => document.projectId === projectId && document.contentHash === version.contentHash)
+      : undefined
+    if (duplicate) {
+      throw duplicateDocumentError(duplicate)
+    }
+    const previous = version.versionOf
+      ? state.documents.find(document => document.id === version.versionOf && document.projectId === projectId)
+      : undefined
+    if (version.versionOf && !previous) {
+      throw new DataValidationError('document version', [{ code: 'custom', path: ['versionOf'], message: 'No such document in this project' }])
+    }
+    const versions = previous ? this.lineage(previous) : []
+    versions.forEach(document => {
+      document.isCurrent = false
+    })
+
+    const id = newId('demo-doc')
+    const document: Document = {
+      id,
+      title: file.name,
+      name: file.name,
+      type: documentType === 'program' ? 'program' : 'policy',
+      content: extraction.text,
+      uploadDate: new Date().toISOString(),
+      size: file.size,
+      projectId,
+      mimeType: file.type || undefined,
+      extractionStatus: extraction.status,
+      extractionError: extraction.error,
+      pages: extraction.pages,
+      structure: extraction.structure,
+      extractedAt: new Date().toISOString(),
+      contentHash: version.contentHash,
+      lineageId: previous ? this.lineageOf(previous) : id,
+      version: versions.reduce((latest, candidate) => Math.max(latest, candidate.version || 1), 0) + 1,
+      isCurrent: true,
+      ...extraction.metadata,
+      // The date given with the upload wins over the one found in the text
+      effectiveDate: version.effectiveDate || extraction.metadata.effectiveDate,
+      uploadedBy: DEMO_USER.id,
+      uploaderName: DEMO_USER.name,
+      ...(version.category ? { category: version.category } : {})
+    }
+    state.documents.unshift(document)
+    this.touchProject(projectId)
+    this.addActivity(documentUploaded(document))
+    this.save()
+    return { ...document }
+  }
+
+  // Every version of the document, newest first
+  static getDocumentVersions(documentId: string): Document[] {
+    return this.lineage(this.findDocument(documentId))
+      .sort((a, b) => (b.version || 1) - (a.version || 1))
+      .map(document => ({ ...document }))
+  }
+
+  static makeCurrentVersion(documentId: string): Document {
+    this.authorize('document:update')
+    const document = this.findDocument(documentId)
+    const before = { ...document }
+    this.lineage(document).forEach(candidate => {
+      candidate.isCurrent = candidate === document
+    })
+    this.addActivity(documentUpdated(before, document))
+    this.save()
+    return { ...document }
+  }
+
+  static updateDocument(documentId: string, updates: DocumentUpdate): Document {
+    this.authorize('document:update')
+    const document = this.findDocument(documentId)
+    const before = { ...document }
+    Object.assign(document, updates, updates.title ? { name: updates.title } : {})
+    // null clears a metadata field or the category
+    Object.keys(updates).forEach(key => {
+      if (updates[key as keyof DocumentUpdate] === null) {
+        delete document[key as keyof Document]
+      }
+    })
+    this.addActivity(documentUpdated(before, document))
+    this.save()
+    return { ...document }
+  }
+
+  static deleteDocument(documentId: string): void {
+    this.authorize('document:delete')
+    const state = this.load()
+    const document = this.findDocument(documentId)
+    state.documents = state.documents.filter(candidate => candidate !== document)
+    // The newest version left takes the place of a deleted current one
+    const remaining = this.lineage(document)
+    if (remaining.length > 0 && !remaining.some(candidate => candidate.isCurrent !== false)) {
+      remaining.reduce((latest, candidate) => (candidate.version || 1) > (latest.version || 1) ? candidate : latest).isCurrent = true
+    }
+    this.touchProject(document.projectId)
+    this.addActivity(documentDeleted(document))
+    this.save()
+  }
+
+  // Activities
+  // The active workspace's feed plus team-wide entries such as role changes
+  static getActivities(query: ActivityQuery = {}): Page<Activity> {
+    const workspaceId = this.activeWorkspaceId()
+    const activities = this.load().activities.filter(activity => !activity.workspaceId || activity.workspaceId === workspaceId)
+    const page = paginateItems(activities, ACTIVITY_LIST, query)
+    return { ...page, items: page.items.map(activity => ({ ...activity })) }
+  }
+
+  // Mutations record their audit entry through this and save once for both changes. Entries go
+  // to the project's workspace, else the active one; null records a team-wide entry.
+  private static addActivity(activityData: ActivityInput, workspaceId?: string | null): Activity {
+    const state = this.load()
+    const project = state.projects.find(p => p.id === activityData.projectId)
+    const activity: Activity = {
+      id: newId('demo-activity'),
+      type: activityData.type,
+      user: DEMO_USER.name,
+      action: activityData.action,
+      target: activityData.target || '',
+      title: activityData.title || '',
+      description: activityData.description || '',
+      projectName: project?.name,
+      projectId: activityData.projectId,
+      workspaceId: project?.workspaceId || (workspaceId === null ? undefined : workspaceId || this.activeWorkspaceId()),
+      timestamp: new Date().toISOString(),
+      changes: Array.isArray(activityData.metadata?.changes) ? activityData.metadata?.changes : undefined
+    }
+    state.activities.unshift(activity)
+    this.appendAuditEntry(toAuditPayload({
+      id: activity.id,
+      user_id: DEMO_USER.id,
+      user_email: DEMO_USER.email,
+      project_id: activity.projectId,
+      type: activity.type,
+      action: activity.action,
+      target: activity.target,
+      title: activity.title,
+      description: activity.description,
+      metadata: { ...(project ? { projectName: project.name } : {}), ...activityData.metadata },
+      created_at: activity.timestamp,
+      workspace_id: activity.workspaceId
+    }), activity.workspaceId)
+    return activity
+  }
+
+  private static appendAuditEntry(payload: string, workspaceId?: string): void {
+    this.auditQueue = this.auditQueue
+      .then(async () => {
+        const auditLog = this.load().auditLog
+        auditLog.push(await chainEntry(auditLog[auditLog.length - 1] || null, payload, workspaceId))
+        this.save()
+      })
+      .catch(error => console.warn('Demo store: unable to append to the audit log', error))
+  }
+
+  static createActivity(activityData: ActivityInput): Activity {
+    const activity = this.addActivity(activityData)
+    this.save()
+    return { ...activity }
+  }
+
+  // Audit log of the active workspace
+  static async getAuditLog(query: AuditLogQuery = {}): Promise<Page<AuditLogEntry>> {
+    this.authorize('audit:read')
+    await this.auditQueue
+    const workspaceId = this.activeWorkspaceId()
+    const page = paginateItems(this.load().auditLog.filter(entry => entry.workspaceId === workspaceId), AUDIT_LOG_LIST, query)
+    return { ...page, items: page.items.map(entry => ({ ...entry })) }
+  }
+
+  static async verifyAuditLog(): Promise<AuditVerification> {
+    this.authorize('audit:read')
+    await this.auditQueue
+    return verifyAuditChain(this.load().auditLog, { workspaceId: this.activeWorkspaceId() })
+  }
+
+  // Demo evidence is never signed: there is no server to hold the key
+  static async exportAuditEvidence(): Promise<AuditEvidence> {
+    const verification = await this.verifyAuditLog()
+    const workspaceId = this.activeWorkspaceId()
+    const entries = this.load().auditLog.filter(entry => entry.workspaceId === workspaceId)
+    return buildAuditEvidence(entries.map(entry => ({ ...entry })), verification, DEMO_USER.email, workspaceId)
+  }
+}
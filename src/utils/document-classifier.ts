@@ -0,0 +1,135 @@
+import { extractDocumentText } from './extraction'
+import type { Document } from '../types'
+
+// Suggests whether an uploaded file is a policy document (what is required: policies, notices,
+// standards, regulations) or program documentation (how it is done: procedures, plans,
+// agreements, assessments), and which kind of document it is. Runs in the browser on the file's
+// name, title and the start of its text, going by the words each kind of document uses; nothing
+// leaves the machine. The suggestion comes with a confidence from 0 to 1, and the upload page
+// lets people accept or override it.
+
+export interface DocumentCategory {
+  label: string
+  type: Document['type']
+  // Words that mark the category; a match in the name or title counts more than one in the text
+  patterns: RegExp[]
+}
+
+export interface DocumentClassification {
+  type: Document['type']
+  // 0 to 1
+  confidence: number
+  // Label of the category that stood out, if one did
+  category?: string
+  // The file name alone, or its text as well
+  basis: 'name' | 'text'
+}
+
+export const DOCUMENT_CATEGORIES: DocumentCategory[] = [
+  { label: 'Privacy notice', type: 'policy', patterns: [/\bprivacy\s+(?:notice|statement)\b/i, /\bnotice\s+of\s+privacy\s+practices\b/i, /\bpersonal\s+(?:data|information)\s+we\s+collect\b/i] },
+  { label: 'Privacy policy', type: 'policy', patterns: [/\b(?:data\s+protection|privacy)\s+policy\b/i, /\bdata\s+subjects?\b/i, /\bpersonal\s+data\b/i] },
+  { label: 'Access control policy', type: 'policy', patterns: [/\baccess\s+control\s+policy\b/i, /\bleast\s+privilege\b/i, /\b(?:user\s+)?access\s+(?:rights|reviews?)\b/i, /\bmulti-?factor\s+authentication\b/i] },
+  { label: 'Information security policy', type: 'policy', patterns: [/\binformation\s+security\s+policy\b/i, /\bsecurity\s+policy\b/i, /\bconfidentiality,\s+integrity\s+and\s+availability\b/i] },
+  { label: 'Acceptable use policy', type: 'policy', patterns: [/\bacceptable\s+use\b/i, /\bpersonal\s+use\s+of\b/i, /\bprohibited\s+(?:use|activities)\b/i] },
+  { label: 'Data retention policy', type: 'policy', patterns: [/\b(?:data|records?)\s+retention\b/i, /\bretention\s+(?:period|schedule)s?\b/i, /\bdisposal\s+of\s+records\b/i] },
+  { label: 'Code of conduct', type: 'policy', patterns: [/\bcode\s+of\s+(?:conduct|ethics)\b/i, /\bconflicts?\s+of\s+interest\b/i, /\bwhistle-?blow/i] },
+  { label: 'Regulation or standard', type: 'policy', patterns: [/\bregulation\s+\(eu\)/i, /\b(?:hipaa|gdpr|ccpa|sox|pci[\s-]dss|iso\/?\s*iec\s+27001|iso\s+27001|nist\s+(?:sp\s+)?800|sr\s+11-7)\b/i, /\bcode\s+of\s+federal\s+regulations\b|\bcfr\b/i, /\bthe\s+(?:commission|member\s+states)\b/i] },
+  { label: 'Business associate agreement', type: 'program', patterns: [/\bbusiness\s+associate\s+(?:agreement|contract|addendum)\b|\bbaa\b/i, /\bprotected\s+health\s+information\b|\bphi\b/i, /\bcovered\s+entity\b/i] },
+  { label: 'Data processing agreement', type: 'program', patterns: [/\bdata\s+processing\s+(?:agreement|addendum)\b|\bdpa\b/i, /\bsub-?processors?\b/i, /\bstandard\s+contractual\s+clauses\b/i] },
+  { label: 'Vendor agreement', type: 'program', patterns: [/\b(?:vendor|supplier|services|master\s+services)\s+agreement\b|\bmsa\b/i, /\bstatement\s+of\s+work\b|\bsow\b/i, /\bthe\s+parties\s+agree\b/i, /\bin\s+witness\s+whereof\b/i] },
+  { label: 'Procedure', type: 'program', patterns: [/\b(?:standard\s+operating\s+)?procedures?\b|\bsop\b/i, /\bstep\s+\d+\b/i, /\bwork\s+instructions?\b/i] },
+  { label: 'Incident response plan', type: 'program', patterns: [/\bincident\s+response\b/i, /\bbreach\s+notification\b/i, /\bescalation\s+(?:path|matrix|contacts?)\b/i] },
+  { label: 'Business continuity plan', type: 'program', patterns: [/\bbusiness\s+continuity\b|\bbcp\b/i, /\bdisaster\s+recovery\b|\bdrp\b/i, /\brecovery\s+(?:time|point)\s+objective\b|\brto\b|\brpo\b/i] },
+  { label: 'Risk assessment', type: 'program', patterns: [/\brisk\s+(?:assessment|register|analysis)\b/i, /\blikelihood\b/i, /\bresidual\s+risk\b/i, /\brisk\s+(?:rating|score)\b/i] },
+  { label: 'Audit or test report', type: 'program', patterns: [/\baudit\s+(?:report|findings)\b/i, /\b(?:penetration|pen)\s+test\b/i, /\bsoc\s*[12]\b/i, /\bfindings?\s+and\s+recommendations\b/i] },
+  { label: 'Training material', type: 'program', patterns: [/\btraining\b/i, /\bawareness\b/i, /\blearning\s+objectives\b/i, /\bquiz\b/i] },
+  { label: 'Model documentation', type: 'program', patterns: [/\bmodel\s+(?:documentation|development|validation)\b/i, /\bback-?testing\b/i, /\bmodel\s+(?:inventory|limitations)\b/i] }
+]
+
+// Words policy documents and program documentation use whatever their category
+const TYPE_PATTERNS: Record<Document['type'], RegExp[]> = {
+  policy: [/\bpolicy\b/i, /\bshall\b/i, /\bmust\s+(?:be|not|ensure)\b/i, /\bpolicy\s+statement\b/i, /\bnon-?compliance\b/i, /\bexceptions?\s+to\s+this\s+policy\b/i],
+  program: [/\bprogram(?:me)?\b/i, /\bprocedure\b/i, /\bplan\b/i, /\bresponsible\s+(?:party|team)\b/i, /\bevidence\b/i, /\bimplementation\b/i]
+}
+
+const NAME_WEIGHT = 3
+const TITLE_WEIGHT = 2
+// Matches in the text count once each, up to this many per pattern
+const MAX_TEXT_MATCHES = 3
+// A score this high is a confident suggestion on its own
+const CONFIDENT_SCORE = 8
+// Only the start of the text is read
+const TEXT_LENGTH = 20000
+// Larger files are classified by their name, rather than extracted in the browser
+const MAX_EXTRACT_BYTES = 20 * 1024 * 1024
+
+interface Evidence {
+  name: string
+  title: string
+  text: string
+}
+
+const countMatches = (pattern: RegExp, text: string): number => {
+  if (!text) {
+    return 0
+  }
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`)
+  return Math.min((text.match(global) || []).length, MAX_TEXT_MATCHES)
+}
+
+const score = (patterns: RegExp[], evidence: Evidence): number =>
+  patterns.reduce((total, pattern) =>
+    total
+      + (pattern.test(evidence.name) ? NAME_WEIGHT : 0)
+      + (pattern.test(evidence.title) ? TITLE_WEIGHT : 0)
+      + countMatches(pattern, evidence.text), 0)
+
+// How far the best score stands out from the rest, scaled down when it is weak
+const confidenceOf = (best: number, others: number): number =>
+  best > 0 ? Math.round(best / (best + others) * Math.min(best / CONFIDENT_SCORE, 1) * 100) / 100 : 0
+
+// Underscores, dashes and dots of file names read as spaces
+const readableName = (name: string): string =>
+  name.replace(/\.[^.]+$/, '').replace(/[_.-]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2')
+
+// The suggestion for a file with this name and text, or null when nothing in them points either way
+export const classifyDocument = (name: string, text = '', title = ''): DocumentClassification | null => {
+  const evidence = { name: readableName(name), title, text: text.slice(0, TEXT_LENGTH) }
+  const categories = DOCUMENT_CATEGORIES
+    .map(category => ({ category, score: score(category.patterns, evidence) }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  const typeScores: Record<Document['type'], number> = {
+    policy: score(TYPE_PATTERNS.policy, evidence),
+    program: score(TYPE_PATTERNS.program, evidence)
+  }
+  categories.forEach(({ category, score }) => {
+    typeScores[category.type] += score
+  })
+  const type: Document['type'] = typeScores.program > typeScores.policy ? 'program' : 'policy'
+  const confidence = confidenceOf(typeScores[type], typeScores[type === 'policy' ? 'program' : 'policy'])
+  if (confidence === 0) {
+    return null
+  }
+
+  // The category has to agree with the type and score more than the others together
+  const best = categories.find(candidate => candidate.category.type === type)
+  const otherScores = categories.reduce((total, candidate) => total + candidate.score, 0) - (best?.score || 0)
+  return {
+    type,
+    confidence,
+    ...(best && best.score > otherScores ? { category: best.category.label } : {}),
+    basis: text ? 'text' : 'name'
+  }
+}
+
+// Extracts the file's text in the browser and classifies it; files that are too large or can't
+// be read are classified by their name
+export const classifyFile = async (file: File): Promise<DocumentClassification | null> => {
+  if (file.size > MAX_EXTRACT_BYTES) {
+    return classifyDocument(file.name)
+  }
+  const extraction = await extractDocumentText(new Uint8Array(await file.arrayBuffer()), { name: file.name, mimeType: file.type })
+  return classifyDocument(file.name, extraction.text, extraction.metadata.documentTitle)
+}
@@ -0,0 +1,157 @@
+import { DatabaseError, type QueryResult } from './aurora-service'
+import { DataValidationError } from './validation'
+import { mapDocumentRow } from './row-mappers'
+import type { Document, DocumentVersionInput } from '../types'
+
+// Content hashes and versions of documents, shared by AuroraService and the API server (the demo
+// store keeps the same rules in memory). A file is fingerprinted by the SHA-256 of its bytes, and
+// one already in the project is refused. A changed file uploaded as a version of a document joins
+// its lineage with the next number and becomes the current version; earlier versions keep their
+// rows, text and requirements.
+
+type RunQuery = (sql: string, params?: any[]) => Promise<QueryResult>
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// documents rows with the uploader's name, for mapDocumentRow
+export const DOCUMENT_ROWS_SQL = `
+  SELECT d.*, COALESCE(u.name, u.email) AS uploader_name
+  FROM documents d
+  LEFT JOIN users u ON d.uploaded_by = u.id`
+
+export interface NewDocument extends DocumentVersionInput {
+  projectId: string
+  filename: string
+  filePath: string
+  fileSize: number
+  documentType?: string | null
+  mimeType?: string | null
+  uploadedBy: string
+  contentHash: string
+}
+
+export const contentHash = async (data: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest))
+    .map(byte => ('0' + byte.toString(16)).slice(-2))
+    .join('')
+}
+
+export const versionLabel = (document: Pick<Document, 'title' | 'version'>): string =>
+  document.version && document.version > 1 ? `"${document.title}" (version ${document.version})` : `"${document.title}"`
+
+// The date a version took effect: its effective date, else the date it was approved
+export const documentDate = (document: Pick<Document, 'effectiveDate' | 'approvalDate'>): string | undefined =>
+  document.effectiveDate || document.approvalDate
+
+// Why a program document can't reflect the policy version it is compared against, when it is
+// dated before that version took effect; null when it isn't, or when either date is unknown
+export const predatesPolicy = (program: Document, policy: Document): string | null => {
+  const programDate = documentDate(program)
+  const policyDate = documentDate(policy)
+  return programDate && policyDate && programDate < policyDate
+    ? `${versionLabel(program)} is dated ${programDate}, before ${versionLabel(policy)} took effect on ${policyDate}`
+    : null
+}
+
+// 409 through the API server, like other unique violations
+export const duplicateDocumentError = (existing: Pick<Document, 'title' | 'version'>): DatabaseError =>
+  new DatabaseError(`This file is already in the project as ${versionLabel(existing)}`, 'unique_violation')
+
+// Whether an upload was refused as a duplicate, by any back end (APIService raises the API
+// server's 409 as the same error)
+export const isDuplicateDocumentError = (error: unknown): boolean =>
+  error instanceof DatabaseError && error.code === 'unique_violation'
+
+export const findDuplicateDocument = async (query: RunQuery, projectId: string, hash: string): Promise<Document | null> => {
+  const result = await query('SELECT * FROM documents WHERE project_id = $1 AND content_hash = $2', [projectId, hash])
+  return result.rows[0] ? mapDocumentRow(result.rows[0]) : null
+}
+
+// Lineage and number of the version `versionOf` names, or of a new document
+const nextVersion = async (query: RunQuery, projectId: string, versionOf?: string): Promise<{ lineageId: string | null; version: number }> => {
+  if (!versionOf) {
+    return { lineageId: null, version: 1 }
+  }
+  const result = UUID_PATTERN.test(versionOf) ? await query(
+    `SELECT d.lineage_id, (SELECT MAX(version) FROM documents WHERE lineage_id = d.lineage_id) AS latest
+     FROM documents d
+     WHERE d.id = $1 AND d.project_id = $2`,
+    [versionOf, projectId]
+  ) : { rows: [] }
+  if (!result.rows[0]) {
+    throw new DataValidationError('document version', [{ code: 'custom', path: ['versionOf'], message: 'No such document in this project' }])
+  }
+  return { lineageId: result.rows[0].lineage_id, version: Number(result.rows[0].latest) + 1 }
+}
+
+// Inserts the row of an uploaded file and resolves to its id; run it in a transaction. The unique
+// indexes of migration 15 catch a duplicate or version number that another upload got in first.
+// An effective date given with the upload counts as set by hand (see saveDocumentExtraction).
+export const insertDocument = async (query: RunQuery, document: NewDocument): Promise<string> => {
+  const duplicate = await findDuplicateDocument(query, document.projectId, document.contentHash)
+  if (duplicate) {
+    throw duplicateDocumentError(duplicate)
+  }
+
+  const { lineageId, version } = await nextVersion(query, document.projectId, document.versionOf)
+  if (lineageId) {
+    await query('UPDATE documents SET is_current = FALSE, updated_at = NOW() WHERE lineage_id = $1 AND is_current', [lineageId])
+  }
+  const result = await query(
+    `INSERT INTO documents (
+       project_id, filename, file_path, file_size, document_type, mime_type, uploaded_by,
+       content_hash, lineage_id, version, effective_date, metadata_edited, category
+     )
+     VALUES (
+       $1, $2, $3, $4, $5, $6, $7, $8, COALESCE($9::uuid, gen_random_uuid()), $10, $11,
+       CASE WHEN $11::date IS NULL THEN '{}' ELSE '{effective_date}' END::text[], $12
+     )
+     RETURNING id`,
+    [
+      document.projectId,
+      document.filename,
+      document.filePath,
+      document.fileSize,
+      document.documentType || null,
+      document.mimeType || null,
+      document.uploadedBy,
+      document.contentHash,
+      lineageId,
+      version,
+      document.effectiveDate || null,
+      document.category || null
+    ]
+  )
+  return result.rows[0].id
+}
+
+// Every version of the document's lineage, newest first
+export const getDocumentVersions = async (query: RunQuery, documentId: string): Promise<Document[]> => {
+  const result = await query(
+    `${DOCUMENT_ROWS_SQL}
+     WHERE d.lineage_id = (SELECT lineage_id FROM documents WHERE id = $1)
+     ORDER BY d.version DESC`,
+    [documentId]
+  )
+  return result.rows.map(mapDocumentRow)
+}
+
+// Makes the document the current version of its lineage, for going back to an earlier one
+export const makeCurrentVersion = async (query: RunQuery, documentId: string): Promise<void> => {
+  await query(
+    `UPDATE documents SET is_current = (id = $1), updated_at = NOW()
+     WHERE lineage_id = (SELECT lineage_id FROM documents WHERE id = $1) AND is_current <> (id = $1)`,
+    [documentId]
+  )
+}
+
+// After the current version is deleted, the newest one left takes its place
+export const promoteLatestVersion = async (query: RunQuery, lineageId: string): Promise<void> => {
+  await query(
+    `UPDATE documents SET is_current = TRUE, updated_at = NOW()
+     WHERE id = (SELECT id FROM documents WHERE lineage_id = $1 ORDER BY version DESC LIMIT 1)
+       AND NOT EXISTS (SELECT 1 FROM documents WHERE lineage_id = $1 AND is_current)`,
+    [lineageId]
+  )
+}
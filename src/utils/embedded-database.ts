@@ -0,0 +1,207 @@
+import { PGlite } from '@electric-sql/pglite'
+import { APP_CONSTANTS } from './constants'
+import { toDatabaseError, type QueryExecutor, type QueryResult } from './aurora-service'
+import { MIGRATIONS } from './migrations'
+import {
+  DEMO_SCENARIOS,
+  DEMO_TEAM,
+  DEMO_USER,
+  DEMO_WORKSPACES,
+  DEMO_WORKSPACE_ID,
+  DEMO_INVITATIONS,
+  isDemoScenario,
+  type DemoScenario
+} from './demo-scenarios'
+
+// In-process Postgres (PGlite, compiled to WebAssembly) for demo and test runs.
+// The real migrations and AuroraService SQL run against it, so no database server is needed.
+
+export interface EmbeddedDatabase extends QueryExecutor {
+  close(): Promise<void>
+}
+
+export interface EmbeddedDatabaseOptions {
+  // Seed data to load after migrating; defaults to DEMO_SCENARIO
+  scenario?: DemoScenario
+}
+
+// Executor over an open PGlite database, such as one a test has set up with its own roles
+export const toEmbeddedDatabase = (db: PGlite): EmbeddedDatabase => {
+  // PGlite has a single connection, so a transaction is simply BEGIN ... COMMIT on it.
+  // Calls made while one is open join it, which is fine for a single in-process user.
+  let depth = 0
+
+  const query = async (sql: string, params: any[] = []): Promise<QueryResult> => {
+    try {
+      if (params.length > 0) {
+        const result = await db.query<any>(sql, params)
+        return { rows: result.rows, rowCount: result.affectedRows ?? result.rows.length }
+      }
+      // Parameterless SQL may hold several statements (migrations); return the last result
+      const results = await db.exec(sql)
+      const last = results[results.length - 1]
+      return { rows: last?.rows || [], rowCount: last?.affectedRows ?? last?.rows.length ?? 0 }
+    } catch (error) {
+      throw toDatabaseError(error)
+    }
+  }
+
+  const transaction = async <T>(work: () => Promise<T>): Promise<T> => {
+    if (depth > 0) {
+      return work()
+    }
+
+    depth++
+    try {
+      await query('BEGIN')
+      const result = await work()
+      await query('COMMIT')
+      return result
+    } catch (error) {
+      await query('ROLLBACK').catch(() => undefined)
+      throw error
+    } finally {
+      depth--
+    }
+  }
+
+  return { query, transaction, close: () => db.close() }
+}
+
+const migrate = async (database: EmbeddedDatabase): Promise<void> => {
+  await database.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `)
+  for (const migration of MIGRATIONS) {
+    await database.transaction(async () => {
+      await database.query(migration.up)
+      await database.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name])
+    })
+  }
+}
+
+// Load a demo scenario, letting Postgres assign UUIDs and remapping the scenario's ids
+const seed = async (database: EmbeddedDatabase, scenario: DemoScenario): Promise<void> => {
+  const data = DEMO_SCENARIOS[scenario]()
+  const projectIds = new Map<string, string>()
+
+  await database.transaction(async () => {
+    const team = DEMO_TEAM()
+    for (const member of team) {
+      await database.query(
+        'INSERT INTO users (id, email, name, created_at, email_verified_at) VALUES ($1, $2, $3, $4, $4)',
+        [member.id, member.email, member.name, member.createdAt]
+      )
+    }
+
+    for (const workspace of DEMO_WORKSPACES()) {
+      await database.query(
+        'INSERT INTO workspaces (id, name, created_by, created_at) VALUES ($1, $2, $3, $4)',
+        [workspace.id, workspace.name, workspace.memberIds[0], workspace.createdAt]
+      )
+      // Members have their team role in every workspace
+      for (const userId of workspace.memberIds) {
+        await database.query(
+          'INSERT INTO workspace_members (workspace_id, user_id, role, joined_at) VALUES ($1, $2, $3, $4)',
+          [workspace.id, userId, team.find(member => member.id === userId)?.role, workspace.createdAt]
+        )
+      }
+    }
+
+    for (const invitation of DEMO_INVITATIONS()) {
+      await database.query(
+        `INSERT INTO workspace_invitations (id, workspace_id, email, invited_by, created_at, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          invitation.id, invitation.workspaceId, invitation.email,
+          team.find(member => member.name === invitation.invitedBy)?.id ?? null,
+          invitation.createdAt, invitation.expiresAt
+        ]
+      )
+    }
+
+    for (const project of data.projects) {
+      const result = await database.query(
+        `INSERT INTO projects (
+           name, description, user_id, workspace_id, document_type, assignee, status,
+           compliance_score, progress, created_at, last_activity
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         RETURNING id`,
+        [
+          project.name, project.description, DEMO_USER.id, DEMO_WORKSPACE_ID, project.documentType, project.assignee,
+          project.status, project.compliance, project.progress ?? 0, project.createdAt, project.lastActivity
+        ]
+      )
+      projectIds.set(project.id, result.rows[0].id)
+    }
+
+    const documentIds = new Map<string, string>()
+    for (const document of data.documents) {
+      const result = await database.query(
+        `INSERT INTO documents (
+           project_id, filename, file_size, document_type, mime_type, uploaded_by, created_at,
+           extracted_text, page_map, structure, extraction_status, extracted_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $7)
+         RETURNING id`,
+        [
+          projectIds.get(document.projectId!), document.title, document.size ?? 0, document.type,
+          document.mimeType ?? null, DEMO_USER.id, document.uploadDate, document.content,
+          document.pages ? JSON.stringify(document.pages) : null,
+          document.structure ? JSON.stringify(document.structure) : null,
+          document.extractionStatus || 'pending'
+        ]
+      )
+      documentIds.set(document.id, result.rows[0].id)
+    }
+
+    for (const requirement of data.requirements) {
+      await database.query(
+        `INSERT INTO requirements (
+           project_id, title, description, category, priority, status, confidence,
+           evidence, gaps, recommendations, section, assignee, notes, updated_at,
+           source_document_id, source_section, source_start, source_end, source_page
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)`,
+        [
+          projectIds.get(requirement.projectId), requirement.title, requirement.description, requirement.category,
+          requirement.priority, requirement.status, requirement.confidence ?? 0, requirement.evidence ?? null,
+          requirement.gaps || [], requirement.recommendations || [], requirement.section ?? null,
+          requirement.assignee ?? null, requirement.notes ?? null, requirement.lastUpdated || new Date().toISOString(),
+          requirement.sourceDocument ? documentIds.get(requirement.sourceDocument) ?? null : null,
+          requirement.sourceSection || null, requirement.sourceStart ?? null, requirement.sourceEnd ?? null,
+          requirement.sourcePage ?? null
+        ]
+      )
+    }
+
+    for (const activity of data.activities) {
+      await database.query(
+        `INSERT INTO activities (
+           project_id, user_id, workspace_id, type, action, target, title, description, metadata, created_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          activity.projectId ? projectIds.get(String(activity.projectId)) ?? null : null, DEMO_USER.id, DEMO_WORKSPACE_ID,
+          activity.type, activity.action, activity.target, activity.title, activity.description,
+          JSON.stringify({ user: activity.user }), activity.timestamp
+        ]
+      )
+    }
+  })
+}
+
+// Create a fresh in-memory database with the full schema and a seeded scenario
+export const createEmbeddedDatabase = async (options: EmbeddedDatabaseOptions = {}): Promise<EmbeddedDatabase> => {
+  const configured = isDemoScenario(APP_CONSTANTS.DEMO_SCENARIO) ? APP_CONSTANTS.DEMO_SCENARIO : 'default'
+  const database = toEmbeddedDatabase(await PGlite.create())
+
+  await migrate(database)
+  await seed(database, options.scenario || configured)
+  return database
+}
@@ -0,0 +1,194 @@
+import { ExtractionError } from './extractor'
+
+// Reader for OLE compound files (MS-CFB), the container of Word 97-2003 documents, Outlook
+// messages and password-protected Office 2007+ files: a small FAT file system whose streams
+// are looked up by name.
+
+const SIGNATURE = [0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1]
+const END_OF_CHAIN = 0xFFFFFFFE
+const NO_STREAM = 0xFFFFFFFF
+const NO_SIBLING = 0xFFFFFFFF
+const HEADER_DIFAT_ENTRIES = 109
+// 512-byte sectors (version 3) or 4096-byte ones (version 4)
+const SECTOR_SHIFTS = [9, 12]
+const DIRECTORY_ENTRY_SIZE = 128
+
+export interface CompoundFileEntry {
+  name: string
+  // Names of the storages it is in and its own, joined with '/'; the root's children have just their name
+  path: string
+  // 1 storage, 2 stream, 5 root
+  type: number
+  start: number
+  size: number
+}
+
+export interface CompoundFile {
+  entries: CompoundFileEntry[]
+  // First stream called `name` at any depth (names are compared case-insensitively), or null
+  stream(name: string): Uint8Array | null
+  // The stream at exactly this path, such as '__attach_version1.0_#00000000/__substg1.0_3707001F'
+  streamAt(path: string): Uint8Array | null
+}
+
+export const isCompoundFile = (data: Uint8Array): boolean =>
+  data.length >= 512 && SIGNATURE.every((byte, index) => data[index] === byte)
+
+export const readCompoundFile = (data: Uint8Array): CompoundFile => {
+  if (!isCompoundFile(data)) {
+    throw new ExtractionError('Not an OLE compound file', 'corrupt')
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const u32 = (offset: number) => view.getUint32(offset, true)
+
+  const sectorShift = view.getUint16(0x1E, true)
+  if (!SECTOR_SHIFTS.includes(sectorShift)) {
+    throw new ExtractionError('The compound file has an invalid sector size', 'corrupt')
+  }
+  const sectorSize = 1 << sectorShift
+  const miniSectorSize = 1 << view.getUint16(0x20, true)
+  const miniStreamCutoff = u32(0x38)
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize
+  const entriesPerSector = sectorSize / 4
+
+  // Sectors of the FAT: the first 109 are listed in the header, the rest in a chain of DIFAT
+  // sectors. The header's count of DIFAT sectors isn't trusted: the chain can only visit each
+  // sector of the file once, so a loop or a sector past the end means the file is damaged.
+  const fatSectors: number[] = []
+  for (let index = 0; index < HEADER_DIFAT_ENTRIES; index++) {
+    fatSectors.push(u32(0x4C + index * 4))
+  }
+  const sectorCount = Math.floor(data.length / sectorSize) - 1
+  const difatSectors = new Set<number>()
+  let difatSector = u32(0x44)
+  for (let count = u32(0x48); count > 0 && difatSector !== END_OF_CHAIN && difatSector !== NO_STREAM; count--) {
+    if (difatSector >= sectorCount || difatSectors.has(difatSector)) {
+      throw new ExtractionError('The compound file has a broken DIFAT chain', 'corrupt')
+    }
+    difatSectors.add(difatSector)
+    const offset = sectorOffset(difatSector)
+    for (let index = 0; index < entriesPerSector - 1; index++) {
+      fatSectors.push(u32(offset + index * 4))
+    }
+    difatSector = u32(offset + (entriesPerSector - 1) * 4)
+  }
+
+  const fat: number[] = []
+  fatSectors
+    .filter(sector => sector !== NO_STREAM && sectorOffset(sector) + sectorSize <= data.length)
+    .forEach(sector => {
+      const offset = sectorOffset(sector)
+      for (let index = 0; index < entriesPerSector; index++) {
+        fat.push(u32(offset + index * 4))
+      }
+    })
+
+  // Sector numbers of a chain; a loop or a pointer past the end means the file is damaged
+  const chain = (table: number[], start: number): number[] => {
+    const sectors: number[] = []
+    for (let sector = start; sector !== END_OF_CHAIN && sector !== NO_STREAM; sector = table[sector]) {
+      if (sector >= table.length || sectors.length > table.length) {
+        throw new ExtractionError('The compound file has a broken sector chain', 'corrupt')
+      }
+      sectors.push(sector)
+    }
+    return sectors
+  }
+
+  const readChain = (start: number, size: number): Uint8Array => {
+    const sectors = chain(fat, start)
+    const result = new Uint8Array(sectors.length * sectorSize)
+    sectors.forEach((sector, index) => {
+      result.set(data.subarray(sectorOffset(sector), sectorOffset(sector) + sectorSize), index * sectorSize)
+    })
+    return result.subarray(0, Math.min(size, result.length))
+  }
+
+  const directory = readChain(u32(0x30), Number.MAX_SAFE_INTEGER)
+  const directoryView = new DataView(directory.buffer, directory.byteOffset, directory.byteLength)
+  const entries: CompoundFileEntry[] = []
+  // By directory index, with the red-black tree links that say which storage holds each entry
+  const links = new Map<number, { entry: CompoundFileEntry; left: number; right: number; child: number }>()
+  for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directory.length; offset += DIRECTORY_ENTRY_SIZE) {
+    const type = directory[offset + 66]
+    if (type === 0) {
+      continue
+    }
+    const nameLength = Math.max(directoryView.getUint16(offset + 64, true) - 2, 0)
+    const name = new TextDecoder('utf-16le').decode(directory.subarray(offset, offset + Math.min(nameLength, 64)))
+    const entry = {
+      name,
+      path: name,
+      type,
+      start: directoryView.getUint32(offset + 116, true),
+      size: directoryView.getUint32(offset + 120, true)
+    }
+    entries.push(entry)
+    links.set(offset / DIRECTORY_ENTRY_SIZE, {
+      entry,
+      left: directoryView.getUint32(offset + 68, true),
+      right: directoryView.getUint32(offset + 72, true),
+      child: directoryView.getUint32(offset + 76, true)
+    })
+  }
+
+  // Each storage's children are a tree under its child link; `visited` stops a damaged file's loops
+  const visited = new Set<number>()
+  const setPaths = (index: number, parent: string) => {
+    const link = links.get(index)
+    if (index === NO_SIBLING || !link || visited.has(index)) {
+      return
+    }
+    visited.add(index)
+    link.entry.path = parent ? `${parent}/${link.entry.name}` : link.entry.name
+    setPaths(link.left, parent)
+    setPaths(link.right, parent)
+    setPaths(link.child, link.entry.path)
+  }
+  const rootLink = links.get(0)
+  if (rootLink) {
+    visited.add(0)
+    setPaths(rootLink.child, '')
+  }
+
+  const root = entries.find(entry => entry.type === 5)
+  let miniStream: Uint8Array | null = null
+  let miniFat: number[] | null = null
+
+  // Streams below the cutoff live in the mini stream, in 64-byte sectors with their own FAT
+  const readMini = (start: number, size: number): Uint8Array => {
+    if (!miniStream || !miniFat) {
+      miniStream = root ? readChain(root.start, root.size) : new Uint8Array(0)
+      const table = readChain(u32(0x3C), u32(0x40) * sectorSize)
+      const tableView = new DataView(table.buffer, table.byteOffset, table.byteLength)
+      miniFat = []
+      for (let offset = 0; offset + 4 <= table.length; offset += 4) {
+        miniFat.push(tableView.getUint32(offset, true))
+      }
+    }
+    const stream = miniStream
+    const sectors = chain(miniFat, start)
+    const result = new Uint8Array(sectors.length * miniSectorSize)
+    sectors.forEach((sector, index) => {
+      result.set(stream.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize), index * miniSectorSize)
+    })
+    return result.subarray(0, Math.min(size, result.length))
+  }
+
+  const read = (entry: CompoundFileEntry | undefined): Uint8Array | null => {
+    if (!entry) {
+      return null
+    }
+    return entry.size < miniStreamCutoff ? readMini(entry.start, entry.size) : readChain(entry.start, entry.size)
+  }
+
+  return {
+    entries,
+    stream(name) {
+      return read(entries.find(candidate => candidate.type === 2 && candidate.name.toLowerCase() === name.toLowerCase()))
+    },
+    streamAt(path) {
+      return read(entries.find(candidate => candidate.type === 2 && candidate.path.toLowerCase() === path.toLowerCase()))
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { decodeText } from './text-extractor'
+import { tableRow, type Extractor } from './extractor'
+
+// Comma-separated values (RFC 4180), or semicolon- or tab-separated as spreadsheets in some
+// locales export them: one page whose lines are the rows. Quoted fields may hold separators,
+// doubled quotes and line breaks.
+
+const SEPARATORS = [',', ';', '\t']
+
+// The separator that occurs most often outside quotes in the first line
+const detectSeparator = (text: string): string => {
+  const counts = SEPARATORS.map(() => 0)
+  let quoted = false
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted
+    } else if (!quoted && (char === '\n' || char === '\r')) {
+      break
+    } else if (!quoted) {
+      const index = SEPARATORS.indexOf(char)
+      if (index >= 0) {
+        counts[index]++
+      }
+    }
+  }
+  const most = Math.max(...counts)
+  return most > 0 ? SEPARATORS[counts.indexOf(most)] : ','
+}
+
+export const parseCsv = (text: string): string[][] => {
+  const separator = detectSeparator(text)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && !field) {
+      quoted = true
+    } else if (char === separator) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+export const extractCsv: Extractor = async data => [
+  parseCsv(decodeText(data)).map(tableRow).filter(Boolean).join('\n')
+]
@@ -0,0 +1,136 @@
+import { readCompoundFile } from './compound-file'
+import { ExtractionError, type Extractor } from './extractor'
+
+// Word 97-2003 documents (MS-DOC): the main text, read through the piece table in the CLX of
+// the table stream. Headers, footnotes and comments follow the main text and are left out, as
+// are field codes (only their results are kept). Page and section breaks start a new page.
+
+const WORD_IDENT = 0xA5EC
+const WORD_97_NFIB = 0xC1
+const FLAG_ENCRYPTED = 0x0100
+const FLAG_TABLE_1 = 0x0200
+// Index of fcClx/lcbClx in FibRgFcLcb97
+const CLX_INDEX = 33
+const FC_COMPRESSED = 0x40000000
+
+const FIELD_BEGIN = '\u0013'
+const FIELD_SEPARATOR = '\u0014'
+const FIELD_END = '\u0015'
+const CELL_MARK = '\u0007'
+const PAGE_BREAK = '\u000C'
+
+// Characters of the main text, in document order
+const readPieces = (wordDocument: Uint8Array, table: Uint8Array, clxOffset: number, clxLength: number, ccpText: number): string => {
+  const view = new DataView(table.buffer, table.byteOffset, table.byteLength)
+  const end = clxOffset + clxLength
+  let offset = clxOffset
+  // Skip the Prc entries (formatting) that come before the piece table
+  while (offset < end && table[offset] === 0x01) {
+    offset += 3 + view.getInt16(offset + 1, true)
+  }
+  if (table[offset] !== 0x02) {
+    throw new ExtractionError('The Word document has no piece table', 'corrupt')
+  }
+  const plcLength = view.getUint32(offset + 1, true)
+  const plc = offset + 5
+  const pieceCount = (plcLength - 4) / 12
+
+  const cp1252 = new TextDecoder('windows-1252')
+  const utf16 = new TextDecoder('utf-16le')
+  let text = ''
+  for (let piece = 0; piece < pieceCount; piece++) {
+    const cpStart = view.getUint32(plc + piece * 4, true)
+    const cpEnd = Math.min(view.getUint32(plc + (piece + 1) * 4, true), ccpText)
+    if (cpStart >= cpEnd) {
+      continue
+    }
+    const fc = view.getUint32(plc + (pieceCount + 1) * 4 + piece * 8 + 2, true)
+    const length = cpEnd - cpStart
+    if (fc & FC_COMPRESSED) {
+      const start = (fc & ~FC_COMPRESSED) / 2
+      text += cp1252.decode(wordDocument.subarray(start, start + length))
+    } else if (fc + length * 2 <= wordDocument.length) {
+      text += utf16.decode(wordDocument.subarray(fc, fc + length * 2))
+    }
+  }
+  return text
+}
+
+// Word's marks for breaks and cells; the remaining control characters (pictures, footnote
+// references) are dropped by normalizeText
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  '\r': '\n',
+  '\u000B': '\n',
+  '\u000E': '\n',
+  '\u001E': '-',
+  [CELL_MARK]: '\t'
+}
+
+// Plain text of the pieces. Field results are kept and their instructions dropped, e.g. ' PAGE '
+// in '\x13 PAGE \x14' + '3' + '\x15'. A table row ends with the mark of its last cell and one of
+// its own, which becomes a line break.
+const toPlainText = (text: string): string => {
+  const showing: boolean[] = []
+  const result: string[] = []
+  let previous = ''
+  for (const char of text) {
+    if (char === FIELD_BEGIN) {
+      showing.push(false)
+    } else if (char === FIELD_SEPARATOR) {
+      showing[showing.length - 1] = true
+    } else if (char === FIELD_END) {
+      showing.pop()
+    } else if (showing.every(Boolean)) {
+      if (char === CELL_MARK && previous === CELL_MARK) {
+        result[result.length - 1] = '\n'
+        previous = ''
+        continue
+      }
+      result.push(SPECIAL_CHARACTERS[char] ?? char)
+      previous = char
+    }
+  }
+  return result.join('')
+}
+
+export const extractDoc: Extractor = async data => {
+  const file = readCompoundFile(data)
+  if (file.stream('EncryptedPackage')) {
+    throw new ExtractionError('The document is password protected', 'encrypted')
+  }
+  const wordDocument = file.stream('WordDocument')
+  if (!wordDocument || wordDocument.length < 0x200) {
+    throw new ExtractionError('Not a Word document', 'unsupported')
+  }
+
+  const view = new DataView(wordDocument.buffer, wordDocument.byteOffset, wordDocument.byteLength)
+  if (view.getUint16(0, true) !== WORD_IDENT) {
+    throw new ExtractionError('Not a Word document', 'unsupported')
+  }
+  if (view.getUint16(2, true) < WORD_97_NFIB) {
+    throw new ExtractionError('Documents from Word 95 and earlier are not supported; save the file as DOCX', 'unsupported')
+  }
+  const flags = view.getUint16(0x0A, true)
+  if (flags & FLAG_ENCRYPTED) {
+    throw new ExtractionError('The document is password protected', 'encrypted')
+  }
+
+  // The FIB is a run of variable-length arrays, each preceded by its count
+  let offset = 0x20
+  offset += 2 + view.getUint16(offset, true) * 2
+  const longs = offset + 2
+  const ccpText = view.getUint32(longs + 3 * 4, true)
+  offset = longs + view.getUint16(offset, true) * 4
+  const fcLcb = offset + 2 + CLX_INDEX * 8
+  const clxOffset = view.getUint32(fcLcb, true)
+  const clxLength = view.getUint32(fcLcb + 4, true)
+
+  const table = file.stream(flags & FLAG_TABLE_1 ? '1Table' : '0Table')
+  if (!table || clxOffset + clxLength > table.length) {
+    throw new ExtractionError('The Word document has no piece table', 'corrupt')
+  }
+
+  const text = toPlainText(readPieces(wordDocument, table, clxOffset, clxLength, ccpText))
+  const pages = text.split(PAGE_BREAK).filter(page => page.trim())
+  return pages.length > 0 ? pages : ['']
+}
@@ -0,0 +1,123 @@
+import JSZip from 'jszip'
+import { decodeXmlEntities, ExtractionError, tableRow, type Extractor } from './extractor'
+
+// Word 2007+ documents: the body text of word/document.xml. DOCX has no fixed pages, so pages
+// end where Word last laid them out (w:lastRenderedPageBreak) or at explicit page breaks; a
+// document never opened in Word comes back as one page. Each table row is one line of
+// tab-separated cells (see tableRow); a table nested in a cell is part of that cell's text.
+
+export const readZip = async (data: Uint8Array, format: string): Promise<JSZip> => {
+  try {
+    return await JSZip.loadAsync(data)
+  } catch (error: any) {
+    throw new ExtractionError(`The ${format} file could not be read: ${error?.message || error}`, 'corrupt')
+  }
+}
+
+export const extractDocx: Extractor = async data => {
+  const zip = await readZip(data, 'DOCX')
+  const body = zip.file('word/document.xml')
+  if (!body) {
+    throw new ExtractionError('The DOCX file has no document body', 'corrupt')
+  }
+  const xml = await body.async('string')
+
+  const pages: string[] = []
+  let page = ''
+  let inRun = false
+  let inText = false
+  // Text boxes are stored twice, once as a fallback for older readers
+  let fallbackDepth = 0
+  let tableDepth = 0
+  let row: string[] | null = null
+  let cell: string | null = null
+
+  const breakPage = () => {
+    if (page.trim()) {
+      pages.push(page)
+      page = ''
+    }
+  }
+  // Line and paragraph breaks inside a cell become spaces, keeping the row on one line
+  const write = (text: string) => {
+    if (cell !== null) {
+      cell += text
+    } else {
+      page += text
+    }
+  }
+
+  const markup = /<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g
+  let match: RegExpExecArray | null
+  while ((match = markup.exec(xml)) !== null) {
+    const [, closing, name, attributes, selfClosing, text] = match
+    if (text !== undefined) {
+      if (inText && fallbackDepth === 0) {
+        write(decodeXmlEntities(text))
+      }
+      continue
+    }
+    if (name === 'mc:Fallback' && !selfClosing) {
+      fallbackDepth += closing ? -1 : 1
+    }
+    if (fallbackDepth > 0) {
+      continue
+    }
+
+    switch (name) {
+      case 'w:tbl':
+        if (!selfClosing) {
+          tableDepth = Math.max(tableDepth + (closing ? -1 : 1), 0)
+        }
+        break
+      case 'w:tr':
+        if (tableDepth === 1 && !selfClosing) {
+          if (closing && row && tableRow(row)) {
+            page += `${tableRow(row)}\n`
+          }
+          row = closing ? null : []
+        }
+        break
+      case 'w:tc':
+        if (tableDepth === 1 && !selfClosing) {
+          if (closing && cell !== null) {
+            (row = row || []).push(cell)
+          }
+          cell = closing ? null : ''
+        }
+        break
+      case 'w:r':
+        inRun = !closing && !selfClosing
+        break
+      case 'w:t':
+        inText = !closing && !selfClosing
+        break
+      case 'w:p':
+        if (closing) {
+          write(cell !== null ? ' ' : '\n')
+        }
+        break
+      case 'w:tab':
+        // Tab stops in paragraph properties use the same element
+        if (inRun) {
+          write(cell !== null ? ' ' : '\t')
+        }
+        break
+      case 'w:br':
+        if (/w:type="page"/.test(attributes)) {
+          breakPage()
+        } else {
+          write(cell !== null ? ' ' : '\n')
+        }
+        break
+      case 'w:cr':
+        write(cell !== null ? ' ' : '\n')
+        break
+      case 'w:lastRenderedPageBreak':
+        breakPage()
+        break
+    }
+  }
+  pages.push(page)
+  return pages
+}
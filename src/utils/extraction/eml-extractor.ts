@@ -0,0 +1,187 @@
+import { htmlToText } from './html-extractor'
+import { decodeText } from './text-extractor'
+import { headingLine, type Extractor } from './extractor'
+
+// Internet messages (.eml, RFC 5322 with MIME): a page per message, starting with the subject as
+// a heading and the sender, recipients, date and attachment names, followed by the body. The
+// plain text alternative is preferred over HTML. Forwarded messages attached to it get pages of
+// their own; other attachments are only named.
+
+interface HeaderValue {
+  value: string
+  params: Record<string, string>
+}
+
+interface MessageContent {
+  body: string[]
+  attachments: string[]
+  // Pages of attached messages
+  messages: string[]
+}
+
+// Messages are read byte for byte and each part decoded in its own character set
+const binaryString = (data: Uint8Array): string => {
+  let result = ''
+  for (let offset = 0; offset < data.length; offset += 0x8000) {
+    result += String.fromCharCode.apply(null, Array.from(data.subarray(offset, offset + 0x8000)))
+  }
+  return result
+}
+
+const toBytes = (binary: string): Uint8Array => {
+  const bytes = new Uint8Array(binary.length)
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index) & 0xFF
+  }
+  return bytes
+}
+
+// Unknown character sets are read the way plain text files are
+const decodeCharset = (binary: string, charset?: string): string => {
+  const bytes = toBytes(binary)
+  if (charset) {
+    try {
+      return new TextDecoder(charset).decode(bytes)
+    } catch {
+      // Falls through
+    }
+  }
+  return decodeText(bytes)
+}
+
+const decodeQuotedPrintable = (text: string, underscores = false): string =>
+  (underscores ? text.replace(/_/g, ' ') : text)
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+
+const decodeBase64 = (text: string): string => {
+  try {
+    return atob(text.replace(/[^A-Za-z0-9+/]/g, ''))
+  } catch {
+    return ''
+  }
+}
+
+// Header text, with RFC 2047 encoded words ('=?utf-8?Q?Caf=C3=A9?=') decoded
+const decodeHeader = (value: string): string =>
+  decodeCharset(value)
+    .replace(/(=\?[^?\s]+\?[BQ]\?[^?\s]*\?=)\s+(?==\?)/gi, '$1')
+    .replace(/=\?([^?\s*]+)(?:\*[^?\s]*)?\?([BQ])\?([^?\s]*)\?=/gi, (_, charset: string, encoding: string, text: string) =>
+      decodeCharset(encoding.toUpperCase() === 'B' ? decodeBase64(text) : decodeQuotedPrintable(text, true), charset))
+
+const splitPart = (raw: string): { headers: Map<string, string>; body: string } => {
+  const end = /\r?\n\r?\n/.exec(raw)
+  const head = end ? raw.slice(0, end.index) : raw
+  const headers = new Map<string, string>()
+  head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':')
+    const name = line.slice(0, colon).trim().toLowerCase()
+    if (colon > 0 && !headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim())
+    }
+  })
+  return { headers, body: end ? raw.slice(end.index + end[0].length) : '' }
+}
+
+// 'text/plain; charset="utf-8"' -> { value: 'text/plain', params: { charset: 'utf-8' } }
+const parseHeaderValue = (header = ''): HeaderValue => {
+  const [value, ...rest] = header.split(';')
+  const params: Record<string, string> = {}
+  rest.forEach(param => {
+    const equals = param.indexOf('=')
+    if (equals > 0) {
+      params[param.slice(0, equals).trim().toLowerCase().replace(/\*$/, '')] = param.slice(equals + 1).trim().replace(/^"|"$/g, '')
+    }
+  })
+  return { value: value.trim().toLowerCase(), params }
+}
+
+const decodeBody = (headers: Map<string, string>, body: string): string => {
+  switch ((headers.get('content-transfer-encoding') || '').toLowerCase()) {
+    case 'base64':
+      return decodeBase64(body)
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body)
+    default:
+      return body
+  }
+}
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const delimiter = `--${boundary}`
+  const parts: string[] = []
+  let part: string[] | null = null
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.replace(/\s+$/, '')
+    if (trimmed === `${delimiter}--`) {
+      break
+    }
+    if (trimmed === delimiter) {
+      if (part) {
+        parts.push(part.join('\n'))
+      }
+      part = []
+    } else if (part) {
+      part.push(line)
+    }
+  }
+  if (part) {
+    parts.push(part.join('\n'))
+  }
+  return parts
+}
+
+const contentType = (raw: string): string =>
+  parseHeaderValue(splitPart(raw).headers.get('content-type') || 'text/plain').value
+
+const readPart = (raw: string, content: MessageContent) => {
+  const { headers, body } = splitPart(raw)
+  const type = parseHeaderValue(headers.get('content-type') || 'text/plain')
+  const disposition = parseHeaderValue(headers.get('content-disposition'))
+  const filename = decodeHeader(disposition.params.filename || type.params.name || '')
+
+  if (type.value.startsWith('multipart/') && type.params.boundary) {
+    const parts = splitMultipart(body, type.params.boundary)
+    if (type.value === 'multipart/alternative') {
+      const preferred = parts.find(part => contentType(part) === 'text/plain') ||
+        parts.find(part => contentType(part) === 'text/html') ||
+        parts[parts.length - 1]
+      if (preferred) {
+        readPart(preferred, content)
+      }
+    } else {
+      parts.forEach(part => readPart(part, content))
+    }
+  } else if (type.value === 'message/rfc822') {
+    content.messages.push(...messagePages(decodeBody(headers, body)))
+  } else if (disposition.value === 'attachment' || (filename && !type.value.startsWith('text/'))) {
+    content.attachments.push(filename || 'Unnamed attachment')
+  } else if (type.value === 'text/plain' || type.value === 'text/html') {
+    const text = decodeCharset(decodeBody(headers, body), type.params.charset)
+    content.body.push(type.value === 'text/html' ? htmlToText(text) : text)
+  }
+}
+
+const messagePages = (raw: string): string[] => {
+  const { headers } = splitPart(raw)
+  const content: MessageContent = { body: [], attachments: [], messages: [] }
+  readPart(raw, content)
+
+  const field = (label: string, name: string) => {
+    const value = headers.get(name)
+    return value ? [`${label}: ${decodeHeader(value)}`] : []
+  }
+  const page = [
+    headingLine(1, decodeHeader(headers.get('subject') || '') || '(no subject)'),
+    ...field('From', 'from'),
+    ...field('To', 'to'),
+    ...field('Cc', 'cc'),
+    ...field('Date', 'date'),
+    ...(content.attachments.length > 0 ? [`Attachments: ${content.attachments.join(', ')}`] : []),
+    '',
+    ...content.body
+  ]
+  return [page.join('\n'), ...content.messages]
+}
+
+export const extractEml: Extractor = async data => messagePages(binaryString(data))
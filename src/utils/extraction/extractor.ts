@@ -0,0 +1,128 @@
+import type { DocumentPage } from '../../types'
+
+// Text extraction from uploaded documents, shared by the API server and the providers that
+// upload from the browser (direct Aurora access, demo mode). Extractors only use libraries that
+// run in both, and turn a file's bytes into the text of each of its pages.
+
+export type DocumentFormat =
+  | 'pdf'
+  | 'docx'
+  | 'doc'
+  | 'text'
+  | 'image'
+  | 'xlsx'
+  | 'csv'
+  | 'html'
+  | 'markdown'
+  | 'pptx'
+  | 'eml'
+  | 'msg'
+
+export interface ExtractedText {
+  // Pages joined with PAGE_SEPARATOR
+  text: string
+  // Where each page's text sits in `text`
+  pages: DocumentPage[]
+}
+
+export interface OcrResult {
+  text: string
+  // Mean word confidence, 0-100
+  confidence: number
+}
+
+// Reads the text of a page image (PNG, JPEG, TIFF, BMP or PNM). Only the API server has one
+// (server/ocr.ts); without it, scanned pages stay empty and images can't be read.
+export interface OcrEngine {
+  recognize(image: Uint8Array): Promise<OcrResult>
+}
+
+export interface ExtractorOptions {
+  ocr?: OcrEngine
+}
+
+// A page read with OCR, with the engine's confidence in its text
+export interface RecognizedPage {
+  text: string
+  ocrConfidence: number
+}
+
+// Reads one format; the result has one entry per page (a single entry when the format has none)
+export type Extractor = (data: Uint8Array, options: ExtractorOptions) => Promise<Array<string | RecognizedPage>>
+
+export type ExtractionErrorCode = 'unsupported' | 'encrypted' | 'corrupt'
+
+export class ExtractionError extends Error {
+  constructor(message: string, public code: ExtractionErrorCode) {
+    super(message)
+    this.name = 'ExtractionError'
+  }
+}
+
+export const PAGE_SEPARATOR = '\n\n'
+
+// Unix line endings, no NULs (Postgres text can't hold them) or other control characters
+// besides tabs and newlines, no trailing spaces and at most one blank line in a row
+export const normalizeText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B-\u001F\u007F]/g, '')
+    .replace(/[ \t\u00A0]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+export const joinPages = (pageTexts: Array<string | RecognizedPage>): ExtractedText => {
+  const pages: DocumentPage[] = []
+  let text = ''
+  pageTexts.forEach((page, index) => {
+    const pageText = normalizeText(typeof page === 'string' ? page : page.text)
+    if (index > 0) {
+      text += PAGE_SEPARATOR
+    }
+    pages.push({
+      number: index + 1,
+      start: text.length,
+      end: text.length + pageText.length,
+      ...(typeof page === 'string' ? {} : { ocrConfidence: Math.round(page.ocrConfidence) })
+    })
+    text += pageText
+  })
+  return { text, pages }
+}
+
+// Formats that know their tables and headings write them the way the structure parser reads
+// them (see structure.ts): a table row as its cells separated by tabs, and a heading as a
+// Markdown heading line.
+export const tableRow = (cells: string[]): string => {
+  const clean = cells.map(cell => cell.replace(/\s+/g, ' ').trim())
+  while (clean.length > 0 && !clean[clean.length - 1]) {
+    clean.pop()
+  }
+  return clean.join('\t')
+}
+
+export const headingLine = (level: number, text: string): string =>
+  `${'#'.repeat(Math.min(Math.max(level, 1), 6))} ${text.replace(/\s+/g, ' ').trim()}`
+
+// Every match of a global pattern (String.prototype.matchAll isn't in the libraries the app compiles against)
+export const allMatches = (text: string, pattern: RegExp): RegExpExecArray[] => {
+  const matches: RegExpExecArray[] = []
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    matches.push(match)
+  }
+  return matches
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+// Text content of an XML document, for the zipped Office formats
+export const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return code <= 0x10FFFF ? String.fromCodePoint(code) : entity
+    }
+    return XML_ENTITIES[name] ?? entity
+  })
@@ -0,0 +1,113 @@
+import { decodeText } from './text-extractor'
+import { decodeXmlEntities, headingLine, tableRow, type Extractor } from './extractor'
+
+// HTML pages, such as wiki exports: the text of the body as one page. Headings become Markdown
+// headings, list items start with '- ' and the rows of tables are kept as rows; a table inside a
+// cell is read as that cell's text. Scripts, styles and the <head> are left out.
+
+// Named entities besides XML's that exports commonly use
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  bull: '•',
+  middot: '·',
+  sect: '§',
+  para: '¶',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  deg: '°',
+  euro: '€'
+}
+
+const decodeHtmlEntities = (text: string): string =>
+  decodeXmlEntities(text.replace(/&([a-z]+);/gi, (entity, name: string) => HTML_ENTITIES[name.toLowerCase()] ?? entity))
+
+// Elements that start a new line, and those that also end a paragraph
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer', 'form',
+  'header', 'li', 'main', 'nav', 'section'
+])
+const PARAGRAPH_ELEMENTS = new Set(['blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'ol', 'p', 'pre', 'table', 'ul'])
+
+export const htmlToText = (html: string): string => {
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|template)\b[\s\S]*?<\/\1\s*>/gi, '')
+
+  const lines: string[] = []
+  let line = ''
+  let tableDepth = 0
+  let row: string[] | null = null
+  // Text of the cell being read, in the outermost table
+  let cell: string | null = null
+
+  const endLine = (paragraph: boolean) => {
+    const heading = /^(#{1,6}) (.*)$/.exec(line)
+    const text = heading ? headingLine(heading[1].length, heading[2]) : line.trim()
+    if (!/^(#+|-)?$/.test(text)) {
+      lines.push(text)
+    }
+    if (paragraph) {
+      lines.push('')
+    }
+    line = ''
+  }
+  const write = (text: string) => {
+    if (cell !== null) {
+      cell += text
+    } else {
+      line += text
+    }
+  }
+
+  const markup = /<(\/?)([a-zA-Z][\w:-]*)[^>]*>|([^<]+)/g
+  let match: RegExpExecArray | null
+  while ((match = markup.exec(source)) !== null) {
+    const [, closing, tag, text] = match
+    if (text !== undefined) {
+      write(decodeHtmlEntities(text).replace(/\s+/g, ' '))
+      continue
+    }
+
+    const name = tag.toLowerCase()
+    if (name === 'table') {
+      tableDepth = Math.max(tableDepth + (closing ? -1 : 1), 0)
+    }
+    if ((cell !== null && name !== 'td' && name !== 'th') || tableDepth > 1) {
+      // Inside a cell everything is the cell's text
+      write(' ')
+    } else if (name === 'tr' && tableDepth === 1) {
+      // Rows keep their leading tabs, so empty first cells keep the columns in place
+      if (closing && row && tableRow(row)) {
+        lines.push(tableRow(row))
+      }
+      row = closing ? null : []
+    } else if ((name === 'td' || name === 'th') && tableDepth === 1) {
+      if (cell !== null) {
+        (row = row || []).push(cell)
+      }
+      cell = closing ? null : ''
+    } else if (PARAGRAPH_ELEMENTS.has(name)) {
+      endLine(true)
+      if (/^h[1-6]$/.test(name) && !closing) {
+        line = `${'#'.repeat(Number(name[1]))} `
+      }
+    } else if (BLOCK_ELEMENTS.has(name)) {
+      endLine(false)
+      if (name === 'li' && !closing) {
+        line = '- '
+      }
+    }
+  }
+  endLine(false)
+  return lines.join('\n')
+}
+
+export const extractHtml: Extractor = async data => [htmlToText(decodeText(data))]
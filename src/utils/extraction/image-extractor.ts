@@ -0,0 +1,12 @@
+import { ExtractionError, type Extractor } from './extractor'
+
+// Scanned pages uploaded as images (PNG, JPEG, TIFF, BMP): the whole file goes to the OCR
+// engine as one page. Only the first page of a multi-page TIFF is read.
+
+export const extractImage: Extractor = async (data, { ocr }) => {
+  if (!ocr) {
+    throw new ExtractionError('Text in images is read with OCR, which only runs on the API server', 'unsupported')
+  }
+  const result = await ocr.recognize(data)
+  return [{ text: result.text, ocrConfidence: result.confidence }]
+}
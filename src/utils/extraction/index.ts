@@ -0,0 +1,226 @@
+import { isCompoundFile } from './compound-file'
+import {
+  ExtractionError,
+  joinPages,
+  type DocumentFormat,
+  type ExtractedText,
+  type Extractor,
+  type ExtractorOptions
+} from './extractor'
+import { extractDocumentMetadata } from './metadata'
+import { parseDocumentStructure } from './structure'
+import { mapDocumentRow, DOCUMENT_COLUMNS } from '../row-mappers'
+import { DOCUMENT_ROWS_SQL } from '../document-versions'
+import type { QueryResult } from '../aurora-service'
+import { APP_CONSTANTS, type DocumentExtractionStatus } from '../constants'
+import type { Document, DocumentMetadata, DocumentNode, DocumentPage } from '../../types'
+
+export * from './extractor'
+export * from './structure'
+export * from './metadata'
+
+type RunQuery = (sql: string, params?: any[]) => Promise<QueryResult>
+
+export interface DocumentExtraction extends ExtractedText {
+  status: Exclude<DocumentExtractionStatus, 'pending'>
+  error?: string
+  structure: DocumentNode[]
+  // Found in the text; fills the document's empty metadata fields
+  metadata: DocumentMetadata
+}
+
+export interface ExtractionSource {
+  name: string
+  mimeType?: string
+}
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  doc: 'doc',
+  txt: 'text',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  tif: 'image',
+  tiff: 'image',
+  bmp: 'image',
+  xlsx: 'xlsx',
+  csv: 'csv',
+  html: 'html',
+  htm: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  pptx: 'pptx',
+  eml: 'eml',
+  msg: 'msg'
+}
+
+const FORMATS_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/msword': 'doc',
+  'text/plain': 'text',
+  'image/png': 'image',
+  'image/jpeg': 'image',
+  'image/tiff': 'image',
+  'image/bmp': 'image',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'text/csv': 'csv',
+  'text/html': 'html',
+  'text/markdown': 'markdown',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'message/rfc822': 'eml',
+  'application/vnd.ms-outlook': 'msg'
+}
+
+// Loaded on first use, so pdf.js only reaches the browsers of users who upload a PDF
+const EXTRACTORS: Record<DocumentFormat, () => Promise<Extractor>> = {
+  pdf: async () => (await import('./pdf-extractor')).extractPdf,
+  docx: async () => (await import('./docx-extractor')).extractDocx,
+  doc: async () => (await import('./doc-extractor')).extractDoc,
+  text: async () => (await import('./text-extractor')).extractText,
+  image: async () => (await import('./image-extractor')).extractImage,
+  xlsx: async () => (await import('./xlsx-extractor')).extractXlsx,
+  csv: async () => (await import('./csv-extractor')).extractCsv,
+  html: async () => (await import('./html-extractor')).extractHtml,
+  markdown: async () => (await import('./markdown-extractor')).extractMarkdown,
+  pptx: async () => (await import('./pptx-extractor')).extractPptx,
+  eml: async () => (await import('./eml-extractor')).extractEml,
+  msg: async () => (await import('./msg-extractor')).extractMsg
+}
+
+// Image formats the OCR engine reads, by their first bytes
+const IMAGE_SIGNATURES = ['\u0089PNG', '\u00FF\u00D8\u00FF', 'II*\u0000', 'MM\u0000*', 'BM']
+
+const TEXT_FORMATS: DocumentFormat[] = ['text', 'csv', 'html', 'markdown', 'eml']
+
+const startsWith = (data: Uint8Array, signature: string): boolean =>
+  Array.from(signature).every((char, index) => data[index] === char.charCodeAt(0))
+
+const EMPTY = { text: '', pages: [], structure: [], metadata: {} }
+
+// The file's contents decide where they can: names and browser-reported types are often wrong
+// (a .doc that is really a DOCX, a PDF sent as application/octet-stream)
+export const detectFormat = (data: Uint8Array, source: ExtractionSource): DocumentFormat | null => {
+  const extension = source.name.split('.').pop()?.toLowerCase() || ''
+  const claimed = FORMATS_BY_EXTENSION[extension] || FORMATS_BY_MIME_TYPE[source.mimeType || '']
+
+  if (startsWith(data, '%PDF-')) {
+    return 'pdf'
+  }
+  if (startsWith(data, 'PK\u0003\u0004')) {
+    // Office 2007+ files are all zips; a .doc that is one is a renamed DOCX
+    if (claimed === 'xlsx' || claimed === 'pptx') {
+      return claimed
+    }
+    return claimed === 'docx' || claimed === 'doc' ? 'docx' : null
+  }
+  if (isCompoundFile(data)) {
+    return claimed === 'msg' ? 'msg' : 'doc'
+  }
+  if (IMAGE_SIGNATURES.some(signature => startsWith(data, signature))) {
+    return 'image'
+  }
+  // Text formats have no signature to go by
+  if (claimed && TEXT_FORMATS.includes(claimed)) {
+    return claimed
+  }
+  return /^text\//.test(source.mimeType || '') ? 'text' : null
+}
+
+// Never throws: a file that can't be read is recorded as such on its document
+export const extractDocumentText = async (
+  data: Uint8Array,
+  source: ExtractionSource,
+  options: ExtractorOptions = {}
+): Promise<DocumentExtraction> => {
+  const format = detectFormat(data, source)
+  if (!format) {
+    return { status: 'unsupported', ...EMPTY, error: `Text can't be extracted from ${source.name}: unsupported file type` }
+  }
+
+  try {
+    const extract = await EXTRACTORS[format]()
+    const { text, pages } = joinPages(await extract(data, options))
+    const structure = parseDocumentStructure(text, pages)
+    return { status: 'completed', text, pages, structure, metadata: extractDocumentMetadata(text, structure) }
+  } catch (error) {
+    if (error instanceof ExtractionError) {
+      return { status: error.code === 'unsupported' ? 'unsupported' : 'failed', ...EMPTY, error: error.message }
+    }
+    console.error(`Text extraction failed for ${source.name}:`, error)
+    return { status: 'failed', ...EMPTY, error: 'Text extraction failed unexpectedly' }
+  }
+}
+
+// Recorded instead of extracting a file too large to read into memory
+export const tooLargeToExtract = (source: ExtractionSource, limitBytes: number): DocumentExtraction => ({
+  status: 'unsupported',
+  ...EMPTY,
+  error: `Text isn't extracted from ${source.name}: files over ${Math.round(limitBytes / 1024 / 1024)} MB are stored without it`
+})
+
+// Pages read with OCR whose text is too unreliable to use without checking it against the file
+export const lowConfidencePages = (pages: DocumentPage[] = []): DocumentPage[] =>
+  pages.filter(page => page.ocrConfidence !== undefined && page.ocrConfidence < APP_CONSTANTS.OCR_CONFIDENCE_THRESHOLD)
+
+// Metadata columns extraction fills, in the order saveDocumentExtraction passes them
+const METADATA_COLUMNS = [
+  DOCUMENT_COLUMNS.documentTitle,
+  DOCUMENT_COLUMNS.owner,
+  DOCUMENT_COLUMNS.documentVersion,
+  DOCUMENT_COLUMNS.effectiveDate,
+  DOCUMENT_COLUMNS.approvalDate,
+  DOCUMENT_COLUMNS.nextReviewDate
+]
+
+// SET clause entry recording the metadata among `fields` (DocumentUpdate keys) as edited by hand,
+// or null when there is none; add it to updates people make (migration 19)
+export const metadataEditsClause = (fields: string[]): string | null => {
+  const columns = fields
+    .map(field => DOCUMENT_COLUMNS[field as keyof typeof DOCUMENT_COLUMNS])
+    .filter(column => METADATA_COLUMNS.includes(column))
+  if (columns.length === 0) {
+    return null
+  }
+  return `metadata_edited = ARRAY(SELECT DISTINCT unnest(metadata_edited || ARRAY[${columns.map(column => `'${column}'`).join(', ')}]))`
+}
+
+// Stores the result on the document's row (migrations 012, 013 and 016), replacing any earlier
+// extraction; shared by AuroraService and the API server. Metadata the new extraction finds
+// replaces what an earlier one found, but never what people set or cleared (metadata_edited).
+export const saveDocumentExtraction = async (
+  query: RunQuery,
+  documentId: string,
+  extraction: DocumentExtraction
+): Promise<Document> => {
+  const metadata = METADATA_COLUMNS
+    .map((column, index) => {
+      const value = column.endsWith('_date') ? `$${index + 7}::date` : `$${index + 7}`
+      return `${column} = CASE WHEN '${column}' = ANY(metadata_edited) THEN ${column} ELSE COALESCE(${value}, ${column}) END`
+    })
+    .join(', ')
+  await query(
+    `UPDATE documents
+     SET extracted_text = $2, page_map = $3, structure = $4, extraction_status = $5, extraction_error = $6,
+       ${metadata}, extracted_at = NOW(), updated_at = NOW()
+     WHERE id = $1`,
+    [
+      documentId,
+      extraction.text,
+      JSON.stringify(extraction.pages),
+      JSON.stringify(extraction.structure),
+      extraction.status,
+      extraction.error || null,
+      extraction.metadata.documentTitle || null,
+      extraction.metadata.owner || null,
+      extraction.metadata.documentVersion || null,
+      extraction.metadata.effectiveDate || null,
+      extraction.metadata.approvalDate || null,
+      extraction.metadata.nextReviewDate || null
+    ]
+  )
+  const result = await query(`${DOCUMENT_ROWS_SQL} WHERE d.id = $1`, [documentId])
+  return mapDocumentRow(result.rows[0])
+}
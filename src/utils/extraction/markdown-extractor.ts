@@ -0,0 +1,92 @@
+import { decodeText } from './text-extractor'
+import { headingLine, tableRow, type Extractor } from './extractor'
+
+// Markdown, such as policies kept in a repository: one page of the text without its markup.
+// Headings stay Markdown headings (underlined ones included), list items keep their markers and
+// table rows become rows, with or without pipes around them. Code fences, rules and the markup
+// of links, images and emphasis are left out.
+
+const FENCE = /^\s*(```|~~~)/
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/
+const SETEXT_UNDERLINE = /^\s*(=+|-+)\s*$/
+const DELIMITER_ROW = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/
+
+const plainText = (text: string): string =>
+  text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<(https?:[^>]+)>/g, '$1')
+    .replace(/`+([^`]*)`+/g, '$1')
+    .replace(/(\*\*|__)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_](\S(?:.*?\S)?)[*_](?=[^\w*]|$)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+
+// Cells of a pipe table row, or null when the line isn't one
+const pipeCells = (line: string): string[] | null => {
+  if (!line.includes('|')) {
+    return null
+  }
+  // Escaped pipes are part of a cell's text
+  const cells = line.trim().replace(/\\\|/g, '\u0000').replace(/^\|/, '').replace(/\|$/, '').split('|')
+  return cells.length >= 2 ? cells.map(cell => plainText(cell.split('\u0000').join('|'))) : null
+}
+
+export const markdownToText = (markdown: string): string => {
+  const source = markdown.replace(/\r\n?/g, '\n').split('\n')
+  const lines: string[] = []
+  let fenced = false
+  // Whether the previous lines are a table, which starts at a delimiter row
+  let inTable = false
+
+  source.forEach((line, index) => {
+    if (FENCE.test(line)) {
+      fenced = !fenced
+      return
+    }
+    if (fenced) {
+      lines.push(line)
+      return
+    }
+
+    const next = source[index + 1] || ''
+    if (!inTable && DELIMITER_ROW.test(next) && pipeCells(line)) {
+      inTable = true
+      lines.push(tableRow(pipeCells(line)!))
+      return
+    }
+    if (inTable) {
+      const cells = DELIMITER_ROW.test(line) ? [] : pipeCells(line)
+      if (cells) {
+        if (cells.length > 0) {
+          lines.push(tableRow(cells))
+        }
+        return
+      }
+      inTable = false
+    }
+
+    // The line under a heading written as underlined text
+    if (SETEXT_UNDERLINE.test(line) && lines.length > 0 && lines[lines.length - 1].trim() && !/^#/.test(lines[lines.length - 1])) {
+      const previous = source[index - 1]
+      if (previous !== undefined && !RULE.test(previous) && !/^\s*[-*+]\s/.test(previous)) {
+        lines[lines.length - 1] = headingLine(line.trim()[0] === '=' ? 1 : 2, lines[lines.length - 1])
+        return
+      }
+    }
+    if (RULE.test(line)) {
+      lines.push('')
+      return
+    }
+
+    const heading = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line)
+    if (heading) {
+      lines.push(headingLine(heading[1].length, plainText(heading[2])))
+      return
+    }
+    lines.push(plainText(line.replace(/^\s*(>\s?)+/, '')))
+  })
+  return lines.join('\n')
+}
+
+export const extractMarkdown: Extractor = async data => [markdownToText(decodeText(data))]
@@ -0,0 +1,177 @@
+import { allMatches } from './extractor'
+import type { DocumentMetadata, DocumentNode } from '../../types'
+
+// Metadata a document states about itself: its title, owner, version number and dates, as cover
+// pages and document control tables give them ('Effective Date: 1 March 2024', 'Owner<tab>Jane
+// Doe', 'Version 2.1'). Only the front of the text is read, where they usually are, and the
+// first value found for a field wins. Dates come back as 'YYYY-MM-DD'; numeric ones are read
+// month first ('03/01/2024' is 1 March), except with dots, which are read day first.
+
+// Cover pages and document control tables come first
+const SCAN_LENGTH = 20000
+const MAX_VALUE_LENGTH = 120
+// Labels are short: 'Next Review Date', 'Document Version No.'
+const MAX_LABEL_WORDS = 4
+
+type MetadataField = keyof DocumentMetadata
+
+const LABELS: Array<[MetadataField, RegExp]> = [
+  ['documentTitle', /^(?:(?:document|policy|procedure|standard|program(?:me)?)\s+(?:title|name)|title)$/i],
+  ['owner', /^(?:(?:document|policy|content|business|process|model)\s+)?owner$|^(?:author|prepared\s+by|responsible\s+(?:party|person|owner))$/i],
+  ['documentVersion', /^(?:(?:document|policy)\s+)?(?:version|revision)(?:\s+(?:no\.?|number|#))?$|^(?:rev|ver)\.?$/i],
+  ['effectiveDate', /^(?:effective(?:\s+(?:date|from|as\s+of|on))?|date\s+effective|in\s+effect\s+(?:from|since))$/i],
+  ['approvalDate', /^(?:approval\s+date|date\s+(?:of\s+)?approv(?:al|ed)|approved(?:\s+(?:on|date))?|(?:board\s+)?approval)$/i],
+  ['nextReviewDate', /^(?:next\s+review(?:\s+(?:date|due|by))?|review\s+(?:due|by)(?:\s+date)?|(?:scheduled\s+)?review\s+date|due\s+for\s+review)$/i]
+]
+
+// Fields whose label may stand without a colon before the value ('Version 2.1', 'Effective
+// Date 1 March 2024'): their values have a shape to recognize. Titles and owners need one.
+const UNSEPARATED_FIELDS: MetadataField[] = ['documentVersion', 'effectiveDate', 'approvalDate', 'nextReviewDate']
+
+// Dates stated in a sentence: 'This policy is effective from 1 January 2024.'
+const SENTENCES: Array<[MetadataField, RegExp]> = [
+  ['effectiveDate', /\b(?:effective|in\s+effect)\s+(?:from|as\s+of|on|since)\s+(.{6,30})/gi],
+  ['approvalDate', /\bapproved\b[^.\n]{0,60}?\bon\s+(.{6,30})/gi],
+  ['nextReviewDate', /\b(?:next\s+review(?:ed)?|reviewed)\s+(?:by|on|in|before)\s+(.{6,30})/gi]
+]
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?'
+
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/
+const NUMERIC_DATE = /^(\d{1,2})([-/.])(\d{1,2})\2(\d{4}|\d{2})\b/
+const DAY_MONTH_YEAR = new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)?[\\s-]+(?:of\\s+)?${MONTH}[\\s,-]+(\\d{4})\\b`, 'i')
+const MONTH_DAY_YEAR = new RegExp(`^${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i')
+const MONTH_YEAR = new RegExp(`^${MONTH}[\\s,]+(\\d{4})\\b`, 'i')
+const VERSION = /^(?:v\.?\s*)?(\d{1,3}(?:\.\d{1,3}){0,3}[a-z]?)\b/i
+
+const isoDate = (year: number, month: number, day: number): string | undefined => {
+  const date = new Date(Date.UTC(year < 100 ? 2000 + year : year, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date.toISOString().slice(0, 10)
+    : undefined
+}
+
+const monthNumber = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1
+
+// The date at the start of the text, as 'YYYY-MM-DD'. A month and year ('March 2025') is its
+// first day.
+export const parseDate = (text: string): string | undefined => {
+  const value = text.trim()
+  let match = ISO_DATE.exec(value)
+  if (match) {
+    return isoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+  }
+  match = NUMERIC_DATE.exec(value)
+  if (match) {
+    const [first, second] = [Number(match[1]), Number(match[3])]
+    const dayFirst = match[2] === '.' || first > 12
+    return isoDate(Number(match[4]), dayFirst ? second : first, dayFirst ? first : second)
+  }
+  match = DAY_MONTH_YEAR.exec(value)
+  if (match) {
+    return isoDate(Number(match[3]), monthNumber(match[2]), Number(match[1]))
+  }
+  match = MONTH_DAY_YEAR.exec(value)
+  if (match) {
+    return isoDate(Number(match[3]), monthNumber(match[1]), Number(match[2]))
+  }
+  match = MONTH_YEAR.exec(value)
+  return match ? isoDate(Number(match[2]), monthNumber(match[1]), 1) : undefined
+}
+
+const labelField = (label: string): MetadataField | undefined =>
+  LABELS.find(([, pattern]) => pattern.test(label.replace(/\s+/g, ' ').trim()))?.[0]
+
+// The field's value in the text after its label, or undefined when it isn't one
+const fieldValue = (field: MetadataField, text: string): string | undefined => {
+  const value = text.replace(/\s+/g, ' ').trim().replace(/[.;,]$/, '')
+  if (!value || value.length > MAX_VALUE_LENGTH) {
+    return undefined
+  }
+  switch (field) {
+    case 'documentVersion':
+      return VERSION.exec(value)?.[1]
+    case 'effectiveDate':
+    case 'approvalDate':
+    case 'nextReviewDate':
+      return parseDate(value)
+    default:
+      // Another label, or a date, is not a title or owner
+      return labelField(value) || parseDate(value) ? undefined : value
+  }
+}
+
+// Label and value pairs on a line: the cells of a table row ('Owner<tab>Jane Doe<tab>Version<tab>2'),
+// 'Label: value', or a label and a value of a recognizable shape
+const linePairs = (line: string): Array<[MetadataField, string]> => {
+  const pairs: Array<[MetadataField, string]> = []
+  if (line.includes('\t')) {
+    const cells = line.split('\t').map(cell => cell.trim().replace(/:$/, ''))
+    cells.forEach((cell, index) => {
+      const field = labelField(cell)
+      const next = cells.slice(index + 1).find(Boolean)
+      if (field && next) {
+        pairs.push([field, next])
+      }
+    })
+    return pairs
+  }
+
+  const text = line.trim().replace(/^(?:[-•*]\s+|#{1,6}\s+)/, '')
+  const colon = text.indexOf(':')
+  if (colon > 0) {
+    const field = labelField(text.slice(0, colon))
+    if (field) {
+      return [[field, text.slice(colon + 1)]]
+    }
+  }
+  const words = text.split(/\s+/)
+  for (let count = Math.min(MAX_LABEL_WORDS, words.length - 1); count >= 1; count--) {
+    const field = labelField(words.slice(0, count).join(' '))
+    if (field && UNSEPARATED_FIELDS.includes(field)) {
+      return [[field, words.slice(count).join(' ')]]
+    }
+  }
+  return pairs
+}
+
+// The first heading, or a short first line, when the text has no labelled title
+const fallbackTitle = (text: string, structure: DocumentNode[]): string | undefined => {
+  const heading = structure.find(node => node.type === 'heading' && node.page === 1)
+  if (heading) {
+    return heading.title
+  }
+  const firstLine = text.split('\n').map(line => line.trim()).find(Boolean)
+  return firstLine && firstLine.length <= MAX_VALUE_LENGTH && !/[.:;,]$/.test(firstLine) && !firstLine.includes('\t')
+    ? firstLine
+    : undefined
+}
+
+export const extractDocumentMetadata = (text: string, structure: DocumentNode[] = []): DocumentMetadata => {
+  const front = text.slice(0, SCAN_LENGTH)
+  const metadata: DocumentMetadata = {}
+
+  front.split('\n').forEach(line => {
+    linePairs(line).forEach(([field, raw]) => {
+      if (metadata[field] === undefined) {
+        const value = fieldValue(field, raw)
+        if (value) {
+          metadata[field] = value
+        }
+      }
+    })
+  })
+
+  SENTENCES.forEach(([field, pattern]) => {
+    const value = metadata[field] === undefined
+      ? allMatches(front, pattern).map(match => parseDate(match[1])).find(Boolean)
+      : undefined
+    if (value) {
+      metadata[field] = value
+    }
+  })
+
+  const title = metadata.documentTitle || fallbackTitle(front, structure)
+  return title ? { ...metadata, documentTitle: title } : metadata
+}
@@ -0,0 +1,99 @@
+import { readCompoundFile, type CompoundFile } from './compound-file'
+import { htmlToText } from './html-extractor'
+import { ExtractionError, headingLine, type Extractor } from './extractor'
+
+// Outlook messages (.msg, MS-OXMSG): one page laid out like an .eml's, from the message's
+// properties in its compound file. The plain text body is preferred over the HTML one;
+// attachments are only named.
+
+// Property tags (MS-OXPROPS), without their type
+const PROPERTIES = {
+  subject: '0037',
+  senderName: '0C1A',
+  senderEmail: '0C1F',
+  displayTo: '0E04',
+  displayCc: '0E03',
+  body: '1000',
+  html: '1013',
+  attachLongFilename: '3707',
+  attachFilename: '3704',
+  displayName: '3001'
+}
+
+// PR_CLIENT_SUBMIT_TIME and PR_MESSAGE_DELIVERY_TIME, as PT_SYSTIME
+const DATE_PROPERTIES = [0x00390040, 0x0E060040]
+const PROPERTY_STREAM = '__properties_version1.0'
+// The property stream of the message starts with a 32-byte header, each entry is 16 bytes
+const PROPERTY_HEADER_SIZE = 32
+const PROPERTY_ENTRY_SIZE = 16
+// 100-nanosecond intervals between 1601-01-01 (FILETIME's epoch) and 1970-01-01
+const FILETIME_UNIX_EPOCH = 116444736000000000
+
+// A string property of the storage at `folder` ('' for the message itself): Unicode (001F) or
+// in the message's code page (001E, read as Windows-1252)
+// Strings may end with a NUL
+const untilNul = (text: string): string => text.split('\u0000')[0]
+
+const stringProperty = (file: CompoundFile, folder: string, tag: string): string => {
+  const prefix = folder ? `${folder}/` : ''
+  const unicode = file.streamAt(`${prefix}__substg1.0_${tag}001F`)
+  if (unicode) {
+    return untilNul(new TextDecoder('utf-16le').decode(unicode))
+  }
+  const ansi = file.streamAt(`${prefix}__substg1.0_${tag}001E`)
+  return ansi ? untilNul(new TextDecoder('windows-1252').decode(ansi)) : ''
+}
+
+const sentDate = (file: CompoundFile): string => {
+  const stream = file.streamAt(PROPERTY_STREAM)
+  if (!stream) {
+    return ''
+  }
+  const view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength)
+  for (const tag of DATE_PROPERTIES) {
+    for (let offset = PROPERTY_HEADER_SIZE; offset + PROPERTY_ENTRY_SIZE <= stream.length; offset += PROPERTY_ENTRY_SIZE) {
+      if (view.getUint32(offset, true) === tag) {
+        const filetime = view.getUint32(offset + 8, true) + view.getUint32(offset + 12, true) * 0x100000000
+        if (filetime <= FILETIME_UNIX_EPOCH) {
+          break
+        }
+        return new Date((filetime - FILETIME_UNIX_EPOCH) / 10000).toISOString().replace('T', ' ').slice(0, 16) + ' UTC'
+      }
+    }
+  }
+  return ''
+}
+
+export const extractMsg: Extractor = async data => {
+  const file = readCompoundFile(data)
+  if (!file.entries.some(entry => /^__substg1\.0_/i.test(entry.name))) {
+    throw new ExtractionError('Not an Outlook message', 'unsupported')
+  }
+
+  const attachments = file.entries
+    .filter(entry => entry.type === 1 && /^__attach_version1\.0_#/i.test(entry.path))
+    .map(entry =>
+      stringProperty(file, entry.path, PROPERTIES.attachLongFilename) ||
+      stringProperty(file, entry.path, PROPERTIES.attachFilename) ||
+      stringProperty(file, entry.path, PROPERTIES.displayName) ||
+      'Unnamed attachment')
+
+  const property = (tag: string) => stringProperty(file, '', tag)
+  const senderEmail = property(PROPERTIES.senderEmail)
+  const sender = [property(PROPERTIES.senderName), senderEmail && `<${senderEmail}>`].filter(Boolean).join(' ')
+  const html = file.streamAt(`__substg1.0_${PROPERTIES.html}0102`)
+  const body = property(PROPERTIES.body) || (html ? htmlToText(new TextDecoder().decode(html)) : '')
+  const date = sentDate(file)
+
+  const field = (label: string, value: string) => value ? [`${label}: ${value}`] : []
+  return [[
+    headingLine(1, property(PROPERTIES.subject) || '(no subject)'),
+    ...field('From', sender),
+    ...field('To', property(PROPERTIES.displayTo)),
+    ...field('Cc', property(PROPERTIES.displayCc)),
+    ...field('Date', date),
+    ...field('Attachments', attachments.join(', ')),
+    '',
+    body
+  ].join('\n')]
+}
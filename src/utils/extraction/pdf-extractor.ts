@@ -0,0 +1,126 @@
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf'
+import { ExtractionError, type Extractor, type OcrEngine, type RecognizedPage } from './extractor'
+
+// PDF text layers, page by page, with Mozilla's pdf.js. Pages of scanned documents have no text
+// layer: given an OCR engine, the largest image on such a page is read with it, otherwise the
+// page comes back empty. The legacy build runs in Node as well as in older browsers.
+
+// pdf.js parses on a worker when it can find one. Node has none it can use and falls back to the
+// calling thread by itself; in the browser the parser is bundled with this module instead, so
+// the app doesn't have to serve the worker script separately.
+if (typeof window !== 'undefined') {
+  require('pdfjs-dist/legacy/build/pdf.worker.entry')
+}
+
+interface PdfTextItem {
+  str: string
+  hasEOL: boolean
+}
+
+// Marked-content items (structure tags) carry no text
+const pageText = (items: object[]): string =>
+  items
+    .filter((item): item is PdfTextItem => 'str' in item)
+    .map(item => item.str + (item.hasEOL ? '\n' : ''))
+    .join('')
+
+// Decoded image as pdf.js hands it out: rows of 1-bit grayscale (1 is white), RGB or RGBA
+interface PdfImage {
+  width: number
+  height: number
+  kind: number
+  data: Uint8Array | Uint8ClampedArray
+}
+
+// Netpbm needs only a text header in front of the pixels, so scans reach the OCR engine without
+// a canvas or an image encoder. 1-bit images become PBM, where 1 is black; the rest become PPM.
+const toNetpbm = (image: PdfImage): Uint8Array => {
+  const { width, height, kind, data } = image
+  if (kind === pdfjs.ImageKind.GRAYSCALE_1BPP) {
+    const header = new TextEncoder().encode(`P4\n${width} ${height}\n`)
+    const bytes = Math.ceil(width / 8) * height
+    const result = new Uint8Array(header.length + bytes)
+    result.set(header)
+    for (let index = 0; index < bytes; index++) {
+      result[header.length + index] = ~data[index] & 0xFF
+    }
+    return result
+  }
+  const header = new TextEncoder().encode(`P6\n${width} ${height}\n255\n`)
+  const result = new Uint8Array(header.length + width * height * 3)
+  result.set(header)
+  if (kind === pdfjs.ImageKind.RGB_24BPP) {
+    result.set(data.subarray(0, width * height * 3), header.length)
+  } else {
+    for (let pixel = 0, offset = header.length; pixel < width * height; pixel++) {
+      result[offset++] = data[pixel * 4]
+      result[offset++] = data[pixel * 4 + 1]
+      result[offset++] = data[pixel * 4 + 2]
+    }
+  }
+  return result
+}
+
+// The largest image painted on the page: the scan, on pages that are one
+const largestImage = async (page: pdfjs.PDFPageProxy): Promise<PdfImage | null> => {
+  const operators = await page.getOperatorList()
+  let largest: PdfImage | null = null
+  for (let index = 0; index < operators.fnArray.length; index++) {
+    const [argument] = operators.argsArray[index] || []
+    let image: PdfImage | null = null
+    if (operators.fnArray[index] === pdfjs.OPS.paintInlineImageXObject) {
+      image = argument
+    } else if (operators.fnArray[index] === pdfjs.OPS.paintImageXObject) {
+      // Images used on several pages are kept with the document's objects
+      const objects = String(argument).startsWith('g_') ? page.commonObjs : page.objs
+      image = await new Promise(resolve => objects.get(argument, resolve))
+    }
+    if (image?.data && (!largest || image.width * image.height > largest.width * largest.height)) {
+      largest = image
+    }
+  }
+  return largest
+}
+
+const recognizePage = async (page: pdfjs.PDFPageProxy, ocr: OcrEngine): Promise<RecognizedPage | null> => {
+  const image = await largestImage(page)
+  if (!image) {
+    return null
+  }
+  const result = await ocr.recognize(toNetpbm(image))
+  return { text: result.text, ocrConfidence: result.confidence }
+}
+
+export const extractPdf: Extractor = async (data, { ocr }) => {
+  // pdf.js takes ownership of the buffer it is given, so it gets a copy
+  const loadingTask = pdfjs.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: pdfjs.VerbosityLevel.ERRORS
+  })
+
+  let document: pdfjs.PDFDocumentProxy
+  try {
+    document = await loadingTask.promise
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') {
+      throw new ExtractionError('The PDF is password protected', 'encrypted')
+    }
+    throw new ExtractionError(`The PDF could not be read: ${error?.message || error}`, 'corrupt')
+  }
+
+  try {
+    const pages: Array<string | RecognizedPage> = []
+    for (let number = 1; number <= document.numPages; number++) {
+      const page = await document.getPage(number)
+      const text = pageText((await page.getTextContent()).items)
+      pages.push((!text.trim() && ocr && (await recognizePage(page, ocr))) || text)
+      page.cleanup()
+    }
+    return pages
+  } finally {
+    await loadingTask.destroy()
+  }
+}
@@ -0,0 +1,80 @@
+import { readZip } from './docx-extractor'
+import { allMatches, decodeXmlEntities, ExtractionError, headingLine, tableRow, type Extractor } from './extractor'
+
+// PowerPoint 2007+ presentations: one page per slide, in the order of the presentation. A slide
+// starts with its title as a heading, followed by the paragraphs of its other shapes and the
+// rows of its tables. Speaker notes and hidden slides are left out.
+
+const TITLE_PLACEHOLDER = /<p:ph\b[^>]*type="(?:title|ctrTitle)"/
+
+// Text of a DrawingML paragraph (<a:p>), with line breaks as spaces
+const paragraphText = (xml: string): string =>
+  allMatches(xml, /<a:t>([^<]*)<\/a:t>|<a:br\b[^>]*\/>/g)
+    .map(match => match[1] === undefined ? ' ' : decodeXmlEntities(match[1]))
+    .join('')
+
+const paragraphs = (xml: string): string[] =>
+  allMatches(xml, /<a:p>([\s\S]*?)<\/a:p>|<a:p\/>/g).map(match => paragraphText(match[1] || ''))
+
+const slideText = (xml: string): string => {
+  const lines: string[] = []
+  let title = ''
+  const content = /<p:spTree>([\s\S]*)<\/p:spTree>/.exec(xml)?.[1] || ''
+  // Shapes with text, and the graphic frames that hold tables
+  for (const shape of allMatches(content, /<p:sp>([\s\S]*?)<\/p:sp>|<p:graphicFrame>([\s\S]*?)<\/p:graphicFrame>/g)) {
+    if (shape[2] !== undefined) {
+      for (const row of allMatches(shape[2], /<a:tr\b[^>]*>([\s\S]*?)<\/a:tr>/g)) {
+        const cells = allMatches(row[1], /<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>|<a:tc\b[^>]*\/>/g)
+          .map(cell => paragraphs(cell[1] || '').join(' '))
+        lines.push(tableRow(cells))
+      }
+      lines.push('')
+      continue
+    }
+    const text = paragraphs(shape[1]).map(paragraph => paragraph.trim())
+    if (!title && TITLE_PLACEHOLDER.test(shape[1])) {
+      title = text.filter(Boolean).join(' ')
+      continue
+    }
+    lines.push(...text, '')
+  }
+  return [title ? headingLine(1, title) : '', ...lines].join('\n')
+}
+
+// Resolves a relationship target against the folder of the part that refers to it
+const resolveTarget = (target: string): string =>
+  target.startsWith('/') ? target.slice(1) : `ppt/${target.replace(/^\.\//, '')}`
+
+export const extractPptx: Extractor = async data => {
+  const zip = await readZip(data, 'PPTX')
+  const presentation = zip.file('ppt/presentation.xml')
+  if (!presentation) {
+    throw new ExtractionError('The PPTX file has no presentation', 'corrupt')
+  }
+  const presentationXml = await presentation.async('string')
+  const relationshipsXml = await zip.file('ppt/_rels/presentation.xml.rels')?.async('string') || ''
+  const targets = new Map(
+    allMatches(relationshipsXml, /<Relationship\b([^>]*)\/?>/g).map(match => [
+      /\sId="([^"]*)"/.exec(match[1])?.[1] || '',
+      decodeXmlEntities(/\sTarget="([^"]*)"/.exec(match[1])?.[1] || '')
+    ])
+  )
+
+  const pages: string[] = []
+  for (const slide of allMatches(presentationXml, /<p:sldId\b([^>]*)\/?>/g)) {
+    const target = targets.get(/\sr:id="([^"]*)"/.exec(slide[1])?.[1] || '')
+    const file = target ? zip.file(resolveTarget(target)) : null
+    if (!file) {
+      continue
+    }
+    const xml = await file.async('string')
+    if (/<p:sld\b[^>]*\sshow="(?:0|false)"/.test(xml)) {
+      continue
+    }
+    pages.push(slideText(xml))
+  }
+  if (pages.length === 0) {
+    throw new ExtractionError('The PPTX file has no slides', 'corrupt')
+  }
+  return pages
+}
@@ -0,0 +1,281 @@
+import type { DocumentNodeType } from '../constants'
+import type { DocumentNode, DocumentPage } from '../../types'
+
+// Structure of extracted text: headings, numbered clauses ('2.1 Multi-factor Authentication',
+// 'Article 7'), lists and tables, nested into a tree. Extractors only keep text, so the parser
+// goes by how lines look: clause numbers, list markers, capitals, Markdown headings, and tabs or
+// pipes between table cells (which the extractors of Word, spreadsheets, slides and HTML write
+// and PDF layouts mostly keep). Table nodes keep their cells, row by row.
+
+// Titles are the heading text, or the start of a clause or the first list item or table row
+const MAX_TITLE_LENGTH = 100
+
+const KEYWORD_CLAUSE = /^(?:Section|Article|Clause|Part|Chapter|Appendix|Annex|Schedule)\s+(\d+(?:\.\d+)*[A-Za-z]?|[IVXLC]+|[A-Z])(?:[.:)]|\s+[-–—]|$|\s)/i
+const DECIMAL_CLAUSE = /^(\d{1,3}(?:\.\d{1,3})+|[A-Z](?:\.\d{1,3})+)\.?\s+(\S.*)$/
+const SINGLE_CLAUSE = /^(\d{1,3})\.?\s+(\S.*)$/
+const LIST_ITEM = /^(?:[-•*▪◦‣·–]|\(?[a-z]\)|\(?[ivx]{1,4}\)|\(\d{1,3}\)|\d{1,3}\)|[a-z]\.)\s+(\S.*)$/
+const MARKDOWN_HEADING = /^(#{1,6})\s+(\S.*?)\s*#*$/
+// The line under a Markdown table's header: |---|:---:|
+const DELIMITER_CELL = /^:?-{3,}:?$/
+
+interface Line {
+  text: string
+  start: number
+  end: number
+}
+
+type LineKind =
+  | { kind: 'section'; type: 'heading' | 'clause'; number?: string; title: string; level: number }
+  | { kind: 'item'; title: string }
+  // Every cell, empty ones included so columns line up; none for a Markdown delimiter row
+  | { kind: 'row'; cells: string[] }
+  | { kind: 'blank' }
+  | { kind: 'text' }
+
+const truncate = (text: string): string =>
+  text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : text
+
+// Short and not a sentence: '2 Data Subject Rights', not '2 copies must be kept.'
+const isTitleLike = (text: string): boolean =>
+  text.length <= 80 && !/[.;:,]$/.test(text)
+
+// A clause's title is its first sentence when the clause text starts on the same line
+const clauseTitle = (text: string): string => {
+  const sentence = /^(.+?[.;])(\s|$)/.exec(text)
+  return truncate(sentence && sentence[1].length < text.length ? sentence[1] : text)
+}
+
+const splitCells = (text: string): string[] =>
+  (/^\|.*\|$/.test(text) ? text.slice(1, -1).split('|') : text.split('\t')).map(cell => cell.trim())
+
+const tableCells = (text: string): string[] | null => {
+  const cells = splitCells(text)
+  const filled = cells.filter(Boolean)
+  if (filled.length < 2) {
+    return null
+  }
+  return filled.every(cell => DELIMITER_CELL.test(cell)) ? [] : cells
+}
+
+// Leading tabs stay: they are a row's empty first cells
+const rowText = (raw: string): string => raw.replace(/^ +|\s+$/g, '')
+
+const rowTitle = (cells: string[]): string => truncate(cells.filter(Boolean).join(' | ') || 'Table')
+
+const classify = (raw: string): LineKind => {
+  const text = raw.trim()
+  if (!text) {
+    return { kind: 'blank' }
+  }
+
+  const cells = tableCells(rowText(raw))
+  if (cells) {
+    return { kind: 'row', cells }
+  }
+
+  let match = MARKDOWN_HEADING.exec(text)
+  if (match) {
+    return { kind: 'section', type: 'heading', title: truncate(match[2]), level: match[1].length }
+  }
+
+  match = KEYWORD_CLAUSE.exec(text)
+  if (match) {
+    // The keyword stays in the title: 'Article 7 Conditions for consent'
+    return { kind: 'section', type: 'clause', number: match[1], title: clauseTitle(text), level: match[1].split('.').length }
+  }
+
+  match = DECIMAL_CLAUSE.exec(text)
+  if (match) {
+    return { kind: 'section', type: 'clause', number: match[1], title: clauseTitle(match[2]), level: match[1].split('.').length }
+  }
+
+  match = SINGLE_CLAUSE.exec(text)
+  if (match && isTitleLike(match[2])) {
+    return { kind: 'section', type: 'clause', number: match[1], title: truncate(match[2]), level: 1 }
+  }
+
+  match = LIST_ITEM.exec(text) || SINGLE_CLAUSE.exec(text)
+  if (match) {
+    return { kind: 'item', title: truncate(match[match.length - 1]) }
+  }
+
+  // A line in capitals, such as a document or part title
+  if (text.length <= 80 && /[A-Z].*[A-Z]/.test(text) && !/[a-z]/.test(text) && !/[.,;]$/.test(text)) {
+    return { kind: 'section', type: 'heading', title: truncate(text), level: 1 }
+  }
+  return { kind: 'text' }
+}
+
+const splitLines = (text: string): Line[] => {
+  const lines: Line[] = []
+  let start = 0
+  text.split('\n').forEach(line => {
+    lines.push({ text: line, start, end: start + line.length })
+    start += line.length + 1
+  })
+  return lines
+}
+
+// Number of the page the character at `offset` is on; offsets between pages count to the next one
+export const pageAt = (pages: DocumentPage[] | undefined, offset: number): number => {
+  let number = 1
+  for (const page of pages || []) {
+    if (page.start > offset) {
+      break
+    }
+    number = page.number
+  }
+  return number
+}
+
+export const parseDocumentStructure = (text: string, pages: DocumentPage[] = []): DocumentNode[] => {
+  const roots: DocumentNode[] = []
+  // Open headings and clauses, outermost first
+  const open: DocumentNode[] = []
+  const usedIds = new Set<string>()
+  const counts: Partial<Record<DocumentNodeType, number>> = {}
+
+  const nodeId = (type: DocumentNodeType, number?: string): string => {
+    counts[type] = (counts[type] || 0) + 1
+    let id = number || `${type}-${counts[type]}`
+    for (let copy = 2; usedIds.has(id); copy++) {
+      id = `${number || type}-${copy}`
+    }
+    usedIds.add(id)
+    return id
+  }
+
+  // Ends before the whitespace that separates it from what comes next
+  const finish = (node: DocumentNode, end: number) => {
+    node.end = Math.max(node.start, node.start + text.slice(node.start, end).trimEnd().length)
+    node.endPage = pageAt(pages, Math.max(node.start, node.end - 1))
+  }
+
+  const add = (type: DocumentNodeType, title: string, level: number, start: number, number?: string): DocumentNode => {
+    const node: DocumentNode = {
+      id: nodeId(type, number),
+      type,
+      ...(number ? { number } : {}),
+      title,
+      level,
+      start,
+      end: start,
+      page: pageAt(pages, start),
+      endPage: pageAt(pages, start),
+      children: []
+    }
+    const parent = open[open.length - 1]
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+    return node
+  }
+
+  const lines = splitLines(text)
+  // The list or table being read, and where its last line ended
+  let block: DocumentNode | null = null
+  let blockEnd = 0
+  let blankSinceBlock = false
+
+  const closeBlock = () => {
+    if (block) {
+      finish(block, blockEnd)
+      block = null
+    }
+  }
+
+  lines.forEach((line, index) => {
+    // Inside a table, a line with tabs is a row even when only one of its cells is filled
+    const kind: LineKind = block && block.type === 'table' && line.text.includes('\t') && line.text.trim()
+      ? { kind: 'row', cells: splitCells(rowText(line.text)) }
+      : classify(line.text)
+    const lineStart = line.start + (line.text.length - line.text.trimStart().length)
+
+    switch (kind.kind) {
+      case 'blank':
+        // Tables end at a blank line; lists go on, since their items are often spaced out
+        if (block && block.type === 'table') {
+          closeBlock()
+        }
+        blankSinceBlock = true
+        return
+      case 'section': {
+        closeBlock()
+        while (open.length > 0 && open[open.length - 1].level >= kind.level) {
+          finish(open.pop()!, line.start)
+        }
+        const node = add(kind.type, kind.title, kind.level, lineStart, kind.number)
+        // 'Article 7' on its own line takes its title from the next one
+        const next = lines[index + 1]
+        const bare = kind.type === 'clause' && line.text.trim().split(/\s+/).length === 2
+        if (bare && next && classify(next.text).kind === 'text' && isTitleLike(next.text.trim())) {
+          node.title = truncate(`${node.title} ${next.text.trim()}`)
+        }
+        open.push(node)
+        break
+      }
+      case 'item':
+      case 'row': {
+        const type = kind.kind === 'item' ? 'list' : 'table'
+        if (!block || block.type !== type) {
+          closeBlock()
+          const title = kind.kind === 'item' ? kind.title : rowTitle(kind.cells)
+          block = add(type, title, (open[open.length - 1]?.level || 0) + 1, lineStart)
+          if (type === 'table') {
+            block.rows = []
+          }
+        }
+        if (kind.kind === 'row' && kind.cells.length > 0) {
+          block.rows!.push(kind.cells)
+        }
+        blockEnd = line.end
+        break
+      }
+      case 'text':
+        // Wrapped lines of a list item belong to the list; a new paragraph after a blank line doesn't
+        if (block && block.type === 'list' && !blankSinceBlock) {
+          blockEnd = line.end
+        } else {
+          closeBlock()
+        }
+        break
+    }
+    blankSinceBlock = false
+  })
+
+  closeBlock()
+  while (open.length > 0) {
+    finish(open.pop()!, text.length)
+  }
+  return roots
+}
+
+// Every node, in document order
+export const flattenStructure = (nodes: DocumentNode[] = []): DocumentNode[] =>
+  nodes.reduce<DocumentNode[]>((all, node) => all.concat(node, flattenStructure(node.children)), [])
+
+export const findNode = (nodes: DocumentNode[] | undefined, id: string): DocumentNode | undefined =>
+  flattenStructure(nodes).find(node => node.id === id)
+
+// The innermost heading or clause containing the range
+export const sectionAt = (nodes: DocumentNode[] | undefined, start: number, end: number = start): DocumentNode | undefined => {
+  let section: DocumentNode | undefined
+  let level = nodes
+  while (level) {
+    const containing: DocumentNode | undefined = level.find(node =>
+      (node.type === 'heading' || node.type === 'clause') && node.start <= start && end <= Math.max(node.end, node.start + 1)
+    )
+    if (!containing) {
+      break
+    }
+    section = containing
+    level = containing.children
+  }
+  return section
+}
+
+// How a node is shown and stored in Requirement.section: '2.1 Multi-factor Authentication'
+export const nodeLabel = (node: DocumentNode): string =>
+  node.number && !node.title.toLowerCase().includes(node.number.toLowerCase()) ? `${node.number} ${node.title}` : node.title
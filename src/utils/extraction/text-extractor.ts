@@ -0,0 +1,23 @@
+import type { Extractor } from './extractor'
+
+// Plain text. UTF-8 unless a byte order mark says UTF-16; files that aren't valid UTF-8 are
+// read as Windows-1252, which is what older Windows tools save. Form feeds start a new page.
+
+const FORM_FEED = '\f'
+
+export const decodeText = (data: Uint8Array): string => {
+  if (data[0] === 0xFF && data[1] === 0xFE) {
+    return new TextDecoder('utf-16le').decode(data.subarray(2))
+  }
+  if (data[0] === 0xFE && data[1] === 0xFF) {
+    return new TextDecoder('utf-16be').decode(data.subarray(2))
+  }
+  try {
+    // Drops a UTF-8 byte order mark
+    return new TextDecoder('utf-8', { fatal: true }).decode(data)
+  } catch {
+    return new TextDecoder('windows-1252').decode(data)
+  }
+}
+
+export const extractText: Extractor = async data => decodeText(data).split(FORM_FEED)
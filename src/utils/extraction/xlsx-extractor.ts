@@ -0,0 +1,152 @@
+import { readZip } from './docx-extractor'
+import { allMatches, decodeXmlEntities, ExtractionError, headingLine, tableRow, type Extractor } from './extractor'
+
+// Excel 2007+ workbooks: one page per worksheet, in workbook order, starting with the sheet's
+// name as a heading and followed by its rows as table rows. Cells show their stored values:
+// shared and inline strings, numbers, booleans and the cached results of formulas. Numbers in a
+// date format are written as ISO dates, since their serial numbers mean nothing to a reader.
+
+// Built-in number formats that show dates or times
+const DATE_FORMAT_IDS = [14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+// Excel's last column is XFD; cells past it only appear in damaged or crafted files
+const MAX_COLUMNS = 16384
+// Empty cells are kept up to column IV (Excel 97-2003's last) so columns line up from row to
+// row. Cells further right follow the row's previous cell, so a single far-off cell can't pad
+// its row with thousands of empty columns.
+const MAX_ALIGNED_COLUMNS = 256
+
+// Attribute value by name, from the attributes part of a tag
+const attribute = (attributes: string, name: string): string | undefined => {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes)
+  return match ? decodeXmlEntities(match[1]) : undefined
+}
+
+// Text of the <t> elements, leaving out phonetic guides (<rPh>) of East Asian text
+const textOf = (xml: string): string => {
+  const texts: string[] = []
+  const pattern = /<t(?:\s[^>]*)?>([^<]*)<\/t>/g
+  let match: RegExpExecArray | null
+  const visible = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '')
+  while ((match = pattern.exec(visible)) !== null) {
+    texts.push(decodeXmlEntities(match[1]))
+  }
+  return texts.join('')
+}
+
+// 'C7' -> 2
+const columnIndex = (reference: string): number => {
+  const letters = /^([A-Z]{1,3})\d+$/i.exec(reference)?.[1]
+  return letters
+    ? Array.from(letters.toUpperCase()).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+    : MAX_COLUMNS
+}
+
+// Which cell styles (by their index in cellXfs) format numbers as dates
+const dateStyles = (stylesXml: string): boolean[] => {
+  const customDates = new Set(
+    allMatches(stylesXml, /<numFmt\b([^>]*)\/?>/g)
+      .filter(match => {
+        // Leave out quoted text and [colors] before looking for date parts
+        const code = (attribute(match[1], 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')
+        return /[dmyhs]/i.test(code)
+      })
+      .map(match => Number(attribute(match[1], 'numFmtId')))
+  )
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml)
+  return cellXfs
+    ? allMatches(cellXfs[1], /<xf\b([^>]*)\/?>/g).map(match => {
+      const id = Number(attribute(match[1], 'numFmtId') || 0)
+      return DATE_FORMAT_IDS.includes(id) || customDates.has(id)
+    })
+    : []
+}
+
+const serialToDate = (serial: number, date1904: boolean): string => {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30)
+  const iso = new Date(epoch + Math.round(serial * MS_PER_DAY)).toISOString()
+  return serial % 1 === 0 ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`
+}
+
+// Resolves a relationship target against the folder of the part that refers to it
+const resolveTarget = (folder: string, target: string): string =>
+  target.startsWith('/') ? target.slice(1) : `${folder}/${target}`
+
+export const extractXlsx: Extractor = async data => {
+  const zip = await readZip(data, 'XLSX')
+  const workbook = zip.file('xl/workbook.xml')
+  if (!workbook) {
+    throw new ExtractionError('The XLSX file has no workbook', 'corrupt')
+  }
+  const workbookXml = await workbook.async('string')
+  const relationshipsXml = await zip.file('xl/_rels/workbook.xml.rels')?.async('string') || ''
+  const sharedStringsXml = await zip.file('xl/sharedStrings.xml')?.async('string') || ''
+  const stylesXml = await zip.file('xl/styles.xml')?.async('string') || ''
+
+  const targets = new Map(
+    allMatches(relationshipsXml, /<Relationship\b([^>]*)\/?>/g)
+      .map(match => [attribute(match[1], 'Id') || '', attribute(match[1], 'Target') || ''])
+  )
+  const sharedStrings = allMatches(sharedStringsXml, /<si>([\s\S]*?)<\/si>/g).map(match => textOf(match[1]))
+  const dates = dateStyles(stylesXml)
+  const date1904 = /<workbookPr\b[^>]*date1904="(?:1|true)"/.test(workbookXml)
+
+  const cellValue = (attributes: string, content: string): string => {
+    const type = attribute(attributes, 't')
+    const value = /<v>([^<]*)<\/v>/.exec(content)?.[1]
+    switch (type) {
+      case 's':
+        return sharedStrings[Number(value)] ?? ''
+      case 'inlineStr':
+        return textOf(content)
+      case 'b':
+        return value === '1' ? 'TRUE' : 'FALSE'
+      case 'str':
+      case 'e':
+        return decodeXmlEntities(value || '')
+      default: {
+        if (value === undefined) {
+          return ''
+        }
+        const number = Number(value)
+        return dates[Number(attribute(attributes, 's') || 0)] && !isNaN(number) ? serialToDate(number, date1904) : value
+      }
+    }
+  }
+
+  const pages: string[] = []
+  for (const sheet of allMatches(workbookXml, /<sheet\b([^>]*)\/?>/g)) {
+    const name = attribute(sheet[1], 'name') || `Sheet ${pages.length + 1}`
+    const target = targets.get(attribute(sheet[1], 'r:id') || '')
+    const file = target ? zip.file(resolveTarget('xl', target)) : null
+    if (!file) {
+      continue
+    }
+    const sheetXml = await file.async('string')
+    const lines = [headingLine(1, name)]
+    for (const row of allMatches(sheetXml, /<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      const cells: string[] = []
+      allMatches(row[1] || '', /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g).forEach(cell => {
+        const reference = attribute(cell[1], 'r')
+        const column = reference ? columnIndex(reference) : cells.length
+        if (column >= MAX_COLUMNS) {
+          throw new ExtractionError(`The XLSX file has a cell past the last column (${reference || cells.length + 1})`, 'corrupt')
+        }
+        const index = Math.min(column, Math.max(cells.length, MAX_ALIGNED_COLUMNS))
+        while (cells.length < index) {
+          cells.push('')
+        }
+        cells[index] = cellValue(cell[1], cell[2] || '')
+      })
+      const line = tableRow(cells)
+      if (line) {
+        lines.push(line)
+      }
+    }
+    pages.push(lines.join('\n'))
+  }
+  if (pages.length === 0) {
+    throw new ExtractionError('The XLSX file has no worksheets', 'corrupt')
+  }
+  return pages
+}
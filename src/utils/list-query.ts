@@ -0,0 +1,422 @@
+import { APP_CONSTANTS, PRIORITY_LEVELS } from './constants'
+import { DataValidationError } from './validation'
+import type {
+  ListQuery,
+  SortOption,
+  Page,
+  Facets,
+  ProjectSortField,
+  RequirementSortField,
+  ActivitySortField,
+  AuditLogSortField
+} from '../types'
+
+// Cursor pagination, multi-field sorting and filtering for list endpoints.
+// AuroraService and the API server build SQL from the definitions below, and
+// DemoStore applies the same queries to its in-memory arrays with paginateItems().
+
+export const DEFAULT_PROJECT_SORT: SortOption<ProjectSortField>[] = [
+  { field: 'createdAt', direction: 'desc' }
+]
+
+export const DEFAULT_REQUIREMENT_SORT: SortOption<RequirementSortField>[] = [
+  { field: 'priority', direction: 'desc' },
+  { field: 'title', direction: 'asc' }
+]
+
+export const DEFAULT_ACTIVITY_SORT: SortOption<ActivitySortField>[] = [
+  { field: 'timestamp', direction: 'desc' }
+]
+
+export const DEFAULT_AUDIT_LOG_SORT: SortOption<AuditLogSortField>[] = [
+  { field: 'seq', direction: 'desc' }
+]
+
+// Query keys that always hold a list of values
+const LIST_FILTERS = ['status', 'priority', 'category', 'assignee', 'type']
+
+type FilterValues = Record<string, unknown>
+
+type SortValue = string | number
+
+const resolveSort = <F extends string>(sort: SortOption<F>[] | undefined, defaults: SortOption<F>[]) =>
+  sort && sort.length > 0 ? sort : defaults
+
+const resolveLimit = (limit: number | undefined) =>
+  Math.min(limit || APP_CONSTANTS.PAGINATION.DEFAULT_PAGE_SIZE, APP_CONSTANTS.PAGINATION.MAX_PAGE_SIZE)
+
+const isActiveFilter = (value: unknown) =>
+  value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+
+// Cursors
+
+const sortKey = (sort: SortOption<string>[]) =>
+  sort.map(option => `${option.field}:${option.direction}`).join(',')
+
+interface Cursor {
+  sort: string
+  values: SortValue[]
+  id: string
+}
+
+const invalidCursor = (message: string) =>
+  new DataValidationError('cursor', [{ code: 'custom', path: ['cursor'], message }])
+
+// Opaque to clients: the sort it belongs to plus the sort values and id of the last row returned,
+// as URL-safe base64 of the UTF-8 JSON
+const encodeCursor = (sort: SortOption<string>[], values: SortValue[], id: string): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify({ sort: sortKey(sort), values, id }))
+  return btoa(String.fromCharCode.apply(null, Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+const decodeCursor = (cursor: string, sort: SortOption<string>[]): Cursor => {
+  let decoded: any
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+    decoded = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))))
+  } catch (error) {
+    throw invalidCursor('Malformed cursor')
+  }
+  if (!decoded || !Array.isArray(decoded.values) || typeof decoded.id !== 'string') {
+    throw invalidCursor('Malformed cursor')
+  }
+  // A cursor only makes sense for the ordering it was issued for
+  if (decoded.sort !== sortKey(sort) || decoded.values.length !== sort.length) {
+    throw invalidCursor('Cursor does not match the requested sort; start again without a cursor')
+  }
+  return decoded
+}
+
+// Query strings
+
+// Serialise a list query for a GET request, e.g. ?status=active&status=on-hold&sort=name:asc,createdAt:desc
+export const toSearchParams = (query: object): string => {
+  const values = query as FilterValues
+  const params = new URLSearchParams()
+  Object.keys(values).forEach(key => {
+    const value = values[key]
+    if (!isActiveFilter(value)) {
+      return
+    }
+    if (key === 'sort') {
+      params.set('sort', sortKey(value as SortOption<string>[]))
+    } else if (Array.isArray(value)) {
+      value.forEach(item => params.append(key, String(item)))
+    } else {
+      params.set(key, String(value))
+    }
+  })
+  const search = params.toString()
+  return search ? `?${search}` : ''
+}
+
+// Inverse of toSearchParams. The result is unchecked; validate it with the entity's query schema.
+export const fromSearchParams = (search: string): FilterValues => {
+  const query: FilterValues = {}
+  new URLSearchParams(search).forEach((value, key) => {
+    if (key === 'sort') {
+      query.sort = value.split(',').filter(Boolean).map(option => {
+        const [field, direction = 'asc'] = option.split(':')
+        return { field, direction }
+      })
+    } else if (key === 'limit') {
+      query.limit = Number(value)
+    } else if (LIST_FILTERS.indexOf(key) !== -1) {
+      query[key] = ((query[key] as string[]) || []).concat(value)
+    } else {
+      query[key] = value
+    }
+  })
+  return query
+}
+
+// SQL
+
+export interface SqlListDefinition<F extends string> {
+  defaultSort: SortOption<F>[]
+  // Sort field -> SQL expression; expressions must not be NULL for keyset paging to work
+  sort: Record<F, string>
+  // Query key -> column; lists match with = ANY(...), single values with =
+  filters: Record<string, string>
+  // Columns matched case-insensitively by `search`
+  search: string[]
+  // Unique column used to break ties
+  id: string
+}
+
+const PRIORITY_RANK_SQL = `CASE priority ${PRIORITY_LEVELS.map((level, index) => `WHEN '${level}' THEN ${index}`).join(' ')} END`
+
+export const PROJECT_LIST_SQL: SqlListDefinition<ProjectSortField> = {
+  defaultSort: DEFAULT_PROJECT_SORT,
+  sort: {
+    name: 'name',
+    status: 'status',
+    assignee: "COALESCE(assignee, '')",
+    compliance: 'COALESCE(compliance_score, 0)',
+    progress: 'COALESCE(progress, 0)',
+    createdAt: 'created_at',
+    lastActivity: 'COALESCE(last_activity, created_at)'
+  },
+  filters: { status: 'status', assignee: 'assignee' },
+  search: ['name', 'description', 'assignee'],
+  id: 'id'
+}
+
+export const REQUIREMENT_LIST_SQL: SqlListDefinition<RequirementSortField> = {
+  defaultSort: DEFAULT_REQUIREMENT_SORT,
+  sort: {
+    title: 'title',
+    status: 'status',
+    priority: PRIORITY_RANK_SQL,
+    category: "COALESCE(category, '')",
+    assignee: "COALESCE(assignee, '')",
+    confidence: 'COALESCE(confidence, 0)',
+    lastUpdated: 'COALESCE(updated_at, created_at)'
+  },
+  filters: { status: 'status', priority: 'priority', category: 'category', assignee: 'assignee' },
+  search: ['title', 'description'],
+  id: 'id'
+}
+
+// Columns are qualified because activity queries join projects and users
+export const ACTIVITY_LIST_SQL: SqlListDefinition<ActivitySortField> = {
+  defaultSort: DEFAULT_ACTIVITY_SORT,
+  sort: {
+    timestamp: 'a.created_at',
+    type: 'a.type'
+  },
+  filters: { type: 'a.type', projectId: 'a.project_id' },
+  search: ['a.title', 'a.description'],
+  id: 'a.id'
+}
+
+// Select `seq AS id` alongside it; toPage reads the row id for the cursor
+export const AUDIT_LOG_LIST_SQL: SqlListDefinition<AuditLogSortField> = {
+  defaultSort: DEFAULT_AUDIT_LOG_SORT,
+  sort: { seq: 'seq' },
+  filters: {},
+  search: [],
+  id: 'seq'
+}
+
+export const PROJECT_FACET_COLUMNS = { status: 'status', assignee: 'assignee' }
+
+export const REQUIREMENT_FACET_COLUMNS = { status: 'status', priority: 'priority', category: 'category', assignee: 'assignee' }
+
+export interface SqlListSource {
+  select: string
+  from: string
+  // Scope conditions (e.g. the owning user), written against $1..$n of `params`
+  conditions: string[]
+  params: any[]
+}
+
+export interface SqlList {
+  sql: string
+  params: any[]
+  countSql: string
+  countParams: any[]
+  sort: SortOption<string>[]
+  limit: number
+}
+
+// Build the page query (one extra row to detect a next page) and the matching count query
+export const buildListSql = <F extends string>(
+  definition: SqlListDefinition<F>,
+  query: ListQuery<F>,
+  source: SqlListSource
+): SqlList => {
+  const filters = query as FilterValues
+  const sort = resolveSort(query.sort, definition.defaultSort)
+  const limit = resolveLimit(query.limit)
+  const params = [...source.params]
+  const param = (value: any) => {
+    params.push(value)
+    return `$${params.length}`
+  }
+  const conditions = [...source.conditions]
+
+  Object.keys(definition.filters).forEach(key => {
+    const value = filters[key]
+    if (isActiveFilter(value)) {
+      const column = definition.filters[key]
+      conditions.push(Array.isArray(value) ? `${column} = ANY(${param(value)})` : `${column} = ${param(value)}`)
+    }
+  })
+
+  const search = typeof filters.search === 'string' ? filters.search.trim() : ''
+  if (search) {
+    const pattern = param(`%${search.replace(/[\\%_]/g, '\\$&')}%`)
+    conditions.push(`(${definition.search.map(column => `${column} ILIKE ${pattern}`).join(' OR ')})`)
+  }
+
+  const countSql = `SELECT COUNT(*)::int AS total FROM ${source.from} WHERE ${conditions.join(' AND ')}`
+  const countParams = [...params]
+
+  const expressions = sort.map(option => definition.sort[option.field])
+  if (query.cursor) {
+    // Keyset condition: rows that come strictly after the cursor in (sort fields..., id) order
+    const cursor = decodeCursor(query.cursor, sort)
+    const keys = expressions
+      .map((expression, index) => ({
+        expression,
+        value: param(cursor.values[index]),
+        operator: sort[index].direction === 'desc' ? '<' : '>'
+      }))
+      .concat({ expression: definition.id, value: param(cursor.id), operator: '>' })
+    const alternatives = keys.map((key, index) =>
+      keys.slice(0, index)
+        .map(previous => `${previous.expression} = ${previous.value}`)
+        .concat(`${key.expression} ${key.operator} ${key.value}`)
+        .join(' AND ')
+    )
+    conditions.push(`((${alternatives.join(') OR (')}))`)
+  }
+
+  // Sort values are read back as text so timestamps keep their full precision in the cursor
+  const sortColumns = expressions.map((expression, index) => `(${expression})::text AS sort_${index}`)
+  const orderBy = expressions
+    .map((expression, index) => `${expression} ${sort[index].direction.toUpperCase()}`)
+    .concat(`${definition.id} ASC`)
+
+  const sql = `
+    SELECT ${source.select}, ${sortColumns.join(', ')}
+    FROM ${source.from}
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ${orderBy.join(', ')}
+    LIMIT ${param(limit + 1)}
+  `
+  return { sql, params, countSql, countParams, sort, limit }
+}
+
+export const toPage = <T>(rows: any[], total: number, list: SqlList, mapRow: (row: any) => T): Page<T> => {
+  const pageRows = rows.slice(0, list.limit)
+  const last = pageRows[pageRows.length - 1]
+  const nextCursor = rows.length > list.limit && last
+    ? encodeCursor(list.sort, list.sort.map((option, index) => last[`sort_${index}`]), String(last.id))
+    : null
+  return { items: pageRows.map(mapRow), pageInfo: { nextCursor, total } }
+}
+
+// Counts per distinct value of each column in one round trip
+export const buildFacetSql = (columns: Record<string, string>, from: string, conditions: string[]): string =>
+  Object.keys(columns)
+    .map(facet => `
+      SELECT '${facet}' AS facet, ${columns[facet]}::text AS value, COUNT(*)::int AS count
+      FROM ${from}
+      WHERE ${conditions.join(' AND ')} AND COALESCE(${columns[facet]}, '') <> ''
+      GROUP BY ${columns[facet]}
+    `)
+    .join(' UNION ALL ')
+
+export const toFacets = <K extends string>(columns: Record<K, string>, rows: { facet: string; value: string; count: number }[]): Facets<K> => {
+  const facets: Record<string, Record<string, number>> = {}
+  Object.keys(columns).forEach(key => {
+    facets[key] = {}
+  })
+  rows.forEach(row => {
+    if (facets[row.facet]) {
+      facets[row.facet][row.value] = Number(row.count)
+    }
+  })
+  return facets as Facets<K>
+}
+
+// In memory
+
+export interface MemoryListDefinition<T, F extends string> {
+  defaultSort: SortOption<F>[]
+  sort: Record<F, (item: T) => SortValue>
+  filters: Record<string, (item: T) => string | undefined>
+  search: (item: T) => (string | undefined)[]
+  id: (item: T) => string
+}
+
+const compareValues = (a: SortValue, b: SortValue): number => {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b)
+  }
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+// The in-memory equivalent of buildListSql + toPage, with the same cursor format
+export const paginateItems = <T, F extends string>(
+  items: T[],
+  definition: MemoryListDefinition<T, F>,
+  query: ListQuery<F>
+): Page<T> => {
+  const filters = query as FilterValues
+  const sort = resolveSort(query.sort, definition.defaultSort)
+  const limit = resolveLimit(query.limit)
+  const search = typeof filters.search === 'string' ? filters.search.trim().toLowerCase() : ''
+
+  const matching = items.filter(item =>
+    Object.keys(definition.filters).every(key => {
+      const value = filters[key]
+      if (!isActiveFilter(value)) {
+        return true
+      }
+      const actual = definition.filters[key](item)
+      return Array.isArray(value) ? value.indexOf(actual) !== -1 : value === actual
+    }) &&
+    (!search || definition.search(item).some(text => (text || '').toLowerCase().includes(search)))
+  )
+
+  const directions = sort.map(option => (option.direction === 'desc' ? -1 : 1)).concat(1)
+  const compareKeys = (a: SortValue[], b: SortValue[]) => {
+    for (let index = 0; index < directions.length; index++) {
+      const comparison = compareValues(a[index], b[index]) * directions[index]
+      if (comparison !== 0) {
+        return comparison
+      }
+    }
+    return 0
+  }
+
+  let entries = matching
+    .map(item => ({ item, key: sort.map(option => definition.sort[option.field](item)).concat(definition.id(item)) }))
+    .sort((a, b) => compareKeys(a.key, b.key))
+
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, sort)
+    const after = cursor.values.concat(cursor.id)
+    entries = entries.filter(entry => compareKeys(entry.key, after) > 0)
+  }
+
+  const page = entries.slice(0, limit)
+  const last = page[page.length - 1]
+  const nextCursor = entries.length > limit && last
+    ? encodeCursor(sort, last.key.slice(0, sort.length), String(last.key[sort.length]))
+    : null
+  return { items: page.map(entry => entry.item), pageInfo: { nextCursor, total: matching.length } }
+}
+
+export const countFacets = <T, K extends string>(items: T[], accessors: Record<K, (item: T) => string | undefined>): Facets<K> => {
+  const facets = {} as Facets<K>
+  Object.keys(accessors).forEach(key => {
+    const counts: Record<string, number> = {}
+    items.forEach(item => {
+      const value = accessors[key as K](item)
+      if (value) {
+        counts[value] = (counts[value] || 0) + 1
+      }
+    })
+    facets[key as K] = counts
+  })
+  return facets
+}
+
+// Fetch every page of a list, for views that need the complete set (reports, pickers)
+export const collectPages = async <T>(fetchPage: (cursor?: string) => Promise<{ items: T[]; nextCursor: string | null }>): Promise<T[]> => {
+  const items: T[] = []
+  let cursor: string | undefined
+  do {
+    const page = await fetchPage(cursor)
+    items.push(...page.items)
+    cursor = page.nextCursor || undefined
+  } while (cursor)
+  return items
+}
@@ -0,0 +1,91 @@
+import type { Migration } from './types'
+
+// IF NOT EXISTS lets databases created by the old AURORA_SCHEMA strings adopt the ledger
+export const coreSchema: Migration = {
+  version: 1,
+  name: 'core_schema',
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      email VARCHAR(255) UNIQUE NOT NULL,
+      name VARCHAR(255),
+      password_hash VARCHAR(255),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS projects (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      name VARCHAR(255) NOT NULL,
+      description TEXT,
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      document_type VARCHAR(100),
+      assignee VARCHAR(255),
+      status VARCHAR(50) DEFAULT 'active',
+      compliance_score INTEGER DEFAULT 0,
+      progress INTEGER DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      last_activity TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS requirements (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+      title VARCHAR(500) NOT NULL,
+      description TEXT,
+      category VARCHAR(100),
+      priority VARCHAR(20) DEFAULT 'medium',
+      status VARCHAR(50) DEFAULT 'pending',
+      confidence DECIMAL(3,2) DEFAULT 0.00,
+      evidence TEXT,
+      gaps TEXT[],
+      recommendations TEXT[],
+      section VARCHAR(100),
+      assignee VARCHAR(255),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS documents (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+      filename VARCHAR(500) NOT NULL,
+      file_path VARCHAR(1000),
+      file_size BIGINT,
+      document_type VARCHAR(100),
+      mime_type VARCHAR(100),
+      uploaded_by UUID REFERENCES users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS activities (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      type VARCHAR(50) NOT NULL,
+      action VARCHAR(100) NOT NULL,
+      target VARCHAR(500),
+      title VARCHAR(255),
+      description TEXT,
+      metadata JSONB,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
+    CREATE INDEX IF NOT EXISTS idx_projects_status ON projects(status);
+    CREATE INDEX IF NOT EXISTS idx_requirements_project_id ON requirements(project_id);
+    CREATE INDEX IF NOT EXISTS idx_requirements_status ON requirements(status);
+    CREATE INDEX IF NOT EXISTS idx_documents_project_id ON documents(project_id);
+    CREATE INDEX IF NOT EXISTS idx_activities_project_id ON activities(project_id);
+    CREATE INDEX IF NOT EXISTS idx_activities_user_id ON activities(user_id);
+    CREATE INDEX IF NOT EXISTS idx_activities_created_at ON activities(created_at DESC);
+  `,
+  down: `
+    DROP TABLE IF EXISTS activities;
+    DROP TABLE IF EXISTS documents;
+    DROP TABLE IF EXISTS requirements;
+    DROP TABLE IF EXISTS projects;
+    DROP TABLE IF EXISTS users;
+  `
+}
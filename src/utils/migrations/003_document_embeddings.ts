@@ -0,0 +1,37 @@
+import type { Migration } from './types'
+
+// Embeddings need pgvector; on servers without it the table is simply skipped
+export const documentEmbeddings: Migration = {
+  version: 3,
+  name: 'document_embeddings',
+  up: `
+    DO $$
+    BEGIN
+      IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'vector') THEN
+        CREATE EXTENSION IF NOT EXISTS vector;
+
+        EXECUTE '
+          CREATE TABLE IF NOT EXISTS document_embeddings (
+            id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+            document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+            chunk_index INTEGER NOT NULL,
+            chunk_text TEXT NOT NULL,
+            embedding VECTOR(1536),
+            metadata JSONB,
+            token_count INTEGER,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+          )';
+        EXECUTE 'CREATE INDEX IF NOT EXISTS idx_document_embeddings_document ON document_embeddings(document_id)';
+        EXECUTE 'CREATE INDEX IF NOT EXISTS idx_document_embeddings_chunk ON document_embeddings(chunk_index)';
+        EXECUTE 'CREATE INDEX IF NOT EXISTS idx_document_embeddings_vector ON document_embeddings
+          USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100)';
+      ELSE
+        RAISE NOTICE 'pgvector not available, skipping document_embeddings';
+      END IF;
+    END
+    $$;
+  `,
+  down: `
+    DROP TABLE IF EXISTS document_embeddings;
+  `
+}
@@ -0,0 +1,13 @@
+import type { Migration } from './types'
+
+// Reviewer notes edited from the Requirements Checklist
+export const requirementNotes: Migration = {
+  version: 4,
+  name: 'requirement_notes',
+  up: `
+    ALTER TABLE requirements ADD COLUMN IF NOT EXISTS notes TEXT;
+  `,
+  down: `
+    ALTER TABLE requirements DROP COLUMN IF EXISTS notes;
+  `
+}
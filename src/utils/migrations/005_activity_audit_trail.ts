@@ -0,0 +1,19 @@
+import type { Migration } from './types'
+
+// Activities are the audit trail, so deleting a project detaches its entries instead of deleting them
+export const activityAuditTrail: Migration = {
+  version: 5,
+  name: 'activity_audit_trail',
+  up: `
+    ALTER TABLE activities DROP CONSTRAINT IF EXISTS activities_project_id_fkey;
+    ALTER TABLE activities
+      ADD CONSTRAINT activities_project_id_fkey
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE SET NULL;
+  `,
+  down: `
+    ALTER TABLE activities DROP CONSTRAINT IF EXISTS activities_project_id_fkey;
+    ALTER TABLE activities
+      ADD CONSTRAINT activities_project_id_fkey
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE;
+  `
+}
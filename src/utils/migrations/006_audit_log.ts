@@ -0,0 +1,37 @@
+import type { Migration } from './types'
+
+// Tamper-evident copy of every activity (see src/utils/audit-chain.ts). Each row hashes the
+// previous row's hash, and triggers refuse UPDATE, DELETE and TRUNCATE so the table is append-only.
+export const auditLog: Migration = {
+  version: 6,
+  name: 'audit_log',
+  up: `
+    CREATE TABLE IF NOT EXISTS audit_log (
+      seq BIGINT PRIMARY KEY,
+      payload TEXT NOT NULL,
+      previous_hash CHAR(64) NOT NULL,
+      hash CHAR(64) NOT NULL UNIQUE,
+      recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE OR REPLACE FUNCTION audit_log_append_only() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_log is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS audit_log_no_change ON audit_log;
+    CREATE TRIGGER audit_log_no_change
+      BEFORE UPDATE OR DELETE ON audit_log
+      FOR EACH ROW EXECUTE FUNCTION audit_log_append_only();
+
+    DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+    CREATE TRIGGER audit_log_no_truncate
+      BEFORE TRUNCATE ON audit_log
+      FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only();
+  `,
+  down: `
+    DROP TABLE IF EXISTS audit_log;
+    DROP FUNCTION IF EXISTS audit_log_append_only();
+  `
+}
@@ -0,0 +1,18 @@
+import type { Migration } from './types'
+
+// Users signed in through an external identity provider (Supabase Auth, Cognito, Keycloak)
+// are matched on issuer and subject, so a changed email address keeps the same account
+export const userIdentities: Migration = {
+  version: 7,
+  name: 'user_identities',
+  up: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS auth_issuer VARCHAR(255);
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS auth_subject VARCHAR(255);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_users_auth_identity ON users(auth_issuer, auth_subject);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_users_auth_identity;
+    ALTER TABLE users DROP COLUMN IF EXISTS auth_subject;
+    ALTER TABLE users DROP COLUMN IF EXISTS auth_issuer;
+  `
+}
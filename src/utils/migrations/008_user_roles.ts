@@ -0,0 +1,23 @@
+import type { Migration } from './types'
+
+// Role-based access control (see src/utils/permissions.ts). New users start as QA reviewers;
+// the earliest user becomes the first QA manager so someone can assign roles.
+export const userRoles: Migration = {
+  version: 8,
+  name: 'user_roles',
+  up: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(32) NOT NULL DEFAULT 'qa-reviewer';
+
+    ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+    ALTER TABLE users ADD CONSTRAINT users_role_check
+      CHECK (role IN ('qa-manager', 'qa-reviewer', 'validator', 'model-developer'));
+
+    UPDATE users SET role = 'qa-manager'
+    WHERE id = (SELECT id FROM users ORDER BY created_at, id LIMIT 1)
+      AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'qa-manager');
+  `,
+  down: `
+    ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+    ALTER TABLE users DROP COLUMN IF EXISTS role;
+  `
+}
@@ -0,0 +1,117 @@
+import type { Migration } from './types'
+
+// Organizations (see src/utils/workspaces.ts). Projects move from their creator to a workspace:
+// every existing user gets a personal workspace holding the projects they created.
+//
+// Row-level security keeps each request inside the workspace named by the `app.workspace_id`
+// setting; with none set, projects, requirements and documents are invisible. FORCE applies the
+// policies to the table owner too, but superusers always bypass them, so run the API server as an
+// ordinary role (Aurora's master user is not a superuser). Later data migrations that touch these
+// tables must set the workspace or run as a superuser.
+export const workspaces: Migration = {
+  version: 9,
+  name: 'workspaces',
+  up: `
+    CREATE TABLE IF NOT EXISTS workspaces (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      name VARCHAR(255) NOT NULL,
+      created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS workspace_members (
+      workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      PRIMARY KEY (workspace_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS workspace_invitations (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      email VARCHAR(255) NOT NULL,
+      invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      accepted_at TIMESTAMP WITH TIME ZONE,
+      UNIQUE (workspace_id, email)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+    CREATE INDEX IF NOT EXISTS idx_workspace_invitations_email ON workspace_invitations(email);
+
+    ALTER TABLE projects ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+    ALTER TABLE activities ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL;
+    CREATE INDEX IF NOT EXISTS idx_projects_workspace_id ON projects(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_activities_workspace_id ON activities(workspace_id);
+
+    WITH created AS (
+      INSERT INTO workspaces (name, created_by, created_at)
+      SELECT COALESCE(NULLIF(name, ''), email) || '''s workspace', id, created_at
+      FROM users u
+      WHERE NOT EXISTS (SELECT 1 FROM workspace_members m WHERE m.user_id = u.id)
+      RETURNING id, created_by, created_at
+    )
+    INSERT INTO workspace_members (workspace_id, user_id, joined_at)
+    SELECT id, created_by, created_at FROM created;
+
+    UPDATE projects p
+    SET workspace_id = (SELECT id FROM workspaces w WHERE w.created_by = p.user_id ORDER BY w.created_at, w.id LIMIT 1)
+    WHERE p.workspace_id IS NULL;
+
+    -- Projects without a creator go to the earliest user's workspace
+    UPDATE projects
+    SET workspace_id = (SELECT id FROM workspaces ORDER BY created_at, id LIMIT 1)
+    WHERE workspace_id IS NULL;
+
+    ALTER TABLE projects ALTER COLUMN workspace_id SET NOT NULL;
+
+    UPDATE activities a
+    SET workspace_id = p.workspace_id
+    FROM projects p
+    WHERE a.project_id = p.id AND a.workspace_id IS NULL;
+
+    -- Entries of deleted projects stay with their author; role changes are team-wide
+    UPDATE activities a
+    SET workspace_id = (SELECT id FROM workspaces w WHERE w.created_by = a.user_id ORDER BY w.created_at, w.id LIMIT 1)
+    WHERE a.workspace_id IS NULL AND a.project_id IS NULL
+      AND a.metadata->>'entity' IS DISTINCT FROM 'user';
+
+    ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+    ALTER TABLE projects FORCE ROW LEVEL SECURITY;
+    DROP POLICY IF EXISTS workspace_isolation ON projects;
+    CREATE POLICY workspace_isolation ON projects
+      USING (workspace_id = NULLIF(current_setting('app.workspace_id', true), '')::uuid);
+
+    -- The subquery on projects is itself filtered by the policy above
+    ALTER TABLE requirements ENABLE ROW LEVEL SECURITY;
+    ALTER TABLE requirements FORCE ROW LEVEL SECURITY;
+    DROP POLICY IF EXISTS workspace_isolation ON requirements;
+    CREATE POLICY workspace_isolation ON requirements
+      USING (project_id IN (SELECT id FROM projects));
+
+    ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+    ALTER TABLE documents FORCE ROW LEVEL SECURITY;
+    DROP POLICY IF EXISTS workspace_isolation ON documents;
+    CREATE POLICY workspace_isolation ON documents
+      USING (project_id IN (SELECT id FROM projects));
+  `,
+  down: `
+    DROP POLICY IF EXISTS workspace_isolation ON documents;
+    ALTER TABLE documents NO FORCE ROW LEVEL SECURITY;
+    ALTER TABLE documents DISABLE ROW LEVEL SECURITY;
+    DROP POLICY IF EXISTS workspace_isolation ON requirements;
+    ALTER TABLE requirements NO FORCE ROW LEVEL SECURITY;
+    ALTER TABLE requirements DISABLE ROW LEVEL SECURITY;
+    DROP POLICY IF EXISTS workspace_isolation ON projects;
+    ALTER TABLE projects NO FORCE ROW LEVEL SECURITY;
+    ALTER TABLE projects DISABLE ROW LEVEL SECURITY;
+
+    ALTER TABLE activities DROP COLUMN IF EXISTS workspace_id;
+    ALTER TABLE projects DROP COLUMN IF EXISTS workspace_id;
+    DROP TABLE IF EXISTS workspace_invitations;
+    DROP TABLE IF EXISTS workspace_members;
+    DROP TABLE IF EXISTS workspaces;
+  `
+}
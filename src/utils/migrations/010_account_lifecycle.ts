@@ -0,0 +1,34 @@
+import type { Migration } from './types'
+
+// Account lifecycle for users who sign in with a password on the API server (see server/accounts.ts):
+// email verification, password resets, admin invitations and deactivation. Tokens are stored as
+// SHA-256 hashes, so a database dump can't be used to take over accounts. Existing users count as
+// verified; identity provider users are verified by their provider.
+export const accountLifecycle: Migration = {
+  version: 10,
+  name: 'account_lifecycle',
+  up: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+    UPDATE users SET email_verified_at = COALESCE(created_at, NOW()) WHERE email_verified_at IS NULL;
+
+    CREATE TABLE IF NOT EXISTS account_tokens (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      purpose VARCHAR(32) NOT NULL CHECK (purpose IN ('verify-email', 'reset-password', 'invitation')),
+      token_hash CHAR(64) NOT NULL UNIQUE,
+      created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      used_at TIMESTAMP WITH TIME ZONE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_account_tokens_user_purpose ON account_tokens(user_id, purpose);
+  `,
+  down: `
+    DROP TABLE IF EXISTS account_tokens;
+    ALTER TABLE users DROP COLUMN IF EXISTS deactivated_at;
+    ALTER TABLE users DROP COLUMN IF EXISTS email_verified_at;
+  `
+}
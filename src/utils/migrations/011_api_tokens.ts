@@ -0,0 +1,38 @@
+import type { Migration } from './types'
+
+// Automation without a human session (see server/api-tokens.ts). Service accounts are users rows
+// without a password or identity provider sign-in; API tokens act as their owner within their
+// scopes. Tokens are stored as SHA-256 hashes, with a short prefix to tell them apart.
+export const apiTokens: Migration = {
+  version: 11,
+  name: 'api_tokens',
+  up: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS account_type VARCHAR(16) NOT NULL DEFAULT 'user';
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+    ALTER TABLE users DROP CONSTRAINT IF EXISTS users_account_type_check;
+    ALTER TABLE users ADD CONSTRAINT users_account_type_check CHECK (account_type IN ('user', 'service'));
+
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      token_prefix VARCHAR(16) NOT NULL,
+      token_hash CHAR(64) NOT NULL UNIQUE,
+      scopes TEXT[] NOT NULL,
+      created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      expires_at TIMESTAMP WITH TIME ZONE,
+      last_used_at TIMESTAMP WITH TIME ZONE,
+      revoked_at TIMESTAMP WITH TIME ZONE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS api_tokens;
+    ALTER TABLE users DROP CONSTRAINT IF EXISTS users_account_type_check;
+    ALTER TABLE users DROP COLUMN IF EXISTS created_by;
+    ALTER TABLE users DROP COLUMN IF EXISTS account_type;
+  `
+}
@@ -0,0 +1,26 @@
+import type { Migration } from './types'
+
+// Text extraction on upload (see src/utils/extraction). The text goes into the existing
+// documents.extracted_text; page_map holds each page's character range in it. Documents uploaded
+// before this migration stay 'pending' until they are reprocessed.
+export const documentExtraction: Migration = {
+  version: 12,
+  name: 'document_extraction',
+  up: `
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS extraction_status VARCHAR(20) NOT NULL DEFAULT 'pending';
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS extraction_error TEXT;
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS page_map JSONB;
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS extracted_at TIMESTAMP WITH TIME ZONE;
+
+    ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_extraction_status_check;
+    ALTER TABLE documents ADD CONSTRAINT documents_extraction_status_check
+      CHECK (extraction_status IN ('pending', 'completed', 'failed', 'unsupported'));
+  `,
+  down: `
+    ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_extraction_status_check;
+    ALTER TABLE documents DROP COLUMN IF EXISTS extracted_at;
+    ALTER TABLE documents DROP COLUMN IF EXISTS page_map;
+    ALTER TABLE documents DROP COLUMN IF EXISTS extraction_error;
+    ALTER TABLE documents DROP COLUMN IF EXISTS extraction_status;
+  `
+}
@@ -0,0 +1,29 @@
+import type { Migration } from './types'
+
+// Document structure (see src/utils/extraction/structure.ts), stored with the extracted text, and
+// requirement sources pointing into it: the document, the node id and the exact character range
+// and page. Documents extracted before this migration get a structure when they are reprocessed.
+export const documentStructure: Migration = {
+  version: 13,
+  name: 'document_structure',
+  up: `
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS structure JSONB;
+
+    ALTER TABLE requirements ADD COLUMN IF NOT EXISTS source_document_id UUID REFERENCES documents(id) ON DELETE SET NULL;
+    ALTER TABLE requirements ADD COLUMN IF NOT EXISTS source_section VARCHAR(100);
+    ALTER TABLE requirements ADD COLUMN IF NOT EXISTS source_start INTEGER;
+    ALTER TABLE requirements ADD COLUMN IF NOT EXISTS source_end INTEGER;
+    ALTER TABLE requirements ADD COLUMN IF NOT EXISTS source_page INTEGER;
+
+    CREATE INDEX IF NOT EXISTS idx_requirements_source_document_id ON requirements(source_document_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_requirements_source_document_id;
+    ALTER TABLE requirements DROP COLUMN IF EXISTS source_page;
+    ALTER TABLE requirements DROP COLUMN IF EXISTS source_end;
+    ALTER TABLE requirements DROP COLUMN IF EXISTS source_start;
+    ALTER TABLE requirements DROP COLUMN IF EXISTS source_section;
+    ALTER TABLE requirements DROP COLUMN IF EXISTS source_document_id;
+    ALTER TABLE documents DROP COLUMN IF EXISTS structure;
+  `
+}
@@ -0,0 +1,36 @@
+import type { Migration } from './types'
+
+// Resumable uploads to the API server that haven't finished yet (see server/routes/documents.ts).
+// The chunks themselves live with the storage provider, under storage_upload_id; the row ties
+// them to the project and the user sending them until they become a document. Like documents,
+// rows are only visible in the workspace of their project.
+export const documentUploads: Migration = {
+  version: 14,
+  name: 'document_uploads',
+  up: `
+    CREATE TABLE IF NOT EXISTS document_uploads (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      uploaded_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      filename VARCHAR(500) NOT NULL,
+      file_path TEXT NOT NULL,
+      file_size BIGINT NOT NULL,
+      mime_type VARCHAR(100),
+      document_type VARCHAR(100),
+      storage_upload_id TEXT NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_document_uploads_uploaded_by ON document_uploads(uploaded_by);
+
+    ALTER TABLE document_uploads ENABLE ROW LEVEL SECURITY;
+    ALTER TABLE document_uploads FORCE ROW LEVEL SECURITY;
+    DROP POLICY IF EXISTS workspace_isolation ON document_uploads;
+    CREATE POLICY workspace_isolation ON document_uploads
+      USING (project_id IN (SELECT id FROM projects));
+  `,
+  down: `
+    DROP TABLE IF EXISTS document_uploads;
+  `
+}
@@ -0,0 +1,25 @@
+import type { Migration } from './types'
+
+// What documents say about themselves (see src/utils/extraction/metadata.ts): the title on the
+// document, its owner and version number, and when it was approved and is next reviewed, next to
+// effective_date from migration 15. Extraction fills the ones that are empty, so values entered
+// by hand survive reprocessing. Documents extracted before this migration get them when they are
+// reprocessed.
+export const documentMetadata: Migration = {
+  version: 16,
+  name: 'document_metadata',
+  up: `
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS document_title TEXT;
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS owner TEXT;
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS document_version TEXT;
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS approval_date DATE;
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS next_review_date DATE;
+  `,
+  down: `
+    ALTER TABLE documents DROP COLUMN IF EXISTS next_review_date;
+    ALTER TABLE documents DROP COLUMN IF EXISTS approval_date;
+    ALTER TABLE documents DROP COLUMN IF EXISTS document_version;
+    ALTER TABLE documents DROP COLUMN IF EXISTS owner;
+    ALTER TABLE documents DROP COLUMN IF EXISTS document_title;
+  `
+}
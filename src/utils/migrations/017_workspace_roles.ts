@@ -0,0 +1,77 @@
+import type { Migration } from './types'
+
+// Roles and deactivation belong to a workspace membership rather than to the user (see
+// src/utils/user-roles.ts), so a QA manager runs their own workspaces and no one else's.
+// Members keep the role they had on the team, creators manage their workspaces, and a workspace
+// left without a manager promotes its earliest member. People deactivated on the team stay
+// deactivated in each of their workspaces; their accounts themselves are usable again.
+export const workspaceRoles: Migration = {
+  version: 17,
+  name: 'workspace_roles',
+  up: `
+    ALTER TABLE workspace_members ADD COLUMN IF NOT EXISTS role VARCHAR(32) NOT NULL DEFAULT 'qa-reviewer';
+    ALTER TABLE workspace_members ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+    ALTER TABLE workspace_members DROP CONSTRAINT IF EXISTS workspace_members_role_check;
+    ALTER TABLE workspace_members ADD CONSTRAINT workspace_members_role_check
+      CHECK (role IN ('qa-manager', 'qa-reviewer', 'validator', 'model-developer'));
+
+    UPDATE workspace_members m
+    SET role = CASE WHEN w.created_by = m.user_id AND u.account_type = 'user' THEN 'qa-manager' ELSE u.role END,
+        deactivated_at = CASE WHEN u.account_type = 'user' THEN u.deactivated_at END
+    FROM users u, workspaces w
+    WHERE u.id = m.user_id AND w.id = m.workspace_id;
+
+    UPDATE workspace_members m
+    SET role = 'qa-manager'
+    FROM (
+      SELECT DISTINCT ON (c.workspace_id) c.workspace_id, c.user_id
+      FROM workspace_members c
+      JOIN users u ON u.id = c.user_id
+      WHERE u.account_type = 'user' AND c.deactivated_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM workspace_members x
+          JOIN users xu ON xu.id = x.user_id
+          WHERE x.workspace_id = c.workspace_id AND x.role = 'qa-manager'
+            AND x.deactivated_at IS NULL AND xu.account_type = 'user'
+        )
+      ORDER BY c.workspace_id, c.joined_at, c.user_id
+    ) earliest
+    WHERE m.workspace_id = earliest.workspace_id AND m.user_id = earliest.user_id;
+
+    UPDATE users u
+    SET deactivated_at = NULL
+    WHERE u.account_type = 'user' AND u.deactivated_at IS NOT NULL
+      AND EXISTS (SELECT 1 FROM workspace_members m WHERE m.user_id = u.id);
+
+    ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+    ALTER TABLE users DROP COLUMN IF EXISTS role;
+  `,
+  // Users get back their strongest role in any workspace, and are deactivated when every one of
+  // their memberships is
+  down: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(32) NOT NULL DEFAULT 'qa-reviewer';
+    ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+    ALTER TABLE users ADD CONSTRAINT users_role_check
+      CHECK (role IN ('qa-manager', 'qa-reviewer', 'validator', 'model-developer'));
+
+    UPDATE users u
+    SET role = strongest.role
+    FROM (
+      SELECT DISTINCT ON (user_id) user_id, role
+      FROM workspace_members
+      ORDER BY user_id, CASE role WHEN 'qa-manager' THEN 0 WHEN 'qa-reviewer' THEN 1 WHEN 'validator' THEN 2 ELSE 3 END
+    ) strongest
+    WHERE u.id = strongest.user_id;
+
+    UPDATE users u
+    SET deactivated_at = (SELECT MAX(m.deactivated_at) FROM workspace_members m WHERE m.user_id = u.id)
+    WHERE u.deactivated_at IS NULL
+      AND EXISTS (SELECT 1 FROM workspace_members m WHERE m.user_id = u.id)
+      AND NOT EXISTS (SELECT 1 FROM workspace_members m WHERE m.user_id = u.id AND m.deactivated_at IS NULL);
+
+    ALTER TABLE workspace_members DROP CONSTRAINT IF EXISTS workspace_members_role_check;
+    ALTER TABLE workspace_members DROP COLUMN IF EXISTS deactivated_at;
+    ALTER TABLE workspace_members DROP COLUMN IF EXISTS role;
+  `
+}
@@ -0,0 +1,28 @@
+import type { Migration } from './types'
+
+// Workspace of each audit_log entry, so a workspace's managers read, verify and export their own
+// entries only (see src/utils/audit-chain.ts). Entries recorded from now on also carry it in
+// their hashed payload; older ones take their activity's workspace. It has no foreign key: the
+// entries of a deleted workspace stay attributed to it. Entries without a workspace, and the
+// whole chain, are left to the operators in AUDIT_ADMIN_EMAILS.
+export const auditLogWorkspaces: Migration = {
+  version: 18,
+  name: 'audit_log_workspaces',
+  up: `
+    ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS workspace_id UUID;
+
+    -- Backfilling is the one change the append-only trigger lets through; payloads and hashes are untouched
+    ALTER TABLE audit_log DISABLE TRIGGER audit_log_no_change;
+    UPDATE audit_log l
+    SET workspace_id = a.workspace_id
+    FROM activities a
+    WHERE l.workspace_id IS NULL AND a.id::text = l.payload::jsonb->>'activityId';
+    ALTER TABLE audit_log ENABLE TRIGGER audit_log_no_change;
+
+    CREATE INDEX IF NOT EXISTS idx_audit_log_workspace_seq ON audit_log(workspace_id, seq);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_audit_log_workspace_seq;
+    ALTER TABLE audit_log DROP COLUMN IF EXISTS workspace_id;
+  `
+}
@@ -0,0 +1,33 @@
+import type { Migration } from './types'
+
+// Metadata fields people set or cleared by hand (see saveDocumentExtraction in
+// src/utils/extraction). Reprocessing refreshes the extracted metadata but leaves these alone,
+// so a value removed on purpose isn't filled in again. An effective date given with an upload
+// counts as set by hand. Values already stored can't be told apart, so they are all kept as edits.
+export const documentMetadataEdits: Migration = {
+  version: 19,
+  name: 'document_metadata_edits',
+  up: `
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS metadata_edited TEXT[] NOT NULL DEFAULT '{}';
+
+    -- The backfill runs with migration 9's policy lifted for the owner, as in migration 15
+    ALTER TABLE documents NO FORCE ROW LEVEL SECURITY;
+    UPDATE documents
+    SET metadata_edited = ARRAY(
+      SELECT field FROM (VALUES
+        ('document_title', document_title IS NOT NULL),
+        ('owner', owner IS NOT NULL),
+        ('document_version', document_version IS NOT NULL),
+        ('effective_date', effective_date IS NOT NULL),
+        ('approval_date', approval_date IS NOT NULL),
+        ('next_review_date', next_review_date IS NOT NULL)
+      ) AS fields(field, is_set)
+      WHERE is_set
+    )
+    WHERE metadata_edited = '{}';
+    ALTER TABLE documents FORCE ROW LEVEL SECURITY;
+  `,
+  down: `
+    ALTER TABLE documents DROP COLUMN IF EXISTS metadata_edited;
+  `
+}
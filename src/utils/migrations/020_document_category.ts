@@ -0,0 +1,17 @@
+import type { Migration } from './types'
+
+// The category of a document, such as 'Privacy notice' (see src/utils/document-classifier.ts):
+// suggested on the upload page and kept or overridden there, or set afterwards. Resumable
+// uploads (migration 14) carry it until the file becomes a document.
+export const documentCategory: Migration = {
+  version: 20,
+  name: 'document_category',
+  up: `
+    ALTER TABLE documents ADD COLUMN IF NOT EXISTS category TEXT;
+    ALTER TABLE document_uploads ADD COLUMN IF NOT EXISTS category TEXT;
+  `,
+  down: `
+    ALTER TABLE document_uploads DROP COLUMN IF EXISTS category;
+    ALTER TABLE documents DROP COLUMN IF EXISTS category;
+  `
+}
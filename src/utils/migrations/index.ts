@@ -0,0 +1,47 @@
+import type { Migration } from './types'
+import { coreSchema } from './001_core_schema'
+import { aiSchema } from './002_ai_schema'
+import { documentEmbeddings } from './003_document_embeddings'
+import { requirementNotes } from './004_requirement_notes'
+import { activityAuditTrail } from './005_activity_audit_trail'
+import { auditLog } from './006_audit_log'
+import { userIdentities } from './007_user_identities'
+import { userRoles } from './008_user_roles'
+import { workspaces } from './009_workspaces'
+import { accountLifecycle } from './010_account_lifecycle'
+import { apiTokens } from './011_api_tokens'
+import { documentExtraction } from './012_document_extraction'
+import { documentStructure } from './013_document_structure'
+import { documentUploads } from './014_document_uploads'
+import { documentVersions } from './015_document_versions'
+import { documentMetadata } from './016_document_metadata'
+import { workspaceRoles } from './017_workspace_roles'
+import { auditLogWorkspaces } from './018_audit_log_workspaces'
+import { documentMetadataEdits } from './019_document_metadata_edits'
+import { documentCategory } from './020_document_category'
+
+export type { Migration } from './types'
+
+// Append new migrations here; never edit or renumber one that has shipped
+export const MIGRATIONS: Migration[] = [
+  coreSchema,
+  aiSchema,
+  documentEmbeddings,
+  requirementNotes,
+  activityAuditTrail,
+  auditLog,
+  userIdentities,
+  userRoles,
+  workspaces,
+  accountLifecycle,
+  apiTokens,
+  documentExtraction,
+  documentStructure,
+  documentUploads,
+  documentVersions,
+  documentMetadata,
+  workspaceRoles,
+  auditLogWorkspaces,
+  documentMetadataEdits,
+  documentCategory
+]
@@ -0,0 +1,7 @@
+// A numbered schema change. `up` and `down` may each contain several statements.
+export interface Migration {
+  version: number
+  name: string
+  up: string
+  down: string
+}
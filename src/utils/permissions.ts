@@ -0,0 +1,98 @@
+import { APP_CONSTANTS, FINAL_REQUIREMENT_STATUSES, USER_ROLES, type ApiTokenScope, type Permission, type UserRole } from './constants'
+
+// What each role may change. Every signed-in user can read what they have access to;
+// the API server enforces these, and the pages use them to hide actions a user can't take.
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  'qa-manager': 'QA Manager',
+  'qa-reviewer': 'QA Reviewer',
+  'validator': 'Validator',
+  'model-developer': 'Model Developer'
+}
+
+export const ROLE_TIERS: Record<UserRole, string> = {
+  'qa-manager': 'QA Team',
+  'qa-reviewer': 'QA Team',
+  'validator': 'Validation Staff',
+  'model-developer': 'Model Development Community'
+}
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  // Sampling, final verdicts, deleting reports, assigning roles and running workspaces
+  'qa-manager': [
+    'project:create', 'project:update', 'project:delete',
+    'requirement:create', 'requirement:update', 'requirement:delete', 'requirement:finalize',
+    'document:upload', 'document:update', 'document:delete',
+    'report:export', 'report:email', 'ai:use', 'audit:read', 'users:manage',
+    'workspace:manage'
+  ],
+  'qa-reviewer': [
+    'project:create', 'project:update',
+    'requirement:create', 'requirement:update', 'requirement:delete',
+    'document:upload', 'document:update', 'document:delete',
+    'report:export', 'report:email', 'ai:use'
+  ],
+  // Supply control checkpoint documentation and annotate requirements
+  'validator': [
+    'requirement:update',
+    'document:upload', 'document:update',
+    'report:export', 'ai:use'
+  ],
+  // Provide model documentation and follow the review
+  'model-developer': [
+    'document:upload',
+    'report:export', 'ai:use'
+  ]
+}
+
+// API token scopes. A token request gets the permissions its scopes grant and its owner's role
+// allows; reading needs 'projects:read'. Managing users, workspaces, the audit log and tokens
+// themselves always takes a signed-in user.
+export const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'projects:read': 'Read projects, requirements, documents and activity',
+  'projects:write': 'Create and update projects and requirements',
+  'documents:upload': 'Upload and update documents',
+  'reports:export': 'Export and email reports',
+  'ai:use': 'Run AI analysis'
+}
+
+export const SCOPE_PERMISSIONS: Record<ApiTokenScope, readonly Permission[]> = {
+  'projects:read': [],
+  'projects:write': ['project:create', 'project:update', 'requirement:create', 'requirement:update'],
+  'documents:upload': ['document:upload', 'document:update'],
+  'reports:export': ['report:export', 'report:email'],
+  'ai:use': ['ai:use']
+}
+
+export const permissionsForScopes = (permissions: readonly Permission[], scopes: readonly ApiTokenScope[]): Permission[] =>
+  permissions.filter(permission => scopes.some(scope => SCOPE_PERMISSIONS[scope]?.includes(permission)))
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value)
+
+// APP_CONSTANTS roles, falling back when the environment names a role that doesn't exist
+export const DEFAULT_ROLE: UserRole = isUserRole(APP_CONSTANTS.DEFAULT_USER_ROLE) ? APP_CONSTANTS.DEFAULT_USER_ROLE : 'qa-reviewer'
+export const DEMO_USER_ROLE: UserRole = isUserRole(APP_CONSTANTS.DEMO_ROLE) ? APP_CONSTANTS.DEMO_ROLE : 'qa-manager'
+
+export const permissionsFor = (role: UserRole): Permission[] => [...(ROLE_PERMISSIONS[role] || [])]
+
+export const isFinalStatus = (status: string | undefined): boolean =>
+  status !== undefined && (FINAL_REQUIREMENT_STATUSES as readonly string[]).includes(status)
+
+// Setting a verdict, or reopening one, is a QA manager decision
+export const changesFinalStatus = (from: string, to: string | undefined): boolean =>
+  to !== undefined && to !== from && (isFinalStatus(from) || isFinalStatus(to))
+
+// Raised when the signed-in user's role doesn't allow an action
+export class PermissionError extends Error {
+  constructor(public permission: Permission, message: string = `Your role does not allow ${permission}`) {
+    super(message)
+    this.name = 'PermissionError'
+  }
+}
+
+export const assertPermission = (permissions: readonly Permission[], permission: Permission, message?: string): void => {
+  if (!permissions.includes(permission)) {
+    throw new PermissionError(permission, message)
+  }
+}
@@ -0,0 +1,94 @@
+import type { QueryResult } from './aurora-service'
+import { DataValidationError } from './validation'
+import { findNode, nodeLabel, pageAt, sectionAt } from './extraction/structure'
+import { mapDocumentRow } from './row-mappers'
+import type { Document, Requirement, RequirementUpdate } from '../types'
+
+// Where a requirement comes from, shared by AuroraService, the API server and the demo store.
+// Clients name a document of the project and a node of its structure, an exact character range,
+// or both; the rest (the range of the node, the section around a range, the page, and the
+// section label shown in Requirement.section) is filled in from the document when it's saved.
+
+type RunQuery = (sql: string, params?: any[]) => Promise<QueryResult>
+
+const SOURCE_FIELDS = ['sourceDocument', 'sourceSection', 'sourceStart', 'sourceEnd'] as const
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const MAX_SECTION_LENGTH = 100
+
+export type ResolvedSource<T> = T & Pick<Requirement, 'sourcePage'>
+
+const invalid = (field: string, message: string): DataValidationError =>
+  new DataValidationError('requirement source', [{ code: 'custom', path: [field], message }])
+
+export const changesRequirementSource = (input: RequirementUpdate): boolean =>
+  SOURCE_FIELDS.some(field => input[field] !== undefined)
+
+// Completes the source fields of a requirement input. All of them are set, so an update replaces
+// the previous source as a whole; sourceSection is '' (stored as no section) when the range lies
+// outside every heading and clause.
+export const resolveRequirementSource = <T extends RequirementUpdate>(input: T, document: Document | null): ResolvedSource<T> => {
+  if (!changesRequirementSource(input)) {
+    return input
+  }
+  if (!input.sourceDocument) {
+    throw invalid('sourceDocument', 'Required to set sourceSection, sourceStart or sourceEnd')
+  }
+  if (!document) {
+    throw invalid('sourceDocument', 'No such document in this project')
+  }
+  if ((input.sourceStart === undefined) !== (input.sourceEnd === undefined)) {
+    throw invalid('sourceEnd', 'sourceStart and sourceEnd are given together')
+  }
+
+  let node = input.sourceSection ? findNode(document.structure, input.sourceSection) : undefined
+  if (input.sourceSection && !node) {
+    throw invalid('sourceSection', `${document.title} has no section "${input.sourceSection}"`)
+  }
+
+  let start = node ? node.start : 0
+  let end = node ? node.end : document.content.length
+  if (input.sourceStart !== undefined && input.sourceEnd !== undefined) {
+    start = input.sourceStart
+    end = input.sourceEnd
+    if (start > end || end > document.content.length) {
+      throw invalid('sourceEnd', `The range must lie within the document's ${document.content.length} characters`)
+    }
+    node = node || sectionAt(document.structure, start, end)
+  }
+
+  return {
+    ...input,
+    sourceSection: node ? node.id : '',
+    sourceStart: start,
+    sourceEnd: end,
+    sourcePage: pageAt(document.pages, start),
+    ...(input.section === undefined && node ? { section: nodeLabel(node).slice(0, MAX_SECTION_LENGTH) } : {})
+  }
+}
+
+// A document of the project, or null (also for ids that aren't UUIDs, such as demo ids)
+export const findProjectDocument = async (query: RunQuery, projectId: string, documentId: string): Promise<Document | null> => {
+  const result = UUID_PATTERN.test(documentId) ? await query(
+    'SELECT * FROM documents WHERE id = $1 AND project_id = $2',
+    [documentId, projectId]
+  ) : { rows: [] }
+  return result.rows[0] ? mapDocumentRow(result.rows[0]) : null
+}
+
+// Resolves the source of a new requirement, or of an update to `current`; an update that moves
+// only the range or section keeps the document
+export const withRequirementSource = async <T extends RequirementUpdate>(
+  query: RunQuery,
+  projectId: string,
+  input: T,
+  current?: Requirement
+): Promise<ResolvedSource<T>> => {
+  if (!changesRequirementSource(input)) {
+    return input
+  }
+  const sourceDocument = input.sourceDocument ?? current?.sourceDocument
+  const document = sourceDocument ? await findProjectDocument(query, projectId, sourceDocument) : null
+  return resolveRequirementSource({ ...input, sourceDocument }, document)
+}
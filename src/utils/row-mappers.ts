@@ -0,0 +1,245 @@
+import type {
+  Project,
+  Requirement,
+  Document,
+  Activity,
+  AuditLogEntry,
+  TeamMember,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  ApiToken,
+  ServiceAccount,
+  ProjectUpdate,
+  RequirementUpdate,
+  DocumentUpdate
+} from '../types'
+
+// Convert snake_case Postgres rows into the camelCase shapes in src/types.
+// Shared by AuroraService and the self-hosted API server so both return the same objects.
+
+const toIso = (value: any): string =>
+  value instanceof Date ? value.toISOString() : (value || '')
+
+const toNumber = (value: any): number | undefined =>
+  value === null || value === undefined ? undefined : Number(value)
+
+const orUndefined = <T>(value: T | null | undefined): T | undefined =>
+  value === null || value === undefined || value === '' ? undefined : value
+
+// DATE columns as 'YYYY-MM-DD'; node-postgres reads them as local midnight
+const toDateString = (value: any): string | undefined => {
+  if (value instanceof Date) {
+    const pad = (part: number) => ('0' + part).slice(-2)
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+  }
+  return orUndefined(value) ? String(value).slice(0, 10) : undefined
+}
+
+// Client field -> projects column for updates
+export const PROJECT_COLUMNS: Record<keyof ProjectUpdate, string> = {
+  name: 'name',
+  description: 'description',
+  documentType: 'document_type',
+  assignee: 'assignee',
+  status: 'status',
+  compliance: 'compliance_score',
+  progress: 'progress'
+}
+
+// Client field -> requirements column for updates; sourcePage is derived from the other source fields
+export const REQUIREMENT_COLUMNS: Record<keyof RequirementUpdate | 'sourcePage', string> = {
+  title: 'title',
+  description: 'description',
+  category: 'category',
+  priority: 'priority',
+  status: 'status',
+  confidence: 'confidence',
+  evidence: 'evidence',
+  gaps: 'gaps',
+  recommendations: 'recommendations',
+  section: 'section',
+  assignee: 'assignee',
+  notes: 'notes',
+  sourceDocument: 'source_document_id',
+  sourceSection: 'source_section',
+  sourceStart: 'source_start',
+  sourceEnd: 'source_end',
+  sourcePage: 'source_page'
+}
+
+// Client field -> documents column for updates
+export const DOCUMENT_COLUMNS: Record<keyof DocumentUpdate, string> = {
+  title: 'filename',
+  type: 'document_type',
+  documentTitle: 'document_title',
+  owner: 'owner',
+  documentVersion: 'document_version',
+  effectiveDate: 'effective_date',
+  approvalDate: 'approval_date',
+  nextReviewDate: 'next_review_date',
+  category: 'category'
+}
+
+export const mapProjectRow = (row: any): Project => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || '',
+  createdAt: toIso(row.created_at),
+  documentType: row.document_type || '',
+  assignee: row.assignee || '',
+  status: row.status,
+  compliance: toNumber(row.compliance_score) ?? 0,
+  lastActivity: toIso(row.last_activity || row.updated_at),
+  progress: toNumber(row.progress) ?? 0,
+  workspaceId: orUndefined(row.workspace_id)
+})
+
+export const mapRequirementRow = (row: any): Requirement => ({
+  id: row.id,
+  title: row.title,
+  description: row.description || '',
+  category: row.category || '',
+  priority: row.priority,
+  status: row.status,
+  confidence: toNumber(row.confidence),
+  evidence: orUndefined(row.evidence),
+  gaps: row.gaps || [],
+  recommendations: row.recommendations || [],
+  section: orUndefined(row.section),
+  sourceDocument: orUndefined(row.source_document_id),
+  sourceSection: orUndefined(row.source_section),
+  sourceStart: toNumber(row.source_start),
+  sourceEnd: toNumber(row.source_end),
+  sourcePage: toNumber(row.source_page),
+  assignee: orUndefined(row.assignee),
+  notes: orUndefined(row.notes),
+  lastUpdated: toIso(row.updated_at)
+})
+
+export const mapDocumentRow = (row: any): Document => ({
+  id: row.id,
+  title: row.filename,
+  name: row.filename,
+  type: row.document_type === 'program' ? 'program' : 'policy',
+  content: row.extracted_text || '',
+  uploadDate: toIso(row.created_at),
+  size: toNumber(row.file_size) ?? 0,
+  projectId: orUndefined(row.project_id),
+  mimeType: orUndefined(row.mime_type),
+  extractionStatus: row.extraction_status || 'pending',
+  extractionError: orUndefined(row.extraction_error),
+  pages: row.page_map ? toArray(row.page_map) : undefined,
+  structure: row.structure ? toArray(row.structure) : undefined,
+  extractedAt: row.extracted_at ? toIso(row.extracted_at) : undefined,
+  contentHash: orUndefined(row.content_hash),
+  lineageId: orUndefined(row.lineage_id),
+  version: toNumber(row.version),
+  isCurrent: row.is_current === undefined || row.is_current === null ? undefined : Boolean(row.is_current),
+  documentTitle: orUndefined(row.document_title),
+  owner: orUndefined(row.owner),
+  documentVersion: orUndefined(row.document_version),
+  effectiveDate: toDateString(row.effective_date),
+  approvalDate: toDateString(row.approval_date),
+  nextReviewDate: toDateString(row.next_review_date),
+  uploadedBy: orUndefined(row.uploaded_by),
+  // Joined from users by the queries that list documents (see document-versions.ts)
+  uploaderName: orUndefined(row.uploader_name),
+  category: orUndefined(row.category)
+})
+
+const toArray = (value: any): any[] =>
+  typeof value === 'string' ? JSON.parse(value) : (value || [])
+
+const toObject = (value: any): Record<string, any> =>
+  typeof value === 'string' ? JSON.parse(value) : (value || {})
+
+export const mapTeamMemberRow = (row: any): TeamMember => ({
+  id: row.id,
+  email: row.email,
+  name: orUndefined(row.name),
+  role: row.role,
+  status: row.status,
+  createdAt: toIso(row.created_at)
+})
+
+// Expects member_count and the member's role from the caller's query
+export const mapWorkspaceRow = (row: any): Workspace => ({
+  id: row.id,
+  name: row.name,
+  createdAt: toIso(row.created_at),
+  memberCount: toNumber(row.member_count) ?? 0,
+  role: row.role
+})
+
+// users row joined with workspace_members, which has the role
+export const mapWorkspaceMemberRow = (row: any): WorkspaceMember => ({
+  id: row.id,
+  email: row.email,
+  name: orUndefined(row.name),
+  role: row.role,
+  joinedAt: toIso(row.joined_at)
+})
+
+// Expects the workspace name and the inviter's name or email joined in
+export const mapWorkspaceInvitationRow = (row: any): WorkspaceInvitation => ({
+  id: row.id,
+  workspaceId: row.workspace_id,
+  workspaceName: row.workspace_name,
+  email: row.email,
+  invitedBy: orUndefined(row.invited_by_name),
+  createdAt: toIso(row.created_at),
+  expiresAt: toIso(row.expires_at)
+})
+
+// api_tokens row; never includes token_hash
+export const mapApiTokenRow = (row: any): ApiToken => ({
+  id: row.id,
+  name: row.name,
+  prefix: row.token_prefix,
+  scopes: row.scopes || [],
+  ownerId: row.user_id,
+  createdAt: toIso(row.created_at),
+  expiresAt: orUndefined(toIso(row.expires_at)),
+  lastUsedAt: orUndefined(toIso(row.last_used_at))
+})
+
+// users row joined with its workspace membership and the creator's name or email; tokens are loaded separately
+export const mapServiceAccountRow = (row: any, tokens: ApiToken[] = []): ServiceAccount => ({
+  id: row.id,
+  name: row.name || '',
+  role: row.role,
+  workspaceId: row.workspace_id,
+  createdBy: orUndefined(row.created_by_name),
+  createdAt: toIso(row.created_at),
+  tokens
+})
+
+// Expects the activities row joined with project and user names. Inserts copy the project
+// name into metadata, which takes over once the project is deleted and the link cleared.
+export const mapActivityRow = (row: any): Activity => {
+  const metadata = toObject(row.metadata)
+  return {
+    id: row.id,
+    type: row.type,
+    user: row.user_name || row.user_email || '',
+    action: row.action,
+    target: row.target || '',
+    title: row.title || '',
+    description: row.description || '',
+    projectName: orUndefined(row.project_name) ?? orUndefined(metadata.projectName),
+    projectId: orUndefined(row.project_id),
+    timestamp: toIso(row.created_at),
+    changes: Array.isArray(metadata.changes) ? metadata.changes : undefined,
+    workspaceId: orUndefined(row.workspace_id)
+  }
+}
+
+export const mapAuditLogRow = (row: any): AuditLogEntry => ({
+  seq: Number(row.seq),
+  previousHash: row.previous_hash,
+  hash: row.hash,
+  payload: row.payload,
+  recordedAt: toIso(row.recorded_at),
+  workspaceId: row.workspace_id || undefined
+})
@@ -0,0 +1,84 @@
+import { APP_CONSTANTS } from '../constants'
+import { AuthService } from '../supabase'
+import { S3StorageProvider } from './s3-storage'
+import { SupabaseStorageProvider } from './supabase-storage'
+import { StorageError, DEFAULT_SIGNED_URL_TTL_SECONDS, type StorageProvider } from './storage-provider'
+
+export * from './storage-provider'
+
+// Helper function to safely access environment variables
+const getEnvVar = (key: string, defaultValue: string = ''): string => {
+  if (typeof process !== 'undefined' && process.env) {
+    return process.env[key] || defaultValue
+  }
+  return defaultValue
+}
+
+// Document storage for providers that talk to storage from the browser (direct Aurora access).
+// The API server builds its own provider from SERVER_CONFIG.storage in server/storage.ts.
+export const STORAGE_CONFIG = {
+  provider: APP_CONSTANTS.STORAGE_PROVIDER,
+  bucket: getEnvVar('STORAGE_BUCKET', 'documents'),
+  signedUrlTtlSeconds: parseInt(getEnvVar('STORAGE_SIGNED_URL_TTL', String(DEFAULT_SIGNED_URL_TTL_SECONDS))),
+
+  supabase: {
+    url: getEnvVar('SUPABASE_URL'),
+    anonKey: getEnvVar('SUPABASE_ANON_KEY')
+  },
+
+  // Amazon S3, or MinIO and other S3-compatible services when S3_ENDPOINT is set
+  s3: {
+    endpoint: getEnvVar('S3_ENDPOINT'),
+    region: getEnvVar('S3_REGION', getEnvVar('AWS_REGION', 'us-east-1')),
+    accessKeyId: getEnvVar('S3_ACCESS_KEY_ID'),
+    secretAccessKey: getEnvVar('S3_SECRET_ACCESS_KEY'),
+    forcePathStyle: getEnvVar('S3_FORCE_PATH_STYLE') === 'true'
+  }
+}
+
+const requireSetting = (value: string, name: string): string => {
+  if (!value) {
+    throw new StorageError(`${name} is not configured`, 'not_configured')
+  }
+  return value
+}
+
+// Storage Factory
+export class StorageFactory {
+  private static instance: StorageProvider | null = null
+
+  static getInstance(): StorageProvider {
+    if (!this.instance) {
+      this.instance = this.createProvider()
+    }
+    return this.instance
+  }
+
+  private static createProvider(): StorageProvider {
+    switch (STORAGE_CONFIG.provider) {
+      case 's3':
+        return new S3StorageProvider({
+          ...STORAGE_CONFIG.s3,
+          endpoint: STORAGE_CONFIG.s3.endpoint || undefined,
+          bucket: STORAGE_CONFIG.bucket,
+          accessKeyId: requireSetting(STORAGE_CONFIG.s3.accessKeyId, 'S3_ACCESS_KEY_ID'),
+          secretAccessKey: requireSetting(STORAGE_CONFIG.s3.secretAccessKey, 'S3_SECRET_ACCESS_KEY')
+        })
+      case 'local':
+        throw new StorageError("STORAGE_PROVIDER 'local' is only available on the API server", 'not_configured')
+      case 'supabase':
+      default:
+        return new SupabaseStorageProvider({
+          url: requireSetting(STORAGE_CONFIG.supabase.url, 'SUPABASE_URL'),
+          apiKey: requireSetting(STORAGE_CONFIG.supabase.anonKey, 'SUPABASE_ANON_KEY'),
+          bucket: STORAGE_CONFIG.bucket,
+          getAccessToken: () => AuthService.getAccessToken()
+        })
+    }
+  }
+
+  // Reset instance (useful for testing or switching providers)
+  static resetInstance(): void {
+    this.instance = null
+  }
+}
@@ -0,0 +1,373 @@
+import {
+  assertValidKey,
+  assertValidChunk,
+  StorageError,
+  DEFAULT_SIGNED_URL_TTL_SECONDS,
+  UPLOAD_CHUNK_BYTES,
+  type StorageProvider,
+  type StoredObject,
+  type PutOptions,
+  type ResumableUpload
+} from './storage-provider'
+
+// Amazon S3 and S3-compatible services (MinIO, Ceph, R2, ...) over the REST API.
+// Requests are signed with AWS Signature Version 4 using WebCrypto, so this runs
+// unchanged in the browser and in Node without the AWS SDK.
+
+export interface S3StorageConfig {
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+  // Custom endpoint for S3-compatible services, e.g. http://localhost:9000 for MinIO
+  endpoint?: string
+  // Address objects as <endpoint>/<bucket>/<key> instead of <bucket>.<host>/<key>; MinIO needs this
+  forcePathStyle?: boolean
+}
+
+// S3 rejects presigned URLs valid for longer than 7 days
+const MAX_SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60
+
+const EMPTY_PAYLOAD_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+
+const encoder = new TextEncoder()
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => ('0' + byte.toString(16)).slice(-2))
+    .join('')
+
+const sha256Hex = async (data: string | Uint8Array): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? encoder.encode(data) : data))
+
+const hmac = async (key: string | ArrayBuffer, data: string): Promise<ArrayBuffer> => {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    typeof key === 'string' ? encoder.encode(key) : key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data))
+}
+
+// RFC 3986 encoding, which SigV4 requires (encodeURIComponent leaves !'()* alone)
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+
+const canonicalQueryString = (params: Record<string, string>): string =>
+  Object.keys(params)
+    .sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+    .join('&')
+
+const encodeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+
+const xmlValue = (xml: string, tag: string): string | undefined => {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml)
+  return match ? decodeXml(match[1]) : undefined
+}
+
+// 20130524T000000Z
+const toAmzDate = (date: Date): string => date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+
+interface UploadedPart {
+  number: number
+  etag: string
+  size: number
+}
+
+interface SignedRequest {
+  method: string
+  path: string
+  query?: Record<string, string>
+  headers?: Record<string, string>
+  payloadHash: string
+  date: Date
+}
+
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3'
+
+  constructor(private config: S3StorageConfig) {}
+
+  private get pathStyle(): boolean {
+    return Boolean(this.config.forcePathStyle)
+  }
+
+  private get origin(): URL {
+    const endpoint = new URL(this.config.endpoint || `https://s3.${this.config.region}.amazonaws.com`)
+    if (!this.pathStyle) {
+      endpoint.hostname = `${this.config.bucket}.${endpoint.hostname}`
+    }
+    return endpoint
+  }
+
+  // Canonical (and request) path for a key, or for the bucket itself when key is empty
+  private objectPath(key: string): string {
+    const segments = key ? key.split('/').map(encodeRfc3986) : []
+    return '/' + (this.pathStyle ? [encodeRfc3986(this.config.bucket), ...segments] : segments).join('/')
+  }
+
+  private credentialScope(date: Date): string {
+    return `${toAmzDate(date).slice(0, 8)}/${this.config.region}/s3/aws4_request`
+  }
+
+  private async signature(request: SignedRequest): Promise<{ signature: string; signedHeaders: string }> {
+    const headers: Record<string, string> = { ...request.headers, host: this.origin.host }
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort()
+    const lowerCased: Record<string, string> = {}
+    Object.keys(headers).forEach(name => {
+      lowerCased[name.toLowerCase()] = headers[name].trim().replace(/\s+/g, ' ')
+    })
+    const signedHeaders = names.join(';')
+
+    const canonicalRequest = [
+      request.method,
+      request.path,
+      canonicalQueryString(request.query || {}),
+      names.map(name => `${name}:${lowerCased[name]}\n`).join(''),
+      signedHeaders,
+      request.payloadHash
+    ].join('\n')
+
+    const amzDate = toAmzDate(request.date)
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      this.credentialScope(request.date),
+      await sha256Hex(canonicalRequest)
+    ].join('\n')
+
+    const dateKey = await hmac(`AWS4${this.config.secretAccessKey}`, amzDate.slice(0, 8))
+    const regionKey = await hmac(dateKey, this.config.region)
+    const serviceKey = await hmac(regionKey, 's3')
+    const signingKey = await hmac(serviceKey, 'aws4_request')
+    return { signature: toHex(await hmac(signingKey, stringToSign)), signedHeaders }
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    options: { query?: Record<string, string>; body?: Uint8Array; contentType?: string } = {}
+  ): Promise<Response> {
+    const date = new Date()
+    const path = this.objectPath(key)
+    const headers: Record<string, string> = {
+      'x-amz-date': toAmzDate(date),
+      'x-amz-content-sha256': options.body ? await sha256Hex(options.body) : EMPTY_PAYLOAD_HASH
+    }
+    if (options.contentType) {
+      headers['content-type'] = options.contentType
+    }
+    if (this.config.sessionToken) {
+      headers['x-amz-security-token'] = this.config.sessionToken
+    }
+
+    const { signature, signedHeaders } = await this.signature({
+      method,
+      path,
+      query: options.query,
+      headers,
+      payloadHash: headers['x-amz-content-sha256'],
+      date
+    })
+    const credential = `${this.config.accessKeyId}/${this.credentialScope(date)}`
+    const search = options.query ? `?${canonicalQueryString(options.query)}` : ''
+
+    let response: Response
+    try {
+      response = await fetch(`${this.origin.origin}${path}${search}`, {
+        method,
+        headers: {
+          ...headers,
+          Authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+        },
+        body: options.body
+      })
+    } catch (error) {
+      throw new StorageError(`S3 request failed: ${error instanceof Error ? error.message : error}`, 'unavailable')
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      const code = xmlValue(body, 'Code')
+      if (response.status === 404 || code === 'NoSuchKey') {
+        throw new StorageError(`Stored file "${key}" not found`, 'not_found', 404)
+      }
+      throw new StorageError(
+        `S3 ${method} failed with ${response.status}${code ? ` (${code}: ${xmlValue(body, 'Message') || ''})` : ''}`,
+        'unavailable',
+        response.status
+      )
+    }
+    return response
+  }
+
+  async put(key: string, body: Uint8Array, options: PutOptions = {}): Promise<StoredObject> {
+    assertValidKey(key)
+    await this.request('PUT', key, { body, contentType: options.contentType || 'application/octet-stream' })
+    return { key, size: body.byteLength, contentType: options.contentType, lastModified: new Date().toISOString() }
+  }
+
+  async get(key: string): Promise<Uint8Array> {
+    assertValidKey(key)
+    const response = await this.request('GET', key)
+    return new Uint8Array(await response.arrayBuffer())
+  }
+
+  async getStream(key: string): Promise<ReadableStream<Uint8Array>> {
+    assertValidKey(key)
+    const response = await this.request('GET', key)
+    if (!response.body) {
+      throw new StorageError(`Stored file "${key}" came back without a body`, 'unavailable')
+    }
+    return response.body
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key)
+    // S3 answers 204 whether or not the key existed
+    await this.request('DELETE', key)
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = []
+    let continuationToken: string | undefined
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix }
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken
+      }
+      const xml = await (await this.request('GET', '', { query })).text()
+
+      const contents = /<Contents>([\s\S]*?)<\/Contents>/g
+      let match: RegExpExecArray | null
+      while ((match = contents.exec(xml)) !== null) {
+        objects.push({
+          key: xmlValue(match[1], 'Key') || '',
+          size: Number(xmlValue(match[1], 'Size') || 0),
+          lastModified: xmlValue(match[1], 'LastModified')
+        })
+      }
+      continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : undefined
+    } while (continuationToken)
+    return objects
+  }
+
+  // Resumable uploads are multipart uploads, with the chunk at `offset` as part offset / chunk size + 1
+
+  async startUpload(key: string, size: number, options: PutOptions = {}): Promise<ResumableUpload> {
+    assertValidKey(key)
+    const contentType = options.contentType || 'application/octet-stream'
+    const xml = await (await this.request('POST', key, { query: { uploads: '' }, contentType })).text()
+    const id = xmlValue(xml, 'UploadId')
+    if (!id) {
+      throw new StorageError('S3 did not return an upload id', 'unavailable')
+    }
+    return { key, id, size, contentType: options.contentType }
+  }
+
+  private async listParts(upload: ResumableUpload): Promise<UploadedPart[]> {
+    const parts: UploadedPart[] = []
+    let marker: string | undefined
+    do {
+      const query: Record<string, string> = { uploadId: upload.id }
+      if (marker) {
+        query['part-number-marker'] = marker
+      }
+      const xml = await (await this.request('GET', upload.key, { query })).text()
+
+      const entries = /<Part>([\s\S]*?)<\/Part>/g
+      let match: RegExpExecArray | null
+      while ((match = entries.exec(xml)) !== null) {
+        parts.push({
+          number: Number(xmlValue(match[1], 'PartNumber')),
+          etag: xmlValue(match[1], 'ETag') || '',
+          size: Number(xmlValue(match[1], 'Size') || 0)
+        })
+      }
+      marker = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextPartNumberMarker') : undefined
+    } while (marker)
+    return parts.sort((a, b) => a.number - b.number)
+  }
+
+  // Parts can arrive in any order; only those without a gap before them count
+  async uploadedBytes(upload: ResumableUpload): Promise<number> {
+    let offset = 0
+    for (const part of await this.listParts(upload)) {
+      if (part.number !== offset / UPLOAD_CHUNK_BYTES + 1) {
+        break
+      }
+      offset += part.size
+    }
+    return offset
+  }
+
+  async uploadChunk(upload: ResumableUpload, offset: number, chunk: Uint8Array): Promise<number> {
+    assertValidChunk(upload, offset, chunk)
+    await this.request('PUT', upload.key, {
+      query: { partNumber: String(offset / UPLOAD_CHUNK_BYTES + 1), uploadId: upload.id },
+      body: chunk
+    })
+    return offset + chunk.byteLength
+  }
+
+  async completeUpload(upload: ResumableUpload): Promise<StoredObject> {
+    const parts = await this.listParts(upload)
+    const received = parts.reduce((total, part) => total + part.size, 0)
+    if (received !== upload.size) {
+      throw new StorageError(`Upload incomplete: ${received} of ${upload.size} bytes received`, 'invalid_chunk')
+    }
+    const body = encoder.encode(
+      '<CompleteMultipartUpload>' +
+      parts.map(part => `<Part><PartNumber>${part.number}</PartNumber><ETag>${encodeXml(part.etag)}</ETag></Part>`).join('') +
+      '</CompleteMultipartUpload>'
+    )
+    const xml = await (await this.request('POST', upload.key, { query: { uploadId: upload.id }, body, contentType: 'application/xml' })).text()
+    // S3 can report a failed completion in the body of a 200
+    if (xml.includes('<Error>')) {
+      throw new StorageError(`S3 could not complete the upload (${xmlValue(xml, 'Code')}: ${xmlValue(xml, 'Message') || ''})`, 'unavailable')
+    }
+    return { key: upload.key, size: upload.size, contentType: upload.contentType, lastModified: new Date().toISOString() }
+  }
+
+  async abortUpload(upload: ResumableUpload): Promise<void> {
+    try {
+      await this.request('DELETE', upload.key, { query: { uploadId: upload.id } })
+    } catch (error) {
+      if (!(error instanceof StorageError && error.code === 'not_found')) {
+        throw error
+      }
+    }
+  }
+
+  // Presigned GET (query-string authentication)
+  async getSignedUrl(key: string, expiresInSeconds: number = DEFAULT_SIGNED_URL_TTL_SECONDS, date: Date = new Date()): Promise<string> {
+    assertValidKey(key)
+    const path = this.objectPath(key)
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${this.credentialScope(date)}`,
+      'X-Amz-Date': toAmzDate(date),
+      'X-Amz-Expires': String(Math.min(Math.max(1, Math.floor(expiresInSeconds)), MAX_SIGNED_URL_TTL_SECONDS)),
+      'X-Amz-SignedHeaders': 'host'
+    }
+    if (this.config.sessionToken) {
+      query['X-Amz-Security-Token'] = this.config.sessionToken
+    }
+
+    const { signature } = await this.signature({ method: 'GET', path, query, payloadHash: 'UNSIGNED-PAYLOAD', date })
+    return `${this.origin.origin}${path}?${canonicalQueryString(query)}&X-Amz-Signature=${signature}`
+  }
+}
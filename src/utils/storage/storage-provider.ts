@@ -0,0 +1,100 @@
+// Where uploaded document files live. The API server and the direct Aurora provider write
+// uploads through a StorageProvider chosen by STORAGE_PROVIDER; documents.file_path holds the key.
+
+export type StorageProviderName = 'supabase' | 's3' | 'local'
+
+export interface StoredObject {
+  key: string
+  size: number
+  contentType?: string
+  lastModified?: string
+}
+
+export interface PutOptions {
+  contentType?: string
+}
+
+// A file sent in chunks of UPLOAD_CHUNK_BYTES, in order, that can be continued after a failure.
+// `id` is the backend's handle for it: an S3 upload id, a tus upload URL, a partial file.
+export interface ResumableUpload {
+  key: string
+  id: string
+  size: number
+  contentType?: string
+}
+
+export interface StorageProvider {
+  readonly name: StorageProviderName
+  put(key: string, body: Uint8Array, options?: PutOptions): Promise<StoredObject>
+  get(key: string): Promise<Uint8Array>
+  // The object's bytes as they arrive, for files too large to hold in memory
+  getStream(key: string): Promise<ReadableStream<Uint8Array>>
+  // Deleting a key that doesn't exist is not an error
+  delete(key: string): Promise<void>
+  // Every object whose key starts with `prefix`
+  list(prefix: string): Promise<StoredObject[]>
+  // Time-limited URL that downloads the object without further authentication
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>
+
+  // Resumable uploads. Every chunk is UPLOAD_CHUNK_BYTES long except the last, and goes at the
+  // offset uploadedBytes() reports; uploadChunk() resolves to the offset of the next one.
+  startUpload(key: string, size: number, options?: PutOptions): Promise<ResumableUpload>
+  uploadedBytes(upload: ResumableUpload): Promise<number>
+  uploadChunk(upload: ResumableUpload, offset: number, chunk: Uint8Array): Promise<number>
+  // Stores the file under upload.key once all of it has been sent
+  completeUpload(upload: ResumableUpload): Promise<StoredObject>
+  // Discards what was sent; an upload that is already gone is not an error
+  abortUpload(upload: ResumableUpload): Promise<void>
+}
+
+export type StorageErrorCode =
+  | 'not_found'
+  | 'invalid_key'
+  | 'invalid_chunk'
+  | 'offset_mismatch'
+  | 'not_configured'
+  | 'unavailable'
+  | 'unknown'
+
+export class StorageError extends Error {
+  constructor(message: string, public code: StorageErrorCode, public status?: number) {
+    super(message)
+    this.name = 'StorageError'
+  }
+}
+
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 15 * 60
+
+// Supabase Storage takes resumable uploads in chunks of exactly 6 MiB, and S3 parts other than the
+// last must be at least 5 MiB
+export const UPLOAD_CHUNK_BYTES = 6 * 1024 * 1024
+
+// Keys are relative, '/'-separated paths; refusing '..' and empty segments keeps the
+// local backend inside its directory and the remote ones from normalising keys differently
+export const assertValidKey = (key: string): void => {
+  const segments = key.split('/')
+  if (!key || key.includes('\\') || segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+    throw new StorageError(`Invalid storage key "${key}"`, 'invalid_key')
+  }
+}
+
+// <projectId>/<random>-<original name>, so listing a project's prefix finds all its files
+export const documentKey = (projectId: string, filename: string): string => {
+  const baseName = filename.split(/[\\/]/).pop() || 'file'
+  const safeName = baseName.replace(/[^\w.-]+/g, '_')
+  return `${projectId}/${crypto.randomUUID()}-${safeName}`
+}
+
+export const projectPrefix = (projectId: string): string => `${projectId}/`
+
+// A chunk must start on a chunk boundary and be a whole chunk, unless it ends the file
+export const assertValidChunk = (upload: ResumableUpload, offset: number, chunk: Uint8Array): void => {
+  const end = offset + chunk.byteLength
+  const expected = Math.min(UPLOAD_CHUNK_BYTES, upload.size - offset)
+  if (offset % UPLOAD_CHUNK_BYTES !== 0 || offset >= upload.size || chunk.byteLength !== expected) {
+    throw new StorageError(
+      `Invalid chunk: bytes ${offset}-${end} of ${upload.size}; chunks are ${UPLOAD_CHUNK_BYTES} bytes`,
+      'invalid_chunk'
+    )
+  }
+}
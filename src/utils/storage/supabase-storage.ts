@@ -0,0 +1,238 @@
+import {
+  assertValidKey,
+  assertValidChunk,
+  StorageError,
+  DEFAULT_SIGNED_URL_TTL_SECONDS,
+  type StorageProvider,
+  type StoredObject,
+  type PutOptions,
+  type ResumableUpload
+} from './storage-provider'
+
+// Supabase Storage over its REST API (/storage/v1), usable from the browser and the API server.
+
+export interface SupabaseStorageConfig {
+  // https://<project>.supabase.co
+  url: string
+  bucket: string
+  // Anon key in the browser, service-role key on the server
+  apiKey: string
+  // Signed-in user's token, so storage policies see the user rather than the anon role
+  getAccessToken?: () => Promise<string | null>
+}
+
+const LIST_PAGE_SIZE = 1000
+
+const encodeKey = (key: string): string => key.split('/').map(encodeURIComponent).join('/')
+
+const TUS_VERSION = '1.0.0'
+
+// tus metadata values are base64 of their UTF-8 bytes
+const toBase64 = (value: string): string =>
+  btoa(Array.from(new TextEncoder().encode(value), byte => String.fromCharCode(byte)).join(''))
+
+export class SupabaseStorageProvider implements StorageProvider {
+  readonly name = 'supabase'
+
+  constructor(private config: SupabaseStorageConfig) {}
+
+  private async request(method: string, path: string, body?: Uint8Array | object, contentType?: string): Promise<Response> {
+    const token = (await this.config.getAccessToken?.()) || this.config.apiKey
+    const isJson = body !== undefined && !(body instanceof Uint8Array)
+
+    let response: Response
+    try {
+      response = await fetch(`${this.config.url}/storage/v1${path}`, {
+        method,
+        headers: {
+          apikey: this.config.apiKey,
+          Authorization: `Bearer ${token}`,
+          ...(isJson ? { 'Content-Type': 'application/json' } : {}),
+          ...(contentType ? { 'Content-Type': contentType, 'x-upsert': 'true' } : {})
+        },
+        body: isJson ? JSON.stringify(body) : (body as Uint8Array | undefined)
+      })
+    } catch (error) {
+      throw new StorageError(`Supabase Storage request failed: ${error instanceof Error ? error.message : error}`, 'unavailable')
+    }
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      // Storage reports missing objects as 400 with statusCode "404" in the body
+      if (response.status === 404 || String(error.statusCode) === '404') {
+        throw new StorageError('Stored file not found', 'not_found', 404)
+      }
+      throw new StorageError(
+        `Supabase Storage ${method} failed with ${response.status}${error.message ? `: ${error.message}` : ''}`,
+        'unavailable',
+        response.status
+      )
+    }
+    return response
+  }
+
+  // Resumable uploads go through Storage's tus endpoint; the upload's id is its tus URL
+  private async tusRequest(method: string, url: string, headers: Record<string, string>, body?: Uint8Array): Promise<Response> {
+    const token = (await this.config.getAccessToken?.()) || this.config.apiKey
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          apikey: this.config.apiKey,
+          Authorization: `Bearer ${token}`,
+          'Tus-Resumable': TUS_VERSION,
+          ...headers
+        },
+        body
+      })
+    } catch (error) {
+      throw new StorageError(`Supabase Storage request failed: ${error instanceof Error ? error.message : error}`, 'unavailable')
+    }
+
+    if (!response.ok) {
+      const message = await response.text().catch(() => '')
+      if (response.status === 404 || response.status === 410) {
+        throw new StorageError('Upload not found', 'not_found', 404)
+      }
+      if (response.status === 409) {
+        throw new StorageError('The chunk does not continue the upload where it stopped', 'offset_mismatch', 409)
+      }
+      throw new StorageError(
+        `Supabase Storage ${method} failed with ${response.status}${message ? `: ${message}` : ''}`,
+        'unavailable',
+        response.status
+      )
+    }
+    return response
+  }
+
+  async startUpload(key: string, size: number, options: PutOptions = {}): Promise<ResumableUpload> {
+    assertValidKey(key)
+    const metadata = {
+      bucketName: this.config.bucket,
+      objectName: key,
+      contentType: options.contentType || 'application/octet-stream'
+    }
+    const response = await this.tusRequest('POST', `${this.config.url}/storage/v1/upload/resumable`, {
+      'Upload-Length': String(size),
+      'Upload-Metadata': Object.entries(metadata).map(([name, value]) => `${name} ${toBase64(value)}`).join(','),
+      'x-upsert': 'true'
+    })
+    const location = response.headers.get('Location')
+    if (!location) {
+      throw new StorageError('Supabase Storage did not return an upload URL', 'unavailable')
+    }
+    return { key, id: new URL(location, this.config.url).toString(), size, contentType: options.contentType }
+  }
+
+  async uploadedBytes(upload: ResumableUpload): Promise<number> {
+    const response = await this.tusRequest('HEAD', upload.id, {})
+    return Number(response.headers.get('Upload-Offset') || 0)
+  }
+
+  async uploadChunk(upload: ResumableUpload, offset: number, chunk: Uint8Array): Promise<number> {
+    assertValidChunk(upload, offset, chunk)
+    const response = await this.tusRequest('PATCH', upload.id, {
+      'Upload-Offset': String(offset),
+      'Content-Type': 'application/offset+octet-stream'
+    }, chunk)
+    return Number(response.headers.get('Upload-Offset') || offset + chunk.byteLength)
+  }
+
+  // The object exists as soon as the last chunk is in
+  async completeUpload(upload: ResumableUpload): Promise<StoredObject> {
+    let received: number
+    try {
+      received = await this.uploadedBytes(upload)
+    } catch (error) {
+      // Storage may drop a finished tus upload; the object then tells how much arrived
+      if (!(error instanceof StorageError && error.code === 'not_found')) {
+        throw error
+      }
+      received = (await this.list(upload.key)).find(object => object.key === upload.key)?.size ?? 0
+    }
+    if (received !== upload.size) {
+      throw new StorageError(`Upload incomplete: ${received} of ${upload.size} bytes received`, 'invalid_chunk')
+    }
+    return { key: upload.key, size: upload.size, contentType: upload.contentType, lastModified: new Date().toISOString() }
+  }
+
+  async abortUpload(upload: ResumableUpload): Promise<void> {
+    try {
+      await this.tusRequest('DELETE', upload.id, {})
+    } catch (error) {
+      if (!(error instanceof StorageError && error.code === 'not_found')) {
+        throw error
+      }
+    }
+  }
+
+  async put(key: string, body: Uint8Array, options: PutOptions = {}): Promise<StoredObject> {
+    assertValidKey(key)
+    const contentType = options.contentType || 'application/octet-stream'
+    await this.request('POST', `/object/${this.config.bucket}/${encodeKey(key)}`, body, contentType)
+    return { key, size: body.byteLength, contentType: options.contentType, lastModified: new Date().toISOString() }
+  }
+
+  async get(key: string): Promise<Uint8Array> {
+    assertValidKey(key)
+    const response = await this.request('GET', `/object/authenticated/${this.config.bucket}/${encodeKey(key)}`)
+    return new Uint8Array(await response.arrayBuffer())
+  }
+
+  async getStream(key: string): Promise<ReadableStream<Uint8Array>> {
+    assertValidKey(key)
+    const response = await this.request('GET', `/object/authenticated/${this.config.bucket}/${encodeKey(key)}`)
+    if (!response.body) {
+      throw new StorageError(`Stored file "${key}" came back without a body`, 'unavailable')
+    }
+    return response.body
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key)
+    await this.request('DELETE', `/object/${this.config.bucket}`, { prefixes: [key] })
+  }
+
+  // The Storage API lists one folder at a time; `prefix` is split into that folder and a name search
+  async list(prefix: string): Promise<StoredObject[]> {
+    const slash = prefix.lastIndexOf('/')
+    const folder = slash >= 0 ? prefix.slice(0, slash) : ''
+    const search = prefix.slice(slash + 1)
+
+    const objects: StoredObject[] = []
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const response = await this.request('POST', `/object/list/${this.config.bucket}`, {
+        prefix: folder,
+        search,
+        limit: LIST_PAGE_SIZE,
+        offset,
+        sortBy: { column: 'name', order: 'asc' }
+      })
+      const items: any[] = await response.json()
+      items
+        // Sub-folders come back as entries without an id
+        .filter(item => item.id)
+        .forEach(item => objects.push({
+          key: folder ? `${folder}/${item.name}` : item.name,
+          size: Number(item.metadata?.size ?? 0),
+          contentType: item.metadata?.mimetype,
+          lastModified: item.updated_at || undefined
+        }))
+      if (items.length < LIST_PAGE_SIZE) {
+        return objects
+      }
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number = DEFAULT_SIGNED_URL_TTL_SECONDS): Promise<string> {
+    assertValidKey(key)
+    const response = await this.request('POST', `/object/sign/${this.config.bucket}/${encodeKey(key)}`, {
+      expiresIn: Math.max(1, Math.floor(expiresInSeconds))
+    })
+    const { signedURL } = await response.json()
+    return `${this.config.url}/storage/v1${signedURL}`
+  }
+}
@@ -1,86 +1,172 @@
 import { createClient } from '@supabase/supabase-js'
 import { projectId, publicAnonKey } from '../../utils/supabase/info'
 import { APP_CONSTANTS } from './constants'
-import { mockProjects, mockActivities, mockRequirements } from './mockData'
-import { AuroraService } from './aurora-service'
+import { AuroraService, DatabaseError } from './aurora-service'
+import { DemoStore } from './demo-store'
+import { toSearchParams, fromSearchParams, collectPages } from './list-query'
+import { extractDocumentText } from './extraction'
+import { sendInChunks, throwIfCancelled, UploadCancelledError, type UploadOptions, type DocumentUploadOptions } from './uploads'
+import { contentHash } from './document-versions'
+import { UPLOAD_CHUNK_BYTES } from './storage/storage-provider'
+import {
+  validate,
+  projectQuerySchema,
+  requirementQuerySchema,
+  activityQuerySchema,
+  clientActivityInputSchema,
+  reportExportInputSchema,
+  auditLogQuerySchema,
+  userRoleUpdateSchema,
+  workspaceInputSchema,
+  workspaceInvitationInputSchema
+} from './validation'
+import { CLIENT_ACTIVITY_PERMISSIONS, clientReportedActivity, reportEmailed, reportExported } from './audit'
+import { AuthFactory, type AuthUser, type AuthStateListener, type AccountManagement } from './auth'
+import { assertPermission, permissionsFor } from './permissions'
+import type { Permission, UserRole } from './constants'
+import type { LinkedUser } from './user-identities'
+import type {
+  Project,
+  Requirement,
+  ProjectInput,
+  ProjectUpdate,
+  RequirementInput,
+  RequirementUpdate,
+  DocumentUpdate,
+  ClientActivityInput,
+  ReportExportInput,
+  ProjectQuery,
+  RequirementQuery,
+  ActivityQuery,
+  AuditLogQuery,
+  DocumentDownload,
+  UserInvitationInput,
+  ApiTokenInput,
+  ServiceAccountInput,
+  UploadSession,
+  Workspace
+} from '../types'
 
 const supabaseUrl = `https://${projectId}.supabase.co`
 
+const functionsUrl = APP_CONSTANTS.API_BASE_URL || `${supabaseUrl}/functions/v1/make-server-6545ae52`
+
 export const supabase = createClient(supabaseUrl, publicAnonKey)
 
-export interface AuthUser {
-  id: string
-  email: string
-  name?: string
-  access_token?: string
+// The API server answers a unique violation, such as a file already in the project, with 409; it
+// is raised as the DatabaseError the direct Aurora provider and the demo store raise
+const responseError = (status: number, message?: string): Error =>
+  status === 409 ? new DatabaseError(message || 'Already exists', 'unique_violation') : new Error(message || `HTTP ${status}`)
+
+// Used by SupabaseAuthProvider; sign-up goes through the edge function rather than supabase.auth.signUp
+export const supabaseAuthConfig = {
+  issuer: `${supabaseUrl}/auth/v1`,
+  signUpUrl: `${functionsUrl}/auth/signup`,
+  anonKey: publicAnonKey
 }
 
+export type { AuthUser }
+
+// Sign-in and sessions through the provider chosen by AUTH_PROVIDER (see src/utils/auth)
 export class AuthService {
-  static async signUp(email: string, password: string, name: string) {
-    const response = await fetch(`${supabaseUrl}/functions/v1/make-server-6545ae52/auth/signup`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${publicAnonKey}`
-      },
-      body: JSON.stringify({ email, password, name })
-    })
+  static get usesRedirect(): boolean {
+    return AuthFactory.getInstance().usesRedirect
+  }
 
-    if (!response.ok) {
-      const error = await response.json()
-      throw new Error(error.error || 'Signup failed')
-    }
+  // Email verification, password resets and invitations; null when the identity provider runs them
+  static get accounts(): AccountManagement | null {
+    return AuthFactory.getInstance().accounts
+  }
 
-    return response.json()
+  static async signUp(email: string, password: string, name: string) {
+    return AuthFactory.getInstance().signUp(email, password, name)
   }
 
   static async signIn(email: string, password: string) {
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    })
+    return AuthFactory.getInstance().signIn(email, password)
+  }
 
-    if (error) {
-      throw new Error(error.message)
-    }
+  static async signInWithRedirect(loginHint?: string) {
+    return AuthFactory.getInstance().signInWithRedirect({ loginHint })
+  }
 
-    return data
+  static async completeSignIn(): Promise<AuthUser | null> {
+    const session = await AuthFactory.getInstance().completeSignIn()
+    return session?.user || null
   }
 
   static async signOut() {
-    const { error } = await supabase.auth.signOut()
-    if (error) {
-      throw new Error(error.message)
-    }
+    return AuthFactory.getInstance().signOut()
   }
 
   static async getCurrentUser(): Promise<AuthUser | null> {
-    const { data: { session }, error } = await supabase.auth.getSession()
-    
-    if (error || !session) {
-      return null
-    }
-
-    return {
-      id: session.user.id,
-      email: session.user.email || '',
-      name: session.user.user_metadata?.name,
-      access_token: session.access_token
-    }
+    const session = await AuthFactory.getInstance().getSession()
+    return session?.user || null
   }
 
   static async getAccessToken(): Promise<string | null> {
-    const { data: { session } } = await supabase.auth.getSession()
-    return session?.access_token || null
+    const session = await AuthFactory.getInstance().getSession()
+    return session?.accessToken || null
+  }
+
+  static onAuthStateChange(listener: AuthStateListener): () => void {
+    return AuthFactory.getInstance().onAuthStateChange(listener)
   }
 }
 
 export class APIService {
+  // users row of the signed-in identity for the Aurora routes, linked once per sign-in
+  private static linkedUser: { subject: string; user: Promise<LinkedUser> } | null = null
+
+  // Workspace picked with the header switcher; sent with every request (see WorkspaceContext)
+  private static activeWorkspaceId: string | null = null
+
+  static getActiveWorkspaceId(): string | null {
+    if (this.activeWorkspaceId === null && typeof window !== 'undefined' && window.localStorage) {
+      this.activeWorkspaceId = window.localStorage.getItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.ACTIVE_WORKSPACE)
+    }
+    return this.activeWorkspaceId
+  }
+
+  static setActiveWorkspace(workspaceId: string): void {
+    this.activeWorkspaceId = workspaceId
+    if (APP_CONSTANTS.DEMO_MODE) {
+      DemoStore.setActiveWorkspace(workspaceId)
+    }
+    if (typeof window !== 'undefined' && window.localStorage) {
+      window.localStorage.setItem(APP_CONSTANTS.LOCAL_STORAGE_KEYS.ACTIVE_WORKSPACE, workspaceId)
+    }
+  }
+
+  private static workspaceHeaders(): Record<string, string> {
+    const workspaceId = this.getActiveWorkspaceId()
+    return workspaceId ? { [APP_CONSTANTS.WORKSPACE_HEADER]: workspaceId } : {}
+  }
+
+  private static getLinkedUser(user: AuthUser): Promise<LinkedUser> {
+    if (this.linkedUser?.subject !== user.id) {
+      const linked = AuroraService.linkUser({
+        issuer: AuthFactory.getInstance().issuer,
+        subject: user.id,
+        email: user.email,
+        name: user.name,
+        emailVerified: Boolean(user.emailVerified)
+      })
+      this.linkedUser = { subject: user.id, user: linked }
+      linked.catch(() => {
+        this.linkedUser = null
+      })
+    }
+    return this.linkedUser.user
+  }
+
+  // The signed-in user's token, else API_TOKEN for scripts and pipelines, else the anon key
   private static async getAuthHeaders() {
     const token = await AuthService.getAccessToken()
     return {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token || publicAnonKey}`
+      'Authorization': `Bearer ${token || APP_CONSTANTS.API_TOKEN || publicAnonKey}`,
+      ...this.workspaceHeaders()
     }
   }
 
@@ -92,7 +178,7 @@ export class APIService {
     
     const headers = await this.getAuthHeaders()
     
-    const response = await fetch(`${supabaseUrl}/functions/v1/make-server-6545ae52${endpoint}`, {
+    const response = await fetch(`${functionsUrl}${endpoint}`, {
       ...options,
       headers: {
         ...headers,
@@ -102,7 +188,7 @@ export class APIService {
 
     if (!response.ok) {
       const error = await response.json()
-      throw new Error(error.error || `HTTP ${response.status}`)
+      throw responseError(response.status, error.error)
     }
 
     return response.json()
@@ -112,64 +198,224 @@ export class APIService {
     // Route API requests to Aurora Postgres service
     const method = options.method || 'GET'
     const body = options.body ? JSON.parse(options.body as string) : {}
+    const [path, search = ''] = endpoint.split('?')
     
-    // Get current user for database operations
-    const user = await AuthService.getCurrentUser()
-    if (!user) {
+    // Get current user for database operations; deactivation is read fresh so it applies at once
+    const authUser = await AuthService.getCurrentUser()
+    if (!authUser) {
       throw new Error('Authentication required')
     }
+    const linked = await this.getLinkedUser(authUser)
+    const access = await AuroraService.getUserAccess(linked.id)
+    if (access?.deactivated) {
+      throw new Error('This account has been deactivated')
+    }
+    // The user acts with their role in the workspace a request is about
+    const actingIn = (workspace: Workspace) => ({ ...linked, role: workspace.role, permissions: permissionsFor(workspace.role) })
+
+    if (path === '/workspaces' && method === 'GET') {
+      await AuroraService.resolveWorkspace(linked.id)
+      const workspaces = await AuroraService.getWorkspaces(linked.id)
+      const active = workspaces.find(workspace => workspace.id === this.getActiveWorkspaceId()) || workspaces[0]
+      return { workspaces, activeWorkspaceId: active.id }
+    }
+
+    // Anyone can start a workspace, which they then manage
+    if (path === '/workspaces' && method === 'POST') {
+      const { name } = validate(workspaceInputSchema, body, 'workspace input')
+      return { workspace: await AuroraService.createWorkspace(name, linked.id) }
+    }
+
+    // Members and invitations of the workspace in the path, with the user's role there
+    if (path.startsWith('/workspaces/')) {
+      const [, , workspaceId, collection, itemId] = path.split('/')
+      const workspace = await AuroraService.getMemberWorkspace(workspaceId, linked.id)
+      if (collection === 'members' && method === 'GET') {
+        return { members: await AuroraService.getWorkspaceMembers(workspace.id, linked.id) }
+      }
+      assertPermission(actingIn(workspace).permissions, 'workspace:manage')
+      if (collection === 'members' && itemId && method === 'DELETE') {
+        await AuroraService.removeWorkspaceMember(workspace.id, itemId, linked.id)
+        return { success: true, deletedId: itemId }
+      }
+      if (collection === 'invitations' && method === 'GET') {
+        return { invitations: await AuroraService.getWorkspaceInvitations(workspace.id, linked.id) }
+      }
+      if (collection === 'invitations' && method === 'POST') {
+        const { email } = validate(workspaceInvitationInputSchema, body, 'invitation')
+        return { invitation: await AuroraService.inviteToWorkspace(workspace.id, email, linked.id) }
+      }
+      if (collection === 'invitations' && itemId && method === 'DELETE') {
+        await AuroraService.revokeInvitation(workspace.id, itemId, linked.id)
+        return { success: true, deletedId: itemId }
+      }
+    }
+
+    if (path === '/invitations' && method === 'GET') {
+      return { invitations: await AuroraService.getUserInvitations(linked.email) }
+    }
+
+    if (path.startsWith('/invitations/') && path.endsWith('/accept') && method === 'POST') {
+      return { workspace: await AuroraService.acceptInvitation(path.split('/')[2], linked) }
+    }
+
+    // Everything else acts in the active workspace
+    const workspace = await AuroraService.resolveWorkspace(linked.id, this.getActiveWorkspaceId())
+    const user = actingIn(workspace)
+    const authorize = (permission: Permission) => assertPermission(user.permissions, permission)
+
+    // Project data is only visible inside the active workspace
+    if (path.startsWith('/projects') || path === '/activities' || path === '/reports/export') {
+      return AuroraService.inWorkspace(workspace.id, () =>
+        this.handleAuroraWorkspaceRequest(method, path, search, body, user, workspace.id)
+      )
+    }
+
+    if (path === '/me' && method === 'GET') {
+      const { id, email, name, role, permissions } = user
+      return { user: { id, email, name, role, permissions } }
+    }
+
+    if (path === '/users' && method === 'GET') {
+      authorize('users:manage')
+      return { users: await AuroraService.getTeam(workspace.id) }
+    }
+
+    if (path.startsWith('/users/') && path.endsWith('/role') && method === 'PUT') {
+      authorize('users:manage')
+      const { role } = validate(userRoleUpdateSchema, body, 'role update')
+      return { user: await AuroraService.updateUserRole(workspace.id, path.split('/')[2], role, user.id) }
+    }
+
+    if (path.startsWith('/users/') && (path.endsWith('/deactivate') || path.endsWith('/reactivate')) && method === 'POST') {
+      authorize('users:manage')
+      const [, , userId, action] = path.split('/')
+      if (userId === user.id) {
+        throw new Error('You cannot deactivate yourself')
+      }
+      return { user: await AuroraService.setUserDeactivated(workspace.id, userId, action === 'deactivate', user.id) }
+    }
+
+    // Invitation emails need the API server's mailer
+    if (path === '/users/invitations' && method === 'POST') {
+      throw new Error('Inviting users requires the API server (set API_BASE_URL)')
+    }
+
+    // Only the API server accepts API tokens, so they are managed there
+    if (path.startsWith('/api-tokens') || path.startsWith('/service-accounts')) {
+      throw new Error('API tokens require the API server (set API_BASE_URL)')
+    }
+
+    if (path.startsWith('/audit/')) {
+      authorize('audit:read')
+    }
+
+    if (path === '/audit/log' && method === 'GET') {
+      const query = validate(auditLogQuerySchema, fromSearchParams(search), 'audit log query')
+      const page = await AuroraService.getAuditLog(workspace.id, query)
+      return { entries: page.items, pageInfo: page.pageInfo }
+    }
+
+    if (path === '/audit/verify' && method === 'GET') {
+      return { verification: await AuroraService.verifyAuditLog(workspace.id) }
+    }
 
-    // Route requests based on endpoint
-    if (endpoint === '/projects') {
+    if (path === '/audit/export' && method === 'GET') {
+      return { evidence: await AuroraService.exportAuditEvidence(workspace.id, user.email) }
+    }
+    
+    throw new Error(`Aurora endpoint not implemented: ${endpoint}`)
+  }
+
+  private static async handleAuroraWorkspaceRequest(
+    method: string,
+    path: string,
+    search: string,
+    body: any,
+    user: LinkedUser & { permissions: Permission[] },
+    workspaceId: string
+  ): Promise<any> {
+    const authorize = (permission: Permission) => assertPermission(user.permissions, permission)
+
+    if (path === '/projects') {
       if (method === 'GET') {
-        const projects = await AuroraService.getProjects(user.id)
-        return { projects }
+        const query = validate(projectQuerySchema, fromSearchParams(search), 'project query')
+        const page = await AuroraService.getProjects(workspaceId, query)
+        const overview = await AuroraService.getProjectOverview(workspaceId)
+        return { projects: page.items, pageInfo: page.pageInfo, ...overview }
       } else if (method === 'POST') {
-        const project = await AuroraService.createProject({ ...body, userId: user.id })
+        authorize('project:create')
+        const project = await AuroraService.createProject({ ...body, userId: user.id, workspaceId })
         return { project }
       }
     }
     
-    if (endpoint.startsWith('/projects/') && endpoint.includes('/requirements')) {
-      const projectId = endpoint.split('/')[2]
+    if (path.startsWith('/projects/') && path.endsWith('/requirements')) {
+      const projectId = path.split('/')[2]
       if (method === 'GET') {
-        const requirements = await AuroraService.getRequirements(projectId)
-        return { requirements }
+        const query = validate(requirementQuerySchema, fromSearchParams(search), 'requirement query')
+        const page = await AuroraService.getRequirements(projectId, query)
+        const facets = await AuroraService.getRequirementFacets(projectId)
+        return { requirements: page.items, pageInfo: page.pageInfo, facets }
       } else if (method === 'POST') {
-        const requirement = await AuroraService.createRequirement(projectId, body)
+        authorize('requirement:create')
+        const requirement = await AuroraService.createRequirement(projectId, body, user.id)
         return { requirement }
       }
     }
     
-    if (endpoint === '/activities') {
-      const activities = await AuroraService.getActivities(user.id)
-      return { activities }
+    if (path === '/activities') {
+      if (method === 'GET') {
+        const query = validate(activityQuerySchema, fromSearchParams(search), 'activity query')
+        const page = await AuroraService.getActivities(workspaceId, user.id, query)
+        return { activities: page.items, pageInfo: page.pageInfo }
+      } else if (method === 'POST') {
+        const input = validate(clientActivityInputSchema, body, 'activity input')
+        authorize(CLIENT_ACTIVITY_PERMISSIONS[input.type])
+        const activity = await AuroraService.createActivity({ ...clientReportedActivity(input), userId: user.id, workspaceId })
+        return { activity }
+      }
+    }
+
+    if (path === '/reports/export' && method === 'POST') {
+      authorize('report:export')
+      const data = validate(reportExportInputSchema, body, 'report export')
+      const file = await this.fingerprintReport(data.content)
+      await AuroraService.createActivity({
+        ...reportExported(data.projectId, data.filename, data.format, file),
+        userId: user.id,
+        workspaceId
+      })
+      return { sha256: file.sha256, exportedAt: new Date().toISOString() }
     }
     
-    throw new Error(`Aurora endpoint not implemented: ${endpoint}`)
+    throw new Error(`Aurora endpoint not implemented: ${path}`)
   }
 
   // Projects
-  static async getProjects() {
+  // List endpoints return one page plus `pageInfo.nextCursor`; pass it back as `cursor` for the next one
+  static async getProjects(query: ProjectQuery = {}) {
     if (APP_CONSTANTS.DEMO_MODE) {
-      // Return mock data in demo mode
-      return Promise.resolve({ projects: mockProjects })
+      // Serve projects from the demo store in demo mode
+      const page = DemoStore.getProjects(query)
+      return Promise.resolve({ projects: page.items, pageInfo: page.pageInfo, ...DemoStore.getProjectOverview() })
     }
-    return this.request('/projects')
+    return this.request(`/projects${toSearchParams(query)}`)
+  }
+
+  // Every matching project, fetched page by page, for pickers that need the complete list
+  static async getAllProjects(query: Omit<ProjectQuery, 'cursor' | 'limit'> = {}) {
+    const projects = await collectPages<Project>(async cursor => {
+      const response = await this.getProjects({ ...query, cursor, limit: APP_CONSTANTS.PAGINATION.MAX_PAGE_SIZE })
+      return { items: response.projects, nextCursor: response.pageInfo.nextCursor }
+    })
+    return { projects }
   }
 
-  static async createProject(projectData: any) {
+  static async createProject(projectData: ProjectInput) {
     if (APP_CONSTANTS.DEMO_MODE) {
-      // Simulate project creation in demo mode
-      const newProject = {
-        id: `demo-${Date.now()}`,
-        ...projectData,
-        createdAt: new Date().toISOString(),
-        status: 'active',
-        compliance: 0,
-        progress: 0
-      }
-      return Promise.resolve({ project: newProject })
+      // Store the project so it shows up on every page in demo mode
+      return Promise.resolve({ project: DemoStore.createProject(projectData) })
     }
     return this.request('/projects', {
       method: 'POST',
@@ -177,10 +423,9 @@ export class APIService {
     })
   }
 
-  static async updateProject(projectId: string, updates: any) {
+  static async updateProject(projectId: string, updates: ProjectUpdate) {
     if (APP_CONSTANTS.DEMO_MODE) {
-      // Simulate project update in demo mode
-      return Promise.resolve({ success: true, projectId, updates })
+      return Promise.resolve({ project: DemoStore.updateProject(projectId, updates) })
     }
     return this.request(`/projects/${projectId}`, {
       method: 'PUT',
@@ -190,7 +435,7 @@ export class APIService {
 
   static async deleteProject(projectId: string) {
     if (APP_CONSTANTS.DEMO_MODE) {
-      // Simulate project deletion in demo mode
+      DemoStore.deleteProject(projectId)
       return Promise.resolve({ success: true, deletedId: projectId })
     }
     return this.request(`/projects/${projectId}`, {
@@ -199,24 +444,30 @@ export class APIService {
   }
 
   // Requirements
-  static async getRequirements(projectId: string) {
+  static async getRequirements(projectId: string, query: RequirementQuery = {}) {
     if (APP_CONSTANTS.DEMO_MODE) {
-      // Return mock requirements in demo mode
-      return Promise.resolve({ requirements: mockRequirements })
+      const page = DemoStore.getRequirements(projectId, query)
+      return Promise.resolve({
+        requirements: page.items,
+        pageInfo: page.pageInfo,
+        facets: DemoStore.getRequirementFacets(projectId)
+      })
     }
-    return this.request(`/projects/${projectId}/requirements`)
+    return this.request(`/projects/${projectId}/requirements${toSearchParams(query)}`)
+  }
+
+  // Every matching requirement of a project, for reports and analysis that need the full set
+  static async getAllRequirements(projectId: string, query: Omit<RequirementQuery, 'cursor' | 'limit'> = {}) {
+    const requirements = await collectPages<Requirement>(async cursor => {
+      const response = await this.getRequirements(projectId, { ...query, cursor, limit: APP_CONSTANTS.PAGINATION.MAX_PAGE_SIZE })
+      return { items: response.requirements, nextCursor: response.pageInfo.nextCursor }
+    })
+    return { requirements }
   }
 
-  static async createRequirement(projectId: string, requirementData: any) {
+  static async createRequirement(projectId: string, requirementData: RequirementInput) {
     if (APP_CONSTANTS.DEMO_MODE) {
-      // Simulate requirement creation in demo mode
-      const newRequirement = {
-        id: `demo-req-${Date.now()}`,
-        ...requirementData,
-        lastUpdated: new Date().toISOString(),
-        status: 'pending'
-      }
-      return Promise.resolve({ requirement: newRequirement })
+      return Promise.resolve({ requirement: DemoStore.createRequirement(projectId, requirementData) })
     }
     return this.request(`/projects/${projectId}/requirements`, {
       method: 'POST',
@@ -224,80 +475,459 @@ export class APIService {
     })
   }
 
+  static async updateRequirement(requirementId: string, updates: RequirementUpdate) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return Promise.resolve({ requirement: DemoStore.updateRequirement(requirementId, updates) })
+    }
+    return this.request(`/requirements/${requirementId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates)
+    })
+  }
+
+  static async deleteRequirement(requirementId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      DemoStore.deleteRequirement(requirementId)
+      return Promise.resolve({ success: true, deletedId: requirementId })
+    }
+    return this.request(`/requirements/${requirementId}`, {
+      method: 'DELETE'
+    })
+  }
+
   // Documents
-  static async uploadDocument(file: File, projectId: string, documentType: string) {
+  // XMLHttpRequest rather than fetch, which can't report how much of the body has been sent
+  private static async sendWithProgress(
+    method: string,
+    endpoint: string,
+    body: Blob | FormData,
+    options: Pick<UploadOptions, 'onProgress' | 'signal'> = {}
+  ): Promise<any> {
+    throwIfCancelled(options.signal)
+    const headers: Record<string, string> = await this.getAuthHeaders()
+    delete headers['Content-Type']
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest()
+      const cancel = () => xhr.abort()
+      xhr.open(method, `${functionsUrl}${endpoint}`)
+      Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value))
+      // FormData brings its multipart boundary; chunks are raw bytes
+      if (body instanceof Blob) {
+        xhr.setRequestHeader('Content-Type', 'application/octet-stream')
+      }
+      xhr.upload.onprogress = event => options.onProgress?.({ loaded: event.loaded, total: event.total })
+      xhr.onload = () => {
+        options.signal?.removeEventListener('abort', cancel)
+        let response: any = {}
+        try {
+          response = JSON.parse(xhr.responseText)
+        } catch {
+          // Proxies answer some failures with HTML
+        }
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(response)
+        } else {
+          reject(responseError(xhr.status, response.error))
+        }
+      }
+      xhr.onerror = () => {
+        options.signal?.removeEventListener('abort', cancel)
+        reject(new Error('Upload failed: network error'))
+      }
+      xhr.onabort = () => reject(new UploadCancelledError())
+      options.signal?.addEventListener('abort', cancel, { once: true })
+      xhr.send(body)
+    })
+  }
+
+  // Files up to one chunk go in one request; larger ones in chunks to an upload session, which
+  // options.resumeToken continues after a failure (see src/utils/uploads.ts). A file already in
+  // the project is refused; options.versionOf records it as the next version of a document.
+  static async uploadDocument(file: File, projectId: string, documentType: string, options: DocumentUploadOptions = {}) {
+    const version = { versionOf: options.versionOf, effectiveDate: options.effectiveDate, category: options.category }
     if (APP_CONSTANTS.DEMO_MODE) {
-      // Simulate document upload in demo mode
-      await new Promise(resolve => setTimeout(resolve, 1500)) // Simulate upload delay
-      return Promise.resolve({
-        success: true,
-        document: {
-          id: `demo-doc-${Date.now()}`,
-          filename: file.name,
-          projectId,
-          documentType,
-          uploadedAt: new Date().toISOString(),
-          size: file.size
+      // Demo documents keep the extracted text but not the file
+      throwIfCancelled(options.signal)
+      const data = new Uint8Array(await file.arrayBuffer())
+      const extraction = await extractDocumentText(data, { name: file.name, mimeType: file.type })
+      const hash = await contentHash(data)
+      throwIfCancelled(options.signal)
+      options.onProgress?.({ loaded: file.size, total: file.size })
+      return { success: true, document: DemoStore.createDocument(file, projectId, documentType, extraction, { ...version, contentHash: hash }) }
+    }
+
+    if (file.size <= UPLOAD_CHUNK_BYTES && !options.resumeToken) {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('projectId', projectId)
+      formData.append('documentType', documentType)
+      Object.entries(version).forEach(([field, value]) => {
+        if (value) {
+          formData.append(field, value)
         }
       })
+      return this.sendWithProgress('POST', '/documents/upload', formData, options)
     }
-    
-    const token = await AuthService.getAccessToken()
-    const formData = new FormData()
-    formData.append('file', file)
-    formData.append('projectId', projectId)
-    formData.append('documentType', documentType)
-
-    const response = await fetch(`${supabaseUrl}/functions/v1/make-server-6545ae52/documents/upload`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token || publicAnonKey}`
-      },
-      body: formData
-    })
 
-    if (!response.ok) {
-      const error = await response.json()
-      throw new Error(error.error || 'Upload failed')
+    const session = async (endpoint: string, init?: RequestInit): Promise<UploadSession> => (await this.request(endpoint, init)).upload
+    const upload = options.resumeToken
+      ? await session(`/documents/uploads/${options.resumeToken}`)
+      : await session('/documents/uploads', {
+        method: 'POST',
+        body: JSON.stringify({ projectId, documentType, filename: file.name, size: file.size, mimeType: file.type || undefined, ...version })
+      })
+    options.onResumeToken?.(upload.id)
+
+    try {
+      await sendInChunks(file, {
+        offset: async () => (await session(`/documents/uploads/${upload.id}`)).offset,
+        send: async (offset, chunk, onProgress) => {
+          const response = await this.sendWithProgress('PATCH', `/documents/uploads/${upload.id}?offset=${offset}`, chunk, {
+            signal: options.signal,
+            onProgress: progress => onProgress(progress.loaded)
+          })
+          return response.upload.offset
+        }
+      }, options)
+    } catch (error) {
+      if (error instanceof UploadCancelledError) {
+        await this.request(`/documents/uploads/${upload.id}`, { method: 'DELETE' }).catch(() => undefined)
+      }
+      throw error
     }
+    return this.request(`/documents/uploads/${upload.id}/complete`, { method: 'POST' })
+  }
 
-    return response.json()
+  // Extracts the document's text again from its stored file
+  static async reprocessDocument(documentId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      // Demo documents have no stored file, so their text stays as extracted on upload
+      return Promise.resolve({ document: DemoStore.getDocument(documentId) })
+    }
+    return this.request(`/documents/${documentId}/reprocess`, {
+      method: 'POST'
+    })
   }
 
   static async getDocuments(projectId: string) {
     if (APP_CONSTANTS.DEMO_MODE) {
-      // Return mock documents in demo mode
-      return Promise.resolve({
-        documents: [
-          {
-            id: 'demo-doc-1',
-            filename: 'privacy_policy_v2.1.pdf',
-            projectId,
-            documentType: 'Privacy Policy',
-            uploadedAt: '2024-01-20T14:22:00Z',
-            size: 245760
-          },
-          {
-            id: 'demo-doc-2',
-            filename: 'security_controls.docx',
-            projectId,
-            documentType: 'Security Controls',
-            uploadedAt: '2024-01-19T10:15:00Z',
-            size: 156892
-          }
-        ]
-      })
+      return Promise.resolve({ documents: DemoStore.getDocuments(projectId) })
     }
     return this.request(`/projects/${projectId}/documents`)
   }
 
+  static async getDocument(documentId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return Promise.resolve({ document: DemoStore.getDocument(documentId) })
+    }
+    return this.request(`/documents/${documentId}`)
+  }
+
+  // Every version of the document, newest first
+  static async getDocumentVersions(documentId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return Promise.resolve({ versions: DemoStore.getDocumentVersions(documentId) })
+    }
+    return this.request(`/documents/${documentId}/versions`)
+  }
+
+  static async makeCurrentVersion(documentId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return Promise.resolve({ document: DemoStore.makeCurrentVersion(documentId) })
+    }
+    return this.request(`/documents/${documentId}/current`, {
+      method: 'POST'
+    })
+  }
+
+  static async getDocumentDownloadUrl(documentId: string): Promise<DocumentDownload> {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      // Demo documents only keep their text, so that is what downloads
+      const document = DemoStore.getDocument(documentId)
+      return { url: URL.createObjectURL(new Blob([document.content], { type: 'text/plain' })) }
+    }
+    return this.request(`/documents/${documentId}/download`)
+  }
+
+  static async updateDocument(documentId: string, updates: DocumentUpdate) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return Promise.resolve({ document: DemoStore.updateDocument(documentId, updates) })
+    }
+    return this.request(`/documents/${documentId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates)
+    })
+  }
+
+  static async deleteDocument(documentId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      DemoStore.deleteDocument(documentId)
+      return Promise.resolve({ success: true, deletedId: documentId })
+    }
+    return this.request(`/documents/${documentId}`, {
+      method: 'DELETE'
+    })
+  }
+
   // Activities
-  static async getActivities() {
+  static async getActivities(query: ActivityQuery = {}) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      const page = DemoStore.getActivities(query)
+      return Promise.resolve({ activities: page.items, pageInfo: page.pageInfo })
+    }
+    return this.request(`/activities${toSearchParams(query)}`)
+  }
+
+  // Only for the events the browser reports itself (see ClientActivityInput)
+  static async createActivity(activityData: ClientActivityInput) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      DemoStore.authorize(CLIENT_ACTIVITY_PERMISSIONS[activityData.type])
+      return Promise.resolve({ activity: DemoStore.createActivity(clientReportedActivity(activityData)) })
+    }
+    return this.request('/activities', {
+      method: 'POST',
+      body: JSON.stringify(activityData)
+    })
+  }
+
+  // Signed-in user's role and permissions
+  static async getProfile() {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { user: DemoStore.getProfile() }
+    }
+    return this.request('/me')
+  }
+
+  // Team members and their roles (QA managers only)
+  static async getTeam() {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { users: DemoStore.getTeam() }
+    }
+    return this.request('/users')
+  }
+
+  static async updateUserRole(userId: string, role: UserRole) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { user: DemoStore.updateUserRole(userId, role) }
+    }
+    return this.request(`/users/${userId}/role`, {
+      method: 'PUT',
+      body: JSON.stringify({ role })
+    })
+  }
+
+  // Creates the account and emails the invitee a link to choose a password
+  static async inviteUser(invitation: UserInvitationInput) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { user: DemoStore.inviteUser(invitation) }
+    }
+    return this.request('/users/invitations', {
+      method: 'POST',
+      body: JSON.stringify(invitation)
+    })
+  }
+
+  static async deactivateUser(userId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { user: DemoStore.setUserDeactivated(userId, true) }
+    }
+    return this.request(`/users/${userId}/deactivate`, { method: 'POST' })
+  }
+
+  static async reactivateUser(userId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { user: DemoStore.setUserDeactivated(userId, false) }
+    }
+    return this.request(`/users/${userId}/reactivate`, { method: 'POST' })
+  }
+
+  // Personal API tokens; created and rotated tokens carry the secret once
+  static async getApiTokens() {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { tokens: DemoStore.getApiTokens() }
+    }
+    return this.request('/api-tokens')
+  }
+
+  static async createApiToken(input: ApiTokenInput) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { token: DemoStore.createApiToken(input) }
+    }
+    return this.request('/api-tokens', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    })
+  }
+
+  static async rotateApiToken(tokenId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { token: DemoStore.rotateApiToken(tokenId) }
+    }
+    return this.request(`/api-tokens/${tokenId}/rotate`, { method: 'POST' })
+  }
+
+  static async revokeApiToken(tokenId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      DemoStore.revokeApiToken(tokenId)
+      return { success: true, deletedId: tokenId }
+    }
+    return this.request(`/api-tokens/${tokenId}`, { method: 'DELETE' })
+  }
+
+  // Service accounts of the active workspace and their tokens
+  static async getServiceAccounts() {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { serviceAccounts: DemoStore.getServiceAccounts() }
+    }
+    return this.request('/service-accounts')
+  }
+
+  static async createServiceAccount(input: ServiceAccountInput) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { serviceAccount: DemoStore.createServiceAccount(input) }
+    }
+    return this.request('/service-accounts', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    })
+  }
+
+  static async deleteServiceAccount(accountId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      DemoStore.deleteServiceAccount(accountId)
+      return { success: true, deletedId: accountId }
+    }
+    return this.request(`/service-accounts/${accountId}`, { method: 'DELETE' })
+  }
+
+  static async createServiceAccountToken(accountId: string, input: ApiTokenInput) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { token: DemoStore.createApiToken(input, accountId) }
+    }
+    return this.request(`/service-accounts/${accountId}/tokens`, {
+      method: 'POST',
+      body: JSON.stringify(input)
+    })
+  }
+
+  static async rotateServiceAccountToken(accountId: string, tokenId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { token: DemoStore.rotateApiToken(tokenId, accountId) }
+    }
+    return this.request(`/service-accounts/${accountId}/tokens/${tokenId}/rotate`, { method: 'POST' })
+  }
+
+  static async revokeServiceAccountToken(accountId: string, tokenId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      DemoStore.revokeApiToken(tokenId, accountId)
+      return { success: true, deletedId: tokenId }
+    }
+    return this.request(`/service-accounts/${accountId}/tokens/${tokenId}`, { method: 'DELETE' })
+  }
+
+  // Workspaces the user belongs to and the active one
+  static async getWorkspaces() {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return DemoStore.getWorkspaces()
+    }
+    return this.request('/workspaces')
+  }
+
+  static async createWorkspace(name: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { workspace: DemoStore.createWorkspace(name) }
+    }
+    return this.request('/workspaces', {
+      method: 'POST',
+      body: JSON.stringify({ name })
+    })
+  }
+
+  static async getWorkspaceMembers(workspaceId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { members: DemoStore.getWorkspaceMembers(workspaceId) }
+    }
+    return this.request(`/workspaces/${workspaceId}/members`)
+  }
+
+  static async removeWorkspaceMember(workspaceId: string, userId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      DemoStore.removeWorkspaceMember(workspaceId, userId)
+      return { success: true, deletedId: userId }
+    }
+    return this.request(`/workspaces/${workspaceId}/members/${userId}`, {
+      method: 'DELETE'
+    })
+  }
+
+  static async getWorkspaceInvitations(workspaceId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { invitations: DemoStore.getWorkspaceInvitations(workspaceId) }
+    }
+    return this.request(`/workspaces/${workspaceId}/invitations`)
+  }
+
+  static async inviteToWorkspace(workspaceId: string, email: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { invitation: DemoStore.inviteToWorkspace(workspaceId, email) }
+    }
+    return this.request(`/workspaces/${workspaceId}/invitations`, {
+      method: 'POST',
+      body: JSON.stringify({ email })
+    })
+  }
+
+  static async revokeInvitation(workspaceId: string, invitationId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      DemoStore.revokeInvitation(workspaceId, invitationId)
+      return { success: true, deletedId: invitationId }
+    }
+    return this.request(`/workspaces/${workspaceId}/invitations/${invitationId}`, {
+      method: 'DELETE'
+    })
+  }
+
+  // Pending invitations addressed to the signed-in user
+  static async getMyInvitations() {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { invitations: DemoStore.getMyInvitations() }
+    }
+    return this.request('/invitations')
+  }
+
+  static async acceptInvitation(invitationId: string) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { workspace: DemoStore.acceptInvitation(invitationId) }
+    }
+    return this.request(`/invitations/${invitationId}/accept`, {
+      method: 'POST'
+    })
+  }
+
+  // Audit log of the active workspace (QA managers), or all of it for the auditors listed in the
+  // API server's AUDIT_ADMIN_EMAILS
+  static async getAuditLog(query: AuditLogQuery = {}) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      const page = await DemoStore.getAuditLog(query)
+      return { entries: page.items, pageInfo: page.pageInfo }
+    }
+    return this.request(`/audit/log${toSearchParams(query)}`)
+  }
+
+  static async verifyAuditLog() {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      return { verification: await DemoStore.verifyAuditLog() }
+    }
+    return this.request('/audit/verify')
+  }
+
+  // Signed evidence bundle: the entries, their verification and an Ed25519 signature
+  static async exportAuditEvidence() {
     if (APP_CONSTANTS.DEMO_MODE) {
-      // Return mock activities in demo mode
-      return Promise.resolve({ activities: mockActivities })
+      return { evidence: await DemoStore.exportAuditEvidence() }
     }
-    return this.request('/activities')
+    return this.request('/audit/export')
   }
 
   // Email Reports
@@ -310,7 +940,9 @@ export class APIService {
   }) {
     if (APP_CONSTANTS.DEMO_MODE) {
       // Simulate email sending in demo mode
+      DemoStore.authorize('report:email')
       await new Promise(resolve => setTimeout(resolve, 1500))
+      DemoStore.createActivity(reportEmailed(emailData.projectId, emailData))
       return Promise.resolve({
         success: true,
         messageId: `demo-email-${Date.now()}`,
@@ -323,7 +955,26 @@ export class APIService {
     })
   }
 
-  // AI Provider Integration
+  // Report exports: the report is fingerprinted and recorded before it is offered for download
+  static async exportReport(exportData: ReportExportInput) {
+    if (APP_CONSTANTS.DEMO_MODE) {
+      DemoStore.authorize('report:export')
+      const file = await this.fingerprintReport(exportData.content)
+      DemoStore.createActivity(reportExported(exportData.projectId, exportData.filename, exportData.format, file))
+      return { sha256: file.sha256, exportedAt: new Date().toISOString() }
+    }
+    return this.request('/reports/export', {
+      method: 'POST',
+      body: JSON.stringify(exportData)
+    })
+  }
+
+  private static async fingerprintReport(content: string): Promise<{ sha256: string; size: number }> {
+    const data = new TextEncoder().encode(content)
+    return { sha256: await contentHash(data), size: data.length }
+  }
+
+  // AI Provider Integration; the server records each run on the project's audit trail
   static async callAIProvider(requestData: {
     provider: string;
     model: string;
@@ -331,9 +982,12 @@ export class APIService {
     temperature: number;
     maxTokens: number;
     projectId: string;
+    analysisType: string;
+    framework?: string;
   }) {
     if (APP_CONSTANTS.DEMO_MODE) {
       // Simulate AI provider call in demo mode
+      DemoStore.authorize('ai:use')
       await new Promise(resolve => setTimeout(resolve, 1200))
       return {
         content: `Demo AI response for ${requestData.provider} ${requestData.model}. This would be the actual AI response in production.`,
@@ -0,0 +1,139 @@
+import { UPLOAD_CHUNK_BYTES, type ResumableUpload, type StorageProvider } from './storage/storage-provider'
+import type { DocumentVersionInput } from '../types'
+
+// Sending files with real progress, in chunks that survive a dropped connection, a few at a time.
+// APIService sends chunks to the API server's upload sessions; the direct Aurora provider sends
+// them straight to the storage provider. Files up to one chunk go in a single request.
+
+export interface UploadProgress {
+  loaded: number
+  total: number
+}
+
+export interface UploadOptions {
+  onProgress?: (progress: UploadProgress) => void
+  // Aborting cancels the upload and discards what was sent
+  signal?: AbortSignal
+  // Continues an upload that failed, from where it stopped: the token onResumeToken reported
+  resumeToken?: string
+  onResumeToken?: (token: string) => void
+}
+
+// uploadDocument() also takes the version the file is (see src/utils/document-versions.ts)
+export type DocumentUploadOptions = UploadOptions & DocumentVersionInput
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled')
+    this.name = 'UploadCancelledError'
+  }
+}
+
+// Where chunks go: the receiving end reports how much it has and takes the next chunk
+export interface ChunkTarget {
+  offset(): Promise<number>
+  // Resolves to the offset of the next chunk; onProgress gets the bytes of this one sent so far
+  send(offset: number, chunk: Blob, onProgress: (loaded: number) => void): Promise<number>
+}
+
+// A failed chunk is sent again after 1, 2 and 4 seconds before the upload gives up
+const CHUNK_RETRIES = 3
+
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new UploadCancelledError()
+  }
+}
+
+const pause = (milliseconds: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel)
+      resolve()
+    }, milliseconds)
+    const cancel = () => {
+      clearTimeout(timer)
+      reject(new UploadCancelledError())
+    }
+    signal?.addEventListener('abort', cancel, { once: true })
+  })
+
+// Sends the file from wherever the target says it stopped. After a failure the target is asked
+// again, since the chunk may have arrived before the connection dropped.
+export const sendInChunks = async (file: Blob, target: ChunkTarget, options: UploadOptions = {}): Promise<void> => {
+  const { onProgress, signal } = options
+  const total = file.size
+  let offset: number | null = null
+  let failures = 0
+
+  while (offset === null || offset < total) {
+    throwIfCancelled(signal)
+    try {
+      if (offset === null) {
+        offset = await target.offset()
+        onProgress?.({ loaded: offset, total })
+        continue
+      }
+      const start: number = offset
+      const chunk = file.slice(start, start + UPLOAD_CHUNK_BYTES)
+      offset = await target.send(start, chunk, loaded => onProgress?.({ loaded: start + loaded, total }))
+      onProgress?.({ loaded: offset, total })
+      failures = 0
+    } catch (error) {
+      throwIfCancelled(signal)
+      if (error instanceof UploadCancelledError || ++failures > CHUNK_RETRIES) {
+        throw error
+      }
+      await pause(1000 * 2 ** (failures - 1), signal)
+      offset = null
+    }
+  }
+}
+
+// Stores a file with a storage provider from the browser. Resolves to the key it was stored
+// under, which for a resumed upload is the one it was started with.
+export const putFile = async (
+  storage: StorageProvider,
+  key: string,
+  file: File,
+  options: UploadOptions = {}
+): Promise<string> => {
+  const { onProgress, signal } = options
+  throwIfCancelled(signal)
+  if (file.size <= UPLOAD_CHUNK_BYTES && !options.resumeToken) {
+    await storage.put(key, new Uint8Array(await file.arrayBuffer()), { contentType: file.type })
+    throwIfCancelled(signal)
+    onProgress?.({ loaded: file.size, total: file.size })
+    return key
+  }
+
+  const upload: ResumableUpload = options.resumeToken
+    ? JSON.parse(options.resumeToken)
+    : await storage.startUpload(key, file.size, { contentType: file.type })
+  options.onResumeToken?.(JSON.stringify(upload))
+  try {
+    await sendInChunks(file, {
+      offset: () => storage.uploadedBytes(upload),
+      send: async (offset, chunk) => storage.uploadChunk(upload, offset, new Uint8Array(await chunk.arrayBuffer()))
+    }, options)
+  } catch (error) {
+    if (error instanceof UploadCancelledError) {
+      await storage.abortUpload(upload).catch(() => undefined)
+    }
+    throw error
+  }
+  await storage.completeUpload(upload)
+  return upload.key
+}
+
+// Runs the task for every item, at most `limit` at a time; one failing doesn't stop the others
+export const runWithLimit = async <T>(items: T[], limit: number, task: (item: T) => Promise<unknown>): Promise<void> => {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++]
+      await task(item).catch(() => undefined)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker))
+}
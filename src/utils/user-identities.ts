@@ -0,0 +1,88 @@
+import { DatabaseError, type QueryResult } from './aurora-service'
+
+// Users who sign in through an external identity provider get a row in `users`, found again
+// by issuer and subject (migration 007). Provider user ids can't be used directly: Cognito and
+// Keycloak subjects needn't be UUIDs, and the same subject may come from different issuers.
+
+type RunQuery = (sql: string, params?: any[]) => Promise<QueryResult>
+
+export interface ExternalIdentity {
+  // Token issuer, e.g. the Cognito user pool URL or 'supabase'
+  issuer: string
+  subject: string
+  email: string
+  name?: string
+  // Whether the provider vouches that the email is the user's. Users whose email isn't verified
+  // can sign in, but can't take over an existing account or accept workspace invitations.
+  emailVerified: boolean
+}
+
+export interface LinkedUser {
+  id: string
+  email: string
+  name?: string
+}
+
+const toLinkedUser = (row: any): LinkedUser => ({ id: row.id, email: row.email, name: row.name || undefined })
+
+// A new identity with a verified email adopts an existing account with the same email that
+// isn't linked to another sign-in yet. Roles come with workspace memberships (see ./user-roles).
+// A changed email stays verified only if the provider verified it.
+export const linkIdentity = async (query: RunQuery, identity: ExternalIdentity): Promise<LinkedUser> => {
+  const email = identity.email.trim().toLowerCase()
+
+  // Known identity; keep email and name in step with the provider
+  const known = await query(
+    'SELECT id, email, name, email_verified_at FROM users WHERE auth_issuer = $1 AND auth_subject = $2',
+    [identity.issuer, identity.subject]
+  )
+  if (known.rows.length > 0) {
+    const row = known.rows[0]
+    if ((email && row.email !== email) || (identity.name && row.name !== identity.name) || (identity.emailVerified && !row.email_verified_at)) {
+      const updated = await query(
+        `UPDATE users
+         SET email = COALESCE(NULLIF($2, ''), email), name = COALESCE($3, name),
+             email_verified_at = CASE
+               WHEN $4 THEN COALESCE(email_verified_at, NOW())
+               WHEN $2 = '' OR email = $2 THEN email_verified_at
+             END,
+             updated_at = NOW()
+         WHERE id = $1
+         RETURNING id, email, name`,
+        [row.id, email, identity.name || null, identity.emailVerified]
+      )
+      return toLinkedUser(updated.rows[0])
+    }
+    return toLinkedUser(row)
+  }
+
+  if (!email) {
+    throw new DatabaseError('The identity provider did not share an email address for this user', 'invalid_input')
+  }
+
+  // The second condition covers two first requests from the same new user racing each other.
+  // A verified email also completes a pending user invitation.
+  const linked = await query(
+    `INSERT INTO users (email, name, auth_issuer, auth_subject, email_verified_at)
+     VALUES ($1, $2, $3, $4, CASE WHEN $5 THEN NOW() END)
+     ON CONFLICT (email) DO UPDATE
+       SET auth_issuer = EXCLUDED.auth_issuer,
+           auth_subject = EXCLUDED.auth_subject,
+           name = COALESCE(users.name, EXCLUDED.name),
+           email_verified_at = COALESCE(users.email_verified_at, EXCLUDED.email_verified_at),
+           updated_at = NOW()
+       WHERE (users.auth_subject IS NULL AND $5)
+          OR (users.auth_issuer = EXCLUDED.auth_issuer AND users.auth_subject = EXCLUDED.auth_subject)
+     RETURNING id, email, name`,
+    [email, identity.name || null, identity.issuer, identity.subject, identity.emailVerified]
+  )
+  if (linked.rows.length === 0) {
+    throw new DatabaseError(
+      identity.emailVerified
+        ? `${email} already belongs to a user who signs in another way`
+        : `${email} already has an account; verify the address with your identity provider to sign in to it`,
+      'unique_violation'
+    )
+  }
+  return toLinkedUser(linked.rows[0])
+}
@@ -0,0 +1,119 @@
+import { DatabaseError, type QueryResult } from './aurora-service'
+import { mapTeamMemberRow } from './row-mappers'
+import type { UserRole } from './constants'
+import type { TeamMember } from '../types'
+
+// Team list, role assignment and deactivation, shared by AuroraService and the API server (see ./permissions).
+// The team is the people in a workspace: roles and deactivation belong to the membership
+// (migration 017), so managing one workspace's team never touches another's. Service accounts
+// (migration 011) are managed with their workspace's API tokens, not on the team.
+
+type RunQuery = (sql: string, params?: any[]) => Promise<QueryResult>
+
+// People in workspace $1 for mapTeamMemberRow. Members are deactivated when their membership or
+// their whole account is; invited users have neither a password nor an identity provider sign-in
+// until they accept (migration 010).
+const TEAM_MEMBER_SELECT = `
+  SELECT u.id, u.email, u.name, m.role, u.created_at,
+    CASE
+      WHEN m.deactivated_at IS NOT NULL OR u.deactivated_at IS NOT NULL THEN 'deactivated'
+      WHEN u.email_verified_at IS NOT NULL THEN 'active'
+      WHEN u.password_hash IS NULL AND u.auth_subject IS NULL THEN 'invited'
+      ELSE 'unverified'
+    END AS status
+  FROM workspace_members m
+  JOIN users u ON u.id = m.user_id
+  WHERE m.workspace_id = $1 AND u.account_type = 'user'`
+
+export const getTeamMembers = async (query: RunQuery, workspaceId: string): Promise<TeamMember[]> => {
+  const result = await query(`${TEAM_MEMBER_SELECT} ORDER BY u.created_at, u.email`, [workspaceId])
+  return result.rows.map(mapTeamMemberRow)
+}
+
+// not_found for people outside the workspace
+export const getTeamMember = async (query: RunQuery, workspaceId: string, userId: string): Promise<TeamMember> => {
+  const result = await query(`${TEAM_MEMBER_SELECT} AND u.id = $2`, [workspaceId, userId])
+  if (result.rows.length === 0) {
+    throw new DatabaseError('User not found', 'not_found')
+  }
+  return mapTeamMemberRow(result.rows[0])
+}
+
+// Run inside a transaction. Adds the user to the workspace with `role`, or gives a member that role.
+export const addTeamMember = async (query: RunQuery, workspaceId: string, userId: string, role: UserRole): Promise<TeamMember> => {
+  await query(
+    `INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, $3)
+     ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role`,
+    [workspaceId, userId, role]
+  )
+  return getTeamMember(query, workspaceId, userId)
+}
+
+// Whether the account may be used at all; null for users without a row. Roles are per workspace
+// (see findMemberWorkspace in ./workspaces).
+export const getUserAccess = async (query: RunQuery, userId: string): Promise<{ deactivated: boolean } | null> => {
+  const result = await query('SELECT deactivated_at FROM users WHERE id = $1', [userId])
+  if (result.rows.length === 0) {
+    return null
+  }
+  return { deactivated: result.rows[0].deactivated_at !== null }
+}
+
+// Deactivated managers and service accounts can't assign roles, so they don't count towards the workspace's last one
+export const assertOtherActiveManager = async (query: RunQuery, workspaceId: string, userId: string): Promise<void> => {
+  const managers = await query(
+    `SELECT COUNT(*)::int AS total
+     FROM workspace_members m
+     JOIN users u ON u.id = m.user_id
+     WHERE m.workspace_id = $1 AND m.role = 'qa-manager' AND m.deactivated_at IS NULL
+       AND u.account_type = 'user' AND u.deactivated_at IS NULL AND u.id <> $2`,
+    [workspaceId, userId]
+  )
+  if (managers.rows[0].total < 1) {
+    throw new DatabaseError('The workspace needs at least one QA manager', 'check_violation')
+  }
+}
+
+// Run inside a transaction. The workspace row lock serialises role changes, so two managers
+// demoting each other at once can't leave the workspace without one.
+export const changeUserRole = async (
+  query: RunQuery,
+  workspaceId: string,
+  userId: string,
+  role: UserRole
+): Promise<{ before: TeamMember; after: TeamMember }> => {
+  await query('SELECT id FROM workspaces WHERE id = $1 FOR UPDATE', [workspaceId])
+  const before = await getTeamMember(query, workspaceId, userId)
+
+  if (before.role === 'qa-manager' && role !== 'qa-manager' && before.status !== 'deactivated') {
+    await assertOtherActiveManager(query, workspaceId, userId)
+  }
+
+  await query('UPDATE workspace_members SET role = $3 WHERE workspace_id = $1 AND user_id = $2', [workspaceId, userId, role])
+  return { before, after: await getTeamMember(query, workspaceId, userId) }
+}
+
+// Run inside a transaction. Deactivated members keep their data and audit trail but can't use the
+// workspace, by sign-in or API token; reactivating restores their previous role.
+export const setUserDeactivated = async (
+  query: RunQuery,
+  workspaceId: string,
+  userId: string,
+  deactivated: boolean
+): Promise<{ before: TeamMember; after: TeamMember }> => {
+  await query('SELECT id FROM workspaces WHERE id = $1 FOR UPDATE', [workspaceId])
+  const before = await getTeamMember(query, workspaceId, userId)
+  if ((before.status === 'deactivated') === deactivated) {
+    throw new DatabaseError(`${before.email} is already ${deactivated ? 'deactivated' : 'active'}`, 'check_violation')
+  }
+  if (deactivated && before.role === 'qa-manager') {
+    await assertOtherActiveManager(query, workspaceId, userId)
+  }
+
+  await query(
+    `UPDATE workspace_members SET deactivated_at = ${deactivated ? 'NOW()' : 'NULL'}
+     WHERE workspace_id = $1 AND user_id = $2`,
+    [workspaceId, userId]
+  )
+  return { before, after: await getTeamMember(query, workspaceId, userId) }
+}
@@ -0,0 +1,475 @@
+import { z } from 'zod'
+import { APP_CONSTANTS, REQUIREMENT_STATUSES, PRIORITY_LEVELS, REPORT_STATUSES, ACTIVITY_TYPES, USER_ROLES, PERMISSIONS, ACCOUNT_STATUSES, API_TOKEN_SCOPES, DOCUMENT_EXTRACTION_STATUSES, DOCUMENT_NODE_TYPES } from './constants'
+import type {
+  Project,
+  Requirement,
+  Document,
+  DocumentNode,
+  Activity,
+  ProjectInput,
+  ProjectUpdate,
+  RequirementInput,
+  RequirementUpdate,
+  DocumentUpdate,
+  DocumentVersionInput,
+  UploadSessionInput,
+  ClientActivityInput,
+  ReportExportInput,
+  UserProfile,
+  TeamMember,
+  UserRoleUpdate,
+  UserInvitationInput,
+  AccountInvitation,
+  InvitationAcceptance,
+  PasswordReset,
+  ApiToken,
+  ApiTokenInput,
+  ServiceAccount,
+  ServiceAccountInput,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  WorkspaceInput,
+  WorkspaceInvitationInput,
+  ProjectQuery,
+  RequirementQuery,
+  ActivityQuery,
+  AuditLogQuery,
+  PageInfo,
+  ProjectOverview,
+  RequirementFacets
+} from '../types'
+
+// Runtime schemas for the shapes in src/types. Objects are strict so snake_case
+// rows or misspelled fields are rejected instead of rendering as undefined.
+
+export const commentSchema = z.object({
+  id: z.number(),
+  author: z.string(),
+  content: z.string(),
+  timestamp: z.coerce.date(),
+  avatar: z.string().optional()
+}).strict()
+
+export const projectSchema: z.ZodType<Project> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  createdAt: z.string(),
+  documentType: z.string(),
+  assignee: z.string(),
+  status: z.enum(REPORT_STATUSES),
+  compliance: z.number(),
+  lastActivity: z.string(),
+  documentTypes: z.array(z.string()).optional(),
+  progress: z.number().optional(),
+  workspaceId: z.string().optional()
+}).strict()
+
+export const requirementSchema: z.ZodType<Requirement, z.ZodTypeDef, unknown> = z.object({
+  id: z.union([z.string(), z.number()]),
+  title: z.string(),
+  description: z.string(),
+  fullDescription: z.string().optional(),
+  category: z.string(),
+  priority: z.enum(PRIORITY_LEVELS),
+  status: z.enum(REQUIREMENT_STATUSES),
+  sourceDocument: z.string().optional(),
+  sourceSection: z.string().optional(),
+  sourceStart: z.number().int().optional(),
+  sourceEnd: z.number().int().optional(),
+  sourcePage: z.number().int().optional(),
+  assignee: z.string().optional(),
+  dueDate: z.string().optional(),
+  notes: z.string().optional(),
+  evidenceCount: z.number().optional(),
+  commentsCount: z.number().optional(),
+  confidence: z.number().optional(),
+  evidence: z.string().optional(),
+  gaps: z.array(z.string()).optional(),
+  recommendations: z.array(z.string()).optional(),
+  lastUpdated: z.string().optional(),
+  section: z.string().optional(),
+  comments: z.array(commentSchema).optional()
+}).strict()
+
+const documentNodeSchema: z.ZodType<DocumentNode> = z.lazy(() => z.object({
+  id: z.string(),
+  type: z.enum(DOCUMENT_NODE_TYPES),
+  number: z.string().optional(),
+  title: z.string(),
+  level: z.number().int(),
+  start: z.number().int(),
+  end: z.number().int(),
+  page: z.number().int(),
+  endPage: z.number().int(),
+  children: z.array(documentNodeSchema),
+  rows: z.array(z.array(z.string())).optional()
+}).strict())
+
+export const documentSchema: z.ZodType<Document> = z.object({
+  id: z.string(),
+  title: z.string(),
+  type: z.enum(['policy', 'program']),
+  content: z.string(),
+  uploadDate: z.string(),
+  size: z.number().optional(),
+  name: z.string().optional(),
+  projectId: z.string().optional(),
+  mimeType: z.string().optional(),
+  extractionStatus: z.enum(DOCUMENT_EXTRACTION_STATUSES).optional(),
+  extractionError: z.string().optional(),
+  pages: z.array(z.object({
+    number: z.number().int(),
+    start: z.number().int(),
+    end: z.number().int(),
+    ocrConfidence: z.number().min(0).max(100).optional()
+  }).strict()).optional(),
+  structure: z.array(documentNodeSchema).optional(),
+  extractedAt: z.string().optional(),
+  contentHash: z.string().optional(),
+  lineageId: z.string().optional(),
+  version: z.number().int().positive().optional(),
+  isCurrent: z.boolean().optional(),
+  documentTitle: z.string().optional(),
+  owner: z.string().optional(),
+  documentVersion: z.string().optional(),
+  effectiveDate: z.string().optional(),
+  approvalDate: z.string().optional(),
+  nextReviewDate: z.string().optional(),
+  uploadedBy: z.string().optional(),
+  uploaderName: z.string().optional(),
+  category: z.string().optional()
+}).strict()
+
+export const activitySchema: z.ZodType<Activity> = z.object({
+  id: z.string(),
+  type: z.enum(ACTIVITY_TYPES),
+  user: z.string(),
+  action: z.string(),
+  target: z.string(),
+  title: z.string(),
+  description: z.string(),
+  details: z.string().optional(),
+  projectName: z.string().optional(),
+  projectId: z.union([z.string(), z.number()]).optional(),
+  reportId: z.string().optional(),
+  timestamp: z.string(),
+  changes: z.array(z.object({
+    field: z.string(),
+    before: z.unknown(),
+    after: z.unknown()
+  }).strict()).optional(),
+  workspaceId: z.string().optional()
+}).strict()
+
+// Inputs
+
+export const projectInputSchema: z.ZodType<ProjectInput> = z.object({
+  name: z.string().trim().min(1, 'Project name is required'),
+  description: z.string().optional(),
+  documentType: z.string().optional(),
+  assignee: z.string().optional(),
+  status: z.enum(REPORT_STATUSES).optional()
+}).strict()
+
+export const projectUpdateSchema: z.ZodType<ProjectUpdate> = z.object({
+  name: z.string().trim().min(1, 'Project name is required').optional(),
+  description: z.string().optional(),
+  documentType: z.string().optional(),
+  assignee: z.string().optional(),
+  status: z.enum(REPORT_STATUSES).optional(),
+  compliance: z.number().min(0).max(100).optional(),
+  progress: z.number().min(0).max(100).optional()
+}).strict()
+
+const requirementFields = {
+  title: z.string().trim().min(1, 'Requirement title is required'),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  priority: z.enum(PRIORITY_LEVELS).optional(),
+  status: z.enum(REQUIREMENT_STATUSES).optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  evidence: z.string().optional(),
+  gaps: z.array(z.string()).optional(),
+  recommendations: z.array(z.string()).optional(),
+  section: z.string().optional(),
+  assignee: z.string().optional(),
+  notes: z.string().optional(),
+  // Resolved against the document's structure when the requirement is saved
+  sourceDocument: z.string().min(1).optional(),
+  sourceSection: z.string().min(1).max(100).optional(),
+  sourceStart: z.number().int().min(0).optional(),
+  sourceEnd: z.number().int().min(0).optional()
+}
+
+export const requirementInputSchema: z.ZodType<RequirementInput> = z.object(requirementFields).strict()
+
+export const requirementUpdateSchema: z.ZodType<RequirementUpdate> = z.object(requirementFields).partial().strict()
+
+// A calendar date: '2024-02-30' matches the format but isn't one
+const calendarDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use the format YYYY-MM-DD')
+  .refine(value => !isNaN(Date.parse(value)) && new Date(value).toISOString().slice(0, 10) === value, 'Not a valid date')
+
+export const documentUpdateSchema: z.ZodType<DocumentUpdate> = z.object({
+  title: z.string().trim().min(1, 'Document name is required').optional(),
+  type: z.enum(['policy', 'program']).optional(),
+  documentTitle: z.string().trim().max(500).nullable().optional(),
+  owner: z.string().trim().max(200).nullable().optional(),
+  documentVersion: z.string().trim().max(50).nullable().optional(),
+  effectiveDate: calendarDateSchema.nullable().optional(),
+  approvalDate: calendarDateSchema.nullable().optional(),
+  nextReviewDate: calendarDateSchema.nullable().optional(),
+  category: z.string().trim().min(1).max(100).nullable().optional()
+}).strict()
+
+export const documentVersionInputSchema: z.ZodType<DocumentVersionInput> = z.object({
+  versionOf: z.string().min(1).optional(),
+  effectiveDate: calendarDateSchema.optional(),
+  category: z.string().trim().min(1).max(100).optional()
+}).strict()
+
+export const uploadSessionInputSchema: z.ZodType<UploadSessionInput> = z.object({
+  projectId: z.string().min(1),
+  filename: z.string().trim().min(1).max(500),
+  size: z.number().int().positive(),
+  mimeType: z.string().max(100).optional(),
+  documentType: z.string().max(100).optional(),
+  versionOf: z.string().min(1).optional(),
+  effectiveDate: calendarDateSchema.optional(),
+  category: z.string().trim().min(1).max(100).optional()
+}).strict()
+
+export const clientActivityInputSchema: z.ZodType<ClientActivityInput> = z.object({
+  type: z.literal('analysis-complete'),
+  projectId: z.string().min(1),
+  analysis: z.object({
+    kind: z.string().trim().min(1).max(50),
+    provider: z.string().trim().min(1).max(50),
+    model: z.string().trim().min(1).max(200),
+    framework: z.string().trim().min(1).max(100).optional()
+  }).strict()
+}).strict()
+
+export const reportExportInputSchema: z.ZodType<ReportExportInput> = z.object({
+  projectId: z.string().min(1),
+  filename: z.string().trim().min(1).max(500),
+  format: z.string().min(1).max(20),
+  content: z.string()
+}).strict()
+
+// Users and roles
+
+export const userProfileSchema: z.ZodType<UserProfile> = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().optional(),
+  role: z.enum(USER_ROLES),
+  permissions: z.array(z.enum(PERMISSIONS))
+}).strict()
+
+export const teamMemberSchema: z.ZodType<TeamMember> = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().optional(),
+  role: z.enum(USER_ROLES),
+  status: z.enum(ACCOUNT_STATUSES),
+  createdAt: z.string()
+}).strict()
+
+export const userRoleUpdateSchema: z.ZodType<UserRoleUpdate> = z.object({
+  role: z.enum(USER_ROLES)
+}).strict()
+
+// Account lifecycle
+
+const emailAddress = z.string().trim().toLowerCase().email('Enter a valid email address').max(255)
+const newPassword = z.string().min(6, 'Password must be at least 6 characters').max(128)
+const accountToken = z.string().min(1, 'The link is missing its token')
+
+export const accountTokenSchema: z.ZodType<{ token: string }> = z.object({
+  token: accountToken
+}).strict()
+
+export const userInvitationInputSchema: z.ZodType<UserInvitationInput> = z.object({
+  email: emailAddress,
+  name: z.string().trim().max(255).optional(),
+  role: z.enum(USER_ROLES).optional()
+}).strict()
+
+export const accountInvitationSchema: z.ZodType<AccountInvitation> = z.object({
+  email: z.string(),
+  name: z.string().optional(),
+  invitedBy: z.string().optional(),
+  expiresAt: z.string()
+}).strict()
+
+export const invitationAcceptanceSchema: z.ZodType<InvitationAcceptance> = z.object({
+  token: accountToken,
+  password: newPassword,
+  name: z.string().trim().max(255).optional()
+}).strict()
+
+export const passwordResetSchema: z.ZodType<PasswordReset> = z.object({
+  token: accountToken,
+  password: newPassword
+}).strict()
+
+// API tokens and service accounts
+
+export const apiTokenSchema: z.ZodType<ApiToken> = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)),
+  ownerId: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string().optional(),
+  lastUsedAt: z.string().optional()
+}).strict()
+
+export const apiTokenInputSchema: z.ZodType<ApiTokenInput> = z.object({
+  name: z.string().trim().min(1, 'Token name is required').max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Choose at least one scope')
+    .transform(scopes => API_TOKEN_SCOPES.filter(scope => scopes.includes(scope))),
+  expiresInDays: z.number().int().min(1).max(365).optional()
+}).strict()
+
+export const serviceAccountSchema: z.ZodType<ServiceAccount> = z.object({
+  id: z.string(),
+  name: z.string(),
+  role: z.enum(USER_ROLES),
+  workspaceId: z.string(),
+  createdBy: z.string().optional(),
+  createdAt: z.string(),
+  tokens: z.array(apiTokenSchema)
+}).strict()
+
+export const serviceAccountInputSchema: z.ZodType<ServiceAccountInput> = z.object({
+  name: z.string().trim().min(1, 'Service account name is required').max(100),
+  role: z.enum(USER_ROLES).optional()
+}).strict()
+
+// Workspaces
+
+export const workspaceSchema: z.ZodType<Workspace> = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  memberCount: z.number(),
+  role: z.enum(USER_ROLES)
+}).strict()
+
+export const workspaceMemberSchema: z.ZodType<WorkspaceMember> = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().optional(),
+  role: z.enum(USER_ROLES),
+  joinedAt: z.string()
+}).strict()
+
+export const workspaceInvitationSchema: z.ZodType<WorkspaceInvitation> = z.object({
+  id: z.string(),
+  workspaceId: z.string(),
+  workspaceName: z.string(),
+  email: z.string(),
+  invitedBy: z.string().optional(),
+  createdAt: z.string(),
+  expiresAt: z.string()
+}).strict()
+
+export const workspaceInputSchema: z.ZodType<WorkspaceInput> = z.object({
+  name: z.string().trim().min(1, 'Workspace name is required').max(255)
+}).strict()
+
+// Invitations match the address users sign in with, which is stored lowercased
+export const workspaceInvitationInputSchema: z.ZodType<WorkspaceInvitationInput> = z.object({
+  email: emailAddress
+}).strict()
+
+// List queries
+
+const PROJECT_SORT_FIELDS = ['name', 'status', 'assignee', 'compliance', 'progress', 'createdAt', 'lastActivity'] as const
+const REQUIREMENT_SORT_FIELDS = ['title', 'status', 'priority', 'category', 'assignee', 'confidence', 'lastUpdated'] as const
+const ACTIVITY_SORT_FIELDS = ['timestamp', 'type'] as const
+const AUDIT_LOG_SORT_FIELDS = ['seq'] as const
+
+const sortSchema = <F extends [string, ...string[]]>(fields: F) =>
+  z.array(z.object({ field: z.enum(fields), direction: z.enum(['asc', 'desc']) }).strict()).max(fields.length)
+
+const listFields = {
+  cursor: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(APP_CONSTANTS.PAGINATION.MAX_PAGE_SIZE).optional()
+}
+
+export const projectQuerySchema: z.ZodType<ProjectQuery> = z.object({
+  ...listFields,
+  sort: sortSchema([...PROJECT_SORT_FIELDS]).optional(),
+  search: z.string().optional(),
+  status: z.array(z.enum(REPORT_STATUSES)).optional(),
+  assignee: z.array(z.string()).optional()
+}).strict()
+
+export const requirementQuerySchema: z.ZodType<RequirementQuery> = z.object({
+  ...listFields,
+  sort: sortSchema([...REQUIREMENT_SORT_FIELDS]).optional(),
+  search: z.string().optional(),
+  status: z.array(z.enum(REQUIREMENT_STATUSES)).optional(),
+  priority: z.array(z.enum(PRIORITY_LEVELS)).optional(),
+  category: z.array(z.string()).optional(),
+  assignee: z.array(z.string()).optional()
+}).strict()
+
+export const activityQuerySchema: z.ZodType<ActivityQuery> = z.object({
+  ...listFields,
+  sort: sortSchema([...ACTIVITY_SORT_FIELDS]).optional(),
+  type: z.array(z.enum(ACTIVITY_TYPES)).optional(),
+  projectId: z.string().optional()
+}).strict()
+
+export const auditLogQuerySchema: z.ZodType<AuditLogQuery> = z.object({
+  ...listFields,
+  sort: sortSchema([...AUDIT_LOG_SORT_FIELDS]).optional()
+}).strict()
+
+export const pageInfoSchema: z.ZodType<PageInfo> = z.object({
+  nextCursor: z.string().nullable(),
+  total: z.number().int().min(0)
+}).strict()
+
+const facetCountsSchema = z.record(z.number().int().min(0))
+
+export const projectOverviewSchema: z.ZodType<ProjectOverview> = z.object({
+  facets: z.object({
+    status: facetCountsSchema,
+    assignee: facetCountsSchema
+  }).strict(),
+  averageCompliance: z.number()
+}).strict()
+
+export const requirementFacetsSchema: z.ZodType<RequirementFacets> = z.object({
+  status: facetCountsSchema,
+  priority: facetCountsSchema,
+  category: facetCountsSchema,
+  assignee: facetCountsSchema
+}).strict()
+
+// Raised when data crossing the provider boundary doesn't match its schema
+export class DataValidationError extends Error {
+  constructor(public entity: string, public issues: z.ZodIssue[]) {
+    super(`Invalid ${entity}: ${issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')}`)
+    this.name = 'DataValidationError'
+  }
+}
+
+export const validate = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: unknown, entity: string): T => {
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    throw new DataValidationError(entity, result.error.issues)
+  }
+  return result.data
+}
+
+export const validateList = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, values: unknown, entity: string): T[] =>
+  validate(z.array(schema), values, `${entity} list`)
@@ -0,0 +1,223 @@
+import { APP_CONSTANTS } from './constants'
+import { DatabaseError, type QueryResult } from './aurora-service'
+import { assertOtherActiveManager } from './user-roles'
+import { mapWorkspaceRow, mapWorkspaceMemberRow, mapWorkspaceInvitationRow } from './row-mappers'
+import type { UserRole } from './constants'
+import type { Workspace, WorkspaceMember, WorkspaceInvitation } from '../types'
+
+// Organizations, shared by AuroraService and the API server. Projects belong to a workspace;
+// its members share them. The database only shows the rows of the workspace entered with
+// enterWorkspace (row-level security, see ./migrations/009_workspaces).
+
+type RunQuery = (sql: string, params?: any[]) => Promise<QueryResult>
+
+// Ids come from request headers and paths; anything else can't name a row
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Activity feed of a workspace ($1) for a user ($2): its own entries plus the user's own ones
+// that belong to no workspace, such as API token changes
+export const WORKSPACE_ACTIVITY_CONDITION = '(a.workspace_id = $1 OR (a.workspace_id IS NULL AND a.user_id = $2))'
+
+// Workspaces with the member's role in each (migration 017); a deactivated membership gives no access
+const MEMBER_WORKSPACE_SELECT = `
+  SELECT w.id, w.name, w.created_at, m.role,
+    (SELECT COUNT(*)::int FROM workspace_members c WHERE c.workspace_id = w.id) AS member_count
+  FROM workspaces w
+  JOIN workspace_members m ON m.workspace_id = w.id AND m.deactivated_at IS NULL`
+
+const INVITATION_SELECT = `
+  SELECT i.*, w.name AS workspace_name, COALESCE(NULLIF(u.name, ''), u.email) AS invited_by_name
+  FROM workspace_invitations i
+  JOIN workspaces w ON w.id = i.workspace_id
+  LEFT JOIN users u ON u.id = i.invited_by`
+
+// Scope the current transaction to a workspace; outside one the setting would leak to the next user of the connection
+export const enterWorkspace = async (query: RunQuery, workspaceId: string): Promise<void> => {
+  await query("SELECT set_config('app.workspace_id', $1, true)", [workspaceId])
+}
+
+export const getWorkspaces = async (query: RunQuery, userId: string): Promise<Workspace[]> => {
+  const result = await query(
+    `${MEMBER_WORKSPACE_SELECT}
+     WHERE m.user_id = $1
+     ORDER BY m.joined_at, w.name`,
+    [userId]
+  )
+  return result.rows.map(mapWorkspaceRow)
+}
+
+// A workspace the user belongs to, with their role there, or not_found (also for ids of other
+// tenants and workspaces the user was deactivated in)
+export const findMemberWorkspace = async (query: RunQuery, workspaceId: string, userId: string): Promise<Workspace> => {
+  const result = UUID_PATTERN.test(workspaceId) ? await query(
+    `${MEMBER_WORKSPACE_SELECT}
+     WHERE w.id = $1 AND m.user_id = $2`,
+    [workspaceId, userId]
+  ) : { rows: [] }
+  if (result.rows.length === 0) {
+    throw new DatabaseError('Workspace not found', 'not_found')
+  }
+  return mapWorkspaceRow(result.rows[0])
+}
+
+// Run inside a transaction; the creator becomes the first member and manages the workspace
+export const createWorkspace = async (query: RunQuery, userId: string, name: string): Promise<Workspace> => {
+  const result = await query(
+    `INSERT INTO workspaces (name, created_by) VALUES ($1, $2)
+     RETURNING id, name, created_at, 'qa-manager' AS role, 1 AS member_count`,
+    [name, userId]
+  )
+  await query(
+    "INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, 'qa-manager')",
+    [result.rows[0].id, userId]
+  )
+  return mapWorkspaceRow(result.rows[0])
+}
+
+// The requested workspace when given, else the user's first. Users without any, such as
+// new sign-ups, get a personal one, which they manage. Run inside a transaction.
+export const resolveWorkspace = async (query: RunQuery, userId: string, requestedId?: string | null): Promise<Workspace> => {
+  if (requestedId) {
+    return findMemberWorkspace(query, requestedId, userId)
+  }
+
+  const [first] = await getWorkspaces(query, userId)
+  if (first) {
+    return first
+  }
+
+  const user = await query("SELECT COALESCE(NULLIF(name, ''), email) AS display_name FROM users WHERE id = $1", [userId])
+  if (user.rows.length === 0) {
+    throw new DatabaseError('User not found', 'not_found')
+  }
+  return createWorkspace(query, userId, `${user.rows[0].display_name}'s workspace`)
+}
+
+// Members
+
+export const getWorkspaceMembers = async (query: RunQuery, workspaceId: string): Promise<WorkspaceMember[]> => {
+  const result = await query(
+    `SELECT u.id, u.email, u.name, m.role, m.joined_at
+     FROM workspace_members m
+     JOIN users u ON u.id = m.user_id
+     WHERE m.workspace_id = $1
+     ORDER BY m.joined_at, u.email`,
+    [workspaceId]
+  )
+  return result.rows.map(mapWorkspaceMemberRow)
+}
+
+// Run inside a transaction; the row lock stops two removals from emptying the workspace or
+// leaving it without a manager
+export const removeWorkspaceMember = async (query: RunQuery, workspaceId: string, userId: string): Promise<WorkspaceMember> => {
+  await query('SELECT id FROM workspaces WHERE id = $1 FOR UPDATE', [workspaceId])
+  const members = await getWorkspaceMembers(query, workspaceId)
+  const member = members.find(candidate => candidate.id === userId)
+  if (!member) {
+    throw new DatabaseError('Member not found', 'not_found')
+  }
+  if (members.length <= 1) {
+    throw new DatabaseError('A workspace needs at least one member', 'check_violation')
+  }
+  if (member.role === 'qa-manager') {
+    await assertOtherActiveManager(query, workspaceId, userId)
+  }
+  await query('DELETE FROM workspace_members WHERE workspace_id = $1 AND user_id = $2', [workspaceId, userId])
+  return member
+}
+
+// Invitations
+
+export const getWorkspaceInvitations = async (query: RunQuery, workspaceId: string): Promise<WorkspaceInvitation[]> => {
+  const result = await query(
+    `${INVITATION_SELECT}
+     WHERE i.workspace_id = $1 AND i.accepted_at IS NULL AND i.expires_at > NOW()
+     ORDER BY i.created_at DESC`,
+    [workspaceId]
+  )
+  return result.rows.map(mapWorkspaceInvitationRow)
+}
+
+// Inviting an address again renews its invitation
+export const inviteToWorkspace = async (
+  query: RunQuery,
+  workspaceId: string,
+  email: string,
+  invitedBy: string
+): Promise<WorkspaceInvitation> => {
+  const member = await query(
+    `SELECT 1 FROM workspace_members m
+     JOIN users u ON u.id = m.user_id
+     WHERE m.workspace_id = $1 AND LOWER(u.email) = $2`,
+    [workspaceId, email]
+  )
+  if (member.rows.length > 0) {
+    throw new DatabaseError(`${email} is already a member of this workspace`, 'unique_violation')
+  }
+
+  const result = await query(
+    `INSERT INTO workspace_invitations (workspace_id, email, invited_by, expires_at)
+     VALUES ($1, $2, $3, NOW() + make_interval(days => $4))
+     ON CONFLICT (workspace_id, email) DO UPDATE
+     SET invited_by = EXCLUDED.invited_by, created_at = NOW(), expires_at = EXCLUDED.expires_at, accepted_at = NULL
+     RETURNING id`,
+    [workspaceId, email, invitedBy, APP_CONSTANTS.WORKSPACE_INVITATION_TTL_DAYS]
+  )
+  const invitation = await query(`${INVITATION_SELECT} WHERE i.id = $1`, [result.rows[0].id])
+  return mapWorkspaceInvitationRow(invitation.rows[0])
+}
+
+export const revokeInvitation = async (query: RunQuery, workspaceId: string, invitationId: string): Promise<WorkspaceInvitation> => {
+  const existing = UUID_PATTERN.test(invitationId) ? await query(
+    `${INVITATION_SELECT} WHERE i.id = $1 AND i.workspace_id = $2 AND i.accepted_at IS NULL`,
+    [invitationId, workspaceId]
+  ) : { rows: [] }
+  if (existing.rows.length === 0) {
+    throw new DatabaseError('Invitation not found', 'not_found')
+  }
+  await query('DELETE FROM workspace_invitations WHERE id = $1', [existing.rows[0].id])
+  return mapWorkspaceInvitationRow(existing.rows[0])
+}
+
+// Pending invitations addressed to the signed-in user's email
+export const getUserInvitations = async (query: RunQuery, email: string): Promise<WorkspaceInvitation[]> => {
+  const result = await query(
+    `${INVITATION_SELECT}
+     WHERE i.email = LOWER($1) AND i.accepted_at IS NULL AND i.expires_at > NOW()
+     ORDER BY i.created_at DESC`,
+    [email]
+  )
+  return result.rows.map(mapWorkspaceInvitationRow)
+}
+
+// Run inside a transaction. Only the invited address can accept, and only once the user has
+// shown it is theirs: by the link in a verification or reset email, or through an identity
+// provider that vouches for it (see ./user-identities). The invitee joins with `role`.
+export const acceptInvitation = async (
+  query: RunQuery,
+  invitationId: string,
+  user: { id: string },
+  role: UserRole
+): Promise<{ invitation: WorkspaceInvitation; workspace: Workspace }> => {
+  const account = await query('SELECT email, email_verified_at FROM users WHERE id = $1', [user.id])
+  if (account.rows.length > 0 && !account.rows[0].email_verified_at) {
+    throw new DatabaseError('Verify your email address before accepting the invitation', 'check_violation')
+  }
+  const existing = UUID_PATTERN.test(invitationId) && account.rows.length > 0 ? await query(
+    `${INVITATION_SELECT}
+     WHERE i.id = $1 AND i.email = LOWER($2) AND i.accepted_at IS NULL AND i.expires_at > NOW()
+     FOR UPDATE OF i`,
+    [invitationId, account.rows[0].email]
+  ) : { rows: [] }
+  if (existing.rows.length === 0) {
+    throw new DatabaseError('Invitation not found or expired', 'not_found')
+  }
+  const invitation = mapWorkspaceInvitationRow(existing.rows[0])
+
+  await query(
+    'INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
+    [invitation.workspaceId, user.id, role]
+  )
+  await query('UPDATE workspace_invitations SET accepted_at = NOW() WHERE id = $1', [invitation.id])
+  return { invitation, workspace: await findMemberWorkspace(query, invitation.workspaceId, user.id) }
+}
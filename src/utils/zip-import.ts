@@ -0,0 +1,218 @@
+import JSZip from 'jszip'
+import { contentHash } from './document-versions'
+import { APP_CONSTANTS } from './constants'
+import type { Document } from '../types'
+
+// Importing a ZIP archive of documents in one batch, for clients who send everything at once.
+// The archive is read in the browser. Rules map its folders and filename patterns to document
+// types ('policy', 'program' or a custom one), or leave files out; files no rule matches are
+// classified from their text (see ./document-classifier). Files the app can't read and
+// files already in the report are left out too. Every file in the archive ends up with a
+// result, so the person importing sees what happened to each one.
+
+// A rule with this type leaves the files it matches out of the import
+export const SKIP_DOCUMENT_TYPE = 'skip'
+
+export interface ArchiveFile {
+  // Path inside the archive, folders separated by '/'
+  path: string
+  name: string
+  // Path of the folder it is in; '' at the top of the archive
+  folder: string
+}
+
+export interface ArchiveFolder {
+  name: string
+  path: string
+  // Files in it and its subfolders
+  fileCount: number
+  children: ArchiveFolder[]
+}
+
+export interface ImportArchive {
+  name: string
+  files: ArchiveFile[]
+  // Files left out when it was read, such as system files and unsupported formats
+  skipped: ImportResult[]
+  zip: JSZip
+}
+
+// A folder rule covers the folder and everything below it; a pattern rule matches file names
+// ('*.xlsx', 'SOP-*'), or paths when the pattern has a '/'. Patterns win over folders, and a
+// deeper folder over the folders around it.
+export interface ImportRule {
+  kind: 'folder' | 'pattern'
+  match: string
+  documentType: string
+}
+
+export type ImportOutcome = 'imported' | 'skipped' | 'duplicate' | 'failed'
+
+export interface ImportResult {
+  path: string
+  outcome: ImportOutcome
+  documentType?: string
+  category?: string
+  reason?: string
+  documentId?: string
+}
+
+export interface PreparedFile {
+  path: string
+  name: string
+  documentType: string
+  // No rule matched it, so it takes the classifier's suggestion when there is one, else documentType
+  classify: boolean
+}
+
+// Left by the tools that made the archive, not by the client
+const SYSTEM_FILES = /(^|\/)(__MACOSX\/|\.[^/]*$|Thumbs\.db$|desktop\.ini$)/i
+
+const extensionOf = (name: string): string => `.${name.split('.').pop()?.toLowerCase()}`
+
+const isSupported = (name: string): boolean =>
+  (APP_CONSTANTS.VALIDATION.SUPPORTED_FILE_EXTENSIONS as readonly string[]).includes(extensionOf(name))
+
+export const isArchive = (file: File): boolean =>
+  extensionOf(file.name) === '.zip' || file.type === 'application/zip' || file.type === 'application/x-zip-compressed'
+
+export const readArchive = async (archive: File): Promise<ImportArchive> => {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(archive)
+  } catch (error: any) {
+    throw new Error(`${archive.name} could not be read as a ZIP archive: ${error?.message || error}`)
+  }
+
+  const files: ArchiveFile[] = []
+  const skipped: ImportResult[] = []
+  zip.forEach((path, entry) => {
+    if (entry.dir || SYSTEM_FILES.test(path)) {
+      return
+    }
+    const name = path.split('/').pop() || path
+    if (extensionOf(name) === '.zip') {
+      skipped.push({ path, outcome: 'skipped', reason: 'Archives inside the archive are not imported' })
+    } else if (!isSupported(name)) {
+      skipped.push({ path, outcome: 'skipped', reason: 'Unsupported file type' })
+    } else {
+      files.push({ path, name, folder: path.slice(0, Math.max(path.lastIndexOf('/'), 0)) })
+    }
+  })
+  files.sort((a, b) => a.path.localeCompare(b.path))
+  return { name: archive.name, files, skipped, zip }
+}
+
+// The folders of the archive's files, nested, under a root with path ''
+export const folderTree = (files: ArchiveFile[]): ArchiveFolder => {
+  const root: ArchiveFolder = { name: '', path: '', fileCount: 0, children: [] }
+  files.forEach(file => {
+    root.fileCount++
+    let folder = root
+    file.folder.split('/').filter(Boolean).forEach(name => {
+      const path = folder.path ? `${folder.path}/${name}` : name
+      let child = folder.children.find(candidate => candidate.path === path)
+      if (!child) {
+        child = { name, path, fileCount: 0, children: [] }
+        folder.children.push(child)
+      }
+      child.fileCount++
+      folder = child
+    })
+  })
+  return root
+}
+
+// '*' matches any run of characters ('/' excepted in path patterns) and '?' one of them
+const globToRegExp = (pattern: string): RegExp => {
+  const any = pattern.includes('/') ? '[^/]*' : '.*'
+  const source = pattern
+    .split('')
+    .map(char => char === '*' ? any : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+export const matchesRule = (file: Pick<ArchiveFile, 'path' | 'name'>, rule: ImportRule): boolean => {
+  if (rule.kind === 'folder') {
+    return !rule.match || file.path.startsWith(`${rule.match}/`)
+  }
+  const pattern = rule.match.trim()
+  return Boolean(pattern) && globToRegExp(pattern).test(pattern.includes('/') ? file.path : file.name)
+}
+
+// The type the rules give the file: the first pattern that matches it, else its deepest folder
+// rule; undefined when none matches
+export const ruleTypeFor = (file: Pick<ArchiveFile, 'path' | 'name'>, rules: ImportRule[]): string | undefined => {
+  const pattern = rules.find(rule => rule.kind === 'pattern' && matchesRule(file, rule))
+  if (pattern) {
+    return pattern.documentType
+  }
+  const folders = rules
+    .filter(rule => rule.kind === 'folder' && matchesRule(file, rule))
+    .sort((a, b) => b.match.length - a.match.length)
+  return folders[0]?.documentType
+}
+
+export const documentTypeFor = (file: Pick<ArchiveFile, 'path' | 'name'>, rules: ImportRule[], defaultType: string): string =>
+  ruleTypeFor(file, rules) || defaultType
+
+// The files the rules import, and the results of every file left out, including those left out
+// when the archive was read. Files no rule matches are left out only when the default type is
+// SKIP_DOCUMENT_TYPE; the others are marked to be classified. Nothing is decompressed yet: each
+// file is read when its upload starts (see readImportFile).
+export const prepareImport = (
+  archive: ImportArchive,
+  rules: ImportRule[],
+  defaultType: string
+): { files: PreparedFile[]; results: ImportResult[] } => {
+  const files: PreparedFile[] = []
+  const results = [...archive.skipped]
+  archive.files.forEach(entry => {
+    const documentType = documentTypeFor(entry, rules, defaultType)
+    if (documentType === SKIP_DOCUMENT_TYPE) {
+      results.push({ path: entry.path, outcome: 'skipped', reason: 'Left out by the import rules' })
+    } else {
+      files.push({ path: entry.path, name: entry.name, documentType, classify: !ruleTypeFor(entry, rules) })
+    }
+  })
+  return { files, results }
+}
+
+// Content hashes of the documents already in the report, for readImportFile
+export const knownContent = (existingDocuments: Document[]): Map<string, string> => {
+  const seen = new Map<string, string>()
+  existingDocuments.forEach(document => {
+    if (document.contentHash) {
+      seen.set(document.contentHash, `"${document.title}" in the report`)
+    }
+  })
+  return seen
+}
+
+// Decompresses one file of the archive. Files already in `seen` (in the report or read earlier
+// from the archive) are left out as duplicates, as the upload would refuse them; the others join
+// it. Resolves to the file, or to the result of leaving it out.
+export const readImportFile = async (
+  archive: ImportArchive,
+  prepared: PreparedFile,
+  seen: Map<string, string>
+): Promise<{ file: File } | { result: ImportResult }> => {
+  const { path, documentType } = prepared
+  const zipped = archive.zip.file(path)
+  if (!zipped) {
+    return { result: { path, outcome: 'failed', documentType, reason: 'Missing from the archive' } }
+  }
+  try {
+    const data = await zipped.async('uint8array')
+    const hash = await contentHash(data)
+    const original = seen.get(hash)
+    if (original) {
+      return { result: { path, outcome: 'duplicate', documentType, reason: `Same file as ${original}` } }
+    }
+    seen.set(hash, path)
+    return { file: new File([data], prepared.name) }
+  } catch (error: any) {
+    return { result: { path, outcome: 'failed', documentType, reason: `Could not be read from the archive: ${error?.message || error}` } }
+  }
+}
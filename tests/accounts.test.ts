@@ -0,0 +1,117 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import type { EmbeddedDatabase } from '../src/utils/embedded-database'
+import { closeDatabase, openDatabase } from './database'
+import { startServer, type TestServer } from './server'
+
+describe('account links', () => {
+  let database: EmbeddedDatabase
+  let server: TestServer
+
+  // Token of the link in the latest email, e.g. ?reset=<token>
+  const latestLink = (param: string): string => {
+    const email = server.emails().at(-1) || ''
+    const match = email.match(new RegExp(`\\?${param}=([\\w-]+)`))
+    assert.ok(match, `the latest email has a ${param} link`)
+    return match[1]
+  }
+
+  const signUp = async (email: string, password: string): Promise<void> => {
+    const response = await server.request('POST', '/auth/signup', { email, password, name: 'Dana' })
+    assert.equal(response.status, 201)
+    await server.request('POST', '/auth/verify-email', { token: latestLink('verify') })
+  }
+
+  const signIn = (email: string, password: string) => server.request('POST', '/auth/signin', { email, password })
+
+  const requestReset = async (email: string): Promise<string> => {
+    const response = await server.request('POST', '/auth/forgot-password', { email })
+    assert.deepEqual(response.body, { success: true })
+    return latestLink('reset')
+  }
+
+  before(async () => {
+    database = await openDatabase()
+    server = await startServer(database)
+  })
+
+  after(async () => {
+    await server.close()
+    await closeDatabase(database)
+  })
+
+  it('keeps a new account from signing in until its address is confirmed', async () => {
+    const signup = await server.request('POST', '/auth/signup', { email: 'Erin@Example.com', password: 'first-password' })
+    const token = latestLink('verify')
+
+    assert.equal(signup.status, 201)
+    assert.equal(signup.body.verificationRequired, true)
+    assert.equal((await signIn('erin@example.com', 'first-password')).body.code, 'email_not_verified')
+
+    assert.equal((await server.request('POST', '/auth/verify-email', { token })).status, 200)
+    const signin = await signIn('erin@example.com', 'first-password')
+    assert.equal(signin.status, 200)
+    assert.ok(signin.body.access_token)
+    assert.equal((await server.request('POST', '/auth/verify-email', { token })).status, 400)
+  })
+
+  it('lets a reset link set the password once', async () => {
+    await signUp('frank@example.com', 'first-password')
+    const token = await requestReset('frank@example.com')
+
+    const reset = await server.request('POST', '/auth/reset-password', { token, password: 'second-password' })
+    const again = await server.request('POST', '/auth/reset-password', { token, password: 'third-password' })
+
+    assert.equal(reset.status, 200)
+    assert.equal(again.status, 400)
+    assert.equal(again.body.error, 'This link is invalid or has expired')
+    assert.equal((await signIn('frank@example.com', 'first-password')).status, 401)
+    assert.equal((await signIn('frank@example.com', 'second-password')).status, 200)
+  })
+
+  it('turns off the earlier link when a newer one is sent', async () => {
+    await signUp('grace@example.com', 'first-password')
+    const older = await requestReset('grace@example.com')
+    const newer = await requestReset('grace@example.com')
+
+    assert.equal((await server.request('POST', '/auth/reset-password', { token: older, password: 'second-password' })).status, 400)
+    assert.equal((await server.request('POST', '/auth/reset-password', { token: newer, password: 'second-password' })).status, 200)
+  })
+
+  it('refuses a link after it expires', async () => {
+    await signUp('heidi@example.com', 'first-password')
+    const token = await requestReset('heidi@example.com')
+    await database.query(
+      `UPDATE account_tokens SET expires_at = NOW() - INTERVAL '1 minute'
+       WHERE purpose = 'reset-password' AND used_at IS NULL`,
+      []
+    )
+
+    assert.equal((await server.request('POST', '/auth/reset-password', { token, password: 'second-password' })).status, 400)
+    assert.equal((await signIn('heidi@example.com', 'first-password')).status, 200)
+  })
+
+  it('answers a reset request for an unknown address the same way, without sending anything', async () => {
+    const sent = server.emails().length
+    const response = await server.request('POST', '/auth/forgot-password', { email: 'nobody@example.com' })
+
+    assert.equal(response.status, 200)
+    assert.deepEqual(response.body, { success: true })
+    assert.equal(server.emails().length, sent)
+  })
+
+  it('stores only a hash of each token', async () => {
+    await signUp('ivan@example.com', 'first-password')
+    const token = await requestReset('ivan@example.com')
+    const result = await database.query(
+      `SELECT t.token_hash FROM account_tokens t JOIN users u ON u.id = t.user_id
+       WHERE u.email = 'ivan@example.com' AND t.purpose = 'reset-password'`,
+      []
+    )
+
+    assert.equal(result.rows.length, 1)
+    assert.notEqual(result.rows[0].token_hash, token)
+    assert.equal(result.rows[0].token_hash, crypto.createHash('sha256').update(token).digest('hex'))
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { clientReportedActivity, CLIENT_ACTIVITY_PERMISSIONS } from '../src/utils/audit'
+import { clientActivityInputSchema, DataValidationError, validate } from '../src/utils/validation'
+
+const analysis = { kind: 'gap-detection', provider: 'bedrock', model: 'claude-3-sonnet', framework: 'SOC 2' }
+
+describe('client-reported activities', () => {
+  it('accepts only the events on the allow-list', () => {
+    const rejected = [
+      { type: 'document-upload', projectId: 'project-1', analysis },
+      { type: 'analysis-complete', analysis },
+      { type: 'analysis-complete', projectId: 'project-1', analysis, title: 'Report Exported' },
+      { type: 'analysis-complete', projectId: 'project-1', analysis: { ...analysis, changes: [] } }
+    ]
+    for (const input of rejected) {
+      assert.throws(() => validate(clientActivityInputSchema, input, 'activity input'), DataValidationError)
+    }
+    assert.deepEqual(Object.keys(CLIENT_ACTIVITY_PERMISSIONS), ['analysis-complete'])
+    assert.equal(CLIENT_ACTIVITY_PERMISSIONS['analysis-complete'], 'ai:use')
+  })
+
+  it('builds the entry itself and marks it as reported by the client', () => {
+    const input = validate(clientActivityInputSchema, { type: 'analysis-complete', projectId: 'project-1', analysis }, 'activity input')
+    const activity = clientReportedActivity(input)
+
+    assert.equal(activity.type, 'analysis-complete')
+    assert.equal(activity.projectId, 'project-1')
+    assert.equal(activity.description, 'Ran gap-detection with bedrock (claude-3-sonnet)')
+    assert.deepEqual(activity.metadata, {
+      entity: 'project',
+      entityId: 'project-1',
+      analysis: 'gap-detection',
+      provider: 'bedrock',
+      model: 'claude-3-sonnet',
+      framework: 'SOC 2',
+      reportedBy: 'client'
+    })
+  })
+})
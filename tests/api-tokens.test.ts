@@ -0,0 +1,112 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import { createAccessToken } from '../server/auth'
+import { AuroraService } from '../src/utils/aurora-service'
+import { permissionsFor, permissionsForScopes, SCOPE_PERMISSIONS } from '../src/utils/permissions'
+import { API_TOKEN_SCOPES, type ApiTokenScope } from '../src/utils/constants'
+import type { EmbeddedDatabase } from '../src/utils/embedded-database'
+import { closeDatabase, createUser, openDatabase } from './database'
+import { startServer, type TestServer } from './server'
+
+describe('API token scopes', () => {
+  it('grant only what the owner\'s role allows', () => {
+    assert.deepEqual(permissionsForScopes(permissionsFor('qa-manager'), ['projects:read']), [])
+    assert.deepEqual(
+      permissionsForScopes(permissionsFor('qa-manager'), ['documents:upload', 'ai:use']).sort(),
+      ['ai:use', 'document:update', 'document:upload']
+    )
+    assert.equal(permissionsForScopes(permissionsFor('model-developer'), ['projects:write']).includes('project:create'), false)
+  })
+
+  it('never grant verdicts, deletion or administration', () => {
+    const granted = permissionsForScopes(permissionsFor('qa-manager'), API_TOKEN_SCOPES)
+    for (const permission of ['requirement:finalize', 'project:delete', 'users:manage', 'audit:read', 'workspace:manage'] as const) {
+      assert.equal(granted.includes(permission), false, permission)
+    }
+    assert.deepEqual(Object.keys(SCOPE_PERMISSIONS).sort(), [...API_TOKEN_SCOPES].sort())
+  })
+})
+
+describe('API token requests', () => {
+  let database: EmbeddedDatabase
+  let server: TestServer
+  let session: string
+
+  const createToken = async (scopes: ApiTokenScope[]): Promise<{ id: string; token: string }> => {
+    const response = await server.request('POST', '/api-tokens', { name: `Pipeline ${scopes.join(' ')}`, scopes }, session)
+    assert.equal(response.status, 201)
+    return response.body.token
+  }
+
+  const listProjects = (token: string) => server.request('GET', '/projects', undefined, token)
+  const createProject = (token: string, name: string) => server.request('POST', '/projects', { name }, token)
+
+  before(async () => {
+    database = await openDatabase()
+    server = await startServer(database)
+    const judy = await createUser(database, 'judy@example.com', 'Judy')
+    await AuroraService.createWorkspace('Compliance', judy)
+    session = createAccessToken({ id: judy, email: 'judy@example.com' })
+  })
+
+  after(async () => {
+    await server.close()
+    await closeDatabase(database)
+  })
+
+  it('shows the secret once and stores only its hash', async () => {
+    const created = await createToken(['projects:read'])
+    const stored = await database.query('SELECT token_prefix, token_hash FROM api_tokens WHERE id = $1', [created.id])
+    const listed = await server.request('GET', '/api-tokens', undefined, session)
+
+    assert.match(created.token, /^qcr_/)
+    assert.ok(created.token.startsWith(stored.rows[0].token_prefix))
+    assert.equal(stored.rows[0].token_hash, crypto.createHash('sha256').update(created.token).digest('hex'))
+    assert.equal(listed.body.tokens.find((token: { id: string }) => token.id === created.id).token, undefined)
+  })
+
+  it('allows only what the token\'s scopes cover', async () => {
+    const reader = await createToken(['projects:read'])
+    const writer = await createToken(['projects:write'])
+
+    assert.equal((await listProjects(reader.token)).status, 200)
+    assert.equal((await createProject(reader.token, 'Read-only attempt')).status, 403)
+    assert.equal((await listProjects(writer.token)).status, 403)
+    assert.equal((await createProject(writer.token, 'Pipeline project')).status, 201)
+
+    const me = await server.request('GET', '/me', undefined, writer.token)
+    assert.equal(me.body.user.role, 'qa-manager')
+    assert.deepEqual(me.body.user.permissions, ['project:create', 'project:update', 'requirement:create', 'requirement:update'])
+  })
+
+  it('keeps tokens from managing tokens', async () => {
+    const { token } = await createToken(API_TOKEN_SCOPES.slice())
+
+    assert.equal((await server.request('GET', '/api-tokens', undefined, token)).status, 403)
+    assert.equal((await server.request('POST', '/api-tokens', { name: 'Copy', scopes: ['projects:read'] }, token)).status, 403)
+  })
+
+  it('limits a service account\'s token to the account\'s role', async () => {
+    const account = await server.request('POST', '/service-accounts', { name: 'Scanner', role: 'model-developer' }, session)
+    const created = await server.request('POST', `/service-accounts/${account.body.serviceAccount.id}/tokens`, { name: 'CI', scopes: ['projects:read', 'projects:write'] }, session)
+
+    assert.equal((await listProjects(created.body.token.token)).status, 200)
+    assert.equal((await createProject(created.body.token.token, 'Not allowed')).status, 403)
+  })
+
+  it('stops accepting a token once it is rotated, revoked or expired', async () => {
+    const rotated = await createToken(['projects:read'])
+    const replacement = await server.request('POST', `/api-tokens/${rotated.id}/rotate`, undefined, session)
+    assert.equal((await listProjects(rotated.token)).status, 401)
+    assert.equal((await listProjects(replacement.body.token.token)).status, 200)
+
+    const revoked = await createToken(['projects:read'])
+    await server.request('DELETE', `/api-tokens/${revoked.id}`, undefined, session)
+    assert.equal((await listProjects(revoked.token)).status, 401)
+
+    const expired = await createToken(['projects:read'])
+    await database.query("UPDATE api_tokens SET expires_at = NOW() - INTERVAL '1 minute' WHERE id = $1", [expired.id])
+    assert.equal((await listProjects(expired.token)).status, 401)
+  })
+})
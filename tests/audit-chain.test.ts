@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { canonicalJson, chainEntry, computeEntryHash, GENESIS_HASH, verifyAuditChain } from '../src/utils/audit-chain'
+import type { AuditLogEntry } from '../src/types'
+
+const WORKSPACE = 'workspace-a'
+const OTHER_WORKSPACE = 'workspace-b'
+
+const payload = (action: string, workspaceId?: string): string =>
+  canonicalJson({ activityId: action, action, type: 'document', workspaceId })
+
+// A chain of entries for the given actions, in each action's workspace
+const buildChain = async (actions: Array<[string, string?]>): Promise<AuditLogEntry[]> => {
+  const entries: AuditLogEntry[] = []
+  for (const [action, workspaceId] of actions) {
+    entries.push(await chainEntry(entries[entries.length - 1] || null, payload(action, workspaceId), workspaceId))
+  }
+  return entries
+}
+
+const reasons = (breaks: Array<{ seq: number; reason: string }>): string[] =>
+  breaks.map(chainBreak => `${chainBreak.seq}:${chainBreak.reason}`)
+
+describe('verifyAuditChain', () => {
+  it('accepts an untouched chain', async () => {
+    const entries = await buildChain([['uploaded'], ['reviewed'], ['approved']])
+    const verification = await verifyAuditChain(entries)
+
+    assert.equal(entries[0].previousHash, GENESIS_HASH)
+    assert.equal(verification.valid, true)
+    assert.equal(verification.checked, 3)
+    assert.deepEqual(verification.head, { seq: 3, hash: entries[2].hash })
+    assert.deepEqual(verification.breaks, [])
+  })
+
+  it('reports an altered payload once, at the altered entry', async () => {
+    const entries = await buildChain([['uploaded'], ['reviewed'], ['approved']])
+    entries[1] = { ...entries[1], payload: payload('rejected') }
+    const verification = await verifyAuditChain(entries)
+
+    assert.equal(verification.valid, false)
+    assert.deepEqual(reasons(verification.breaks), ['2:hash-mismatch'])
+  })
+
+  it('reports an entry rehashed after it was altered at the link that follows it', async () => {
+    const entries = await buildChain([['uploaded'], ['reviewed'], ['approved']])
+    const altered = payload('rejected')
+    entries[1] = { ...entries[1], payload: altered, hash: await computeEntryHash(2, entries[1].previousHash, altered) }
+    const verification = await verifyAuditChain(entries)
+
+    assert.deepEqual(reasons(verification.breaks), ['3:previous-hash-mismatch'])
+  })
+
+  it('reports a removed entry', async () => {
+    const entries = await buildChain([['uploaded'], ['reviewed'], ['approved']])
+    const verification = await verifyAuditChain([entries[0], entries[2]])
+
+    assert.deepEqual(reasons(verification.breaks), ['3:sequence-gap', '3:previous-hash-mismatch'])
+  })
+
+  it('reports reordered entries', async () => {
+    const entries = await buildChain([['uploaded'], ['reviewed'], ['approved']])
+    const verification = await verifyAuditChain([entries[0], entries[2], entries[1]])
+
+    assert.equal(verification.valid, false)
+    assert.ok(reasons(verification.breaks).includes('3:sequence-gap'))
+    assert.ok(reasons(verification.breaks).includes('2:sequence-gap'))
+  })
+
+  it('reports a truncated start', async () => {
+    const entries = await buildChain([['uploaded'], ['reviewed']])
+    const verification = await verifyAuditChain([entries[1]])
+
+    assert.deepEqual(reasons(verification.breaks), ['2:sequence-gap', '2:previous-hash-mismatch'])
+  })
+
+  it('verifies one workspace of a shared chain', async () => {
+    const entries = await buildChain([['uploaded', WORKSPACE], ['invited', OTHER_WORKSPACE], ['approved', WORKSPACE]])
+    const verification = await verifyAuditChain(entries, { workspaceId: WORKSPACE })
+
+    assert.equal(verification.valid, true)
+    assert.equal(verification.checked, 2)
+    assert.equal(verification.head?.seq, 3)
+  })
+
+  it('verifies a workspace excerpt without the other workspaces\' entries', async () => {
+    const entries = await buildChain([['uploaded', WORKSPACE], ['invited', OTHER_WORKSPACE], ['approved', WORKSPACE]])
+    const excerpt = entries.filter(entry => entry.workspaceId === WORKSPACE)
+
+    assert.equal((await verifyAuditChain(excerpt, { workspaceId: WORKSPACE, excerpt: true })).valid, true)
+    assert.equal((await verifyAuditChain(excerpt)).valid, false)
+  })
+
+  it('still catches tampering in an excerpt', async () => {
+    const entries = await buildChain([['uploaded', WORKSPACE], ['reviewed', WORKSPACE], ['approved', WORKSPACE]])
+    entries[1] = { ...entries[1], payload: payload('rejected', WORKSPACE) }
+    const verification = await verifyAuditChain(entries, { workspaceId: WORKSPACE, excerpt: true })
+
+    assert.deepEqual(reasons(verification.breaks), ['2:hash-mismatch'])
+  })
+
+  it('reports an entry filed under another workspace than it was recorded in', async () => {
+    const entries = await buildChain([['uploaded', WORKSPACE], ['approved', WORKSPACE]])
+    entries[1] = { ...entries[1], workspaceId: OTHER_WORKSPACE }
+
+    const verification = await verifyAuditChain(entries)
+    assert.deepEqual(reasons(verification.breaks), ['2:workspace-mismatch'])
+    // The moved entry is reported to the workspace it was moved to as well
+    const moved = await verifyAuditChain(entries, { workspaceId: OTHER_WORKSPACE })
+    assert.deepEqual(reasons(moved.breaks), ['2:workspace-mismatch'])
+  })
+})
@@ -0,0 +1,38 @@
+import { mock } from 'node:test'
+import { PGlite } from '@electric-sql/pglite'
+import { AuroraMigrator } from '../src/utils/aurora-migrations'
+import { AuroraService } from '../src/utils/aurora-service'
+import { toEmbeddedDatabase, type EmbeddedDatabase } from '../src/utils/embedded-database'
+
+// Database tests run on PGlite as a role without superuser rights, as they would on a managed
+// database: row-level security applies to it and it can't bypass what the migrations set up.
+// AuroraService runs its queries on the database until closeDatabase().
+export const MIGRATION_ROLE = 'migrator'
+
+export const openDatabase = async (options: { migrate?: boolean } = {}): Promise<EmbeddedDatabase> => {
+  // The migrator reports each migration it applies
+  mock.method(console, 'log', () => undefined)
+  const db = await PGlite.create()
+  await db.exec(`
+    CREATE ROLE ${MIGRATION_ROLE} NOSUPERUSER;
+    GRANT ALL ON SCHEMA public TO ${MIGRATION_ROLE};
+    SET ROLE ${MIGRATION_ROLE};
+  `)
+  const database = toEmbeddedDatabase(db)
+  AuroraService.setExecutor(database)
+  if (options.migrate !== false) {
+    await AuroraMigrator.migrate()
+  }
+  return database
+}
+
+export const closeDatabase = async (database: EmbeddedDatabase): Promise<void> => {
+  AuroraService.setExecutor(null)
+  mock.restoreAll()
+  await database.close()
+}
+
+export const createUser = async (database: EmbeddedDatabase, email: string, name: string = ''): Promise<string> => {
+  const result = await database.query('INSERT INTO users (email, name) VALUES ($1, $2) RETURNING id', [email, name])
+  return result.rows[0].id
+}
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { classifyDocument, classifyFile } from '../src/utils/document-classifier'
+
+const INCIDENT_PLAN = `
+  Incident Response Plan
+  This plan sets out how the security team handles incidents. Step 1: contain the incident.
+  Step 2: follow the escalation path to the responsible team. Breach notification to regulators
+  happens within 72 hours. Evidence is kept for the post-incident review.`
+
+const RETENTION_POLICY = `
+  Data Retention Policy
+  Records shall be kept for the retention period in the retention schedule. Records must be
+  disposed of securely at the end of it. Exceptions to this policy need the approval of the
+  Data Protection Officer. Non-compliance with this policy may lead to disciplinary action.`
+
+describe('document classifier', () => {
+  it('suggests program documentation and its category from the text', () => {
+    const suggestion = classifyDocument('IR-2024.docx', INCIDENT_PLAN)
+
+    assert.equal(suggestion?.type, 'program')
+    assert.equal(suggestion?.category, 'Incident response plan')
+    assert.equal(suggestion?.basis, 'text')
+    assert.ok(suggestion!.confidence > 0.8, `confidence ${suggestion!.confidence}`)
+  })
+
+  it('suggests a policy document and its category from the text', () => {
+    const suggestion = classifyDocument('records.pdf', RETENTION_POLICY)
+
+    assert.equal(suggestion?.type, 'policy')
+    assert.equal(suggestion?.category, 'Data retention policy')
+    assert.ok(suggestion!.confidence > 0.8, `confidence ${suggestion!.confidence}`)
+  })
+
+  it('reads file names as words, and is less sure of a name alone', () => {
+    const suggestion = classifyDocument('Business_Continuity-Plan.v2.pdf')
+
+    assert.equal(suggestion?.type, 'program')
+    assert.equal(suggestion?.category, 'Business continuity plan')
+    assert.equal(suggestion?.basis, 'name')
+    assert.ok(suggestion!.confidence < classifyDocument('IR-2024.docx', INCIDENT_PLAN)!.confidence)
+  })
+
+  it('names no category when none stands out, and suggests nothing without evidence', () => {
+    const mixed = classifyDocument('notes.txt', 'Training on the risk assessment. Training covers the residual risk.')
+
+    assert.equal(mixed?.type, 'program')
+    assert.equal(mixed?.category, undefined)
+    assert.equal(classifyDocument('scan-0042.pdf'), null)
+    assert.equal(classifyDocument('scan-0042.pdf', 'Lorem ipsum dolor sit amet.'), null)
+  })
+
+  it('reads only the start of a long text', () => {
+    const filler = 'Lorem ipsum dolor sit amet. '.repeat(1000)
+
+    assert.equal(classifyDocument('scan-0042.pdf', `${filler}${RETENTION_POLICY}`), null)
+    assert.equal(classifyDocument('scan-0042.pdf', `${RETENTION_POLICY}${filler}`)?.type, 'policy')
+  })
+
+  it('classifies a file by its extracted text', async () => {
+    const suggestion = await classifyFile(new File([RETENTION_POLICY], 'document.txt', { type: 'text/plain' }))
+
+    assert.equal(suggestion?.type, 'policy')
+    assert.equal(suggestion?.basis, 'text')
+  })
+})
@@ -0,0 +1,103 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AuroraService } from '../src/utils/aurora-service'
+import { insertDocument } from '../src/utils/document-versions'
+import { metadataEditsClause, saveDocumentExtraction, type DocumentExtraction } from '../src/utils/extraction'
+import type { EmbeddedDatabase } from '../src/utils/embedded-database'
+import type { Document, DocumentMetadata } from '../src/types'
+import { closeDatabase, createUser, openDatabase } from './database'
+
+const extractionFinding = (metadata: DocumentMetadata): DocumentExtraction => ({
+  status: 'completed',
+  text: 'Information Security Policy',
+  pages: [],
+  structure: [],
+  metadata
+})
+
+const metadataOf = (document: Document): DocumentMetadata => ({
+  documentTitle: document.documentTitle,
+  owner: document.owner,
+  documentVersion: document.documentVersion,
+  effectiveDate: document.effectiveDate,
+  approvalDate: document.approvalDate,
+  nextReviewDate: document.nextReviewDate
+})
+
+describe('hand-edited document metadata', () => {
+  let database: EmbeddedDatabase
+  let workspaceId: string
+  let editor: string
+  let projectId: string
+
+  const run = (sql: string, params?: any[]) => database.query(sql, params)
+  const inWorkspace = <T>(work: () => Promise<T>): Promise<T> => AuroraService.inWorkspace(workspaceId, work)
+
+  const upload = (filename: string, effectiveDate?: string): Promise<string> =>
+    inWorkspace(() => insertDocument(run, {
+      projectId,
+      filename,
+      filePath: `${projectId}/${filename}`,
+      fileSize: 1,
+      uploadedBy: editor,
+      contentHash: filename,
+      effectiveDate
+    }))
+
+  const extract = (documentId: string, metadata: DocumentMetadata): Promise<Document> =>
+    inWorkspace(() => saveDocumentExtraction(run, documentId, extractionFinding(metadata)))
+
+  before(async () => {
+    database = await openDatabase()
+    editor = await createUser(database, 'lee@example.com', 'Lee')
+    workspaceId = (await AuroraService.createWorkspace('Compliance', editor)).id
+    projectId = (await inWorkspace(() => AuroraService.createProject({ name: 'Policies', userId: editor, workspaceId }))).id
+  })
+
+  after(async () => {
+    await closeDatabase(database)
+  })
+
+  it('marks only metadata fields as edited', () => {
+    assert.equal(metadataEditsClause(['title', 'type', 'category']), null)
+    const clause = metadataEditsClause(['title', 'owner', 'nextReviewDate'])!
+    assert.match(clause, /ARRAY\['owner', 'next_review_date'\]/)
+    assert.doesNotMatch(clause, /filename/)
+  })
+
+  it('fills metadata from each extraction until someone edits it', async () => {
+    const documentId = await upload('security-policy.pdf')
+
+    await extract(documentId, { documentTitle: 'Security Policy', owner: 'CISO', nextReviewDate: '2025-06-30' })
+    const updated = await extract(documentId, { documentTitle: 'Information Security Policy', documentVersion: '2.0' })
+
+    assert.deepEqual(metadataOf(updated), {
+      documentTitle: 'Information Security Policy',
+      owner: 'CISO',
+      documentVersion: '2.0',
+      effectiveDate: undefined,
+      approvalDate: undefined,
+      nextReviewDate: '2025-06-30'
+    })
+  })
+
+  it('keeps what people set or cleared when the document is extracted again', async () => {
+    const documentId = await upload('access-policy.pdf')
+    await extract(documentId, { owner: 'CISO', approvalDate: '2024-01-15', nextReviewDate: '2025-01-15' })
+
+    await inWorkspace(() => AuroraService.updateDocument(documentId, { owner: 'Head of IT', nextReviewDate: null }, editor))
+    const reextracted = await extract(documentId, { owner: 'CISO', approvalDate: '2024-02-01', nextReviewDate: '2025-02-01' })
+
+    assert.equal(reextracted.owner, 'Head of IT')
+    assert.equal(reextracted.nextReviewDate, undefined)
+    assert.equal(reextracted.approvalDate, '2024-02-01')
+  })
+
+  it('treats an effective date given with the upload as set by hand', async () => {
+    const documentId = await upload('retention-policy.pdf', '2024-03-01')
+    const extracted = await extract(documentId, { effectiveDate: '2023-12-01', owner: 'Records team' })
+
+    assert.equal(extracted.effectiveDate, '2024-03-01')
+    assert.equal(extracted.owner, 'Records team')
+  })
+})
@@ -0,0 +1,112 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import { AuroraService } from '../src/utils/aurora-service'
+import {
+  contentHash,
+  getDocumentVersions,
+  insertDocument,
+  isDuplicateDocumentError,
+  makeCurrentVersion,
+  promoteLatestVersion,
+  type NewDocument
+} from '../src/utils/document-versions'
+import type { EmbeddedDatabase } from '../src/utils/embedded-database'
+import { DataValidationError } from '../src/utils/validation'
+import { closeDatabase, createUser, openDatabase } from './database'
+
+describe('document duplicates and versions', () => {
+  let database: EmbeddedDatabase
+  let workspaceId: string
+  let uploader: string
+  let policies: string
+  let procedures: string
+
+  const run = (sql: string, params?: any[]) => database.query(sql, params)
+
+  // Runs `work` in the workspace, with queries on the test database
+  const inWorkspace = <T>(work: () => Promise<T>): Promise<T> => AuroraService.inWorkspace(workspaceId, work)
+
+  const upload = (projectId: string, filename: string, versionOf?: string): Promise<string> =>
+    inWorkspace(() => insertDocument(run, {
+      projectId,
+      filename,
+      filePath: `${projectId}/${filename}`,
+      fileSize: filename.length,
+      uploadedBy: uploader,
+      contentHash: crypto.createHash('sha256').update(filename).digest('hex'),
+      versionOf
+    } satisfies NewDocument))
+
+  // Version numbers of the lineage, newest first, with the current one starred
+  const lineage = async (documentId: string): Promise<string[]> =>
+    (await inWorkspace(() => getDocumentVersions(run, documentId)))
+      .map(document => `${document.version}${document.isCurrent ? '*' : ''}`)
+
+  before(async () => {
+    database = await openDatabase()
+    uploader = await createUser(database, 'kim@example.com', 'Kim')
+    workspaceId = (await AuroraService.createWorkspace('Compliance', uploader)).id
+    const create = (name: string) => inWorkspace(() => AuroraService.createProject({ name, userId: uploader, workspaceId }))
+    policies = (await create('Policies')).id
+    procedures = (await create('Procedures')).id
+  })
+
+  after(async () => {
+    await closeDatabase(database)
+  })
+
+  it('fingerprints a file by the SHA-256 of its bytes', async () => {
+    const bytes = new TextEncoder().encode('Access control policy')
+    assert.equal(await contentHash(bytes), crypto.createHash('sha256').update(bytes).digest('hex'))
+  })
+
+  it('refuses a file already in the project, but not one in another project', async () => {
+    await upload(policies, 'access-policy.pdf')
+
+    await assert.rejects(upload(policies, 'access-policy.pdf'), (error: unknown) =>
+      isDuplicateDocumentError(error) && /already in the project as "access-policy.pdf"/.test((error as Error).message)
+    )
+    assert.ok(await upload(procedures, 'access-policy.pdf'))
+  })
+
+  it('lets the unique index catch a duplicate that got past the check', async () => {
+    const [existing] = (await inWorkspace(() => run('SELECT * FROM documents WHERE project_id = $1', [policies]))).rows
+    await assert.rejects(
+      inWorkspace(() => run(
+        `INSERT INTO documents (project_id, filename, file_path, file_size, uploaded_by, content_hash)
+         VALUES ($1, 'copy.pdf', 'copy.pdf', 1, $2, $3)`,
+        [policies, uploader, existing.content_hash]
+      )),
+      isDuplicateDocumentError
+    )
+  })
+
+  it('numbers each new version in its lineage and makes it the current one', async () => {
+    const first = await upload(policies, 'retention-v1.pdf')
+    const second = await upload(policies, 'retention-v2.pdf', first)
+    // Naming any version of the lineage adds to the end of it
+    await upload(policies, 'retention-v3.pdf', first)
+
+    assert.deepEqual(await lineage(second), ['3*', '2', '1'])
+  })
+
+  it('goes back to an earlier version, and promotes the newest left when the current one is deleted', async () => {
+    const first = await upload(policies, 'backup-v1.pdf')
+    const second = await upload(policies, 'backup-v2.pdf', first)
+
+    await inWorkspace(() => makeCurrentVersion(run, first))
+    assert.deepEqual(await lineage(first), ['2', '1*'])
+
+    const [{ lineage_id: lineageId }] = (await inWorkspace(() => run('DELETE FROM documents WHERE id = $1 RETURNING lineage_id', [first]))).rows
+    await inWorkspace(() => promoteLatestVersion(run, lineageId))
+    assert.deepEqual(await lineage(second), ['2*'])
+  })
+
+  it('refuses a version of a document that isn\'t in the project', async () => {
+    const elsewhere = await upload(procedures, 'incident-response.pdf')
+
+    await assert.rejects(upload(policies, 'incident-response-v2.pdf', elsewhere), DataValidationError)
+    await assert.rejects(upload(policies, 'incident-response-v2.pdf', 'not-a-uuid'), DataValidationError)
+  })
+})
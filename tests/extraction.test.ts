@@ -0,0 +1,226 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { detectFormat, extractDocumentText, type DocumentExtraction, type OcrEngine } from '../src/utils/extraction'
+import { bytes, docFile, docxFile, msgFile, pdfFile, pngFile, pptxFile, xlsxFile } from './fixtures'
+
+const extract = async (data: Uint8Array, name: string, ocr?: OcrEngine): Promise<DocumentExtraction> => {
+  const extraction = await extractDocumentText(data, { name }, { ocr })
+  assert.equal(extraction.status, 'completed', extraction.error)
+  return extraction
+}
+
+const pageText = (extraction: DocumentExtraction, index: number): string =>
+  extraction.text.slice(extraction.pages[index].start, extraction.pages[index].end)
+
+describe('extractDocumentText', () => {
+  it('reads the text layer of each PDF page', async () => {
+    const extraction = await extract(pdfFile([
+      ['Access Control Policy', 'Effective Date: 1 March 2024'],
+      ['Reviews happen every quarter (at least)']
+    ]), 'policy.pdf')
+
+    assert.equal(extraction.pages.length, 2)
+    assert.match(pageText(extraction, 0), /Access Control Policy/)
+    assert.match(pageText(extraction, 0), /Effective Date: 1 March 2024/)
+    assert.match(pageText(extraction, 1), /Reviews happen every quarter \(at least\)/)
+  })
+
+  it('reads DOCX paragraphs and table rows', async () => {
+    const extraction = await extract(await docxFile([
+      'Access Control Policy',
+      'Access is granted on least privilege.',
+      [['Control', 'Owner'], ['MFA', 'IT Security']]
+    ]), 'policy.docx')
+
+    assert.match(extraction.text, /^Access Control Policy$/m)
+    assert.match(extraction.text, /^Access is granted on least privilege\.$/m)
+    assert.match(extraction.text, /^Control\tOwner$/m)
+    assert.match(extraction.text, /^MFA\tIT Security$/m)
+  })
+
+  it('reads the piece table of a Word 97-2003 document', async () => {
+    const extraction = await extract(
+      docFile('Access Control Policy\rControl\u0007Owner\u0007\u0007MFA\u0007IT Security\u0007\u0007\u000CReviewed every quarter\r'),
+      'policy.doc'
+    )
+
+    assert.equal(extraction.pages.length, 2)
+    assert.match(pageText(extraction, 0), /^Access Control Policy$/m)
+    assert.match(pageText(extraction, 0), /^Control\tOwner$/m)
+    assert.match(pageText(extraction, 0), /^MFA\tIT Security$/m)
+    assert.match(pageText(extraction, 1), /Reviewed every quarter/)
+  })
+
+  it('refuses a compound file whose DIFAT chain loops instead of following it', async () => {
+    // Sector 0 is the DIFAT's first sector and links back to itself; the header claims the most
+    // DIFAT sectors a file can have
+    const data = docFile('Access Control Policy\r')
+    const view = new DataView(data.buffer)
+    view.setUint32(0x44, 0, true)
+    view.setUint32(0x48, 0xFFFFFFFF, true)
+    view.setUint32(512 + 508, 0, true)
+    const extraction = await extractDocumentText(data, { name: 'policy.doc' })
+
+    assert.equal(extraction.status, 'failed')
+    assert.match(extraction.error || '', /DIFAT/)
+  })
+
+  it('reads plain text', async () => {
+    const extraction = await extract(bytes('Access Control Policy\n\nAccess is reviewed every quarter.\n'), 'policy.txt')
+
+    assert.match(extraction.text, /Access is reviewed every quarter\./)
+  })
+
+  it('reads images with the OCR engine it is given', async () => {
+    const ocr: OcrEngine = { recognize: async () => ({ text: 'Scanned access review', confidence: 91 }) }
+    const extraction = await extract(pngFile(), 'scan.png', ocr)
+
+    assert.equal(extraction.text, 'Scanned access review')
+    assert.equal(extraction.pages[0].ocrConfidence, 91)
+  })
+
+  it('reports images as unsupported without an OCR engine', async () => {
+    const extraction = await extractDocumentText(pngFile(), { name: 'scan.png' })
+
+    assert.equal(extraction.status, 'unsupported')
+  })
+
+  it('reads each XLSX worksheet as a page of rows', async () => {
+    const extraction = await extract(await xlsxFile({
+      Controls: [['Control', 'Owner'], ['MFA', 'IT Security']],
+      Risks: [['Risk', 'Rating'], ['Data loss', 'High']]
+    }), 'register.xlsx')
+
+    assert.equal(extraction.pages.length, 2)
+    assert.match(pageText(extraction, 0), /^# Controls$/m)
+    assert.match(pageText(extraction, 0), /^MFA\tIT Security$/m)
+    assert.match(pageText(extraction, 1), /^# Risks$/m)
+    assert.match(pageText(extraction, 1), /^Data loss\tHigh$/m)
+  })
+
+  it('refuses XLSX cells past the last column', async () => {
+    for (const reference of ['ZZZZZZ1', 'XFE1']) {
+      const extraction = await extractDocumentText(await xlsxFile({ Controls: [{ A1: 'Control', [reference]: 'Owner' }] }), { name: 'register.xlsx' })
+
+      assert.equal(extraction.status, 'failed')
+      assert.match(extraction.error || '', /past the last column/)
+    }
+  })
+
+  it('keeps far-off XLSX cells without padding the row to their column', async () => {
+    const extraction = await extract(await xlsxFile({
+      Controls: [{ A1: 'Control', B1: 'Owner' }, { A2: 'MFA', XFD2: 'Last column' }]
+    }), 'register.xlsx')
+
+    const row = extraction.text.split('\n').find(line => line.startsWith('MFA')) || ''
+    assert.match(row, /\tLast column$/)
+    assert.ok(row.split('\t').length <= 257, `${row.split('\t').length} columns`)
+  })
+
+  it('refuses an Outlook message whose DIFAT chain loops', async () => {
+    const data = msgFile({
+      subject: 'Quarterly access review', senderName: '', senderEmail: '', to: '', body: '', sentAt: new Date(), attachments: []
+    })
+    const view = new DataView(data.buffer)
+    view.setUint32(0x44, 0, true)
+    view.setUint32(0x48, 0xFFFFFFFF, true)
+    view.setUint32(512 + 508, 0, true)
+    const extraction = await extractDocumentText(data, { name: 'review.msg' })
+
+    assert.equal(extraction.status, 'failed')
+    assert.match(extraction.error || '', /DIFAT/)
+  })
+
+  it('reads CSV rows, with quoted separators', async () => {
+    const extraction = await extract(bytes('Control,Owner\nMFA,"IT Security, Identity"\n'), 'controls.csv')
+
+    assert.match(extraction.text, /^Control\tOwner$/m)
+    assert.match(extraction.text, /^MFA\tIT Security, Identity$/m)
+  })
+
+  it('reads HTML without its markup and scripts', async () => {
+    const extraction = await extract(
+      bytes('<html><head><script>var hidden = 1</script></head><body><h1>Access Control Policy</h1><p>Least privilege &amp; MFA.</p></body></html>'),
+      'policy.html'
+    )
+
+    assert.match(extraction.text, /Access Control Policy/)
+    assert.match(extraction.text, /Least privilege & MFA\./)
+    assert.doesNotMatch(extraction.text, /hidden|<p>/)
+  })
+
+  it('reads Markdown headings into the structure', async () => {
+    const extraction = await extract(bytes('# Access Control Policy\n\n## Scope\n\nAll **employees**.\n'), 'policy.md')
+
+    assert.match(extraction.text, /All employees\./)
+    assert.ok(extraction.structure.some(node => node.title === 'Access Control Policy'))
+  })
+
+  it('reads each PPTX slide as a page with its title as a heading', async () => {
+    const extraction = await extract(await pptxFile([
+      { title: 'Access Reviews', body: ['Quarterly for every system'] },
+      { title: 'Findings', body: ['Two stale accounts'] }
+    ]), 'review.pptx')
+
+    assert.equal(extraction.pages.length, 2)
+    assert.match(pageText(extraction, 0), /^# Access Reviews$/m)
+    assert.match(pageText(extraction, 0), /Quarterly for every system/)
+    assert.match(pageText(extraction, 1), /Two stale accounts/)
+  })
+
+  it('reads an email with its headers and body', async () => {
+    const extraction = await extract(bytes([
+      'From: Jane Doe <jane@example.com>',
+      'To: qa@example.com',
+      'Subject: Quarterly access review',
+      'Date: Fri, 1 Mar 2024 09:30:00 +0000',
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      'All accounts were reviewed.',
+      ''
+    ].join('\r\n')), 'review.eml')
+
+    assert.match(extraction.text, /^# Quarterly access review$/m)
+    assert.match(extraction.text, /Jane Doe/)
+    assert.match(extraction.text, /All accounts were reviewed\./)
+  })
+
+  it('reads an Outlook message with its properties and attachment names', async () => {
+    const extraction = await extract(msgFile({
+      subject: 'Quarterly access review',
+      senderName: 'Jane Doe',
+      senderEmail: 'jane@example.com',
+      to: 'QA Team',
+      body: 'All accounts were reviewed.',
+      sentAt: new Date('2024-03-01T09:30:00Z'),
+      attachments: ['review.xlsx']
+    }), 'review.msg')
+
+    assert.match(extraction.text, /^# Quarterly access review$/m)
+    assert.match(extraction.text, /Jane Doe/)
+    assert.match(extraction.text, /jane@example\.com/)
+    assert.match(extraction.text, /QA Team/)
+    assert.match(extraction.text, /2024-03-01/)
+    assert.match(extraction.text, /review\.xlsx/)
+    assert.match(extraction.text, /All accounts were reviewed\./)
+  })
+
+  it('reports files of other types as unsupported', async () => {
+    const extraction = await extractDocumentText(new Uint8Array([0, 1, 2, 3]), { name: 'archive.bin' })
+
+    assert.equal(extraction.status, 'unsupported')
+    assert.equal(extraction.text, '')
+  })
+})
+
+describe('detectFormat', () => {
+  it('goes by the contents before the name', async () => {
+    assert.equal(detectFormat(pdfFile([['Policy']]), { name: 'policy.txt' }), 'pdf')
+    assert.equal(detectFormat(await docxFile(['Policy']), { name: 'policy.doc' }), 'docx')
+    assert.equal(detectFormat(docFile('Policy\r'), { name: 'policy.bin' }), 'doc')
+    assert.equal(detectFormat(msgFile({
+      subject: '', senderName: '', senderEmail: '', to: '', body: '', sentAt: new Date(), attachments: []
+    }), { name: 'message.msg' }), 'msg')
+    assert.equal(detectFormat(pngFile(), { name: 'scan' }), 'image')
+  })
+})
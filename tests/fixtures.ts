@@ -0,0 +1,275 @@
+import JSZip from 'jszip'
+
+// Smallest files of each supported format that still hold the parts the extractors read,
+// built in memory so the tests don't depend on binary files checked into the repo
+
+const encoder = new TextEncoder()
+
+export const bytes = (text: string): Uint8Array => encoder.encode(text)
+
+const utf16 = (text: string): Uint8Array => {
+  const data = new Uint8Array(text.length * 2)
+  const view = new DataView(data.buffer)
+  Array.from(text).forEach((char, index) => view.setUint16(index * 2, char.charCodeAt(0), true))
+  return data
+}
+
+const zipFile = async (parts: Record<string, string>): Promise<Uint8Array> => {
+  const zip = new JSZip()
+  Object.entries(parts).forEach(([path, content]) => zip.file(path, content))
+  return zip.generateAsync({ type: 'uint8array' })
+}
+
+const relationships = (targets: string[]): string =>
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + targets.map((target, index) => `<Relationship Id="rId${index + 1}" Target="${target}"/>`).join('')
+  + '</Relationships>'
+
+const xmlText = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;')
+
+// Paragraphs are strings, tables are arrays of rows
+export const docxFile = (paragraphs: Array<string | string[][]>): Promise<Uint8Array> => {
+  const paragraph = (text: string): string => `<w:p><w:r><w:t xml:space="preserve">${xmlText(text)}</w:t></w:r></w:p>`
+  const table = (rows: string[][]): string =>
+    `<w:tbl>${rows.map(row => `<w:tr>${row.map(cell => `<w:tc>${paragraph(cell)}</w:tc>`).join('')}</w:tr>`).join('')}</w:tbl>`
+  return zipFile({
+    'word/document.xml': '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>'
+      + paragraphs.map(item => typeof item === 'string' ? paragraph(item) : table(item)).join('')
+      + '</w:body></w:document>'
+  })
+}
+
+// One worksheet per entry, with every cell a shared string. A row is its cells in order, or the
+// cells by their references ({ A1: 'Control', D1: 'Owner' }).
+export const xlsxFile = (sheets: Record<string, Array<string[] | Record<string, string>>>): Promise<Uint8Array> => {
+  const strings: string[] = []
+  const stringIndex = (text: string): number => {
+    if (!strings.includes(text)) {
+      strings.push(text)
+    }
+    return strings.indexOf(text)
+  }
+  const names = Object.keys(sheets)
+  const parts: Record<string, string> = {}
+  names.forEach((name, index) => {
+    parts[`xl/worksheets/sheet${index + 1}.xml`] = '<worksheet><sheetData>'
+      + sheets[name].map(row => `<row>${Array.isArray(row)
+        ? row.map(cell => `<c t="s"><v>${stringIndex(cell)}</v></c>`).join('')
+        : Object.entries(row).map(([reference, cell]) => `<c r="${reference}" t="s"><v>${stringIndex(cell)}</v></c>`).join('')
+      }</row>`).join('')
+      + '</sheetData></worksheet>'
+  })
+  return zipFile({
+    ...parts,
+    'xl/workbook.xml': `<workbook><sheets>${names.map((name, index) => `<sheet name="${xmlText(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': relationships(names.map((_, index) => `worksheets/sheet${index + 1}.xml`)),
+    'xl/sharedStrings.xml': `<sst>${strings.map(text => `<si><t>${xmlText(text)}</t></si>`).join('')}</sst>`
+  })
+}
+
+// One slide per entry: a title and its body paragraphs
+export const pptxFile = (slides: Array<{ title: string; body: string[] }>): Promise<Uint8Array> => {
+  const shape = (paragraphs: string[], placeholder = ''): string =>
+    `<p:sp><p:nvSpPr>${placeholder}</p:nvSpPr><p:txBody>${paragraphs.map(text => `<a:p><a:r><a:t>${xmlText(text)}</a:t></a:r></a:p>`).join('')}</p:txBody></p:sp>`
+  const parts: Record<string, string> = {}
+  slides.forEach((slide, index) => {
+    parts[`ppt/slides/slide${index + 1}.xml`] = '<p:sld><p:cSld><p:spTree>'
+      + shape([slide.title], '<p:nvPr><p:ph type="title"/></p:nvPr>')
+      + shape(slide.body)
+      + '</p:spTree></p:cSld></p:sld>'
+  })
+  return zipFile({
+    ...parts,
+    'ppt/presentation.xml': `<p:presentation><p:sldIdLst>${slides.map((_, index) => `<p:sldId id="${256 + index}" r:id="rId${index + 1}"/>`).join('')}</p:sldIdLst></p:presentation>`,
+    'ppt/_rels/presentation.xml.rels': relationships(slides.map((_, index) => `slides/slide${index + 1}.xml`))
+  })
+}
+
+// One page per entry, each line of text drawn with a standard font
+export const pdfFile = (pages: string[][]): Uint8Array => {
+  const pdfText = (text: string): string => text.replace(/[\\()]/g, match => `\\${match}`)
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${4 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ]
+  pages.forEach((lines, index) => {
+    const content = `BT /F1 12 Tf 72 720 Td 16 TL ${lines.map(line => `(${pdfText(line)}) Tj T*`).join(' ')} ET`
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + index * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+  })
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+  return bytes(pdf)
+}
+
+// Compound File Binary (MS-CFB, version 3) holding the given streams; "/" in a path names the
+// storages a stream is in. A mini stream cutoff of 0 keeps every stream in regular sectors.
+const SECTOR_SIZE = 512
+const END_OF_CHAIN = 0xFFFFFFFE
+const FAT_SECTOR = 0xFFFFFFFD
+const FREE_SECTOR = 0xFFFFFFFF
+const NO_STREAM = 0xFFFFFFFF
+
+interface CompoundEntry {
+  name: string
+  type: 1 | 2 | 5
+  data?: Uint8Array
+  children: CompoundEntry[]
+}
+
+export const compoundFile = (streams: Record<string, Uint8Array>): Uint8Array => {
+  const root: CompoundEntry = { name: 'Root Entry', type: 5, children: [] }
+  Object.entries(streams).forEach(([path, data]) => {
+    const names = path.split('/')
+    const parent = names.slice(0, -1).reduce((storage, name) => {
+      let child = storage.children.find(entry => entry.name === name)
+      if (!child) {
+        child = { name, type: 1, children: [] }
+        storage.children.push(child)
+      }
+      return child
+    }, root)
+    parent.children.push({ name: names[names.length - 1], type: 2, data, children: [] })
+  })
+  const entries: CompoundEntry[] = []
+  const collect = (entry: CompoundEntry): void => {
+    entries.push(entry)
+    entry.children.forEach(collect)
+  }
+  collect(root)
+
+  // Sector 0 is the FAT, then the directory, then each stream in turn
+  const directorySectors = Math.ceil(entries.length * 128 / SECTOR_SIZE)
+  const fat: number[] = [FAT_SECTOR]
+  const chain = (sectors: number): number => {
+    const start = fat.length
+    for (let index = 0; index < sectors; index++) {
+      fat.push(index === sectors - 1 ? END_OF_CHAIN : fat.length + 1)
+    }
+    return start
+  }
+  chain(directorySectors)
+  const starts = entries.map(entry => entry.data?.length ? chain(Math.ceil(entry.data.length / SECTOR_SIZE)) : END_OF_CHAIN)
+  if (fat.length > SECTOR_SIZE / 4) {
+    throw new Error('Compound file fixtures are limited to one FAT sector')
+  }
+
+  const file = new Uint8Array(SECTOR_SIZE * (fat.length + 1))
+  const view = new DataView(file.buffer)
+  const sectorOffset = (sector: number): number => SECTOR_SIZE * (sector + 1)
+  file.set([0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1])
+  view.setUint16(0x18, 0x3E, true)
+  view.setUint16(0x1A, 3, true)
+  view.setUint16(0x1C, 0xFFFE, true)
+  view.setUint16(0x1E, 9, true)
+  view.setUint16(0x20, 6, true)
+  view.setUint32(0x2C, 1, true)
+  view.setUint32(0x30, 1, true)
+  view.setUint32(0x38, 0, true)
+  view.setUint32(0x3C, END_OF_CHAIN, true)
+  view.setUint32(0x44, END_OF_CHAIN, true)
+  for (let index = 0; index < 109; index++) {
+    view.setUint32(0x4C + index * 4, index === 0 ? 0 : FREE_SECTOR, true)
+  }
+  for (let index = 0; index < SECTOR_SIZE / 4; index++) {
+    view.setUint32(sectorOffset(0) + index * 4, fat[index] ?? FREE_SECTOR, true)
+  }
+
+  // Siblings are chained through their right links, under the first child of their storage
+  entries.forEach((entry, index) => {
+    const offset = sectorOffset(1) + index * 128
+    const siblings = entries.find(candidate => candidate.children.includes(entry))?.children || []
+    const next = siblings[siblings.indexOf(entry) + 1]
+    file.set(utf16(`${entry.name}\u0000`), offset)
+    view.setUint16(offset + 64, (entry.name.length + 1) * 2, true)
+    file[offset + 66] = entry.type
+    file[offset + 67] = 1
+    view.setUint32(offset + 68, NO_STREAM, true)
+    view.setUint32(offset + 72, next ? entries.indexOf(next) : NO_STREAM, true)
+    view.setUint32(offset + 76, entry.children.length ? entries.indexOf(entry.children[0]) : NO_STREAM, true)
+    view.setUint32(offset + 116, starts[index], true)
+    view.setUint32(offset + 120, entry.data?.length || 0, true)
+    if (entry.data?.length) {
+      file.set(entry.data, sectorOffset(starts[index]))
+    }
+  })
+  return file
+}
+
+// Word 97-2003 document whose text is a single cp1252 piece. Word's control characters work as
+// in a real file: \r ends a paragraph, \u0007 a table cell, \u000C a page.
+export const docFile = (text: string): Uint8Array => {
+  const TEXT_OFFSET = 0x800
+  const wordDocument = new Uint8Array(TEXT_OFFSET + text.length)
+  const fib = new DataView(wordDocument.buffer)
+  fib.setUint16(0, 0xA5EC, true)
+  fib.setUint16(2, 0xC1, true)
+  // Piece table in 1Table
+  fib.setUint16(0x0A, 0x0200, true)
+  fib.setUint16(0x20, 14, true)
+  fib.setUint16(0x3E, 22, true)
+  fib.setUint32(0x4C, text.length, true)
+  fib.setUint16(0x98, 93, true)
+  Array.from(text).forEach((char, index) => {
+    wordDocument[TEXT_OFFSET + index] = char.charCodeAt(0)
+  })
+
+  // Clx: one piece from character 0 to the end, compressed at TEXT_OFFSET
+  const table = new Uint8Array(21)
+  const clx = new DataView(table.buffer)
+  table[0] = 0x02
+  clx.setUint32(1, 16, true)
+  clx.setUint32(5, 0, true)
+  clx.setUint32(9, text.length, true)
+  clx.setUint32(15, (TEXT_OFFSET * 2) | 0x40000000, true)
+  fib.setUint32(0x9A + 33 * 8, 0, true)
+  fib.setUint32(0x9A + 33 * 8 + 4, table.length, true)
+
+  return compoundFile({ WordDocument: wordDocument, '1Table': table })
+}
+
+export interface OutlookMessage {
+  subject: string
+  senderName: string
+  senderEmail: string
+  to: string
+  body: string
+  sentAt: Date
+  attachments: string[]
+}
+
+// Outlook message with its properties stored as Unicode strings
+export const msgFile = (message: OutlookMessage): Uint8Array => {
+  const property = (tag: string, value: string): [string, Uint8Array] => [`__substg1.0_${tag}001F`, utf16(value)]
+  const properties = new Uint8Array(32 + 16)
+  const view = new DataView(properties.buffer)
+  view.setUint32(32, 0x00390040, true)
+  view.setBigUint64(32 + 8, BigInt(message.sentAt.getTime()) * BigInt(10000) + BigInt('116444736000000000'), true)
+  return compoundFile(Object.fromEntries([
+    property('0037', message.subject),
+    property('0C1A', message.senderName),
+    property('0C1F', message.senderEmail),
+    property('0E04', message.to),
+    property('1000', message.body),
+    ['__properties_version1.0', properties],
+    ...message.attachments.map((name, index): [string, Uint8Array] => {
+      const [stream, value] = property('3707', name)
+      return [`__attach_version1.0_#${String(index).padStart(8, '0')}/${stream}`, value]
+    })
+  ]))
+}
+
+// PNG signature followed by nothing the tests' OCR engine looks at
+export const pngFile = (): Uint8Array =>
+  new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, ...new Array(24).fill(0)])
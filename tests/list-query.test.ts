@@ -0,0 +1,151 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PGlite } from '@electric-sql/pglite'
+import {
+  buildListSql,
+  collectPages,
+  fromSearchParams,
+  paginateItems,
+  toPage,
+  toSearchParams,
+  REQUIREMENT_LIST_SQL,
+  type MemoryListDefinition
+} from '../src/utils/list-query'
+import { toEmbeddedDatabase, type EmbeddedDatabase } from '../src/utils/embedded-database'
+import { DataValidationError } from '../src/utils/validation'
+import { PRIORITY_LEVELS } from '../src/utils/constants'
+import type { RequirementQuery, RequirementSortField } from '../src/types'
+
+interface Row {
+  id: string
+  title: string
+  priority: string
+  status: string
+}
+
+// Several rows share a priority and two share a title as well, so pages split inside ties
+const ROWS: Row[] = [
+  { id: 'r1', title: 'Access reviews', priority: 'high', status: 'compliant' },
+  { id: 'r2', title: 'Backups', priority: 'critical', status: 'partial' },
+  { id: 'r3', title: 'Change control', priority: 'high', status: 'non-compliant' },
+  { id: 'r4', title: 'Data retention', priority: 'low', status: 'compliant' },
+  { id: 'r5', title: 'Encryption', priority: 'high', status: 'partial' },
+  { id: 'r6', title: 'Encryption', priority: 'high', status: 'compliant' },
+  { id: 'r7', title: 'Firewall rules', priority: 'medium', status: 'partial' }
+]
+
+const MEMORY_LIST: MemoryListDefinition<Row, RequirementSortField> = {
+  defaultSort: REQUIREMENT_LIST_SQL.defaultSort,
+  sort: {
+    title: row => row.title,
+    status: row => row.status,
+    priority: row => PRIORITY_LEVELS.indexOf(row.priority as typeof PRIORITY_LEVELS[number]),
+    category: () => '',
+    assignee: () => '',
+    confidence: () => 0,
+    lastUpdated: () => ''
+  },
+  filters: { status: row => row.status, priority: row => row.priority },
+  search: row => [row.title],
+  id: row => row.id
+}
+
+const ids = (rows: Row[]): string[] => rows.map(row => row.id)
+
+describe('list queries', () => {
+  let database: EmbeddedDatabase
+
+  const sqlPage = async (query: RequirementQuery) => {
+    const list = buildListSql(REQUIREMENT_LIST_SQL, query, {
+      select: 'id, title, priority, status',
+      from: 'requirements',
+      conditions: ['TRUE'],
+      params: []
+    })
+    const result = await database.query(list.sql, list.params)
+    const count = await database.query(list.countSql, list.countParams)
+    return toPage(result.rows, count.rows[0].total, list, row => row as Row)
+  }
+
+  const everySqlPage = (query: RequirementQuery) => collectPages(async cursor => {
+    const page = await sqlPage({ ...query, cursor })
+    return { items: page.items, nextCursor: page.pageInfo.nextCursor }
+  })
+
+  const everyMemoryPage = (query: RequirementQuery) => collectPages(async cursor => {
+    const page = paginateItems(ROWS, MEMORY_LIST, { ...query, cursor })
+    return { items: page.items, nextCursor: page.pageInfo.nextCursor }
+  })
+
+  before(async () => {
+    database = toEmbeddedDatabase(await PGlite.create())
+    await database.query(`
+      CREATE TABLE requirements (
+        id TEXT PRIMARY KEY, title TEXT NOT NULL, priority TEXT NOT NULL, status TEXT NOT NULL,
+        description TEXT, category TEXT, assignee TEXT, confidence INTEGER, created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ
+      )
+    `, [])
+    for (const row of ROWS) {
+      await database.query('INSERT INTO requirements (id, title, priority, status) VALUES ($1, $2, $3, $4)', [row.id, row.title, row.priority, row.status])
+    }
+  })
+
+  after(async () => {
+    await database.close()
+  })
+
+  it('walks every row once, in sort order, through pages that split ties', async () => {
+    const expected = ['r2', 'r1', 'r3', 'r5', 'r6', 'r7', 'r4']
+
+    assert.deepEqual(ids(await everySqlPage({ limit: 2 })), expected)
+    assert.deepEqual(ids(await everyMemoryPage({ limit: 2 })), expected)
+  })
+
+  it('pages the same way in SQL and in memory for every sort', async () => {
+    const sorts: RequirementQuery['sort'][] = [
+      [{ field: 'title', direction: 'desc' }],
+      [{ field: 'status', direction: 'asc' }, { field: 'priority', direction: 'asc' }],
+      [{ field: 'priority', direction: 'asc' }, { field: 'title', direction: 'desc' }]
+    ]
+    for (const sort of sorts) {
+      const rows = ids(await everySqlPage({ sort, limit: 3 }))
+
+      assert.equal(new Set(rows).size, ROWS.length)
+      assert.deepEqual(ids(await everyMemoryPage({ sort, limit: 3 })), rows)
+    }
+  })
+
+  it('counts every match and ends with a null cursor', async () => {
+    const query: RequirementQuery = { status: ['partial', 'non-compliant'], search: 'C', limit: 2 }
+    const first = await sqlPage(query)
+    const second = await sqlPage({ ...query, cursor: first.pageInfo.nextCursor! })
+
+    assert.deepEqual(ids(first.items), ['r2', 'r3'])
+    assert.equal(first.pageInfo.total, 3)
+    assert.deepEqual(ids(second.items), ['r5'])
+    assert.equal(second.pageInfo.nextCursor, null)
+    assert.equal(paginateItems(ROWS, MEMORY_LIST, query).pageInfo.total, 3)
+  })
+
+  it('refuses a cursor issued for another sort, and one that was tampered with', async () => {
+    const page = await sqlPage({ limit: 2 })
+    const cursor = page.pageInfo.nextCursor!
+
+    await assert.rejects(sqlPage({ cursor, sort: [{ field: 'title', direction: 'asc' }] }), DataValidationError)
+    assert.throws(() => paginateItems(ROWS, MEMORY_LIST, { cursor, sort: [{ field: 'title', direction: 'asc' }] }), /does not match/)
+    await assert.rejects(sqlPage({ cursor: `${cursor.slice(0, -4)}!!` }), /Malformed cursor/)
+  })
+
+  it('round-trips a query through the query string', () => {
+    const query = {
+      status: ['partial', 'non-compliant'],
+      sort: [{ field: 'priority', direction: 'desc' }, { field: 'title', direction: 'asc' }],
+      search: 'access',
+      limit: 25
+    }
+    const search = toSearchParams(query)
+
+    assert.equal(search, '?status=partial&status=non-compliant&sort=priority%3Adesc%2Ctitle%3Aasc&search=access&limit=25')
+    assert.deepEqual(fromSearchParams(search.slice(1)), query)
+  })
+})
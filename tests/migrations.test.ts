@@ -0,0 +1,88 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AuroraMigrator } from '../src/utils/aurora-migrations'
+import type { EmbeddedDatabase } from '../src/utils/embedded-database'
+import { MIGRATIONS } from '../src/utils/migrations'
+import { closeDatabase, openDatabase } from './database'
+
+// Before the document lineage backfill (migration 015)
+const BEFORE_LINEAGE = 14
+
+const LATEST = MIGRATIONS[MIGRATIONS.length - 1].version
+
+describe('migrations', () => {
+  let database: EmbeddedDatabase
+
+  const tables = async (): Promise<string[]> => {
+    const result = await database.query(
+      "SELECT tablename FROM pg_tables WHERE schemaname = 'public' ORDER BY tablename",
+      []
+    )
+    return result.rows.map(row => row.tablename)
+  }
+
+  const appliedVersions = async (): Promise<number[]> =>
+    (await AuroraMigrator.status()).filter(migration => migration.appliedAt).map(migration => migration.version)
+
+  before(async () => {
+    database = await openDatabase({ migrate: false })
+  })
+
+  after(async () => {
+    await closeDatabase(database)
+  })
+
+  it('runs as a role without superuser rights', async () => {
+    const result = await database.query('SELECT rolsuper FROM pg_roles WHERE rolname = current_user', [])
+    assert.equal(result.rows[0].rolsuper, false)
+  })
+
+  it('applies every migration over existing data, including rows behind row-level security', async () => {
+    await AuroraMigrator.migrate(BEFORE_LINEAGE)
+    assert.deepEqual(await appliedVersions(), MIGRATIONS.filter(m => m.version <= BEFORE_LINEAGE).map(m => m.version))
+
+    const user = await database.query("INSERT INTO users (email, name) VALUES ('qa@example.com', 'QA') RETURNING id", [])
+    const workspace = await database.query("INSERT INTO workspaces (name) VALUES ('Compliance') RETURNING id", [])
+    const workspaceId = workspace.rows[0].id
+    await database.query("SELECT set_config('app.workspace_id', $1, false)", [workspaceId])
+    const project = await database.query(
+      "INSERT INTO projects (name, workspace_id, user_id) VALUES ('Access reviews', $1, $2) RETURNING id",
+      [workspaceId, user.rows[0].id]
+    )
+    await database.query(
+      "INSERT INTO documents (project_id, filename, file_path) VALUES ($1, 'policy.pdf', 'uploads/policy.pdf')",
+      [project.rows[0].id]
+    )
+    // Migrations run without a workspace, so the documents are hidden from the session running them
+    await database.query("SELECT set_config('app.workspace_id', '', false)", [])
+
+    const applied = await AuroraMigrator.migrate()
+    assert.equal(applied[applied.length - 1].version, LATEST)
+    assert.deepEqual(await appliedVersions(), MIGRATIONS.map(m => m.version))
+
+    await database.query("SELECT set_config('app.workspace_id', $1, false)", [workspaceId])
+    const documents = await database.query('SELECT id, lineage_id FROM documents', [])
+    await database.query("SELECT set_config('app.workspace_id', '', false)", [])
+    assert.equal(documents.rows.length, 1)
+    assert.equal(documents.rows[0].lineage_id, documents.rows[0].id)
+  })
+
+  it('is a no-op when everything is applied', async () => {
+    assert.deepEqual(await AuroraMigrator.migrate(), [])
+  })
+
+  it('rolls every migration back, leaving only the ledger', async () => {
+    const reverted = await AuroraMigrator.rollback(MIGRATIONS.length)
+
+    assert.deepEqual(reverted.map(m => m.version), MIGRATIONS.map(m => m.version).reverse())
+    assert.deepEqual(await appliedVersions(), [])
+    assert.deepEqual(await tables(), ['schema_migrations'])
+  })
+
+  it('applies every migration again after rolling back', async () => {
+    const applied = await AuroraMigrator.migrate()
+
+    assert.equal(applied.length, MIGRATIONS.length)
+    assert.deepEqual(await appliedVersions(), MIGRATIONS.map(m => m.version))
+  })
+})
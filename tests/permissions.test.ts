@@ -0,0 +1,91 @@
+import { beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { assertPermission, changesFinalStatus, permissionsFor, PermissionError, ROLE_PERMISSIONS } from '../src/utils/permissions'
+import { DemoStore } from '../src/utils/demo-store'
+import { DEMO_USER } from '../src/utils/demo-scenarios'
+import { USER_ROLES, type UserRole } from '../src/utils/constants'
+
+// From the most to the least trusted
+const ROLES: UserRole[] = ['qa-manager', 'qa-reviewer', 'validator', 'model-developer']
+
+describe('roles', () => {
+  it('grants each role a subset of what the role above it has', () => {
+    assert.deepEqual([...USER_ROLES].sort(), [...ROLES].sort())
+    for (let index = 1; index < ROLES.length; index++) {
+      const above = ROLE_PERMISSIONS[ROLES[index - 1]]
+      const missing = ROLE_PERMISSIONS[ROLES[index]].filter(permission => !above.includes(permission))
+      assert.deepEqual(missing, [], `${ROLES[index]} has permissions ${ROLES[index - 1]} lacks`)
+    }
+  })
+
+  it('keeps verdicts, user management, the audit log and workspaces to QA managers', () => {
+    for (const permission of ['requirement:finalize', 'users:manage', 'audit:read', 'workspace:manage'] as const) {
+      assert.deepEqual(ROLES.filter(role => permissionsFor(role).includes(permission)), ['qa-manager'], permission)
+    }
+    assert.deepEqual(ROLES.filter(role => permissionsFor(role).includes('project:delete')), ['qa-manager'])
+    assert.deepEqual(ROLES.filter(role => permissionsFor(role).includes('requirement:update')), ['qa-manager', 'qa-reviewer', 'validator'])
+  })
+
+  it('hands out copies, so a caller can\'t widen a role', () => {
+    permissionsFor('model-developer').push('users:manage')
+    assert.equal(permissionsFor('model-developer').includes('users:manage'), false)
+  })
+
+  it('treats moving into or out of a final status as a verdict', () => {
+    assert.equal(changesFinalStatus('pending', 'partial'), false)
+    assert.equal(changesFinalStatus('pending', 'compliant'), true)
+    assert.equal(changesFinalStatus('compliant', 'partial'), true)
+    assert.equal(changesFinalStatus('compliant', 'compliant'), false)
+    assert.equal(changesFinalStatus('compliant', undefined), false)
+  })
+
+  it('names the missing permission when it refuses', () => {
+    assert.throws(
+      () => assertPermission(permissionsFor('validator'), 'project:create'),
+      (error: unknown) => error instanceof PermissionError && error.permission === 'project:create'
+    )
+    assert.doesNotThrow(() => assertPermission(permissionsFor('validator'), 'document:upload'))
+  })
+})
+
+describe('role enforcement in the demo store', () => {
+  const OTHER_MANAGER = '00000000-0000-4000-8000-000000000002'
+
+  const actAs = (role: UserRole) => {
+    DemoStore.updateUserRole(OTHER_MANAGER, 'qa-manager')
+    DemoStore.updateUserRole(DEMO_USER.id, role)
+  }
+
+  const openRequirement = () => {
+    const project = DemoStore.getProjects().items[0]
+    const requirement = DemoStore.getRequirements(project.id).items.find(candidate => !changesFinalStatus(candidate.status, 'partial'))
+    assert.ok(requirement, 'the demo scenario has a requirement without a verdict')
+    return { project, requirement }
+  }
+
+  beforeEach(() => {
+    DemoStore.reset('default')
+  })
+
+  it('lets a reviewer work on a requirement but not give the verdict', () => {
+    actAs('qa-reviewer')
+    const { requirement } = openRequirement()
+
+    assert.equal(DemoStore.updateRequirement(String(requirement.id), { status: 'partial' }).status, 'partial')
+    assert.throws(() => DemoStore.updateRequirement(String(requirement.id), { status: 'compliant' }), /Only QA managers/)
+  })
+
+  it('refuses what a model developer may not do', () => {
+    actAs('model-developer')
+    const { project, requirement } = openRequirement()
+
+    assert.throws(() => DemoStore.createProject({ name: 'Shadow project' }), PermissionError)
+    assert.throws(() => DemoStore.updateRequirement(String(requirement.id), { status: 'partial' }), PermissionError)
+    assert.throws(() => DemoStore.deleteProject(project.id), PermissionError)
+    assert.throws(() => DemoStore.getTeam(), PermissionError)
+  })
+
+  it('keeps the last active QA manager from stepping down', () => {
+    assert.throws(() => DemoStore.updateUserRole(DEMO_USER.id, 'qa-reviewer'), /at least one QA manager/)
+  })
+})
@@ -0,0 +1,13 @@
+import os from 'os'
+import path from 'path'
+
+// The API server reads its settings when server/config is first imported, so tests/server.ts
+// imports this module ahead of it. Emails are printed rather than sent, and the tests read the
+// links from what's printed. Stored files go to a folder of this test process, which tests that
+// write files remove afterwards.
+process.env.JWT_SECRET = 'test-secret'
+process.env.MAIL_PROVIDER = 'log'
+process.env.APP_URL = 'http://app.test'
+process.env.REQUIRE_EMAIL_VERIFICATION = 'true'
+process.env.STORAGE_PROVIDER = 'local'
+process.env.UPLOAD_DIR = path.join(os.tmpdir(), `qc-reporter-test-${process.pid}`)
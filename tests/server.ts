@@ -0,0 +1,56 @@
+import './server-env'
+import { once } from 'events'
+import { mock } from 'node:test'
+import type { AddressInfo } from 'net'
+import { createApp } from '../server/app'
+import { SERVER_CONFIG } from '../server/config'
+import { pool } from '../server/db'
+import type { EmbeddedDatabase } from '../src/utils/embedded-database'
+
+export interface TestResponse {
+  status: number
+  body: any
+}
+
+export interface TestServer {
+  request(method: string, path: string, body?: unknown, accessToken?: string): Promise<TestResponse>
+  // Text of every email printed so far, oldest first
+  emails(): string[]
+  close(): Promise<void>
+}
+
+// The API server on a free local port, with its connection pool answered by the test's database.
+// closeDatabase() undoes the mocks.
+export const startServer = async (database: EmbeddedDatabase): Promise<TestServer> => {
+  const connection = { query: database.query, release: () => undefined }
+  mock.method(pool, 'query', (sql: string, params?: any[]) => database.query(sql, params))
+  mock.method(pool, 'connect', async () => connection)
+  const log = mock.method(console, 'log', () => undefined)
+
+  const server = createApp().listen(0, '127.0.0.1')
+  await once(server, 'listening')
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}${SERVER_CONFIG.basePath}`
+
+  return {
+    async request(method, path, body, accessToken) {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      })
+      const text = await response.text()
+      return { status: response.status, body: text ? JSON.parse(text) : null }
+    },
+    emails: () => log.mock.calls
+      .map(call => String(call.arguments[0]))
+      .filter(line => line.startsWith('Email not sent')),
+    close: async () => {
+      server.closeAllConnections()
+      server.close()
+      await once(server, 'close')
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import './server-env'
+import { after, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import { SERVER_CONFIG } from '../server/config'
+import { getStorage, hashStoredFile } from '../server/storage'
+import { putFile, sendInChunks, UploadCancelledError, type ChunkTarget } from '../src/utils/uploads'
+import { assertValidChunk, StorageError, UPLOAD_CHUNK_BYTES, type StorageProvider } from '../src/utils/storage/storage-provider'
+
+// Two whole chunks and a short last one
+const SIZE = 2 * UPLOAD_CHUNK_BYTES + 1000
+
+const fileOf = (size: number): File => {
+  const bytes = new Uint8Array(size)
+  for (let index = 0; index < size; index += 4096) {
+    bytes[index] = index % 251
+  }
+  return new File([bytes], 'evidence.pdf', { type: 'application/pdf' })
+}
+
+const sha256 = async (file: Blob): Promise<string> =>
+  crypto.createHash('sha256').update(new Uint8Array(await file.arrayBuffer())).digest('hex')
+
+// Records the offset of each chunk the storage receives
+const recordingChunks = (storage: StorageProvider, offsets: number[]): StorageProvider =>
+  Object.assign(Object.create(storage), {
+    uploadChunk: (upload: Parameters<StorageProvider['uploadChunk']>[0], offset: number, chunk: Uint8Array) => {
+      offsets.push(offset)
+      return storage.uploadChunk(upload, offset, chunk)
+    }
+  })
+
+describe('resumable uploads', () => {
+  const storage = getStorage()
+
+  after(async () => {
+    await fs.rm(SERVER_CONFIG.uploadDir, { recursive: true, force: true })
+  })
+
+  it('takes only whole chunks on chunk boundaries, except the last', () => {
+    const upload = { key: 'p/file', id: crypto.randomUUID(), size: SIZE }
+
+    assert.doesNotThrow(() => assertValidChunk(upload, 0, new Uint8Array(UPLOAD_CHUNK_BYTES)))
+    assert.doesNotThrow(() => assertValidChunk(upload, 2 * UPLOAD_CHUNK_BYTES, new Uint8Array(1000)))
+    assert.throws(() => assertValidChunk(upload, 0, new Uint8Array(1000)), StorageError)
+    assert.throws(() => assertValidChunk(upload, 1000, new Uint8Array(UPLOAD_CHUNK_BYTES)), StorageError)
+    assert.throws(() => assertValidChunk(upload, 2 * UPLOAD_CHUNK_BYTES, new Uint8Array(2000)), StorageError)
+  })
+
+  it('stores a file chunk by chunk and hashes it as it streams back', async () => {
+    const file = fileOf(SIZE)
+    const offsets: number[] = []
+    const progress: number[] = []
+
+    const key = await putFile(recordingChunks(storage, offsets), 'project-1/evidence.pdf', file, {
+      onProgress: ({ loaded }) => progress.push(loaded)
+    })
+
+    assert.equal(key, 'project-1/evidence.pdf')
+    assert.deepEqual(offsets, [0, UPLOAD_CHUNK_BYTES, 2 * UPLOAD_CHUNK_BYTES])
+    assert.equal(progress.at(-1), SIZE)
+    assert.equal(await hashStoredFile(key), await sha256(file))
+  })
+
+  it('resumes from the bytes the storage already has', async () => {
+    const file = fileOf(SIZE)
+    const offsets: number[] = []
+    let resumeToken = ''
+    const upload = await storage.startUpload('project-1/resumed.pdf', SIZE, { contentType: 'application/pdf' })
+    await storage.uploadChunk(upload, 0, new Uint8Array(await file.slice(0, UPLOAD_CHUNK_BYTES).arrayBuffer()))
+
+    const key = await putFile(recordingChunks(storage, offsets), 'project-1/restarted.pdf', file, {
+      resumeToken: JSON.stringify(upload),
+      onResumeToken: token => { resumeToken = token }
+    })
+
+    assert.equal(key, 'project-1/resumed.pdf')
+    assert.deepEqual(JSON.parse(resumeToken), upload)
+    assert.deepEqual(offsets, [UPLOAD_CHUNK_BYTES, 2 * UPLOAD_CHUNK_BYTES])
+    assert.equal(await hashStoredFile('project-1/resumed.pdf'), await sha256(file))
+  })
+
+  it('refuses a chunk at the wrong offset and an incomplete upload', async () => {
+    const upload = await storage.startUpload('project-1/partial.pdf', SIZE)
+
+    await assert.rejects(
+      storage.uploadChunk(upload, UPLOAD_CHUNK_BYTES, new Uint8Array(UPLOAD_CHUNK_BYTES)),
+      (error: unknown) => error instanceof StorageError && error.code === 'offset_mismatch'
+    )
+    await storage.uploadChunk(upload, 0, new Uint8Array(UPLOAD_CHUNK_BYTES))
+    await assert.rejects(storage.completeUpload(upload), /Upload incomplete/)
+    await storage.abortUpload(upload)
+    await assert.rejects(storage.uploadedBytes(upload), (error: unknown) => error instanceof StorageError && error.code === 'not_found')
+  })
+
+  it('asks where to continue after a failed chunk, and stops when cancelled', async () => {
+    const file = fileOf(UPLOAD_CHUNK_BYTES + 10)
+    let received = 0
+    let failed = false
+    const asked: number[] = []
+    const target: ChunkTarget = {
+      offset: async () => {
+        asked.push(received)
+        return received
+      },
+      send: async (offset, chunk) => {
+        // The first chunk arrives, but the connection drops before the answer does
+        received = offset + chunk.size
+        if (!failed) {
+          failed = true
+          throw new Error('socket hang up')
+        }
+        return received
+      }
+    }
+
+    await sendInChunks(file, target)
+    assert.deepEqual(asked, [0, UPLOAD_CHUNK_BYTES])
+    assert.equal(received, file.size)
+
+    const controller = new AbortController()
+    controller.abort()
+    await assert.rejects(sendInChunks(file, target, { signal: controller.signal }), UploadCancelledError)
+  })
+
+  it('reports a missing file before its stream is read', async () => {
+    await assert.rejects(hashStoredFile('project-1/missing.pdf'), (error: unknown) => error instanceof StorageError && error.code === 'not_found')
+  })
+})
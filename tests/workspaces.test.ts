@@ -0,0 +1,98 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AuroraService, DatabaseError } from '../src/utils/aurora-service'
+import type { EmbeddedDatabase } from '../src/utils/embedded-database'
+import type { Workspace } from '../src/types'
+import { closeDatabase, createUser, openDatabase } from './database'
+
+describe('workspace isolation', () => {
+  let database: EmbeddedDatabase
+  let alice: string
+  let bob: string
+  let compliance: Workspace
+  let audit: Workspace
+  let auditProject: string
+
+  const projectNames = async (): Promise<string[]> => {
+    const result = await database.query('SELECT name FROM projects ORDER BY name', [])
+    return result.rows.map(row => row.name)
+  }
+
+  before(async () => {
+    database = await openDatabase()
+    alice = await createUser(database, 'alice@example.com', 'Alice')
+    bob = await createUser(database, 'bob@example.com', 'Bob')
+    compliance = await AuroraService.createWorkspace('Compliance', alice)
+    audit = await AuroraService.createWorkspace('Internal Audit', bob)
+
+    await AuroraService.inWorkspace(compliance.id, () =>
+      AuroraService.createProject({ name: 'Access reviews', userId: alice, workspaceId: compliance.id })
+    )
+    const project = await AuroraService.inWorkspace(audit.id, () =>
+      AuroraService.createProject({ name: 'Vendor audit', userId: bob, workspaceId: audit.id })
+    )
+    auditProject = project.id
+  })
+
+  after(async () => {
+    await closeDatabase(database)
+  })
+
+  it('shows a workspace only its own projects, even to queries that don\'t filter by workspace', async () => {
+    const names = await AuroraService.inWorkspace(compliance.id, projectNames)
+    const page = await AuroraService.inWorkspace(compliance.id, () => AuroraService.getProjects(compliance.id))
+
+    assert.deepEqual(names, ['Access reviews'])
+    assert.deepEqual(page.items.map(project => project.name), ['Access reviews'])
+    assert.deepEqual(await AuroraService.inWorkspace(audit.id, projectNames), ['Vendor audit'])
+  })
+
+  it('shows no projects outside a workspace', async () => {
+    assert.deepEqual(await projectNames(), [])
+  })
+
+  it('forgets the workspace when its transaction ends', async () => {
+    await AuroraService.inWorkspace(compliance.id, projectNames)
+    const setting = await database.query("SELECT current_setting('app.workspace_id', true) AS workspace_id", [])
+
+    assert.ok(!setting.rows[0].workspace_id)
+  })
+
+  it('refuses to write into another workspace\'s projects', async () => {
+    await assert.rejects(
+      AuroraService.inWorkspace(compliance.id, () =>
+        AuroraService.createProject({ name: 'Planted project', userId: alice, workspaceId: audit.id })
+      ),
+      /row-level security/
+    )
+    await assert.rejects(
+      AuroraService.inWorkspace(compliance.id, () =>
+        database.query("INSERT INTO requirements (project_id, title) VALUES ($1, 'Planted requirement')", [auditProject])
+      ),
+      /row-level security/
+    )
+    const updated = await AuroraService.inWorkspace(compliance.id, () =>
+      database.query("UPDATE projects SET name = 'Renamed' WHERE id = $1", [auditProject])
+    )
+    assert.equal(updated.rowCount, 0)
+    assert.deepEqual(await AuroraService.inWorkspace(audit.id, projectNames), ['Vendor audit'])
+  })
+
+  it('treats a workspace the user isn\'t a member of as missing', async () => {
+    await assert.rejects(AuroraService.getMemberWorkspace(audit.id, alice), (error: unknown) =>
+      error instanceof DatabaseError && error.code === 'not_found'
+    )
+    await assert.rejects(AuroraService.resolveWorkspace(alice, audit.id), /Workspace not found/)
+    await assert.rejects(AuroraService.resolveWorkspace(alice, 'not-a-uuid'), /Workspace not found/)
+    assert.equal((await AuroraService.resolveWorkspace(alice)).id, compliance.id)
+  })
+
+  it('gives a user without a workspace a personal one', async () => {
+    const carol = await createUser(database, 'carol@example.com', 'Carol')
+    const workspace = await AuroraService.resolveWorkspace(carol)
+
+    assert.equal(workspace.name, 'Carol\'s workspace')
+    assert.equal(workspace.role, 'qa-manager')
+    assert.deepEqual(await AuroraService.inWorkspace(workspace.id, projectNames), [])
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import JSZip from 'jszip'
+import { contentHash } from '../src/utils/document-versions'
+import {
+  folderTree,
+  knownContent,
+  prepareImport,
+  readArchive,
+  readImportFile,
+  ruleTypeFor,
+  SKIP_DOCUMENT_TYPE,
+  type ImportRule
+} from '../src/utils/zip-import'
+import type { Document } from '../src/types'
+
+const zipOf = async (entries: Record<string, string>): Promise<File> => {
+  const zip = new JSZip()
+  Object.entries(entries).forEach(([path, content]) => zip.file(path, content))
+  return new File([await zip.generateAsync({ type: 'uint8array' })], 'client.zip', { type: 'application/zip' })
+}
+
+const RULES: ImportRule[] = [
+  { kind: 'folder', match: 'Policies', documentType: 'policy' },
+  { kind: 'folder', match: 'Policies/Drafts', documentType: SKIP_DOCUMENT_TYPE },
+  { kind: 'folder', match: 'Procedures', documentType: 'program' },
+  { kind: 'pattern', match: 'SOP-*', documentType: 'sop' },
+  { kind: 'pattern', match: 'Procedures/*.xlsx', documentType: 'evidence' }
+]
+
+const typeOf = (path: string): string | undefined => ruleTypeFor({ path, name: path.split('/').pop()! }, RULES)
+
+describe('ZIP import rules', () => {
+  it('prefers patterns to folders, and a deeper folder to the folders around it', () => {
+    assert.equal(typeOf('Policies/access.pdf'), 'policy')
+    assert.equal(typeOf('Policies/Drafts/access.pdf'), SKIP_DOCUMENT_TYPE)
+    assert.equal(typeOf('Policies/Drafts/SOP-backups.pdf'), 'sop')
+    assert.equal(typeOf('Procedures/register.xlsx'), 'evidence')
+    // Path patterns don't reach into subfolders
+    assert.equal(typeOf('Procedures/2024/register.xlsx'), 'program')
+    assert.equal(typeOf('PoliciesArchive/access.pdf'), undefined)
+  })
+
+  it('reads an archive without system files, nested archives or unsupported formats', async () => {
+    const archive = await readArchive(await zipOf({
+      'Policies/access.pdf': 'access',
+      'Policies/.DS_Store': '',
+      '__MACOSX/Policies/._access.pdf': '',
+      'Procedures/old.zip': '',
+      'Procedures/tool.exe': '',
+      'readme.txt': 'readme'
+    }))
+
+    assert.deepEqual(archive.files.map(file => file.path), ['Policies/access.pdf', 'readme.txt'])
+    assert.deepEqual(archive.skipped.map(result => [result.path, result.reason]), [
+      ['Procedures/old.zip', 'Archives inside the archive are not imported'],
+      ['Procedures/tool.exe', 'Unsupported file type']
+    ])
+    assert.deepEqual(folderTree(archive.files).children.map(folder => [folder.path, folder.fileCount]), [['Policies', 1]])
+  })
+
+  it('gives every file a result and marks the ones no rule matched for classification', async () => {
+    const archive = await readArchive(await zipOf({
+      'Policies/access.pdf': 'access',
+      'Policies/Drafts/retention.pdf': 'draft',
+      'Procedures/backups.docx': 'backups',
+      'notes.txt': 'notes',
+      'tool.exe': ''
+    }))
+    const { files, results } = prepareImport(archive, RULES, 'program')
+
+    assert.deepEqual(files.map(file => [file.path, file.documentType, file.classify]), [
+      ['notes.txt', 'program', true],
+      ['Policies/access.pdf', 'policy', false],
+      ['Procedures/backups.docx', 'program', false]
+    ])
+    assert.deepEqual(results.map(result => [result.path, result.outcome]), [
+      ['tool.exe', 'skipped'],
+      ['Policies/Drafts/retention.pdf', 'skipped']
+    ])
+    assert.deepEqual(prepareImport(archive, RULES, SKIP_DOCUMENT_TYPE).files.map(file => file.path), [
+      'Policies/access.pdf',
+      'Procedures/backups.docx'
+    ])
+  })
+
+  it('leaves out files already in the report or earlier in the archive', async () => {
+    const archive = await readArchive(await zipOf({
+      'Policies/access.pdf': 'access',
+      'Policies/copy-of-access.pdf': 'access',
+      'Procedures/backups.docx': 'backups'
+    }))
+    const existing = { title: 'Backup procedure', contentHash: await contentHash(new TextEncoder().encode('backups')) } as Document
+    const seen = knownContent([existing])
+    const { files } = prepareImport(archive, RULES, 'program')
+
+    const read = []
+    for (const file of files) {
+      read.push(await readImportFile(archive, file, seen))
+    }
+
+    assert.ok('file' in read[0] && read[0].file.name === 'access.pdf')
+    assert.deepEqual('result' in read[1] && read[1].result, {
+      path: 'Policies/copy-of-access.pdf', outcome: 'duplicate', documentType: 'policy', reason: 'Same file as Policies/access.pdf'
+    })
+    assert.deepEqual('result' in read[2] && read[2].result, {
+      path: 'Procedures/backups.docx', outcome: 'duplicate', documentType: 'program', reason: 'Same file as "Backup procedure" in the report'
+    })
+  })
+})